@@ -0,0 +1,382 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * BPMN Tests
+ *
+ * Tests for the BPMN IR: parsing collaborations with pools, lanes, message
+ * flows, boundary events and event definitions, BPMN 2.0 export with
+ * diagram interchange, and the swimlane SVG and Draw.io renderers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    extractBpmnData,
+    generateBpmn,
+    generateBpmnCode,
+    generateBpmnDrawio,
+    generateBpmnSvg,
+    layoutBpmnDiagram,
+    parseBpmn,
+    parseBpmnDiagram,
+    type Diagram,
+} from '../src/index';
+
+const camundaSource = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" xmlns:di="http://www.omg.org/spec/DD/20100524/DI" id="Definitions_1" targetNamespace="http://bpmn.io/schema/bpmn">
+  <bpmn:collaboration id="Collaboration_1">
+    <bpmn:participant id="Participant_Shop" name="Shop" processRef="Process_Order" />
+    <bpmn:participant id="Participant_Customer" name="Customer" />
+    <bpmn:messageFlow id="Flow_Confirm" name="confirmation" sourceRef="Task_Ship" targetRef="Participant_Customer" messageRef="Message_Confirm" />
+  </bpmn:collaboration>
+  <bpmn:message id="Message_Confirm" name="Confirmation" />
+  <bpmn:error id="Error_Stock" name="Out of stock" errorCode="E42" />
+  <bpmn:process id="Process_Order" isExecutable="true">
+    <bpmn:laneSet id="LaneSet_1">
+      <bpmn:lane id="Lane_Sales" name="Sales">
+        <bpmn:flowNodeRef>Start_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Task_Check</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Gateway_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>Timer_1</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>End_Error</bpmn:flowNodeRef>
+      </bpmn:lane>
+      <bpmn:lane id="Lane_Warehouse" name="Warehouse">
+        <bpmn:flowNodeRef>Task_Ship</bpmn:flowNodeRef>
+        <bpmn:flowNodeRef>End_1</bpmn:flowNodeRef>
+      </bpmn:lane>
+    </bpmn:laneSet>
+    <bpmn:startEvent id="Start_1" name="Order received">
+      <bpmn:messageEventDefinition id="MED_1" />
+    </bpmn:startEvent>
+    <bpmn:userTask id="Task_Check" name="Check stock">
+      <bpmn:dataOutputAssociation id="Assoc_Out">
+        <bpmn:targetRef>Data_Report</bpmn:targetRef>
+      </bpmn:dataOutputAssociation>
+    </bpmn:userTask>
+    <bpmn:exclusiveGateway id="Gateway_1" name="In stock?" default="Flow_Yes" />
+    <bpmn:serviceTask id="Task_Ship" name="Ship order" />
+    <bpmn:endEvent id="End_1" name="Shipped" />
+    <bpmn:endEvent id="End_Error" name="Cancelled">
+      <bpmn:errorEventDefinition errorRef="Error_Stock" />
+    </bpmn:endEvent>
+    <bpmn:boundaryEvent id="Timer_1" name="2 days" cancelActivity="false" attachedToRef="Task_Check">
+      <bpmn:timerEventDefinition>
+        <bpmn:timeDuration>P2D</bpmn:timeDuration>
+      </bpmn:timerEventDefinition>
+    </bpmn:boundaryEvent>
+    <bpmn:dataObjectReference id="Data_Report" name="Stock report" dataObjectRef="DataObject_1" />
+    <bpmn:dataObject id="DataObject_1" />
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start_1" targetRef="Task_Check" />
+    <bpmn:sequenceFlow id="Flow_2" sourceRef="Task_Check" targetRef="Gateway_1" />
+    <bpmn:sequenceFlow id="Flow_Yes" name="yes" sourceRef="Gateway_1" targetRef="Task_Ship" />
+    <bpmn:sequenceFlow id="Flow_No" name="no" sourceRef="Gateway_1" targetRef="End_Error">
+      <bpmn:conditionExpression>\${!inStock}</bpmn:conditionExpression>
+    </bpmn:sequenceFlow>
+    <bpmn:sequenceFlow id="Flow_3" sourceRef="Task_Ship" targetRef="End_1" />
+  </bpmn:process>
+  <bpmndi:BPMNDiagram id="BPMNDiagram_1">
+    <bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="Collaboration_1">
+      <bpmndi:BPMNShape id="Participant_Shop_di" bpmnElement="Participant_Shop" isHorizontal="true">
+        <dc:Bounds x="100" y="80" width="700" height="300" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Lane_Sales_di" bpmnElement="Lane_Sales" isHorizontal="true">
+        <dc:Bounds x="130" y="80" width="670" height="150" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Lane_Warehouse_di" bpmnElement="Lane_Warehouse" isHorizontal="true">
+        <dc:Bounds x="130" y="230" width="670" height="150" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Participant_Customer_di" bpmnElement="Participant_Customer" isHorizontal="true">
+        <dc:Bounds x="100" y="420" width="700" height="60" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Start_1_di" bpmnElement="Start_1">
+        <dc:Bounds x="172" y="132" width="36" height="36" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Task_Check_di" bpmnElement="Task_Check">
+        <dc:Bounds x="260" y="110" width="100" height="80" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Gateway_1_di" bpmnElement="Gateway_1" isMarkerVisible="true">
+        <dc:Bounds x="415" y="125" width="50" height="50" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Task_Ship_di" bpmnElement="Task_Ship">
+        <dc:Bounds x="520" y="270" width="100" height="80" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="End_1_di" bpmnElement="End_1">
+        <dc:Bounds x="682" y="292" width="36" height="36" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="End_Error_di" bpmnElement="End_Error">
+        <dc:Bounds x="682" y="132" width="36" height="36" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Data_Report_di" bpmnElement="Data_Report">
+        <dc:Bounds x="292" y="285" width="36" height="50" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNShape id="Timer_1_di" bpmnElement="Timer_1">
+        <dc:Bounds x="292" y="172" width="36" height="36" />
+      </bpmndi:BPMNShape>
+      <bpmndi:BPMNEdge id="Flow_1_di" bpmnElement="Flow_1">
+        <di:waypoint x="208" y="150" />
+        <di:waypoint x="260" y="150" />
+      </bpmndi:BPMNEdge>
+      <bpmndi:BPMNEdge id="Flow_2_di" bpmnElement="Flow_2">
+        <di:waypoint x="360" y="150" />
+        <di:waypoint x="415" y="150" />
+      </bpmndi:BPMNEdge>
+      <bpmndi:BPMNEdge id="Flow_Yes_di" bpmnElement="Flow_Yes">
+        <di:waypoint x="440" y="175" />
+        <di:waypoint x="440" y="310" />
+        <di:waypoint x="520" y="310" />
+      </bpmndi:BPMNEdge>
+      <bpmndi:BPMNEdge id="Flow_No_di" bpmnElement="Flow_No">
+        <di:waypoint x="465" y="150" />
+        <di:waypoint x="682" y="150" />
+      </bpmndi:BPMNEdge>
+      <bpmndi:BPMNEdge id="Flow_3_di" bpmnElement="Flow_3">
+        <di:waypoint x="620" y="310" />
+        <di:waypoint x="682" y="310" />
+      </bpmndi:BPMNEdge>
+      <bpmndi:BPMNEdge id="Assoc_Out_di" bpmnElement="Assoc_Out">
+        <di:waypoint x="310" y="190" />
+        <di:waypoint x="310" y="285" />
+      </bpmndi:BPMNEdge>
+      <bpmndi:BPMNEdge id="Flow_Confirm_di" bpmnElement="Flow_Confirm">
+        <di:waypoint x="570" y="350" />
+        <di:waypoint x="570" y="420" />
+      </bpmndi:BPMNEdge>
+    </bpmndi:BPMNPlane>
+  </bpmndi:BPMNDiagram>
+</bpmn:definitions>`;
+
+describe('BPMN parsing', () => {
+    it('should keep pools, lanes and message flows', () => {
+        const bpmn = parseBpmnDiagram(camundaSource);
+
+        expect(bpmn.pools.map(pool => pool.id)).toEqual(['Participant_Shop', 'Participant_Customer']);
+        expect(bpmn.pools[0].processId).toBe('Process_Order');
+        expect(bpmn.pools[1].processId).toBeUndefined();
+        expect(bpmn.pools[0].lanes.map(lane => lane.name)).toEqual(['Sales', 'Warehouse']);
+        expect(bpmn.pools[0].lanes[1].elements).toEqual(['Task_Ship', 'End_1']);
+
+        const message = bpmn.flows.find(flow => flow.id === 'Flow_Confirm')!;
+        expect(message.type).toBe('messageFlow');
+        expect(message.target).toBe('Participant_Customer');
+        expect(message.messageRef).toBe('Message_Confirm');
+    });
+
+    it('should keep element types and event definitions', () => {
+        const bpmn = parseBpmnDiagram(camundaSource);
+        const byId = new Map(bpmn.elements.map(element => [element.id, element]));
+
+        expect(byId.get('Task_Check')!.type).toBe('userTask');
+        expect(byId.get('Gateway_1')!.type).toBe('exclusiveGateway');
+        expect(byId.get('Gateway_1')!.defaultFlow).toBe('Flow_Yes');
+        expect(byId.get('Start_1')!.eventDefinitions).toEqual([{ type: 'message', id: 'MED_1' }]);
+        expect(byId.get('End_Error')!.eventDefinitions![0]).toMatchObject({ type: 'error', ref: 'Error_Stock' });
+
+        const timer = byId.get('Timer_1')!;
+        expect(timer.type).toBe('boundaryEvent');
+        expect(timer.attachedTo).toBe('Task_Check');
+        expect(timer.cancelActivity).toBe(false);
+        expect(timer.eventDefinitions![0]).toEqual({ type: 'timer', timer: 'timeDuration', expression: 'P2D' });
+
+        expect(byId.get('Data_Report')!.type).toBe('dataObjectReference');
+        expect(bpmn.flows.find(flow => flow.id === 'Assoc_Out')).toMatchObject({ type: 'dataOutputAssociation', source: 'Task_Check', target: 'Data_Report' });
+        expect(bpmn.flows.find(flow => flow.id === 'Flow_No')!.condition).toBe('${!inStock}');
+        expect(bpmn.rootElements).toContainEqual({ type: 'error', id: 'Error_Stock', name: 'Out of stock', code: 'E42' });
+    });
+
+    it('should read diagram interchange bounds and waypoints', () => {
+        const bpmn = parseBpmnDiagram(camundaSource);
+
+        expect(bpmn.pools[0].bounds).toEqual({ x: 100, y: 80, width: 700, height: 300 });
+        expect(bpmn.pools[0].lanes[0].bounds).toEqual({ x: 130, y: 80, width: 670, height: 150 });
+        expect(bpmn.elements.find(element => element.id === 'Gateway_1')!.bounds).toEqual({ x: 415, y: 125, width: 50, height: 50 });
+        expect(bpmn.flows.find(flow => flow.id === 'Flow_Yes')!.waypoints).toEqual([
+            { x: 440, y: 175 }, { x: 440, y: 310 }, { x: 520, y: 310 },
+        ]);
+    });
+
+    it('should embed BPMN data into a generic diagram', () => {
+        const diagram = parseBpmn(camundaSource);
+
+        expect(diagram.type).toBe('bpmn');
+        expect(diagram.groups?.map(group => group.id)).toEqual(expect.arrayContaining(['Participant_Shop', 'Lane_Sales', 'Lane_Warehouse']));
+        expect(diagram.groups?.find(group => group.id === 'Lane_Warehouse')!.children).toEqual(['Task_Ship', 'End_1']);
+        expect(diagram.edges.find(edge => edge.id === 'Flow_Confirm')!.arrow.lineType).toBe('dashed');
+        expect(extractBpmnData(diagram)).toEqual(parseBpmnDiagram(camundaSource));
+    });
+});
+
+describe('BPMN export', () => {
+    it('should round-trip lanes, bounds and waypoints', () => {
+        const original = parseBpmnDiagram(camundaSource);
+        const xml = generateBpmnCode(original);
+
+        expect(xml).toContain('<bpmn:collaboration id="Collaboration_1">');
+        expect(xml).toContain('<bpmn:laneSet');
+        expect(xml).toContain('<bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="Collaboration_1">');
+        expect(xml).toContain('<bpmndi:BPMNShape id="Lane_Sales_di" bpmnElement="Lane_Sales" isHorizontal="true">');
+
+        const reparsed = parseBpmnDiagram(xml);
+        expect(reparsed.pools).toEqual(original.pools);
+        expect(reparsed.flows).toEqual(original.flows);
+        expect(reparsed.elements).toEqual(original.elements);
+        expect(reparsed.rootElements).toEqual(expect.arrayContaining(original.rootElements!));
+    });
+
+    it('should survive a round-trip through the generic diagram', () => {
+        const xml = convert(camundaSource, { from: 'bpmn', to: 'bpmn' }).output;
+        const reparsed = parseBpmnDiagram(xml);
+
+        expect(reparsed.pools[0].lanes.map(lane => lane.elements)).toEqual([
+            ['Start_1', 'Task_Check', 'Gateway_1', 'Timer_1', 'End_Error'],
+            ['Task_Ship', 'End_1'],
+        ]);
+        expect(reparsed.elements.find(element => element.id === 'Timer_1')!.attachedTo).toBe('Task_Check');
+    });
+
+    it('should keep extension attributes and their namespaces', () => {
+        const source = camundaSource
+            .replace('id="Definitions_1"', 'xmlns:camunda="http://camunda.org/schema/1.0/bpmn" id="Definitions_1" camunda:diagramRelationId="rel-1"')
+            .replace('<bpmn:process id="Process_Order" isExecutable="true">', '<bpmn:process id="Process_Order" isExecutable="true" camunda:versionTag="v2">')
+            .replace('<bpmn:serviceTask id="Task_Ship" name="Ship order" />', [
+                '<bpmn:serviceTask id="Task_Ship" name="Ship order" camunda:type="external" camunda:topic="shipping">',
+                '      <bpmn:extensionElements><camunda:properties /></bpmn:extensionElements>',
+                '    </bpmn:serviceTask>',
+            ].join('\n'))
+            .replace('<bpmn:sequenceFlow id="Flow_3"', '<bpmn:sequenceFlow id="Flow_3" camunda:asyncBefore="true"');
+        const original = parseBpmnDiagram(source);
+
+        expect(original.elements.find(element => element.id === 'Task_Ship')!.extensionAttributes)
+            .toEqual({ 'camunda:type': 'external', 'camunda:topic': 'shipping' });
+        expect(original.metadata?.warnings).toEqual(['Dropped the extension elements of Task_Ship']);
+
+        const xml = convert(source, { from: 'bpmn', to: 'bpmn' }).output;
+        expect(xml).toContain('xmlns:camunda="http://camunda.org/schema/1.0/bpmn"');
+        expect(xml).toContain('camunda:diagramRelationId="rel-1"');
+        expect(xml).toContain('<bpmn:process id="Process_Order" isExecutable="true" camunda:versionTag="v2">');
+        expect(xml).toContain('<bpmn:serviceTask id="Task_Ship" name="Ship order" camunda:type="external" camunda:topic="shipping"/>');
+        expect(xml).toContain('<bpmn:sequenceFlow id="Flow_3" sourceRef="Task_Ship" targetRef="End_1" camunda:asyncBefore="true"/>');
+
+        const reparsed = parseBpmnDiagram(xml);
+        expect(reparsed.elements).toEqual(original.elements);
+        expect(reparsed.flows).toEqual(original.flows);
+        expect(reparsed.processes).toEqual(original.processes);
+    });
+
+    it('should write event definitions, data objects and boundary events', () => {
+        const xml = generateBpmnCode(parseBpmnDiagram(camundaSource));
+
+        expect(xml).toContain('<bpmn:boundaryEvent id="Timer_1" name="2 days" attachedToRef="Task_Check" cancelActivity="false">');
+        expect(xml).toContain('<bpmn:timeDuration xsi:type="bpmn:tFormalExpression">P2D</bpmn:timeDuration>');
+        expect(xml).toContain('<bpmn:errorEventDefinition errorRef="Error_Stock"/>');
+        expect(xml).toContain('<bpmn:dataObject id="DataObject_1"/>');
+        expect(xml).toContain('<bpmn:messageFlow id="Flow_Confirm" name="confirmation" sourceRef="Task_Ship" targetRef="Participant_Customer" messageRef="Message_Confirm"/>');
+    });
+
+    it('should lay out generic flowcharts with lanes from groups', () => {
+        const diagram: Diagram = {
+            id: 'flow',
+            type: 'flowchart',
+            nodes: [
+                { id: 'a', label: 'Start', shape: 'circle', position: { x: 0, y: 0 }, size: { width: 40, height: 40 } },
+                { id: 'b', label: 'Review', shape: 'rounded-rectangle', position: { x: 0, y: 0 }, size: { width: 100, height: 60 } },
+                { id: 'c', label: 'Approved?', shape: 'diamond', position: { x: 0, y: 0 }, size: { width: 50, height: 50 } },
+                { id: 'd', label: 'Done', shape: 'circle', position: { x: 0, y: 0 }, size: { width: 40, height: 40 } },
+            ],
+            edges: [
+                { id: 'e1', source: 'a', target: 'b', arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' } },
+                { id: 'e2', source: 'b', target: 'c', arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' } },
+                { id: 'e3', source: 'c', target: 'd', label: 'yes', arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' } },
+            ],
+            groups: [
+                { id: 'clerk', label: 'Clerk', children: ['a', 'b'] },
+                { id: 'manager', label: 'Manager', children: ['c', 'd'] },
+            ],
+        };
+        const xml = generateBpmn(diagram);
+        const bpmn = parseBpmnDiagram(xml);
+
+        expect(bpmn.pools).toHaveLength(1);
+        expect(bpmn.pools[0].lanes.map(lane => lane.name)).toEqual(['Clerk', 'Manager']);
+        expect(bpmn.elements.map(element => element.type)).toEqual(['startEvent', 'task', 'exclusiveGateway', 'endEvent']);
+        for (const element of bpmn.elements) {
+            expect(element.bounds).toBeDefined();
+        }
+        for (const flow of bpmn.flows) {
+            expect(flow.waypoints!.length).toBeGreaterThanOrEqual(2);
+        }
+
+        // Elements sit inside their lanes
+        const [clerk, manager] = bpmn.pools[0].lanes;
+        const review = bpmn.elements.find(element => element.id === 'b')!.bounds!;
+        const done = bpmn.elements.find(element => element.id === 'd')!.bounds!;
+        expect(review.y).toBeGreaterThanOrEqual(clerk.bounds!.y);
+        expect(review.y + review.height).toBeLessThanOrEqual(clerk.bounds!.y + clerk.bounds!.height);
+        expect(done.y).toBeGreaterThanOrEqual(manager.bounds!.y);
+    });
+});
+
+describe('BPMN renderers', () => {
+    it('should keep interchange geometry in the layout', () => {
+        const layout = layoutBpmnDiagram(parseBpmnDiagram(camundaSource));
+
+        expect(layout.pools.find(box => box.pool.id === 'Participant_Shop')).toMatchObject({ x: 100, y: 80, width: 700, height: 300 });
+        expect(layout.shapes.find(box => box.element.id === 'Task_Ship')!.container).toBe('Lane_Warehouse');
+        expect(layout.shapes[layout.shapes.length - 1].element.id).toBe('Timer_1');
+    });
+
+    it('should keep existing bounds and place elements missing from partial interchange', () => {
+        const partial = camundaSource.replace(/\s*<bpmndi:BPMNShape id="End_1_di"[\s\S]*?<\/bpmndi:BPMNShape>/, '');
+        const layout = layoutBpmnDiagram(parseBpmnDiagram(partial));
+
+        const shop = layout.pools.find(box => box.pool.id === 'Participant_Shop')!;
+        expect(shop).toMatchObject({ x: 100, y: 80, width: 700, height: 300 });
+        expect(layout.shapes.find(box => box.element.id === 'Task_Ship')).toMatchObject({ x: 520, y: 270, width: 100, height: 80 });
+        expect(layout.shapes.find(box => box.element.id === 'Timer_1')).toMatchObject({ x: 292, y: 172 });
+
+        // The missing end event follows the task that flows into it, inside its pool
+        const end = layout.shapes.find(box => box.element.id === 'End_1')!;
+        expect(end.x).toBeGreaterThan(620);
+        expect(end.y).toBeGreaterThanOrEqual(shop.y);
+        expect(end.y + end.height).toBeLessThanOrEqual(shop.y + shop.height);
+    });
+
+    it('should render pools and lanes as SVG swimlanes', () => {
+        const svg = generateBpmnSvg(parseBpmn(camundaSource));
+
+        expect(svg).toContain('class="bpmn-pool" data-id="Participant_Shop"');
+        expect(svg).toContain('class="bpmn-lane" data-id="Lane_Warehouse"');
+        expect(svg).toContain('transform="rotate(-90');
+        expect(svg).toContain('data-type="messageFlow"');
+        expect(svg).toContain('data-type="boundaryEvent"');
+        expect(svg).toContain('marker-start="url(#bpmn-message-start)"');
+    });
+
+    it('should render Draw.io swimlanes with elements inside lanes', () => {
+        const xml = generateBpmnDrawio(parseBpmn(camundaSource));
+        const doc = new DOMParser().parseFromString(xml, 'text/xml');
+        const cells = Array.from(doc.getElementsByTagName('mxCell'));
+        const byValue = (value: string) => cells.find(cell => cell.getAttribute('value') === value)!;
+
+        const lane = byValue('Warehouse');
+        expect(lane.getAttribute('style')).toContain('swimlane');
+        expect(lane.getAttribute('style')).toContain('horizontal=0');
+        expect(lane.getAttribute('parent')).toBe(byValue('Shop').getAttribute('id'));
+
+        const ship = byValue('Ship order');
+        expect(ship.getAttribute('parent')).toBe(lane.getAttribute('id'));
+        expect(ship.getAttribute('style')).toContain('taskMarker=service');
+        const geometry = ship.getElementsByTagName('mxGeometry')[0];
+        expect(geometry.getAttribute('x')).toBe('390');
+        expect(geometry.getAttribute('y')).toBe('40');
+
+        expect(byValue('2 days').getAttribute('style')).toContain('outline=boundNonint;symbol=timer');
+        expect(byValue('In stock?').getAttribute('style')).toContain('gwType=exclusive');
+    });
+
+    it('should route BPMN diagrams to the swimlane renderers', () => {
+        expect(convert(camundaSource, { from: 'bpmn', to: 'svg' }).output).toContain('class="bpmn-lane"');
+        expect(convert(camundaSource, { from: 'bpmn', to: 'drawio' }).output).toContain('shape=mxgraph.bpmn.gateway2');
+    });
+});
@@ -0,0 +1,296 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * C4 Tests
+ *
+ * Tests for the C4 IR: Structurizr workspaces with element kinds,
+ * technology, tags, groups, deployment environments and views, Mermaid C4
+ * and C4-PlantUML macros, and conversion between the three
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    extractC4Data,
+    generateC4Diagram,
+    generatePlantUMLC4,
+    generateStructurizr,
+    parseC4Diagram,
+    parsePlantUMLC4,
+    parseStructurizr,
+    parseStructurizrC4Diagram,
+} from '../src/index';
+
+const workspace = `workspace "Internet Banking" "Online banking for retail customers" {
+    model {
+        customer = person "Customer" "A retail customer" "Retail"
+        group "Big Bank" {
+            bank = softwareSystem "Internet Banking" "Lets customers view accounts" {
+                web = container "Web App" "Delivers the SPA" "Java" {
+                    signin = component "Sign In" "Authenticates users" "Spring MVC"
+                }
+                db = container "Database" "Stores accounts" "Oracle" "Database"
+            }
+        }
+        mail = softwareSystem "E-mail" "Sends e-mail" "External"
+
+        customer -> web "Uses" "HTTPS"
+        web -> db "Reads from" "JDBC"
+        bank -> mail "Sends e-mail using" "SMTP"
+
+        deploymentEnvironment "Live" {
+            dc = deploymentNode "Data Center" "" "Ubuntu" {
+                webInstance = containerInstance web
+                lb = infrastructureNode "Load Balancer" "" "nginx"
+            }
+            lb -> webInstance "Forwards to"
+        }
+    }
+    views {
+        systemContext bank "context" {
+            include *
+            exclude mail
+            autoLayout lr 200 100
+        }
+        container bank {
+            include *
+            autoLayout
+        }
+        dynamic bank "signin" {
+            customer -> web "Signs in"
+            web -> db "Loads profile"
+        }
+        deployment * "Live" {
+            include *
+        }
+    }
+}`;
+
+describe('C4 Model', () => {
+    describe('Structurizr', () => {
+        it('should parse element kinds, technology and tags', () => {
+            const c4 = parseStructurizrC4Diagram(workspace);
+            const byId = new Map(c4.elements.map(element => [element.id, element]));
+
+            expect(c4.title).toBe('Internet Banking');
+            expect(byId.get('customer')).toMatchObject({ kind: 'person', description: 'A retail customer', tags: ['Retail'] });
+            expect(byId.get('web')).toMatchObject({ kind: 'container', parent: 'bank', technology: 'Java' });
+            expect(byId.get('signin')).toMatchObject({ kind: 'component', parent: 'web', technology: 'Spring MVC' });
+            expect(byId.get('db')).toMatchObject({ variant: 'database', technology: 'Oracle' });
+            expect(byId.get('mail')).toMatchObject({ kind: 'softwareSystem', external: true });
+            expect(byId.get('bank')?.group).toBe(c4.groups[0].id);
+            expect(c4.groups[0]).toMatchObject({ name: 'Big Bank', kind: 'group' });
+        });
+
+        it('should parse relationships with technology', () => {
+            const c4 = parseStructurizrC4Diagram(workspace);
+
+            expect(c4.relationships).toContainEqual(expect.objectContaining({
+                source: 'customer', target: 'web', description: 'Uses', technology: 'HTTPS',
+            }));
+            expect(c4.relationships).toContainEqual(expect.objectContaining({
+                source: 'lb', target: 'webInstance', description: 'Forwards to',
+            }));
+        });
+
+        it('should parse deployment environments', () => {
+            const c4 = parseStructurizrC4Diagram(workspace);
+            const instance = c4.elements.find(element => element.id === 'webInstance');
+
+            expect(instance).toMatchObject({ kind: 'containerInstance', instanceOf: 'web', parent: 'dc', environment: 'Live' });
+            expect(c4.elements.find(element => element.id === 'lb')?.kind).toBe('infrastructureNode');
+        });
+
+        it('should parse views with include, exclude and autoLayout', () => {
+            const [context, container, dynamic, deployment] = parseStructurizrC4Diagram(workspace).views;
+
+            expect(context).toMatchObject({
+                type: 'systemContext',
+                scope: 'bank',
+                key: 'context',
+                include: ['*'],
+                exclude: ['mail'],
+                autoLayout: { direction: 'lr', rankSeparation: 200, nodeSeparation: 100 },
+            });
+            expect(container).toMatchObject({ type: 'container', scope: 'bank', autoLayout: { direction: 'tb' } });
+            expect(dynamic.steps?.map(step => [step.source, step.target, step.order])).toEqual([
+                ['customer', 'web', '1'],
+                ['web', 'db', '2'],
+            ]);
+            expect(deployment).toMatchObject({ type: 'deployment', environment: 'Live' });
+        });
+
+        it('should support hierarchical identifiers', () => {
+            const c4 = parseStructurizrC4Diagram(`workspace {
+    !identifiers hierarchical
+    model {
+        shop = softwareSystem "Shop" {
+            api = container "API"
+        }
+        shop.api -> shop "Reports to"
+    }
+}`);
+
+            expect(c4.elements.map(element => element.id)).toEqual(['shop', 'shop.api']);
+            expect(c4.relationships[0]).toMatchObject({ source: 'shop.api', target: 'shop' });
+        });
+
+        it('should reject unknown identifiers', () => {
+            expect(() => parseStructurizr('workspace {\n    model {\n        a = person "A"\n        a -> b "Uses"\n    }\n}'))
+                .toThrow(/Unknown identifier "b"/);
+        });
+
+        it('should embed systems with containers as boundaries', () => {
+            const diagram = parseStructurizr(workspace);
+
+            expect(diagram.type).toBe('c4');
+            expect(diagram.groups.find(group => group.id === 'bank')?.children).toContain('db');
+            expect(diagram.nodes.find(node => node.id === 'db')?.shape).toBe('cylinder');
+            expect(diagram.nodes.find(node => node.id === 'customer')?.shape).toBe('actor');
+            // Relationships to boundaries are kept out of the edge list
+            expect(diagram.edges.every(edge => edge.source !== 'web' && edge.target !== 'web')).toBe(true);
+            expect(extractC4Data(diagram)?.relationships).toHaveLength(4);
+        });
+
+        it('should round-trip the model and views', () => {
+            const original = parseStructurizrC4Diagram(workspace);
+            const output = generateStructurizr(parseStructurizr(workspace));
+            const reparsed = parseStructurizrC4Diagram(output);
+
+            expect(output).toContain('db = container "Database" "Stores accounts" "Oracle" "Database"');
+            expect(output).toContain('deploymentEnvironment "Live" {');
+            expect(output).toContain('exclude mail');
+            const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+            expect([...reparsed.elements].sort(byId)).toEqual([...original.elements].sort(byId));
+            expect(reparsed.relationships.map(rel => [rel.source, rel.target, rel.description, rel.technology]))
+                .toEqual(original.relationships.map(rel => [rel.source, rel.target, rel.description, rel.technology]));
+            expect(reparsed.views).toEqual(original.views);
+        });
+    });
+
+    describe('Mermaid C4', () => {
+        const mermaid = `C4Container
+    title Internet Banking
+    Person(customer, "Customer", "A retail customer")
+    System_Boundary(bank, "Internet Banking") {
+        Container(web, "Web App", "Java", "Delivers the SPA")
+        ContainerDb(db, "Database", "Oracle")
+    }
+    System_Ext(mail, "E-mail")
+    Rel(customer, web, "Uses", "HTTPS")
+    BiRel(web, db, "Reads and writes")
+    Rel_R(bank, mail, "Sends e-mail using")`;
+
+        it('should parse elements, boundaries and relationships', () => {
+            const c4 = extractC4Data(parseC4Diagram(mermaid))!;
+            const byId = new Map(c4.elements.map(element => [element.id, element]));
+
+            expect(c4.title).toBe('Internet Banking');
+            expect(c4.views[0]).toMatchObject({ type: 'container', scope: 'bank' });
+            expect(byId.get('bank')?.kind).toBe('softwareSystem');
+            expect(byId.get('web')).toMatchObject({ kind: 'container', parent: 'bank', technology: 'Java', description: 'Delivers the SPA' });
+            expect(byId.get('db')).toMatchObject({ variant: 'database', technology: 'Oracle' });
+            expect(byId.get('mail')?.external).toBe(true);
+            expect(c4.relationships.find(rel => rel.source === 'web')?.bidirectional).toBe(true);
+            expect(c4.relationships.find(rel => rel.source === 'bank')?.direction).toBe('right');
+        });
+
+        it('should be detected through convert', () => {
+            const result = convert(mermaid, { from: 'mermaid', to: 'structurizr' });
+
+            expect(result.diagram.type).toBe('c4');
+            expect(result.output).toContain('web = container "Web App" "Delivers the SPA" "Java"');
+            expect(result.output).toContain('mail = softwareSystem "E-mail" "" "External"');
+        });
+
+        it('should generate boundaries and element macros', () => {
+            const output = generateC4Diagram(parseStructurizr(workspace));
+
+            expect(output.split('\n')[0]).toBe('C4Component');
+            expect(output).toContain('System_Boundary(bank, "Internet Banking") {');
+            expect(output).toContain('ContainerDb(db, "Database", "Oracle", "Stores accounts")');
+            expect(output).toContain('System_Ext(mail, "E-mail", "Sends e-mail")');
+            expect(output).toContain('Rel(customer, web, "Uses", "HTTPS")');
+            expect(output).not.toContain('Load Balancer');
+        });
+    });
+
+    describe('C4-PlantUML', () => {
+        const plantuml = `@startuml
+!include <C4/C4_Container>
+LAYOUT_LEFT_RIGHT()
+title Shop
+Person_Ext(buyer, "Buyer")
+System_Boundary(shop, "Shop") {
+    Container(api, "API", "Go", "Serves orders", $tags="critical+v2")
+    ContainerQueue(events, "Events", "Kafka")
+}
+Rel(buyer, api, "Orders", "HTTPS")
+Rel_D(api, events, "Publishes")
+@enduml`;
+
+        it('should parse macros, layout and tags', () => {
+            const c4 = extractC4Data(parsePlantUMLC4(plantuml))!;
+            const byId = new Map(c4.elements.map(element => [element.id, element]));
+
+            expect(c4.views[0]).toMatchObject({ type: 'container', autoLayout: { direction: 'lr' } });
+            expect(byId.get('buyer')).toMatchObject({ kind: 'person', external: true });
+            expect(byId.get('api')).toMatchObject({ technology: 'Go', tags: ['critical', 'v2'] });
+            expect(byId.get('events')?.variant).toBe('queue');
+            expect(c4.relationships[1].direction).toBe('down');
+        });
+
+        it('should be routed from the PlantUML parser', () => {
+            expect(convert(plantuml, { from: 'plantuml', to: 'mermaid' }).diagram.type).toBe('c4');
+        });
+
+        it('should generate the library include and macros', () => {
+            const output = generatePlantUMLC4(parsePlantUMLC4(plantuml));
+
+            expect(output).toContain('!include <C4/C4_Container>');
+            expect(output).toContain('LAYOUT_LEFT_RIGHT()');
+            expect(output).toContain('Container(api, "API", "Go", "Serves orders", $tags="critical+v2")');
+            expect(output).toContain('ContainerQueue(events, "Events", "Kafka")');
+            expect(output).toContain('Rel_D(api, events, "Publishes")');
+        });
+    });
+
+    describe('Conversion', () => {
+        it('should keep C4 semantics from Structurizr through PlantUML and Mermaid', () => {
+            const original = parseStructurizrC4Diagram(workspace);
+            const staticElements = original.elements.filter(element => !element.environment);
+
+            for (const to of ['plantuml', 'mermaid'] as const) {
+                const intermediate = convert(workspace, { from: 'structurizr', to }).output;
+                const back = parseStructurizrC4Diagram(convert(intermediate, { from: to, to: 'structurizr' }).output);
+
+                // Boundary macros have no technology argument, so only leaves keep it
+                const summary = (elements: typeof staticElements) => elements
+                    .map(element => [
+                        element.id,
+                        element.kind,
+                        elements.some(child => child.parent === element.id) ? '' : element.technology,
+                        element.external,
+                        element.variant,
+                    ].join('|'))
+                    .sort();
+                expect(summary(back.elements)).toEqual(summary(staticElements));
+                expect(back.relationships).toHaveLength(3);
+            }
+        });
+
+        it('should map plain flowcharts onto C4 kinds', () => {
+            const { diagram } = convert('flowchart TD\n    U[User] --> API[API]\n    API --> DB[(Store)]', {
+                from: 'mermaid',
+                to: 'mermaid',
+            });
+            const output = generatePlantUMLC4(diagram);
+
+            expect(output).toContain('!include <C4/C4_Context>');
+            expect(output).toContain('SystemDb(DB, "Store")');
+            expect(output).toContain('Rel(U, API, "")');
+        });
+    });
+});
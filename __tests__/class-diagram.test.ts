@@ -0,0 +1,257 @@
+/**
+ * Class Diagram Tests
+ *
+ * Tests for Mermaid classDiagram parsing, generation, the structured class IR
+ * and PlantUML interop
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    embedClassData,
+    extractClassData,
+    generateClassDiagram,
+    generatePlantUMLClassDiagram,
+    parseClassAttribute,
+    parseClassDiagram,
+    parseClassOperation,
+    parsePlantUML,
+} from '../src/index';
+
+const source = `classDiagram
+    direction LR
+    %% Domain model
+    class Animal {
+        <<abstract>>
+        +String name
+        #int age
+        +makeSound()* void
+        +isMammal() bool
+    }
+    class Box~T~ {
+        -List~T~ items
+        +add(T item)
+    }
+    class Shape["Geometric shape"]
+    <<interface>> Shape
+    namespace Zoo {
+        class Keeper
+        class Cage
+    }
+    Animal <|-- Duck
+    Shape <|.. Circle
+    Cage *-- Animal : holds
+    Keeper o-- Cage
+    Keeper "1" --> "*" Animal : feeds
+    Duck ..> Pond
+    Duck -- Feather
+    Circle .. Square
+    Keeper ()-- Badge
+    Animal : +breathe()
+    note for Duck "Can fly"`;
+
+describe('Mermaid class diagram parser', () => {
+    const diagram = parseClassDiagram(source);
+    const byId = (id: string) => diagram.nodes.find(n => n.id === id)!;
+
+    it('should parse classes with attributes, methods and annotations', () => {
+        const animal = byId('Animal');
+        expect(diagram.type).toBe('class');
+        expect(animal.metadata?.classType).toBe('abstract');
+        expect(animal.metadata?.members).toEqual(['+String name', '#int age']);
+        expect(animal.metadata?.methods).toEqual(['+makeSound()* void', '+isMammal() bool', '+breathe()']);
+        expect(byId('Shape').metadata?.classType).toBe('interface');
+        expect(byId('Shape').label).toBe('Geometric shape');
+        expect(diagram.metadata?.direction).toBe('LR');
+    });
+
+    it('should parse generics', () => {
+        const box = byId('Box');
+        expect(box.metadata?.generic).toBe('T');
+        expect(box.label).toBe('Box<T>');
+        expect(box.metadata?.members).toEqual(['-List~T~ items']);
+    });
+
+    it('should parse namespaces as groups', () => {
+        expect(diagram.groups).toHaveLength(1);
+        expect(diagram.groups[0].id).toBe('Zoo');
+        expect(diagram.groups[0].children).toEqual(['Keeper', 'Cage']);
+    });
+
+    it('should parse every relationship type with cardinality and labels', () => {
+        const relation = (from: string, to: string) =>
+            diagram.edges.find(e => e.source === from && e.target === to)!;
+
+        expect(relation('Animal', 'Duck').metadata?.relationType).toBe('inheritance');
+        expect(relation('Shape', 'Circle').metadata?.relationType).toBe('realization');
+        expect(relation('Shape', 'Circle').arrow.lineType).toBe('dashed');
+        expect(relation('Cage', 'Animal').metadata?.relationType).toBe('composition');
+        expect(relation('Cage', 'Animal').label).toBe('holds');
+        expect(relation('Keeper', 'Cage').metadata?.relationType).toBe('aggregation');
+        expect(relation('Duck', 'Pond').metadata?.relationType).toBe('dependency');
+        expect(relation('Duck', 'Feather').metadata?.relationType).toBe('link');
+        expect(relation('Circle', 'Square').metadata?.relationType).toBe('dashed-link');
+        expect(relation('Keeper', 'Badge').metadata?.relationType).toBe('lollipop');
+
+        const feeds = relation('Keeper', 'Animal');
+        expect(feeds.metadata?.relationType).toBe('association');
+        expect(feeds.metadata?.sourceCardinality).toBe('1');
+        expect(feeds.metadata?.targetCardinality).toBe('*');
+    });
+
+    it('should parse notes', () => {
+        const note = diagram.nodes.find(n => n.metadata?.isNote)!;
+        expect(note.label).toBe('Can fly');
+        expect(note.metadata?.attachTo).toBe('Duck');
+    });
+});
+
+describe('Mermaid class diagram generator', () => {
+    it('should round-trip through the generator', () => {
+        const output = generateClassDiagram(parseClassDiagram(source));
+
+        expect(output).toMatch(/^classDiagram/);
+        expect(output).toContain('direction LR');
+        expect(output).toContain('<<abstract>>');
+        expect(output).toContain('class Box~T~ {');
+        expect(output).toContain('class Shape["Geometric shape"] {');
+        expect(output).toContain('namespace Zoo {');
+        expect(output).toContain('Animal <|-- Duck');
+        expect(output).toContain('Shape <|.. Circle');
+        expect(output).toContain('Cage *-- Animal : holds');
+        expect(output).toContain('Keeper "1" --> "*" Animal : feeds');
+        expect(output).toContain('Keeper ()-- Badge');
+        expect(output).toContain('note for Duck "Can fly"');
+
+        const reparsed = parseClassDiagram(output);
+        const original = parseClassDiagram(source);
+        // Namespaced classes are written first, so compare regardless of order
+        expect(reparsed.nodes.map(n => n.id).sort()).toEqual(original.nodes.map(n => n.id).sort());
+        expect(reparsed.edges.map(e => e.metadata?.relationType))
+            .toEqual(original.edges.map(e => e.metadata?.relationType));
+        expect(reparsed.nodes.find(n => n.id === 'Animal')!.metadata?.methods)
+            .toEqual(original.nodes.find(n => n.id === 'Animal')!.metadata?.methods);
+    });
+
+    it('should convert PlantUML class diagrams to Mermaid', () => {
+        const result = convert(`@startuml
+interface Repository {
+    +findAll(): List
+}
+class UserRepository {
+    -db: Database
+}
+Repository <|-- UserRepository
+UserRepository *-- Database
+@enduml`, { from: 'plantuml', to: 'mermaid' });
+
+        expect(result.output).toMatch(/^classDiagram/);
+        expect(result.output).toContain('<<interface>>');
+        expect(result.output).toContain('+findAll() List');
+        expect(result.output).toContain('-Database db');
+        expect(result.output).toContain('Repository <|-- UserRepository');
+        expect(result.output).toContain('UserRepository *-- Database');
+    });
+
+    it('should convert Mermaid class diagrams to PlantUML', () => {
+        const result = convert(`classDiagram
+    Animal <|-- Duck
+    Duck *-- Wing`, { from: 'mermaid', to: 'plantuml' });
+
+        expect(result.output).toContain('@startuml');
+        expect(result.output).toMatch(/Animal.*<\|--.*Duck/);
+        expect(result.output).toContain('Duck *-- Wing');
+    });
+});
+
+describe('Class diagram IR', () => {
+    it('should parse attributes in Mermaid and UML notation', () => {
+        expect(parseClassAttribute('-List~T~ items')).toEqual({ name: 'items', type: 'List~T~', visibility: 'private' });
+        expect(parseClassAttribute('+count: int = 0')).toEqual({
+            name: 'count', type: 'int', visibility: 'public', defaultValue: '0',
+        });
+        expect(parseClassAttribute('+String id$')).toMatchObject({ name: 'id', isStatic: true });
+        expect(parseClassAttribute('{static} #total: long')).toMatchObject({
+            name: 'total', type: 'long', visibility: 'protected', isStatic: true,
+        });
+    });
+
+    it('should parse operations with parameters, return types and classifiers', () => {
+        expect(parseClassOperation('+makeSound()* void')).toEqual({
+            name: 'makeSound', parameters: [], returnType: 'void', visibility: 'public', isAbstract: true,
+        });
+        expect(parseClassOperation('+find(int id, String name) User')).toMatchObject({
+            parameters: [{ name: 'id', type: 'int' }, { name: 'name', type: 'String' }],
+            returnType: 'User',
+        });
+        expect(parseClassOperation('+area() double*')).toEqual({
+            name: 'area', parameters: [], returnType: 'double', visibility: 'public', isAbstract: true,
+        });
+        expect(parseClassOperation('count() int$')).toEqual({
+            name: 'count', parameters: [], returnType: 'int', isStatic: true,
+        });
+        expect(parseClassOperation('{static} +of(value: T): Box<T>')).toMatchObject({
+            name: 'of', parameters: [{ name: 'value', type: 'T' }], returnType: 'Box<T>', isStatic: true,
+        });
+    });
+
+    it('should extract structured classes and relationships', () => {
+        const data = extractClassData(parseClassDiagram(source))!;
+        const animal = data.classes.find(c => c.id === 'Animal')!;
+
+        expect(animal.kind).toBe('abstract');
+        expect(animal.stereotype).toBeUndefined();
+        expect(animal.attributes).toContainEqual({ name: 'age', type: 'int', visibility: 'protected' });
+        expect(animal.operations.map(o => o.name)).toEqual(['makeSound', 'isMammal', 'breathe']);
+        expect(data.classes.find(c => c.id === 'Keeper')!.namespace).toBe('Zoo');
+        expect(data.classes.find(c => c.id === 'Shape')!.label).toBe('Geometric shape');
+        expect(data.relationships.find(r => r.source === 'Shape')).toMatchObject({
+            kind: 'realization', markerEnd: 'source',
+        });
+        expect(data.notes).toEqual([{ id: 'note_0', text: 'Can fly', attachTo: 'Duck' }]);
+        expect(extractClassData(parsePlantUML('@startuml\nA -> B\n@enduml'))).toBeNull();
+    });
+
+    it('should embed and extract without loss', () => {
+        const data = extractClassData(parseClassDiagram(source))!;
+        const embedded = embedClassData(data);
+
+        expect(embedded.type).toBe('class');
+        expect(embedded.nodes.find(n => n.id === 'Box')!.label).toBe('Box<T>');
+        expect(embedded.groups[0].children).toEqual(['Keeper', 'Cage']);
+
+        const { metadata: _metadata, ...roundTripped } = extractClassData(embedded)!;
+        const { metadata: _original, ...expected } = data;
+        expect(roundTripped).toEqual(expected);
+    });
+
+    it('should generate PlantUML class compartments', () => {
+        const output = generatePlantUMLClassDiagram(parseClassDiagram(source));
+
+        expect(output).toContain('abstract class Animal {');
+        expect(output).toContain('    #age: int');
+        expect(output).toContain('    {abstract} +makeSound(): void');
+        expect(output).toContain('class Box<T> {');
+        expect(output).toContain('    -items: List<T>');
+        expect(output).toContain('    +add(item: T)');
+        expect(output).toContain('interface "Geometric shape" as Shape');
+        expect(output).toContain('package Zoo {');
+        expect(output).toContain('Keeper "1" --> "*" Animal : feeds');
+        expect(output).toContain('note right of Duck : Can fly');
+    });
+
+    it('should keep members and cardinality through PlantUML', () => {
+        const plantuml = generatePlantUMLClassDiagram(parseClassDiagram(source));
+        const data = extractClassData(parsePlantUML(plantuml))!;
+
+        const box = data.classes.find(c => c.id === 'Box')!;
+        expect(box.generic).toBe('T');
+        expect(box.attributes).toEqual([{ name: 'items', type: 'List<T>', visibility: 'private' }]);
+        expect(data.classes.find(c => c.id === 'Animal')!.operations[0]).toMatchObject({
+            name: 'makeSound', returnType: 'void', isAbstract: true,
+        });
+        expect(data.relationships.find(r => r.label === 'feeds')).toMatchObject({
+            kind: 'association', sourceCardinality: '1', targetCardinality: '*',
+        });
+    });
+});
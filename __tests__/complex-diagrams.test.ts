@@ -381,8 +381,7 @@ describe('Cross-Format Conversion - Complex Diagrams', () => {
     });
 
     describe('Roundtrip conversions', () => {
-        // Note: Draw.io parser requires DOMParser (browser API), skipping in Node.js
-        it.skip('Mermaid -> Draw.io -> Mermaid should preserve node count', () => {
+        it('Mermaid -> Draw.io -> Mermaid should preserve node count', () => {
             const original = parseMermaid(COMPLEX_MERMAID);
 
             const drawio = convert(COMPLEX_MERMAID, { from: 'mermaid', to: 'drawio' });
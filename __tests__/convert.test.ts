@@ -285,6 +285,24 @@ describe('generateDrawio', () => {
         // Edge should have label
         expect(xml).toContain('value="Yes"');
     });
+
+    it('should place group members relative to their container', () => {
+        const diagram = parseMermaid(`flowchart TB
+    subgraph api [API]
+        A --> B
+    end`);
+
+        const layouted = autoLayout(diagram, { algorithm: 'dagre' });
+        const xml = generateDrawio(layouted);
+        const group = layouted.groups[0];
+        const nodeA = layouted.nodes.find(n => n.id === 'A')!;
+
+        const groupCell = xml.match(/<mxCell id="(\d+)" value="API"/)!;
+        const nodeCell = xml.match(/value="A"[^>]*parent="(\d+)">\s*<mxGeometry x="(-?[\d.]+)" y="(-?[\d.]+)"/)!;
+        expect(nodeCell[1]).toBe(groupCell[1]);
+        expect(Number(nodeCell[2])).toBe(nodeA.position!.x - group.position!.x);
+        expect(Number(nodeCell[3])).toBe(nodeA.position!.y - group.position!.y);
+    });
 });
 
 describe('generateExcalidraw', () => {
@@ -452,3 +470,147 @@ describe('Mermaid to Mermaid (roundtrip)', () => {
         expect(result.output).toContain('{{"Hexagon"}}');
     });
 });
+
+describe('Mermaid diagram types', () => {
+    it('should route sequenceDiagram to the sequence parser', () => {
+        const input = `sequenceDiagram
+    actor User
+    participant API as Backend
+    User->>API: Request
+    loop Retry
+        API-->>User: Response
+    end
+    Note over API: Logs the call`;
+
+        const diagram = parseMermaid(input);
+        expect(diagram.type).toBe('sequence');
+        expect(diagram.nodes.map(n => n.id)).toEqual(['User', 'API']);
+        expect(diagram.nodes[0].shape).toBe('actor');
+        expect(diagram.edges).toHaveLength(2);
+        expect(diagram.edges[1].arrow.lineType).toBe('dashed');
+
+        const result = convert(input, { from: 'mermaid', to: 'mermaid' });
+        expect(result.output).toMatch(/^sequenceDiagram/);
+        expect(result.output).toContain('User->>API: Request');
+        expect(result.output).toContain('loop Retry');
+        expect(result.output).toContain('API-->>User: Response');
+        expect(result.output).toContain('Logs the call');
+    });
+
+    it('should route stateDiagram-v2 and erDiagram to their parsers and generators', () => {
+        const state = convert(`stateDiagram-v2
+    [*] --> Idle
+    Idle --> Running : start`, { from: 'mermaid', to: 'mermaid' });
+        expect(state.diagram.type).toBe('state');
+        expect(state.output).toMatch(/^stateDiagram-v2/);
+        expect(state.output).toContain('Idle --> Running');
+
+        const er = convert(`erDiagram
+    CUSTOMER ||--o{ ORDER : places`, { from: 'mermaid', to: 'mermaid' });
+        expect(er.diagram.type).toBe('er');
+        expect(er.output).toMatch(/^erDiagram/);
+        expect(er.output).toContain('CUSTOMER ||--o{ ORDER');
+    });
+
+    it('should route classDiagram to the class parser', () => {
+        const diagram = parseMermaid(`%% model
+classDiagram
+    Animal <|-- Duck
+    class Duck {
+        +String beakColor
+        +swim()
+    }
+    <<interface>> Animal`);
+
+        expect(diagram.type).toBe('class');
+        const duck = diagram.nodes.find(n => n.id === 'Duck')!;
+        expect(duck.metadata?.members).toEqual(['+String beakColor']);
+        expect(duck.metadata?.methods).toEqual(['+swim()']);
+        expect(diagram.nodes.find(n => n.id === 'Animal')!.metadata?.stereotype).toBe('interface');
+        expect(diagram.edges[0].metadata?.relationType).toBe('inheritance');
+    });
+
+    it('should still render sequence diagrams to other targets', () => {
+        const result = convert(`sequenceDiagram
+    A->>B: hello`, { from: 'mermaid', to: 'plantuml' });
+
+        expect(result.output).toContain('@startuml');
+        expect(result.diagram.nodes).toHaveLength(2);
+    });
+});
+
+describe('Parser and generator options', () => {
+    const flowchart = 'flowchart LR\n  A[Start] --> B[End]';
+
+    it('should pass the options of the target format to its generator', () => {
+        const generatorOptions = { mermaid: { direction: 'BT' as const }, dot: { direction: 'TB' as const } };
+
+        expect(convert(flowchart, { from: 'mermaid', to: 'mermaid', generatorOptions }).output).toMatch(/^flowchart BT/);
+        expect(convert(flowchart, { from: 'mermaid', to: 'dot', generatorOptions }).output).toContain('rankdir=TB');
+        expect(convert(flowchart, { from: 'mermaid', to: 'plantuml' }).output).toContain('left to right direction');
+    });
+
+    it('should write the direction option for class, state and ER diagrams', () => {
+        const sources = {
+            class: 'classDiagram\n  Animal <|-- Duck',
+            state: 'stateDiagram-v2\n  [*] --> Idle',
+            er: 'erDiagram\n  CUSTOMER ||--o{ ORDER : places',
+        };
+        const generatorOptions = { mermaid: { direction: 'LR' as const }, plantuml: { direction: 'LR' as const } };
+
+        for (const source of Object.values(sources)) {
+            expect(convert(source, { from: 'mermaid', to: 'mermaid', generatorOptions }).output).toMatch(/^ {4}direction LR$/m);
+            expect(convert(source, { from: 'mermaid', to: 'plantuml', generatorOptions }).output).toContain('left to right direction');
+            expect(convert(source, { from: 'mermaid', to: 'mermaid' }).output).not.toContain('direction');
+        }
+        expect(convert('erDiagram\n  direction RL\n  A ||--o{ B : has', { from: 'mermaid', to: 'mermaid' }).output).toContain('    direction RL');
+    });
+
+    it('should render SVG and PNG with their options', () => {
+        const svg = convert(flowchart, { from: 'mermaid', to: 'svg', generatorOptions: { svg: { backgroundColor: '#123456', fontFamily: 'Courier' } } });
+        expect(svg.output).toContain('fill="#123456"');
+        expect(svg.output).toContain('Courier');
+
+        const jpeg = convert(flowchart, { from: 'mermaid', to: 'png', generatorOptions: { png: { format: 'jpeg' } } });
+        expect(jpeg.output).toMatch(/^data:image\/jpeg;base64,/);
+    });
+
+    it('should give diagram types their own options and the shared font options', () => {
+        const output = convert('sequenceDiagram\n  Alice->>Bob: Hello', {
+            from: 'mermaid',
+            to: 'svg',
+            generatorOptions: { svg: { fontFamily: 'Courier', sequence: { participantWidth: 300 } } },
+        }).output;
+
+        expect(output).toContain('font-family="Courier"');
+        expect(output).toContain('width="300"');
+    });
+
+    it('should write compressed Draw.io pages that parse back', () => {
+        const result = convert(flowchart, { from: 'mermaid', to: 'drawio', generatorOptions: { drawio: { compressed: true } } });
+
+        expect(result.output).not.toContain('<mxGraphModel');
+        const back = convert(result.output, { from: 'drawio', to: 'mermaid' });
+        expect(back.diagram.nodes.map(node => node.label)).toEqual(['Start', 'End']);
+    });
+
+    it('should pass the options of the source format to its parser', () => {
+        const result = convert('...@shared\nx -> y', {
+            from: 'd2',
+            to: 'mermaid',
+            parserOptions: { d2: { imports: { shared: 'a -> b' } } },
+        });
+
+        expect(result.diagram.nodes.map(node => node.id).sort()).toEqual(['a', 'b', 'x', 'y']);
+    });
+
+    it('should let the page shortcut override the parser options', () => {
+        const pages = convert(flowchart, { from: 'mermaid', to: 'drawio' }).output
+            .replace('</mxfile>', '<diagram id="second" name="Second"><mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/><mxCell id="2" value="Only" vertex="1" parent="1"><mxGeometry width="80" height="40" as="geometry"/></mxCell></root></mxGraphModel></diagram></mxfile>');
+
+        const byOptions = convert(pages, { from: 'drawio', to: 'mermaid', parserOptions: { drawio: { page: 'Second' } } });
+        expect(byOptions.diagram.nodes.map(node => node.label)).toEqual(['Only']);
+        const byShortcut = convert(pages, { from: 'drawio', to: 'mermaid', page: 0, parserOptions: { drawio: { page: 'Second' } } });
+        expect(byShortcut.diagram.nodes).toHaveLength(2);
+    });
+});
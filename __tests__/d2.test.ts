@@ -0,0 +1,373 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * D2 Parser Tests
+ *
+ * Tests for the D2 language features beyond plain nodes and edges: nested and
+ * quoted keys, styles, classes, vars, arrowheads, sql_table/class shapes,
+ * imports, edge references and writing nested diagrams back to D2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convert, generateD2, parseD2, ParseError } from '../src/index';
+
+describe('D2 keys and containers', () => {
+    it('should nest dotted keys and connect them across containers', () => {
+        const diagram = parseD2('aws.vpc.api -> aws.db\nusers -> aws.vpc.api');
+
+        expect(diagram.groups.map(group => [group.id, group.children])).toEqual([
+            ['aws', ['aws.vpc', 'aws.db']],
+            ['aws.vpc', ['aws.vpc.api']],
+        ]);
+        expect(diagram.edges.map(edge => `${edge.source}->${edge.target}`)).toEqual(['aws.vpc.api->aws.db', 'users->aws.vpc.api']);
+        expect(diagram.nodes.find(node => node.id === 'aws.vpc.api')?.metadata?.path).toBe('aws.vpc.api');
+    });
+
+    it('should resolve _ to the parent container and keep keys case-insensitive', () => {
+        const diagram = parseD2(`
+            Backend: {
+                api -> _.Client
+            }
+            client: Web Client
+        `);
+
+        expect(diagram.nodes.map(node => node.id).sort()).toEqual(['Backend.api', 'Client']);
+        expect(diagram.nodes.find(node => node.id === 'Client')?.label).toBe('Web Client');
+        expect(diagram.edges[0].target).toBe('Client');
+    });
+
+    it('should read quoted identifiers, chains and comments', () => {
+        const diagram = parseD2(`
+            # services
+            "load balancer" -> 'web.1' -> db: forwards # trailing comment
+            """
+            ignored -> block
+            """
+        `);
+
+        expect(diagram.nodes.map(node => node.id)).toEqual(['load balancer', 'web.1', 'db']);
+        expect(diagram.edges.map(edge => edge.label)).toEqual(['forwards', 'forwards']);
+    });
+
+    it('should use the full path for keys that repeat', () => {
+        const diagram = parseD2('a.x -> b.x');
+
+        expect(diagram.nodes.map(node => node.id)).toEqual(['a.x', 'b.x']);
+        expect(diagram.groups.find(group => group.id === 'b')?.children).toEqual(['b.x']);
+    });
+
+    it('should keep connections to containers in metadata', () => {
+        const diagram = parseD2('cloud: { api }\nusers -> cloud');
+
+        expect(diagram.edges).toHaveLength(0);
+        expect(diagram.metadata?.containerEdges).toMatchObject([{ source: 'users', target: 'cloud' }]);
+    });
+
+    it('should delete objects and their connections with null', () => {
+        const diagram = parseD2('a -> b\nb -> c\nb: null');
+
+        expect(diagram.nodes.map(node => node.id)).toEqual(['a', 'c']);
+        expect(diagram.edges).toHaveLength(0);
+    });
+});
+
+describe('D2 attributes', () => {
+    it('should map shapes, styles, size and position', () => {
+        const diagram = parseD2(`
+            db: Orders {
+                shape: cylinder
+                width: 120
+                height: 80
+                top: 10
+                left: 20
+                style: {
+                    fill: "#f0f0f0"
+                    stroke: navy
+                    stroke-width: 2
+                    font-color: red
+                    bold: true
+                    3d: true
+                }
+            }
+            user.shape: person
+            queue.shape: queue
+        `);
+        const db = diagram.nodes[0];
+
+        expect(db).toMatchObject({
+            label: 'Orders',
+            shape: 'cylinder',
+            size: { width: 120, height: 80 },
+            position: { x: 20, y: 10 },
+            style: { fill: '#f0f0f0', stroke: 'navy', strokeWidth: 2, fontColor: 'red', fontWeight: 'bold' },
+        });
+        expect(db.metadata?.d2Style).toEqual({ '3d': 'true' });
+        expect(diagram.nodes[1].shape).toBe('actor');
+        expect(diagram.nodes[2]).toMatchObject({ shape: 'cylinder', metadata: { d2Shape: 'queue' } });
+    });
+
+    it('should read near, icon, tooltip, link and direction', () => {
+        const diagram = parseD2(`
+            direction: down
+            title: Architecture { near: top-center }
+            svc: {
+                direction: left
+                icon: https://icons.example.com/server.svg
+                tooltip: Handles requests
+                link: https://example.com/svc
+                worker
+            }
+        `);
+
+        expect(diagram.metadata?.direction).toBe('TB');
+        expect(diagram.nodes.find(node => node.id === 'title')?.metadata?.near).toBe('top-center');
+        expect(diagram.groups[0].metadata).toMatchObject({
+            direction: 'RL',
+            icon: 'https://icons.example.com/server.svg',
+            tooltip: 'Handles requests',
+            link: 'https://example.com/svc',
+        });
+    });
+
+    it('should keep markdown and code block labels', () => {
+        const diagram = parseD2(`
+            readme: |md
+                # Title
+                Some **bold** text
+            |
+            snippet: |||go
+                fmt.Println("|")
+            |||
+        `);
+
+        expect(diagram.nodes[0]).toMatchObject({ label: '# Title\nSome **bold** text', metadata: { labelFormat: 'markdown' } });
+        expect(diagram.nodes[1]).toMatchObject({ label: 'fmt.Println("|")', metadata: { labelFormat: 'code', language: 'go' } });
+    });
+
+    it('should merge classes before the object attributes', () => {
+        const diagram = parseD2(`
+            classes: {
+                store: { shape: cylinder; style.fill: gray }
+                critical: { style.stroke: red }
+            }
+            db.class: [store; critical]
+            cache: { class: store; style.fill: white }
+        `);
+
+        expect(diagram.nodes[0]).toMatchObject({ shape: 'cylinder', style: { fill: 'gray', stroke: 'red' } });
+        expect(diagram.nodes[0].metadata?.classes).toEqual(['store', 'critical']);
+        expect(diagram.nodes[1].style.fill).toBe('white');
+        expect(diagram.nodes.map(node => node.id)).not.toContain('classes');
+    });
+
+    it('should substitute vars from the nearest scope', () => {
+        const diagram = parseD2(`
+            vars: { env: prod; db: { name: orders } }
+            app: App (\${env}) {
+                vars: { env: staging }
+                api: API \${env}
+            }
+            store: \${db.name}
+            literal: 'cost \${env}'
+        `);
+        const label = (id: string) => [...diagram.nodes, ...diagram.groups].find(item => item.id === id)?.label;
+
+        expect(label('app')).toBe('App (prod)');
+        expect(label('app.api')).toBe('API staging');
+        expect(label('store')).toBe('orders');
+        expect(label('literal')).toBe('cost ${env}');
+    });
+});
+
+describe('D2 connections', () => {
+    it('should map dashes and arrowheads', () => {
+        const diagram = parseD2(`
+            a <-> b: {
+                source-arrowhead: 1
+                target-arrowhead: {
+                    shape: diamond
+                    style.filled: true
+                    label: many
+                }
+            }
+            b -- c
+            c -> d: { style.stroke-dash: 4; style.stroke: gray; style.animated: true }
+            d -> e: { target-arrowhead.shape: cf-many }
+            e -> f: { source-arrowhead.shape: diamond }
+            f -> g: { source-arrowhead: { shape: circle; style.filled: true } }
+        `);
+
+        expect(diagram.edges[0].arrow).toEqual({ sourceType: 'arrow', targetType: 'diamond-filled', lineType: 'solid' });
+        expect(diagram.edges[0].metadata).toMatchObject({ sourceLabel: '1', targetLabel: 'many' });
+        expect(diagram.edges[1].arrow).toEqual({ sourceType: 'none', targetType: 'none', lineType: 'solid' });
+        expect(diagram.edges[2]).toMatchObject({ arrow: { lineType: 'dashed' }, style: { stroke: 'gray' }, metadata: { animated: true } });
+        expect(diagram.edges[3].metadata?.targetArrowhead).toBe('cf-many');
+        expect(diagram.edges[4].arrow).toMatchObject({ sourceType: 'diamond', targetType: 'arrow' });
+        expect(diagram.edges[5].arrow).toMatchObject({ sourceType: 'circle-filled', targetType: 'arrow' });
+    });
+
+    it('should update and delete connections by reference', () => {
+        const diagram = parseD2(`
+            a -> b
+            a -> b
+            b -> c
+            (a -> b)[1].style.stroke: red
+            (a -> b)[0]: sync
+            (b -> c)[0]: null
+        `);
+
+        expect(diagram.edges).toHaveLength(2);
+        expect(diagram.edges.map(edge => edge.label)).toEqual(['sync', undefined]);
+        expect(diagram.edges[1].style.stroke).toBe('red');
+        expect(() => parseD2('a -> b\n(a -> c)[0].style.stroke: red')).toThrow(/Connection not found/);
+    });
+});
+
+describe('D2 sql_table and class shapes', () => {
+    const code = `
+        users: {
+            shape: sql_table
+            id: int { constraint: primary_key }
+            email: varchar(255) { constraint: [unique; not_null] }
+        }
+        orders: {
+            shape: sql_table
+            id: int { constraint: primary_key }
+            user_id: int { constraint: foreign_key }
+        }
+        orders.user_id -> users.id
+        Account: {
+            shape: class
+            -balance: decimal
+            +deposit(amount decimal): void
+        }
+    `;
+    const diagram = parseD2(code);
+
+    it('should read columns and members instead of nested objects', () => {
+        expect(diagram.groups).toHaveLength(0);
+        expect(diagram.nodes.map(node => node.id)).toEqual(['users', 'orders', 'Account']);
+        expect(diagram.nodes[0].metadata?.columns).toEqual([
+            { name: 'id', type: 'int', constraints: ['primary_key'] },
+            { name: 'email', type: 'varchar(255)', constraints: ['unique', 'not_null'] },
+        ]);
+        expect(diagram.nodes[2].metadata?.members).toEqual([
+            { name: 'balance', type: 'decimal', visibility: '-', method: false },
+            { name: 'deposit(amount decimal)', type: 'void', visibility: '+', method: true },
+        ]);
+    });
+
+    it('should connect columns through their table', () => {
+        expect(diagram.edges[0]).toMatchObject({
+            source: 'orders',
+            target: 'users',
+            metadata: { sourceColumn: 'user_id', targetColumn: 'id' },
+        });
+    });
+
+    it('should write tables and column connections back', () => {
+        const output = generateD2(diagram);
+
+        expect(output).toContain('  email: varchar(255) { constraint: [unique; not_null] }');
+        expect(output).toContain('orders.user_id -> users.id');
+        expect(parseD2(output).nodes[1].metadata?.columns).toEqual(diagram.nodes[1].metadata?.columns);
+    });
+});
+
+describe('D2 imports', () => {
+    const imports = {
+        'shared.d2': 'classes: { db: { shape: cylinder } }\nlogger',
+        'infra/network': 'lb -> gateway',
+    };
+
+    it('should spread imports into the current scope and import into keys', () => {
+        const diagram = parseD2('...@shared\nnetwork: @infra/network\nstore.class: db', { imports });
+
+        expect(diagram.nodes.map(node => node.id)).toEqual(['logger', 'network.lb', 'network.gateway', 'store']);
+        expect(diagram.groups[0]).toMatchObject({ id: 'network', children: ['network.lb', 'network.gateway'] });
+        expect(diagram.nodes[3].shape).toBe('cylinder');
+    });
+
+    it('should accept a resolver and record unresolved imports', () => {
+        const diagram = parseD2('...@shared\n...@missing', { imports: path => path === 'shared' ? 'x -> y' : undefined });
+
+        expect(diagram.edges).toHaveLength(1);
+        expect(diagram.metadata?.unresolvedImports).toEqual(['missing']);
+        expect(diagram.metadata?.warnings).toEqual(['Dropped the unresolved import @missing on line 2']);
+    });
+
+    it('should report unresolved imports through convert', () => {
+        const result = convert('a\nnetwork: @infra/network', { from: 'd2', to: 'mermaid' });
+
+        expect(result.warnings).toContain('Dropped the unresolved import @infra/network on line 2');
+    });
+
+    it('should reject import cycles', () => {
+        expect(() => parseD2('...@a', { imports: { a: '...@b', b: '...@a' } })).toThrow(/Import cycle/);
+    });
+});
+
+describe('D2 errors and generation', () => {
+    it('should report syntax errors with line numbers', () => {
+        try {
+            parseD2('a -> b\ngroup: {\n    c\n');
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(ParseError);
+            expect((error as ParseError).message).toMatch(/Missing closing/);
+            expect((error as ParseError).line).toBe(4);
+        }
+        expect(() => parseD2('a: |md\n# open')).toThrow(/Unterminated block string/);
+    });
+
+    it('should skip boards and globs without creating objects', () => {
+        const diagram = parseD2('a -> b\nlayers: { detail: { c -> d } }\n*.style.fill: red');
+
+        expect(diagram.nodes.map(node => node.id)).toEqual(['a', 'b']);
+        expect(diagram.metadata?.boards).toEqual(['layers']);
+    });
+
+    it('should write nested containers and full connection paths', () => {
+        const diagram = parseD2(`
+            direction: down
+            cloud: AWS {
+                vpc: {
+                    "api server": { shape: hexagon }
+                }
+                db: { shape: cylinder }
+            }
+            cloud.vpc."api server" -> cloud.db: "reads; writes"
+            users -> cloud
+        `);
+        const output = generateD2(diagram);
+        const reparsed = parseD2(output);
+
+        expect(output).toContain('cloud.vpc."api server" -> cloud.db: "reads; writes"');
+        expect(output).toContain('users -> cloud');
+        expect(reparsed.groups.map(group => [group.id, group.children])).toEqual(
+            diagram.groups.map(group => [group.id, group.children]));
+        expect(reparsed.edges).toMatchObject([{ source: 'cloud.vpc.api server', target: 'cloud.db', label: 'reads; writes' }]);
+        expect(reparsed.metadata?.containerEdges).toHaveLength(1);
+        expect(reparsed.metadata?.direction).toBe('TB');
+    });
+
+    it('should write a repeated key only once inside its container', () => {
+        const output = generateD2(parseD2('cloud.b.x -> other.x'));
+
+        expect(output).toContain('  b: b {\n    x: x');
+        expect(output).toContain('cloud.b.x -> other.x');
+        expect(output).not.toContain('"cloud.b.x"');
+    });
+
+    it('should write undirected connections and dashed lines as D2 accepts them', () => {
+        const output = generateD2(parseD2('a -- b\nb -> c: calls { style.stroke-dash: 3 }\nc -> d: { style.stroke-dash: 5 }'));
+
+        expect(output).toContain('a -- b\n');
+        expect(output).toContain('b -> c: calls { style.stroke-dash: 3 }');
+        expect(output).toContain('c -> d: { style.stroke-dash: 3 }');
+        expect(output).not.toContain('-->');
+        expect(parseD2(output).edges.map(edge => edge.arrow.lineType)).toEqual(['solid', 'dashed', 'dashed']);
+    });
+});
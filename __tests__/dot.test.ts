@@ -0,0 +1,206 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * DOT Parser Tests
+ *
+ * Tests for the grammar-based Graphviz parser: statement layout, attribute
+ * defaults and scoping, subgraphs and clusters, ports, HTML and record labels,
+ * strict graphs and machine-generated `dot -Tdot` output
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDot, ParseError } from '../src/index';
+
+const edgeList = (source: string) => parseDot(source).edges.map(edge => `${edge.source}->${edge.target}`);
+
+describe('DOT statements', () => {
+    it('should read several statements per line and chains with attributes', () => {
+        const diagram = parseDot('digraph { a; b [label="B"]; a -> b -> c [label="flow", color="red:blue"]; d }');
+
+        expect(diagram.nodes.map(node => node.id)).toEqual(['a', 'b', 'c', 'd']);
+        expect(diagram.edges.map(edge => [edge.source, edge.target, edge.label, edge.style.stroke])).toEqual([
+            ['a', 'b', 'flow', 'red'],
+            ['b', 'c', 'flow', 'red'],
+        ]);
+    });
+
+    it('should apply node and edge defaults from where they are declared', () => {
+        const diagram = parseDot(`digraph {
+            a
+            node [shape=ellipse, style=filled, fillcolor=yellow]
+            edge [style=dashed]
+            b -> c
+            subgraph {
+                node [shape=diamond]
+                d
+            }
+            e
+        }`);
+        const shapes = Object.fromEntries(diagram.nodes.map(node => [node.id, node.shape]));
+
+        expect(shapes).toEqual({ a: 'rectangle', b: 'ellipse', c: 'ellipse', d: 'diamond', e: 'ellipse' });
+        expect(diagram.nodes[1].style.fill).toBe('yellow');
+        expect(diagram.edges[0].arrow.lineType).toBe('dashed');
+    });
+
+    it('should read quoted, concatenated and numeric identifiers and keywords in any case', () => {
+        const diagram = parseDot('DiGraph "My Graph" {\n  "multi word" -> "a" + "b"\n  1 -> -2.5\n  "quote \\"x\\""\n}');
+
+        expect(diagram.name).toBe('My Graph');
+        expect(diagram.nodes.map(node => node.id)).toEqual(['multi word', 'ab', '1', '-2.5', 'quote "x"']);
+    });
+
+    it('should skip comments and preprocessor lines', () => {
+        const diagram = parseDot('# 1 "graph.gv"\ndigraph {\n  a -> b // trailing\n  /* block\n c -> d */\n}');
+
+        expect(diagram.nodes.map(node => node.id)).toEqual(['a', 'b']);
+
+        const indented = parseDot('digraph {\r\n  a -> b\r\n    # 3 "graph.gv"\r\n  b -> c\r\n}');
+        expect(indented.edges.map(edge => `${edge.source}->${edge.target}`)).toEqual(['a->b', 'b->c']);
+        expect(() => parseDot('digraph { a -> b # not at line start\n}')).toThrow(/Unexpected character "#"/);
+    });
+
+    it('should expand subgraph operands into one edge per pair', () => {
+        expect(edgeList('digraph { a -> {b c}; {d e} -> subgraph s { f } }')).toEqual([
+            'a->b', 'a->c', 'd->f', 'e->f',
+        ]);
+    });
+
+    it('should resolve label escapes', () => {
+        const diagram = parseDot('digraph G { node [label="\\N in \\G"]; a; b [label="line 1\\nline 2\\l"]; a -> b [label="\\T to \\H"] }');
+
+        expect(diagram.nodes.map(node => node.label)).toEqual(['a in G', 'line 1\nline 2']);
+        expect(diagram.edges[0].label).toBe('a to b');
+    });
+
+    it('should report syntax errors with their position', () => {
+        try {
+            parseDot('digraph {\n  a -> b [label="x"\n}');
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(ParseError);
+            expect((error as ParseError).message).toMatch(/Expected an identifier but found "\}"/);
+            expect((error as ParseError).line).toBe(3);
+        }
+        expect(() => parseDot('digraph { a -> "b }')).toThrow(/Unterminated string/);
+    });
+});
+
+describe('DOT graphs and subgraphs', () => {
+    it('should distinguish graph and digraph edges', () => {
+        const undirected = parseDot('graph { a -- b; c -- d [dir=forward] }');
+        const directed = parseDot('digraph { a -> b [dir=both, arrowtail=odiamond, arrowhead=dot]; c -> d [dir=none] }');
+
+        expect(undirected.edges.map(edge => edge.arrow.targetType)).toEqual(['none', 'arrow']);
+        expect(undirected.metadata?.directed).toBe(false);
+        expect(directed.edges[0].arrow).toEqual({ sourceType: 'diamond', targetType: 'circle-filled', lineType: 'solid' });
+        expect(directed.edges[1].arrow).toMatchObject({ sourceType: 'none', targetType: 'none' });
+    });
+
+    it('should merge duplicate edges of strict graphs', () => {
+        const diagram = parseDot('strict graph { a -- b; b -- a [color=red]; a -- c }');
+
+        expect(diagram.edges).toHaveLength(2);
+        expect(diagram.edges[0].style.stroke).toBe('red');
+        expect(diagram.metadata?.strict).toBe(true);
+    });
+
+    it('should nest clusters and keep plain subgraphs out of groups', () => {
+        const diagram = parseDot(`digraph {
+            subgraph cluster_outer {
+                label=<<b>Outer</b>>
+                style="filled,dashed"; color=gray
+                a
+                subgraph cluster_inner { graph [label="Inner"]; b }
+                subgraph ranks { rank=same; c; d }
+            }
+            a -> b
+        }`);
+
+        expect(diagram.groups.map(group => [group.id, group.label, group.children])).toEqual([
+            ['outer', 'Outer', ['a', 'inner', 'c', 'd']],
+            ['inner', 'Inner', ['b']],
+        ]);
+        expect(diagram.groups[0].style).toEqual({ fill: 'gray', stroke: 'gray', strokeDasharray: '5,5' });
+        expect(diagram.metadata?.ranks).toEqual([{ rank: 'same', nodes: ['c', 'd'] }]);
+    });
+
+    it('should keep the cluster name when it clashes with a node', () => {
+        const diagram = parseDot('digraph { subgraph cluster_api { api } }');
+
+        expect(diagram.groups[0]).toMatchObject({ id: 'cluster_api', children: ['api'] });
+    });
+
+    it('should map compound edges to their clusters', () => {
+        const diagram = parseDot('digraph { compound=true; subgraph cluster_x { a } b -> a [lhead=cluster_x] }');
+
+        expect(diagram.edges[0].metadata?.lhead).toBe('x');
+    });
+});
+
+describe('DOT ports and labels', () => {
+    it('should read node:port:compass endpoints and port attributes', () => {
+        const diagram = parseDot('digraph { a:out:s -> b:n; c -> d [tailport=p1, headport="p2:w"] }');
+
+        expect(diagram.edges[0]).toMatchObject({ sourcePort: 'out', metadata: { sourceCompass: 's', targetCompass: 'n' } });
+        expect(diagram.edges[0].targetPort).toBeUndefined();
+        expect(diagram.edges[1]).toMatchObject({ sourcePort: 'p1', targetPort: 'p2', metadata: { targetCompass: 'w' } });
+    });
+
+    it('should turn record fields into ports', () => {
+        const diagram = parseDot(`digraph {
+            node [shape=record]
+            struct1 [label="<f0> left|<f1> mid\\ dle|<f2> right"]
+            struct2 [label="{<top> a|{<l> b|<r> c}}"]
+            struct1:f1 -> struct2:l
+        }`);
+        const [struct1, struct2] = diagram.nodes;
+
+        expect(struct1.label).toBe('left | mid dle | right');
+        expect(struct1.ports).toEqual([
+            { id: 'f0', position: 'bottom', offset: 0.167 },
+            { id: 'f1', position: 'bottom', offset: 0.5 },
+            { id: 'f2', position: 'bottom', offset: 0.833 },
+        ]);
+        expect(struct2.ports?.map(port => [port.id, port.position])).toEqual([
+            ['top', 'right'], ['l', 'bottom'], ['r', 'bottom'],
+        ]);
+        expect(diagram.edges[0]).toMatchObject({ sourcePort: 'f1', targetPort: 'l' });
+    });
+
+    it('should flatten HTML labels and keep their ports', () => {
+        const diagram = parseDot(`digraph {
+            t [shape=plaintext, label=<
+                <table><tr><td port="in">A &amp; B</td></tr><tr><td>x<br/>y</td></tr></table>
+            >]
+        }`);
+        const node = diagram.nodes[0];
+
+        expect(node.label).toBe('A & B\nx\ny');
+        expect(node.ports).toEqual([{ id: 'in', position: 'center' }]);
+        expect(node.metadata?.htmlLabel).toContain('<td port="in">');
+        expect(node.metadata?.dotShape).toBe('plaintext');
+    });
+});
+
+describe('DOT layout output', () => {
+    it('should parse dot -Tdot output with positions and drawing attributes', () => {
+        const diagram = parseDot(`digraph G {
+	graph [bb="0,0,62,108"];
+	node [label="\\N"];
+	a	[height=0.5,
+		pos="27,90",
+		width=0.75];
+	b	[height=0.5,
+		pos="27,18",
+		width=0.75];
+	a -> b	[pos="e,27,36.104 27,71.697 27,63.983 27,54.712 27,46.112"];
+}`);
+
+        expect(diagram.nodes.map(node => [node.label, node.position])).toEqual([['a', { x: 0, y: 0 }], ['b', { x: 0, y: 72 }]]);
+        expect(diagram.nodes[0].size).toEqual({ width: 54, height: 36 });
+        expect(diagram.edges[0].waypoints).toBeUndefined();
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * Draw.io Multi-page Tests
+ *
+ * Tests for parsing, selecting and generating pages of one mxfile
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convert, generateDrawioPages, parseDrawio, parseDrawioPages, parseMermaid, ParseError } from '../src/index';
+
+const page = (id: string, name: string, cells: string) => `
+  <diagram id="${id}" name="${name}">
+    <mxGraphModel>
+      <root>
+        <mxCell id="0"/>
+        <mxCell id="1" parent="0"/>
+        ${cells}
+      </root>
+    </mxGraphModel>
+  </diagram>`;
+
+const vertex = (id: string, label: string) =>
+    `<mxCell id="${id}" value="${label}" style="rounded=1;" vertex="1" parent="1"><mxGeometry x="0" y="0" width="120" height="60" as="geometry"/></mxCell>`;
+
+const multiPage = `<mxfile host="test">${
+    page('ctx', 'Context', vertex('2', 'User') + vertex('3', 'System')
+        + '<mxCell id="4" edge="1" parent="1" source="2" target="3"><mxGeometry relative="1" as="geometry"/></mxCell>')
+}${
+    page('cnt', 'Containers', vertex('2', 'Web') + vertex('3', 'API') + vertex('4', 'DB'))
+}</mxfile>`;
+
+describe('Draw.io pages', () => {
+    it('should parse every page with its id and name', () => {
+        const pages = parseDrawioPages(multiPage);
+
+        expect(pages).toHaveLength(2);
+        expect(pages.map(p => p.id)).toEqual(['ctx', 'cnt']);
+        expect(pages.map(p => p.name)).toEqual(['Context', 'Containers']);
+        expect(pages[0].nodes.map(n => n.label)).toEqual(['User', 'System']);
+        expect(pages[0].edges).toHaveLength(1);
+        expect(pages[1].nodes.map(n => n.label)).toEqual(['Web', 'API', 'DB']);
+        expect(pages[1].edges).toHaveLength(0);
+    });
+
+    it('should select a page by index, id or name', () => {
+        expect(parseDrawio(multiPage).name).toBe('Context');
+        expect(parseDrawio(multiPage, { page: 1 }).name).toBe('Containers');
+        expect(parseDrawio(multiPage, { page: 'cnt' }).name).toBe('Containers');
+        expect(parseDrawio(multiPage, { page: 'Containers' }).nodes).toHaveLength(3);
+        expect(() => parseDrawio(multiPage, { page: 'Missing' })).toThrow(ParseError);
+    });
+
+    it('should convert a specific page', () => {
+        const result = convert(multiPage, { from: 'drawio', to: 'mermaid', page: 'Containers' });
+
+        expect(result.output).toContain('Web');
+        expect(result.output).not.toContain('User');
+    });
+
+    it('should write several diagrams as pages and read them back', () => {
+        const first = { ...parseMermaid('flowchart LR\n    A --> B'), id: 'one', name: 'First' };
+        const second = { ...parseMermaid('flowchart LR\n    C --> D --> E'), id: 'one', name: 'Second' };
+
+        const xml = generateDrawioPages([first, second]);
+        expect(xml).toContain('pages="2"');
+
+        const pages = parseDrawioPages(xml);
+        expect(pages.map(p => p.name)).toEqual(['First', 'Second']);
+        expect(new Set(pages.map(p => p.id)).size).toBe(2);
+        expect(pages[0].edges).toHaveLength(1);
+        expect(pages[1].edges).toHaveLength(2);
+    });
+
+    it('should treat a bare mxGraphModel as a single page', () => {
+        const bare = `<mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/>${vertex('2', 'Only')}</root></mxGraphModel>`;
+        const pages = parseDrawioPages(bare);
+
+        expect(pages).toHaveLength(1);
+        expect(pages[0].nodes[0].label).toBe('Only');
+    });
+});
@@ -0,0 +1,298 @@
+/**
+ * ER Diagram Tests
+ *
+ * Tests for the ER model helpers, foreign key inference, the SQL DDL parser,
+ * and the SQL DDL, DBML, PlantUML IE, SVG and Draw.io ER generators
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    detectFormat,
+    embedERData,
+    extractERData,
+    generateDBML,
+    generateERDrawio,
+    generateERSvg,
+    generatePlantUMLER,
+    generateSQL,
+    parseERDiagram,
+    parseSQL,
+    parseSQLERDiagram,
+    resolveERSchema,
+} from '../src/index';
+
+const mermaidSource = `erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    CUSTOMER {
+        int id PK
+        string email UK
+        string name "Full name"
+    }
+    ORDER {
+        int orderNumber PK
+        int customerId FK
+    }
+    ORDER ||--|{ LINE-ITEM : contains
+    PRODUCT }|..|{ ORDER : "ordered in"
+    PERSON ||--|| PASSPORT : holds`;
+
+describe('ER model', () => {
+    it('should round-trip entities and relationships through the generic IR', () => {
+        const erDiagram = extractERData(parseERDiagram(mermaidSource))!;
+        const restored = extractERData(embedERData(erDiagram))!;
+
+        expect(restored.entities.map(e => e.id)).toEqual(erDiagram.entities.map(e => e.id));
+        expect(restored.relationships[0]).toMatchObject({
+            source: 'CUSTOMER',
+            target: 'ORDER',
+            sourceCardinality: 'exactly-one',
+            targetCardinality: 'zero-or-more',
+            label: 'places',
+        });
+    });
+
+    it('should put foreign keys on the many side and reuse matching columns', () => {
+        const schema = resolveERSchema(extractERData(parseERDiagram(mermaidSource))!);
+
+        const places = schema.foreignKeys.find(fk => fk.relationship.label === 'places')!;
+        expect(places).toMatchObject({ table: 'ORDER', columns: ['customerId'], referencedTable: 'CUSTOMER', referencedColumns: ['id'] });
+
+        const contains = schema.foreignKeys.find(fk => fk.relationship.label === 'contains')!;
+        expect(contains).toMatchObject({ table: 'LINE-ITEM', columns: ['order_orderNumber'], referencedColumns: ['orderNumber'] });
+
+        const holds = schema.foreignKeys.find(fk => fk.relationship.label === 'holds')!;
+        expect(holds.oneToOne).toBe(true);
+
+        expect(schema.manyToMany.map(r => r.label)).toEqual(['ordered in']);
+        const product = schema.tables.find(t => t.entity.id === 'PRODUCT')!;
+        expect(product.columns[0]).toMatchObject({ name: 'id', primaryKey: true, synthetic: true });
+    });
+
+    it('should give each relationship its own unclaimed FK column', () => {
+        const schema = resolveERSchema(extractERData(parseERDiagram(`erDiagram
+    USER ||--o{ POST : writes
+    USER |o--o{ POST : edits
+    POST {
+        int author FK
+        int editor FK
+    }`))!);
+
+        expect(schema.foreignKeys.map(fk => fk.columns)).toEqual([['author'], ['editor']]);
+        expect(schema.tables.find(t => t.entity.id === 'POST')!.columns.map(c => c.name)).toEqual(['author', 'editor']);
+    });
+
+    it('should reference serial keys with the base integer type', () => {
+        const schema = resolveERSchema(extractERData(parseERDiagram(`erDiagram
+    USER ||--o{ POST : writes
+    USER {
+        BIGSERIAL id PK
+    }`))!);
+
+        expect(schema.tables.find(t => t.entity.id === 'POST')!.columns).toEqual([
+            { name: 'user_id', type: 'BIGINT', primaryKey: false, unique: false, notNull: true, synthetic: true },
+        ]);
+    });
+});
+
+describe('SQL DDL export', () => {
+    it('should create tables with keys and inferred foreign key constraints', () => {
+        const sql = generateSQL(parseERDiagram(mermaidSource));
+
+        expect(sql).toContain('CREATE TABLE CUSTOMER (\n    id INTEGER PRIMARY KEY,\n    email VARCHAR(255) UNIQUE,\n    name VARCHAR(255) -- Full name\n);');
+        expect(sql).toContain('CREATE TABLE "ORDER" (');
+        expect(sql).toContain('customerId INTEGER NOT NULL,');
+        expect(sql).toContain('CONSTRAINT fk_order_customer FOREIGN KEY (customerId) REFERENCES CUSTOMER (id) -- places');
+        expect(sql).toContain('person_id INTEGER NOT NULL UNIQUE');
+    });
+
+    it('should create referenced tables first and a junction table for many-to-many', () => {
+        const sql = generateSQL(parseERDiagram(mermaidSource));
+
+        expect(sql.indexOf('CREATE TABLE CUSTOMER')).toBeLessThan(sql.indexOf('CREATE TABLE "ORDER"'));
+        expect(sql.indexOf('CREATE TABLE "ORDER"')).toBeLessThan(sql.indexOf('CREATE TABLE "LINE-ITEM"'));
+        expect(sql).toContain('CREATE TABLE PRODUCT_ORDER (');
+        expect(sql).toContain('PRIMARY KEY (product_id, order_orderNumber)');
+    });
+
+    it('should add foreign keys within a reference cycle with ALTER TABLE', () => {
+        const sql = generateSQL(parseERDiagram(`erDiagram
+    A }o--|| B : refs
+    B }o--|| A : refs`));
+
+        expect(sql).toMatch(/ALTER TABLE A ADD CONSTRAINT fk_a_b FOREIGN KEY \(b_id\) REFERENCES B \(id\); -- refs$/);
+        expect(sql).toContain('CONSTRAINT fk_b_a FOREIGN KEY (a_id) REFERENCES A (id)');
+    });
+
+    it('should be available as a convert target', () => {
+        const result = convert(mermaidSource, { from: 'mermaid', to: 'sql' });
+        expect(result.output).toContain('CREATE TABLE');
+    });
+});
+
+describe('SQL DDL import', () => {
+    const ddl = `-- Shop schema
+CREATE TABLE IF NOT EXISTS public.customers (
+    id SERIAL PRIMARY KEY,
+    email character varying(255) NOT NULL UNIQUE,
+    balance NUMERIC(10, 2) DEFAULT 0.00 NOT NULL, -- in cents
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+CREATE TABLE orders (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    coupon_id INTEGER,
+    tags text[]
+);
+CREATE TABLE \`order_items\` (
+  \`order_id\` bigint NOT NULL,
+  \`line\` int NOT NULL,
+  \`sku\` varchar(32) COMMENT 'Stock keeping unit',
+  PRIMARY KEY (\`order_id\`, \`line\`),
+  KEY \`idx_sku\` (\`sku\`),
+  CONSTRAINT \`fk_items_order\` FOREIGN KEY (\`order_id\`) REFERENCES \`orders\` (\`id\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+CREATE TABLE profiles (customer_id INTEGER REFERENCES customers, bio TEXT);
+CREATE UNIQUE INDEX profiles_customer ON profiles (customer_id);
+ALTER TABLE orders ADD CONSTRAINT fk_coupon FOREIGN KEY (coupon_id) REFERENCES coupons (id);
+COMMENT ON COLUMN orders.tags IS 'Free-form tags';
+INSERT INTO customers VALUES (1, 'a@b.c', 0, now());`;
+
+    it('should read columns, types, keys and comments across dialects', () => {
+        const { entities } = parseSQLERDiagram(ddl);
+        const byId = new Map(entities.map(e => [e.id, e]));
+
+        expect(byId.get('customers')!.attributes).toEqual([
+            { name: 'id', type: 'SERIAL', keyType: 'pk' },
+            { name: 'email', type: 'character varying(255)', keyType: 'uk' },
+            { name: 'balance', type: 'NUMERIC(10,2)', comment: 'in cents' },
+            { name: 'created_at', type: 'TIMESTAMP WITH TIME ZONE' },
+        ]);
+        expect(byId.get('orders')!.attributes.map(a => a.keyType)).toEqual(['pk', 'fk', 'fk', undefined]);
+        expect(byId.get('orders')!.attributes[3]).toEqual({ name: 'tags', type: 'text[]', comment: 'Free-form tags' });
+        expect(byId.get('order_items')!.attributes[2]).toEqual({ name: 'sku', type: 'varchar(32)', comment: 'Stock keeping unit' });
+        expect(byId.get('coupons')!.attributes).toEqual([]);
+    });
+
+    it('should infer cardinality from nullability and uniqueness', () => {
+        const { relationships } = parseSQLERDiagram(ddl);
+        const between = (source: string, target: string) =>
+            relationships.find(r => r.source === source && r.target === target)!;
+
+        expect(between('customers', 'orders')).toMatchObject({ sourceCardinality: 'exactly-one', targetCardinality: 'zero-or-more', identifying: 'non-identifying' });
+        expect(between('coupons', 'orders')).toMatchObject({ sourceCardinality: 'zero-or-one', targetCardinality: 'zero-or-more' });
+        expect(between('orders', 'order_items')).toMatchObject({ sourceCardinality: 'exactly-one', identifying: 'identifying' });
+        expect(between('customers', 'profiles')).toMatchObject({ sourceCardinality: 'zero-or-one', targetCardinality: 'zero-or-one' });
+    });
+
+    it('should record the key and referenced columns of each foreign key', () => {
+        const { relationships } = parseSQLERDiagram(ddl);
+        const between = (source: string, target: string) =>
+            relationships.find(r => r.source === source && r.target === target)!;
+
+        expect(between('customers', 'orders').metadata).toEqual({ columns: ['customer_id'], references: ['id'] });
+        expect(between('orders', 'order_items').metadata).toEqual({ columns: ['order_id'], references: ['id'] });
+        // The referenced primary key is filled in when the reference names no column
+        expect(between('customers', 'profiles').metadata).toEqual({ columns: ['customer_id'], references: ['id'] });
+        expect(between('coupons', 'orders').metadata).toEqual({ columns: ['coupon_id'], references: ['id'] });
+
+        const relationship = extractERData(parseSQL(ddl))!.relationships.find(r => r.target === 'order_items')!;
+        expect(relationship.metadata).toEqual({ columns: ['order_id'], references: ['id'] });
+    });
+
+    it('should read back generated DDL with relationship labels', () => {
+        const sql = generateSQL(parseERDiagram(`erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    A }o--|| B : refs
+    B }o--|| A : refs`));
+        const { relationships } = parseSQLERDiagram(sql);
+
+        expect(relationships.map(r => `${r.source}->${r.target}:${r.label}`).sort())
+            .toEqual(['A->B:refs', 'B->A:refs', 'CUSTOMER->ORDER:places']);
+    });
+
+    it('should be detected and converted to Mermaid', () => {
+        expect(detectFormat(ddl).format).toBe('sql');
+
+        const output = convert(ddl, { from: 'sql', to: 'mermaid' }).output;
+        expect(output).toContain('CUSTOMERS ||..o{ ORDERS : relates');
+        expect(output).toContain('ORDERS ||--o{ ORDER_ITEMS : relates');
+        expect(output).toContain('bigint id PK');
+        expect(output).toContain('numeric(10-2) balance "in cents"');
+        expect(extractERData(parseERDiagram(output))!.entities.find(e => e.id === 'ORDERS')!.attributes).toHaveLength(4);
+    });
+
+    it('should keep foreign key columns through a SQL round trip', () => {
+        const source = `CREATE TABLE users (id SERIAL PRIMARY KEY);
+CREATE TABLE posts (
+    id SERIAL PRIMARY KEY,
+    author_id INTEGER NOT NULL REFERENCES users(id),
+    editor_id INTEGER REFERENCES users(id)
+);`;
+        const sql = convert(source, { from: 'sql', to: 'sql' }).output;
+
+        expect(sql).not.toContain('users_id');
+        expect(sql).toContain('author_id INTEGER NOT NULL,');
+        expect(sql).toMatch(/FOREIGN KEY \(author_id\) REFERENCES users \(id\)/);
+        expect(sql).toMatch(/FOREIGN KEY \(editor_id\) REFERENCES users \(id\)/);
+
+        const dbml = convert(source, { from: 'sql', to: 'dbml' }).output;
+        expect(dbml).not.toContain('users_id');
+        expect(dbml).toContain('author_id');
+        expect(dbml).toContain('editor_id');
+    });
+
+    it('should report unterminated strings with their line', () => {
+        expect(() => parseSQLERDiagram("CREATE TABLE t (\n  a TEXT DEFAULT 'x\n);")).toThrow(/Unterminated string \(line 2\)/);
+    });
+});
+
+describe('DBML export', () => {
+    it('should generate tables, settings and references', () => {
+        const dbml = generateDBML(parseERDiagram(mermaidSource));
+
+        expect(dbml).toContain('Table CUSTOMER {\n  id int [pk]\n  email string [unique]\n  name string [note: \'Full name\']\n}');
+        expect(dbml).toContain('Table "LINE-ITEM" {');
+        expect(dbml).toContain('Ref: ORDER.customerId > CUSTOMER.id // places');
+        expect(dbml).toContain('Ref: PASSPORT.person_id - PERSON.id // holds');
+        expect(dbml).toContain('Ref: PRODUCT.id <> ORDER.orderNumber // ordered in');
+    });
+});
+
+describe('PlantUML IE export', () => {
+    it('should generate entities with key separators and crow\'s foot relationships', () => {
+        const output = convert(mermaidSource, { from: 'mermaid', to: 'plantuml' }).output;
+
+        expect(output).toBe(generatePlantUMLER(parseERDiagram(mermaidSource)));
+        expect(output).toContain('entity CUSTOMER {\n  * id : int <<PK>>\n  --\n  email : string <<UK>>');
+        expect(output).toContain('entity "LINE-ITEM" as LINE_ITEM');
+        expect(output).toContain('CUSTOMER ||--o{ ORDER : places');
+        expect(output).toContain('PRODUCT }|..|{ ORDER : ordered in');
+    });
+});
+
+describe('ER renderers', () => {
+    it('should draw SVG tables with attribute rows and cardinality symbols', () => {
+        const svg = generateERSvg(parseERDiagram(mermaidSource));
+
+        expect(svg).toContain('<g class="er-entity" data-id="CUSTOMER">');
+        expect(svg).toContain('>email</text>');
+        expect(svg).toContain('<g class="er-relationship" data-from="CUSTOMER" data-to="ORDER">');
+        expect(svg).toContain('stroke-dasharray="6,4"');
+    });
+
+    it('should generate Draw.io tables with rows parented to the table', () => {
+        const xml = generateERDrawio(parseERDiagram(mermaidSource));
+        const table = xml.match(/<mxCell id="(\d+)" value="CUSTOMER" style="swimlane;/);
+
+        expect(table).not.toBeNull();
+        expect(xml).toContain(`value="PK id: int" style="text;`);
+        expect(xml).toMatch(new RegExp(`value="UK email: string" style="[^"]*" vertex="1" parent="${table![1]}"`));
+        expect(xml).toContain('startArrow=ERmandOne;endArrow=ERzeroToMany;');
+    });
+
+    it('should be used for ER diagrams converted to SVG and Draw.io', () => {
+        expect(convert(mermaidSource, { from: 'mermaid', to: 'svg' }).output).toContain('class="er-entity"');
+        expect(convert(mermaidSource, { from: 'mermaid', to: 'drawio' }).output).toContain('edgeStyle=entityRelationEdgeStyle');
+    });
+});
@@ -57,7 +57,7 @@ describe('D2 Parser', () => {
 
         // c -- d (no arrows)
         expect(diagram.edges[2].arrow.targetType).toBe('none');
-        expect(diagram.edges[2].arrow.lineType).toBe('dashed');
+        expect(diagram.edges[2].arrow.lineType).toBe('solid');
     });
 
     it('should parse edge with label', () => {
@@ -76,8 +76,8 @@ describe('D2 Parser', () => {
         const diagram = parseD2(code);
         expect(diagram.groups).toHaveLength(1);
         expect(diagram.groups[0].id).toBe('backend');
-        expect(diagram.groups[0].children).toContain('api');
-        expect(diagram.groups[0].children).toContain('db');
+        expect(diagram.groups[0].children).toContain('backend.api');
+        expect(diagram.groups[0].children).toContain('backend.db');
     });
 });
 
@@ -197,16 +197,34 @@ describe('Structurizr Generator', () => {
 });
 
 // =============================================================================
-// BPMN Parser Tests (skipped - requires browser DOMParser)
+// BPMN Parser Tests
 // =============================================================================
 
 describe('BPMN Parser', () => {
-    it.skip('should parse BPMN XML with tasks (browser only)', () => {
-        // DOMParser is not available in Node.js
+    const bpmn = `<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Definitions_1">
+  <bpmn:process id="Process_1">
+    <bpmn:startEvent id="start" name="Start" />
+    <bpmn:userTask id="review" name="Review &amp; approve" />
+    <bpmn:endEvent id="end" name="End" />
+    <bpmn:sequenceFlow id="f1" sourceRef="start" targetRef="review" />
+    <bpmn:sequenceFlow id="f2" sourceRef="review" targetRef="end" />
+  </bpmn:process>
+</bpmn:definitions>`;
+
+    it('should parse BPMN XML with tasks', () => {
+        const diagram = parseBpmn(bpmn);
+        const review = diagram.nodes.find(n => n.id === 'review');
+
+        expect(review?.label).toBe('Review & approve');
+        expect(diagram.edges.map(e => `${e.source}->${e.target}`)).toEqual(['start->review', 'review->end']);
     });
 
-    it.skip('should identify start and end events (browser only)', () => {
-        // DOMParser is not available in Node.js
+    it('should identify start and end events', () => {
+        const diagram = parseBpmn(bpmn);
+
+        expect(diagram.nodes.find(n => n.id === 'start')?.metadata?.bpmnType).toBe('startEvent');
+        expect(diagram.nodes.find(n => n.id === 'end')?.metadata?.bpmnType).toBe('endEvent');
     });
 });
 
@@ -242,16 +260,33 @@ describe('BPMN Generator', () => {
 });
 
 // =============================================================================
-// GraphML Parser Tests (skipped - requires browser DOMParser)
+// GraphML Parser Tests
 // =============================================================================
 
 describe('GraphML Parser', () => {
-    it.skip('should parse GraphML with nodes (browser only)', () => {
-        // DOMParser is not available in Node.js
+    const graphml = `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="label" attr.type="string"/>
+  <key id="d1" for="edge" attr.name="label" attr.type="string"/>
+  <graph id="G" edgedefault="directed">
+    <node id="a"><data key="d0">Node A</data></node>
+    <node id="b"><data key="d0"><![CDATA[Node <B>]]></data></node>
+    <edge id="e1" source="a" target="b"><data key="d1">calls</data></edge>
+  </graph>
+</graphml>`;
+
+    it('should parse GraphML with nodes', () => {
+        const diagram = parseGraphml(graphml);
+
+        expect(diagram.nodes.map(n => [n.id, n.label])).toEqual([['a', 'Node A'], ['b', 'Node <B>']]);
     });
 
-    it.skip('should parse edges (browser only)', () => {
-        // DOMParser is not available in Node.js
+    it('should parse edges', () => {
+        const diagram = parseGraphml(graphml);
+
+        expect(diagram.edges).toHaveLength(1);
+        expect(diagram.edges[0]).toMatchObject({ source: 'a', target: 'b', label: 'calls' });
+        expect(diagram.edges[0].arrow.targetType).toBe('arrow');
     });
 });
 
@@ -364,7 +399,10 @@ describe('Round-trip conversions', () => {
         expect(parsed.edges.length).toBe(simpleDiagram.edges.length);
     });
 
-    it.skip('GraphML: generate -> parse should preserve structure (browser only)', () => {
-        // DOMParser is not available in Node.js
+    it('GraphML: generate -> parse should preserve structure', () => {
+        const parsed = parseGraphml(generateGraphML(simpleDiagram));
+
+        expect(parsed.nodes.length).toBe(simpleDiagram.nodes.length);
+        expect(parsed.edges.length).toBe(simpleDiagram.edges.length);
     });
 });
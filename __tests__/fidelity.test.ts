@@ -0,0 +1,269 @@
+/**
+ * Conversion Fidelity Tests
+ *
+ * Tests for the format capability matrix and the loss diagnostics of convert
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    analyzeFidelity,
+    convert,
+    createEdge,
+    createEmptyDiagram,
+    createGroup,
+    createNode,
+    generateD2,
+    generateDot,
+    generateDrawio,
+    generateExcalidraw,
+    generateGraphML,
+    generateMermaid,
+    generatePlantUML,
+    generateSvg,
+    getFormatCapabilities,
+    registerCapabilities,
+    registerGenerator,
+    supportsFeature,
+    unregisterFormat,
+    FORMAT_CAPABILITIES,
+    type ArrowConfig,
+    type ArrowHeadType,
+    type BuiltinOutputFormat,
+    type Diagram,
+    type DiagramFeature,
+    type LineType,
+    type NodeShape,
+    type OutputFormat,
+} from '../src/index';
+
+const ACME = 'acme' as OutputFormat;
+
+const SHAPES: NodeShape[] = [
+    'rectangle', 'rounded-rectangle', 'circle', 'ellipse', 'diamond', 'hexagon', 'parallelogram',
+    'trapezoid', 'cylinder', 'document', 'cloud', 'actor', 'note',
+];
+const LINE_TYPES: LineType[] = ['solid', 'dashed', 'dotted', 'thick'];
+const ARROW_HEADS: ArrowHeadType[] = ['none', 'arrow', 'open', 'diamond', 'diamond-filled', 'circle', 'circle-filled', 'cross', 'bar'];
+
+/** Generators whose flowchart output is checked against the capability matrix */
+const FLOWCHART_GENERATORS = {
+    mermaid: generateMermaid,
+    plantuml: generatePlantUML,
+    dot: generateDot,
+    d2: generateD2,
+    drawio: generateDrawio,
+    excalidraw: generateExcalidraw,
+    svg: generateSvg,
+    graphml: generateGraphML,
+} satisfies Partial<Record<BuiltinOutputFormat, (diagram: Diagram) => string>>;
+
+/** Unlisted values a generator approximates with output of their own */
+const APPROXIMATIONS: Partial<Record<BuiltinOutputFormat, DiagramFeature[]>> = {
+    // A hollow triangle
+    plantuml: ['arrow:diamond'],
+    // D2's default shape
+    d2: ['shape:trapezoid', 'shape:note'],
+    // Rectangles sized like the shape
+    excalidraw: ['shape:cylinder', 'shape:actor'],
+};
+
+/** Output for two nodes and an edge, without the ids and timestamps that change on every run */
+function sample(generate: (diagram: Diagram) => string, shape: NodeShape, arrow: Partial<ArrowConfig>): string {
+    const diagram = createEmptyDiagram('flowchart', 'test');
+    diagram.nodes.push(createNode('A', 'A', { shape }), createNode('B', 'B'));
+    diagram.edges.push({
+        ...createEdge('A', 'B', { arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid', ...arrow } }),
+        id: 'e1',
+    });
+    return generate(diagram)
+        .replace(/\d{4}-\d\d-\d\dT[\d:.]+Z/g, 'TIME')
+        .replace(/"wb-[a-z0-9]+-[a-z0-9]+"/g, 'ID')
+        .replace(/"(seed|versionNonce|updated)": ?\d+/g, '$1');
+}
+
+function styledDiagram(): Diagram {
+    const diagram = createEmptyDiagram('flowchart', 'drawio');
+    diagram.nodes.push(
+        createNode('A', 'Start', { position: { x: 0, y: 0 }, size: { width: 120, height: 60 }, style: { fill: '#ffcc00', shadow: true } }),
+        createNode('B', 'Store', { shape: 'cloud', style: {} }),
+    );
+    diagram.edges.push(
+        { ...createEdge('A', 'B', { label: 'saves', waypoints: [{ x: 60, y: 100 }] }), id: 'e1' },
+        { ...createEdge('B', 'A', { arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'thick' } }), id: 'e2' },
+    );
+    diagram.groups.push(
+        createGroup('outer', ['inner']),
+        createGroup('inner', ['A', 'B'], { style: { strokeDasharray: '4 2' } }),
+    );
+    return diagram;
+}
+
+describe('Format capabilities', () => {
+    afterEach(() => unregisterFormat(ACME));
+
+    it('should describe every built-in output format', () => {
+        expect(getFormatCapabilities('drawio')).toBe(FORMAT_CAPABILITIES.drawio);
+        expect(getFormatCapabilities('drawio')!.shapes).toContain('cloud');
+        expect(getFormatCapabilities('sql')!.diagramTypes).toEqual(['er']);
+    });
+
+    it.each(Object.keys(FLOWCHART_GENERATORS) as (keyof typeof FLOWCHART_GENERATORS)[])(
+        'should list the shapes, lines and arrow heads the %s generator writes',
+        format => {
+            const generate = FLOWCHART_GENERATORS[format];
+            const capabilities = FORMAT_CAPABILITIES[format];
+            const dimensions = [
+                { kind: 'shape', all: SHAPES, listed: capabilities.shapes, write: (value: string) => sample(generate, value as NodeShape, {}) },
+                { kind: 'line', all: LINE_TYPES, listed: capabilities.lineTypes, write: (value: string) => sample(generate, 'rectangle', { lineType: value as LineType }) },
+                { kind: 'arrow', all: ARROW_HEADS, listed: capabilities.arrowHeads, write: (value: string) => sample(generate, 'rectangle', { targetType: value as ArrowHeadType }) },
+            ];
+
+            for (const { kind, all, listed, write } of dimensions) {
+                const outputs = new Map<string, string>(all.map(value => [value, write(value)]));
+                const listedOutputs = listed.map(value => outputs.get(value));
+                // Each listed value is written in a way of its own
+                expect(new Set(listedOutputs).size, `${kind}: ${listed.join(', ')}`).toBe(listed.length);
+                // The others fall back to a listed one
+                for (const value of all) {
+                    const feature = `${kind}:${value}` as DiagramFeature;
+                    if ((listed as readonly string[]).includes(value) || APPROXIMATIONS[format]?.includes(feature)) continue;
+                    expect(listedOutputs, feature).toContain(outputs.get(value));
+                }
+            }
+        },
+    );
+
+    it('should answer feature queries', () => {
+        expect(supportsFeature('drawio', 'waypoints')).toBe(true);
+        expect(supportsFeature('mermaid', 'waypoints')).toBe(false);
+        expect(supportsFeature('mermaid', 'line:thick')).toBe(true);
+        expect(supportsFeature('dot', 'line:thick')).toBe(false);
+        expect(supportsFeature('d2', 'nested-groups')).toBe(true);
+        expect(supportsFeature('mermaid', 'nested-groups')).toBe(false);
+        expect(supportsFeature('excalidraw', 'shape:hexagon')).toBe(false);
+        expect(supportsFeature('mermaid', 'type:sequence')).toBe(true);
+    });
+
+    it('should use registered capabilities', () => {
+        registerGenerator(ACME, () => '');
+        expect(getFormatCapabilities(ACME)).toBeUndefined();
+        expect(supportsFeature(ACME, 'edge-labels')).toBe(false);
+
+        registerCapabilities(ACME, {
+            features: ['edge-labels'],
+            shapes: ['rectangle'],
+            lineTypes: ['solid'],
+            arrowHeads: ['none', 'arrow'],
+            diagramTypes: ['flowchart'],
+        });
+        expect(supportsFeature(ACME, 'edge-labels')).toBe(true);
+
+        unregisterFormat(ACME);
+        expect(getFormatCapabilities(ACME)).toBeUndefined();
+    });
+
+    it('should know nothing about a built-in format replaced by a registered generator', () => {
+        registerGenerator('mermaid', () => '');
+        try {
+            expect(getFormatCapabilities('mermaid')).toBeUndefined();
+        } finally {
+            unregisterFormat('mermaid');
+        }
+        expect(getFormatCapabilities('mermaid')).toBe(FORMAT_CAPABILITIES.mermaid);
+    });
+});
+
+describe('analyzeFidelity', () => {
+    it('should report nothing for a format that expresses everything', () => {
+        expect(analyzeFidelity(styledDiagram(), 'drawio')).toEqual([]);
+    });
+
+    it('should list each lost feature with its element', () => {
+        const diagnostics = analyzeFidelity(styledDiagram(), 'mermaid');
+        const features = diagnostics.map(d => `${d.elementId}:${d.feature}`);
+
+        expect(features).toContain('A:positions');
+        expect(features).toContain('A:sizes');
+        expect(features).toContain('A:shadow');
+        expect(features).toContain('B:shape:cloud');
+        expect(features).toContain('e1:waypoints');
+        expect(features).toContain('inner:nested-groups');
+        expect(features).toContain('inner:group-dash');
+        expect(features).not.toContain('A:fill');
+        expect(features).not.toContain('e2:line:thick');
+
+        expect(diagnostics.find(d => d.feature === 'shape:cloud')).toEqual({
+            elementId: 'B',
+            elementType: 'node',
+            feature: 'shape:cloud',
+            reason: 'mermaid cannot express the cloud shape',
+            severity: 'warning',
+        });
+        expect(diagnostics.find(d => d.feature === 'shadow')!.severity).toBe('info');
+    });
+
+    it('should report thick lines for dot', () => {
+        const thick = analyzeFidelity(styledDiagram(), 'dot').filter(d => d.feature === 'line:thick');
+        expect(thick).toEqual([expect.objectContaining({ elementId: 'e2', elementType: 'edge', reason: 'dot cannot express thick lines' })]);
+    });
+
+    it('should report lost edge labels as errors', () => {
+        const labelled = createEmptyDiagram('flowchart', 'drawio');
+        labelled.nodes.push(createNode('A', 'A'), createNode('B', 'B'));
+        labelled.edges.push({ ...createEdge('A', 'B', { label: 'uses' }), id: 'e1' });
+        registerCapabilities(ACME, { features: [], shapes: ['rectangle'], lineTypes: ['solid'], arrowHeads: ['arrow'], diagramTypes: ['flowchart'] });
+        try {
+            expect(analyzeFidelity(labelled, ACME)).toEqual([
+                expect.objectContaining({ elementId: 'e1', feature: 'edge-labels', severity: 'error' }),
+            ]);
+        } finally {
+            unregisterFormat(ACME);
+        }
+    });
+
+    it('should report diagram types the format does not write natively', () => {
+        const diagram = createEmptyDiagram('sequence', 'mermaid');
+        expect(analyzeFidelity(diagram, 'dot')).toEqual([
+            { elementType: 'diagram', feature: 'type:sequence', reason: 'dot cannot express sequence diagrams natively', severity: 'warning' },
+        ]);
+        expect(analyzeFidelity(diagram, 'plantuml')).toEqual([]);
+    });
+});
+
+describe('convert diagnostics', () => {
+    const mermaid = `flowchart TD
+    A[Start] -->|go| B((Done))
+    B ==> C{Check}`;
+
+    it('should fill warnings and errors from the lost features', () => {
+        const drawio = convert(mermaid, { from: 'mermaid', to: 'drawio' }).output;
+        const result = convert(drawio, { from: 'drawio', to: 'mermaid' });
+
+        expect(result.diagnostics!.some(d => d.feature === 'positions')).toBe(true);
+        expect(result.warnings).toContainEqual(expect.stringMatching(/^mermaid cannot express positions \(3 elements: /));
+        expect(result.errors).toBeUndefined();
+    });
+
+    it('should report nothing lost when converting to a richer format', () => {
+        const result = convert(mermaid, { from: 'mermaid', to: 'drawio' });
+        expect(result.diagnostics).toEqual([]);
+        expect(result.warnings).toBeUndefined();
+    });
+
+    it('should not count positions added by the layout as losses', () => {
+        const result = convert(mermaid, { from: 'mermaid', to: 'dot', layout: { algorithm: 'dagre' } });
+        expect(result.diagnostics!.map(d => d.feature)).toEqual(['line:thick']);
+        expect(result.warnings).toEqual([expect.stringMatching(/^dot cannot express thick lines \(1 element: /)]);
+    });
+
+    it('should summarise lost labels as errors', () => {
+        registerGenerator(ACME, () => '');
+        registerCapabilities(ACME, { features: [], shapes: ['rectangle', 'circle', 'diamond'], lineTypes: ['solid', 'thick'], arrowHeads: ['none', 'arrow'], diagramTypes: ['flowchart'] });
+        try {
+            const result = convert(mermaid, { from: 'mermaid', to: ACME });
+            expect(result.errors).toEqual([expect.stringMatching(/^acme cannot express edge labels \(1 element: /)]);
+        } finally {
+            unregisterFormat(ACME);
+        }
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * Gantt Chart Tests
+ *
+ * Tests for Mermaid and PlantUML Gantt parsing and generation, scheduling
+ * and the SVG timeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    extractGanttData,
+    generateGanttDiagram,
+    generateGanttSvg,
+    generatePlantUMLGantt,
+    parseGanttDiagram,
+    parsePlantUML,
+    scheduleGanttTasks,
+} from '../src/index';
+
+const mermaidSource = `gantt
+    title Release plan
+    dateFormat YYYY-MM-DD
+    axisFormat %d %b
+    excludes weekends, 2024-01-15
+    section Build
+    Design          :done, des, 2024-01-01, 5d
+    Implement       :active, impl, after des, 10d
+    Review          :crit, 3d
+    section Ship
+    Docs            :docs, 2024-01-08, 2024-01-10
+    Release         :milestone, rel, after impl docs, 0d`;
+
+const plantumlSource = `@startgantt
+title Migration
+Project starts 2024-03-04
+saturday are closed
+sunday are closed
+2024-03-11 is closed
+-- Prepare --
+[Audit] as [A] lasts 3 days
+[Plan] lasts 2 days and starts at [A]'s end
+-- Execute --
+[Move data] as [M] lasts 1 week
+[Plan] -> [M]
+[M] is 40% completed
+[Cutover] happens at [M]'s end
+[Cleanup] starts 2024-03-25 and ends 2024-03-27
+@endgantt`;
+
+describe('Mermaid gantt parser', () => {
+    const gantt = extractGanttData(parseGanttDiagram(mermaidSource))!;
+    const task = (id: string) => gantt.tasks.find(t => t.id === id)!;
+
+    it('should parse chart settings and sections', () => {
+        expect(gantt.title).toBe('Release plan');
+        expect(gantt.dateFormat).toBe('YYYY-MM-DD');
+        expect(gantt.axisFormat).toBe('%d %b');
+        expect(gantt.excludes).toEqual(['weekends', '2024-01-15']);
+        expect(gantt.sections).toEqual(['Build', 'Ship']);
+        expect(task('docs').section).toBe('Ship');
+    });
+
+    it('should parse tags, dates, durations and dependencies', () => {
+        expect(task('des')).toMatchObject({ name: 'Design', start: '2024-01-01', duration: 5, tags: ['done'] });
+        expect(task('impl')).toMatchObject({ after: ['des'], duration: 10, tags: ['active'] });
+        expect(task('docs')).toMatchObject({ start: '2024-01-08', end: '2024-01-10' });
+        expect(task('rel')).toMatchObject({ milestone: true, after: ['impl', 'docs'] });
+
+        // Tasks without a start follow the previous task
+        const review = gantt.tasks.find(t => t.name === 'Review')!;
+        expect(review.after).toEqual(['impl']);
+        expect(review.tags).toEqual(['crit']);
+    });
+
+    it('should parse custom date formats', () => {
+        const custom = extractGanttData(parseGanttDiagram(`gantt
+    dateFormat DD.MM.YYYY
+    Kickoff :k, 15.02.2024, 2d`))!;
+        expect(custom.tasks[0].start).toBe('2024-02-15');
+    });
+});
+
+describe('Gantt scheduling', () => {
+    it('should skip excluded days and follow dependencies', () => {
+        const schedule = scheduleGanttTasks(extractGanttData(parseGanttDiagram(mermaidSource))!);
+        const task = (id: string) => schedule.find(t => t.id === id)!;
+
+        // Mon 1st + 5 working days
+        expect(task('des')).toMatchObject({ start: '2024-01-01', end: '2024-01-06' });
+        // 10 working days from Sat 6th, skipping weekends and the 15th
+        expect(task('impl')).toMatchObject({ start: '2024-01-06', end: '2024-01-23' });
+        expect(task('rel')).toMatchObject({ start: '2024-01-23', end: '2024-01-23' });
+    });
+});
+
+describe('PlantUML gantt parser', () => {
+    const diagram = parsePlantUML(plantumlSource);
+    const gantt = extractGanttData(diagram)!;
+    const byName = (name: string) => gantt.tasks.find(t => t.name === name)!;
+
+    it('should parse project settings, closed days and separators', () => {
+        expect(diagram.type).toBe('gantt');
+        expect(gantt.title).toBe('Migration');
+        expect(gantt.projectStart).toBe('2024-03-04');
+        expect(gantt.excludes).toEqual(['saturday', 'sunday', '2024-03-11']);
+        expect(gantt.sections).toEqual(['Prepare', 'Execute']);
+    });
+
+    it('should parse task clauses, aliases and milestones', () => {
+        expect(byName('Audit')).toMatchObject({ id: 'A', duration: 3, section: 'Prepare' });
+        expect(byName('Plan')).toMatchObject({ duration: 2, after: ['A'] });
+        expect(byName('Move data')).toMatchObject({ id: 'M', duration: 7, progress: 40, after: [byName('Plan').id] });
+        expect(byName('Cutover')).toMatchObject({ milestone: true, after: ['M'] });
+        // Inclusive PlantUML end date becomes exclusive
+        expect(byName('Cleanup')).toMatchObject({ start: '2024-03-25', end: '2024-03-28' });
+    });
+});
+
+describe('Gantt generators', () => {
+    it('should round-trip Mermaid gantt charts', () => {
+        const output = generateGanttDiagram(parseGanttDiagram(mermaidSource));
+
+        expect(output).toMatch(/^gantt/);
+        expect(output).toContain('excludes weekends, 2024-01-15');
+        expect(output).toContain('section Build');
+        expect(output).toContain('Design :done, des, 2024-01-01, 5d');
+        expect(output).toContain('Implement :active, impl, after des, 10d');
+        expect(output).toContain('Release :milestone, rel, after impl docs, 0d');
+
+        const original = extractGanttData(parseGanttDiagram(mermaidSource))!;
+        const reparsed = extractGanttData(parseGanttDiagram(output))!;
+        expect(reparsed.tasks).toEqual(original.tasks);
+        expect(reparsed.sections).toEqual(original.sections);
+    });
+
+    it('should convert Mermaid plans to PlantUML', () => {
+        const result = convert(mermaidSource, { from: 'mermaid', to: 'plantuml' });
+
+        expect(result.output).toMatch(/^@startgantt/);
+        expect(result.output).toContain('Project starts 2024-01-01');
+        expect(result.output).toContain('saturday are closed');
+        expect(result.output).toContain('2024-01-15 is closed');
+        expect(result.output).toContain('-- Build --');
+        expect(result.output).toContain('[Design] as [des] starts 2024-01-01');
+        expect(result.output).toContain('[des] lasts 5 days');
+        expect(result.output).toContain('[des] is 100% completed');
+        expect(result.output).toContain("[Implement] as [impl] starts at [des]'s end");
+        expect(result.output).toContain("[Release] as [rel] happens at [impl]'s end");
+        expect(result.output).toContain('[docs] -> [rel]');
+        expect(result.output).toContain('[docs] ends 2024-01-09');
+
+        // Same schedule on both sides
+        const fromMermaid = scheduleGanttTasks(extractGanttData(result.diagram)!);
+        const fromPlantUML = scheduleGanttTasks(extractGanttData(parsePlantUML(result.output))!);
+        expect(fromPlantUML.map(t => [t.id, t.start, t.end])).toEqual(fromMermaid.map(t => [t.id, t.start, t.end]));
+    });
+
+    it('should convert PlantUML gantt charts to Mermaid', () => {
+        const result = convert(plantumlSource, { from: 'plantuml', to: 'mermaid' });
+
+        expect(result.output).toMatch(/^gantt/);
+        expect(result.output).toContain('title Migration');
+        expect(result.output).toContain('excludes saturday, sunday, 2024-03-11');
+        expect(result.output).toContain('Audit :A, 2024-03-04, 3d');
+        expect(result.output).toContain('Cutover :milestone, task4, after M, 0d');
+        expect(generatePlantUMLGantt(parsePlantUML(plantumlSource))).toContain('[M] is 40% completed');
+    });
+});
+
+describe('Gantt styling', () => {
+    it('should keep critical tasks through PlantUML', () => {
+        const source = 'gantt\n    dateFormat YYYY-MM-DD\n    Launch :crit, l1, 2024-01-01, 3d';
+        const plantuml = convert(source, { from: 'mermaid', to: 'plantuml' }).output;
+        expect(plantuml).toContain('[l1] is colored in Tomato');
+
+        const result = convert(plantuml, { from: 'plantuml', to: 'mermaid' });
+        expect(result.output).toContain('Launch :crit, l1, 2024-01-01, 3d');
+        expect(result.warnings).toBeUndefined();
+    });
+
+    it('should report task colors only PlantUML can write', () => {
+        const source = [
+            '@startgantt',
+            '[Prototype design] lasts 15 days',
+            '[Test prototype] lasts 10 days',
+            '[Prototype design] is colored in Fuchsia/FireBrick',
+            '[Test prototype] is colored in GreenYellow/Green',
+            '@endgantt',
+        ].join('\n');
+        const result = convert(source, { from: 'plantuml', to: 'mermaid' });
+
+        expect(result.warnings).toEqual(['Task colors on lines 4, 5 are written to PlantUML only']);
+        expect(generatePlantUMLGantt(parsePlantUML(source))).toContain('is colored in Fuchsia/FireBrick');
+    });
+});
+
+describe('Gantt SVG timeline', () => {
+    it('should render bars, milestones, sections and dependencies', () => {
+        const svg = generateGanttSvg(parseGanttDiagram(mermaidSource));
+
+        expect(svg).toMatch(/^<svg/);
+        expect(svg).toContain('Release plan');
+        expect(svg.match(/class="gantt-task"/g)).toHaveLength(5);
+        expect(svg.match(/class="gantt-section"/g)).toHaveLength(2);
+        expect(svg.match(/class="gantt-dependency"/g)).toHaveLength(4);
+        expect(svg).toContain('class="gantt-excluded"');
+        expect(svg).toContain('01 Jan');
+        expect(svg).toContain('<polygon');
+    });
+
+    it('should be used by convert for gantt charts', () => {
+        const result = convert(plantumlSource, { from: 'plantuml', to: 'svg' });
+        expect(result.output).toContain('class="gantt-progress"');
+    });
+});
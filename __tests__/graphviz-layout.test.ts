@@ -0,0 +1,146 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * Graphviz Layout Import Tests
+ *
+ * Tests for reading coordinates computed by Graphviz: `pos`, `width`,
+ * `height` and `bb` attributes of `dot -Tdot` output and the `-Tplain` and
+ * `-Tjson` renderings, converted to top-left pixel positions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDot, parseGraphvizPlain, parseGraphvizJson, convert, detectFormat, ParseError } from '../src/index';
+
+const LAID_OUT_DOT = `digraph G {
+	graph [bb="0,0,152,208"];
+	node [label="\\N"];
+	subgraph cluster_api {
+		graph [bb="8,8,144,200", label=API];
+		a	[height=0.5, pos="76,174", width=1.5];
+		b	[height=0.5, pos="43,34", width=0.75];
+	}
+	c	[height=0.5, pos="120,34", width=0.75];
+	a -> b	[pos="e,47.7,52.2 66.1,156.4 57.5,141.2 50,110 48.5,62.3"];
+	a -> c	[pos="e,114.38,51.84 81.62,156.16 89.37,131.49 103.39,86.85 111.35,61.51"];
+}`;
+
+describe('DOT layout attributes', () => {
+    it('should convert node centers in points and sizes in inches to top-left pixel boxes', () => {
+        const diagram = parseDot(LAID_OUT_DOT);
+        const boxes = Object.fromEntries(diagram.nodes.map(node => [node.id, [node.position, node.size]]));
+
+        expect(boxes).toEqual({
+            a: [{ x: 22, y: 16 }, { width: 108, height: 36 }],
+            b: [{ x: 16, y: 156 }, { width: 54, height: 36 }],
+            c: [{ x: 93, y: 156 }, { width: 54, height: 36 }],
+        });
+    });
+
+    it('should place clusters from their bounding box', () => {
+        const group = parseDot(LAID_OUT_DOT).groups[0];
+
+        expect(group).toMatchObject({ id: 'api', position: { x: 8, y: 8 }, size: { width: 136, height: 192 } });
+    });
+
+    it('should follow curved splines with waypoints and drop straight ones', () => {
+        const [curved, straight] = parseDot(LAID_OUT_DOT).edges;
+
+        expect(curved.waypoints?.length).toBeGreaterThan(0);
+        for (const point of curved.waypoints!) {
+            expect(point.y).toBeGreaterThan(34);
+            expect(point.y).toBeLessThan(174);
+        }
+        expect(straight.waypoints).toBeUndefined();
+    });
+
+    it('should leave positions unset without layout attributes', () => {
+        const diagram = parseDot('digraph { a -> b }');
+
+        expect(diagram.nodes[0].position).toBeUndefined();
+        expect(diagram.edges[0].waypoints).toBeUndefined();
+    });
+
+    it('should keep Graphviz coordinates when converting without a layout', () => {
+        const result = convert(LAID_OUT_DOT, { from: 'dot', to: 'drawio' });
+
+        expect(result.output).toContain('x="93" y="156" width="54" height="36"');
+        expect(result.output).toContain('x="14" y="8" width="108" height="36"');
+    });
+});
+
+describe('Graphviz plain output', () => {
+    const PLAIN = [
+        'graph 1 2.1111 2.8889',
+        'node a 1.0556 2.4167 1.5 0.5 "Start here" solid box black lightgrey',
+        'node b 0.59722 0.47222 0.75 0.5 b filled ellipse red yellow',
+        'edge a b 4 0.91667 2.1667 0.79167 1.9444 0.68056 1.5278 0.63889 0.72222 yes 0.9 1.5 dashed blue',
+        'stop',
+    ].join('\n');
+
+    it('should read nodes and edges with their coordinates', () => {
+        const diagram = parseGraphvizPlain(PLAIN);
+        const [a, b] = diagram.nodes;
+
+        expect(a).toMatchObject({ label: 'Start here', shape: 'rectangle', position: { x: 22, y: 16 }, size: { width: 108, height: 36 } });
+        expect(a.style.fill).toBeUndefined();
+        expect(b).toMatchObject({ shape: 'ellipse', style: { fill: 'yellow', stroke: 'red' } });
+        expect(diagram.edges[0]).toMatchObject({ label: 'yes', style: { stroke: 'blue' }, arrow: { lineType: 'dashed' } });
+        expect(diagram.edges[0].waypoints?.length).toBeGreaterThan(0);
+        expect(diagram.metadata?.source).toBe('graphviz-plain');
+    });
+
+    it('should be detected and report malformed lines', () => {
+        expect(detectFormat(PLAIN).format).toBe('graphviz-plain');
+        expect(() => parseGraphvizPlain('graph 1 2 3\nnode a 1 x 1 1 a solid box black lightgrey')).toThrow(ParseError);
+        expect(() => parseGraphvizPlain('graph 1 2 3\nnodes a')).toThrow(/Unknown statement "nodes"/);
+    });
+});
+
+describe('Graphviz JSON output', () => {
+    const JSON_OUTPUT = JSON.stringify({
+        name: 'G',
+        directed: true,
+        strict: false,
+        bb: '0,0,152,208',
+        _subgraph_cnt: 2,
+        objects: [
+            { _gvid: 0, name: 'cluster_api', bb: '8,8,144,200', label: 'API', nodes: [2, 3], subgraphs: [1] },
+            { _gvid: 1, name: 'cluster_inner', bb: '16,16,72,52', nodes: [3] },
+            { _gvid: 2, name: 'a', label: '\\N', pos: '76,174', width: '1.5', height: '0.5', shape: 'box' },
+            { _gvid: 3, name: 'b', label: '<<b>B</b>>', pos: '43,34', width: '0.75', height: '0.5' },
+            { _gvid: 4, name: 'c', label: '\\N', pos: '120,34', width: '0.75', height: '0.5' },
+        ],
+        edges: [
+            { _gvid: 0, tail: 2, head: 3, pos: 'e,47.7,52.2 66.1,156.4 57.5,141.2 50,110 48.5,62.3', label: 'go' },
+            { _gvid: 1, tail: 2, head: 4 },
+        ],
+    });
+
+    it('should rebuild nodes, nested clusters and edges by gvid', () => {
+        const diagram = parseGraphvizJson(JSON_OUTPUT);
+
+        expect(diagram.name).toBe('G');
+        expect(diagram.nodes.map(node => [node.id, node.label, node.position])).toEqual([
+            ['a', 'a', { x: 22, y: 16 }],
+            ['b', 'B', { x: 16, y: 156 }],
+            ['c', 'c', { x: 93, y: 156 }],
+        ]);
+        expect(diagram.nodes[1].metadata?.htmlLabel).toBe('<b>B</b>');
+        expect(diagram.groups.map(group => [group.id, group.children, group.position])).toEqual([
+            ['api', ['inner', 'a'], { x: 8, y: 8 }],
+            ['inner', ['b'], { x: 16, y: 156 }],
+        ]);
+        expect(diagram.edges.map(edge => [edge.source, edge.target, edge.label])).toEqual([
+            ['a', 'b', 'go'],
+            ['a', 'c', undefined],
+        ]);
+    });
+
+    it('should be detected and reject broken JSON', () => {
+        expect(detectFormat(JSON_OUTPUT).format).toBe('graphviz-json');
+        expect(() => parseGraphvizJson('{"objects": [], "edges": [{"_gvid": 0, "tail": 0, "head": 1}]}')).toThrow(/unknown node/);
+        expect(() => parseGraphvizJson('{"objects": [')).toThrow(ParseError);
+    });
+});
@@ -0,0 +1,261 @@
+/**
+ * Image decoders for tests
+ *
+ * Minimal decoders for the files the image encoders write: 8-bit RGBA
+ * PNG, baseline JPEG with one block of each component per MCU, and
+ * VP8L WebP without transforms, colour cache or backward references.
+ */
+
+import pako from 'pako';
+import type { RgbaImage } from '../../src/index';
+
+/** Decode an 8-bit RGBA PNG written by encodePng */
+export function decodePng(bytes: Uint8Array): RgbaImage {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let width = 0;
+    let height = 0;
+    const idat: number[] = [];
+    for (let offset = 8; offset < bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const payload = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'IHDR') {
+            width = view.getUint32(offset + 8);
+            height = view.getUint32(offset + 12);
+        } else if (type === 'IDAT') {
+            idat.push(...payload);
+        }
+        offset += 12 + length;
+    }
+
+    const raw = pako.inflate(new Uint8Array(idat));
+    const stride = width * 4;
+    const data = new Uint8ClampedArray(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        for (let x = 0; x < stride; x++) {
+            const value = raw[y * (stride + 1) + 1 + x];
+            const left = x >= 4 ? data[y * stride + x - 4] : 0;
+            const up = y > 0 ? data[(y - 1) * stride + x] : 0;
+            const upLeft = x >= 4 && y > 0 ? data[(y - 1) * stride + x - 4] : 0;
+            const p = left + up - upLeft;
+            const [pa, pb, pc] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+            const paeth = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+            const predictor = [0, left, up, (left + up) >> 1, paeth][filter];
+            data[y * stride + x] = (value + predictor) & 0xff;
+        }
+    }
+    return { width, height, data };
+}
+
+/** Canonical prefix code as a map from (length << 16 | code) to symbol */
+type PrefixCode = Map<number, number>;
+
+function canonicalCode(lengths: number[]): PrefixCode {
+    const code: PrefixCode = new Map();
+    const used = lengths.filter(length => length > 0);
+    // A lone symbol takes no bits
+    if (used.length === 1) code.set(0, lengths.findIndex(length => length > 0));
+    if (used.length <= 1) return code;
+    let next = 0;
+    for (let length = 1; length <= 16; length++) {
+        lengths.forEach((symbolLength, symbol) => {
+            if (symbolLength === length) code.set((length << 16) | next++, symbol);
+        });
+        next <<= 1;
+    }
+    return code;
+}
+
+function readSymbol(code: PrefixCode, readBit: () => number): number {
+    if (code.has(0)) return code.get(0)!;
+    let value = 0;
+    for (let length = 1; length <= 16; length++) {
+        value = (value << 1) | readBit();
+        const symbol = code.get((length << 16) | value);
+        if (symbol !== undefined) return symbol;
+    }
+    throw new Error('Invalid prefix code');
+}
+
+// =============================================================================
+// JPEG
+// =============================================================================
+
+const ZIGZAG = [
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+const IDCT = Array.from({ length: 8 }, (_, x) =>
+    Array.from({ length: 8 }, (_, u) => (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos((2 * x + 1) * u * Math.PI / 16)));
+
+/** Decode a baseline JPEG without subsampling or restart markers; alpha is opaque */
+export function decodeJpeg(bytes: Uint8Array): RgbaImage {
+    const quantization: number[][] = [];
+    const codes = new Map<number, PrefixCode>();
+    let width = 0;
+    let height = 0;
+    let components: { table: number }[] = [];
+    let scanTables: number[] = [];
+
+    let offset = 2;
+    for (;;) {
+        const marker = bytes[offset + 1];
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        const segment = bytes.subarray(offset + 4, offset + 2 + length);
+        offset += 2 + length;
+        if (marker === 0xdb) {
+            for (let i = 0; i < segment.length; i += 65) quantization[segment[i] & 15] = Array.from(segment.subarray(i + 1, i + 65));
+        } else if (marker === 0xc0) {
+            height = (segment[1] << 8) | segment[2];
+            width = (segment[3] << 8) | segment[4];
+            components = Array.from({ length: segment[5] }, (_, c) => ({ table: segment[8 + c * 3] }));
+        } else if (marker === 0xc4) {
+            for (let i = 0; i < segment.length;) {
+                const counts = segment.subarray(i + 1, i + 17);
+                const symbols = segment.subarray(i + 17, i + 17 + counts.reduce((sum, count) => sum + count, 0));
+                const code: PrefixCode = new Map();
+                let next = 0;
+                let s = 0;
+                counts.forEach((count, index) => {
+                    for (let k = 0; k < count; k++) code.set(((index + 1) << 16) | next++, symbols[s++]);
+                    next <<= 1;
+                });
+                codes.set(segment[i], code);
+                i += 17 + symbols.length;
+            }
+        } else if (marker === 0xda) {
+            // Huffman table ids of each component: DC in the high nibble, AC in the low one
+            scanTables = components.map((_, c) => segment[2 + c * 2]);
+            break;
+        }
+    }
+
+    // Entropy-coded data, most significant bit first, with 0xFF00 stuffing
+    let bit = 0;
+    const readBit = () => {
+        const value = (bytes[offset] >> (7 - bit)) & 1;
+        if (++bit === 8) {
+            bit = 0;
+            offset += bytes[offset] === 0xff ? 2 : 1;
+        }
+        return value;
+    };
+    const receive = (size: number) => {
+        let value = 0;
+        for (let i = 0; i < size; i++) value = (value << 1) | readBit();
+        return size > 0 && value < 1 << (size - 1) ? value - (1 << size) + 1 : value;
+    };
+
+    const predictions = components.map(() => 0);
+    const planes = components.map(() => new Float64Array(width * height));
+    const coefficients = new Float64Array(64);
+
+    for (let by = 0; by < height; by += 8) {
+        for (let bx = 0; bx < width; bx += 8) {
+            components.forEach((component, c) => {
+                coefficients.fill(0);
+                const q = quantization[component.table];
+                predictions[c] += receive(readSymbol(codes.get(scanTables[c] >> 4)!, readBit));
+                coefficients[0] = predictions[c] * q[0];
+                for (let k = 1; k < 64;) {
+                    const symbol = readSymbol(codes.get(0x10 | (scanTables[c] & 15))!, readBit);
+                    if (symbol === 0) break;
+                    k += symbol >> 4;
+                    coefficients[ZIGZAG[k]] = receive(symbol & 15) * q[k];
+                    k++;
+                }
+                for (let i = 0; i < 64; i++) {
+                    const x = bx + (i & 7);
+                    const y = by + (i >> 3);
+                    if (x >= width || y >= height) continue;
+                    let sum = 0;
+                    for (let v = 0; v < 8; v++) {
+                        for (let u = 0; u < 8; u++) sum += IDCT[i & 7][u] * IDCT[i >> 3][v] * coefficients[v * 8 + u];
+                    }
+                    planes[c][y * width + x] = sum;
+                }
+            });
+        }
+    }
+
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+        const [luma, cb, cr] = [planes[0][i] + 128, planes[1][i], planes[2][i]];
+        data[i * 4] = Math.round(luma + 1.402 * cr);
+        data[i * 4 + 1] = Math.round(luma - 0.344136 * cb - 0.714136 * cr);
+        data[i * 4 + 2] = Math.round(luma + 1.772 * cb);
+        data[i * 4 + 3] = 255;
+    }
+    return { width, height, data };
+}
+
+// =============================================================================
+// WebP
+// =============================================================================
+
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/** Decode a lossless WebP that stores every pixel as literals */
+export function decodeWebp(bytes: Uint8Array): RgbaImage {
+    const text = (from: number, to: number) => String.fromCharCode(...bytes.subarray(from, to));
+    if (text(0, 4) !== 'RIFF' || text(8, 16) !== 'WEBPVP8L') throw new Error('Not a VP8L WebP');
+
+    let position = 21 * 8;
+    const readBits = (count: number) => {
+        let value = 0;
+        for (let i = 0; i < count; i++, position++) value |= ((bytes[position >> 3] >> (position & 7)) & 1) << i;
+        return value;
+    };
+    const readBit = () => readBits(1);
+
+    const width = readBits(14) + 1;
+    const height = readBits(14) + 1;
+    readBits(4);
+    if (readBits(1) || readBits(1) || readBits(1)) throw new Error('Transforms, colour cache and meta prefix codes are not supported');
+
+    const readPrefixCode = (alphabetSize: number): PrefixCode => {
+        const lengths = new Array<number>(alphabetSize).fill(0);
+        if (readBit()) {
+            const count = readBit() + 1;
+            lengths[readBits(readBit() ? 8 : 1)] = 1;
+            if (count === 2) lengths[readBits(8)] = 1;
+            return canonicalCode(lengths);
+        }
+
+        const lengthLengths = new Array<number>(19).fill(0);
+        const count = readBits(4) + 4;
+        for (let i = 0; i < count; i++) lengthLengths[CODE_LENGTH_ORDER[i]] = readBits(3);
+        const lengthCode = canonicalCode(lengthLengths);
+        let remaining = alphabetSize;
+        if (readBit()) remaining = 2 + readBits(2 + 2 * readBits(3));
+
+        let previous = 8;
+        for (let symbol = 0; symbol < alphabetSize && remaining-- > 0;) {
+            const length = readSymbol(lengthCode, readBit);
+            if (length < 16) {
+                lengths[symbol++] = length;
+                if (length !== 0) previous = length;
+                continue;
+            }
+            const [repeat, value] = length === 16 ? [3 + readBits(2), previous] : length === 17 ? [3 + readBits(3), 0] : [11 + readBits(7), 0];
+            for (let i = 0; i < repeat; i++) lengths[symbol++] = value;
+        }
+        return canonicalCode(lengths);
+    };
+
+    const [green, red, blue, alpha] = [280, 256, 256, 256, 40].map(readPrefixCode);
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let offset = 0; offset < data.length; offset += 4) {
+        const g = readSymbol(green, readBit);
+        if (g >= 256) throw new Error('Backward references are not supported');
+        data[offset + 1] = g;
+        data[offset] = readSymbol(red, readBit);
+        data[offset + 2] = readSymbol(blue, readBit);
+        data[offset + 3] = readSymbol(alpha, readBit);
+    }
+    return { width, height, data };
+}
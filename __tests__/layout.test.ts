@@ -0,0 +1,414 @@
+/**
+ * Layout Tests
+ *
+ * Tests for layout engines (Dagre, ELK, force, radial, tree, grid) and their handling of groups and ports
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { autoLayout, convert, loadElkLayout, parseMermaid } from '../src/index';
+import type { Diagram, DiagramGroup, DiagramNode } from '../src/types';
+
+function node(id: string, extra: Partial<DiagramNode> = {}): DiagramNode {
+    return { id, type: 'node', label: id, shape: 'rectangle', style: {}, ...extra };
+}
+
+function contains(outer: DiagramGroup, inner: { position?: { x: number; y: number }; size?: { width: number; height: number } }): boolean {
+    if (!outer.position || !outer.size || !inner.position || !inner.size) return false;
+    return inner.position.x >= outer.position.x
+        && inner.position.y >= outer.position.y
+        && inner.position.x + inner.size.width <= outer.position.x + outer.size.width
+        && inner.position.y + inner.size.height <= outer.position.y + outer.size.height;
+}
+
+const nestedDiagram: Diagram = {
+    id: 'nested',
+    type: 'flowchart',
+    nodes: [node('A'), node('B'), node('C'), node('D')],
+    edges: [
+        { id: 'e1', type: 'edge', source: 'A', target: 'B', arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' }, style: {} },
+        { id: 'e2', type: 'edge', source: 'B', target: 'C', arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' }, style: {} },
+        { id: 'e3', type: 'edge', source: 'C', target: 'D', label: 'next', arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' }, style: {} },
+    ],
+    groups: [
+        { id: 'outer', type: 'group', label: 'Outer', children: ['inner', 'C'], style: {} },
+        { id: 'inner', type: 'group', label: 'Inner', children: ['A', 'B'], style: {} },
+    ],
+};
+
+describe('ELK layout', () => {
+    it('should position all nodes and nested groups', () => {
+        const layouted = autoLayout(nestedDiagram, { algorithm: 'elk', direction: 'LR' });
+
+        for (const n of layouted.nodes) {
+            expect(n.position).toBeDefined();
+            expect(Number.isNaN(n.position!.x)).toBe(false);
+        }
+
+        const outer = layouted.groups.find(g => g.id === 'outer')!;
+        const inner = layouted.groups.find(g => g.id === 'inner')!;
+        const byId = (id: string) => layouted.nodes.find(n => n.id === id)!;
+
+        expect(contains(outer, inner)).toBe(true);
+        expect(contains(inner, byId('A'))).toBe(true);
+        expect(contains(inner, byId('B'))).toBe(true);
+        expect(contains(outer, byId('C'))).toBe(true);
+        expect(contains(outer, byId('D'))).toBe(false);
+    });
+
+    it('should not overlap sibling nodes', () => {
+        const layouted = autoLayout(nestedDiagram, { algorithm: 'elk', direction: 'TB' });
+        const [a, b] = layouted.nodes;
+        const overlapX = a.position!.x < b.position!.x + b.size!.width && b.position!.x < a.position!.x + a.size!.width;
+        const overlapY = a.position!.y < b.position!.y + b.size!.height && b.position!.y < a.position!.y + a.size!.height;
+        expect(overlapX && overlapY).toBe(false);
+    });
+
+    it('should honour fixed ports and write bend points as waypoints', () => {
+        const diagram: Diagram = {
+            id: 'ports',
+            type: 'flowchart',
+            nodes: [
+                node('A', { ports: [{ id: 'south', position: 'bottom' }] }),
+                node('B', { ports: [{ id: 'west', position: 'left' }] }),
+            ],
+            edges: [{
+                id: 'e1', type: 'edge', source: 'A', target: 'B',
+                sourcePort: 'south', targetPort: 'west',
+                arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' }, style: {},
+            }],
+            groups: [],
+        };
+
+        const layouted = autoLayout(diagram, { algorithm: 'elk', direction: 'LR' });
+        const edge = layouted.edges[0];
+
+        // Leaving downwards and entering from the left needs at least one bend
+        expect(edge.waypoints).toBeDefined();
+        expect(edge.waypoints!.length).toBeGreaterThan(0);
+
+        const a = layouted.nodes[0];
+        expect(edge.waypoints![0].y).toBeGreaterThan(a.position!.y + a.size!.height - 1);
+    });
+
+    it('should be selectable through convert()', () => {
+        const result = convert(`flowchart LR
+    subgraph api [API]
+        A --> B
+    end
+    B --> C`, {
+            from: 'mermaid',
+            to: 'drawio',
+            layout: { algorithm: 'elk', direction: 'LR' },
+        });
+
+        const group = result.diagram.groups[0];
+        expect(group.position).toBeDefined();
+        expect(group.size!.width).toBeGreaterThan(0);
+        expect(result.output).toContain('mxfile');
+    });
+
+    it('should keep labelled subgraph from parsed Mermaid inside bounds', () => {
+        const diagram = parseMermaid(`flowchart TB
+    subgraph one [One]
+        A --> B
+    end`);
+        const layouted = autoLayout(diagram, { algorithm: 'elk' });
+        const group = layouted.groups[0];
+        for (const n of layouted.nodes) {
+            expect(contains(group, n)).toBe(true);
+        }
+    });
+});
+
+describe('ELK loading', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+        vi.resetModules();
+    });
+
+    it('should report the engine as loaded outside a worker', async () => {
+        expect(await loadElkLayout()).toBe(true);
+    });
+
+    it('should leave the worker message handler alone and fall back to Dagre', async () => {
+        const handler = () => undefined;
+        const workerScope = { onmessage: handler };
+        vi.stubGlobal('self', workerScope);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.resetModules();
+        const fresh = await import('../src/index');
+
+        expect(await fresh.loadElkLayout()).toBe(false);
+        const layouted = fresh.autoLayout(nestedDiagram, { algorithm: 'elk' });
+
+        expect(workerScope.onmessage).toBe(handler);
+        expect(layouted.nodes.every(n => n.position)).toBe(true);
+        expect(String(warn.mock.calls[0]?.[1])).toContain('Web Worker');
+    });
+});
+
+describe('Dagre compound layout', () => {
+    it('should size nested groups around their members', () => {
+        const layouted = autoLayout(nestedDiagram, { algorithm: 'dagre', direction: 'LR' });
+
+        const outer = layouted.groups.find(g => g.id === 'outer')!;
+        const inner = layouted.groups.find(g => g.id === 'inner')!;
+        const byId = (id: string) => layouted.nodes.find(n => n.id === id)!;
+
+        expect(outer.position).toBeDefined();
+        expect(inner.size).toBeDefined();
+        expect(contains(outer, inner)).toBe(true);
+        expect(contains(inner, byId('A'))).toBe(true);
+        expect(contains(inner, byId('B'))).toBe(true);
+        expect(contains(outer, byId('C'))).toBe(true);
+        expect(contains(outer, byId('D'))).toBe(false);
+    });
+
+    it('should reserve label space according to labelPosition', () => {
+        const make = (labelPosition: 'top' | 'bottom'): Diagram => ({
+            id: 'label',
+            type: 'flowchart',
+            nodes: [node('A')],
+            edges: [],
+            groups: [{ id: 'g', type: 'group', label: 'Group', children: ['A'], style: { labelPosition } }],
+        });
+
+        const top = autoLayout(make('top'), { algorithm: 'dagre' });
+        const topGap = top.nodes[0].position!.y - top.groups[0].position!.y;
+        const bottom = autoLayout(make('bottom'), { algorithm: 'dagre' });
+        const bottomGroup = bottom.groups[0];
+        const bottomNode = bottom.nodes[0];
+        const bottomGap = bottomGroup.position!.y + bottomGroup.size!.height
+            - (bottomNode.position!.y + bottomNode.size!.height);
+
+        expect(topGap).toBeGreaterThanOrEqual(44);
+        expect(bottomGap).toBeGreaterThanOrEqual(44);
+    });
+
+    it('should give Mermaid subgraphs bounds in Draw.io output', () => {
+        const result = convert(`flowchart TB
+    subgraph backend [Backend]
+        API --> DB[(Database)]
+    end
+    Client --> API`, {
+            from: 'mermaid',
+            to: 'drawio',
+            layout: { algorithm: 'dagre' },
+        });
+
+        const group = result.diagram.groups[0];
+        expect(group.size!.width).toBeGreaterThan(0);
+        for (const id of ['API', 'DB']) {
+            expect(contains(group, result.diagram.nodes.find(n => n.id === id)!)).toBe(true);
+        }
+        expect(contains(group, result.diagram.nodes.find(n => n.id === 'Client')!)).toBe(false);
+    });
+
+    it('should nest Mermaid subgraphs in Draw.io output', () => {
+        const source = `flowchart TB
+    subgraph outer [Outer]
+        A --> B
+        subgraph inner [Inner]
+            C[c]
+        end
+    end
+    B --> C`;
+        expect(parseMermaid(source).groups.find(g => g.id === 'outer')!.children).toContain('inner');
+
+        const result = convert(source, { from: 'mermaid', to: 'drawio', layout: { algorithm: 'dagre' } });
+        const outer = result.diagram.groups.find(g => g.id === 'outer')!;
+        const inner = result.diagram.groups.find(g => g.id === 'inner')!;
+        expect(contains(outer, inner)).toBe(true);
+        expect(contains(inner, result.diagram.nodes.find(n => n.id === 'C')!)).toBe(true);
+        expect(result.output).toMatch(/<mxCell id="(\d+)" value="Inner"[^>]*parent="(?!1")\d+"/);
+    });
+});
+
+describe('Incremental layout', () => {
+    const base: Diagram = {
+        id: 'incremental',
+        type: 'flowchart',
+        nodes: [
+            node('A', { position: { x: 400, y: 100 }, size: { width: 120, height: 60 } }),
+            node('B', { position: { x: 400, y: 300 }, size: { width: 120, height: 60 } }),
+            node('C'),
+            node('X'),
+        ],
+        edges: [
+            { id: 'e1', type: 'edge', source: 'A', target: 'B', waypoints: [{ x: 460, y: 200 }], arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' }, style: {} },
+            { id: 'e2', type: 'edge', source: 'B', target: 'C', arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' }, style: {} },
+        ],
+        groups: [],
+    };
+
+    it('should keep positioned nodes pinned', () => {
+        const layouted = autoLayout(base, { algorithm: 'dagre', incremental: true });
+        expect(layouted.nodes[0].position).toEqual({ x: 400, y: 100 });
+        expect(layouted.nodes[1].position).toEqual({ x: 400, y: 300 });
+        expect(layouted.edges[0].waypoints).toEqual([{ x: 460, y: 200 }]);
+    });
+
+    it('should place new nodes near their positioned neighbours without overlap', () => {
+        const layouted = autoLayout(base, { algorithm: 'dagre', incremental: true });
+        const placed = layouted.nodes.filter(n => n.id === 'C' || n.id === 'X');
+
+        for (const n of placed) {
+            expect(n.position).toBeDefined();
+            for (const other of layouted.nodes) {
+                if (other.id === n.id) continue;
+                const overlap = n.position!.x < other.position!.x + other.size!.width
+                    && other.position!.x < n.position!.x + n.size!.width
+                    && n.position!.y < other.position!.y + other.size!.height
+                    && other.position!.y < n.position!.y + n.size!.height;
+                expect(overlap).toBe(false);
+            }
+        }
+
+        // C follows B downwards in a TB layout
+        const c = layouted.nodes.find(n => n.id === 'C')!;
+        expect(c.position!.y).toBeGreaterThan(300);
+    });
+
+    it('should grow a group that receives a new member', () => {
+        const diagram: Diagram = {
+            ...base,
+            groups: [{
+                id: 'g', type: 'group', label: 'G', children: ['A', 'B', 'C'], style: {},
+                position: { x: 380, y: 60 }, size: { width: 160, height: 320 },
+            }],
+        };
+
+        const layouted = autoLayout(diagram, { algorithm: 'dagre', incremental: true });
+        const group = layouted.groups[0];
+        const c = layouted.nodes.find(n => n.id === 'C')!;
+
+        expect(group.position!.x).toBeLessThanOrEqual(380);
+        expect(contains(group, c)).toBe(true);
+    });
+
+    it('should honour preserveLayout in convert()', () => {
+        const result = convert(`flowchart TB
+    A --> B`, { from: 'mermaid', to: 'excalidraw', preserveLayout: true });
+
+        // Nothing was positioned in the source, so everything is placed
+        for (const n of result.diagram.nodes) {
+            expect(n.position).toBeDefined();
+        }
+    });
+});
+
+describe('Force, radial, tree and grid layouts', () => {
+    const edge = (id: string, source: string, target: string) => ({
+        id, type: 'edge' as const, source, target,
+        arrow: { sourceType: 'none' as const, targetType: 'arrow' as const, lineType: 'solid' as const }, style: {},
+    });
+
+    const overlaps = (a: DiagramNode, b: DiagramNode) =>
+        a.position!.x < b.position!.x + b.size!.width && b.position!.x < a.position!.x + a.size!.width
+        && a.position!.y < b.position!.y + b.size!.height && b.position!.y < a.position!.y + a.size!.height;
+
+    const expectNoOverlaps = (nodes: DiagramNode[]) => {
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                expect(overlaps(nodes[i], nodes[j])).toBe(false);
+            }
+        }
+    };
+
+    // Root with two children, one of which has two children of its own
+    const tree: Diagram = {
+        id: 'tree',
+        type: 'flowchart',
+        nodes: ['R', 'A', 'B', 'A1', 'A2'].map(id => node(id)),
+        edges: [edge('e1', 'R', 'A'), edge('e2', 'R', 'B'), edge('e3', 'A', 'A1'), edge('e4', 'A', 'A2')],
+        groups: [],
+    };
+
+    it('should spread a force-directed network without overlaps', () => {
+        const network: Diagram = {
+            ...tree,
+            edges: [...tree.edges, edge('e5', 'B', 'A2'), edge('e6', 'A1', 'B')],
+        };
+        const layouted = autoLayout(network, { algorithm: 'force' });
+
+        expectNoOverlaps(layouted.nodes);
+        expect(layouted.viewport!.width).toBeGreaterThan(0);
+
+        // Deterministic: the same input gives the same drawing
+        const again = autoLayout(network, { algorithm: 'force' });
+        expect(again.nodes.map(n => n.position)).toEqual(layouted.nodes.map(n => n.position));
+    });
+
+    it('should put the radial root in the centre', () => {
+        const layouted = autoLayout(tree, { algorithm: 'radial' });
+        const center = (n: DiagramNode) => ({
+            x: n.position!.x + n.size!.width / 2,
+            y: n.position!.y + n.size!.height / 2,
+        });
+        const root = center(layouted.nodes[0]);
+        const distance = (id: string) => {
+            const c = center(layouted.nodes.find(n => n.id === id)!);
+            return Math.hypot(c.x - root.x, c.y - root.y);
+        };
+
+        expectNoOverlaps(layouted.nodes);
+        // Same ring, up to pixel rounding
+        expect(Math.abs(distance('A') - distance('B'))).toBeLessThan(2);
+        expect(distance('A1')).toBeGreaterThan(distance('A'));
+    });
+
+    it('should place tree children below their parent', () => {
+        const layouted = autoLayout(tree, { algorithm: 'tree' });
+        const byId = (id: string) => layouted.nodes.find(n => n.id === id)!;
+
+        expectNoOverlaps(layouted.nodes);
+        for (const [parent, child] of [['R', 'A'], ['R', 'B'], ['A', 'A1'], ['A', 'A2']]) {
+            expect(byId(child).position!.y).toBeGreaterThan(byId(parent).position!.y);
+        }
+
+        // Parent centred over its children
+        const a = byId('A');
+        const a1 = byId('A1');
+        const a2 = byId('A2');
+        expect(a.position!.x + a.size!.width / 2).toBeCloseTo(
+            (a1.position!.x + a2.position!.x + a2.size!.width) / 2
+        );
+    });
+
+    it('should grow the tree sideways for LR and honour rootId', () => {
+        const layouted = autoLayout(tree, { algorithm: 'tree', direction: 'LR', rootId: 'A' });
+        const byId = (id: string) => layouted.nodes.find(n => n.id === id)!;
+
+        expect(byId('A1').position!.x).toBeGreaterThan(byId('A').position!.x);
+        expect(byId('A').position!.x).toBe(50);
+    });
+
+    it('should pack disconnected nodes into a grid', () => {
+        const loose: Diagram = {
+            id: 'grid',
+            type: 'flowchart',
+            nodes: ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I'].map(id => node(id)),
+            edges: [],
+            groups: [],
+        };
+        const layouted = autoLayout(loose, { algorithm: 'grid' });
+
+        expectNoOverlaps(layouted.nodes);
+        const rows = new Set(layouted.nodes.map(n => n.position!.y));
+        expect(rows.size).toBeGreaterThan(1);
+        expect(rows.size).toBeLessThan(loose.nodes.length);
+    });
+
+    it('should be selectable through convert()', () => {
+        for (const algorithm of ['force', 'radial', 'tree', 'grid'] as const) {
+            const result = convert(`flowchart TB
+    A --> B
+    A --> C`, { from: 'mermaid', to: 'excalidraw', layout: { algorithm } });
+
+            for (const n of result.diagram.nodes) {
+                expect(n.position).toBeDefined();
+            }
+        }
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * Mindmap Tests
+ *
+ * Tests for Mermaid mindmap and PlantUML mindmap / WBS parsing, generation
+ * and radial placement
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    extractMindmapData,
+    generateMindmapDiagram,
+    generatePlantUMLMindmap,
+    parseMermaid,
+    parseMindmapDiagram,
+    parsePlantUML,
+} from '../src/index';
+
+const mermaidSource = `mindmap
+  root((Workshop))
+    Ideas
+      ::icon(fa fa-lightbulb)
+      proto[Prototype]
+      ))Big bang((
+    Risks
+      :::urgent
+      )Budget(
+      {{Timeline}}
+      (Staffing)`;
+
+const plantumlSource = `@startmindmap
+title Planning
+* Project
+** Scope
+***[#lightgreen] Features
+***_ Out of scope
+left side
+** Risks
+**:Budget
+overrun;
+@endmindmap`;
+
+describe('Mermaid mindmap parser', () => {
+    const diagram = parseMindmapDiagram(mermaidSource);
+    const mindmap = extractMindmapData(diagram)!;
+
+    it('should build the hierarchy from indentation', () => {
+        expect(diagram.type).toBe('mindmap');
+        expect(mindmap.root).toMatchObject({ id: 'root', label: 'Workshop', shape: 'circle' });
+        expect(mindmap.root.children.map(c => c.label)).toEqual(['Ideas', 'Risks']);
+        expect(mindmap.root.children[1].children.map(c => c.label)).toEqual(['Budget', 'Timeline', 'Staffing']);
+    });
+
+    it('should parse shapes, icons and classes', () => {
+        const [ideas, risks] = mindmap.root.children;
+        expect(ideas.icon).toBe('fa fa-lightbulb');
+        expect(ideas.children[0]).toMatchObject({ id: 'proto', label: 'Prototype', shape: 'square' });
+        expect(ideas.children[1].shape).toBe('bang');
+        expect(risks.cssClass).toBe('urgent');
+        expect(risks.children.map(c => c.shape)).toEqual(['cloud', 'hexagon', 'rounded']);
+    });
+
+    it('should be routed through parseMermaid', () => {
+        expect(parseMermaid(mermaidSource).type).toBe('mindmap');
+    });
+
+    it('should reject a second root', () => {
+        expect(() => parseMindmapDiagram('mindmap\n  A\n  B')).toThrow(/one root/);
+    });
+});
+
+describe('PlantUML mindmap parser', () => {
+    it('should parse levels, colors, boxless and multiline nodes', () => {
+        const mindmap = extractMindmapData(parsePlantUML(plantumlSource))!;
+        const [scope, risks, budget] = mindmap.root.children;
+
+        expect(mindmap.title).toBe('Planning');
+        expect(mindmap.variant).toBe('mindmap');
+        expect(mindmap.root.label).toBe('Project');
+        expect(scope.children[0]).toMatchObject({ label: 'Features', color: '#lightgreen' });
+        expect(scope.children[1]).toMatchObject({ label: 'Out of scope', boxless: true });
+        expect(scope.side).toBeUndefined();
+        expect(risks.side).toBe('left');
+        expect(budget).toMatchObject({ label: 'Budget\noverrun', side: 'left' });
+    });
+
+    it('should parse OrgMode sides and WBS diagrams', () => {
+        const orgmode = extractMindmapData(parsePlantUML('@startmindmap\n+ Root\n++ Right\n-- Left\n--- Deep\n@endmindmap'))!;
+        expect(orgmode.root.children.map(c => c.side)).toEqual(['right', 'left']);
+        expect(orgmode.root.children[1].children[0].label).toBe('Deep');
+
+        const wbs = extractMindmapData(parsePlantUML('@startwbs\n* Release\n** Build\n**< Test\n*** Unit\n@endwbs'))!;
+        expect(wbs.variant).toBe('wbs');
+        expect(wbs.root.children[1]).toMatchObject({ label: 'Test', side: 'left' });
+    });
+});
+
+describe('Mindmap generators', () => {
+    it('should round-trip Mermaid mindmaps', () => {
+        const output = generateMindmapDiagram(parseMindmapDiagram(mermaidSource));
+
+        expect(output).toMatch(/^mindmap\n {2}root\(\(Workshop\)\)/);
+        expect(output).toContain('    Ideas\n      ::icon(fa fa-lightbulb)');
+        expect(output).toContain('      proto[Prototype]');
+        expect(output).toContain(':::urgent');
+
+        const original = extractMindmapData(parseMindmapDiagram(mermaidSource))!;
+        const reparsed = extractMindmapData(parseMindmapDiagram(output))!;
+        expect(reparsed.root).toEqual(original.root);
+    });
+
+    it('should round-trip PlantUML mindmaps', () => {
+        const output = generatePlantUMLMindmap(parsePlantUML(plantumlSource));
+
+        expect(output).toMatch(/^@startmindmap\ntitle Planning\n\+ Project/);
+        expect(output).toContain('+++[#lightgreen] Features');
+        expect(output).toContain('+++_ Out of scope');
+        expect(output).toContain('-- Risks');
+        expect(output).toContain('--:Budget\noverrun;');
+
+        // OrgMode levels make the right side explicit
+        const reparsed = extractMindmapData(parsePlantUML(output))!;
+        expect(reparsed.title).toBe('Planning');
+        expect(reparsed.root.children.map(c => [c.label, c.side])).toEqual([
+            ['Scope', 'right'],
+            ['Risks', 'left'],
+            ['Budget\noverrun', 'left'],
+        ]);
+        expect(reparsed.root.children[0].children[0]).toMatchObject({ label: 'Features', color: '#lightgreen' });
+    });
+
+    it('should convert between Mermaid and PlantUML', () => {
+        const toPlantUML = convert(mermaidSource, { from: 'mermaid', to: 'plantuml' });
+        expect(toPlantUML.output).toMatch(/^@startmindmap\n\* Workshop\n\*\* Ideas\n\*\*\* Prototype/);
+
+        const toMermaid = convert('@startwbs\n* Release\n** Build\n** Test\n@endwbs', { from: 'plantuml', to: 'mermaid' });
+        expect(toMermaid.output).toBe('mindmap\n  Release\n    Build\n    Test');
+    });
+});
+
+describe('Mindmap radial placement', () => {
+    it.each(['excalidraw', 'drawio'] as const)('should place nodes around the root for %s', format => {
+        const { diagram } = convert(mermaidSource, { from: 'mermaid', to: format });
+        const positions = diagram.nodes.map(n => `${n.position?.x},${n.position?.y}`);
+
+        expect(diagram.nodes.every(n => n.position)).toBe(true);
+        expect(new Set(positions).size).toBe(diagram.nodes.length);
+    });
+});
@@ -0,0 +1,272 @@
+/**
+ * PNG Generator Tests
+ *
+ * Tests for the PNG pipeline: the SVG rasteriser, the stroke font, the
+ * PNG, JPEG and WebP encoders and drawing on a canvas when there is one.
+ * Runs in the Node environment to make sure no DOM is needed.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    convert,
+    encodeJpeg,
+    encodePng,
+    encodeWebp,
+    generatePngFromSvg,
+    generatePngWithInfo,
+    layoutStrokeText,
+    parseMermaid,
+    rasterizeSvg,
+    GeneratorError,
+    ParseError,
+    type RgbaImage,
+} from '../src/index';
+import { decodeJpeg, decodePng, decodeWebp } from './helpers/image-decoders';
+
+const pixel = (image: RgbaImage, x: number, y: number) => Array.from(image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+const svg = (body: string, size = 'width="40" height="20"') => `<svg xmlns="http://www.w3.org/2000/svg" ${size}>${body}</svg>`;
+
+describe('SVG rasteriser', () => {
+    it('should fill shapes with colours, opacity and transforms', () => {
+        const image = rasterizeSvg(svg(`
+            <rect x="0" y="0" width="10" height="10" fill="#ff0000"/>
+            <g transform="translate(20, 0)" fill="blue" opacity="0.5"><circle cx="5" cy="5" r="4"/></g>
+            <rect x="0" y="10" width="10" height="10" style="fill: rgb(0, 128, 0)"/>
+        `));
+
+        expect(image.width).toBe(40);
+        expect(pixel(image, 5, 5)).toEqual([255, 0, 0, 255]);
+        expect(pixel(image, 25, 5)).toEqual([0, 0, 255, 128]);
+        expect(pixel(image, 5, 15)).toEqual([0, 128, 0, 255]);
+        expect(pixel(image, 35, 15)[3]).toBe(0);
+    });
+
+    it('should apply the scale, viewBox and background colour', () => {
+        const image = rasterizeSvg(svg('<rect x="10" y="10" width="10" height="10" fill="black"/>', 'viewBox="10 10 20 10" width="20" height="10"'), {
+            scale: 2,
+            backgroundColor: '#ffffff',
+        });
+
+        expect([image.width, image.height]).toEqual([40, 20]);
+        expect(pixel(image, 10, 10)).toEqual([0, 0, 0, 255]);
+        expect(pixel(image, 30, 10)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('should stroke paths with arcs and draw markers at their ends', () => {
+        const image = rasterizeSvg(svg(`
+            <defs><marker id="m" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+                <polygon points="0 0, 10 3.5, 0 7" fill="#00f"/>
+            </marker></defs>
+            <path d="M2,10 L30,10" stroke="#f00" stroke-width="1" fill="none" marker-end="url(#m)"/>
+        `));
+
+        // The line, then the arrowhead pointing right with its tip at the end
+        expect(pixel(image, 10, 10).slice(0, 3)).toEqual([255, 0, 0]);
+        expect(pixel(image, 25, 10).slice(0, 3)).toEqual([0, 0, 255]);
+        expect(pixel(image, 33, 10)[3]).toBe(0);
+    });
+
+    it('should draw dashed strokes with gaps', () => {
+        const image = rasterizeSvg(svg('<line x1="0" y1="5" x2="40" y2="5" stroke="black" stroke-width="2" stroke-dasharray="8,4"/>'));
+
+        expect(pixel(image, 4, 5)[3]).toBe(255);
+        expect(pixel(image, 10, 5)[3]).toBe(0);
+        expect(pixel(image, 14, 5)[3]).toBe(255);
+    });
+
+    it('should render text centred on its anchor', () => {
+        const image = rasterizeSvg(svg('<text x="20" y="10" text-anchor="middle" dominant-baseline="middle" font-size="14">Hi</text>'));
+        const inked: number[] = [];
+        for (let x = 0; x < image.width; x++) {
+            for (let y = 0; y < image.height; y++) {
+                if (pixel(image, x, y)[3] > 128) inked.push(x);
+            }
+        }
+
+        expect(inked.length).toBeGreaterThan(10);
+        expect(Math.abs((Math.min(...inked) + Math.max(...inked)) / 2 - 20)).toBeLessThan(2);
+    });
+
+    it('should reject invalid and oversized documents', () => {
+        expect(() => rasterizeSvg('<svg><rect></svg>')).toThrow(ParseError);
+        expect(() => rasterizeSvg('<html/>')).toThrow(GeneratorError);
+        expect(() => rasterizeSvg(svg('', 'width="100000" height="100000"'))).toThrow(/too large/);
+    });
+});
+
+describe('Stroke font', () => {
+    it('should measure text and approximate characters without glyphs', () => {
+        const plain = layoutStrokeText('Privet', 14);
+
+        expect(layoutStrokeText('Привет', 14).width).toBeCloseTo(plain.width);
+        expect(layoutStrokeText('Café', 14).width).toBeCloseTo(layoutStrokeText('Cafe', 14).width);
+        expect(layoutStrokeText('Privet', 28).width).toBeCloseTo(plain.width * 2);
+        expect(layoutStrokeText('', 14)).toEqual({ strokes: [], width: 0 });
+    });
+});
+
+describe('Image encoders', () => {
+    const image: RgbaImage = { width: 3, height: 2, data: new Uint8ClampedArray([
+        255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+        0, 0, 0, 0, 255, 255, 255, 128, 10, 20, 30, 255,
+    ]) };
+
+    it('should round-trip pixels through PNG', () => {
+        const bytes = encodePng(image);
+
+        expect(Array.from(bytes.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        expect(decodePng(bytes)).toEqual(image);
+    });
+
+    it('should write baseline JPEG segments', () => {
+        const bytes = encodeJpeg(image, 0.8);
+        const markers: number[] = [];
+        for (let i = 0; i + 1 < bytes.length; i++) {
+            if (bytes[i] === 0xff && bytes[i + 1] !== 0 && bytes[i + 1] !== 0xff) markers.push(bytes[i + 1]);
+        }
+
+        expect(markers.slice(0, 6)).toEqual([0xd8, 0xe0, 0xdb, 0xc0, 0xc4, 0xda]);
+        expect(markers[markers.length - 1]).toBe(0xd9);
+    });
+
+    it('should round-trip pixels through JPEG onto the background', () => {
+        const decoded = decodeJpeg(encodeJpeg(image, 1));
+        // Transparent pixels are composited onto white
+        const expected = [[255, 0, 0], [0, 255, 0], [0, 0, 255], [255, 255, 255], [255, 255, 255], [10, 20, 30]];
+
+        expect([decoded.width, decoded.height]).toEqual([3, 2]);
+        expected.forEach((rgb, i) => {
+            const actual = pixel(decoded, i % 3, Math.floor(i / 3));
+            rgb.forEach((channel, c) => expect(Math.abs(actual[c] - channel)).toBeLessThanOrEqual(8));
+        });
+    });
+
+    it('should write a lossless WebP container', () => {
+        const bytes = encodeWebp(image);
+        const text = (from: number, to: number) => String.fromCharCode(...bytes.subarray(from, to));
+
+        expect([text(0, 4), text(8, 16)]).toEqual(['RIFF', 'WEBPVP8L']);
+        expect(new DataView(bytes.buffer, bytes.byteOffset).getUint32(4, true)).toBe(bytes.length - 8);
+        expect(bytes[20]).toBe(0x2f);
+        // 14-bit width and height minus one, then the alpha hint
+        const header = new DataView(bytes.buffer, bytes.byteOffset).getUint32(21, true);
+        expect([(header & 0x3fff) + 1, ((header >>> 14) & 0x3fff) + 1, (header >>> 28) & 1]).toEqual([3, 2, 1]);
+    });
+
+    it('should round-trip pixels through WebP', () => {
+        const uniform: RgbaImage = { width: 2, height: 2, data: new Uint8ClampedArray(16).fill(200) };
+
+        expect(decodeWebp(encodeWebp(image))).toEqual(image);
+        expect(decodeWebp(encodeWebp(uniform))).toEqual(uniform);
+    });
+});
+
+describe('PNG generator', () => {
+    const diagram = parseMermaid('flowchart LR\n  A[Start] --> B[End]');
+
+    it('should render diagrams without a DOM', () => {
+        const result = generatePngWithInfo(diagram, { scale: 1, padding: 10 });
+        const image = decodePng(result.bytes);
+
+        expect(result.dataUrl).toMatch(/^data:image\/png;base64,/);
+        expect(result.mimeType).toBe('image/png');
+        expect([image.width, image.height]).toEqual([result.width, result.height]);
+        // White background in the padding, dark node border inside it
+        expect(pixel(image, 2, 2)).toEqual([255, 255, 255, 255]);
+        expect(pixel(image, 10, 30).slice(0, 3).every(channel => channel < 100)).toBe(true);
+    });
+
+    it('should honour scale, padding and background colour', () => {
+        const small = generatePngWithInfo(diagram, { scale: 1, padding: 10, backgroundColor: 'transparent' });
+        const large = generatePngWithInfo(diagram, { scale: 2, padding: 30 });
+
+        expect(large.width).toBe((small.width + 40) * 2);
+        expect(pixel(decodePng(small.bytes), 1, 1)[3]).toBe(0);
+    });
+
+    it('should encode JPEG and WebP on request', () => {
+        const jpeg = generatePngWithInfo(diagram, { scale: 1, padding: 10, format: 'jpeg', quality: 0.8 });
+        const webp = generatePngWithInfo(diagram, { scale: 1, padding: 10, format: 'webp' });
+        const png = decodePng(generatePngWithInfo(diagram, { scale: 1, padding: 10 }).bytes);
+        const jpegImage = decodeJpeg(jpeg.bytes);
+
+        expect(jpeg.dataUrl).toMatch(/^data:image\/jpeg;base64,\/9j\//);
+        expect(webp.mimeType).toBe('image/webp');
+        expect([jpegImage.width, jpegImage.height]).toEqual([jpeg.width, jpeg.height]);
+        expect(pixel(jpegImage, 2, 2).every(channel => channel > 245)).toBe(true);
+        expect(pixel(jpegImage, 10, 30).slice(0, 3).every(channel => channel < 100)).toBe(true);
+        expect(decodeWebp(webp.bytes)).toEqual(png);
+    });
+
+    it('should rasterise the SVG of other diagram types through convert', () => {
+        const result = convert('sequenceDiagram\n  Alice->>Bob: Hello', { from: 'mermaid', to: 'png' });
+
+        expect(result.output).toMatch(/^data:image\/png;base64,/);
+        expect(generatePngFromSvg(svg('<rect width="40" height="20" fill="red"/>')).width).toBe(80);
+    });
+
+    it('should report text the built-in font cannot draw as written', () => {
+        const source = 'flowchart LR\n  A[日本語] --> B[Café]\n  B --> C[Plain]';
+
+        expect(generatePngWithInfo(parseMermaid(source)).warnings).toEqual([
+            'Text "日本語" has characters without a glyph in the built-in font; they are drawn as boxes',
+            'Text "Café" is drawn as "Cafe"',
+        ]);
+        expect(generatePngWithInfo(diagram).warnings).toEqual([]);
+
+        const result = convert(source, { from: 'mermaid', to: 'png' });
+        expect(result.diagnostics!.filter(d => d.feature === 'unicode-text').map(d => d.elementId)).toEqual(['A', 'B']);
+        expect(result.warnings).toContain('png cannot express text beyond ASCII (2 elements: A, B)');
+        expect(convert(source, { from: 'mermaid', to: 'svg' }).diagnostics).toEqual([]);
+    });
+
+    it('should not report text that is transliterated before drawing', () => {
+        const source = 'flowchart LR\n  A[Привет] --> B[日本語]';
+        const result = convert(source, { from: 'mermaid', to: 'png', text: { transliterate: true } });
+
+        expect(result.diagnostics!.filter(d => d.feature === 'unicode-text').map(d => d.elementId)).toEqual(['B']);
+    });
+});
+
+describe('Canvas drawing', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.resetModules();
+    });
+
+    it('should draw on an OffscreenCanvas with system fonts when there is one', async () => {
+        const texts: string[] = [];
+        const fills: string[] = [];
+        class FakeOffscreenCanvas {
+            constructor(readonly width: number, readonly height: number) {}
+
+            getContext() {
+                const { width, height } = this;
+                const context = {
+                    fillStyle: '',
+                    save() {}, restore() {}, setTransform() {}, fillRect() {}, strokeText() {},
+                    beginPath() {}, moveTo() {}, lineTo() {}, closePath() {},
+                    fill() { fills.push(context.fillStyle); },
+                    fillText(text: string) { texts.push(text); },
+                    getImageData: () => ({ data: new Uint8ClampedArray(width * height * 4).fill(255) }),
+                };
+                return context;
+            }
+        }
+        vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas);
+        vi.resetModules();
+        const fresh = await import('../src/index');
+        const source = 'flowchart LR\n  A[Привет] --> B[日本語]';
+        const result = fresh.generatePngWithInfo(fresh.parseMermaid(source), { scale: 1 });
+        const image = decodePng(result.bytes);
+
+        expect(texts).toEqual(['Привет', '日本語']);
+        expect(fills.length).toBeGreaterThan(0);
+        expect(result.warnings).toEqual([]);
+        expect([image.width, image.height]).toEqual([result.width, result.height]);
+        expect(pixel(image, 0, 0)).toEqual([255, 255, 255, 255]);
+        expect(fresh.convert(source, { from: 'mermaid', to: 'png' }).diagnostics).toEqual([]);
+        expect(fresh.generatePngWithInfo(fresh.parseMermaid(source), { canvas: false }).warnings).toHaveLength(2);
+    });
+});
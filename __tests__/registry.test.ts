@@ -0,0 +1,164 @@
+/**
+ * Format Registry Tests
+ *
+ * Tests for plugging custom parsers, generators, detectors and fixers
+ * into convert, detectFormat, fixSyntax and convertInWorker
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    convert,
+    convertInWorker,
+    createEdge,
+    createEmptyDiagram,
+    createNode,
+    detectAllFormats,
+    detectFormat,
+    fixSyntax,
+    getRulesFor,
+    hasFixerFor,
+    isRegisteredFormat,
+    registerDetector,
+    registerFixer,
+    registerGenerator,
+    registerParser,
+    unregisterFormat,
+    type Diagram,
+    type InputFormat,
+    type OutputFormat,
+} from '../src/index';
+
+// Custom names are declared through CustomInputFormats in real code
+const ACME = 'acme' as InputFormat & OutputFormat;
+
+/** Acme lines look like `a -> b` */
+function parseAcme(source: string): Diagram {
+    const diagram = createEmptyDiagram('flowchart', ACME);
+    for (const line of source.split('\n').slice(1)) {
+        const [from, to] = line.split('->').map(part => part.trim());
+        if (!from || !to) continue;
+        for (const id of [from, to]) {
+            if (!diagram.nodes.some(node => node.id === id)) {
+                diagram.nodes.push(createNode(id, id));
+            }
+        }
+        diagram.edges.push(createEdge(from, to));
+    }
+    return diagram;
+}
+
+function generateAcme(diagram: Diagram): string {
+    return ['@acme', ...diagram.edges.map(edge => `${edge.source} -> ${edge.target}`)].join('\n');
+}
+
+describe('Format registry', () => {
+    afterEach(() => {
+        unregisterFormat(ACME);
+        unregisterFormat('mermaid');
+    });
+
+    it('should convert from and to registered formats', () => {
+        registerParser(ACME, parseAcme);
+        registerGenerator(ACME, generateAcme);
+
+        const mermaid = convert('@acme\nA -> B\nB -> C', { from: ACME, to: 'mermaid' });
+        expect(mermaid.output).toMatch(/A\b.*-->.*\bB/);
+        expect(mermaid.diagram.nodes).toHaveLength(3);
+
+        const acme = convert('flowchart LR\n  A --> B', { from: 'mermaid', to: ACME });
+        expect(acme.output).toBe('@acme\nA -> B');
+        expect(isRegisteredFormat(ACME)).toBe(true);
+    });
+
+    it('should pass the options of registered formats', () => {
+        registerParser(ACME, (source, options?: { prefix: string }) => parseAcme(source.replace(/\b([A-Z])\b/g, `${options?.prefix ?? ''}$1`)));
+        registerGenerator(ACME, (diagram, options?: { header: string }) => generateAcme(diagram).replace('@acme', options?.header ?? '@acme'));
+
+        const result = convert('@acme\nA -> B', {
+            from: ACME,
+            to: ACME,
+            parserOptions: { [ACME]: { prefix: 'x' } },
+            generatorOptions: { [ACME]: { header: '@acme v2' } },
+        });
+        expect(result.output).toBe('@acme v2\nxA -> xB');
+    });
+
+    it('should replace built-in formats registered under their name', () => {
+        registerGenerator('mermaid', () => 'custom');
+
+        expect(convert('digraph { a -> b }', { from: 'dot', to: 'mermaid' }).output).toBe('custom');
+        unregisterFormat('mermaid');
+        expect(convert('digraph { a -> b }', { from: 'dot', to: 'mermaid' }).output).not.toBe('custom');
+    });
+
+    it('should write sequence diagrams of registered parsers without embedded sequence data', () => {
+        registerParser(ACME, source => ({ ...parseAcme(source), type: 'sequence' }));
+
+        const result = convert('@acme\nAlice -> Bob', { from: ACME, to: 'mermaid' });
+        expect(result.output).toContain('sequenceDiagram');
+        expect(result.output).toContain('Alice->>Bob');
+    });
+
+    it('should report parse failures and unknown formats like built-in ones', () => {
+        registerParser(ACME, () => {
+            throw new Error('bad header');
+        });
+
+        expect(() => convert('x', { from: ACME, to: 'mermaid' })).toThrow(/Failed to parse acme: Error: bad header/);
+        expect(() => convert('flowchart LR\n  A --> B', { from: 'mermaid', to: ACME })).toThrow(/Unsupported output format: acme/);
+    });
+
+    it('should detect registered formats from patterns before built-in ones', () => {
+        // The graph keyword would otherwise be taken for Mermaid
+        const source = '@acme\ngraph A -> B';
+        registerDetector(ACME, [{ regex: /^@acme\b/, confidence: 'high', reason: 'Acme header' }]);
+
+        expect(detectFormat(source)).toEqual({ format: ACME, confidence: 'high', reason: 'Acme header' });
+        expect(detectAllFormats(source).map(result => result.format)).toContain(ACME);
+        expect(detectFormat('flowchart LR\n  A --> B')?.format).toBe('mermaid');
+    });
+
+    it('should detect registered formats with functions', () => {
+        registerDetector(ACME, source => (source.includes('->') && !source.includes('{') ? { confidence: 'medium', reason: 'Arrow lines' } : null));
+
+        expect(detectFormat('A -> B')?.format).toBe(ACME);
+        expect(detectFormat('digraph { A -> B }')?.format).toBe('dot');
+    });
+
+    it('should fix registered formats with rules or functions', () => {
+        registerFixer(ACME, [{
+            id: 'acme-arrow',
+            description: 'Use -> arrows',
+            pattern: /=>/,
+            fix: (_match, line) => line.replace('=>', '->'),
+            confidence: 'high',
+        }]);
+
+        expect(hasFixerFor(ACME)).toBe(true);
+        expect(getRulesFor(ACME)).toHaveLength(1);
+        const fixed = fixSyntax('@acme\nA => B', ACME);
+        expect([fixed.fixed, fixed.appliedFixes]).toEqual(['@acme\nA -> B', 1]);
+
+        registerFixer(ACME, source => ({ success: true, original: source, fixed: source.trim(), errors: [], suggestions: [], appliedFixes: 1 }));
+        expect(fixSyntax('  @acme  ', ACME).fixed).toBe('@acme');
+        expect(getRulesFor(ACME)).toEqual([]);
+    });
+
+    it('should convert registered formats in the worker API on the main thread', async () => {
+        registerParser(ACME, parseAcme);
+
+        const result = await convertInWorker('@acme\nA -> B', { from: ACME, to: 'dot' });
+        expect(result.output).toContain('digraph');
+    });
+
+    it('should forget unregistered formats and reject empty names', () => {
+        registerParser(ACME, parseAcme);
+        registerFixer(ACME, []);
+        unregisterFormat(ACME);
+
+        expect(isRegisteredFormat(ACME)).toBe(false);
+        expect(hasFixerFor(ACME)).toBe(false);
+        expect(() => convert('@acme', { from: ACME, to: 'mermaid' })).toThrow(/Unsupported input format/);
+        expect(() => registerParser('' as InputFormat, parseAcme)).toThrow(/non-empty/);
+    });
+});
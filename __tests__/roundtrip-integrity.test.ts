@@ -6,6 +6,9 @@ import {
     parseDot,
     parseD2,
     parseExcalidraw,
+    parseDrawio,
+    parseGraphml,
+    parseBpmn,
 } from '../src/index';
 import type { Diagram, InputFormat, OutputFormat } from '../src/types';
 
@@ -47,6 +50,24 @@ const EXECUTABLE_CASES: readonly ExecutableRoundTripCase[] = [
         parseVia: parseExcalidraw,
         preserveEdgeLabels: false,
     },
+    {
+        name: 'Draw.io',
+        via: 'drawio',
+        parseVia: parseDrawio,
+        preserveEdgeLabels: true,
+    },
+    {
+        name: 'GraphML',
+        via: 'graphml',
+        parseVia: parseGraphml,
+        preserveEdgeLabels: true,
+    },
+    {
+        name: 'BPMN',
+        via: 'bpmn',
+        parseVia: parseBpmn,
+        preserveEdgeLabels: true,
+    },
 ];
 
 describe('Round-trip integrity (A -> B -> A)', () => {
@@ -79,18 +100,6 @@ describe('Round-trip integrity (A -> B -> A)', () => {
             expect(finalEdges).toEqual(originalEdges);
         });
     }
-
-    it.skip('should preserve connectivity via Draw.io (browser DOMParser required)', () => {
-        // parseDrawio uses DOMParser/document APIs that are unavailable in Vitest node environment
-    });
-
-    it.skip('should preserve connectivity via GraphML (browser DOMParser required)', () => {
-        // parseGraphml uses DOMParser/document APIs that are unavailable in Vitest node environment
-    });
-
-    it.skip('should preserve connectivity via BPMN (browser DOMParser required)', () => {
-        // parseBpmn uses DOMParser/document APIs that are unavailable in Vitest node environment
-    });
 });
 
 function getNodeLabels(diagram: Diagram): string[] {
@@ -0,0 +1,338 @@
+/**
+ * Sequence Diagram Tests
+ *
+ * Tests for Mermaid and PlantUML sequence parsing and generation, and the
+ * lifeline renderers for SVG, Draw.io and Excalidraw
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    extractSequenceData,
+    generatePlantUMLSequence,
+    generateSequenceDiagram,
+    layoutSequenceDiagram,
+    parsePlantUML,
+    parsePlantUMLSequenceDiagram,
+    parseSequenceDiagram,
+} from '../src/index';
+import type { SequenceElement } from '../src/index';
+
+const mermaidSource = `sequenceDiagram
+    title: Checkout
+    autonumber
+    actor User
+    participant API as Backend API
+    participant DB@{ "type" : "database" } as Orders
+    User->>+API: POST /orders
+    API-)DB: insert
+    Note over API,DB: Transaction<br/>starts
+    alt valid
+        DB-->>API: id
+    else invalid
+        DB--xAPI: error
+    end
+    loop Retry
+        API->>API: backoff
+    end
+    API-->>-User: 201`;
+
+const plantumlSource = `@startuml
+title Login
+actor User
+participant "Auth Service" as Auth
+database Users
+User -> Auth ++ : login(name, pwd)
+Auth ->> Users : lookup
+Users --> Auth : row
+note right of Auth
+  hash
+  compare
+end note
+group Audit
+  Auth -> Auth : log
+end
+par
+  Auth -> Users : touch
+else
+  Auth ->x Users : cache
+end
+return token
+@enduml`;
+
+/** Drop generated ids so trees can be compared */
+function shape(elements: SequenceElement[]): unknown[] {
+    return elements.map(element => {
+        switch (element.kind) {
+            case 'message': {
+                const { id: _id, ...rest } = element.data;
+                return { message: rest };
+            }
+            case 'activation':
+                return { [element.action]: element.data.participant };
+            case 'note': {
+                const { id: _id, ...rest } = element.data;
+                return { note: rest };
+            }
+            case 'block':
+                return {
+                    block: element.data.type,
+                    label: element.data.label,
+                    sections: element.data.sections.map(s => ({ label: s.label, elements: shape(s.elements) })),
+                };
+        }
+    });
+}
+
+describe('Mermaid sequence parser', () => {
+    const sequence = parseSequenceDiagram(mermaidSource);
+
+    it('should parse typed participants, autonumber and async arrows', () => {
+        expect(sequence.title).toBe('Checkout');
+        expect(sequence.autonumber).toBe(true);
+        expect(sequence.participants.map(p => [p.id, p.type, p.label])).toEqual([
+            ['User', 'actor', 'User'],
+            ['API', 'participant', 'Backend API'],
+            ['DB', 'database', 'Orders'],
+        ]);
+        expect(sequence.elements[2]).toMatchObject({ kind: 'message', data: { from: 'API', to: 'DB', arrowType: 'solid-arrow', isAsync: true } });
+        expect(sequence.elements[3]).toMatchObject({ kind: 'note', data: { text: 'Transaction\nstarts' } });
+    });
+
+    it('should end the sender activation after the message', () => {
+        const tail = shape(sequence.elements.slice(-2));
+        expect(tail).toEqual([
+            { message: { from: 'API', to: 'User', label: '201', arrowType: 'dotted-arrow' } },
+            { deactivate: 'API' },
+        ]);
+    });
+});
+
+describe('Mermaid sequence blocks', () => {
+    it('should read critical blocks with option sections', () => {
+        const { elements } = parseSequenceDiagram(`sequenceDiagram
+    critical Connect
+        A->>DB: open
+    option Timeout
+        A->>A: retry
+    option Refused
+        A->>A: fail
+    end`);
+        expect(shape(elements)).toEqual([{
+            block: 'critical',
+            label: 'Connect',
+            sections: [
+                { label: undefined, elements: [{ message: { from: 'A', to: 'DB', label: 'open', arrowType: 'solid-arrow' } }] },
+                { label: 'Timeout', elements: [{ message: { from: 'A', to: 'A', label: 'retry', arrowType: 'solid-arrow' } }] },
+                { label: 'Refused', elements: [{ message: { from: 'A', to: 'A', label: 'fail', arrowType: 'solid-arrow' } }] },
+            ],
+        }]);
+
+        const output = generateSequenceDiagram(parseSequenceDiagram(generateSequenceDiagram({ id: 's', participants: [], elements })));
+        expect(output).toContain('    option Timeout');
+        expect(output).not.toMatch(/^\s*else/m);
+    });
+
+    it('should not open blocks for participants that start with a keyword', () => {
+        const { elements } = parseSequenceDiagram('sequenceDiagram\n    optimizer->>parser: run\n    android->>breaker: trip');
+        expect(shape(elements)).toEqual([
+            { message: { from: 'optimizer', to: 'parser', label: 'run', arrowType: 'solid-arrow' } },
+            { message: { from: 'android', to: 'breaker', label: 'trip', arrowType: 'solid-arrow' } },
+        ]);
+    });
+
+    it('should keep unclosed blocks and the statements after them', () => {
+        const { elements } = parseSequenceDiagram('sequenceDiagram\n    loop Poll\n        A->>B: ping\n    B->>A: pong');
+        expect(shape(elements)).toEqual([{
+            block: 'loop',
+            label: 'Poll',
+            sections: [{ label: undefined, elements: [
+                { message: { from: 'A', to: 'B', label: 'ping', arrowType: 'solid-arrow' } },
+                { message: { from: 'B', to: 'A', label: 'pong', arrowType: 'solid-arrow' } },
+            ] }],
+        }]);
+    });
+
+    it('should report boxes without letting their end close a block', () => {
+        const result = convert(`sequenceDiagram
+    box Aqua Backend
+        participant API
+        participant DB
+    end
+    API->>DB: query`, { from: 'mermaid', to: 'mermaid' });
+
+        expect(result.diagram.nodes.map(n => n.id)).toEqual(['API', 'DB']);
+        expect(result.output).toContain('API->>DB: query');
+        expect(result.warnings).toEqual(['Dropped participant boxes on line 2']);
+    });
+});
+
+describe('PlantUML sequence parser', () => {
+    const sequence = parsePlantUMLSequenceDiagram(plantumlSource);
+
+    it('should parse participants, notes, groups and par sections', () => {
+        expect(sequence.title).toBe('Login');
+        expect(sequence.participants.map(p => [p.id, p.type, p.label])).toEqual([
+            ['User', 'actor', 'User'],
+            ['Auth', 'participant', 'Auth Service'],
+            ['Users', 'database', 'Users'],
+        ]);
+        expect(shape(sequence.elements)).toEqual([
+            { message: { from: 'User', to: 'Auth', label: 'login(name, pwd)', arrowType: 'solid-arrow' } },
+            { activate: 'Auth' },
+            { message: { from: 'Auth', to: 'Users', label: 'lookup', arrowType: 'solid-arrow', isAsync: true } },
+            { message: { from: 'Users', to: 'Auth', label: 'row', arrowType: 'dotted-arrow' } },
+            { note: { position: 'right', participants: ['Auth'], text: 'hash\ncompare' } },
+            {
+                block: 'group',
+                label: 'Audit',
+                sections: [{ label: undefined, elements: [{ message: { from: 'Auth', to: 'Auth', label: 'log', arrowType: 'solid-arrow' } }] }],
+            },
+            {
+                block: 'par',
+                label: undefined,
+                sections: [
+                    { label: undefined, elements: [{ message: { from: 'Auth', to: 'Users', label: 'touch', arrowType: 'solid-arrow' } }] },
+                    { label: undefined, elements: [{ message: { from: 'Auth', to: 'Users', label: 'cache', arrowType: 'solid-cross' } }] },
+                ],
+            },
+            // return answers the caller of the open activation
+            { message: { from: 'Auth', to: 'User', label: 'token', arrowType: 'dotted-arrow' } },
+            { deactivate: 'Auth' },
+        ]);
+    });
+
+    it('should be routed through parsePlantUML', () => {
+        const diagram = parsePlantUML(plantumlSource);
+        expect(diagram.type).toBe('sequence');
+        expect(diagram.edges).toHaveLength(7);
+        expect(diagram.nodes.find(n => n.id === 'Users')!.shape).toBe('cylinder');
+    });
+
+    it('should report dividers, delays, references and boxes it drops', () => {
+        const result = convert(`@startuml
+box "Internal"
+participant A
+participant B
+end box
+== Setup ==
+A -> B : init
+...
+ref over A, B : handshake
+ref over A
+  login
+  A -> B : hidden
+end ref
+B -> A : ready
+@enduml`, { from: 'plantuml', to: 'plantuml' });
+
+        expect(result.diagram.edges.map(e => e.label)).toEqual(['init', 'ready']);
+        expect(result.warnings).toEqual([
+            'Dropped participant boxes on line 2',
+            'Dropped dividers on line 6',
+            'Dropped delays on line 8',
+            'Dropped references on lines 9, 10',
+        ]);
+    });
+
+    it('should read reversed arrows', () => {
+        const reversed = parsePlantUMLSequenceDiagram('@startuml\nparticipant A\nparticipant B\nA <-- B : reply\n@enduml');
+        expect(reversed.elements[0]).toMatchObject({ data: { from: 'B', to: 'A', arrowType: 'dotted-arrow' } });
+    });
+});
+
+describe('Sequence conversion between Mermaid and PlantUML', () => {
+    it('should keep the element tree from Mermaid through PlantUML', () => {
+        const toPlantUML = convert(mermaidSource, { from: 'mermaid', to: 'plantuml' });
+
+        expect(toPlantUML.output).toMatch(/^@startuml\ntitle Checkout\nautonumber/);
+        expect(toPlantUML.output).toContain('participant "Backend API" as API');
+        expect(toPlantUML.output).toContain('database "Orders" as DB');
+        expect(toPlantUML.output).toContain('API ->> DB : insert');
+        expect(toPlantUML.output).toContain('note over API, DB\nTransaction\nstarts\nend note');
+        expect(toPlantUML.output).toContain('DB -->x API : error');
+
+        const back = convert(toPlantUML.output, { from: 'plantuml', to: 'mermaid' });
+        const original = parseSequenceDiagram(mermaidSource);
+        const reparsed = parseSequenceDiagram(back.output);
+        expect(reparsed.participants).toEqual(original.participants);
+        expect(reparsed.autonumber).toBe(true);
+        expect(shape(reparsed.elements)).toEqual(shape(original.elements));
+    });
+
+    it('should keep the element tree from PlantUML through Mermaid', () => {
+        const original = parsePlantUMLSequenceDiagram(plantumlSource);
+        const mermaid = generateSequenceDiagram(extractSequenceData(parsePlantUML(plantumlSource))!);
+
+        expect(mermaid).toContain('participant Users@{ "type" : "database" }');
+        expect(mermaid).toContain('Auth-)Users: lookup');
+        expect(mermaid).toContain('note right of Auth: hash<br/>compare');
+
+        const plantuml = generatePlantUMLSequence(convert(mermaid, { from: 'mermaid', to: 'mermaid' }).diagram);
+        const reparsed = parsePlantUMLSequenceDiagram(plantuml);
+        expect(reparsed.participants).toEqual(original.participants);
+        // Mermaid has no labelled group; it comes back as an unlabelled group
+        const withoutGroupLabel = shape(original.elements).map(e =>
+            (e as { block?: string }).block === 'group' ? { ...(e as object), label: undefined } : e
+        );
+        expect(shape(reparsed.elements)).toEqual(withoutGroupLabel);
+    });
+
+    it('should report group labels that Mermaid cannot hold', () => {
+        const result = convert(plantumlSource, { from: 'plantuml', to: 'mermaid' });
+        expect(result.errors).toEqual([expect.stringMatching(/^mermaid cannot express labels of sequence groups \(1 element: /)]);
+        expect(convert(plantumlSource, { from: 'plantuml', to: 'drawio' }).errors).toBeUndefined();
+    });
+});
+
+describe('Sequence lifeline renderers', () => {
+    const sequence = parseSequenceDiagram(mermaidSource);
+
+    it('should lay out rows top to bottom', () => {
+        const layout = layoutSequenceDiagram(sequence);
+        const ys = layout.messages.map(m => m.y);
+
+        expect(layout.participants.map(p => p.participant.id)).toEqual(['User', 'API', 'DB']);
+        expect(ys).toEqual([...ys].sort((a, b) => a - b));
+        expect(new Set(ys).size).toBe(ys.length);
+        expect(layout.messages.map(m => m.number)).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(layout.activations).toHaveLength(1);
+        expect(layout.fragments.map(f => [f.block.type, f.sections.length])).toEqual([['alt', 1], ['loop', 0]]);
+        expect(layout.messages.find(m => m.self)).toBeDefined();
+    });
+
+    it('should render SVG lifelines', () => {
+        const { output } = convert(mermaidSource, { from: 'mermaid', to: 'svg' });
+
+        expect(output).toMatch(/^<svg/);
+        expect(output.match(/class="seq-lifeline"/g)).toHaveLength(3);
+        expect(output.match(/class="seq-message"/g)).toHaveLength(6);
+        expect(output).toContain('class="seq-activation"');
+        expect(output).toContain('data-type="alt"');
+        expect(output).toContain('url(#seq-arrow-open)');
+        expect(output).toContain('1. POST /orders');
+    });
+
+    it('should render Draw.io UML lifelines', () => {
+        const { output } = convert(mermaidSource, { from: 'mermaid', to: 'drawio' });
+
+        expect(output.match(/shape=umlLifeline/g)).toHaveLength(3);
+        expect(output).toContain('participant=umlActor');
+        expect(output).toContain('perimeter=orthogonalPerimeter');
+        expect(output.match(/shape=umlFrame/g)).toHaveLength(2);
+        expect(output).toContain('shape=note');
+        expect(output).toContain('endArrow=cross');
+    });
+
+    it('should render Excalidraw lifelines', () => {
+        const { output } = convert(plantumlSource, { from: 'plantuml', to: 'excalidraw' });
+        const scene = JSON.parse(output);
+        const lifelines = scene.elements.filter((e: { type: string; strokeStyle: string }) => e.type === 'line' && e.strokeStyle === 'dashed');
+        const arrows = scene.elements.filter((e: { type: string }) => e.type === 'arrow');
+
+        expect(scene.type).toBe('excalidraw');
+        expect(lifelines.length).toBeGreaterThanOrEqual(3);
+        expect(arrows).toHaveLength(7);
+        expect(arrows.every((a: { y: number }, i: number) => i === 0 || a.y > arrows[i - 1].y)).toBe(true);
+    });
+});
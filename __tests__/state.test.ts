@@ -0,0 +1,212 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * State Machine Tests
+ *
+ * Tests for Mermaid state parsing and generation, PlantUML and SCXML export,
+ * SCXML import, and the container-aware SVG and Draw.io renderers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    detectFormat,
+    extractStateData,
+    generatePlantUMLState,
+    generateSCXML,
+    generateStateDiagram,
+    generateStateDrawio,
+    generateStateSvg,
+    parseSCXMLStateDiagram,
+    parseStateDiagram,
+    parseTransitionLabel,
+} from '../src/index';
+
+const mermaidSource = `stateDiagram-v2
+    [*] --> Idle
+    Idle --> Active : start [ready] / log
+    state Active {
+        [*] --> Running
+        Running --> Paused : pause
+        Paused --> Running : resume
+    }
+    Active --> [*] : stop`;
+
+const scxmlSource = `<?xml version="1.0" encoding="UTF-8"?>
+<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" name="Player" initial="Stopped">
+    <state id="Stopped">
+        <onentry><script>reset()</script></onentry>
+        <transition event="play" cond="hasTrack" target="Playing"/>
+    </state>
+    <state id="Playing">
+        <invoke src="decoder"/>
+        <transition event="tick"><assign location="pos" expr="pos + 1"/></transition>
+        <transition event="split" target="Audio Video"/>
+        <history id="Resume" type="deep"/>
+    </state>
+    <parallel id="Media">
+        <state id="Audio"/>
+        <state id="Video"/>
+    </parallel>
+    <final id="Done"/>
+</scxml>`;
+
+describe('Mermaid state diagrams', () => {
+    it('should keep nested states only inside their composite', () => {
+        const stateDiagram = extractStateData(parseStateDiagram(mermaidSource))!;
+        const topLevel = stateDiagram.states.map(s => s.id);
+        const active = stateDiagram.states.find(s => s.id === 'Active')!;
+
+        expect(topLevel).not.toContain('Running');
+        expect(active.type).toBe('composite');
+        expect(active.children!.map(s => s.id)).toEqual(expect.arrayContaining(['Running', 'Paused']));
+    });
+
+    it('should split transition labels into event, guard and action', () => {
+        expect(parseTransitionLabel('start [ready] / log')).toEqual({ event: 'start', guard: 'ready', action: 'log' });
+        expect(parseTransitionLabel('[retry]')).toEqual({ guard: 'retry' });
+
+        const stateDiagram = extractStateData(parseStateDiagram(mermaidSource))!;
+        const start = stateDiagram.transitions.find(t => t.source === 'Idle')!;
+        expect(start).toMatchObject({ event: 'start', guard: 'ready', action: 'log' });
+    });
+
+    it('should write composite transitions inside the composite block', () => {
+        const output = generateStateDiagram(parseStateDiagram(mermaidSource));
+        const block = output.slice(output.indexOf('state Active {'), output.indexOf('}'));
+
+        expect(block).toContain('Running --> Paused : pause');
+        expect(block).toContain('[*] --> Running');
+        expect(output.match(/Running --> Paused/g)).toHaveLength(1);
+        expect(output).toContain('Idle --> Active : start [ready] / log');
+    });
+});
+
+describe('PlantUML state export', () => {
+    it('should generate states, composites and stereotypes', () => {
+        const output = generatePlantUMLState(parseStateDiagram(`stateDiagram-v2
+    [*] --> Check
+    state Check <<choice>>
+    Check --> Active : [ok]
+    state Active {
+        [*] --> Running
+    }`));
+
+        expect(output).toMatch(/^@startuml/);
+        expect(output).toContain('state Check <<choice>>');
+        expect(output).toContain('state Active {');
+        expect(output).toContain('Check --> Active : [ok]');
+        expect(output.trimEnd()).toMatch(/@enduml$/);
+    });
+});
+
+describe('SCXML', () => {
+    it('should generate initial, actions, transitions and finals', () => {
+        const output = generateSCXML(parseStateDiagram(`stateDiagram-v2
+    [*] --> Idle
+    Idle : entry / reset
+    Idle --> Active : start [ready] / log
+    state Active {
+        [*] --> Running
+    }
+    Active --> [*]`));
+
+        expect(output).toContain('<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="Idle">');
+        expect(output).toContain('<onentry>');
+        expect(output).toContain('<script>reset</script>');
+        expect(output).toContain('<transition event="start" cond="ready" target="Active">');
+        expect(output).toContain('<state id="Active" initial="Running">');
+        expect(output).toMatch(/<final id="[^"]+"\/>/);
+    });
+
+    it('should parse states, parallel regions, history and actions', () => {
+        const stateDiagram = parseSCXMLStateDiagram(scxmlSource);
+        const byId = new Map(stateDiagram.states.map(s => [s.id, s]));
+
+        expect(stateDiagram.title).toBe('Player');
+        expect(byId.get('Stopped')!.actions).toEqual([{ type: 'entry', action: 'reset()' }]);
+        expect(byId.get('Done')!.type).toBe('end');
+
+        const playing = byId.get('Playing')!;
+        expect(playing.actions).toEqual([{ type: 'do', action: 'decoder' }]);
+        expect(playing.children!.find(s => s.id === 'Resume')!.type).toBe('deep-history');
+
+        const media = byId.get('Media')!;
+        expect(media.parallel).toBe(true);
+        expect(media.children!.some(s => s.type === 'start')).toBe(false);
+
+        const start = stateDiagram.states[0];
+        expect(start.type).toBe('start');
+        expect(stateDiagram.transitions.find(t => t.source === start.id)!.target).toBe('Stopped');
+    });
+
+    it('should expand transitions with several targets and keep targetless ones', () => {
+        const { transitions } = parseSCXMLStateDiagram(scxmlSource);
+
+        const split = transitions.filter(t => t.event === 'split');
+        expect(split.map(t => t.target)).toEqual(['Audio', 'Video']);
+
+        const tick = transitions.find(t => t.event === 'tick')!;
+        expect(tick).toMatchObject({ source: 'Playing', target: 'Playing', action: 'pos = pos + 1' });
+        expect(tick.metadata?.targetless).toBe(true);
+    });
+
+    it('should reject documents without an scxml root', () => {
+        expect(() => parseSCXMLStateDiagram('<machine><state id="A"/></machine>')).toThrow(/scxml/);
+    });
+
+    it('should be detected and converted to Mermaid', () => {
+        expect(detectFormat(scxmlSource).format).toBe('scxml');
+
+        const result = convert(scxmlSource, { from: 'scxml', to: 'mermaid' });
+        expect(result.output).toContain('stateDiagram-v2');
+        expect(result.output).toContain('[*] --> Stopped');
+        expect(result.output).toContain('Stopped --> Playing : play [hasTrack]');
+        expect(result.output).toContain('state Playing {');
+    });
+
+    it('should keep parallel regions and states without transitions in Mermaid output', () => {
+        const result = convert(`<scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="Media">
+    <parallel id="Media">
+        <state id="Audio">
+            <state id="Muted"><transition event="unmute" target="Loud"/></state>
+            <state id="Loud"/>
+        </state>
+        <state id="Video">
+            <state id="Off"/>
+        </state>
+    </parallel>
+    <state id="Orphan"/>
+</scxml>`, { from: 'scxml', to: 'mermaid' });
+
+        expect(result.output).toMatch(/state Media \{\n {8}state Audio \{[\s\S]*\n {8}\}\n {8}--\n {8}state Video \{\n[\s\S]*\n {4}\}/);
+        expect(result.output).toMatch(/^ {12}Off$/m);
+        expect(result.output).toMatch(/^ {4}Orphan$/m);
+        expect(result.output.match(/^\s*--$/gm)).toHaveLength(1);
+    });
+});
+
+describe('State renderers', () => {
+    it('should draw composite states as SVG containers around their children', () => {
+        const svg = generateStateSvg(parseStateDiagram(mermaidSource));
+
+        expect(svg).toContain('class="state-composite" data-id="Active"');
+        expect(svg).toContain('data-id="Running"');
+        expect(svg).toContain('marker-end="url(#state-arrow)"');
+
+        const containerIndex = svg.indexOf('data-id="Active"');
+        const childIndex = svg.indexOf('data-id="Running"');
+        expect(containerIndex).toBeLessThan(childIndex);
+    });
+
+    it('should parent Draw.io child states to a swimlane container', () => {
+        const xml = generateStateDrawio(parseStateDiagram(mermaidSource));
+        const container = xml.match(/<mxCell id="(\d+)" value="Active" style="swimlane;[^"]*"/);
+
+        expect(container).not.toBeNull();
+        expect(xml).toMatch(new RegExp(`value="Running" style="[^"]*" vertex="1" parent="${container![1]}"`));
+        expect(xml).toContain('shape=startState');
+    });
+});
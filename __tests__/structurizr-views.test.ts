@@ -0,0 +1,228 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+/**
+ * Structurizr View Tests
+ *
+ * Tests for materialising workspace views as separate diagrams: default
+ * scoping per view type, include/exclude expressions, implied relationships,
+ * deployment views and converting every view at once
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    convert,
+    extractC4Data,
+    materializeC4View,
+    parseDrawioPages,
+    parseStructurizr,
+    parseStructurizrC4Diagram,
+    parseStructurizrViews,
+    type Diagram,
+} from '../src/index';
+
+const workspace = `workspace "Internet Banking" {
+    model {
+        customer = person "Customer"
+        staff = person "Back Office Staff"
+        bank = softwareSystem "Internet Banking" {
+            web = container "Web App" "" "Java" {
+                signin = component "Sign In"
+                accounts = component "Accounts"
+            }
+            api = container "API" "" "Go"
+            db = container "Database" "" "Oracle" "Database"
+        }
+        mainframe = softwareSystem "Mainframe" "" "External"
+        mail = softwareSystem "E-mail" "" "External"
+
+        customer -> signin "Signs in using"
+        customer -> accounts "Views accounts using"
+        staff -> mainframe "Uses"
+        accounts -> api "Calls" "JSON/HTTPS"
+        api -> db "Reads from" "JDBC"
+        api -> mainframe "Uses" "XML/HTTPS"
+        bank -> mail "Sends e-mail using"
+
+        live = deploymentEnvironment "Live" {
+            dc = deploymentNode "Data Center" {
+                webServer = deploymentNode "Web Server" "" "Ubuntu" {
+                    webInstance = containerInstance web
+                }
+                apiServer = deploymentNode "API Server" "" "Ubuntu" {
+                    apiInstance = containerInstance api
+                }
+            }
+        }
+    }
+    views {
+        systemLandscape "landscape" {
+            include *
+        }
+        systemContext bank "context" {
+            include *
+            autoLayout lr
+        }
+        container bank "containers" {
+            include *
+            exclude mail
+        }
+        component web {
+            include *
+        }
+        container bank "api-neighbours" {
+            include ->api->
+        }
+        deployment bank "Live" "live" {
+            include *
+        }
+    }
+}`;
+
+const elementIds = (diagram: Diagram) => extractC4Data(diagram)!.elements.map(element => element.id).sort();
+const relationships = (diagram: Diagram) => extractC4Data(diagram)!.relationships.map(rel => `${rel.source}->${rel.target}`).sort();
+
+describe('Structurizr views', () => {
+    const views = parseStructurizrViews(workspace);
+    const byKey = new Map(views.map(view => [view.id, view]));
+
+    it('should materialise one diagram per view', () => {
+        expect(views.map(view => view.id)).toEqual([
+            'landscape', 'context', 'containers', 'Component-web-004', 'api-neighbours', 'live',
+        ]);
+        expect(byKey.get('containers')?.name).toBe('[Container] Internet Banking');
+        expect(byKey.get('live')?.name).toBe('[Deployment] Internet Banking - Live');
+        expect(views.every(view => view.type === 'c4')).toBe(true);
+    });
+
+    it('should show people and software systems with implied relationships on a landscape', () => {
+        const landscape = byKey.get('landscape')!;
+
+        expect(elementIds(landscape)).toEqual(['bank', 'customer', 'mail', 'mainframe', 'staff']);
+        expect(relationships(landscape)).toEqual([
+            'bank->mail', 'bank->mainframe', 'customer->bank', 'staff->mainframe',
+        ]);
+    });
+
+    it('should limit a system context to the scope and its neighbours', () => {
+        const context = byKey.get('context')!;
+
+        expect(elementIds(context)).toEqual(['bank', 'customer', 'mail', 'mainframe']);
+        expect(extractC4Data(context)!.views[0]).toMatchObject({ type: 'systemContext', scope: 'bank', autoLayout: { direction: 'lr' } });
+    });
+
+    it('should draw containers inside the scope boundary and honour exclude', () => {
+        const containers = byKey.get('containers')!;
+
+        expect(elementIds(containers)).toEqual(['api', 'bank', 'customer', 'db', 'mainframe', 'web']);
+        expect(containers.groups.map(group => group.id)).toEqual(['bank']);
+        expect(relationships(containers)).toEqual([
+            'api->db', 'api->mainframe', 'customer->web', 'web->api',
+        ]);
+    });
+
+    it('should scope a component view to the container', () => {
+        const components = byKey.get('Component-web-004')!;
+
+        expect(elementIds(components)).toEqual(['accounts', 'api', 'customer', 'signin', 'web']);
+        expect(relationships(components)).toEqual(['accounts->api', 'customer->accounts', 'customer->signin']);
+    });
+
+    it('should include afferent and efferent neighbours', () => {
+        const neighbours = byKey.get('api-neighbours')!;
+
+        expect(elementIds(neighbours)).toEqual(['api', 'bank', 'db', 'mainframe', 'web']);
+    });
+
+    it('should materialise deployment views with instance relationships', () => {
+        const live = byKey.get('live')!;
+
+        expect(elementIds(live)).toEqual(['apiInstance', 'apiServer', 'dc', 'webInstance', 'webServer']);
+        expect(relationships(live)).toEqual(['webInstance->apiInstance']);
+    });
+
+    it('should resolve unassigned instances with hierarchical identifiers', () => {
+        const source = `workspace {
+    !identifiers hierarchical
+    model {
+        bank = softwareSystem "Bank" {
+            web = container "Web App"
+            api = container "API"
+        }
+        bank.web -> bank.api "Calls"
+        deploymentEnvironment "Live" {
+            deploymentNode "AWS" {
+                containerInstance bank.web
+                containerInstance bank.api
+            }
+        }
+    }
+    views {
+        deployment bank "Live" "live" {
+            include *
+        }
+    }
+}`;
+        const c4 = parseStructurizrC4Diagram(source);
+        const instance = c4.elements.find(element => element.id === 'AWS.bank.web');
+        const [live] = parseStructurizrViews(source);
+
+        expect(instance).toMatchObject({ instanceOf: 'bank.web', name: 'Web App' });
+        expect(elementIds(live)).toEqual(['AWS', 'AWS.bank.api', 'AWS.bank.web']);
+        expect(relationships(live)).toEqual(['AWS.bank.web->AWS.bank.api']);
+    });
+
+    it('should select a single view by index, key or title', () => {
+        expect(parseStructurizr(workspace, { view: 2 }).id).toBe('containers');
+        expect(parseStructurizr(workspace, { view: 'context' }).name).toBe('[System Context] Internet Banking');
+        expect(() => parseStructurizr(workspace, { view: 'missing' })).toThrow(/view not found/);
+    });
+
+    it('should keep the whole model without views', () => {
+        const model = parseStructurizrViews('workspace {\n    model {\n        a = person "A"\n    }\n}');
+
+        expect(model).toHaveLength(1);
+        expect(model[0].nodes.map(node => node.id)).toEqual(['a']);
+    });
+
+    it('should apply relationship exclusions', () => {
+        const c4 = parseStructurizrC4Diagram(workspace);
+        const view = materializeC4View(c4, { type: 'container', scope: 'bank', include: ['*'], exclude: ['api->mainframe'] });
+
+        expect(view.relationships.map(rel => `${rel.source}->${rel.target}`)).not.toContain('api->mainframe');
+        expect(view.elements.map(element => element.id)).toContain('mainframe');
+    });
+});
+
+describe('Converting every view', () => {
+    it('should return one output per view', () => {
+        const result = convert(workspace, { from: 'structurizr', to: 'mermaid', views: true });
+
+        expect(result.views).toHaveLength(6);
+        expect(result.output).toBe(result.views![0].output);
+        expect(result.views![0].output.split('\n')[0]).toBe('C4Context');
+        expect(result.views![2].output).toContain('System_Boundary(bank, "Internet Banking") {');
+        expect(result.views![2].output).not.toContain('mail');
+    });
+
+    it('should write a Draw.io page per view', () => {
+        const result = convert(workspace, { from: 'structurizr', to: 'drawio', views: true });
+        const pages = parseDrawioPages(result.output);
+
+        expect(pages.map(page => page.name)).toEqual(result.views!.map(view => view.diagram.name));
+    });
+
+    it('should render each view to SVG', () => {
+        const result = convert(workspace, { from: 'structurizr', to: 'svg', views: true });
+
+        expect(result.views!.every(view => view.output.startsWith('<svg') || view.output.startsWith('<?xml'))).toBe(true);
+    });
+
+    it('should convert a single view', () => {
+        const result = convert(workspace, { from: 'structurizr', to: 'plantuml', view: 'live' });
+
+        expect(result.output).toContain('!include <C4/C4_Deployment>');
+        expect(result.output).toContain('Deployment_Node(dc, "Data Center") {');
+    });
+});
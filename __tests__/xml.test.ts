@@ -0,0 +1,120 @@
+/**
+ * Portable XML Tests
+ *
+ * Runs in the Node environment without a DOM: the XML reader, its selector
+ * subset and entity decoding, and the XML-based parsers built on it
+ */
+
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import { parseXml, decodeHtmlEntities, parseDrawio, parseSCXMLStateDiagram, ParseError } from '../src/index';
+
+describe('XML reader', () => {
+    it('should run without a browser DOM', () => {
+        expect(typeof DOMParser).toBe('undefined');
+        expect(typeof document).toBe('undefined');
+    });
+
+    it('should read elements, attributes, text and CDATA', () => {
+        const doc = parseXml(`<?xml version="1.0"?>
+<!DOCTYPE root [ <!ELEMENT root ANY> ]>
+<!-- comment -->
+<ns:root xmlns:ns="urn:x" a='1' b="x &amp; &#x41;&#66;">
+  <child>one<![CDATA[ <two> ]]><!-- skipped -->three</child>
+  <child/>
+</ns:root>`, 'test');
+        const root = doc.documentElement;
+
+        expect([root.tagName, root.localName, root.prefix]).toEqual(['ns:root', 'root', 'ns']);
+        expect(root.getAttribute('b')).toBe('x & AB');
+        expect(root.getAttribute('missing')).toBeNull();
+        expect(root.children.map(child => child.tagName)).toEqual(['child', 'child']);
+        expect(root.children[0].textContent).toBe('one <two> three');
+        expect(root.children[0].parentElement).toBe(root);
+    });
+
+    it('should normalise line breaks in attributes but keep character references', () => {
+        const root = parseXml('<a v="line\n\tnext&#xa;end"/>', 'test').documentElement;
+
+        expect(root.getAttribute('v')).toBe('line  next\nend');
+    });
+
+    it('should match the selector subset', () => {
+        const doc = parseXml(`<graphml>
+  <graph id="outer">
+    <node id="a"><data key="d0">A</data></node>
+    <node id="g"><graph id="inner"><node id="b"/></graph></node>
+  </graph>
+</graphml>`, 'test');
+        const ids = (elements: { getAttribute(name: string): string | null }[]) => elements.map(e => e.getAttribute('id'));
+        const group = doc.querySelector('node[id="g"]')!;
+
+        expect(ids(doc.querySelectorAll('graph > node'))).toEqual(['a', 'g', 'b']);
+        expect(ids(doc.querySelectorAll('graphml node'))).toEqual(['a', 'g', 'b']);
+        expect(ids(group.querySelectorAll(':scope > graph > node'))).toEqual(['b']);
+        expect(doc.querySelector('data[key=d0]')?.textContent).toBe('A');
+        expect(doc.querySelector('node[id="b"]')?.closest('graph')?.getAttribute('id')).toBe('inner');
+        expect(doc.querySelectorAll('*')).toHaveLength(7);
+    });
+
+    it('should report malformed XML with its position', () => {
+        const cases: [string, RegExp][] = [
+            ['<a><b></a>', /Expected <\/b> but found <\/a>/],
+            ['<a>', /Unclosed element <a>/],
+            ['<a x=1/>', /quoted value/],
+            ['<a x="1" x="2"/>', /Duplicate attribute x/],
+            ['<a>&nbsp;</a>', /Undefined entity &nbsp;/],
+            ['<a/><b/>', /Content after the root element/],
+            ['', /Missing root element/],
+        ];
+        for (const [source, message] of cases) {
+            expect(() => parseXml(source, 'test')).toThrow(message);
+        }
+
+        try {
+            parseXml('<a>\n  <b>\n</a>', 'drawio');
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(ParseError);
+            expect((error as ParseError).format).toBe('drawio');
+            expect((error as ParseError).line).toBe(3);
+        }
+    });
+
+    it('should decode HTML entities without a document', () => {
+        expect(decodeHtmlEntities('a&nbsp;b &copy; &#8594; &#x2713; &unknown; &amp;lt;')).toBe('a b © → ✓ &unknown; &lt;');
+        // The whole HTML5 table, and legacy references without a semicolon
+        expect(decodeHtmlEntities('&alefsym; &NotSquareSupersetEqual; &fjlig; &copy 2024')).toBe('ℵ ⋣ fj © 2024');
+    });
+});
+
+describe('XML parsers without a DOM', () => {
+    it('should parse Draw.io labels with HTML entities', () => {
+        const diagram = parseDrawio(`<mxGraphModel><root>
+  <mxCell id="0"/><mxCell id="1" parent="0"/>
+  <mxCell id="a" value="Caf&amp;eacute;&amp;nbsp;&amp;amp; bar" vertex="1" parent="1">
+    <mxGeometry x="10" y="20" width="120" height="60" as="geometry"/>
+  </mxCell>
+</root></mxGraphModel>`);
+
+        expect(diagram.nodes[0].label).toBe('Café & bar');
+        expect(diagram.nodes[0].position).toEqual({ x: 10, y: 20 });
+    });
+
+    it('should inflate compressed Draw.io pages', () => {
+        const model = '<mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/>'
+            + '<mxCell id="n" value="Packed" vertex="1" parent="1"><mxGeometry width="80" height="40" as="geometry"/></mxCell>'
+            + '</root></mxGraphModel>';
+        const deflated = pako.deflateRaw(encodeURIComponent(model));
+        const content = btoa(String.fromCharCode(...deflated));
+        const diagram = parseDrawio(`<mxfile><diagram id="p1" name="Page 1">${content}</diagram></mxfile>`);
+
+        expect(diagram.name).toBe('Page 1');
+        expect(diagram.nodes.map(node => node.label)).toEqual(['Packed']);
+    });
+
+    it('should raise parse errors for malformed documents', () => {
+        expect(() => parseDrawio('<mxfile><diagram></mxfile>')).toThrow(ParseError);
+        expect(() => parseSCXMLStateDiagram('<scxml><state id="a"></scxml>')).toThrow(/Invalid XML/);
+    });
+});
@@ -15,6 +15,8 @@ export default tseslint.config(
                 varsIgnorePattern: '^_',
             }],
             '@typescript-eslint/no-explicit-any': 'warn',
+            // Empty interfaces are declaration-merging targets for format registries
+            '@typescript-eslint/no-empty-object-type': ['error', { allowInterfaces: 'always' }],
             '@typescript-eslint/explicit-function-return-type': 'off',
             'no-useless-escape': 'warn',
             'no-control-regex': 'off',
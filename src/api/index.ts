@@ -11,6 +11,9 @@ export { mutateDiagram } from './mutator';
 export { convertInWorker } from './worker';
 export type { WorkerMessage, WorkerResponse } from './worker';
 
+// Format registry
+export { registerParser, registerGenerator, registerDetector, registerFixer, registerCapabilities, unregisterFormat, isRegisteredFormat } from './registry';
+
 // Diff API
 export { compareDiagrams } from './diff';
 export type { DiffResult, DiffSummary, ElementDiff } from './diff';
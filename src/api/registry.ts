@@ -0,0 +1,123 @@
+/**
+ * Format Registry
+ *
+ * Plugs custom formats into `convert`, `detectFormat`, `fixSyntax` and
+ * `convertInWorker` without forking the library. A format registered
+ * under the name of a built-in one replaces it.
+ *
+ * @example
+ * ```typescript
+ * import { registerParser, registerGenerator, registerDetector, convert } from '@whitebite/diagram-converter';
+ *
+ * registerParser('acme', parseAcme);
+ * registerGenerator('acme', generateAcme);
+ * registerDetector('acme', [{ regex: /^@acme\b/, confidence: 'high', reason: 'Acme header' }]);
+ *
+ * const result = convert(source, { from: 'acme', to: 'drawio' });
+ * ```
+ */
+
+import type {
+    DetectionPattern,
+    FixerDefinition,
+    FormatCapabilities,
+    FormatDetector,
+    FormatGenerator,
+    FormatParser,
+    GeneratorOptions,
+    InputFormat,
+    OutputFormat,
+    ParserOptions,
+} from '../types';
+
+const parsers = new Map<string, FormatParser>();
+const generators = new Map<string, FormatGenerator>();
+const detectors = new Map<InputFormat, FormatDetector>();
+const fixers = new Map<InputFormat, FixerDefinition>();
+const capabilities = new Map<string, FormatCapabilities>();
+
+function checkFormat(format: string): void {
+    if (typeof format !== 'string' || format.trim() === '') {
+        throw new Error('Format name must be a non-empty string');
+    }
+}
+
+/** Register the parser of an input format; it receives `parserOptions[format]` of convert */
+export function registerParser<F extends InputFormat>(format: F, parser: FormatParser<ParserOptions<F>>): void {
+    checkFormat(format);
+    parsers.set(format, parser as FormatParser);
+}
+
+/** Register the generator of an output format; it receives `generatorOptions[format]` of convert */
+export function registerGenerator<F extends OutputFormat>(format: F, generator: FormatGenerator<GeneratorOptions<F>>): void {
+    checkFormat(format);
+    generators.set(format, generator as FormatGenerator);
+}
+
+/**
+ * Register how to recognise an input format, as source patterns or a
+ * function. Registered detectors run before the built-in ones, in order
+ * of registration.
+ */
+export function registerDetector(format: InputFormat, detector: readonly DetectionPattern[] | FormatDetector): void {
+    checkFormat(format);
+    detectors.delete(format);
+    detectors.set(format, typeof detector === 'function' ? detector : source => {
+        const pattern = detector.find(({ regex }) => regex.test(source));
+        return pattern ? { confidence: pattern.confidence, reason: pattern.reason } : null;
+    });
+}
+
+/** Register the syntax fixer of an input format, as fix rules or a function */
+export function registerFixer(format: InputFormat, fixer: FixerDefinition): void {
+    checkFormat(format);
+    fixers.set(format, fixer);
+}
+
+/**
+ * Register the IR features a registered generator can express, so that
+ * convert reports what the format loses. Without them nothing is reported.
+ */
+export function registerCapabilities(format: OutputFormat, formatCapabilities: FormatCapabilities): void {
+    checkFormat(format);
+    capabilities.set(format, formatCapabilities);
+}
+
+/** Remove everything registered for a format */
+export function unregisterFormat(format: InputFormat | OutputFormat): void {
+    parsers.delete(format);
+    generators.delete(format);
+    detectors.delete(format as InputFormat);
+    fixers.delete(format as InputFormat);
+    capabilities.delete(format);
+}
+
+/** Registered parser of a format */
+export function getRegisteredParser(format: string): FormatParser | undefined {
+    return parsers.get(format);
+}
+
+/** Registered generator of a format */
+export function getRegisteredGenerator(format: string): FormatGenerator | undefined {
+    return generators.get(format);
+}
+
+/** Registered detectors, in order of registration */
+export function getRegisteredDetectors(): [InputFormat, FormatDetector][] {
+    return [...detectors];
+}
+
+/** Registered fixer of a format */
+export function getRegisteredFixer(format: string): FixerDefinition | undefined {
+    return fixers.get(format as InputFormat);
+}
+
+/** Registered capabilities of a format */
+export function getRegisteredCapabilities(format: string): FormatCapabilities | undefined {
+    return capabilities.get(format);
+}
+
+/** Whether a format has a registered parser or generator, which only exist in this thread */
+export function isRegisteredFormat(format: string): boolean {
+    return parsers.has(format) || generators.has(format);
+}
@@ -16,6 +16,7 @@
  */
 
 import { convert } from '../index';
+import { isRegisteredFormat } from './registry';
 import type { ConvertOptions, ConvertResult } from '../types/ir';
 
 /**
@@ -46,7 +47,11 @@ export interface WorkerResponse {
  * Convert diagram in a Web Worker
  * 
  * Offloads conversion to a background thread for better UI responsiveness.
- * Falls back to main thread if Workers are not available.
+ * Falls back to main thread if Workers are not available, or if either
+ * format was registered with the format registry: registered functions
+ * only exist in the thread that registered them. Options that cannot be
+ * cloned into the worker, such as a D2 import resolver function, keep
+ * the conversion on the main thread too.
  * 
  * @param source - Source diagram code
  * @param options - Conversion options
@@ -72,8 +77,8 @@ export async function convertInWorker(
     source: string,
     options: ConvertOptions
 ): Promise<ConvertResult> {
-    // Check if Workers available (browser environment)
-    if (typeof Worker === 'undefined') {
+    // Check if Workers available (browser environment) and can see the formats
+    if (typeof Worker === 'undefined' || isRegisteredFormat(options.from) || isRegisteredFormat(options.to)) {
         return convert(source, options);
     }
 
@@ -103,6 +108,15 @@ export async function convertInWorker(
             reject(new Error(e.message || 'Worker error'));
         };
 
-        worker.postMessage({ id, source, options } satisfies WorkerMessage);
+        try {
+            worker.postMessage({ id, source, options } satisfies WorkerMessage);
+        } catch {
+            worker.terminate();
+            try {
+                resolve(convert(source, options));
+            } catch (error) {
+                reject(error);
+            }
+        }
     });
 }
@@ -0,0 +1,131 @@
+/**
+ * Format capabilities
+ *
+ * IR features each built-in generator writes. A feature missing here is
+ * dropped or approximated when converting to the format.
+ */
+
+import type { ArrowHeadType, BuiltinOutputFormat, FormatCapabilities, LineType, NodeShape } from '../types';
+
+const ALL_SHAPES: readonly NodeShape[] = [
+    'rectangle', 'rounded-rectangle', 'circle', 'ellipse', 'diamond', 'hexagon', 'parallelogram',
+    'trapezoid', 'cylinder', 'document', 'cloud', 'actor', 'note',
+];
+
+const ALL_LINE_TYPES: readonly LineType[] = ['solid', 'dashed', 'dotted', 'thick'];
+
+const ALL_ARROW_HEADS: readonly ArrowHeadType[] = [
+    'none', 'arrow', 'open', 'diamond', 'diamond-filled', 'circle', 'circle-filled', 'cross', 'bar',
+];
+
+/** Diagram types with dedicated Mermaid and PlantUML syntax */
+const TEXT_DIAGRAM_TYPES = ['flowchart', 'generic', 'sequence', 'class', 'state', 'er', 'gantt', 'mindmap', 'c4'] as const;
+
+const SVG_CAPABILITIES: FormatCapabilities = {
+    features: [
+        'positions', 'sizes', 'groups', 'nested-groups', 'edge-labels', 'block-labels', 'fill', 'stroke', 'stroke-width',
+        'edge-stroke', 'edge-stroke-width', 'group-fill', 'group-stroke', 'group-dash',
+    ],
+    shapes: ['rectangle', 'rounded-rectangle', 'circle', 'ellipse', 'diamond', 'hexagon', 'cylinder'],
+    lineTypes: ['solid', 'dashed', 'dotted'],
+    arrowHeads: ['none', 'arrow'],
+    diagramTypes: ['flowchart', 'generic', 'mindmap', 'sequence', 'state', 'er', 'gantt', 'bpmn'],
+};
+
+/** Models without appearance: only names, labels and containment survive */
+const SCHEMA_CAPABILITIES = {
+    features: ['edge-labels'],
+    shapes: ['rectangle'],
+    lineTypes: ['solid'],
+    arrowHeads: ['none', 'arrow'],
+} as const satisfies Omit<FormatCapabilities, 'diagramTypes'>;
+
+/** What the generator of each output format can express */
+export const FORMAT_CAPABILITIES: Record<BuiltinOutputFormat, FormatCapabilities> = {
+    mermaid: {
+        features: ['groups', 'edge-labels', 'fill', 'stroke', 'stroke-width', 'font-color'],
+        shapes: ['rectangle', 'rounded-rectangle', 'circle', 'ellipse', 'diamond', 'hexagon', 'parallelogram', 'trapezoid', 'cylinder'],
+        lineTypes: ['solid', 'dashed', 'thick'],
+        arrowHeads: ['none', 'arrow', 'circle', 'cross'],
+        diagramTypes: TEXT_DIAGRAM_TYPES,
+    },
+    plantuml: {
+        features: ['groups', 'edge-labels', 'block-labels', 'fill'],
+        shapes: ['rectangle', 'rounded-rectangle', 'circle', 'ellipse', 'diamond', 'hexagon', 'cylinder', 'document', 'cloud', 'actor', 'note'],
+        lineTypes: ['solid', 'dashed'],
+        arrowHeads: ['none', 'arrow', 'circle', 'diamond-filled'],
+        diagramTypes: TEXT_DIAGRAM_TYPES,
+    },
+    dot: {
+        features: ['groups', 'edge-labels', 'fill', 'stroke', 'font-color', 'edge-stroke', 'group-fill'],
+        shapes: ['rectangle', 'circle', 'ellipse', 'diamond', 'hexagon', 'parallelogram', 'trapezoid', 'cylinder', 'note'],
+        lineTypes: ['solid', 'dashed', 'dotted'],
+        arrowHeads: ['none', 'arrow'],
+        diagramTypes: ['flowchart', 'generic'],
+    },
+    d2: {
+        features: [
+            'groups', 'nested-groups', 'edge-labels', 'fill', 'stroke', 'stroke-width', 'font-color', 'opacity',
+            'group-fill', 'group-stroke',
+        ],
+        shapes: ['rectangle', 'circle', 'ellipse', 'diamond', 'hexagon', 'parallelogram', 'cylinder', 'document', 'cloud', 'actor'],
+        lineTypes: ['solid', 'dashed'],
+        arrowHeads: ['none', 'arrow'],
+        diagramTypes: ['flowchart', 'generic'],
+    },
+    drawio: {
+        features: [
+            'positions', 'sizes', 'waypoints', 'groups', 'nested-groups', 'edge-labels', 'block-labels',
+            'fill', 'stroke', 'stroke-width', 'font-size', 'font-family', 'font-color', 'opacity', 'shadow',
+            'edge-stroke', 'edge-stroke-width', 'edge-opacity', 'group-fill', 'group-stroke', 'group-dash',
+        ],
+        shapes: ALL_SHAPES,
+        lineTypes: ALL_LINE_TYPES,
+        arrowHeads: ALL_ARROW_HEADS,
+        diagramTypes: ['flowchart', 'generic', 'mindmap', 'sequence', 'state', 'er', 'bpmn'],
+    },
+    excalidraw: {
+        features: [
+            'positions', 'sizes', 'groups', 'edge-labels', 'block-labels', 'fill', 'stroke', 'stroke-width', 'opacity',
+            'edge-stroke', 'edge-stroke-width', 'edge-opacity',
+            'group-fill', 'group-stroke', 'group-dash', 'group-opacity', 'group-label-position',
+        ],
+        shapes: ['rectangle', 'rounded-rectangle', 'circle', 'ellipse', 'diamond'],
+        lineTypes: ['solid', 'dashed', 'dotted'],
+        arrowHeads: ['none', 'arrow', 'open', 'diamond', 'circle-filled', 'bar'],
+        diagramTypes: ['flowchart', 'generic', 'mindmap', 'sequence'],
+    },
+    svg: SVG_CAPABILITIES,
+    // Without a canvas, text is drawn in the built-in ASCII stroke font
+    png: { ...SVG_CAPABILITIES, asciiText: true },
+    graphml: {
+        features: [
+            'positions', 'sizes', 'groups', 'edge-labels', 'fill', 'stroke', 'stroke-width',
+            'edge-stroke', 'edge-stroke-width', 'group-fill', 'group-stroke',
+        ],
+        shapes: ['rectangle', 'rounded-rectangle', 'ellipse', 'diamond', 'hexagon', 'parallelogram', 'trapezoid'],
+        lineTypes: ['solid', 'dashed'],
+        arrowHeads: ['none', 'arrow'],
+        diagramTypes: ['flowchart', 'generic'],
+    },
+    structurizr: {
+        ...SCHEMA_CAPABILITIES,
+        features: ['groups', 'nested-groups', 'edge-labels'],
+        shapes: ['rectangle', 'actor', 'cylinder'],
+        diagramTypes: ['c4'],
+    },
+    bpmn: {
+        ...SCHEMA_CAPABILITIES,
+        features: ['groups', 'nested-groups', 'edge-labels'],
+        shapes: ['rectangle', 'rounded-rectangle', 'circle', 'diamond', 'document'],
+        diagramTypes: ['bpmn'],
+    },
+    scxml: {
+        ...SCHEMA_CAPABILITIES,
+        features: ['groups', 'nested-groups', 'edge-labels'],
+        shapes: ['rectangle', 'rounded-rectangle', 'circle', 'diamond'],
+        diagramTypes: ['state'],
+    },
+    sql: { ...SCHEMA_CAPABILITIES, diagramTypes: ['er'] },
+    dbml: { ...SCHEMA_CAPABILITIES, diagramTypes: ['er'] },
+};
@@ -42,12 +42,12 @@ export const DEFAULT_DIRECTION: LayoutDirection = 'TB';
 /** Supported formats */
 export const FORMATS = {
     INPUT: [
-        'mermaid', 'drawio', 'excalidraw', 'plantuml', 'dot',
-        'd2', 'structurizr', 'bpmn', 'graphml', 'lucidchart',
+        'mermaid', 'drawio', 'excalidraw', 'plantuml', 'dot', 'graphviz-plain', 'graphviz-json',
+        'd2', 'structurizr', 'bpmn', 'graphml', 'lucidchart', 'scxml', 'sql',
     ] as const,
     OUTPUT: [
         'mermaid', 'drawio', 'excalidraw', 'plantuml', 'dot', 'svg', 'png',
-        'd2', 'structurizr', 'bpmn', 'graphml',
+        'd2', 'structurizr', 'bpmn', 'graphml', 'scxml', 'sql', 'dbml',
     ] as const,
 } as const;
 
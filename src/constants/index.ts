@@ -5,3 +5,4 @@
 export * from './layout';
 export * from './timing';
 export * from './defaults';
+export * from './capabilities';
@@ -8,9 +8,19 @@ import type { InputFormat } from '../types';
 import type { FixResult, FixRule } from '../types/fixer';
 import { fixMermaid, getMermaidRules } from './mermaid';
 import { fixPlantUML, getPlantUMLRules } from './plantuml';
+import { applyRules } from './base';
+import { getRegisteredFixer } from '../api/registry';
 
 /** Fix syntax errors in diagram source code */
 export function fixSyntax(source: string, format: InputFormat): FixResult {
+    const registered = getRegisteredFixer(format);
+    if (typeof registered === 'function') {
+        return registered(source);
+    }
+    if (registered) {
+        return applyRules(source, [...registered], format);
+    }
+
     switch (format) {
         case 'mermaid':
             return fixMermaid(source);
@@ -31,11 +41,17 @@ export function fixSyntax(source: string, format: InputFormat): FixResult {
 
 /** Check if fixer is available for format */
 export function hasFixerFor(format: InputFormat): boolean {
-    return format === 'mermaid' || format === 'plantuml';
+    return getRegisteredFixer(format) !== undefined || format === 'mermaid' || format === 'plantuml';
 }
 
 /** Get all rules for a format (for inspection/testing) */
 export function getRulesFor(format: InputFormat): readonly FixRule[] {
+    const registered = getRegisteredFixer(format);
+    if (registered) {
+        // Function fixers have no inspectable rules
+        return typeof registered === 'function' ? [] : registered;
+    }
+
     switch (format) {
         case 'mermaid':
             return getMermaidRules();
@@ -1,107 +1,371 @@
 /**
  * BPMN Generator
- * 
+ *
  * Generates BPMN 2.0 XML from IR
+ *
+ * Pools become collaboration participants with their processes' lane sets,
+ * and message flows connect them. Every element keeps its event
+ * definitions, boundary attachment, default flow and data references, and
+ * the BPMNDiagram plane holds shapes for pools, lanes and elements plus
+ * waypoints for every flow. Coordinates come from the BPMN layout, so DI
+ * read from a file is written back unchanged. Collapsed sub-processes with
+ * placed contents get a drill-down plane of their own.
  */
 
-import type { Diagram, DiagramNode } from '../types';
+import type { Diagram, Position } from '../types';
+import type {
+    BpmnEventDefinition,
+    BpmnRootElement,
+    IRBpmnDiagram,
+    IRBpmnElement,
+    IRBpmnLane,
+} from '../types/bpmn';
+import { isBpmnEvent, isBpmnSubProcess } from '../types/bpmn';
+import { escapeXml, extractBpmnData } from '../utils';
+import { layoutBpmnDiagram, type BpmnLayoutOptions } from '../layout/bpmn';
+
+const NAMESPACES = [
+    'xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL"',
+    'xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI"',
+    'xmlns:dc="http://www.omg.org/spec/DD/20100524/DC"',
+    'xmlns:di="http://www.omg.org/spec/DD/20100524/DI"',
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+];
+
+/** Root element types referenced by each event definition */
+const REFERENCED_ROOTS: Partial<Record<BpmnEventDefinition['type'], BpmnRootElement['type']>> = {
+    message: 'message',
+    error: 'error',
+    signal: 'signal',
+    escalation: 'escalation',
+};
+
+// =============================================================================
+// Generator
+// =============================================================================
 
 /** Generate BPMN XML from IR */
-export function generateBpmn(diagram: Diagram): string {
+export function generateBpmn(diagram: Diagram, options: BpmnLayoutOptions = {}): string {
+    const bpmn = extractBpmnData(diagram.type === 'bpmn' ? diagram : { ...diagram, type: 'bpmn' })!;
+    // Positions from other notations know nothing of pools and lanes
+    return generateBpmnCode(bpmn, { keepPartialBounds: diagram.type === 'bpmn', ...options });
+}
+
+/** Generate BPMN XML from the BPMN model */
+export function generateBpmnCode(bpmn: IRBpmnDiagram, options: BpmnLayoutOptions = {}): string {
+    const layout = layoutBpmnDiagram(bpmn, options);
+    const xmlId = createIdMap();
     const lines: string[] = [];
 
+    const definitionsId = xmlId(bpmn.id);
+    const targetNamespace = (bpmn.metadata?.targetNamespace as string | undefined) ?? 'http://bpmn.io/schema/bpmn';
+    const collaborationId = bpmn.pools.length > 0
+        ? xmlId((bpmn.metadata?.collaborationId as string | undefined) ?? 'Collaboration_1')
+        : undefined;
+
+    // Extension namespaces, such as Camunda's, so their attributes stay bound
+    const declared = new Set(NAMESPACES.map(namespace => namespace.slice(0, namespace.indexOf('='))));
+    const extensions = Object.entries((bpmn.metadata?.namespaces as Record<string, string> | undefined) ?? {})
+        .filter(([prefix]) => !declared.has(`xmlns:${prefix}`))
+        .map(([prefix, uri]) => `xmlns:${prefix}="${escapeXml(uri)}"`);
+    const rootAttributes = extensionAttrs(bpmn.metadata?.extensionAttributes as Record<string, string> | undefined);
+
     lines.push('<?xml version="1.0" encoding="UTF-8"?>');
-    lines.push('<definitions xmlns="http://www.omg.org/spec/BPMN/20100524/MODEL"');
-    lines.push('             xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI"');
-    lines.push('             xmlns:dc="http://www.omg.org/spec/DD/20100524/DC"');
-    lines.push('             xmlns:di="http://www.omg.org/spec/DD/20100524/DI"');
-    lines.push(`             id="definitions-${diagram.id}">`);
-    lines.push('');
-    lines.push(`  <process id="process-${diagram.id}" isExecutable="false">`);
+    lines.push(`<bpmn:definitions ${[...NAMESPACES, ...extensions].join(' ')} id="${definitionsId}"${attr('name', bpmn.title)} targetNamespace="${escapeXml(targetNamespace)}"${rootAttributes}>`);
 
-    // Generate flow elements
-    for (const node of diagram.nodes) {
-        const element = generateBpmnElement(node);
-        lines.push(`    ${element}`);
+    if (collaborationId) {
+        lines.push(`  <bpmn:collaboration id="${collaborationId}">`);
+        for (const pool of bpmn.pools) {
+            lines.push(`    <bpmn:participant id="${xmlId(pool.id)}"${attr('name', pool.name)}${pool.processId ? ` processRef="${xmlId(pool.processId)}"` : ''}/>`);
+        }
+        for (const flow of bpmn.flows.filter(f => f.type === 'messageFlow')) {
+            lines.push(`    <bpmn:messageFlow id="${xmlId(flow.id)}"${attr('name', flow.name)} sourceRef="${xmlId(flow.source)}" targetRef="${xmlId(flow.target)}"${flow.messageRef ? ` messageRef="${xmlId(flow.messageRef)}"` : ''}${extensionAttrs(flow.extensionAttributes)}/>`);
+        }
+        lines.push('  </bpmn:collaboration>');
     }
 
-    lines.push('');
+    for (const process of bpmn.processes) {
+        lines.push(`  <bpmn:process id="${xmlId(process.id)}"${attr('name', process.name)} isExecutable="${process.isExecutable ?? false}"${extensionAttrs(process.extensionAttributes)}>`);
+        const pool = bpmn.pools.find(p => p.processId === process.id);
+        if (pool && pool.lanes.length > 0) {
+            lines.push(...laneSet(`LaneSet_${xmlId(process.id)}`, pool.lanes, xmlId, '    '));
+        }
+        lines.push(...scopeContents(bpmn, process.id, undefined, xmlId, '    '));
+        lines.push('  </bpmn:process>');
+    }
 
-    // Generate sequence flows
-    for (const edge of diagram.edges) {
-        const name = edge.label ? ` name="${escapeXml(edge.label)}"` : '';
-        lines.push(`    <sequenceFlow id="${edge.id}" sourceRef="${edge.source}" targetRef="${edge.target}"${name}/>`);
+    for (const root of rootElements(bpmn)) {
+        const code = root.code ? ` ${root.type}Code="${escapeXml(root.code)}"` : '';
+        lines.push(`  <bpmn:${root.type} id="${xmlId(root.id)}"${attr('name', root.name)}${code}/>`);
     }
 
-    lines.push('  </process>');
-    lines.push('');
+    // Main plane
+    const drawn = new Set(layout.shapes.map(shape => shape.element.id));
+    lines.push('  <bpmndi:BPMNDiagram id="BPMNDiagram_1">');
+    lines.push(`    <bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="${collaborationId ?? xmlId(bpmn.processes[0]?.id ?? 'Process_1')}">`);
+    for (const box of layout.pools) {
+        lines.push(...diShape(xmlId(box.pool.id), box, ' isHorizontal="true"'));
+    }
+    for (const box of layout.lanes) {
+        lines.push(...diShape(xmlId(box.lane.id), box, ' isHorizontal="true"'));
+    }
+    for (const box of layout.shapes) {
+        const expanded = isBpmnSubProcess(box.element.type)
+            ? ` isExpanded="${box.element.expanded ?? layout.shapes.some(s => s.element.parent === box.element.id)}"`
+            : '';
+        lines.push(...diShape(xmlId(box.element.id), box, expanded));
+    }
+    for (const path of layout.flows) {
+        lines.push(...diEdge(xmlId(path.flow.id), path.points));
+    }
+    lines.push('    </bpmndi:BPMNPlane>');
+    lines.push('  </bpmndi:BPMNDiagram>');
 
-    // Generate diagram info (layout)
-    lines.push(`  <bpmndi:BPMNDiagram id="diagram-${diagram.id}">`);
-    lines.push(`    <bpmndi:BPMNPlane id="plane-${diagram.id}" bpmnElement="process-${diagram.id}">`);
+    // Drill-down planes keep the placed contents of collapsed sub-processes
+    for (const subProcess of bpmn.elements.filter(e => isBpmnSubProcess(e.type) && e.expanded === false && drawn.has(e.id))) {
+        const contents = descendants(bpmn, subProcess.id).filter(element => element.bounds);
+        if (contents.length === 0) continue;
+        const ids = new Set(contents.map(element => element.id));
+        const planeId = xmlId(subProcess.id);
+        lines.push(`  <bpmndi:BPMNDiagram id="BPMNDiagram_${planeId}">`);
+        lines.push(`    <bpmndi:BPMNPlane id="BPMNPlane_${planeId}" bpmnElement="${planeId}">`);
+        for (const element of contents) {
+            lines.push(...diShape(xmlId(element.id), element.bounds!, ''));
+        }
+        for (const flow of bpmn.flows) {
+            if (ids.has(flow.source) && ids.has(flow.target) && flow.waypoints && flow.waypoints.length >= 2) {
+                lines.push(...diEdge(xmlId(flow.id), flow.waypoints));
+            }
+        }
+        lines.push('    </bpmndi:BPMNPlane>');
+        lines.push('  </bpmndi:BPMNDiagram>');
+    }
+
+    lines.push('</bpmn:definitions>');
+    return lines.join('\n');
+}
 
-    for (const node of diagram.nodes) {
-        const x = node.position?.x ?? 0;
-        const y = node.position?.y ?? 0;
-        const w = node.size?.width ?? 100;
-        const h = node.size?.height ?? 80;
+// =============================================================================
+// Process Contents
+// =============================================================================
 
-        lines.push(`      <bpmndi:BPMNShape id="shape-${node.id}" bpmnElement="${node.id}">`);
-        lines.push(`        <dc:Bounds x="${x}" y="${y}" width="${w}" height="${h}"/>`);
-        lines.push('      </bpmndi:BPMNShape>');
+/** Lane set with nested child lane sets */
+function laneSet(id: string, lanes: IRBpmnLane[], xmlId: (id: string) => string, indent: string, tag = 'laneSet'): string[] {
+    const lines = [`${indent}<bpmn:${tag} id="${id}">`];
+    for (const lane of lanes) {
+        lines.push(`${indent}  <bpmn:lane id="${xmlId(lane.id)}"${attr('name', lane.name)}>`);
+        for (const ref of lane.elements) {
+            lines.push(`${indent}    <bpmn:flowNodeRef>${xmlId(ref)}</bpmn:flowNodeRef>`);
+        }
+        if (lane.lanes && lane.lanes.length > 0) {
+            lines.push(...laneSet(`LaneSet_${xmlId(lane.id)}`, lane.lanes, xmlId, `${indent}    `, 'childLaneSet'));
+        }
+        lines.push(`${indent}  </bpmn:lane>`);
     }
+    lines.push(`${indent}</bpmn:${tag}>`);
+    return lines;
+}
+
+/** Elements, data objects and flows of a process or sub-process */
+function scopeContents(
+    bpmn: IRBpmnDiagram,
+    processId: string,
+    parent: string | undefined,
+    xmlId: (id: string) => string,
+    indent: string
+): string[] {
+    const lines: string[] = [];
+    const elements = bpmn.elements.filter(e => e.processId === processId && e.parent === parent);
+    const ids = new Set(elements.map(element => element.id));
 
-    for (const edge of diagram.edges) {
-        lines.push(`      <bpmndi:BPMNEdge id="edge-${edge.id}" bpmnElement="${edge.id}">`);
-        lines.push('      </bpmndi:BPMNEdge>');
+    for (const element of elements) {
+        lines.push(...flowElement(bpmn, element, xmlId, indent));
     }
 
-    lines.push('    </bpmndi:BPMNPlane>');
-    lines.push('  </bpmndi:BPMNDiagram>');
-    lines.push('</definitions>');
+    // Data object references point at data objects declared in the same scope
+    const dataObjects = new Set(elements.filter(e => e.type === 'dataObjectReference').map(e => e.itemRef ?? `DataObject_${e.id}`));
+    for (const dataObject of dataObjects) {
+        lines.push(`${indent}<bpmn:dataObject id="${xmlId(dataObject)}"/>`);
+    }
 
-    return lines.join('\n');
+    // Connections live in the scope of their source
+    for (const flow of bpmn.flows) {
+        const owner = ids.has(flow.source) || (!bpmn.elements.some(e => e.id === flow.source) && ids.has(flow.target));
+        if (!owner) continue;
+        if (flow.type === 'sequenceFlow') {
+            const open = `${indent}<bpmn:sequenceFlow id="${xmlId(flow.id)}"${attr('name', flow.name)} sourceRef="${xmlId(flow.source)}" targetRef="${xmlId(flow.target)}"${extensionAttrs(flow.extensionAttributes)}`;
+            if (flow.condition) {
+                lines.push(`${open}>`);
+                lines.push(`${indent}  <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression">${escapeXml(flow.condition)}</bpmn:conditionExpression>`);
+                lines.push(`${indent}</bpmn:sequenceFlow>`);
+            } else {
+                lines.push(`${open}/>`);
+            }
+        } else if (flow.type === 'association') {
+            lines.push(`${indent}<bpmn:association id="${xmlId(flow.id)}" sourceRef="${xmlId(flow.source)}" targetRef="${xmlId(flow.target)}"${extensionAttrs(flow.extensionAttributes)}/>`);
+        }
+    }
+    return lines;
 }
 
-function generateBpmnElement(node: DiagramNode): string {
-    const name = ` name="${escapeXml(node.label)}"`;
-    const bpmnType = node.metadata?.bpmnType as string | undefined;
-    const bpmnSubtype = node.metadata?.bpmnSubtype as string | undefined;
+/** Flow node, data reference or annotation with its nested content */
+function flowElement(bpmn: IRBpmnDiagram, element: IRBpmnElement, xmlId: (id: string) => string, indent: string): string[] {
+    const id = xmlId(element.id);
+    const attrs = [
+        ` id="${id}"`,
+        element.type !== 'textAnnotation' ? attr('name', element.name) : '',
+        element.attachedTo ? ` attachedToRef="${xmlId(element.attachedTo)}"` : '',
+        element.cancelActivity === false ? ' cancelActivity="false"' : '',
+        element.defaultFlow ? ` default="${xmlId(element.defaultFlow)}"` : '',
+        element.triggeredByEvent ? ' triggeredByEvent="true"' : '',
+        attr('calledElement', element.calledElement),
+        element.type === 'dataObjectReference' ? ` dataObjectRef="${xmlId(element.itemRef ?? `DataObject_${element.id}`)}"` : '',
+        element.type === 'dataStoreReference' && element.itemRef ? ` dataStoreRef="${xmlId(element.itemRef)}"` : '',
+        extensionAttrs(element.extensionAttributes),
+    ].join('');
 
-    // Detect element type from shape or metadata
-    if (bpmnType) {
-        return `<${bpmnType} id="${node.id}"${name}/>`;
+    const body: string[] = [];
+    if (element.type === 'textAnnotation' && element.name) {
+        body.push(`${indent}  <bpmn:text>${escapeXml(element.name)}</bpmn:text>`);
     }
 
-    if (node.shape === 'circle') {
-        if (bpmnSubtype === 'end') {
-            return `<endEvent id="${node.id}"${name}/>`;
-        }
-        if (bpmnSubtype === 'intermediate') {
-            return `<intermediateCatchEvent id="${node.id}"${name}/>`;
-        }
-        return `<startEvent id="${node.id}"${name}/>`;
+    // Inputs target a placeholder property, as modelers write them
+    const inputs = bpmn.flows.filter(f => f.type === 'dataInputAssociation' && f.target === element.id);
+    const outputs = bpmn.flows.filter(f => f.type === 'dataOutputAssociation' && f.source === element.id);
+    if (inputs.length > 0) {
+        body.push(`${indent}  <bpmn:property id="Property_${id}" name="__targetRef_placeholder"/>`);
+    }
+    for (const flow of inputs) {
+        body.push(`${indent}  <bpmn:dataInputAssociation id="${xmlId(flow.id)}">`);
+        body.push(`${indent}    <bpmn:sourceRef>${xmlId(flow.source)}</bpmn:sourceRef>`);
+        body.push(`${indent}    <bpmn:targetRef>Property_${id}</bpmn:targetRef>`);
+        body.push(`${indent}  </bpmn:dataInputAssociation>`);
+    }
+    for (const flow of outputs) {
+        body.push(`${indent}  <bpmn:dataOutputAssociation id="${xmlId(flow.id)}">`);
+        body.push(`${indent}    <bpmn:targetRef>${xmlId(flow.target)}</bpmn:targetRef>`);
+        body.push(`${indent}  </bpmn:dataOutputAssociation>`);
     }
 
-    if (node.shape === 'diamond') {
-        if (bpmnSubtype === 'parallel') {
-            return `<parallelGateway id="${node.id}"${name}/>`;
+    if (isBpmnEvent(element.type)) {
+        for (const definition of element.eventDefinitions ?? []) {
+            body.push(...eventDefinition(definition, xmlId, `${indent}  `));
         }
-        if (bpmnSubtype === 'inclusive') {
-            return `<inclusiveGateway id="${node.id}"${name}/>`;
+    }
+    if (isBpmnSubProcess(element.type)) {
+        body.push(...scopeContents(bpmn, element.processId, element.id, xmlId, `${indent}  `));
+    }
+
+    if (body.length === 0) {
+        return [`${indent}<bpmn:${element.type}${attrs}/>`];
+    }
+    return [`${indent}<bpmn:${element.type}${attrs}>`, ...body, `${indent}</bpmn:${element.type}>`];
+}
+
+/** <...EventDefinition> element */
+function eventDefinition(definition: BpmnEventDefinition, xmlId: (id: string) => string, indent: string): string[] {
+    const tag = `bpmn:${definition.type}EventDefinition`;
+    const attrs = [
+        definition.id ? ` id="${xmlId(definition.id)}"` : '',
+        definition.ref && REFERENCED_ROOTS[definition.type] ? ` ${definition.type}Ref="${xmlId(definition.ref)}"` : '',
+        definition.type === 'link' ? attr('name', definition.expression) : '',
+    ].join('');
+
+    let child: string | undefined;
+    if (definition.type === 'timer' && definition.expression) {
+        const timer = definition.timer ?? 'timeDuration';
+        child = `<bpmn:${timer} xsi:type="bpmn:tFormalExpression">${escapeXml(definition.expression)}</bpmn:${timer}>`;
+    } else if (definition.type === 'conditional') {
+        child = `<bpmn:condition xsi:type="bpmn:tFormalExpression">${escapeXml(definition.expression ?? '')}</bpmn:condition>`;
+    }
+
+    return child
+        ? [`${indent}<${tag}${attrs}>`, `${indent}  ${child}`, `${indent}</${tag}>`]
+        : [`${indent}<${tag}${attrs}/>`];
+}
+
+/** Declared root elements plus any referenced but missing ones */
+function rootElements(bpmn: IRBpmnDiagram): BpmnRootElement[] {
+    const roots = [...(bpmn.rootElements ?? [])];
+    const declare = (type: BpmnRootElement['type'], id: string) => {
+        if (!roots.some(root => root.id === id)) roots.push({ type, id });
+    };
+    for (const element of bpmn.elements) {
+        for (const definition of element.eventDefinitions ?? []) {
+            const type = REFERENCED_ROOTS[definition.type];
+            if (type && definition.ref) declare(type, definition.ref);
         }
-        return `<exclusiveGateway id="${node.id}"${name}/>`;
+        if (element.type === 'dataStoreReference' && element.itemRef) declare('dataStore', element.itemRef);
     }
+    for (const flow of bpmn.flows) {
+        if (flow.messageRef) declare('message', flow.messageRef);
+    }
+    return roots;
+}
+
+/** All elements nested in a sub-process */
+function descendants(bpmn: IRBpmnDiagram, id: string): IRBpmnElement[] {
+    const children = bpmn.elements.filter(element => element.parent === id);
+    return [...children, ...children.flatMap(child => descendants(bpmn, child.id))];
+}
+
+// =============================================================================
+// Diagram Interchange
+// =============================================================================
+
+/** BPMNShape with bounds */
+function diShape(id: string, bounds: { x: number; y: number; width: number; height: number }, extra: string): string[] {
+    return [
+        `      <bpmndi:BPMNShape id="${id}_di" bpmnElement="${id}"${extra}>`,
+        `        <dc:Bounds x="${round(bounds.x)}" y="${round(bounds.y)}" width="${round(bounds.width)}" height="${round(bounds.height)}"/>`,
+        '      </bpmndi:BPMNShape>',
+    ];
+}
+
+/** BPMNEdge with waypoints */
+function diEdge(id: string, points: Position[]): string[] {
+    return [
+        `      <bpmndi:BPMNEdge id="${id}_di" bpmnElement="${id}">`,
+        ...points.map(p => `        <di:waypoint x="${round(p.x)}" y="${round(p.y)}"/>`),
+        '      </bpmndi:BPMNEdge>',
+    ];
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/** Map IDs to unique XML names (IDs may not start with a digit or contain spaces) */
+function createIdMap(): (id: string) => string {
+    const ids = new Map<string, string>();
+    const used = new Set<string>();
+    return (id: string) => {
+        let safe = ids.get(id);
+        if (!safe) {
+            const base = /^[A-Za-z_][\w.-]*$/.test(id) ? id : `_${id.replace(/[^\w.-]/g, '_')}`;
+            safe = base;
+            for (let i = 2; used.has(safe); i++) {
+                safe = `${base}_${i}`;
+            }
+            ids.set(id, safe);
+            used.add(safe);
+        }
+        return safe;
+    };
+}
+
+/** Optional ` name="value"` attribute; line breaks survive attribute normalisation */
+function attr(name: string, value: string | undefined): string {
+    return value ? ` ${name}="${escapeXml(value).replace(/\n/g, '&#10;')}"` : '';
+}
 
-    // Default to task
-    return `<task id="${node.id}"${name}/>`;
+/** Prefixed extension attributes, written as they were read */
+function extensionAttrs(attributes: Record<string, string> | undefined): string {
+    return Object.entries(attributes ?? {}).map(([name, value]) => ` ${name}="${escapeXml(value)}"`).join('');
 }
 
-function escapeXml(str: string): string {
-    return str
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&apos;');
+/** Round a coordinate for compact output */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
 }
+
@@ -0,0 +1,211 @@
+/**
+ * Mermaid C4 Generator
+ *
+ * Generates Mermaid C4 diagrams from IR. Elements with children become
+ * System_Boundary / Container_Boundary / Deployment_Node blocks; the macro
+ * writer is shared with the C4-PlantUML generator.
+ *
+ * Output example:
+ *   C4Container
+ *       title Internet Banking
+ *       Person(customer, "Customer", "A bank customer")
+ *       System_Boundary(bank, "Internet Banking") {
+ *           Container(web, "Web App", "Java", "Delivers the SPA")
+ *       }
+ *       Rel(customer, web, "Uses", "HTTPS")
+ */
+
+import type { Diagram } from '../types';
+import type { C4ViewType, IRC4Diagram, IRC4Element, IRC4Relationship, IRC4View } from '../types/c4';
+import { isC4DeploymentElement } from '../types/c4';
+import { buildC4Tree, extractC4Data, type C4TreeEntry } from '../utils';
+
+/** Mermaid headers by view type */
+const VIEW_HEADERS: Record<C4ViewType, string> = {
+    systemLandscape: 'C4Context',
+    systemContext: 'C4Context',
+    container: 'C4Container',
+    component: 'C4Component',
+    dynamic: 'C4Dynamic',
+    deployment: 'C4Deployment',
+};
+
+/** Element macro base names by kind */
+const ELEMENT_MACROS: Record<IRC4Element['kind'], string> = {
+    person: 'Person',
+    softwareSystem: 'System',
+    container: 'Container',
+    component: 'Component',
+    deploymentNode: 'Deployment_Node',
+    infrastructureNode: 'Node',
+    softwareSystemInstance: 'System',
+    containerInstance: 'Container',
+};
+
+const DIRECTION_SUFFIXES: Record<string, string> = { up: '_U', down: '_D', left: '_L', right: '_R' };
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate Mermaid C4 diagram from IR */
+export function generateC4Diagram(diagram: Diagram): string {
+    return generateC4DiagramCode(extractC4Data(diagram.type === 'c4' ? diagram : { ...diagram, type: 'c4' })!);
+}
+
+/** Generate Mermaid C4 diagram from the C4 model */
+export function generateC4DiagramCode(c4: IRC4Diagram): string {
+    const view = primaryC4View(c4);
+    const lines = [VIEW_HEADERS[view.type]];
+    const title = view.title ?? c4.title;
+    if (title) {
+        lines.push(`    title ${title.replace(/\n/g, ' ')}`);
+    }
+    lines.push(...generateC4Macros(c4, view.type, 'mermaid').map(line => `    ${line}`));
+    return lines.join('\n');
+}
+
+/** View a single C4 diagram is drawn as: the first view, or the most detailed level present */
+export function primaryC4View(c4: IRC4Diagram): IRC4View {
+    const kinds = new Set(c4.elements.map(element => element.kind));
+    const detail: C4ViewType = kinds.has('component') ? 'component'
+        : kinds.has('container') ? 'container'
+        : [...kinds].every(isC4DeploymentElement) && kinds.size > 0 ? 'deployment'
+        : 'systemContext';
+    const view = c4.views[0];
+    if (!view) {
+        return { type: detail, include: ['*'], exclude: [] };
+    }
+    // All elements are drawn, so a context view of a model with containers is drawn as a container diagram
+    const levels: C4ViewType[] = ['systemLandscape', 'systemContext', 'container', 'component'];
+    return levels.indexOf(view.type) >= 0 && levels.indexOf(detail) > levels.indexOf(view.type)
+        ? { ...view, type: detail }
+        : view;
+}
+
+/** Element, boundary and relationship macros shared by Mermaid C4 and C4-PlantUML */
+export function generateC4Macros(c4: IRC4Diagram, viewType: C4ViewType, format: 'mermaid' | 'plantuml'): string[] {
+    // Deployment elements only appear on deployment diagrams
+    const elements = viewType === 'deployment'
+        ? c4.elements
+        : c4.elements.filter(element => !isC4DeploymentElement(element.kind));
+    const byId = new Map(c4.elements.map(element => [element.id, element]));
+    const included = new Set(elements.map(element => element.id));
+    const quote = (text: string) => `"${(format === 'plantuml' ? text.replace(/\n/g, '\\n') : text.replace(/\n/g, ' ')).replace(/"/g, "'")}"`;
+    const identifiers = buildIdentifierMap([...c4.groups, ...c4.elements]);
+    const ref = (id: string) => identifiers.get(id) ?? id;
+    const args = (values: (string | undefined)[], named: Record<string, string | undefined>, refs = 1) => {
+        while (values.length > refs && values[values.length - 1] === undefined) values.pop();
+        const parts = values.map((value, index) => index < refs ? ref(value!) : quote(value ?? ''));
+        for (const [key, value] of Object.entries(named)) {
+            if (value) parts.push(`$${key}=${quote(value)}`);
+        }
+        return parts.join(', ');
+    };
+    const named = (item: { tags?: string[]; url?: string }) => ({
+        tags: format === 'plantuml' && item.tags?.length ? item.tags.join('+') : undefined,
+        link: item.url,
+    });
+
+    const lines: string[] = [];
+    const emit = (entries: C4TreeEntry[], depth: number) => {
+        const indent = '    '.repeat(depth);
+        for (const entry of entries) {
+            if ('group' in entry) {
+                const { group } = entry;
+                const macro = group.kind === 'enterprise' ? 'Enterprise_Boundary' : 'Boundary';
+                const type = group.kind === 'group' ? group.metadata?.boundaryType as string | undefined : undefined;
+                lines.push(`${indent}${macro}(${args([group.id, group.name, type], {})}) {`);
+                emit(entry.children, depth + 1);
+                lines.push(`${indent}}`);
+            } else if (entry.children.length > 0) {
+                lines.push(`${indent}${boundaryMacro(entry.element, args, named)} {`);
+                emit(entry.children, depth + 1);
+                lines.push(`${indent}}`);
+            } else {
+                lines.push(`${indent}${elementMacro(entry.element, byId, args, named)}`);
+            }
+        }
+    };
+    emit(buildC4Tree(c4, elements), 0);
+
+    const relationships = c4.relationships.filter(rel => included.has(rel.source) && included.has(rel.target));
+    for (const relationship of relationships) {
+        lines.push(relationshipMacro(relationship, viewType, format, args, named));
+    }
+    return lines;
+}
+
+// =============================================================================
+// Macro Generators
+// =============================================================================
+
+type ArgsFn = (values: (string | undefined)[], named: Record<string, string | undefined>, refs?: number) => string;
+type NamedFn = (item: { tags?: string[]; url?: string }) => Record<string, string | undefined>;
+
+/** Boundary block opening of an element with children */
+function boundaryMacro(element: IRC4Element, args: ArgsFn, named: NamedFn): string {
+    switch (element.kind) {
+        case 'softwareSystem':
+            return `System_Boundary(${args([element.id, element.name], named(element))})`;
+        case 'container':
+            return `Container_Boundary(${args([element.id, element.name], named(element))})`;
+        case 'deploymentNode':
+        case 'infrastructureNode':
+            return `Deployment_Node(${args([element.id, element.name, element.technology, element.description], named(element))})`;
+        default:
+            return `Boundary(${args([element.id, element.name], named(element))})`;
+    }
+}
+
+/** Element macro; instances are drawn as the element they deploy */
+function elementMacro(element: IRC4Element, byId: Map<string, IRC4Element>, args: ArgsFn, named: NamedFn): string {
+    const target = element.instanceOf ? byId.get(element.instanceOf) : undefined;
+    const source = target ?? element;
+    let macro = ELEMENT_MACROS[element.kind];
+    if (source.variant === 'database' && !isC4DeploymentElement(source.kind)) macro += 'Db';
+    if (source.variant === 'queue' && !isC4DeploymentElement(source.kind)) macro += 'Queue';
+    if (source.external && !isC4DeploymentElement(source.kind)) macro += '_Ext';
+
+    const withTechnology = macro.startsWith('Container') || macro.startsWith('Component')
+        || macro === 'Deployment_Node' || macro === 'Node';
+    const values = withTechnology
+        ? [element.id, element.name, source.technology, source.description]
+        : [element.id, element.name, source.description];
+    return `${macro}(${args(values, named(element))})`;
+}
+
+/** Rel, BiRel, directional Rel_X or RelIndex for dynamic diagrams */
+function relationshipMacro(
+    relationship: IRC4Relationship,
+    viewType: C4ViewType,
+    format: 'mermaid' | 'plantuml',
+    args: ArgsFn,
+    named: NamedFn
+): string {
+    const values = [relationship.source, relationship.target, relationship.description ?? '', relationship.technology];
+    if (viewType === 'dynamic' && relationship.order) {
+        return `RelIndex(${relationship.order}, ${args(values, named(relationship), 2)})`;
+    }
+    // Mermaid has no directional BiRel
+    const suffix = relationship.direction && !(relationship.bidirectional && format === 'mermaid')
+        ? DIRECTION_SUFFIXES[relationship.direction]
+        : '';
+    return `${relationship.bidirectional ? 'BiRel' : 'Rel'}${suffix}(${args(values, named(relationship), 2)})`;
+}
+
+/** Macro aliases must be plain identifiers; group names and hierarchical ids are rewritten */
+function buildIdentifierMap(items: { id: string }[]): Map<string, string> {
+    const map = new Map<string, string>();
+    const used = new Set<string>();
+    for (const { id } of items) {
+        const base = id.replace(/\W/g, '_').replace(/^(?=\d)/, '_') || '_';
+        let candidate = base;
+        for (let suffix = 1; used.has(candidate); suffix++) {
+            candidate = `${base}_${suffix}`;
+        }
+        used.add(candidate);
+        map.set(id, candidate);
+    }
+    return map;
+}
@@ -0,0 +1,134 @@
+/**
+ * Mermaid Class Diagram Generator
+ *
+ * Generates Mermaid classDiagram syntax from IR
+ *
+ * Output example:
+ *   classDiagram
+ *     class Duck {
+ *       <<interface>>
+ *       +String beakColor
+ *       +swim()
+ *     }
+ *     Animal <|-- Duck
+ */
+
+import type { Diagram, IRClass, IRClassDiagram, IRClassRelationship } from '../types';
+import {
+    CLASSIFIER_STEREOTYPE,
+    extractClassData,
+    formatClassAttribute,
+    formatClassOperation,
+    formatType,
+    generateClassArrow,
+    getClassRelationArrow,
+} from '../utils/class-diagram';
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate Mermaid classDiagram from IR */
+export function generateClassDiagram(diagram: Diagram): string {
+    const classDiagram = extractClassData(diagram.type === 'class' ? diagram : { ...diagram, type: 'class' })!;
+    return generateClassDiagramCode(classDiagram);
+}
+
+/** Generate Mermaid classDiagram from the structured class model */
+export function generateClassDiagramCode(classDiagram: IRClassDiagram): string {
+    const lines: string[] = ['classDiagram'];
+    const direction = classDiagram.direction;
+    if (direction && direction !== 'TB') {
+        lines.push(`    direction ${direction}`);
+    }
+
+    const ids = new Map(classDiagram.classes.map(c => [c.id, sanitizeClassId(c.id)]));
+
+    // Namespaces hold their member classes
+    const namespaces = new Map<string, IRClass[]>();
+    for (const cls of classDiagram.classes) {
+        if (cls.namespace) {
+            namespaces.set(cls.namespace, [...(namespaces.get(cls.namespace) ?? []), cls]);
+        }
+    }
+
+    for (const [namespace, members] of namespaces) {
+        lines.push(`    namespace ${sanitizeClassId(namespace)} {`);
+        for (const cls of members) {
+            lines.push(...generateClass(cls, ids.get(cls.id)!).map(l => `        ${l}`));
+        }
+        lines.push('    }');
+    }
+
+    for (const cls of classDiagram.classes) {
+        if (!cls.namespace) {
+            lines.push(...generateClass(cls, ids.get(cls.id)!).map(l => `    ${l}`));
+        }
+    }
+
+    for (const relationship of classDiagram.relationships) {
+        lines.push(`    ${generateRelation(relationship, ids)}`);
+    }
+
+    for (const note of classDiagram.notes ?? []) {
+        const text = escapeText(note.text).replace(/\n/g, '\\n');
+        lines.push(note.attachTo && ids.has(note.attachTo)
+            ? `    note for ${ids.get(note.attachTo)} "${text}"`
+            : `    note "${text}"`);
+    }
+
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate class declaration with optional body */
+function generateClass(cls: IRClass, id: string): string[] {
+    const annotation = cls.stereotype ?? (cls.kind !== 'class' ? CLASSIFIER_STEREOTYPE[cls.kind] : undefined);
+
+    let declaration = `class ${id}${cls.generic ? `~${formatType(cls.generic, 'mermaid')}~` : ''}`;
+    if (cls.label && cls.label !== id) {
+        declaration += `["${escapeText(cls.label)}"]`;
+    }
+
+    if (!annotation && cls.attributes.length === 0 && cls.operations.length === 0) {
+        return [declaration];
+    }
+
+    return [
+        `${declaration} {`,
+        ...(annotation ? [`    <<${annotation}>>`] : []),
+        ...cls.attributes.map(a => `    ${formatClassAttribute(a, 'mermaid')}`),
+        ...cls.operations.map(o => `    ${formatClassOperation(o, 'mermaid')}`),
+        '}',
+    ];
+}
+
+/** Generate relationship line */
+function generateRelation(relationship: IRClassRelationship, ids: Map<string, string>): string {
+    const { sourceCardinality, targetCardinality } = relationship;
+
+    let line = ids.get(relationship.source)!;
+    if (sourceCardinality !== undefined) line += ` "${sourceCardinality}"`;
+    line += ` ${generateClassArrow(getClassRelationArrow(relationship.kind, relationship.markerEnd))} `;
+    if (targetCardinality !== undefined) line += `"${targetCardinality}" `;
+    line += ids.get(relationship.target)!;
+
+    if (relationship.label) {
+        line += ` : ${relationship.label.replace(/\n/g, ' ')}`;
+    }
+    return line;
+}
+
+/** Make ID safe for Mermaid class names */
+function sanitizeClassId(id: string): string {
+    const sanitized = id.trim().replace(/[^\w.]/g, '_');
+    return /^\d/.test(sanitized) ? `_${sanitized}` : sanitized || 'Class';
+}
+
+/** Escape double quotes in labels */
+function escapeText(text: string): string {
+    return text.replace(/"/g, '#quot;');
+}
@@ -4,80 +4,168 @@
  * Generates D2 diagram code from IR
  */
 
-import type { Diagram, DiagramEdge, ArrowConfig } from '../types';
+import type { Diagram, DiagramEdge, DiagramGroup, DiagramNode, ArrowConfig, LayoutDirection } from '../types';
+import { buildParentMap } from '../utils/group-hierarchy';
+
+/** D2 generation options */
+export interface D2Options {
+    /** Diagram direction (default: the direction of the source, or right) */
+    direction?: LayoutDirection;
+}
 
 /** Generate D2 code from IR */
-export function generateD2(diagram: Diagram): string {
+export function generateD2(diagram: Diagram, options: D2Options = {}): string {
     const lines: string[] = [];
-    const direction = (diagram.metadata?.direction as string) || 'right';
+    const direction = options.direction || (diagram.metadata?.direction as string) || 'right';
 
     // Direction directive
-    if (direction === 'TB' || direction === 'down') {
-        lines.push('direction: down');
-    } else if (direction === 'BT' || direction === 'up') {
-        lines.push('direction: up');
-    } else if (direction === 'RL' || direction === 'left') {
-        lines.push('direction: left');
-    }
+    const directive = mapDirectionToD2(direction);
+    if (directive) lines.push(`direction: ${directive}`);
     // Default is right (LR)
 
     if (lines.length > 0) lines.push('');
 
-    // Track which nodes are in groups
-    const nodesInGroups = new Set<string>();
-    for (const group of diagram.groups) {
-        for (const childId of group.children) {
-            nodesInGroups.add(childId);
+    // Nested groups are written inside their parent; edges use full paths
+    const parents = buildParentMap(diagram.groups);
+    const keyOf = (id: string) => {
+        const parent = parents.get(id);
+        return quoteKey(parent && id.startsWith(`${parent}.`) ? id.slice(parent.length + 1) : id);
+    };
+    const pathOf = (id: string): string => {
+        const parent = parents.get(id);
+        return parent ? `${pathOf(parent)}.${keyOf(id)}` : keyOf(id);
+    };
+
+    const nodesById = new Map(diagram.nodes.map(node => [node.id, node]));
+    const groupsById = new Map(diagram.groups.map(group => [group.id, group]));
+
+    const writeNode = (node: DiagramNode, indent: string) => {
+        const attributes = nodeAttributes(node);
+        const label = `${indent}${keyOf(node.id)}: ${quoteValue(node.label)}`;
+        const fields = nodeFields(node);
+        if (fields.length > 0) {
+            lines.push(`${label} {`, ...[...attributes, ...fields].map(line => `${indent}  ${line}`), `${indent}}`);
+        } else {
+            lines.push(attributes.length > 0 ? `${label} { ${attributes.join('; ')} }` : label);
         }
-    }
+    };
 
-    // Generate groups with their nodes
-    for (const group of diagram.groups) {
-        lines.push(`${group.id}: ${group.label || group.id} {`);
+    const writeGroup = (group: DiagramGroup, indent: string) => {
+        lines.push(`${indent}${keyOf(group.id)}: ${quoteValue(group.label || group.id)} {`);
+        const groupDirection = mapDirectionToD2(group.metadata?.direction as string | undefined);
+        if (groupDirection) lines.push(`${indent}  direction: ${groupDirection}`);
+        for (const attribute of groupAttributes(group)) {
+            lines.push(`${indent}  ${attribute}`);
+        }
 
         for (const childId of group.children) {
-            const node = diagram.nodes.find(n => n.id === childId);
-            if (node) {
-                const shape = mapShapeToD2(node.shape);
-                if (shape) {
-                    lines.push(`  ${node.id}: ${node.label} { shape: ${shape} }`);
-                } else {
-                    lines.push(`  ${node.id}: ${node.label}`);
-                }
+            if (parents.get(childId) !== group.id) continue;
+            const child = groupsById.get(childId);
+            if (child) {
+                writeGroup(child, `${indent}  `);
+            } else {
+                const node = nodesById.get(childId);
+                if (node) writeNode(node, `${indent}  `);
             }
         }
 
-        lines.push('}');
-        lines.push('');
+        lines.push(`${indent}}`);
+        if (!indent) lines.push('');
+    };
+
+    // Generate groups with their nodes
+    for (const group of diagram.groups) {
+        if (!parents.has(group.id)) writeGroup(group, '');
     }
 
     // Generate standalone nodes
     for (const node of diagram.nodes) {
-        if (nodesInGroups.has(node.id)) continue;
-
-        const shape = mapShapeToD2(node.shape);
-        if (shape) {
-            lines.push(`${node.id}: ${node.label} { shape: ${shape} }`);
-        } else {
-            lines.push(`${node.id}: ${node.label}`);
-        }
+        if (!parents.has(node.id)) writeNode(node, '');
     }
 
     if (diagram.nodes.length > 0) lines.push('');
 
-    // Generate edges
-    for (const edge of diagram.edges) {
+    // Generate edges, including connections to containers
+    const containerEdges = (diagram.metadata?.containerEdges as DiagramEdge[] | undefined) ?? [];
+    for (const edge of [...diagram.edges, ...containerEdges]) {
         const arrow = generateD2Arrow(edge.arrow);
-        if (edge.label) {
-            lines.push(`${edge.source} ${arrow} ${edge.target}: ${edge.label}`);
-        } else {
-            lines.push(`${edge.source} ${arrow} ${edge.target}`);
-        }
+        const source = edge.metadata?.sourceColumn ? `${pathOf(edge.source)}.${quoteKey(edge.metadata.sourceColumn as string)}` : pathOf(edge.source);
+        const target = edge.metadata?.targetColumn ? `${pathOf(edge.target)}.${quoteKey(edge.metadata.targetColumn as string)}` : pathOf(edge.target);
+        const connection = `${source} ${arrow} ${target}`;
+        const attributes = edgeAttributes(edge);
+        const value = edge.label ? `: ${quoteValue(edge.label)}` : attributes.length > 0 ? ':' : '';
+        lines.push(attributes.length > 0 ? `${connection}${value} { ${attributes.join('; ')} }` : `${connection}${value}`);
     }
 
     return lines.join('\n');
 }
 
+function mapDirectionToD2(direction: string | undefined): string | undefined {
+    if (direction === 'TB' || direction === 'down') return 'down';
+    if (direction === 'BT' || direction === 'up') return 'up';
+    if (direction === 'RL' || direction === 'left') return 'left';
+    return undefined;
+}
+
+/** Shape and style of a node as `key: value` attributes */
+function nodeAttributes(node: DiagramNode): string[] {
+    const attributes: string[] = [];
+    const shape = (node.metadata?.d2Shape as string | undefined) ?? mapShapeToD2(node.shape);
+    if (shape) attributes.push(`shape: ${shape}`);
+
+    const { style } = node;
+    if (style.fill) attributes.push(`style.fill: ${quoteValue(style.fill)}`);
+    if (style.stroke) attributes.push(`style.stroke: ${quoteValue(style.stroke)}`);
+    if (style.strokeWidth !== undefined) attributes.push(`style.stroke-width: ${style.strokeWidth}`);
+    if (style.fontColor) attributes.push(`style.font-color: ${quoteValue(style.fontColor)}`);
+    if (style.opacity !== undefined) attributes.push(`style.opacity: ${style.opacity}`);
+    return attributes;
+}
+
+/** Columns of sql_table shapes and members of class shapes */
+function nodeFields(node: DiagramNode): string[] {
+    const columns = node.metadata?.columns as { name: string; type?: string; constraints?: string[] }[] | undefined;
+    const members = node.metadata?.members as { name: string; type?: string; visibility?: string }[] | undefined;
+    const fields: string[] = [];
+    for (const column of columns ?? []) {
+        const field = column.type ? `${quoteKey(column.name)}: ${quoteValue(column.type)}` : quoteKey(column.name);
+        const constraints = column.constraints ?? [];
+        fields.push(constraints.length === 0 ? field
+            : `${field} { constraint: ${constraints.length === 1 ? constraints[0] : `[${constraints.join('; ')}]`} }`);
+    }
+    for (const member of members ?? []) {
+        const name = quoteKey(`${member.visibility ?? ''}${member.name}`);
+        fields.push(member.type ? `${name}: ${quoteValue(member.type)}` : name);
+    }
+    return fields;
+}
+
+/** D2 has no dashed connection operator; the dash is a style */
+function edgeAttributes(edge: DiagramEdge): string[] {
+    return edge.arrow.lineType === 'dashed' ? ['style.stroke-dash: 3'] : [];
+}
+
+function groupAttributes(group: DiagramGroup): string[] {
+    const attributes: string[] = [];
+    const { style } = group;
+    if (style.fill) attributes.push(`style.fill: ${quoteValue(style.fill)}`);
+    if (style.stroke) attributes.push(`style.stroke: ${quoteValue(style.stroke)}`);
+    return attributes;
+}
+
+/** Keys with D2 syntax characters are double-quoted */
+function quoteKey(key: string): string {
+    return /^\w+(?:-\w+)*$/.test(key) ? key : `"${key.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+}
+
+function quoteValue(value: string): string {
+    const plain = value.trim() === value
+        && !/[;{}|\n"'[\]@]|\s#|\$\{/.test(value)
+        && !value.startsWith('#')
+        && value !== 'null';
+    return plain && value ? value : `"${value.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+}
+
 function mapShapeToD2(shape: string): string | null {
     const shapeMap: Record<string, string> = {
         'rectangle': 'rectangle',
@@ -99,12 +187,6 @@ function generateD2Arrow(arrow: ArrowConfig): string {
     const hasSource = arrow.sourceType !== 'none';
     const hasTarget = arrow.targetType !== 'none';
 
-    if (arrow.lineType === 'dashed') {
-        if (hasSource && hasTarget) return '<-->';
-        if (hasSource) return '<--';
-        return '-->';
-    }
-
     if (hasSource && hasTarget) return '<->';
     if (hasSource) return '<-';
     if (!hasTarget) return '--';
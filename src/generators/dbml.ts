@@ -0,0 +1,137 @@
+/**
+ * DBML Generator
+ *
+ * Generates Database Markup Language (dbdiagram.io) from ER diagrams
+ *
+ * Output example:
+ *   Table CUSTOMER {
+ *     id int [pk]
+ *     name string [note: 'Full name']
+ *   }
+ *
+ *   Table ORDER {
+ *     orderNumber int [pk]
+ *     customer_id int [not null]
+ *   }
+ *
+ *   Ref: ORDER.customer_id > CUSTOMER.id // places
+ *
+ * Foreign key columns are inferred as for SQL (see resolveERSchema);
+ * many-to-many relationships use DBML's `<>` reference between the keys.
+ */
+
+import type { Diagram } from '../types';
+import type { IRERDiagram } from '../types/er';
+import type { ERColumn, ERTable } from '../utils/er';
+import { extractERData, primaryKeyColumns, resolveERSchema } from '../utils/er';
+import { convertToERFormat } from './er-generator';
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate DBML from an ER diagram; other diagrams are read as ER first */
+export function generateDBML(diagram: Diagram): string {
+    const erDiagram = extractERData(diagram.type === 'er' ? diagram : convertToERFormat(diagram))!;
+    return generateDBMLCode(erDiagram);
+}
+
+/** Generate DBML from the ER model */
+export function generateDBMLCode(erDiagram: IRERDiagram): string {
+    const schema = resolveERSchema(erDiagram);
+    const tables = new Map(schema.tables.map(table => [table.entity.id, table]));
+    const blocks: string[] = [];
+
+    if (erDiagram.title) {
+        blocks.push(`// ${erDiagram.title}`);
+    }
+    for (const table of schema.tables) {
+        blocks.push(generateTable(table));
+    }
+
+    const refs: string[] = [];
+    for (const fk of schema.foreignKeys) {
+        const from = columnRef(tables.get(fk.table)!, fk.columns);
+        const to = columnRef(tables.get(fk.referencedTable)!, fk.referencedColumns);
+        refs.push(withComment(`Ref: ${from} ${fk.oneToOne ? '-' : '>'} ${to}`, fk.relationship.label));
+    }
+    for (const rel of schema.manyToMany) {
+        const source = tables.get(rel.source)!;
+        const target = tables.get(rel.target)!;
+        const from = columnRef(source, primaryKeyColumns(source).map(key => key.name));
+        const to = columnRef(target, primaryKeyColumns(target).map(key => key.name));
+        refs.push(withComment(`Ref: ${from} <> ${to}`, rel.label));
+    }
+    if (refs.length > 0) {
+        blocks.push(refs.join('\n'));
+    }
+
+    return blocks.join('\n\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Table block with columns and a composite primary key index */
+function generateTable(table: ERTable): string {
+    const lines = [`Table ${quoteName(table.entity.name)} {`];
+    const keys = primaryKeyColumns(table);
+
+    for (const column of table.columns) {
+        const settings = columnSettings(column, keys.length === 1);
+        lines.push(`  ${quoteName(column.name)} ${quoteType(column.type)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`);
+    }
+
+    if (keys.length > 1) {
+        lines.push('', '  indexes {', `    (${keys.map(key => quoteName(key.name)).join(', ')}) [pk]`, '  }');
+    }
+
+    lines.push('}');
+    return lines.join('\n');
+}
+
+/** Column settings: pk, not null, unique, note */
+function columnSettings(column: ERColumn, inlinePrimaryKey: boolean): string[] {
+    const settings: string[] = [];
+    if (column.primaryKey && inlinePrimaryKey) {
+        settings.push('pk');
+    } else if (column.notNull) {
+        settings.push('not null');
+    }
+    if (column.unique && !column.primaryKey) {
+        settings.push('unique');
+    }
+    if (column.comment) {
+        settings.push(`note: '${column.comment.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`);
+    }
+    return settings;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/** `table.column` or `table.(a, b)` */
+function columnRef(table: ERTable, columns: string[]): string {
+    const name = quoteName(table.entity.name);
+    if (columns.length === 1) {
+        return `${name}.${quoteName(columns[0])}`;
+    }
+    return `${name}.(${columns.map(quoteName).join(', ')})`;
+}
+
+/** Append a relationship label as a line comment */
+function withComment(line: string, comment?: string): string {
+    return comment ? `${line} // ${comment.replace(/\s*\n\s*/g, ' ')}` : line;
+}
+
+/** Quote table and column names that are not plain words */
+function quoteName(name: string): string {
+    return /^\w+$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`;
+}
+
+/** Quote types containing spaces (`double precision`) */
+function quoteType(type: string): string {
+    return /\s/.test(type) ? `"${type}"` : type;
+}
@@ -4,12 +4,18 @@
  * Generates DOT language from IR
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape, ArrowConfig } from '../types';
+import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape, ArrowConfig, LayoutDirection } from '../types';
+
+/** DOT generation options */
+export interface DotOptions {
+    /** Graph rankdir (default: the direction of the source, or TB) */
+    direction?: LayoutDirection;
+}
 
 /** Generate DOT from IR diagram */
-export function generateDot(diagram: Diagram): string {
+export function generateDot(diagram: Diagram, options: DotOptions = {}): string {
     const lines: string[] = [];
-    const direction = (diagram.metadata?.direction as string) || 'TB';
+    const direction = options.direction || (diagram.metadata?.direction as string) || 'TB';
 
     // Header
     lines.push('digraph G {');
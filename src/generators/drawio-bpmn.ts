@@ -0,0 +1,192 @@
+/**
+ * Draw.io BPMN generator
+ *
+ * Generates Draw.io BPMN 2.0 shapes: pools and lanes are horizontal
+ * swimlane containers holding their elements, activities, events and
+ * gateways use the mxgraph.bpmn shapes with their task, event and gateway
+ * markers, and flows are styled by sequence, message or association type
+ */
+
+import type { Diagram } from '../types';
+import type { BpmnBounds, BpmnEventDefinitionType, BpmnFlowType, IRBpmnElement } from '../types/bpmn';
+import { isBpmnEvent, isBpmnGateway, isBpmnSubProcess } from '../types/bpmn';
+import { escapeXml, extractBpmnData } from '../utils';
+import { layoutBpmnDiagram, type BpmnLayoutOptions } from '../layout/bpmn';
+import { compressDrawio, type DrawioOptions } from './drawio';
+
+const POOL_STYLE = 'swimlane;html=1;horizontal=0;startSize=30;whiteSpace=wrap;container=1;collapsible=0;fillColor=#ffffff;';
+const BLACK_BOX_STYLE = 'shape=rect;html=1;whiteSpace=wrap;fontStyle=1;fillColor=#ffffff;';
+const LANE_STYLE = 'swimlane;html=1;horizontal=0;startSize=30;whiteSpace=wrap;container=1;collapsible=0;swimlaneLine=0;fillColor=none;';
+const TASK_STYLE = 'shape=ext;rounded=1;html=1;whiteSpace=wrap;arcSize=10;fillColor=#ffffff;strokeColor=#000000;';
+
+const FLOW_STYLES: Record<BpmnFlowType, string> = {
+    'sequenceFlow': 'edgeStyle=orthogonalEdgeStyle;html=1;rounded=0;endArrow=block;endFill=1;',
+    'messageFlow': 'html=1;rounded=0;dashed=1;dashPattern=8 4;startArrow=oval;startFill=0;endArrow=block;endFill=0;',
+    'association': 'html=1;rounded=0;dashed=1;dashPattern=1 4;endArrow=none;',
+    'dataInputAssociation': 'html=1;rounded=0;dashed=1;dashPattern=1 4;endArrow=open;endFill=0;',
+    'dataOutputAssociation': 'html=1;rounded=0;dashed=1;dashPattern=1 4;endArrow=open;endFill=0;',
+};
+
+/** Task type markers known to the mxgraph.bpmn task shape */
+const TASK_MARKERS: Record<string, string> = {
+    userTask: 'user',
+    serviceTask: 'service',
+    scriptTask: 'script',
+    manualTask: 'manual',
+    businessRuleTask: 'businessRule',
+    sendTask: 'send',
+    receiveTask: 'receive',
+};
+
+/** Event symbols known to the mxgraph.bpmn event shape */
+const EVENT_SYMBOLS: Record<BpmnEventDefinitionType, string> = {
+    message: 'message',
+    timer: 'timer',
+    error: 'error',
+    signal: 'signal',
+    escalation: 'escalation',
+    conditional: 'conditional',
+    compensate: 'compensation',
+    cancel: 'cancel',
+    link: 'link',
+    terminate: 'terminate',
+};
+
+const GATEWAY_TYPES: Record<string, string> = {
+    exclusiveGateway: 'exclusive',
+    parallelGateway: 'parallel',
+    inclusiveGateway: 'inclusive',
+    eventBasedGateway: 'eventBased',
+    complexGateway: 'complex',
+};
+
+/** BPMN Draw.io generation options */
+export interface BpmnDrawioOptions extends BpmnLayoutOptions, DrawioOptions {}
+
+/** Generate Draw.io XML from a BPMN diagram */
+export function generateBpmnDrawio(diagram: Diagram, options: BpmnDrawioOptions = {}): string {
+    const bpmn = extractBpmnData(diagram.type === 'bpmn' ? diagram : { ...diagram, type: 'bpmn' })!;
+    // Positions from other notations know nothing of pools and lanes
+    const layout = layoutBpmnDiagram(bpmn, { keepPartialBounds: diagram.type === 'bpmn', ...options });
+    const cells: string[] = [];
+    let cellId = 2; // 0 and 1 are reserved
+    const html = (text: string) => escapeXml(text).replace(/\n/g, '&lt;br&gt;');
+
+    if (layout.title) {
+        cells.push(`<mxCell id="${cellId++}" value="${html(layout.title)}" style="text;html=1;align=center;verticalAlign=middle;fontStyle=1;fontSize=16;" vertex="1" parent="1">
+          <mxGeometry x="0" y="${options.marginY ?? 20}" width="${layout.width}" height="30" as="geometry"/>
+        </mxCell>`);
+    }
+
+    // Children are placed relative to their container cell
+    const cellIds = new Map<string, number>();
+    const boxes = new Map<string, BpmnBounds>();
+    const vertex = (id: string, value: string, style: string, box: BpmnBounds, container?: string) => {
+        const cell = cellId++;
+        cellIds.set(id, cell);
+        boxes.set(id, box);
+        const parent = container ? boxes.get(container) : undefined;
+        const parentCell = container ? cellIds.get(container) ?? 1 : 1;
+        const x = parent ? box.x - parent.x : box.x;
+        const y = parent ? box.y - parent.y : box.y;
+        cells.push(`<mxCell id="${cell}" value="${value}" style="${style}" vertex="1" parent="${parentCell}">
+          <mxGeometry x="${round(x)}" y="${round(y)}" width="${round(box.width)}" height="${round(box.height)}" as="geometry"/>
+        </mxCell>`);
+    };
+
+    for (const box of layout.pools) {
+        vertex(box.pool.id, html(box.pool.name ?? ''), box.pool.processId ? POOL_STYLE : BLACK_BOX_STYLE, box);
+    }
+    for (const box of layout.lanes) {
+        vertex(box.lane.id, html(box.lane.name ?? ''), LANE_STYLE, box, box.parent ?? box.poolId);
+    }
+    for (const box of layout.shapes) {
+        vertex(box.element.id, html(box.element.name ?? ''), elementStyle(box.element, box.height), box, box.container);
+    }
+
+    for (const path of layout.flows) {
+        const source = cellIds.get(path.flow.source);
+        const target = cellIds.get(path.flow.target);
+        if (source === undefined || target === undefined) continue;
+
+        const inner = path.points.slice(1, -1);
+        const waypoints = inner.length > 0
+            ? `
+            <Array as="points">${inner.map(p => `<mxPoint x="${round(p.x)}" y="${round(p.y)}"/>`).join('')}</Array>`
+            : '';
+        cells.push(`<mxCell id="${cellId++}" value="${html(path.flow.name ?? '')}" style="${FLOW_STYLES[path.flow.type]}" edge="1" parent="1" source="${source}" target="${target}">
+          <mxGeometry relative="1" as="geometry">${waypoints}
+          </mxGeometry>
+        </mxCell>`);
+    }
+
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="WB Diagrams" modified="${new Date().toISOString()}" agent="WB Diagrams Converter" version="1.0" pages="1">
+  <diagram id="${escapeXml(diagram.id)}" name="${escapeXml(diagram.name || 'Page-1')}">
+    <mxGraphModel dx="0" dy="0" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="${Math.max(850, layout.width)}" pageHeight="${Math.max(1100, layout.height)}">
+      <root>
+        <mxCell id="0"/>
+        <mxCell id="1" parent="0"/>
+        ${cells.join('\n        ')}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+    return options.compressed ? compressDrawio(xml) : xml;
+}
+
+/** Cell style for a placed element */
+function elementStyle(element: IRBpmnElement, height: number): string {
+    if (isBpmnEvent(element.type)) {
+        const definition = element.eventDefinitions?.[0]?.type;
+        const symbol = definition ? EVENT_SYMBOLS[definition] : 'general';
+        let outline: string;
+        switch (element.type) {
+            case 'startEvent':
+                outline = element.cancelActivity === false ? 'eventNonint' : 'standard';
+                break;
+            case 'endEvent':
+                outline = 'end';
+                break;
+            case 'intermediateThrowEvent':
+                outline = 'throwing';
+                break;
+            case 'boundaryEvent':
+                outline = element.cancelActivity === false ? 'boundNonint' : 'boundInt';
+                break;
+            default:
+                outline = 'catching';
+        }
+        return `shape=mxgraph.bpmn.event;html=1;verticalLabelPosition=bottom;labelBackgroundColor=#ffffff;verticalAlign=top;align=center;perimeter=ellipsePerimeter;outlineConnect=0;aspect=fixed;outline=${outline};symbol=${symbol};`;
+    }
+    if (isBpmnGateway(element.type)) {
+        return `shape=mxgraph.bpmn.gateway2;html=1;verticalLabelPosition=top;labelBackgroundColor=#ffffff;verticalAlign=bottom;align=center;perimeter=rhombusPerimeter;outlineConnect=0;outline=none;symbol=none;gwType=${GATEWAY_TYPES[element.type]};`;
+    }
+    switch (element.type) {
+        case 'dataObjectReference':
+            return 'shape=mxgraph.bpmn.data;html=1;whiteSpace=wrap;labelPosition=center;verticalLabelPosition=bottom;align=center;verticalAlign=top;size=15;';
+        case 'dataStoreReference':
+            return 'shape=datastore;html=1;whiteSpace=wrap;labelPosition=center;verticalLabelPosition=bottom;align=center;verticalAlign=top;';
+        case 'textAnnotation':
+            return 'shape=partialRectangle;html=1;whiteSpace=wrap;top=0;bottom=0;right=0;align=left;spacingLeft=6;fillColor=none;';
+    }
+    if (isBpmnSubProcess(element.type) && element.expanded !== false && height > 80) {
+        const border = element.type === 'transaction' ? 'double=1;' : element.triggeredByEvent ? 'dashed=1;' : '';
+        return `${TASK_STYLE}container=1;collapsible=0;verticalAlign=top;align=left;spacingLeft=10;fontStyle=1;${border}`;
+    }
+    if (isBpmnSubProcess(element.type)) {
+        return `${TASK_STYLE}isLoopSub=1;`;
+    }
+    if (element.type === 'callActivity') {
+        return `${TASK_STYLE}strokeWidth=3;`;
+    }
+    const marker = TASK_MARKERS[element.type];
+    return marker
+        ? `shape=mxgraph.bpmn.task;html=1;whiteSpace=wrap;rounded=1;taskMarker=${marker};fillColor=#ffffff;`
+        : TASK_STYLE;
+}
+
+/** Round a coordinate for compact output */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
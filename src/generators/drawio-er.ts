@@ -0,0 +1,99 @@
+/**
+ * Draw.io ER generator
+ *
+ * Generates Draw.io entity tables: each entity is a swimlane container
+ * with one text row per attribute, and relationships are entity-relation
+ * edges with Draw.io's crow's foot (ER*) arrow heads
+ */
+
+import type { Diagram } from '../types';
+import type { ERCardinality } from '../types/er';
+import { escapeXml } from '../utils';
+import { extractERData } from '../utils/er';
+import { layoutERDiagram, type ERLayoutOptions } from '../layout/er';
+import { convertToERFormat } from './er-generator';
+import { compressDrawio, type DrawioOptions } from './drawio';
+
+/** Draw.io arrow heads per cardinality */
+const ER_ARROWS: Record<ERCardinality, string> = {
+    'exactly-one': 'ERmandOne',
+    'zero-or-one': 'ERzeroToOne',
+    'one-or-more': 'ERoneToMany',
+    'zero-or-more': 'ERzeroToMany',
+};
+
+const TABLE_STYLE = 'swimlane;fontStyle=1;childLayout=stackLayout;horizontal=1;horizontalStack=0;resizeParent=1;resizeParentMax=0;resizeLast=0;collapsible=0;marginBottom=0;html=1;whiteSpace=wrap;fillColor=#dae8fc;strokeColor=#333333;swimlaneFillColor=#ffffff;';
+const ROW_STYLE = 'text;strokeColor=none;fillColor=none;align=left;verticalAlign=middle;spacingLeft=6;spacingRight=4;overflow=hidden;rotatable=0;points=[[0,0.5],[1,0.5]];portConstraint=eastwest;html=1;whiteSpace=wrap;';
+const RELATIONSHIP_STYLE = 'edgeStyle=entityRelationEdgeStyle;html=1;endFill=0;startFill=0;fontStyle=2;';
+
+/** ER Draw.io generation options */
+export interface ERDrawioOptions extends ERLayoutOptions, DrawioOptions {}
+
+/** Generate Draw.io XML from an ER diagram */
+export function generateERDrawio(diagram: Diagram, options: ERDrawioOptions = {}): string {
+    const erDiagram = extractERData(diagram.type === 'er' ? diagram : convertToERFormat(diagram))!;
+    const layout = layoutERDiagram(erDiagram, options);
+    const cells: string[] = [];
+    let cellId = 2; // 0 and 1 are reserved
+
+    if (layout.title) {
+        cells.push(`<mxCell id="${cellId++}" value="${escapeXml(layout.title)}" style="text;html=1;align=center;verticalAlign=middle;fontStyle=1;fontSize=16;" vertex="1" parent="1">
+          <mxGeometry x="0" y="${options.marginY ?? 20}" width="${layout.width}" height="30" as="geometry"/>
+        </mxCell>`);
+    }
+
+    // Rows are placed relative to their table
+    const tableCells = new Map<string, number>();
+    for (const table of layout.tables) {
+        const tableId = cellId++;
+        tableCells.set(table.entity.id, tableId);
+        cells.push(`<mxCell id="${tableId}" value="${escapeXml(table.entity.name)}" style="${TABLE_STYLE}startSize=${table.headerHeight};" vertex="1" parent="1">
+          <mxGeometry x="${round(table.x)}" y="${round(table.y)}" width="${round(table.width)}" height="${round(table.height)}" as="geometry"/>
+        </mxCell>`);
+
+        for (const row of table.rows) {
+            const { name, type, keyType } = row.attribute;
+            const value = `${row.key ? `${row.key} ` : ''}${name}: ${type}`;
+            const fontStyle = keyType === 'pk' ? 'fontStyle=4;' : '';
+            cells.push(`<mxCell id="${cellId++}" value="${escapeXml(value)}" style="${ROW_STYLE}${fontStyle}" vertex="1" parent="${tableId}">
+          <mxGeometry y="${round(row.y)}" width="${round(table.width)}" height="${table.rowHeight}" as="geometry"/>
+        </mxCell>`);
+        }
+    }
+
+    for (const path of layout.relationships) {
+        const { relationship } = path;
+        const source = tableCells.get(relationship.source);
+        const target = tableCells.get(relationship.target);
+        if (source === undefined || target === undefined) continue;
+
+        const style = [
+            RELATIONSHIP_STYLE,
+            `startArrow=${ER_ARROWS[relationship.sourceCardinality]};`,
+            `endArrow=${ER_ARROWS[relationship.targetCardinality]};`,
+            relationship.identifying === 'non-identifying' ? 'dashed=1;' : '',
+        ].join('');
+        cells.push(`<mxCell id="${cellId++}" value="${escapeXml(relationship.label ?? '')}" style="${style}" edge="1" parent="1" source="${source}" target="${target}">
+          <mxGeometry relative="1" as="geometry"/>
+        </mxCell>`);
+    }
+
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="WB Diagrams" modified="${new Date().toISOString()}" agent="WB Diagrams Converter" version="1.0" pages="1">
+  <diagram id="${escapeXml(diagram.id)}" name="${escapeXml(diagram.name || 'Page-1')}">
+    <mxGraphModel dx="0" dy="0" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="${Math.max(850, layout.width)}" pageHeight="${Math.max(1100, layout.height)}">
+      <root>
+        <mxCell id="0"/>
+        <mxCell id="1" parent="0"/>
+        ${cells.join('\n        ')}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+    return options.compressed ? compressDrawio(xml) : xml;
+}
+
+/** Round a coordinate for compact output */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,160 @@
+/**
+ * Draw.io sequence generator
+ *
+ * Generates Draw.io UML sequence shapes: umlLifeline participants,
+ * activation bars inside the lifelines, messages pinned to lifeline
+ * heights, umlFrame fragments and notes
+ */
+
+import type { Diagram, IRMessage, ParticipantType } from '../types';
+import { escapeXml } from '../utils';
+import { extractSequenceData } from '../parsers/sequence-parser';
+import { layoutSequenceDiagram, type SequenceLayoutOptions } from '../layout/sequence';
+import { compressDrawio, type DrawioOptions } from './drawio';
+
+/** Draw.io lifeline head by participant type */
+const LIFELINE_PARTICIPANTS: Partial<Record<ParticipantType, string>> = {
+    actor: 'umlActor',
+    boundary: 'umlBoundary',
+    control: 'umlControl',
+    entity: 'umlEntity',
+};
+
+const LIFELINE_STYLE = 'shape=umlLifeline;perimeter=lifelinePerimeter;whiteSpace=wrap;html=1;container=1;dropTarget=0;collapsible=0;recursiveResize=0;outlineConnect=0;portConstraint=eastwest;newEdgeStyle={"curved":0,"rounded":0};fillColor=#dae8fc;strokeColor=#6c8ebf;';
+const ACTIVATION_STYLE = 'html=1;points=[];perimeter=orthogonalPerimeter;outlineConnect=0;targetShapes=umlLifeline;portConstraint=eastwest;fillColor=#f5f5f5;strokeColor=#666666;';
+const NOTE_STYLE = 'shape=note;whiteSpace=wrap;html=1;size=14;verticalAlign=top;align=left;spacingLeft=4;fillColor=#fff2cc;strokeColor=#d6b656;';
+const FRAME_STYLE = 'shape=umlFrame;whiteSpace=wrap;html=1;pointerEvents=0;recursiveResize=0;container=0;collapsible=0;';
+
+/** Sequence Draw.io generation options */
+export interface SequenceDrawioOptions extends SequenceLayoutOptions, DrawioOptions {}
+
+/** Generate Draw.io XML with lifelines from a sequence diagram */
+export function generateSequenceDrawio(diagram: Diagram, options: SequenceDrawioOptions = {}): string {
+    const sequence = extractSequenceData(diagram.type === 'sequence' ? diagram : { ...diagram, type: 'sequence' })!;
+    const layout = layoutSequenceDiagram(sequence, options);
+    const cells: string[] = [];
+    let cellId = 2; // 0 and 1 are reserved
+    const html = (text: string) => escapeXml(text).replace(/\n/g, '&lt;br&gt;');
+
+    if (layout.title) {
+        cells.push(`<mxCell id="${cellId++}" value="${html(layout.title)}" style="text;html=1;align=center;verticalAlign=middle;fontStyle=1;fontSize=16;" vertex="1" parent="1">
+          <mxGeometry x="0" y="${options.marginY ?? 20}" width="${layout.width}" height="30" as="geometry"/>
+        </mxCell>`);
+    }
+
+    for (const frame of layout.fragments) {
+        const isGroup = frame.block.type === 'group' || frame.block.type === 'rect';
+        const header = isGroup ? frame.block.label ?? '' : frame.block.type;
+        const fill = frame.block.type === 'rect' ? 'fillColor=#f0f0f0;' : 'fillColor=none;';
+        cells.push(`<mxCell id="${cellId++}" value="${html(header)}" style="${FRAME_STYLE}${fill}width=${Math.max(50, header.length * 9 + 20)};height=20;" vertex="1" parent="1">
+          <mxGeometry x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${frame.height}" as="geometry"/>
+        </mxCell>`);
+        if (frame.block.label && !isGroup) {
+            cells.push(textCell(cellId++, `[${frame.block.label}]`, frame.x + header.length * 9 + 30, frame.y, html));
+        }
+        for (const section of frame.sections) {
+            cells.push(`<mxCell id="${cellId++}" value="" style="endArrow=none;dashed=1;html=1;strokeColor=#666666;" edge="1" parent="1">
+          <mxGeometry relative="1" as="geometry">
+            <mxPoint x="${frame.x}" y="${section.y}" as="sourcePoint"/>
+            <mxPoint x="${frame.x + frame.width}" y="${section.y}" as="targetPoint"/>
+          </mxGeometry>
+        </mxCell>`);
+            if (section.label) {
+                cells.push(textCell(cellId++, `[${section.label}]`, frame.x + 6, section.y, html));
+            }
+        }
+    }
+
+    const lifelineIds = new Map<string, number>();
+    const lifelineBoxes = new Map(layout.participants.map(box => [box.participant.id, box]));
+    for (const box of layout.participants) {
+        const id = cellId++;
+        lifelineIds.set(box.participant.id, id);
+        const head = LIFELINE_PARTICIPANTS[box.participant.type];
+        const style = `${LIFELINE_STYLE}${head ? `participant=${head};` : ''}size=${box.height};`;
+        cells.push(`<mxCell id="${id}" value="${html(box.participant.label)}" style="${style}" vertex="1" parent="1">
+          <mxGeometry x="${box.x}" y="${box.y}" width="${box.width}" height="${box.lifelineEnd - box.y}" as="geometry"/>
+        </mxCell>`);
+    }
+
+    // Activation bars are children of their lifeline, so geometry is relative
+    for (const bar of layout.activations) {
+        const box = lifelineBoxes.get(bar.participant);
+        if (!box) continue;
+        cells.push(`<mxCell id="${cellId++}" value="" style="${ACTIVATION_STYLE}" vertex="1" parent="${lifelineIds.get(bar.participant)}">
+          <mxGeometry x="${bar.x - box.x}" y="${bar.y - box.y}" width="${bar.width}" height="${bar.height}" as="geometry"/>
+        </mxCell>`);
+    }
+
+    for (const line of layout.messages) {
+        const source = lifelineBoxes.get(line.message.from);
+        const target = lifelineBoxes.get(line.message.to);
+        if (!source || !target) continue;
+
+        const label = line.number !== undefined ? `${line.number}. ${line.message.label}` : line.message.label;
+        const exitY = (line.y - source.y) / (source.lifelineEnd - source.y);
+        const entryY = (line.y + (line.self ? 20 : 0) - target.y) / (target.lifelineEnd - target.y);
+        const style = `${buildMessageStyle(line.message)}exitX=0.5;exitY=${round(exitY)};entryX=0.5;entryY=${round(entryY)};`;
+        const waypoints = line.self
+            ? `
+            <Array as="points"><mxPoint x="${line.x1 + 30}" y="${line.y}"/><mxPoint x="${line.x1 + 30}" y="${line.y + 20}"/></Array>`
+            : '';
+
+        cells.push(`<mxCell id="${cellId++}" value="${html(label)}" style="${style}" edge="1" parent="1" source="${lifelineIds.get(source.participant.id)}" target="${lifelineIds.get(target.participant.id)}">
+          <mxGeometry relative="1" as="geometry">
+            <mxPoint x="${line.x1}" y="${line.y}" as="sourcePoint"/>
+            <mxPoint x="${line.x2}" y="${line.y + (line.self ? 20 : 0)}" as="targetPoint"/>${waypoints}
+          </mxGeometry>
+        </mxCell>`);
+    }
+
+    for (const box of layout.notes) {
+        cells.push(`<mxCell id="${cellId++}" value="${html(box.note.text)}" style="${NOTE_STYLE}" vertex="1" parent="1">
+          <mxGeometry x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" as="geometry"/>
+        </mxCell>`);
+    }
+
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="WB Diagrams" modified="${new Date().toISOString()}" agent="WB Diagrams Converter" version="1.0" pages="1">
+  <diagram id="${escapeXml(diagram.id)}" name="${escapeXml(diagram.name || 'Page-1')}">
+    <mxGraphModel dx="0" dy="0" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="${Math.max(850, Math.ceil(layout.width))}" pageHeight="${Math.max(1100, Math.ceil(layout.height))}">
+      <root>
+        <mxCell id="0"/>
+        <mxCell id="1" parent="0"/>
+        ${cells.join('\n        ')}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+    return options.compressed ? compressDrawio(xml) : xml;
+}
+
+/** Build edge style for a message */
+function buildMessageStyle(message: IRMessage): string {
+    const parts = ['html=1', 'verticalAlign=bottom', 'curved=0', 'rounded=0'];
+    if (message.arrowType.startsWith('dotted')) {
+        parts.push('dashed=1');
+    }
+    if (message.arrowType.endsWith('cross')) {
+        parts.push('endArrow=cross');
+    } else if (message.arrowType === 'solid' || message.arrowType === 'dotted') {
+        parts.push('endArrow=none');
+    } else if (message.isAsync) {
+        parts.push('endArrow=open', 'endFill=0');
+    } else {
+        parts.push('endArrow=block', 'endFill=1');
+    }
+    return `${parts.join(';')};`;
+}
+
+/** Free text cell */
+function textCell(id: number, value: string, x: number, y: number, html: (text: string) => string): string {
+    return `<mxCell id="${id}" value="${html(value)}" style="text;html=1;align=left;verticalAlign=top;spacingLeft=4;" vertex="1" parent="1">
+          <mxGeometry x="${x}" y="${y}" width="${Math.max(60, value.length * 8)}" height="20" as="geometry"/>
+        </mxCell>`;
+}
+
+/** Round a relative coordinate */
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,138 @@
+/**
+ * Draw.io state generator
+ *
+ * Generates Draw.io UML state shapes: composite states are swimlane
+ * containers holding their child states, pseudo-states use the startState,
+ * endState, rhombus and bar shapes, and notes are linked to their state
+ */
+
+import type { Diagram, StateType } from '../types';
+import { escapeXml, extractStateData } from '../utils';
+import { layoutStateDiagram, type StateBox, type StateLayoutOptions } from '../layout/state';
+import { compressDrawio, type DrawioOptions } from './drawio';
+
+/** Styles for simple states and pseudo-states */
+const STATE_STYLES: Record<Exclude<StateType, 'composite'>, string> = {
+    'state': 'rounded=1;whiteSpace=wrap;html=1;arcSize=40;fillColor=#dae8fc;strokeColor=#6c8ebf;',
+    'start': 'ellipse;html=1;shape=startState;fillColor=#000000;strokeColor=#000000;',
+    'end': 'ellipse;html=1;shape=endState;fillColor=#000000;strokeColor=#000000;',
+    'fork': 'html=1;points=[];perimeter=orthogonalPerimeter;fillColor=#000000;strokeColor=none;',
+    'join': 'html=1;points=[];perimeter=orthogonalPerimeter;fillColor=#000000;strokeColor=none;',
+    'choice': 'rhombus;whiteSpace=wrap;html=1;fillColor=#ffffff;strokeColor=#000000;',
+    'history': 'ellipse;whiteSpace=wrap;html=1;fillColor=#ffffff;strokeColor=#000000;',
+    'deep-history': 'ellipse;whiteSpace=wrap;html=1;fillColor=#ffffff;strokeColor=#000000;',
+};
+
+const COMPOSITE_STYLE = 'swimlane;rounded=1;arcSize=10;html=1;whiteSpace=wrap;container=1;collapsible=0;fontStyle=1;fillColor=#f5f5f5;strokeColor=#666666;swimlaneFillColor=#ffffff;';
+const TRANSITION_STYLE = 'html=1;verticalAlign=bottom;endArrow=open;endSize=8;rounded=0;';
+const NOTE_STYLE = 'shape=note;whiteSpace=wrap;html=1;size=14;verticalAlign=top;align=left;spacingLeft=4;fillColor=#fff2cc;strokeColor=#d6b656;';
+
+/** State Draw.io generation options */
+export interface StateDrawioOptions extends StateLayoutOptions, DrawioOptions {}
+
+/** Generate Draw.io XML from a state diagram */
+export function generateStateDrawio(diagram: Diagram, options: StateDrawioOptions = {}): string {
+    const stateDiagram = extractStateData(diagram.type === 'state' ? diagram : { ...diagram, type: 'state' })!;
+    const layout = layoutStateDiagram(stateDiagram, options);
+    const cells: string[] = [];
+    let cellId = 2; // 0 and 1 are reserved
+    const html = (text: string) => escapeXml(text).replace(/\n/g, '&lt;br&gt;');
+
+    if (layout.title) {
+        cells.push(`<mxCell id="${cellId++}" value="${html(layout.title)}" style="text;html=1;align=center;verticalAlign=middle;fontStyle=1;fontSize=16;" vertex="1" parent="1">
+          <mxGeometry x="0" y="${options.marginY ?? 20}" width="${layout.width}" height="30" as="geometry"/>
+        </mxCell>`);
+    }
+
+    // Children are placed relative to their container cell
+    const cellIds = new Map<string, number>();
+    const boxes = new Map(layout.states.map(box => [box.state.id, box]));
+    for (const box of layout.states) {
+        const id = cellId++;
+        cellIds.set(box.state.id, id);
+        const container = box.parent ? boxes.get(box.parent) : undefined;
+        const parentCell = box.parent ? cellIds.get(box.parent) ?? 1 : 1;
+        const x = container ? box.x - container.x : box.x;
+        const y = container ? box.y - container.y : box.y;
+
+        cells.push(`<mxCell id="${id}" value="${stateValue(box, html)}" style="${stateStyle(box)}" vertex="1" parent="${parentCell}">
+          <mxGeometry x="${round(x)}" y="${round(y)}" width="${round(box.width)}" height="${round(box.height)}" as="geometry"/>
+        </mxCell>`);
+    }
+
+    for (const path of layout.transitions) {
+        const source = cellIds.get(path.transition.source);
+        const target = cellIds.get(path.transition.target);
+        if (source === undefined || target === undefined) continue;
+
+        const inner = path.points.slice(1, -1);
+        const waypoints = inner.length > 0
+            ? `
+            <Array as="points">${inner.map(p => `<mxPoint x="${round(p.x)}" y="${round(p.y)}"/>`).join('')}</Array>`
+            : '';
+        cells.push(`<mxCell id="${cellId++}" value="${html(path.label)}" style="${TRANSITION_STYLE}" edge="1" parent="1" source="${source}" target="${target}">
+          <mxGeometry relative="1" as="geometry">${waypoints}
+          </mxGeometry>
+        </mxCell>`);
+    }
+
+    for (const box of layout.notes) {
+        const noteId = cellId++;
+        cells.push(`<mxCell id="${noteId}" value="${html(box.note.text)}" style="${NOTE_STYLE}" vertex="1" parent="1">
+          <mxGeometry x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" as="geometry"/>
+        </mxCell>`);
+        const stateCell = cellIds.get(box.note.stateId);
+        if (stateCell !== undefined) {
+            cells.push(`<mxCell id="${cellId++}" value="" style="endArrow=none;dashed=1;html=1;" edge="1" parent="1" source="${noteId}" target="${stateCell}">
+          <mxGeometry relative="1" as="geometry"/>
+        </mxCell>`);
+        }
+    }
+
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="WB Diagrams" modified="${new Date().toISOString()}" agent="WB Diagrams Converter" version="1.0" pages="1">
+  <diagram id="${escapeXml(diagram.id)}" name="${escapeXml(diagram.name || 'Page-1')}">
+    <mxGraphModel dx="0" dy="0" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="${Math.max(850, layout.width)}" pageHeight="${Math.max(1100, layout.height)}">
+      <root>
+        <mxCell id="0"/>
+        <mxCell id="1" parent="0"/>
+        ${cells.join('\n        ')}
+      </root>
+    </mxGraphModel>
+  </diagram>
+</mxfile>`;
+    return options.compressed ? compressDrawio(xml) : xml;
+}
+
+/** Cell style for a placed state */
+function stateStyle(box: StateBox): string {
+    if (box.headerHeight > 0) {
+        return `${COMPOSITE_STYLE}startSize=${Math.round(box.headerHeight)};`;
+    }
+    return STATE_STYLES[box.state.type === 'composite' ? 'state' : box.state.type];
+}
+
+/** Cell value: name with actions below a rule; H / H* for history; empty for other pseudo-states */
+function stateValue(box: StateBox, html: (text: string) => string): string {
+    switch (box.state.type) {
+        case 'start':
+        case 'end':
+        case 'fork':
+        case 'join':
+        case 'choice':
+            return '';
+        case 'history':
+            return 'H';
+        case 'deep-history':
+            return 'H*';
+    }
+    if (box.actions.length === 0) {
+        return html(box.label);
+    }
+    return `${html(box.label)}&lt;hr&gt;${html(box.actions.join('\n'))}`;
+}
+
+/** Round a coordinate for compact output */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
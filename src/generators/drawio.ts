@@ -4,8 +4,15 @@
  * Generates mxGraph XML format from IR with beautiful modern styling
  */
 
+import pako from 'pako';
 import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape } from '../types';
-import { escapeXml, DRAWIO_SHAPE_MAP, generateDrawioArrowStyle } from '../utils';
+import { escapeXml, DRAWIO_SHAPE_MAP, generateDrawioArrowStyle, buildParentMap, sortGroupsOuterFirst } from '../utils';
+
+/** Draw.io generation options */
+export interface DrawioOptions {
+    /** Store pages compressed, as Draw.io and Confluence do */
+    compressed?: boolean;
+}
 
 // =============================================================================
 // Beautiful Color Palettes for Draw.io
@@ -45,25 +52,93 @@ const GROUP_COLORS = {
 };
 
 /** Generate Draw.io XML from diagram */
-export function generateDrawio(diagram: Diagram): string {
+export function generateDrawio(diagram: Diagram, options: DrawioOptions = {}): string {
+    return buildMxfile([buildPage(diagram, diagram.id, diagram.name || 'Page-1')], options);
+}
+
+/**
+ * Generate one Draw.io file with a page per diagram
+ *
+ * Pages are named after the diagrams (or Page-N); duplicate ids are made unique.
+ */
+export function generateDrawioPages(diagrams: Diagram[], options: DrawioOptions = {}): string {
+    const usedIds = new Set<string>();
+    const pages = diagrams.map((diagram, index) => {
+        let pageId = diagram.id;
+        if (usedIds.has(pageId)) {
+            pageId = `${diagram.id}-${index + 1}`;
+        }
+        usedIds.add(pageId);
+        return buildPage(diagram, pageId, diagram.name || `Page-${index + 1}`);
+    });
+
+    return buildMxfile(pages, options);
+}
+
+/**
+ * Compress the pages of a Draw.io file: the mxGraphModel of each page is
+ * URL-encoded, deflated and base64-encoded in place
+ */
+export function compressDrawio(xml: string): string {
+    return xml.replace(
+        /(<diagram\b[^>]*>)\s*(<mxGraphModel\b[\s\S]*?<\/mxGraphModel>)\s*(<\/diagram>)/g,
+        (_match, open: string, model: string, close: string) => `${open}${deflateBase64(encodeURIComponent(model))}${close}`
+    );
+}
+
+/** Raw deflate, then base64 */
+function deflateBase64(text: string): string {
+    const bytes = pako.deflateRaw(text);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/** Wrap page elements into an mxfile document */
+function buildMxfile(pages: string[], options: DrawioOptions): string {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<mxfile host="WB Diagrams" modified="${new Date().toISOString()}" agent="WB Diagrams Converter" version="1.0" pages="${pages.length}">
+  ${pages.join('\n  ')}
+</mxfile>`;
+    return options.compressed ? compressDrawio(xml) : xml;
+}
+
+/** Build the `<diagram>` element for one page */
+function buildPage(diagram: Diagram, pageId: string, pageName: string): string {
     const cells: string[] = [];
     let cellId = 2; // 0 and 1 are reserved
 
     const nodeIdMap = new Map<string, number>();
     const groupIdMap = new Map<string, number>();
 
-    // Generate groups first
-    for (const group of diagram.groups) {
+    // Child geometry in mxGraph is relative to the parent cell
+    const parents = buildParentMap(diagram.groups);
+    const groupsById = new Map(diagram.groups.map(g => [g.id, g]));
+    const parentCellOf = (id: string): string => {
+        const parentGroupId = parents.get(id);
+        const cellIdOfParent = parentGroupId ? groupIdMap.get(parentGroupId) : undefined;
+        return cellIdOfParent ? String(cellIdOfParent) : '1';
+    };
+    const parentOffset = (id: string): { x: number; y: number } => {
+        const parentGroup = groupsById.get(parents.get(id) ?? '');
+        return parentGroup?.position && groupIdMap.has(parentGroup.id) ? parentGroup.position : { x: 0, y: 0 };
+    };
+
+    // Generate groups first, outer groups before nested ones
+    for (const group of sortGroupsOuterFirst(diagram.groups, parents)) {
         const id = cellId++;
         groupIdMap.set(group.id, id);
 
         const style = buildGroupStyle(group);
         const { x, y } = group.position || { x: 50, y: 50 };
         const { width, height } = group.size || { width: 200, height: 150 };
+        const offset = parentOffset(group.id);
 
         cells.push(`
-      <mxCell id="${id}" value="${escapeXml(group.label || '')}" style="${style}" vertex="1" parent="1">
-        <mxGeometry x="${x}" y="${y}" width="${width}" height="${height}" as="geometry"/>
+      <mxCell id="${id}" value="${escapeXml(group.label || '')}" style="${style}" vertex="1" parent="${parentCellOf(group.id)}">
+        <mxGeometry x="${x - offset.x}" y="${y - offset.y}" width="${width}" height="${height}" as="geometry"/>
       </mxCell>
     `.trim());
     }
@@ -73,25 +148,14 @@ export function generateDrawio(diagram: Diagram): string {
         const id = cellId++;
         nodeIdMap.set(node.id, id);
 
-        // Find parent group
-        let parentId = '1';
-        for (const group of diagram.groups) {
-            if (group.children.includes(node.id)) {
-                const groupCellId = groupIdMap.get(group.id);
-                if (groupCellId) {
-                    parentId = String(groupCellId);
-                }
-                break;
-            }
-        }
-
         const style = buildNodeStyle(node);
         const { x, y } = node.position || { x: 100, y: 100 };
         const { width, height } = node.size || getDefaultSize(node.shape);
+        const offset = node.position ? parentOffset(node.id) : { x: 0, y: 0 };
 
         cells.push(`
-      <mxCell id="${id}" value="${escapeXml(node.label)}" style="${style}" vertex="1" parent="${parentId}">
-        <mxGeometry x="${x}" y="${y}" width="${width}" height="${height}" as="geometry"/>
+      <mxCell id="${id}" value="${escapeXml(node.label)}" style="${style}" vertex="1" parent="${parentCellOf(node.id)}">
+        <mxGeometry x="${x - offset.x}" y="${y - offset.y}" width="${width}" height="${height}" as="geometry"/>
       </mxCell>
     `.trim());
     }
@@ -127,12 +191,7 @@ export function generateDrawio(diagram: Diagram): string {
     `.trim());
     }
 
-    // Build final XML
-    const diagramName = diagram.name || 'Page-1';
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<mxfile host="WB Diagrams" modified="${new Date().toISOString()}" agent="WB Diagrams Converter" version="1.0">
-  <diagram id="${diagram.id}" name="${escapeXml(diagramName)}">
+    return `<diagram id="${escapeXml(pageId)}" name="${escapeXml(pageName)}">
     <mxGraphModel dx="0" dy="0" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="850" pageHeight="1100">
       <root>
         <mxCell id="0"/>
@@ -140,8 +199,7 @@ export function generateDrawio(diagram: Diagram): string {
         ${cells.join('\n        ')}
       </root>
     </mxGraphModel>
-  </diagram>
-</mxfile>`;
+  </diagram>`;
 }
 
 /** Build Draw.io style string for node */
@@ -27,6 +27,10 @@ import { generateLeftCardinality, generateRightCardinality } from '../types/er';
 /** Generate Mermaid erDiagram from IR */
 export function generateERDiagram(diagram: Diagram): string {
     const lines: string[] = ['erDiagram'];
+    const direction = diagram.metadata?.direction as string | undefined;
+    if (direction && direction !== 'TB') {
+        lines.push(`    direction ${direction}`);
+    }
 
     // Generate relationships first (they define the structure)
     for (const edge of diagram.edges) {
@@ -110,7 +114,7 @@ function generateAttribute(attr: IRAttribute): string {
     let line = `${sanitizeType(attr.type)} ${sanitizeName(attr.name)}`;
 
     if (attr.keyType) {
-        line += ` ${attr.keyType}`;
+        line += ` ${attr.keyType.toUpperCase()}`;
     }
 
     if (attr.comment) {
@@ -158,7 +162,8 @@ function sanitizeType(type: string): string {
         'double': 'float',
     };
 
-    const lower = type.toLowerCase();
+    // Mermaid types are single words: `double precision` -> `double_precision`, `numeric(10,2)` -> `numeric(10-2)`
+    const lower = type.toLowerCase().replace(/\s*,\s*/g, '-').replace(/\s+/g, '_');
     return typeMap[lower] || lower;
 }
 
@@ -202,6 +207,7 @@ export function convertToERFormat(diagram: Diagram): Diagram {
             metadata: {
                 ...node.metadata,
                 entityType: 'er-entity',
+                entityName: node.label.split('\n')[0].trim() || node.id,
                 // Try to extract attributes from label if multiline
                 attributes: extractAttributesFromLabel(node.label),
             },
@@ -0,0 +1,220 @@
+/**
+ * Excalidraw sequence generator
+ *
+ * Generates an Excalidraw scene with lifelines: participant boxes,
+ * dashed lifelines, activation bars, message arrows, notes and
+ * fragment frames
+ */
+
+import type { Diagram } from '../types';
+import { generateId } from '../utils';
+import { extractSequenceData } from '../parsers/sequence-parser';
+import { layoutSequenceDiagram, type SequenceLayoutOptions } from '../layout/sequence';
+import type { ExcalidrawOptions } from './excalidraw';
+
+/** Minimal Excalidraw element */
+interface ExcalidrawElement {
+    id: string;
+    type: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    [key: string]: unknown;
+}
+
+/** Sequence Excalidraw generation options */
+export interface SequenceExcalidrawOptions extends SequenceLayoutOptions, ExcalidrawOptions {}
+
+/** Generate Excalidraw JSON with lifelines from a sequence diagram */
+export function generateSequenceExcalidraw(diagram: Diagram, options: SequenceExcalidrawOptions = {}): string {
+    const sequence = extractSequenceData(diagram.type === 'sequence' ? diagram : { ...diagram, type: 'sequence' })!;
+    const layout = layoutSequenceDiagram(sequence, { fontSize: 16, ...options });
+    const elements: ExcalidrawElement[] = [];
+
+    if (layout.title) {
+        elements.push(createText(layout.title, layout.width / 2 - layout.title.length * 5, options.marginY ?? 20, { fontSize: 20 }));
+    }
+
+    for (const frame of layout.fragments) {
+        elements.push(createShape('rectangle', frame.x, frame.y, frame.width, frame.height, {
+            strokeColor: '#868e96',
+            backgroundColor: frame.block.type === 'rect' ? '#f1f3f5' : 'transparent',
+            fillStyle: 'solid',
+            strokeWidth: 1,
+        }));
+        const isGroup = frame.block.type === 'group' || frame.block.type === 'rect';
+        const header = isGroup ? frame.block.label ?? '' : `${frame.block.type}${frame.block.label ? ` [${frame.block.label}]` : ''}`;
+        if (header) {
+            elements.push(createText(header, frame.x + 6, frame.y + 2, { fontSize: 14 }));
+        }
+        for (const section of frame.sections) {
+            elements.push(createLine(frame.x, section.y, frame.width, 0, { strokeStyle: 'dashed', strokeWidth: 1, strokeColor: '#868e96' }));
+            if (section.label) {
+                elements.push(createText(`[${section.label}]`, frame.x + 6, section.y + 2, { fontSize: 14 }));
+            }
+        }
+    }
+
+    for (const box of layout.participants) {
+        elements.push(createLine(box.center, box.y + box.height, 0, box.lifelineEnd - box.y - box.height, {
+            strokeStyle: 'dashed',
+            strokeWidth: 1,
+            strokeColor: '#868e96',
+        }));
+
+        const shape = createShape(box.participant.type === 'database' ? 'ellipse' : 'rectangle', box.x, box.y, box.width, box.height, {
+            backgroundColor: box.participant.type === 'actor' ? '#ffec99' : '#a5d8ff',
+            fillStyle: 'solid',
+            roundness: box.participant.type === 'actor' ? { type: 3 } : null,
+            customData: { participantId: box.participant.id, participantType: box.participant.type },
+        });
+        const label = createText(box.participant.label, box.x, box.y, {
+            width: box.width,
+            height: box.height,
+            textAlign: 'center',
+            verticalAlign: 'middle',
+            containerId: shape.id,
+        });
+        shape.boundElements = [{ id: label.id, type: 'text' }];
+        elements.push(shape, label);
+    }
+
+    for (const bar of layout.activations) {
+        elements.push(createShape('rectangle', bar.x, bar.y, bar.width, bar.height, {
+            backgroundColor: '#e9ecef',
+            fillStyle: 'solid',
+            strokeWidth: 1,
+        }));
+    }
+
+    for (const line of layout.messages) {
+        const { message } = line;
+        const points: Array<[number, number]> = line.self
+            ? [[0, 0], [30, 0], [30, 20], [0, 20]]
+            : [[0, 0], [line.x2 - line.x1, 0]];
+        const head = message.arrowType.endsWith('cross') ? 'bar'
+            : message.arrowType === 'solid' || message.arrowType === 'dotted' ? null
+                : message.isAsync ? 'arrow' : 'triangle';
+
+        elements.push({
+            ...baseElement('arrow', line.x1, line.y, Math.max(...points.map(([px]) => Math.abs(px))), line.self ? 20 : 0),
+            strokeStyle: message.arrowType.startsWith('dotted') ? 'dashed' : 'solid',
+            points,
+            startBinding: null,
+            endBinding: null,
+            startArrowhead: null,
+            endArrowhead: head,
+            customData: { from: message.from, to: message.to },
+        });
+
+        const label = line.number !== undefined ? `${line.number}. ${message.label}` : message.label;
+        if (label) {
+            const labelLines = label.split('\n').length;
+            const labelX = line.self ? line.x1 + 36 : Math.min(line.x1, line.x2) + Math.abs(line.x2 - line.x1) / 2 - label.length * 4;
+            elements.push(createText(label, labelX, line.y - 20 * labelLines - 2, { fontSize: 14 }));
+        }
+    }
+
+    for (const box of layout.notes) {
+        const note = createShape('rectangle', box.x, box.y, box.width, box.height, {
+            backgroundColor: '#fff9db',
+            strokeColor: '#f08c00',
+            fillStyle: 'solid',
+        });
+        const label = createText(box.note.text, box.x, box.y, {
+            width: box.width,
+            height: box.height,
+            textAlign: 'left',
+            verticalAlign: 'top',
+            containerId: note.id,
+            fontSize: 14,
+        });
+        note.boundElements = [{ id: label.id, type: 'text' }];
+        elements.push(note, label);
+    }
+
+    return JSON.stringify({
+        type: 'excalidraw',
+        version: 2,
+        source: 'https://whitebite.github.io/wb-diagrams',
+        elements,
+        appState: {
+            viewBackgroundColor: options.backgroundColor ?? '#ffffff',
+            gridSize: null,
+        },
+        files: {},
+    }, null, 2);
+}
+
+// =============================================================================
+// Element Factories
+// =============================================================================
+
+/** Common element properties */
+function baseElement(type: string, x: number, y: number, width: number, height: number): ExcalidrawElement {
+    return {
+        id: generateId(),
+        type,
+        x,
+        y,
+        width,
+        height,
+        angle: 0,
+        strokeColor: '#1e1e1e',
+        backgroundColor: 'transparent',
+        fillStyle: 'hachure',
+        strokeWidth: 2,
+        strokeStyle: 'solid',
+        roughness: 1,
+        opacity: 100,
+        groupIds: [],
+        updated: Date.now(),
+        link: null,
+        locked: false,
+    };
+}
+
+/** Rectangle or ellipse */
+function createShape(
+    type: 'rectangle' | 'ellipse',
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    props: Record<string, unknown> = {}
+): ExcalidrawElement {
+    return { ...baseElement(type, x, y, width, height), ...props };
+}
+
+/** Straight line from (x, y) by (dx, dy) */
+function createLine(x: number, y: number, dx: number, dy: number, props: Record<string, unknown> = {}): ExcalidrawElement {
+    return {
+        ...baseElement('line', x, y, Math.abs(dx), Math.abs(dy)),
+        points: [[0, 0], [dx, dy]],
+        startBinding: null,
+        endBinding: null,
+        startArrowhead: null,
+        endArrowhead: null,
+        ...props,
+    };
+}
+
+/** Free or container-bound text */
+function createText(text: string, x: number, y: number, props: Record<string, unknown> = {}): ExcalidrawElement {
+    const fontSize = (props.fontSize as number | undefined) ?? 16;
+    const lines = text.split('\n');
+    return {
+        ...baseElement('text', x, y, Math.max(...lines.map(l => l.length)) * fontSize * 0.55, lines.length * fontSize * 1.25),
+        strokeWidth: 1,
+        text,
+        fontSize,
+        fontFamily: 1,
+        textAlign: 'left',
+        verticalAlign: 'top',
+        baseline: fontSize,
+        containerId: null,
+        originalText: text,
+        ...props,
+    };
+}
@@ -7,6 +7,12 @@
 import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup } from '../types';
 import { generateId, EXCALIDRAW_SHAPE_MAP, getExcalidrawRoundness, generateExcalidrawArrow } from '../utils';
 
+/** Excalidraw generation options */
+export interface ExcalidrawOptions {
+    /** Canvas background colour (default: #ffffff) */
+    backgroundColor?: string;
+}
+
 interface ExcalidrawElement {
     id: string;
     type: string;
@@ -65,7 +71,7 @@ interface ExcalidrawFile {
 }
 
 /** Generate Excalidraw JSON from diagram */
-export function generateExcalidraw(diagram: Diagram): string {
+export function generateExcalidraw(diagram: Diagram, options: ExcalidrawOptions = {}): string {
     const elements: ExcalidrawElement[] = [];
     const nodeElementMap = new Map<string, string>(); // node.id -> element.id
     const groupElementMap = new Map<string, string>(); // group.id -> groupId for Excalidraw
@@ -161,7 +167,7 @@ export function generateExcalidraw(diagram: Diagram): string {
         source: 'https://whitebite.github.io/wb-diagrams',
         elements,
         appState: {
-            viewBackgroundColor: '#ffffff',
+            viewBackgroundColor: options.backgroundColor ?? '#ffffff',
             gridSize: null,
         },
         files: {},
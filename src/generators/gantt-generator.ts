@@ -0,0 +1,117 @@
+/**
+ * Mermaid Gantt Chart Generator
+ *
+ * Generates Mermaid gantt syntax from IR
+ *
+ * Output example:
+ *   gantt
+ *     title Release plan
+ *     dateFormat YYYY-MM-DD
+ *     section Build
+ *     Design :done, des, 2024-01-01, 5d
+ *     Implement :impl, after des, 10d
+ */
+
+import type { Diagram, GanttTaskTag, IRGanttDiagram, IRGanttTask } from '../types';
+import { DEFAULT_GANTT_DATE_FORMAT, extractGanttData, formatGanttDate, scheduleGanttTasks } from '../utils';
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate Mermaid gantt chart from IR */
+export function generateGanttDiagram(diagram: Diagram): string {
+    const gantt = extractGanttData(diagram.type === 'gantt' ? diagram : { ...diagram, type: 'gantt' })!;
+    return generateGanttDiagramCode(gantt);
+}
+
+/** Generate Mermaid gantt chart from the structured Gantt model */
+export function generateGanttDiagramCode(gantt: IRGanttDiagram): string {
+    const dateFormat = gantt.dateFormat ?? DEFAULT_GANTT_DATE_FORMAT;
+    const lines: string[] = ['gantt'];
+
+    if (gantt.title) {
+        lines.push(`    title ${gantt.title}`);
+    }
+    lines.push(`    dateFormat ${dateFormat}`);
+    if (gantt.axisFormat) {
+        lines.push(`    axisFormat ${gantt.axisFormat}`);
+    }
+    if (gantt.excludes.length > 0) {
+        const excludes = gantt.excludes.map(e => /^\d{4}-\d{2}-\d{2}$/.test(e) ? formatGanttDate(e, dateFormat) : e);
+        lines.push(`    excludes ${excludes.join(', ')}`);
+    }
+
+    // Tasks without a start or dependency are pinned to their scheduled date
+    const scheduled = new Map(scheduleGanttTasks(gantt).map(t => [t.id, t]));
+    const ids = new Map(gantt.tasks.map(t => [t.id, sanitizeTaskId(t.id)]));
+    const taskLine = (task: IRGanttTask) =>
+        `    ${generateTask(task, scheduled.get(task.id)!.start, ids, dateFormat)}`;
+
+    for (const task of gantt.tasks.filter(t => !t.section || !gantt.sections.includes(t.section))) {
+        lines.push(taskLine(task));
+    }
+
+    for (const section of gantt.sections) {
+        lines.push(`    section ${section}`);
+        for (const task of gantt.tasks.filter(t => t.section === section)) {
+            lines.push(taskLine(task));
+        }
+    }
+
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate task line: Name :tags, id, start, end */
+function generateTask(task: IRGanttTask, scheduledStart: string, ids: Map<string, string>, dateFormat: string): string {
+    const items: string[] = [...getTags(task)];
+    if (task.milestone) {
+        items.push('milestone');
+    }
+    items.push(ids.get(task.id)!);
+
+    const dependencies = (task.after ?? []).filter(id => ids.has(id));
+    items.push(dependencies.length > 0
+        ? `after ${dependencies.map(id => ids.get(id)).join(' ')}`
+        : formatGanttDate(task.start ?? scheduledStart, dateFormat));
+
+    if (task.milestone) {
+        items.push('0d');
+    } else if (task.duration !== undefined) {
+        items.push(formatDuration(task.duration));
+    } else if (task.end) {
+        items.push(formatGanttDate(task.end, dateFormat));
+    } else {
+        items.push('1d');
+    }
+
+    return `${escapeTaskName(task.name)} :${items.join(', ')}`;
+}
+
+/** Tags for a task; full progress counts as done */
+function getTags(task: IRGanttTask): GanttTaskTag[] {
+    const tags = [...(task.tags ?? [])];
+    if (task.progress === 100 && !tags.includes('done')) {
+        tags.unshift('done');
+    }
+    return tags;
+}
+
+/** Format duration in days, falling back to hours for fractions */
+function formatDuration(days: number): string {
+    return Number.isInteger(days) ? `${days}d` : `${Math.round(days * 24)}h`;
+}
+
+/** Make ID safe for Mermaid task references */
+function sanitizeTaskId(id: string): string {
+    return id.trim().replace(/[^\w-]/g, '_') || 'task';
+}
+
+/** Colons and hashes delimit task metadata */
+function escapeTaskName(name: string): string {
+    return name.replace(/\n/g, ' ').replace(/#/g, '#35;').replace(/:/g, '#58;');
+}
@@ -6,7 +6,7 @@
 
 // Core formats
 export { generateMermaid } from './mermaid';
-export { generateDrawio } from './drawio';
+export { generateDrawio, generateDrawioPages } from './drawio';
 export { generateExcalidraw } from './excalidraw';
 export { generatePlantUML } from './plantuml';
 export { generateDot } from './dot';
@@ -15,15 +15,41 @@ export { generatePng } from './png';
 
 // Extended formats
 export { generateD2 } from './d2';
-export { generateStructurizr } from './structurizr';
-export { generateBpmn, generateBpmn as generateBPMN } from './bpmn';
+export { generateStructurizr, generateStructurizrCode } from './structurizr';
+export { generateBpmn, generateBpmn as generateBPMN, generateBpmnCode } from './bpmn';
+export { generateBpmnSvg } from './svg-bpmn';
+export { generateBpmnDrawio } from './drawio-bpmn';
 export { generateGraphML } from './graphml';
 
 // State diagrams
 export { generateStateDiagram, generateStateDiagramCode } from './state';
+export { generatePlantUMLState, generatePlantUMLStateCode } from './plantuml-state';
+export { generateSCXML, generateSCXMLCode } from './scxml';
+export { generateStateSvg } from './svg-state';
+export { generateStateDrawio } from './drawio-state';
 
 // ER Diagrams
 export { generateERDiagram, convertToERFormat } from './er-generator';
+export { generateSQL, generateSQLCode } from './sql';
+export { generateDBML, generateDBMLCode } from './dbml';
+export { generatePlantUMLER, generatePlantUMLERCode } from './plantuml-er';
+export { generateERSvg } from './svg-er';
+export { generateERDrawio } from './drawio-er';
+
+// Class diagrams
+export { generateClassDiagram } from './class-generator';
+export { generatePlantUMLClassDiagram } from './plantuml-class';
+export { generateGanttDiagram } from './gantt-generator';
+export { generatePlantUMLGantt } from './plantuml-gantt';
+export { generateGanttSvg } from './svg-gantt';
+export { generateMindmapDiagram } from './mindmap-generator';
+export { generatePlantUMLMindmap } from './plantuml-mindmap';
+export { generateC4Diagram, generateC4DiagramCode } from './c4-generator';
+export { generatePlantUMLC4, generatePlantUMLC4Code } from './plantuml-c4';
 
 // Sequence diagrams
 export { generateSequenceDiagram, generateSequence } from './sequence-generator';
+export { generatePlantUMLSequence } from './plantuml-sequence';
+export { generateSequenceSvg } from './svg-sequence';
+export { generateSequenceDrawio } from './drawio-sequence';
+export { generateSequenceExcalidraw } from './excalidraw-sequence';
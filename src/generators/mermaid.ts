@@ -4,13 +4,19 @@
  * Generates Mermaid flowchart syntax from IR
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, ArrowConfig, NodeStyle } from '../types';
+import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, ArrowConfig, NodeStyle, LayoutDirection } from '../types';
 import { generateMermaidShape } from '../utils';
 
+/** Mermaid generation options */
+export interface MermaidOptions {
+    /** Diagram direction; also written for class, state and ER diagrams (default: the direction of the source, or TB) */
+    direction?: LayoutDirection;
+}
+
 /** Generate Mermaid diagram from IR */
-export function generateMermaid(diagram: Diagram): string {
+export function generateMermaid(diagram: Diagram, options: MermaidOptions = {}): string {
     const lines: string[] = [];
-    const direction = (diagram.metadata?.direction as string) || 'TB';
+    const direction = options.direction || (diagram.metadata?.direction as string) || 'TB';
 
     // Header
     lines.push(`flowchart ${direction}`);
@@ -135,11 +141,9 @@ function generateMermaidArrow(arrow: ArrowConfig): string {
     else if (arrow.sourceType === 'circle') result += 'o';
     else if (arrow.sourceType === 'cross') result += 'x';
 
-    // Line type
-    if (arrow.lineType === 'dashed') {
+    // Line type; Mermaid's dotted link stands for both dashed and dotted lines
+    if (arrow.lineType === 'dashed' || arrow.lineType === 'dotted') {
         result += '-.';
-    } else if (arrow.lineType === 'dotted') {
-        result += '..';
     } else if (arrow.lineType === 'thick') {
         result += '==';
     } else {
@@ -150,7 +154,7 @@ function generateMermaidArrow(arrow: ArrowConfig): string {
     if (arrow.targetType === 'arrow') result += '>';
     else if (arrow.targetType === 'circle') result += 'o';
     else if (arrow.targetType === 'cross') result += 'x';
-    else if (arrow.lineType === 'dashed') result += '-';
+    else if (arrow.lineType === 'dashed' || arrow.lineType === 'dotted') result += '-';
     else if (arrow.lineType === 'thick') result += '=';
 
     // Ensure valid arrow
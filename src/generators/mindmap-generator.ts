@@ -0,0 +1,79 @@
+/**
+ * Mermaid Mindmap Generator
+ *
+ * Generates Mermaid mindmap syntax from IR
+ *
+ * Output example:
+ *   mindmap
+ *     root((Workshop))
+ *       Ideas
+ *         ::icon(fa fa-lightbulb)
+ *         Prototype[Prototype]
+ */
+
+import type { Diagram, IRMindmapDiagram, IRMindmapNode, MindmapNodeShape } from '../types';
+import { extractMindmapData } from '../utils';
+
+/** Shape delimiters in Mermaid syntax */
+const SHAPE_SYNTAX: Record<Exclude<MindmapNodeShape, 'default'>, [string, string]> = {
+    square: ['[', ']'],
+    rounded: ['(', ')'],
+    circle: ['((', '))'],
+    bang: ['))', '(('],
+    cloud: [')', '('],
+    hexagon: ['{{', '}}'],
+};
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate Mermaid mindmap from IR */
+export function generateMindmapDiagram(diagram: Diagram): string {
+    const mindmap = extractMindmapData(diagram.type === 'mindmap' ? diagram : { ...diagram, type: 'mindmap' });
+    return mindmap ? generateMindmapDiagramCode(mindmap) : 'mindmap';
+}
+
+/** Generate Mermaid mindmap from the tree model */
+export function generateMindmapDiagramCode(mindmap: IRMindmapDiagram): string {
+    const lines: string[] = ['mindmap'];
+    const visit = (node: IRMindmapNode, depth: number) => {
+        const indent = '  '.repeat(depth + 1);
+        lines.push(`${indent}${generateNode(node)}`);
+        if (node.icon) {
+            lines.push(`${indent}  ::icon(${node.icon})`);
+        }
+        if (node.cssClass) {
+            lines.push(`${indent}  :::${node.cssClass}`);
+        }
+        for (const child of node.children) {
+            visit(child, depth + 1);
+        }
+    };
+    visit(mindmap.root, 0);
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate node text with shape delimiters */
+function generateNode(node: IRMindmapNode): string {
+    const label = node.label.replace(/\n/g, '<br/>');
+    const shape = node.shape ?? 'default';
+
+    if (shape === 'default') {
+        // Bare text may not contain shape delimiters
+        return /[()[\]{}]/.test(label) ? `${sanitizeNodeId(node.id)}["${label.replace(/"/g, "'")}"]` : label;
+    }
+
+    const [open, close] = SHAPE_SYNTAX[shape];
+    const text = /[()[\]{}]/.test(label) ? `"${label.replace(/"/g, "'")}"` : label;
+    return `${sanitizeNodeId(node.id)}${open}${text}${close}`;
+}
+
+/** Make ID safe for Mermaid mindmap nodes */
+function sanitizeNodeId(id: string): string {
+    return id.trim().replace(/[^\w-]/g, '_') || 'node';
+}
@@ -0,0 +1,58 @@
+/**
+ * C4-PlantUML Generator
+ *
+ * Generates C4-PlantUML from IR using the C4 library bundled with PlantUML
+ * (!include <C4/C4_Container>). autoLayout directions become LAYOUT_TOP_DOWN
+ * or LAYOUT_LEFT_RIGHT and element tags are passed as $tags.
+ *
+ * Output example:
+ *   @startuml
+ *   !include <C4/C4_Container>
+ *   title Internet Banking
+ *   Person(customer, "Customer")
+ *   System_Boundary(bank, "Internet Banking") {
+ *       Container(web, "Web App", "Java")
+ *   }
+ *   Rel(customer, web, "Uses", "HTTPS")
+ *   @enduml
+ */
+
+import type { Diagram } from '../types';
+import type { C4ViewType, IRC4Diagram } from '../types/c4';
+import { extractC4Data } from '../utils';
+import { generateC4Macros, primaryC4View } from './c4-generator';
+
+/** Library files by view type */
+const VIEW_INCLUDES: Record<C4ViewType, string> = {
+    systemLandscape: 'C4_Context',
+    systemContext: 'C4_Context',
+    container: 'C4_Container',
+    component: 'C4_Component',
+    dynamic: 'C4_Dynamic',
+    deployment: 'C4_Deployment',
+};
+
+/** Generate C4-PlantUML from IR */
+export function generatePlantUMLC4(diagram: Diagram): string {
+    return generatePlantUMLC4Code(extractC4Data(diagram.type === 'c4' ? diagram : { ...diagram, type: 'c4' })!);
+}
+
+/** Generate C4-PlantUML from the C4 model */
+export function generatePlantUMLC4Code(c4: IRC4Diagram): string {
+    const view = primaryC4View(c4);
+    const lines = ['@startuml', `!include <C4/${VIEW_INCLUDES[view.type]}>`];
+    const direction = view.autoLayout?.direction;
+    if (direction === 'lr' || direction === 'rl') {
+        lines.push('LAYOUT_LEFT_RIGHT()');
+    } else if (direction) {
+        lines.push('LAYOUT_TOP_DOWN()');
+    }
+    const title = view.title ?? c4.title;
+    if (title) {
+        lines.push(`title ${title.replace(/\n/g, ' ')}`);
+    }
+    lines.push('');
+    lines.push(...generateC4Macros(c4, view.type, 'plantuml'));
+    lines.push('@enduml');
+    return lines.join('\n');
+}
@@ -0,0 +1,159 @@
+/**
+ * PlantUML Class Diagram Generator
+ *
+ * Generates PlantUML class diagram syntax from IR
+ *
+ * Output example:
+ *   @startuml
+ *   abstract class Animal {
+ *     #age: int
+ *     {abstract} +makeSound(): void
+ *   }
+ *   Animal <|-- Duck
+ *   @enduml
+ */
+
+import type { ClassifierKind, Diagram, IRClass, IRClassDiagram, IRClassRelationship } from '../types';
+import {
+    extractClassData,
+    formatClassAttribute,
+    formatClassOperation,
+    formatType,
+    generateClassArrow,
+    getClassRelationArrow,
+} from '../utils/class-diagram';
+
+/** Declaration keyword per classifier kind */
+const CLASSIFIER_KEYWORD: Record<ClassifierKind, string> = {
+    class: 'class',
+    interface: 'interface',
+    abstract: 'abstract class',
+    enum: 'enum',
+};
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate PlantUML class diagram from IR */
+export function generatePlantUMLClassDiagram(diagram: Diagram): string {
+    const classDiagram = extractClassData(diagram.type === 'class' ? diagram : { ...diagram, type: 'class' })!;
+    return generatePlantUMLClassDiagramCode(classDiagram);
+}
+
+/** Generate PlantUML class diagram from the structured class model */
+export function generatePlantUMLClassDiagramCode(classDiagram: IRClassDiagram): string {
+    const lines: string[] = ['@startuml'];
+    if (classDiagram.title) {
+        lines.push(`title ${classDiagram.title}`);
+    }
+    if (classDiagram.direction === 'LR' || classDiagram.direction === 'RL') {
+        lines.push('left to right direction');
+    }
+    lines.push('');
+
+    const ids = new Map(classDiagram.classes.map(c => [c.id, sanitizeClassId(c.id)]));
+
+    // Packages hold their member classes
+    const packages = new Map<string, IRClass[]>();
+    for (const cls of classDiagram.classes) {
+        if (cls.namespace) {
+            packages.set(cls.namespace, [...(packages.get(cls.namespace) ?? []), cls]);
+        }
+    }
+
+    for (const [name, members] of packages) {
+        lines.push(`package ${name} {`);
+        for (const cls of members) {
+            lines.push(...generateClass(cls, ids.get(cls.id)!).map(l => `    ${l}`));
+        }
+        lines.push('}');
+        lines.push('');
+    }
+
+    for (const cls of classDiagram.classes) {
+        if (!cls.namespace) {
+            lines.push(...generateClass(cls, ids.get(cls.id)!));
+        }
+    }
+
+    if (classDiagram.relationships.length > 0) {
+        lines.push('');
+        for (const relationship of classDiagram.relationships) {
+            lines.push(generateRelation(relationship, ids));
+        }
+    }
+
+    const notes = classDiagram.notes ?? [];
+    if (notes.length > 0) {
+        lines.push('');
+        for (const note of notes) {
+            if (note.attachTo && ids.has(note.attachTo)) {
+                lines.push(...generateAttachedNote(note.text, ids.get(note.attachTo)!));
+            } else {
+                lines.push(`note "${note.text.replace(/"/g, "'").replace(/\n/g, '\\n')}" as ${sanitizeClassId(note.id)}`);
+            }
+        }
+    }
+
+    lines.push('');
+    lines.push('@enduml');
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate class declaration with optional body */
+function generateClass(cls: IRClass, id: string): string[] {
+    let declaration = CLASSIFIER_KEYWORD[cls.kind];
+    declaration += cls.label && cls.label !== id ? ` "${cls.label.replace(/"/g, "'")}" as ${id}` : ` ${id}`;
+    if (cls.generic) {
+        declaration += `<${formatType(cls.generic, 'uml')}>`;
+    }
+    if (cls.stereotype) {
+        declaration += ` <<${cls.stereotype}>>`;
+    }
+
+    if (cls.attributes.length === 0 && cls.operations.length === 0) {
+        return [declaration];
+    }
+
+    return [
+        `${declaration} {`,
+        ...cls.attributes.map(a => `    ${formatClassAttribute(a, 'uml')}`),
+        ...cls.operations.map(o => `    ${formatClassOperation(o, 'uml')}`),
+        '}',
+    ];
+}
+
+/** Generate relationship line */
+function generateRelation(relationship: IRClassRelationship, ids: Map<string, string>): string {
+    const { sourceCardinality, targetCardinality } = relationship;
+
+    let line = ids.get(relationship.source)!;
+    if (sourceCardinality !== undefined) line += ` "${sourceCardinality}"`;
+    line += ` ${generateClassArrow(getClassRelationArrow(relationship.kind, relationship.markerEnd))} `;
+    if (targetCardinality !== undefined) line += `"${targetCardinality}" `;
+    line += ids.get(relationship.target)!;
+
+    if (relationship.label) {
+        line += ` : ${relationship.label.replace(/\n/g, ' ')}`;
+    }
+    return line;
+}
+
+/** Generate note attached to a class */
+function generateAttachedNote(text: string, classId: string): string[] {
+    if (!text.includes('\n')) {
+        return [`note right of ${classId} : ${text}`];
+    }
+    return [`note right of ${classId}`, ...text.split('\n').map(l => `    ${l}`), 'end note'];
+}
+
+/** Make ID safe for PlantUML class names */
+function sanitizeClassId(id: string): string {
+    const sanitized = id.trim().replace(/[^\w.]/g, '_');
+    return /^\d/.test(sanitized) ? `_${sanitized}` : sanitized || 'Class';
+}
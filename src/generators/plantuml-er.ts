@@ -0,0 +1,111 @@
+/**
+ * PlantUML ER Diagram Generator
+ *
+ * Generates PlantUML Information Engineering (IE) notation from IR
+ *
+ * Output example:
+ *   @startuml
+ *   hide circle
+ *   entity CUSTOMER {
+ *     * custNumber : string <<PK>>
+ *     --
+ *     name : string
+ *   }
+ *   CUSTOMER ||--o{ ORDER : places
+ *   @enduml
+ *
+ * PlantUML uses the same crow's foot symbols as Mermaid; key attributes
+ * are listed above the separator and marked mandatory with `*`.
+ */
+
+import type { Diagram } from '../types';
+import type { IRAttribute, IREntity, IRERDiagram, IRRelationship } from '../types/er';
+import { generateLeftCardinality, generateRightCardinality } from '../types/er';
+import { extractERData } from '../utils/er';
+import { convertToERFormat } from './er-generator';
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate PlantUML IE notation from an ER diagram */
+export function generatePlantUMLER(diagram: Diagram): string {
+    const erDiagram = extractERData(diagram.type === 'er' ? diagram : convertToERFormat(diagram))!;
+    return generatePlantUMLERCode(erDiagram);
+}
+
+/** Generate PlantUML IE notation from the ER model */
+export function generatePlantUMLERCode(erDiagram: IRERDiagram): string {
+    const lines: string[] = ['@startuml'];
+    if (erDiagram.title) {
+        lines.push(`title ${erDiagram.title}`);
+    }
+    const direction = erDiagram.metadata?.direction;
+    if (direction === 'LR' || direction === 'RL') {
+        lines.push('left to right direction');
+    }
+    lines.push('hide circle', 'skinparam linetype ortho', '');
+
+    const aliases = new Map(erDiagram.entities.map(entity => [entity.id, sanitizeAlias(entity.id)]));
+    const aliasOf = (id: string) => aliases.get(id) ?? sanitizeAlias(id);
+
+    for (const entity of erDiagram.entities) {
+        lines.push(...generateEntity(entity, aliasOf(entity.id)));
+        lines.push('');
+    }
+
+    for (const rel of erDiagram.relationships) {
+        lines.push(generateRelationship(rel, aliasOf));
+    }
+
+    lines.push('@enduml');
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Entity block: key attributes, separator, other attributes */
+function generateEntity(entity: IREntity, alias: string): string[] {
+    const header = entity.name === alias ? `entity ${alias}` : `entity "${entity.name}" as ${alias}`;
+    if (entity.attributes.length === 0) {
+        return [header];
+    }
+
+    const keys = entity.attributes.filter(attr => attr.keyType === 'pk');
+    const others = entity.attributes.filter(attr => attr.keyType !== 'pk');
+    const lines = [`${header} {`];
+    lines.push(...keys.map(attr => `  ${generateAttribute(attr)}`));
+    if (keys.length > 0 && others.length > 0) {
+        lines.push('  --');
+    }
+    lines.push(...others.map(attr => `  ${generateAttribute(attr)}`));
+    lines.push('}');
+    return lines;
+}
+
+/** `* name : type <<PK>>` */
+function generateAttribute(attr: IRAttribute): string {
+    const mandatory = attr.keyType === 'pk' ? '* ' : '';
+    const stereotype = attr.keyType ? ` <<${attr.keyType.toUpperCase()}>>` : '';
+    return `${mandatory}${attr.name} : ${attr.type}${stereotype}`;
+}
+
+/** `A ||--o{ B : label`; dotted lines for non-identifying relationships */
+function generateRelationship(rel: IRRelationship, aliasOf: (id: string) => string): string {
+    const line = rel.identifying === 'identifying' ? '--' : '..';
+    const arrow = `${generateLeftCardinality(rel.sourceCardinality)}${line}${generateRightCardinality(rel.targetCardinality)}`;
+    const label = rel.label ? ` : ${rel.label.replace(/\s*\n\s*/g, ' ')}` : '';
+    return `${aliasOf(rel.source)} ${arrow} ${aliasOf(rel.target)}${label}`;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/** Entity alias usable without quotes */
+function sanitizeAlias(id: string): string {
+    const safe = id.replace(/[^a-zA-Z0-9_]/g, '_');
+    return /^[0-9]/.test(safe) ? `_${safe}` : safe;
+}
@@ -0,0 +1,130 @@
+/**
+ * PlantUML Gantt Chart Generator
+ *
+ * Generates PlantUML @startgantt syntax from IR
+ *
+ * Output example:
+ *   @startgantt
+ *   Project starts 2024-01-01
+ *   saturday are closed
+ *   -- Build --
+ *   [Design] as [des] lasts 5 days
+ *   [Implement] as [impl] lasts 10 days
+ *   [impl] starts at [des]'s end
+ *   @endgantt
+ */
+
+import type { Diagram, IRGanttDiagram, IRGanttTask } from '../types';
+import { addCalendarDays, CRITICAL_TASK_COLOR, extractGanttData, scheduleGanttTasks } from '../utils';
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate PlantUML Gantt chart from IR */
+export function generatePlantUMLGantt(diagram: Diagram): string {
+    const gantt = extractGanttData(diagram.type === 'gantt' ? diagram : { ...diagram, type: 'gantt' })!;
+    return generatePlantUMLGanttCode(gantt);
+}
+
+/** Generate PlantUML Gantt chart from the structured Gantt model */
+export function generatePlantUMLGanttCode(gantt: IRGanttDiagram): string {
+    const lines: string[] = ['@startgantt'];
+    if (gantt.title) {
+        lines.push(`title ${gantt.title}`);
+    }
+
+    // Tasks without a start begin at the project start in PlantUML
+    const schedule = scheduleGanttTasks(gantt);
+    const projectStart = gantt.projectStart ?? schedule.map(t => t.start).sort()[0];
+    if (projectStart) {
+        lines.push(`Project starts ${projectStart}`);
+    }
+
+    for (const exclude of gantt.excludes) {
+        if (exclude === 'weekends') {
+            lines.push('saturday are closed', 'sunday are closed');
+        } else if (/^\d{4}-\d{2}-\d{2}$/.test(exclude)) {
+            lines.push(`${exclude} is closed`);
+        } else {
+            lines.push(`${exclude} are closed`);
+        }
+    }
+
+    const ids = new Map(gantt.tasks.map(t => [t.id, sanitizeTaskId(t.id)]));
+    const scheduledStart = new Map(schedule.map(t => [t.id, t.start]));
+    const taskLines = (task: IRGanttTask) => generateTask(task, scheduledStart.get(task.id)!, ids);
+
+    for (const task of gantt.tasks.filter(t => !t.section || !gantt.sections.includes(t.section))) {
+        lines.push(...taskLines(task));
+    }
+
+    for (const section of gantt.sections) {
+        lines.push(`-- ${section} --`);
+        for (const task of gantt.tasks.filter(t => t.section === section)) {
+            lines.push(...taskLines(task));
+        }
+    }
+
+    lines.push('@endgantt');
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate task declaration followed by one statement per clause */
+function generateTask(task: IRGanttTask, scheduledStart: string, ids: Map<string, string>): string[] {
+    const id = ids.get(task.id)!;
+    const clauses: string[] = [];
+    const dependencies = (task.after ?? []).filter(dep => ids.has(dep)).map(dep => ids.get(dep)!);
+    const verb = task.milestone ? 'happens' : 'starts';
+
+    if (task.start) {
+        clauses.push(`${verb} ${task.start}`);
+    } else if (dependencies.length > 0) {
+        clauses.push(`${verb} at [${dependencies[0]}]'s end`);
+    } else if (task.milestone) {
+        clauses.push(`happens ${scheduledStart}`);
+    }
+
+    if (!task.milestone) {
+        if (task.duration !== undefined) {
+            clauses.push(`lasts ${Math.max(1, Math.ceil(task.duration))} days`);
+        } else if (task.end) {
+            // PlantUML end dates are inclusive
+            clauses.push(`ends ${addCalendarDays(task.end, -1)}`);
+        }
+    }
+
+    const progress = task.progress ?? (task.tags?.includes('done') ? 100 : undefined);
+    if (progress !== undefined) {
+        clauses.push(`is ${progress}% completed`);
+    }
+
+    const color = task.metadata?.color as string | undefined ?? (task.tags?.includes('crit') ? CRITICAL_TASK_COLOR : undefined);
+    if (color) {
+        clauses.push(`is colored in ${color}`);
+    }
+
+    const declaration = `[${escapeTaskName(task.name)}] as [${id}]`;
+    const lines = [clauses.length > 0 ? `${declaration} ${clauses.shift()}` : declaration];
+    lines.push(...clauses.map(clause => `[${id}] ${clause}`));
+
+    // Further dependencies as arrows
+    if (!task.start) {
+        lines.push(...dependencies.slice(1).map(dep => `[${dep}] -> [${id}]`));
+    }
+    return lines;
+}
+
+/** Make ID safe for PlantUML task references */
+function sanitizeTaskId(id: string): string {
+    return id.trim().replace(/[[\]]/g, '_') || 'task';
+}
+
+/** Brackets delimit task names */
+function escapeTaskName(name: string): string {
+    return name.replace(/\n/g, ' ').replace(/[[\]]/g, '');
+}
@@ -0,0 +1,81 @@
+/**
+ * PlantUML Mindmap Generator
+ *
+ * Generates PlantUML @startmindmap / @startwbs syntax from IR
+ *
+ * Output example:
+ *   @startmindmap
+ *   + Workshop
+ *   ++ Ideas
+ *   +++[#lightgreen] Prototype
+ *   -- Risks
+ *   ---_ Budget
+ *   @endmindmap
+ */
+
+import type { Diagram, IRMindmapDiagram, IRMindmapNode, MindmapSide } from '../types';
+import { extractMindmapData, walkMindmap } from '../utils';
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate PlantUML mindmap from IR */
+export function generatePlantUMLMindmap(diagram: Diagram): string {
+    const mindmap = extractMindmapData(diagram.type === 'mindmap' ? diagram : { ...diagram, type: 'mindmap' });
+    return mindmap ? generatePlantUMLMindmapCode(mindmap) : '@startmindmap\n@endmindmap';
+}
+
+/** Generate PlantUML mindmap from the tree model */
+export function generatePlantUMLMindmapCode(mindmap: IRMindmapDiagram): string {
+    const keyword = mindmap.variant === 'wbs' ? 'wbs' : 'mindmap';
+    const lines: string[] = [`@start${keyword}`];
+    if (mindmap.title) {
+        lines.push(`title ${mindmap.title}`);
+    }
+
+    // Mindmaps with left branches use OrgMode + / - levels, WBS uses < / >
+    let hasLeft = false;
+    walkMindmap(mindmap.root, node => {
+        if (node.side === 'left') hasLeft = true;
+    });
+    const markerStyle = !hasLeft ? 'star' : keyword === 'wbs' ? 'wbs' : 'orgmode';
+
+    const visit = (node: IRMindmapNode, depth: number, side: MindmapSide) => {
+        const nodeSide = node.side ?? side;
+        lines.push(generateNode(node, depth, nodeSide, markerStyle));
+        for (const child of node.children) {
+            visit(child, depth + 1, nodeSide);
+        }
+    };
+    visit(mindmap.root, 0, 'right');
+
+    lines.push(`@end${keyword}`);
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate one node line */
+function generateNode(
+    node: IRMindmapNode,
+    depth: number,
+    side: MindmapSide,
+    markerStyle: 'star' | 'orgmode' | 'wbs'
+): string {
+    const marker = markerStyle === 'orgmode' ? (side === 'left' && depth > 0 ? '-' : '+') : '*';
+    let prefix = marker.repeat(depth + 1);
+    if (node.color) {
+        prefix += `[${node.color.startsWith('#') ? node.color : `#${node.color}`}]`;
+    }
+    if (node.boxless) {
+        prefix += '_';
+    }
+    if (markerStyle === 'wbs' && depth > 0 && node.side) {
+        prefix += node.side === 'left' ? '<' : '>';
+    }
+
+    return node.label.includes('\n') ? `${prefix}:${node.label};` : `${prefix} ${node.label}`;
+}
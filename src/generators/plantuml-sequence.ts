@@ -0,0 +1,153 @@
+/**
+ * PlantUML Sequence Diagram Generator
+ *
+ * Generates PlantUML sequence syntax from the sequence IR
+ *
+ * Output example:
+ *   @startuml
+ *   actor User
+ *   participant "Backend API" as API
+ *   User -> API : Request
+ *   activate API
+ *   alt success
+ *     API --> User : 200
+ *   end
+ *   deactivate API
+ *   @enduml
+ */
+
+import type {
+    Diagram,
+    IRBlock,
+    IRMessage,
+    IRNote,
+    IRParticipant,
+    IRSequenceDiagram,
+    SequenceArrowType,
+    SequenceElement,
+} from '../types';
+import { extractSequenceData } from '../parsers/sequence-parser';
+
+/** Map SequenceArrowType to PlantUML syntax; PlantUML arrows always have a head */
+const ARROW_SYNTAX: Record<SequenceArrowType, string> = {
+    'solid': '->',
+    'solid-arrow': '->',
+    'solid-cross': '->x',
+    'dotted': '-->',
+    'dotted-arrow': '-->',
+    'dotted-cross': '-->x',
+};
+
+/** Async (thin arrowhead) variants */
+const ASYNC_ARROW_SYNTAX: Partial<Record<SequenceArrowType, string>> = {
+    'solid-arrow': '->>',
+    'dotted-arrow': '-->>',
+};
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate PlantUML sequence diagram from IR */
+export function generatePlantUMLSequence(diagram: Diagram): string {
+    const sequence = extractSequenceData(diagram.type === 'sequence' ? diagram : { ...diagram, type: 'sequence' })!;
+    return generatePlantUMLSequenceCode(sequence);
+}
+
+/** Generate PlantUML sequence diagram from the sequence model */
+export function generatePlantUMLSequenceCode(sequence: IRSequenceDiagram): string {
+    const lines: string[] = ['@startuml'];
+    if (sequence.title) {
+        lines.push(`title ${sequence.title}`);
+    }
+    if (sequence.autonumber) {
+        lines.push('autonumber');
+    }
+
+    for (const participant of sequence.participants) {
+        lines.push(generateParticipant(participant));
+    }
+
+    for (const element of sequence.elements) {
+        lines.push(...generateElement(element, 0));
+    }
+
+    lines.push('@enduml');
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate participant declaration */
+function generateParticipant(participant: IRParticipant): string {
+    const label = participant.alias ?? participant.label;
+    if (label && label !== participant.id) {
+        return `${participant.type} "${label.replace(/"/g, "'")}" as ${participant.id}`;
+    }
+    return `${participant.type} ${participant.id}`;
+}
+
+/** Generate any sequence element */
+function generateElement(element: SequenceElement, depth: number): string[] {
+    const indent = '  '.repeat(depth);
+
+    switch (element.kind) {
+        case 'message':
+            return [indent + generateMessage(element.data)];
+        case 'activation':
+            return [`${indent}${element.action} ${element.data.participant}`];
+        case 'note':
+            return generateNote(element.data).map(line => indent + line);
+        case 'block':
+            return generateBlock(element.data, depth);
+        default:
+            return [];
+    }
+}
+
+/** Generate message line */
+function generateMessage(message: IRMessage): string {
+    const arrow = (message.isAsync && ASYNC_ARROW_SYNTAX[message.arrowType]) || ARROW_SYNTAX[message.arrowType] || '->';
+    const label = message.label ? ` : ${escapeLabel(message.label)}` : '';
+    return `${message.from} ${arrow} ${message.to}${label}`;
+}
+
+/** Generate note, multi-line text uses the block form */
+function generateNote(note: IRNote): string[] {
+    const target = note.position === 'over'
+        ? `over ${note.participants.join(', ')}`
+        : `${note.position} of ${note.participants[0]}`;
+
+    if (note.text.includes('\n')) {
+        return [`note ${target}`, ...note.text.split('\n'), 'end note'];
+    }
+    return [`note ${target} : ${note.text}`];
+}
+
+/** Generate block (alt, loop, par, ...) */
+function generateBlock(block: IRBlock, depth: number): string[] {
+    const indent = '  '.repeat(depth);
+    // Mermaid rect is a colored highlight without a title
+    const keyword = block.type === 'rect' ? 'group' : block.type;
+    const label = block.type === 'rect' ? '' : block.label ? ` ${block.label}` : '';
+    const lines = [`${indent}${keyword}${label}`];
+
+    block.sections.forEach((section, index) => {
+        if (index > 0) {
+            lines.push(`${indent}else${section.label ? ` ${section.label}` : ''}`);
+        }
+        for (const element of section.elements) {
+            lines.push(...generateElement(element, depth + 1));
+        }
+    });
+
+    lines.push(`${indent}end`);
+    return lines;
+}
+
+/** Escape line breaks in single-line labels */
+function escapeLabel(text: string): string {
+    return text.trim().replace(/\n/g, '\\n');
+}
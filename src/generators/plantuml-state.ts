@@ -0,0 +1,144 @@
+/**
+ * PlantUML State Diagram Generator
+ *
+ * Generates PlantUML state diagram syntax from IR
+ *
+ * Output example:
+ *   @startuml
+ *   state Active {
+ *     [*] --> Running
+ *     Running --> Paused : pause
+ *   }
+ *   Idle : entry / reset
+ *   [*] --> Idle
+ *   Idle --> Active : start [ready]
+ *   @enduml
+ */
+
+import type { Diagram, IRState, IRStateDiagram, IRTransition } from '../types';
+import { extractStateData, formatTransitionLabel, groupTransitionsByScope, walkStates } from '../utils';
+
+/** Pseudo-states declared with a stereotype */
+const STEREOTYPES: Partial<Record<IRState['type'], string>> = {
+    'fork': 'fork',
+    'join': 'join',
+    'choice': 'choice',
+    'history': 'history',
+    'deep-history': 'history*',
+};
+
+/** Shared lookups while writing nested states */
+interface GeneratorContext {
+    scopes: Map<string | undefined, IRTransition[]>;
+    /** IDs written as [*] */
+    pseudoIds: Set<string>;
+}
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate PlantUML state diagram from IR */
+export function generatePlantUMLState(diagram: Diagram): string {
+    const stateDiagram = extractStateData(diagram.type === 'state' ? diagram : { ...diagram, type: 'state' })!;
+    return generatePlantUMLStateCode(stateDiagram);
+}
+
+/** Generate PlantUML state diagram from the state machine model */
+export function generatePlantUMLStateCode(stateDiagram: IRStateDiagram): string {
+    const lines: string[] = ['@startuml'];
+
+    if (stateDiagram.title) {
+        lines.push(`title ${stateDiagram.title}`);
+    }
+    if (stateDiagram.direction === 'LR' || stateDiagram.direction === 'RL') {
+        lines.push('left to right direction');
+    }
+
+    const pseudoIds = new Set<string>();
+    walkStates(stateDiagram.states, state => {
+        if (state.type === 'start' || state.type === 'end') pseudoIds.add(state.id);
+    });
+    const context: GeneratorContext = { scopes: groupTransitionsByScope(stateDiagram), pseudoIds };
+
+    for (const state of stateDiagram.states) {
+        lines.push(...generateState(state, 0, context));
+    }
+    for (const transition of context.scopes.get(undefined) ?? []) {
+        lines.push(generateTransition(transition, context));
+    }
+
+    for (const note of stateDiagram.notes ?? []) {
+        const target = sanitizeId(note.stateId);
+        if (note.text.includes('\n')) {
+            lines.push(`note ${note.position} of ${target}`, ...note.text.split('\n'), 'end note');
+        } else {
+            lines.push(`note ${note.position} of ${target} : ${note.text}`);
+        }
+    }
+
+    lines.push('@enduml');
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Generate the declaration, children and actions of a state */
+function generateState(state: IRState, depth: number, context: GeneratorContext): string[] {
+    if (state.type === 'start' || state.type === 'end') {
+        return [];
+    }
+
+    const indent = '  '.repeat(depth);
+    const id = sanitizeId(state.id);
+    const label = state.label && state.label !== state.id ? `"${escapeLabel(state.label)}" as ` : '';
+    const lines: string[] = [];
+
+    const stereotype = STEREOTYPES[state.type];
+    if (stereotype) {
+        lines.push(`${indent}state ${id} <<${stereotype}>>`);
+    } else if (state.children && state.children.length > 0) {
+        lines.push(`${indent}state ${label}${id} {`);
+        state.children.forEach((child, i) => {
+            // Orthogonal regions are separated by --
+            if (state.parallel && i > 0) {
+                lines.push(`${indent}  --`);
+            }
+            lines.push(...generateState(child, depth + 1, context));
+        });
+        for (const transition of context.scopes.get(state.id) ?? []) {
+            lines.push(`${indent}  ${generateTransition(transition, context)}`);
+        }
+        lines.push(`${indent}}`);
+    } else {
+        lines.push(`${indent}state ${label}${id}`);
+    }
+
+    if (state.description && state.description !== state.label) {
+        lines.push(`${indent}${id} : ${escapeLabel(state.description)}`);
+    }
+    for (const action of state.actions ?? []) {
+        lines.push(`${indent}${id} : ${action.type} / ${action.action}`);
+    }
+
+    return lines;
+}
+
+/** Generate a transition line */
+function generateTransition(transition: IRTransition, context: GeneratorContext): string {
+    const ref = (id: string) => context.pseudoIds.has(id) ? '[*]' : sanitizeId(id);
+    const label = formatTransitionLabel(transition);
+    return `${ref(transition.source)} --> ${ref(transition.target)}${label ? ` : ${label.replace(/\n/g, '\\n')}` : ''}`;
+}
+
+/** Sanitize a state ID for PlantUML */
+function sanitizeId(id: string): string {
+    return id.replace(/[^a-zA-Z0-9_]/g, '_');
+}
+
+/** Escape a quoted label */
+function escapeLabel(label: string): string {
+    return label.replace(/"/g, "'").replace(/\n/g, '\\n');
+}
@@ -4,13 +4,19 @@
  * Generates PlantUML activity/component diagram syntax from IR
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, ArrowConfig, NodeShape } from '../types';
+import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, ArrowConfig, NodeShape, LayoutDirection } from '../types';
 import { generatePlantUMLArrow, PLANTUML_SHAPE_MAP } from '../utils';
 
+/** PlantUML generation options */
+export interface PlantUMLOptions {
+    /** Diagram direction; LR and RL become `left to right direction`, also for class, state and ER diagrams (default: the direction of the source) */
+    direction?: LayoutDirection;
+}
+
 /** Generate PlantUML diagram from IR */
-export function generatePlantUML(diagram: Diagram): string {
+export function generatePlantUML(diagram: Diagram, options: PlantUMLOptions = {}): string {
     const lines: string[] = [];
-    const direction = (diagram.metadata?.direction as string) || 'TB';
+    const direction = options.direction || (diagram.metadata?.direction as string) || 'TB';
 
     // Header
     lines.push('@startuml');
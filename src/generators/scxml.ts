@@ -0,0 +1,197 @@
+/**
+ * SCXML Generator
+ *
+ * Generates W3C State Chart XML (SCXML) from IR
+ *
+ * Output example:
+ *   <scxml xmlns="http://www.w3.org/2005/07/scxml" version="1.0" initial="Idle">
+ *     <state id="Idle">
+ *       <onentry><script>reset</script></onentry>
+ *       <transition event="start" cond="ready" target="Active"/>
+ *     </state>
+ *     <final id="Done"/>
+ *   </scxml>
+ *
+ * Start pseudo-states become `initial` attributes or `<initial>` elements,
+ * end states become `<final>`, and actions are written as `<script>` blocks.
+ * Choice, fork and join have no SCXML counterpart and are written as plain
+ * states with eventless transitions.
+ */
+
+import type { Diagram, IRState, IRStateDiagram, IRTransition } from '../types';
+import { escapeXml, extractStateData, parseTransitionLabel, sanitizeId } from '../utils';
+
+/** SCXML namespace */
+const SCXML_NS = 'http://www.w3.org/2005/07/scxml';
+
+/** Executable content container per state action type */
+const ACTION_ELEMENTS = {
+    entry: 'onentry',
+    exit: 'onexit',
+} as const;
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate SCXML from IR */
+export function generateSCXML(diagram: Diagram): string {
+    const stateDiagram = extractStateData(diagram.type === 'state' ? diagram : { ...diagram, type: 'state' })!;
+    return generateSCXMLCode(stateDiagram);
+}
+
+/** Generate SCXML from the state machine model */
+export function generateSCXMLCode(stateDiagram: IRStateDiagram): string {
+    const outgoing = new Map<string, IRTransition[]>();
+    for (const transition of stateDiagram.transitions) {
+        outgoing.set(transition.source, [...(outgoing.get(transition.source) ?? []), transition]);
+    }
+
+    const attrs = [`xmlns="${SCXML_NS}"`, 'version="1.0"'];
+    if (stateDiagram.title) {
+        attrs.push(`name="${escapeXml(stateDiagram.title)}"`);
+    }
+    const { initialAttr, initialLines } = generateInitial(stateDiagram.states, outgoing, 1);
+    if (initialAttr) {
+        attrs.push(initialAttr);
+    }
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<scxml ${attrs.join(' ')}>`,
+        ...initialLines,
+    ];
+    for (const state of stateDiagram.states) {
+        lines.push(...generateState(state, outgoing, 1));
+    }
+    lines.push('</scxml>');
+
+    return lines.join('\n');
+}
+
+// =============================================================================
+// Element Generators
+// =============================================================================
+
+/** Initial state of a scope: an attribute, or an <initial> element when the transition has an action */
+function generateInitial(
+    children: IRState[],
+    outgoing: Map<string, IRTransition[]>,
+    depth: number
+): { initialAttr?: string; initialLines: string[] } {
+    const start = children.find(child => child.type === 'start');
+    const transition = start ? outgoing.get(start.id)?.[0] : undefined;
+    if (!transition) {
+        return { initialLines: [] };
+    }
+
+    const action = transitionParts(transition).action;
+    if (!action) {
+        return { initialAttr: `initial="${escapeXml(sanitizeId(transition.target))}"`, initialLines: [] };
+    }
+
+    const indent = '  '.repeat(depth);
+    return {
+        initialLines: [
+            `${indent}<initial>`,
+            `${indent}  <transition target="${escapeXml(sanitizeId(transition.target))}">`,
+            `${indent}    ${script(action)}`,
+            `${indent}  </transition>`,
+            `${indent}</initial>`,
+        ],
+    };
+}
+
+/** Generate a state element with its actions, transitions and children */
+function generateState(state: IRState, outgoing: Map<string, IRTransition[]>, depth: number): string[] {
+    // Start states are folded into the parent's initial
+    if (state.type === 'start') {
+        return [];
+    }
+
+    const indent = '  '.repeat(depth);
+    const id = `id="${escapeXml(sanitizeId(state.id))}"`;
+    const children = state.children ?? [];
+    const isCompound = children.length > 0;
+
+    let tag = 'state';
+    const attrs = [id];
+    if (state.type === 'end') {
+        tag = 'final';
+    } else if (state.type === 'history' || state.type === 'deep-history') {
+        tag = 'history';
+        attrs.push(`type="${state.type === 'deep-history' ? 'deep' : 'shallow'}"`);
+    } else if (isCompound && state.parallel) {
+        tag = 'parallel';
+    }
+
+    const body: string[] = [];
+    let initialLines: string[] = [];
+    if (isCompound && tag === 'state') {
+        const initial = generateInitial(children, outgoing, depth + 1);
+        if (initial.initialAttr) attrs.push(initial.initialAttr);
+        initialLines = initial.initialLines;
+    }
+
+    for (const type of ['entry', 'exit'] as const) {
+        const actions = (state.actions ?? []).filter(a => a.type === type);
+        if (actions.length > 0) {
+            body.push(`${indent}  <${ACTION_ELEMENTS[type]}>`);
+            body.push(...actions.map(a => `${indent}    ${script(a.action)}`));
+            body.push(`${indent}  </${ACTION_ELEMENTS[type]}>`);
+        }
+    }
+    for (const activity of (state.actions ?? []).filter(a => a.type === 'do')) {
+        body.push(`${indent}  <invoke src="${escapeXml(activity.action)}"/>`);
+    }
+
+    for (const transition of outgoing.get(state.id) ?? []) {
+        body.push(...generateTransition(transition, depth + 1));
+    }
+
+    body.push(...initialLines);
+    for (const child of children) {
+        body.push(...generateState(child, outgoing, depth + 1));
+    }
+
+    if (body.length === 0) {
+        return [`${indent}<${tag} ${attrs.join(' ')}/>`];
+    }
+    return [`${indent}<${tag} ${attrs.join(' ')}>`, ...body, `${indent}</${tag}>`];
+}
+
+/** Generate a transition element */
+function generateTransition(transition: IRTransition, depth: number): string[] {
+    const indent = '  '.repeat(depth);
+    const { event, guard, action } = transitionParts(transition);
+
+    const attrs: string[] = [];
+    if (event) attrs.push(`event="${escapeXml(event)}"`);
+    if (guard) attrs.push(`cond="${escapeXml(guard)}"`);
+    // Targetless transitions run their action without leaving the state
+    if (!transition.metadata?.targetless) {
+        attrs.push(`target="${escapeXml(sanitizeId(transition.target))}"`);
+    }
+
+    if (!action) {
+        return [`${indent}<transition ${attrs.join(' ')}/>`];
+    }
+    return [
+        `${indent}<transition ${attrs.join(' ')}>`,
+        `${indent}  ${script(action)}`,
+        `${indent}</transition>`,
+    ];
+}
+
+/** Event, guard and action, from the transition or its label */
+function transitionParts(transition: IRTransition): { event?: string; guard?: string; action?: string } {
+    if (transition.event || transition.guard || transition.action) {
+        return transition;
+    }
+    return transition.label ? parseTransitionLabel(transition.label) : {};
+}
+
+/** Executable content for a free-text action */
+function script(action: string): string {
+    return `<script>${escapeXml(action)}</script>`;
+}
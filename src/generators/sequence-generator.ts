@@ -28,6 +28,12 @@ const ARROW_SYNTAX: Record<SequenceArrowType, string> = {
     'dotted-cross': '--x',
 };
 
+/** Async (open arrowhead) variants */
+const ASYNC_ARROW_SYNTAX: Partial<Record<SequenceArrowType, string>> = {
+    'solid-arrow': '-)',
+    'dotted-arrow': '--)',
+};
+
 // =============================================================================
 // Main Generator
 // =============================================================================
@@ -44,6 +50,10 @@ export function generateSequenceDiagram(diagram: IRSequenceDiagram): string {
         lines.push(`    title: ${diagram.title}`);
     }
 
+    if (diagram.autonumber) {
+        lines.push('    autonumber');
+    }
+
     // Participants
     for (const participant of diagram.participants) {
         lines.push(`    ${generateParticipant(participant)}`);
@@ -70,16 +80,20 @@ export function generateSequenceDiagram(diagram: IRSequenceDiagram): string {
 /** Generate participant declaration */
 function generateParticipant(participant: IRParticipant): string {
     const keyword = participant.type === 'actor' ? 'actor' : 'participant';
+    // Other participant types use the typed syntax: participant DB@{ "type" : "database" }
+    const typed = keyword === 'participant' && participant.type !== 'participant'
+        ? `@{ "type" : "${participant.type}" }`
+        : '';
     
     if (participant.alias && participant.alias !== participant.id) {
-        return `${keyword} ${participant.id} as ${participant.alias}`;
+        return `${keyword} ${participant.id}${typed} as ${participant.alias}`;
     }
     
     if (participant.label !== participant.id) {
-        return `${keyword} ${participant.id} as ${participant.label}`;
+        return `${keyword} ${participant.id}${typed} as ${participant.label}`;
     }
     
-    return `${keyword} ${participant.id}`;
+    return `${keyword} ${participant.id}${typed}`;
 }
 
 /** Generate any sequence element */
@@ -106,7 +120,7 @@ function generateElement(element: SequenceElement, indentLevel: number): string[
 
 /** Generate message line */
 function generateMessage(message: IRMessage): string {
-    const arrow = ARROW_SYNTAX[message.arrowType] || '->>';
+    const arrow = (message.isAsync && ASYNC_ARROW_SYNTAX[message.arrowType]) || ARROW_SYNTAX[message.arrowType] || '->>';
     const label = message.label ? `: ${escapeLabel(message.label)}` : '';
     
     return `${message.from}${arrow}${message.to}${label}`;
@@ -130,17 +144,21 @@ function generateBlock(block: IRBlock, indentLevel: number): string[] {
     const lines: string[] = [];
     const indent = '    '.repeat(indentLevel);
     
-    // Block start
-    const label = block.label ? ` ${block.label}` : '';
-    lines.push(`${indent}${block.type}${label}`);
+    // Block start; Mermaid has no labelled group, so it becomes a highlight
+    if (block.type === 'group') {
+        lines.push(`${indent}rect rgb(240, 240, 240)`);
+    } else {
+        const label = block.label ? ` ${block.label}` : '';
+        lines.push(`${indent}${block.type}${label}`);
+    }
     
     // Sections
     for (let i = 0; i < block.sections.length; i++) {
         const section = block.sections[i];
         
-        // Add section separator for alt/par (else/and)
+        // Add section separator for alt/par/critical (else/and/option)
         if (i > 0) {
-            const separator = block.type === 'par' ? 'and' : 'else';
+            const separator = block.type === 'par' ? 'and' : block.type === 'critical' ? 'option' : 'else';
             const sectionLabel = section.label ? ` ${section.label}` : '';
             lines.push(`${indent}${separator}${sectionLabel}`);
         }
@@ -166,9 +184,9 @@ function generateBlock(block: IRBlock, indentLevel: number): string[] {
 function escapeLabel(text: string): string {
     // Escape characters that might break Mermaid syntax
     return text
-        .replace(/\n/g, ' ')
-        .replace(/:/g, '&#58;')
-        .trim();
+        .trim()
+        .replace(/\n/g, '<br/>')
+        .replace(/:/g, '&#58;');
 }
 
 /** Alias for backward compatibility */
@@ -0,0 +1,232 @@
+/**
+ * SQL DDL Generator
+ *
+ * Generates CREATE TABLE statements from ER diagrams
+ *
+ * Output example:
+ *   CREATE TABLE CUSTOMER (
+ *       id INTEGER PRIMARY KEY,
+ *       name VARCHAR(255)
+ *   );
+ *
+ *   CREATE TABLE "ORDER" (
+ *       orderNumber INTEGER PRIMARY KEY,
+ *       customer_id INTEGER NOT NULL,
+ *       CONSTRAINT fk_order_customer FOREIGN KEY (customer_id) REFERENCES CUSTOMER (id) -- places
+ *   );
+ *
+ * Foreign keys are inferred from relationship cardinalities (see
+ * resolveERSchema). Tables are ordered so that referenced tables come first;
+ * keys within a reference cycle are added with ALTER TABLE at the end.
+ * Many-to-many relationships get a junction table.
+ */
+
+import type { Diagram } from '../types';
+import type { IRERDiagram } from '../types/er';
+import type { ERColumn, ERForeignKey, ERTable } from '../utils/er';
+import { extractERData, primaryKeyColumns, resolveERSchema, snakeCase } from '../utils/er';
+import { convertToERFormat } from './er-generator';
+
+/** ER attribute types and their SQL equivalents */
+const SQL_TYPES: Record<string, string> = {
+    string: 'VARCHAR(255)',
+    str: 'VARCHAR(255)',
+    text: 'TEXT',
+    int: 'INTEGER',
+    integer: 'INTEGER',
+    long: 'BIGINT',
+    bigint: 'BIGINT',
+    smallint: 'SMALLINT',
+    float: 'FLOAT',
+    double: 'DOUBLE PRECISION',
+    decimal: 'DECIMAL',
+    number: 'NUMERIC',
+    numeric: 'NUMERIC',
+    money: 'DECIMAL(19,4)',
+    bool: 'BOOLEAN',
+    boolean: 'BOOLEAN',
+    date: 'DATE',
+    time: 'TIME',
+    datetime: 'TIMESTAMP',
+    timestamp: 'TIMESTAMP',
+    uuid: 'UUID',
+    json: 'JSON',
+    blob: 'BLOB',
+    binary: 'BLOB',
+    bytes: 'BLOB',
+};
+
+/** Words that must be quoted when used as identifiers */
+const RESERVED_WORDS = new Set([
+    'ALL', 'ALTER', 'AND', 'AS', 'ASC', 'BETWEEN', 'BY', 'CASE', 'CHECK', 'COLUMN', 'CONSTRAINT',
+    'CREATE', 'CROSS', 'DEFAULT', 'DELETE', 'DESC', 'DISTINCT', 'DROP', 'ELSE', 'END', 'EXISTS',
+    'FOREIGN', 'FROM', 'FULL', 'GRANT', 'GROUP', 'HAVING', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTO',
+    'IS', 'JOIN', 'KEY', 'LEFT', 'LIKE', 'LIMIT', 'NOT', 'NULL', 'ON', 'OR', 'ORDER', 'OUTER',
+    'PRIMARY', 'REFERENCES', 'RIGHT', 'ROLE', 'SELECT', 'SET', 'TABLE', 'THEN', 'TO', 'UNION',
+    'UNIQUE', 'UPDATE', 'USER', 'USING', 'VALUES', 'VIEW', 'WHEN', 'WHERE', 'WITH',
+]);
+
+/** Line inside a CREATE TABLE body */
+interface TableItem {
+    sql: string;
+    comment?: string;
+}
+
+// =============================================================================
+// Generator
+// =============================================================================
+
+/** Generate SQL DDL from an ER diagram; other diagrams are read as ER first */
+export function generateSQL(diagram: Diagram): string {
+    const erDiagram = extractERData(diagram.type === 'er' ? diagram : convertToERFormat(diagram))!;
+    return generateSQLCode(erDiagram);
+}
+
+/** Generate SQL DDL from the ER model */
+export function generateSQLCode(erDiagram: IRERDiagram): string {
+    const schema = resolveERSchema(erDiagram);
+    const tables = new Map(schema.tables.map(table => [table.entity.id, table]));
+    const constraintNames = new Set<string>();
+    const constraintName = (base: string) => {
+        let name = base;
+        for (let i = 2; constraintNames.has(name); i++) {
+            name = `${base}_${i}`;
+        }
+        constraintNames.add(name);
+        return name;
+    };
+
+    const statements: string[] = [];
+    const deferred: string[] = [];
+    const created = new Set<string>();
+
+    for (const table of orderTables(schema.tables, schema.foreignKeys)) {
+        const items = columnItems(table);
+        for (const fk of schema.foreignKeys.filter(key => key.table === table.entity.id)) {
+            const name = constraintName(`fk_${snakeCase(table.entity.name)}_${snakeCase(tables.get(fk.referencedTable)!.entity.name)}`);
+            const constraint = foreignKeyConstraint(name, fk, tables);
+            // Self-references can be declared inline; later tables cannot
+            if (fk.referencedTable === table.entity.id || created.has(fk.referencedTable)) {
+                items.push({ sql: constraint, comment: fk.relationship.label });
+            } else {
+                const comment = fk.relationship.label ? ` -- ${fk.relationship.label.replace(/\s*\n\s*/g, ' ')}` : '';
+                deferred.push(`ALTER TABLE ${quoteIdentifier(table.entity.name)} ADD ${constraint};${comment}`);
+            }
+        }
+        statements.push(createTable(table.entity.name, items));
+        created.add(table.entity.id);
+    }
+
+    for (const rel of schema.manyToMany) {
+        const source = tables.get(rel.source)!;
+        const target = tables.get(rel.target)!;
+        const sides = [
+            { table: source, prefix: snakeCase(source.entity.name) },
+            { table: target, prefix: source === target ? 'related' : snakeCase(target.entity.name) },
+        ];
+        const name = `${source.entity.name}_${target.entity.name}`;
+
+        const items: TableItem[] = [];
+        const keyColumns: string[] = [];
+        const constraints: TableItem[] = [];
+        for (const side of sides) {
+            const keys = primaryKeyColumns(side.table);
+            const columns = keys.map(key => `${side.prefix}_${key.name}`);
+            keys.forEach((key, i) => items.push({ sql: `${quoteIdentifier(columns[i])} ${sqlType(key.type)} NOT NULL` }));
+            keyColumns.push(...columns);
+            constraints.push({
+                sql: `CONSTRAINT ${constraintName(`fk_${snakeCase(name)}_${side.prefix}`)} FOREIGN KEY (${columns.map(quoteIdentifier).join(', ')}) REFERENCES ${quoteIdentifier(side.table.entity.name)} (${keys.map(key => quoteIdentifier(key.name)).join(', ')})`,
+            });
+        }
+        items.push({ sql: `PRIMARY KEY (${keyColumns.map(quoteIdentifier).join(', ')})` }, ...constraints);
+        if (rel.label) {
+            items[items.length - 1].comment = rel.label;
+        }
+        statements.push(createTable(name, items));
+    }
+
+    const header = erDiagram.title ? [`-- ${erDiagram.title}`, ''] : [];
+    return [...header, [...statements, ...(deferred.length > 0 ? [deferred.join('\n')] : [])].join('\n\n')].join('\n');
+}
+
+// =============================================================================
+// Statement Builders
+// =============================================================================
+
+/** Column definitions and the primary key of a table */
+function columnItems(table: ERTable): TableItem[] {
+    const keys = primaryKeyColumns(table);
+    const items: TableItem[] = table.columns.map(column => ({
+        sql: columnDefinition(column, keys.length === 1),
+        comment: column.comment,
+    }));
+    if (keys.length > 1) {
+        items.push({ sql: `PRIMARY KEY (${keys.map(key => quoteIdentifier(key.name)).join(', ')})` });
+    }
+    return items;
+}
+
+/** `name TYPE [PRIMARY KEY | NOT NULL] [UNIQUE]` */
+function columnDefinition(column: ERColumn, inlinePrimaryKey: boolean): string {
+    const parts = [quoteIdentifier(column.name), sqlType(column.type)];
+    if (column.primaryKey && inlinePrimaryKey) {
+        parts.push('PRIMARY KEY');
+    } else if (column.notNull) {
+        parts.push('NOT NULL');
+    }
+    if (column.unique && !column.primaryKey) {
+        parts.push('UNIQUE');
+    }
+    return parts.join(' ');
+}
+
+/** `CONSTRAINT name FOREIGN KEY (...) REFERENCES table (...)` */
+function foreignKeyConstraint(name: string, fk: ERForeignKey, tables: Map<string, ERTable>): string {
+    const columns = fk.columns.map(quoteIdentifier).join(', ');
+    const referenced = fk.referencedColumns.map(quoteIdentifier).join(', ');
+    return `CONSTRAINT ${name} FOREIGN KEY (${columns}) REFERENCES ${quoteIdentifier(tables.get(fk.referencedTable)!.entity.name)} (${referenced})`;
+}
+
+/** CREATE TABLE statement; comments follow the separating comma */
+function createTable(name: string, items: TableItem[]): string {
+    const lines = items.map((item, i) => {
+        const separator = i < items.length - 1 ? ',' : '';
+        const comment = item.comment ? ` -- ${item.comment.replace(/\s*\n\s*/g, ' ')}` : '';
+        return `    ${item.sql}${separator}${comment}`;
+    });
+    return [`CREATE TABLE ${quoteIdentifier(name)} (`, ...lines, ');'].join('\n');
+}
+
+/** Tables with referenced tables first; tables in a cycle keep their diagram order */
+function orderTables(tables: ERTable[], foreignKeys: ERForeignKey[]): ERTable[] {
+    const ordered: ERTable[] = [];
+    const placed = new Set<string>();
+    const remaining = [...tables];
+
+    while (remaining.length > 0) {
+        const index = remaining.findIndex(table => foreignKeys.every(fk =>
+            fk.table !== table.entity.id || fk.referencedTable === fk.table || placed.has(fk.referencedTable)
+        ));
+        const [next] = remaining.splice(index === -1 ? 0 : index, 1);
+        ordered.push(next);
+        placed.add(next.entity.id);
+    }
+    return ordered;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/** SQL type for an ER attribute type; unknown types are kept as written */
+function sqlType(type: string): string {
+    return SQL_TYPES[type.toLowerCase()] ?? type.toUpperCase();
+}
+
+/** Quote identifiers that are reserved or not plain words */
+function quoteIdentifier(name: string): string {
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name.toUpperCase())) {
+        return name;
+    }
+    return `"${name.replace(/"/g, '""')}"`;
+}
@@ -4,16 +4,9 @@
  * Generates Mermaid stateDiagram-v2 syntax from IR
  */
 
-import type { Diagram, DiagramNode, DiagramGroup } from '../types';
-import type {
-    IRStateDiagram,
-    IRState,
-    IRTransition,
-    IRStateNote,
-    StateDirection,
-    StateType,
-} from '../types/state';
-import { generateId } from '../utils';
+import type { Diagram } from '../types';
+import type { IRStateDiagram, IRState, IRTransition } from '../types/state';
+import { extractStateData, formatTransitionLabel, groupTransitionsByScope, walkStates } from '../utils';
 
 // =============================================================================
 // Generator
@@ -21,7 +14,7 @@ import { generateId } from '../utils';
 
 /** Generate Mermaid state diagram from generic IR */
 export function generateStateDiagram(diagram: Diagram): string {
-    const stateDiagram = convertIRToStateDiagram(diagram);
+    const stateDiagram = extractStateData(diagram.type === 'state' ? diagram : { ...diagram, type: 'state' })!;
     return generateStateDiagramCode(stateDiagram);
 }
 
@@ -37,20 +30,21 @@ export function generateStateDiagramCode(stateDiagram: IRStateDiagram): string {
         lines.push(`    direction ${stateDiagram.direction}`);
     }
 
-    // Track which states are in composite states
-    const statesInComposites = new Set<string>();
-    collectNestedStateIds(stateDiagram.states, statesInComposites);
+    // Start and end pseudo-states are written as [*]
+    const pseudoIds = new Set<string>();
+    walkStates(stateDiagram.states, state => {
+        if (state.type === 'start' || state.type === 'end') pseudoIds.add(state.id);
+    });
+    const context: GeneratorContext = { scopes: groupTransitionsByScope(stateDiagram), pseudoIds };
 
-    // Generate top-level states (not nested)
+    // Generate top-level states; composites carry their nested states and transitions
     for (const state of stateDiagram.states) {
-        if (!isNestedState(state.id, stateDiagram.states)) {
-            lines.push(...generateStateLines(state, 1));
-        }
+        lines.push(...generateStateLines(state, 1, context));
     }
 
-    // Generate transitions
-    for (const transition of stateDiagram.transitions) {
-        lines.push(`    ${generateTransitionLine(transition)}`);
+    // Generate top-level transitions
+    for (const transition of context.scopes.get(undefined) ?? []) {
+        lines.push(`    ${generateTransitionLine(transition, context)}`);
     }
 
     // Generate notes
@@ -67,8 +61,16 @@ export function generateStateDiagramCode(stateDiagram: IRStateDiagram): string {
 // State Generation
 // =============================================================================
 
+/** Shared lookups while writing nested states */
+interface GeneratorContext {
+    /** Transitions by the composite state that encloses them */
+    scopes: Map<string | undefined, IRTransition[]>;
+    /** IDs written as [*] */
+    pseudoIds: Set<string>;
+}
+
 /** Generate lines for a state */
-function generateStateLines(state: IRState, indent: number): string[] {
+function generateStateLines(state: IRState, indent: number, context: GeneratorContext): string[] {
     const lines: string[] = [];
     const prefix = '    '.repeat(indent);
 
@@ -90,9 +92,16 @@ function generateStateLines(state: IRState, indent: number): string[] {
             : '';
         lines.push(`${prefix}state ${label}${sanitizeStateId(state.id)} {`);
 
-        // Generate child states
+        // Generate child states and the transitions between them; orthogonal regions are separated by --
+        let regions = 0;
         for (const child of state.children) {
-            lines.push(...generateStateLines(child, indent + 1));
+            const childLines = generateStateLines(child, indent + 1, context);
+            if (childLines.length === 0) continue;
+            if (state.parallel && regions++ > 0) lines.push(`${prefix}    --`);
+            lines.push(...childLines);
+        }
+        for (const transition of context.scopes.get(state.id) ?? []) {
+            lines.push(`${prefix}    ${generateTransitionLine(transition, context)}`);
         }
 
         lines.push(`${prefix}}`);
@@ -113,171 +122,38 @@ function generateStateLines(state: IRState, indent: number): string[] {
         }
     }
 
+    // Bare declaration, so states without transitions are kept
+    if (lines.length === 0) {
+        lines.push(`${prefix}${sanitizeStateId(state.id)}`);
+    }
+
     return lines;
 }
 
 /** Generate transition line */
-function generateTransitionLine(transition: IRTransition): string {
-    const source = formatStateRef(transition.source);
-    const target = formatStateRef(transition.target);
+function generateTransitionLine(transition: IRTransition, context: GeneratorContext): string {
+    const source = formatStateRef(transition.source, context);
+    const target = formatStateRef(transition.target, context);
 
     let line = `${source} --> ${target}`;
 
-    // Add label
-    if (transition.label) {
-        line += ` : ${escapeLabel(transition.label)}`;
-    } else if (transition.event || transition.guard || transition.action) {
-        // Build label from components
-        let label = transition.event || '';
-        if (transition.guard) {
-            label += `[${transition.guard}]`;
-        }
-        if (transition.action) {
-            label += `/${transition.action}`;
-        }
-        if (label) {
-            line += ` : ${label}`;
-        }
+    // Label, or event[guard]/action built from its parts
+    const label = formatTransitionLabel(transition);
+    if (label) {
+        line += ` : ${escapeLabel(label)}`;
     }
 
     return line;
 }
 
 /** Format state reference (handle start/end states) */
-function formatStateRef(stateId: string): string {
-    if (stateId.startsWith('__start_') || stateId.startsWith('__end_')) {
+function formatStateRef(stateId: string, context: GeneratorContext): string {
+    if (context.pseudoIds.has(stateId)) {
         return '[*]';
     }
     return sanitizeStateId(stateId);
 }
 
-// =============================================================================
-// Conversion from Generic IR
-// =============================================================================
-
-/** Convert generic diagram IR to state diagram IR */
-function convertIRToStateDiagram(diagram: Diagram): IRStateDiagram {
-    const states: IRState[] = [];
-    const transitions: IRTransition[] = [];
-    const notes: IRStateNote[] = [];
-
-    const stateMap = new Map<string, IRState>();
-    const groupMap = new Map<string, DiagramGroup>();
-
-    // Build group map
-    for (const group of diagram.groups) {
-        groupMap.set(group.id, group);
-    }
-
-    // Convert nodes to states
-    for (const node of diagram.nodes) {
-        // Skip note nodes
-        if (node.shape === 'note' && node.metadata?.noteFor) {
-            notes.push({
-                id: node.id,
-                stateId: node.metadata.noteFor as string,
-                position: (node.metadata.notePosition as 'left' | 'right') || 'right',
-                text: node.label,
-            });
-            continue;
-        }
-
-        const state = convertNodeToState(node);
-        states.push(state);
-        stateMap.set(node.id, state);
-    }
-
-    // Handle composite states from groups
-    for (const group of diagram.groups) {
-        const compositeStateId = group.metadata?.compositeStateId as string;
-        if (compositeStateId && stateMap.has(compositeStateId)) {
-            const compositeState = stateMap.get(compositeStateId)!;
-            compositeState.type = 'composite';
-            compositeState.children = [];
-
-            for (const childId of group.children) {
-                const childState = stateMap.get(childId);
-                if (childState) {
-                    compositeState.children.push(childState);
-                }
-            }
-        }
-    }
-
-    // Convert edges to transitions
-    for (const edge of diagram.edges) {
-        transitions.push({
-            id: edge.id,
-            source: edge.source,
-            target: edge.target,
-            label: edge.label,
-        });
-    }
-
-    // Get direction from metadata
-    const direction = (diagram.metadata?.direction as StateDirection) || 'TB';
-
-    return {
-        id: diagram.id,
-        title: diagram.name,
-        direction,
-        states: filterTopLevelStates(states, diagram.groups),
-        transitions,
-        notes: notes.length > 0 ? notes : undefined,
-    };
-}
-
-/** Convert diagram node to state */
-function convertNodeToState(node: DiagramNode): IRState {
-    let stateType: StateType = 'state';
-
-    // Determine state type from metadata or shape
-    if (node.metadata?.stateType) {
-        stateType = node.metadata.stateType as StateType;
-    } else {
-        switch (node.shape) {
-            case 'circle':
-                // Could be start, end, or history - check label
-                if (node.label === '[*]') {
-                    // Determine from context (would need edge info)
-                    stateType = 'state'; // Default, will be refined
-                }
-                break;
-            case 'diamond':
-                stateType = 'choice';
-                break;
-            case 'rounded-rectangle':
-            default:
-                stateType = 'state';
-        }
-    }
-
-    return {
-        id: node.id,
-        type: stateType,
-        label: node.label,
-        position: node.position,
-        size: node.size,
-        style: node.style,
-        metadata: node.metadata,
-    };
-}
-
-/** Filter to get only top-level states (not nested in composites) */
-function filterTopLevelStates(states: IRState[], groups: DiagramGroup[]): IRState[] {
-    const nestedIds = new Set<string>();
-
-    for (const group of groups) {
-        if (group.metadata?.compositeStateId) {
-            for (const childId of group.children) {
-                nestedIds.add(childId);
-            }
-        }
-    }
-
-    return states.filter(s => !nestedIds.has(s.id));
-}
-
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -303,32 +179,3 @@ function escapeLabel(label: string): string {
         .replace(/:/g, '-')
         .trim();
 }
-
-/** Collect all nested state IDs */
-function collectNestedStateIds(states: IRState[], nestedIds: Set<string>): void {
-    for (const state of states) {
-        if (state.children) {
-            for (const child of state.children) {
-                nestedIds.add(child.id);
-                collectNestedStateIds([child], nestedIds);
-            }
-        }
-    }
-}
-
-/** Check if state is nested in another state */
-function isNestedState(stateId: string, allStates: IRState[]): boolean {
-    for (const state of allStates) {
-        if (state.children) {
-            for (const child of state.children) {
-                if (child.id === stateId) {
-                    return true;
-                }
-                if (isNestedState(stateId, [child])) {
-                    return true;
-                }
-            }
-        }
-    }
-    return false;
-}
@@ -1,96 +1,364 @@
 /**
  * Structurizr DSL Generator
  *
- * Generates Structurizr DSL (C4 model) from IR
+ * Generates Structurizr DSL (C4 model) from IR. Element kinds, technology,
+ * tags, groups, deployment environments and views come from the C4 layer;
+ * plain diagrams are mapped onto it first (actors become people, groups
+ * become software systems).
  */
 
 import type { Diagram } from '../types';
+import type { C4ElementKind, IRC4Diagram, IRC4Element, IRC4Relationship, IRC4View } from '../types/c4';
+import { C4_PARENT_KIND, isC4DeploymentElement } from '../types/c4';
+import { buildC4Tree, defaultC4Scope, extractC4Data, type C4TreeEntry } from '../utils';
 
 /** Generate Structurizr DSL from IR */
 export function generateStructurizr(diagram: Diagram): string {
+    return generateStructurizrCode(extractC4Data(diagram.type === 'c4' ? diagram : { ...diagram, type: 'c4' })!);
+}
+
+/** Generate Structurizr DSL from the C4 model */
+export function generateStructurizrCode(c4: IRC4Diagram): string {
     const lines: string[] = [];
-    const identifierMap = buildIdentifierMap(diagram);
+    const identifierMap = buildIdentifierMap(c4);
+    const ref = (id: string) => identifierMap.get(id) ?? sanitizeStructurizrIdentifier(id);
+    const byId = new Map(c4.elements.map(element => [element.id, element]));
+    const kinds = resolveKinds(c4, byId);
 
-    lines.push('workspace {');
+    const header = [c4.title, c4.description].filter((value): value is string => value !== undefined);
+    lines.push(header.length > 0 ? `workspace ${header.map(quote).join(' ')} {` : 'workspace {');
     lines.push('    model {');
 
-    // Track which nodes are in groups
-    const nodesInGroups = new Set<string>();
-    for (const group of diagram.groups) {
-        for (const childId of group.children) {
-            nodesInGroups.add(childId);
+    // Static structure: people, software systems, containers and components
+    const staticElements = c4.elements.filter(element => !isC4DeploymentElement(element.kind));
+    const emit = (entries: C4TreeEntry[], depth: number) => {
+        const indent = '    '.repeat(depth);
+        for (const entry of entries) {
+            if ('group' in entry) {
+                const keyword = entry.group.kind === 'enterprise' && depth === 2 ? 'enterprise' : 'group';
+                lines.push(`${indent}${keyword} ${quote(entry.group.name)} {`);
+                emit(entry.children, depth + 1);
+                lines.push(`${indent}}`);
+                continue;
+            }
+            const { element } = entry;
+            const kind = kinds.kinds.get(element.id)!;
+            const args = kind === 'person' || kind === 'softwareSystem'
+                ? [element.name, element.description]
+                : [element.name, element.description, element.technology];
+            const statement = `${indent}${ref(element.id)} = ${kind} ${positional([...args, elementTags(element)])}`;
+            const body = elementBody(element, indent);
+            if (entry.children.length === 0 && body.length === 0) {
+                lines.push(statement);
+                continue;
+            }
+            lines.push(`${statement} {`);
+            lines.push(...body);
+            emit(entry.children, depth + 1);
+            lines.push(`${indent}}`);
         }
+    };
+    emit(buildC4Tree(c4, staticElements, element => kinds.parents.get(element.id) === true), 2);
+
+    // Relationships between static elements; instance relationships are implied
+    const isStatic = (id: string) => byId.has(id) && !isC4DeploymentElement(byId.get(id)!.kind);
+    const staticRelationships = c4.relationships.filter(rel => isStatic(rel.source) && isStatic(rel.target));
+    if (staticRelationships.length > 0) {
+        lines.push('');
+    }
+    for (const relationship of staticRelationships) {
+        lines.push(...relationshipLines(relationship, ref, '        '));
+    }
+
+    // Deployment environments
+    const environments = deploymentEnvironments(c4);
+    for (const [environment, members] of environments) {
+        lines.push('');
+        lines.push(`        deploymentEnvironment ${quote(environment)} {`);
+        emitDeployment(c4, members, ref, kinds.kinds, lines);
+        const memberIds = new Set(members.map(element => element.id));
+        for (const relationship of c4.relationships) {
+            const deployed = (id: string) => memberIds.has(id) && byId.get(id)!.kind === 'infrastructureNode';
+            if ((deployed(relationship.source) || deployed(relationship.target))
+                && (memberIds.has(relationship.source) || isStatic(relationship.source))
+                && (memberIds.has(relationship.target) || isStatic(relationship.target))) {
+                lines.push(...relationshipLines(relationship, ref, '            '));
+            }
+        }
+        lines.push('        }');
+    }
+
+    lines.push('    }');
+    lines.push('');
+
+    // Views
+    lines.push('    views {');
+    const views = c4.views.length > 0 ? c4.views : defaultViews(c4);
+    for (const view of views) {
+        lines.push(...viewLines(view, c4, ref, kinds.kinds, [...environments.keys()]));
     }
+    lines.push(...styleLines(c4));
+    lines.push('    }');
+
+    lines.push('}');
 
-    // Generate standalone nodes as software systems or containers
-    for (const node of diagram.nodes) {
-        if (nodesInGroups.has(node.id)) continue;
+    return lines.join('\n');
+}
 
-        const type = detectStructurizrType(node.shape, node.metadata);
-        const indent = '        ';
-        const safeNodeId = identifierMap.get(node.id)!;
+// =============================================================================
+// Model
+// =============================================================================
 
-        if (type === 'person') {
-            lines.push(`${indent}${safeNodeId} = person "${node.label}"`);
-        } else {
-            lines.push(`${indent}${safeNodeId} = softwareSystem "${node.label}"`);
+interface ResolvedKinds {
+    /** Keyword each static element is written with */
+    kinds: Map<string, C4ElementKind>;
+    /** Whether the element can be nested in its parent */
+    parents: Map<string, boolean>;
+}
+
+/**
+ * Containers and components are only valid inside their structural parent;
+ * orphans are promoted (a container without a software system becomes one).
+ */
+function resolveKinds(c4: IRC4Diagram, byId: Map<string, IRC4Element>): ResolvedKinds {
+    const kinds = new Map<string, C4ElementKind>();
+    const parents = new Map<string, boolean>();
+    const resolve = (element: IRC4Element): C4ElementKind => {
+        const known = kinds.get(element.id);
+        if (known) return known;
+        const parent = element.parent ? byId.get(element.parent) : undefined;
+        const parentKind = parent && !isC4DeploymentElement(parent.kind) ? resolve(parent) : undefined;
+        let kind = element.kind;
+        if (kind !== 'container' && kind !== 'component') {
+            kind = kind === 'person' ? 'person' : 'softwareSystem';
+        } else if (kind === 'component' && parentKind === 'softwareSystem') {
+            kind = 'container';
+        } else if (parentKind !== C4_PARENT_KIND[kind]) {
+            kind = 'softwareSystem';
+        }
+        kinds.set(element.id, kind);
+        parents.set(element.id, parentKind !== undefined && parentKind === C4_PARENT_KIND[kind]);
+        return kind;
+    };
+    for (const element of c4.elements) {
+        if (!isC4DeploymentElement(element.kind)) resolve(element);
+    }
+    return { kinds, parents };
+}
+
+/** Tags string with the variant and external markers the parser maps back */
+function elementTags(element: IRC4Element): string | undefined {
+    const tags = [...(element.tags ?? [])];
+    if (element.external) tags.push('External');
+    if (element.variant === 'database') tags.push('Database');
+    if (element.variant === 'queue') tags.push('Queue');
+    return tags.length > 0 ? tags.join(',') : undefined;
+}
+
+/** url and properties statements of an element block */
+function elementBody(item: { url?: string; properties?: Record<string, string> }, indent: string): string[] {
+    const lines: string[] = [];
+    if (item.url) {
+        lines.push(`${indent}    url ${quote(item.url)}`);
+    }
+    if (item.properties && Object.keys(item.properties).length > 0) {
+        lines.push(`${indent}    properties {`);
+        for (const [key, value] of Object.entries(item.properties)) {
+            lines.push(`${indent}        ${quote(key)} ${quote(value)}`);
         }
+        lines.push(`${indent}    }`);
     }
+    return lines;
+}
+
+function relationshipLines(relationship: IRC4Relationship, ref: (id: string) => string, indent: string): string[] {
+    const tags = relationship.tags?.length ? relationship.tags.join(',') : undefined;
+    const args = positional([relationship.description, relationship.technology, tags]);
+    const statement = `${indent}${ref(relationship.source)} -> ${ref(relationship.target)}${args ? ` ${args}` : ''}`;
+    const body = elementBody(relationship, indent);
+    return body.length > 0 ? [`${statement} {`, ...body, `${indent}}`] : [statement];
+}
 
-    // Generate groups as software system boundaries
-    for (const group of diagram.groups) {
-        const safeGroupId = identifierMap.get(group.id)!;
-        lines.push(`        ${safeGroupId} = softwareSystem "${group.label || group.id}" {`);
+/** Deployment elements by environment; elements outside one go to "Default" */
+function deploymentEnvironments(c4: IRC4Diagram): Map<string, IRC4Element[]> {
+    const environments = new Map<string, IRC4Element[]>();
+    const byId = new Map(c4.elements.map(element => [element.id, element]));
+    const environmentOf = (element: IRC4Element): string => {
+        if (element.environment) return element.environment;
+        const parent = element.parent ? byId.get(element.parent) : undefined;
+        return parent ? environmentOf(parent) : 'Default';
+    };
+    for (const element of c4.elements) {
+        // Static elements nested in deployment nodes (C4-PlantUML) are deployed as instances
+        const parent = element.parent ? byId.get(element.parent) : undefined;
+        if (!isC4DeploymentElement(element.kind) && !(parent && isC4DeploymentElement(parent.kind))) continue;
+        const environment = environmentOf(element);
+        environments.set(environment, [...(environments.get(environment) ?? []), element]);
+    }
+    return environments;
+}
 
-        for (const childId of group.children) {
-            const node = diagram.nodes.find(n => n.id === childId);
-            if (node) {
-                const safeNodeId = identifierMap.get(node.id)!;
-                lines.push(`            ${safeNodeId} = container "${node.label}"`);
+function emitDeployment(
+    c4: IRC4Diagram,
+    members: IRC4Element[],
+    ref: (id: string) => string,
+    kinds: Map<string, C4ElementKind>,
+    lines: string[]
+): void {
+    const ids = new Set(members.map(element => element.id));
+    const emit = (parent: string | undefined, depth: number) => {
+        const indent = '    '.repeat(depth);
+        for (const element of members.filter(e => (e.parent && ids.has(e.parent) ? e.parent : undefined) === parent)) {
+            const tags = element.tags?.length ? element.tags.join(',') : undefined;
+            if (element.kind === 'deploymentNode' || element.kind === 'infrastructureNode') {
+                const statement = `${indent}${ref(element.id)} = ${element.kind} ${positional([element.name, element.description, element.technology, tags])}`;
+                const children = element.kind === 'deploymentNode' && members.some(e => e.parent === element.id);
+                const body = elementBody(element, indent);
+                if (!children && body.length === 0) {
+                    lines.push(statement);
+                    continue;
+                }
+                lines.push(`${statement} {`);
+                lines.push(...body);
+                if (children) emit(element.id, depth + 1);
+                lines.push(`${indent}}`);
+            } else if (isC4DeploymentElement(element.kind)) {
+                // A single deployment view may not carry the deployed element
+                if (!element.instanceOf || !c4.elements.some(target => target.id === element.instanceOf)) continue;
+                lines.push(`${indent}${ref(element.id)} = ${element.kind} ${ref(element.instanceOf)}${tags ? ` ${quote(tags)}` : ''}`);
+            } else if (parent !== undefined) {
+                const keyword = kinds.get(element.id) === 'container' ? 'containerInstance' : 'softwareSystemInstance';
+                lines.push(`${indent}${ref(element.id)}_instance = ${keyword} ${ref(element.id)}`);
             }
         }
+    };
+    emit(undefined, 3);
+}
 
-        lines.push('        }');
+// =============================================================================
+// Views
+// =============================================================================
+
+/** Landscape plus a container or component view for every element with children */
+function defaultViews(c4: IRC4Diagram): IRC4View[] {
+    const views: IRC4View[] = [{ type: 'systemLandscape', include: ['*'], exclude: [], autoLayout: { direction: 'tb' } }];
+    for (const element of c4.elements) {
+        if (!c4.elements.some(child => child.parent === element.id)) continue;
+        if (element.kind === 'softwareSystem') {
+            views.push({ type: 'container', scope: element.id, include: ['*'], exclude: [], autoLayout: { direction: 'tb' } });
+        } else if (element.kind === 'container') {
+            views.push({ type: 'component', scope: element.id, include: ['*'], exclude: [], autoLayout: { direction: 'tb' } });
+        }
     }
+    return views;
+}
 
-    lines.push('');
+function viewLines(
+    view: IRC4View,
+    c4: IRC4Diagram,
+    ref: (id: string) => string,
+    kinds: Map<string, C4ElementKind>,
+    environments: string[]
+): string[] {
+    const indent = '        ';
+    const names = positional([view.key, view.description]);
+    const suffix = names ? ` ${names}` : '';
+    let opening: string;
+    switch (view.type) {
+        case 'systemContext':
+        case 'container':
+        case 'component': {
+            const required: C4ElementKind = view.type === 'component' ? 'container' : 'softwareSystem';
+            const scope = [view.scope, defaultC4Scope(c4, view.type)]
+                .find(id => id !== undefined && kinds.get(id) === required);
+            opening = scope ? `${view.type} ${ref(scope)}${suffix}` : `systemLandscape${suffix}`;
+            break;
+        }
+        case 'dynamic':
+            opening = `dynamic ${view.scope && kinds.has(view.scope) ? ref(view.scope) : '*'}${suffix}`;
+            break;
+        case 'deployment': {
+            const environment = view.environment && environments.includes(view.environment) ? view.environment : environments[0];
+            if (!environment) return [];
+            opening = `deployment ${view.scope && kinds.has(view.scope) ? ref(view.scope) : '*'} ${quote(environment)}${suffix}`;
+            break;
+        }
+        default:
+            opening = `systemLandscape${suffix}`;
+    }
 
-    // Generate relationships
-    for (const edge of diagram.edges) {
-        const safeSourceId =
-            identifierMap.get(edge.source) ?? sanitizeStructurizrIdentifier(edge.source);
-        const safeTargetId =
-            identifierMap.get(edge.target) ?? sanitizeStructurizrIdentifier(edge.target);
-        const label = edge.label ? ` "${edge.label}"` : '';
-        lines.push(`        ${safeSourceId} -> ${safeTargetId}${label}`);
+    const lines = [`${indent}${opening} {`];
+    if (view.title) {
+        lines.push(`${indent}    title ${quote(view.title)}`);
+    }
+    if (view.type === 'dynamic') {
+        const steps = view.steps ?? c4.relationships
+            .filter(rel => rel.order !== undefined)
+            .sort((a, b) => Number(a.order) - Number(b.order));
+        for (const step of steps) {
+            lines.push(`${indent}    ${ref(step.source)} -> ${ref(step.target)}${step.description ? ` ${quote(step.description)}` : ''}`);
+        }
+    } else {
+        const include = view.include.length > 0 ? view.include : ['*'];
+        lines.push(`${indent}    include ${include.map(expr => mapExpression(expr, ref, kinds)).join(' ')}`);
+        if (view.exclude.length > 0) {
+            lines.push(`${indent}    exclude ${view.exclude.map(expr => mapExpression(expr, ref, kinds)).join(' ')}`);
+        }
     }
+    if (view.autoLayout) {
+        const { direction, rankSeparation, nodeSeparation } = view.autoLayout;
+        const separations = [rankSeparation, nodeSeparation].filter(value => value !== undefined);
+        lines.push(`${indent}    autoLayout ${[direction, ...separations].join(' ')}`);
+    }
+    lines.push(`${indent}}`);
+    return lines;
+}
 
-    lines.push('    }');
-    lines.push('');
+/** Rewrite the identifiers of an include/exclude expression (a, a->b, a->) */
+function mapExpression(expression: string, ref: (id: string) => string, kinds: Map<string, C4ElementKind>): string {
+    return expression
+        .split(/(->)/)
+        .map(part => kinds.has(part) ? ref(part) : part)
+        .join('');
+}
 
-    // Generate views
-    lines.push('    views {');
-    lines.push('        systemContext * {');
-    lines.push('            include *');
-    lines.push('            autoLayout');
-    lines.push('        }');
-    lines.push('    }');
+function styleLines(c4: IRC4Diagram): string[] {
+    const styles: string[] = [];
+    if (c4.elements.some(element => element.kind === 'person')) {
+        styles.push('            element "Person" {', '                shape person', '            }');
+    }
+    if (c4.elements.some(element => element.variant === 'database')) {
+        styles.push('            element "Database" {', '                shape cylinder', '            }');
+    }
+    if (c4.elements.some(element => element.variant === 'queue')) {
+        styles.push('            element "Queue" {', '                shape pipe', '            }');
+    }
+    if (c4.elements.some(element => element.external)) {
+        styles.push('            element "External" {', '                background #999999', '                color #ffffff', '            }');
+    }
+    return styles.length > 0 ? ['', '        styles {', ...styles, '        }'] : [];
+}
 
-    lines.push('}');
+// =============================================================================
+// Helpers
+// =============================================================================
 
-    return lines.join('\n');
+/** Quoted positional arguments; gaps before a later argument become "" */
+function positional(values: (string | undefined)[]): string {
+    const trimmed = [...values];
+    while (trimmed.length > 0 && trimmed[trimmed.length - 1] === undefined) trimmed.pop();
+    return trimmed.map(value => quote(value ?? '')).join(' ');
 }
 
-function buildIdentifierMap(diagram: Diagram): Map<string, string> {
-    const allIds = [
-        ...diagram.groups.map(group => group.id),
-        ...diagram.nodes.map(node => node.id),
-    ];
+function quote(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
 
+function buildIdentifierMap(c4: IRC4Diagram): Map<string, string> {
     const map = new Map<string, string>();
     const used = new Set<string>();
 
-    for (const id of allIds) {
+    for (const { id } of c4.elements) {
         const base = sanitizeStructurizrIdentifier(id);
         let candidate = base;
         let suffix = 1;
@@ -116,10 +384,3 @@ function sanitizeStructurizrIdentifier(id: string): string {
 
     return safe;
 }
-
-function detectStructurizrType(shape: string, metadata?: Record<string, unknown>): string {
-    if (metadata?.structurizrType) return metadata.structurizrType as string;
-    if (shape === 'actor') return 'person';
-    if (shape === 'cylinder') return 'container';
-    return 'softwareSystem';
-}
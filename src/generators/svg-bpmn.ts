@@ -0,0 +1,314 @@
+/**
+ * BPMN SVG generator
+ *
+ * Renders BPMN notation: pools and lanes as swimlanes with vertical name
+ * strips, rounded activities with task-type and sub-process markers,
+ * events with start/intermediate/end borders and event definition symbols,
+ * gateways with their type markers, data objects, data stores and
+ * annotations, and sequence, message and association flows
+ */
+
+import type { Diagram } from '../types';
+import type { BpmnEventDefinitionType } from '../types/bpmn';
+import { isBpmnEvent, isBpmnGateway, isBpmnSubProcess } from '../types/bpmn';
+import { escapeXml, extractBpmnData } from '../utils';
+import { layoutBpmnDiagram, type BpmnLayoutOptions, type BpmnShapeBox } from '../layout/bpmn';
+
+/** BPMN SVG generation options */
+export interface BpmnSvgOptions extends BpmnLayoutOptions {
+    fontFamily?: string;
+    backgroundColor?: string;
+}
+
+type TextFn = (x: number, y: number, value: string, attrs?: string) => string;
+
+/** Generate SVG from a BPMN diagram */
+export function generateBpmnSvg(diagram: Diagram, options: BpmnSvgOptions = {}): string {
+    const fontFamily = options.fontFamily ?? 'Arial, sans-serif';
+    const fontSize = options.fontSize ?? 12;
+    const headerSize = options.headerSize ?? 30;
+    const lineHeight = fontSize * 1.25;
+    const bpmn = extractBpmnData(diagram.type === 'bpmn' ? diagram : { ...diagram, type: 'bpmn' })!;
+    // Positions from other notations know nothing of pools and lanes
+    const layout = layoutBpmnDiagram(bpmn, { keepPartialBounds: diagram.type === 'bpmn', ...options });
+    const text: TextFn = (x, y, value, attrs = '') =>
+        `<text x="${round(x)}" y="${round(y)}" font-family="${fontFamily}" font-size="${fontSize}"${attrs}>${escapeXml(value)}</text>`;
+    const lines = (x: number, y: number, value: string, attrs = '') => {
+        const rows = value.split('\n');
+        return rows.map((row, i) => text(x, y + (i - (rows.length - 1) / 2) * lineHeight, row, ` text-anchor="middle" dominant-baseline="middle"${attrs}`));
+    };
+
+    const elements: string[] = [];
+    elements.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${layout.width} ${layout.height}" width="${layout.width}" height="${layout.height}">`);
+    elements.push(`  <defs>
+    <marker id="bpmn-sequence-arrow" markerWidth="10" markerHeight="8" refX="9" refY="4" orient="auto">
+      <polygon points="0 0, 10 4, 0 8" fill="#333"/>
+    </marker>
+    <marker id="bpmn-message-arrow" markerWidth="10" markerHeight="8" refX="9" refY="4" orient="auto">
+      <polygon points="0 0, 10 4, 0 8" fill="#fff" stroke="#333"/>
+    </marker>
+    <marker id="bpmn-message-start" markerWidth="8" markerHeight="8" refX="4" refY="4" orient="auto">
+      <circle cx="4" cy="4" r="3" fill="#fff" stroke="#333"/>
+    </marker>
+    <marker id="bpmn-data-arrow" markerWidth="10" markerHeight="8" refX="9" refY="4" orient="auto">
+      <polyline points="0 0, 10 4, 0 8" fill="none" stroke="#333"/>
+    </marker>
+  </defs>`);
+
+    if (options.backgroundColor && options.backgroundColor !== 'transparent') {
+        elements.push(`  <rect width="100%" height="100%" fill="${options.backgroundColor}"/>`);
+    }
+
+    if (layout.title) {
+        elements.push(`  ${text(layout.width / 2, (options.marginY ?? 20) + fontSize * 1.5, layout.title, ' text-anchor="middle" font-weight="bold" class="bpmn-title"')}`);
+    }
+
+    // Pools and lanes: the name strip is rotated to read bottom to top
+    for (const box of layout.pools) {
+        const blackBox = !box.pool.processId;
+        const strip = blackBox ? 0 : headerSize;
+        const parts = [`    <rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" fill="#fff" stroke="#333" stroke-width="1.5"/>`];
+        if (blackBox) {
+            parts.push(...lines(box.x + box.width / 2, box.y + box.height / 2, box.pool.name ?? '', ' font-weight="bold"').map(l => `    ${l}`));
+        } else {
+            parts.push(`    <line x1="${round(box.x + strip)}" y1="${round(box.y)}" x2="${round(box.x + strip)}" y2="${round(box.y + box.height)}" stroke="#333"/>`);
+            parts.push(`    ${verticalText(text, box.x + strip / 2, box.y + box.height / 2, box.pool.name ?? '', ' font-weight="bold"')}`);
+        }
+        elements.push(`  <g class="bpmn-pool" data-id="${escapeXml(box.pool.id)}">\n${parts.join('\n')}\n  </g>`);
+    }
+    for (const box of layout.lanes) {
+        const parts = [
+            `    <rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" fill="none" stroke="#333"/>`,
+            `    <line x1="${round(box.x + headerSize)}" y1="${round(box.y)}" x2="${round(box.x + headerSize)}" y2="${round(box.y + box.height)}" stroke="#333"/>`,
+            `    ${verticalText(text, box.x + headerSize / 2, box.y + box.height / 2, box.lane.name ?? '')}`,
+        ];
+        elements.push(`  <g class="bpmn-lane" data-id="${escapeXml(box.lane.id)}">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    const defaultFlows = new Set(layout.shapes.map(shape => shape.element.defaultFlow).filter(Boolean));
+    for (const path of layout.flows) {
+        const { flow } = path;
+        const d = path.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`).join(' ');
+        let attrs: string;
+        switch (flow.type) {
+            case 'messageFlow':
+                attrs = ' stroke-dasharray="8,5" marker-start="url(#bpmn-message-start)" marker-end="url(#bpmn-message-arrow)"';
+                break;
+            case 'association':
+                attrs = ' stroke-dasharray="2,4"';
+                break;
+            case 'dataInputAssociation':
+            case 'dataOutputAssociation':
+                attrs = ' stroke-dasharray="2,4" marker-end="url(#bpmn-data-arrow)"';
+                break;
+            default:
+                attrs = ' marker-end="url(#bpmn-sequence-arrow)"';
+        }
+        const parts = [`    <path d="${d}" fill="none" stroke="#333"${attrs}/>`];
+
+        // Default flows carry a slash near their start
+        if (defaultFlows.has(flow.id) && path.points.length >= 2) {
+            const [a, b] = path.points;
+            const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+            const ux = (b.x - a.x) / length;
+            const uy = (b.y - a.y) / length;
+            const cx = a.x + ux * 10;
+            const cy = a.y + uy * 10;
+            parts.push(`    <line x1="${round(cx - uy * 6 - ux * 3)}" y1="${round(cy + ux * 6 - uy * 3)}" x2="${round(cx + uy * 6 + ux * 3)}" y2="${round(cy - ux * 6 + uy * 3)}" stroke="#333"/>`);
+        }
+        if (flow.name) {
+            parts.push(...lines(path.labelPosition.x, path.labelPosition.y, flow.name, ' paint-order="stroke" stroke="#fff" stroke-width="3"').map(l => `    ${l}`));
+        }
+        elements.push(`  <g class="bpmn-flow" data-type="${flow.type}" data-id="${escapeXml(flow.id)}">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    // Shapes come after flows so boundary events and labels stay readable
+    for (const box of layout.shapes) {
+        elements.push(renderShape(box, text, lines));
+    }
+
+    elements.push('</svg>');
+    return elements.join('\n');
+}
+
+/** Render one element by its type */
+function renderShape(box: BpmnShapeBox, text: TextFn, lines: (x: number, y: number, value: string, attrs?: string) => string[]): string {
+    const { element, x, y, width, height } = box;
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    const name = element.name ?? '';
+    const parts: string[] = [];
+    let className = 'bpmn-activity';
+
+    if (isBpmnEvent(element.type)) {
+        className = 'bpmn-event';
+        const r = Math.min(width, height) / 2;
+        const end = element.type === 'endEvent';
+        const intermediate = element.type.startsWith('intermediate') || element.type === 'boundaryEvent';
+        const dashed = element.cancelActivity === false ? ' stroke-dasharray="4,2"' : '';
+        parts.push(`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r)}" fill="#fff" stroke="#333" stroke-width="${end ? 3 : 1.5}"${dashed}/>`);
+        if (intermediate) {
+            parts.push(`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${round(r - 3)}" fill="none" stroke="#333"${dashed}/>`);
+        }
+        const filled = end || element.type === 'intermediateThrowEvent';
+        for (const definition of (element.eventDefinitions ?? []).slice(0, 1)) {
+            parts.push(...eventSymbol(definition.type, cx, cy, r, filled));
+        }
+        if (name) {
+            parts.push(...lines(cx, y + height + 12, name).map(l => `    ${l}`));
+        }
+    } else if (isBpmnGateway(element.type)) {
+        className = 'bpmn-gateway';
+        parts.push(`    <polygon points="${round(cx)},${round(y)} ${round(x + width)},${round(cy)} ${round(cx)},${round(y + height)} ${round(x)},${round(cy)}" fill="#fff" stroke="#333" stroke-width="1.5"/>`);
+        parts.push(...gatewayMarker(element.type, cx, cy, Math.min(width, height)));
+        if (name) {
+            parts.push(...lines(cx, y - 10, name).map(l => `    ${l}`));
+        }
+    } else if (element.type === 'dataObjectReference') {
+        className = 'bpmn-data';
+        const fold = Math.min(12, width / 3);
+        parts.push(`    <path d="M${round(x)},${round(y)} H${round(x + width - fold)} L${round(x + width)},${round(y + fold)} V${round(y + height)} H${round(x)} Z" fill="#fff" stroke="#333"/>`);
+        parts.push(`    <path d="M${round(x + width - fold)},${round(y)} V${round(y + fold)} H${round(x + width)}" fill="none" stroke="#333"/>`);
+        if (name) parts.push(...lines(cx, y + height + 12, name).map(l => `    ${l}`));
+    } else if (element.type === 'dataStoreReference') {
+        className = 'bpmn-data';
+        const ry = Math.min(8, height / 6);
+        parts.push(`    <path d="M${round(x)},${round(y + ry)} A${round(width / 2)},${round(ry)} 0 0 1 ${round(x + width)},${round(y + ry)} V${round(y + height - ry)} A${round(width / 2)},${round(ry)} 0 0 1 ${round(x)},${round(y + height - ry)} Z" fill="#fff" stroke="#333"/>`);
+        parts.push(`    <path d="M${round(x)},${round(y + ry)} A${round(width / 2)},${round(ry)} 0 0 0 ${round(x + width)},${round(y + ry)}" fill="none" stroke="#333"/>`);
+        if (name) parts.push(...lines(cx, y + height + 12, name).map(l => `    ${l}`));
+    } else if (element.type === 'textAnnotation') {
+        className = 'bpmn-annotation';
+        parts.push(`    <path d="M${round(x + 10)},${round(y)} H${round(x)} V${round(y + height)} H${round(x + 10)}" fill="none" stroke="#333"/>`);
+        name.split('\n').forEach((row, i) => {
+            parts.push(`    ${text(x + 6, y + 6 + (i + 0.8) * (height - 12) / Math.max(1, name.split('\n').length), row)}`);
+        });
+    } else {
+        const expanded = isBpmnSubProcess(element.type) && box.element.expanded !== false && height > 80;
+        const stroke = element.type === 'callActivity' ? 3 : 1.5;
+        parts.push(`    <rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" rx="10" fill="${expanded ? 'none' : '#fff'}" stroke="#333" stroke-width="${stroke}"${element.triggeredByEvent ? ' stroke-dasharray="4,2"' : ''}/>`);
+        if (element.type === 'transaction') {
+            parts.push(`    <rect x="${round(x + 3)}" y="${round(y + 3)}" width="${round(width - 6)}" height="${round(height - 6)}" rx="8" fill="none" stroke="#333"/>`);
+        }
+        if (expanded) {
+            parts.push(`    ${text(x + 10, y + 18, name.replace(/\n/g, ' '), ' font-weight="bold"')}`);
+        } else {
+            parts.push(...lines(cx, cy, name).map(l => `    ${l}`));
+        }
+        parts.push(...taskMarker(element.type, x, y));
+        if (isBpmnSubProcess(element.type) && !expanded) {
+            parts.push(`    <rect x="${round(cx - 7)}" y="${round(y + height - 16)}" width="14" height="14" fill="none" stroke="#333"/>`);
+            parts.push(`    <path d="M${round(cx - 4)},${round(y + height - 9)} H${round(cx + 4)} M${round(cx)},${round(y + height - 13)} V${round(y + height - 5)}" stroke="#333"/>`);
+        }
+    }
+
+    return `  <g class="${className}" data-id="${escapeXml(element.id)}" data-type="${element.type}">\n${parts.join('\n')}\n  </g>`;
+}
+
+/** Symbol inside an event; throwing events are filled */
+function eventSymbol(type: BpmnEventDefinitionType, cx: number, cy: number, r: number, filled: boolean): string[] {
+    const fill = filled ? '#333' : 'none';
+    const s = r * 0.5;
+    switch (type) {
+        case 'message':
+            return [
+                `    <rect x="${round(cx - s)}" y="${round(cy - s * 0.7)}" width="${round(s * 2)}" height="${round(s * 1.4)}" fill="${filled ? '#333' : '#fff'}" stroke="#333"/>`,
+                `    <polyline points="${round(cx - s)},${round(cy - s * 0.7)} ${round(cx)},${round(cy)} ${round(cx + s)},${round(cy - s * 0.7)}" fill="none" stroke="${filled ? '#fff' : '#333'}"/>`,
+            ];
+        case 'timer':
+            return [
+                `    <circle cx="${round(cx)}" cy="${round(cy)}" r="${round(s * 1.2)}" fill="#fff" stroke="#333"/>`,
+                `    <path d="M${round(cx)},${round(cy)} V${round(cy - s)} M${round(cx)},${round(cy)} L${round(cx + s * 0.6)},${round(cy + s * 0.3)}" stroke="#333"/>`,
+            ];
+        case 'error':
+            return [`    <polygon points="${round(cx - s)},${round(cy + s)} ${round(cx - s * 0.4)},${round(cy - s)} ${round(cx + s * 0.2)},${round(cy + s * 0.1)} ${round(cx + s)},${round(cy - s)} ${round(cx + s * 0.4)},${round(cy + s)} ${round(cx - s * 0.2)},${round(cy - s * 0.1)}" fill="${fill}" stroke="#333"/>`];
+        case 'signal':
+            return [`    <polygon points="${round(cx)},${round(cy - s)} ${round(cx + s)},${round(cy + s * 0.8)} ${round(cx - s)},${round(cy + s * 0.8)}" fill="${fill}" stroke="#333"/>`];
+        case 'escalation':
+            return [`    <polygon points="${round(cx)},${round(cy - s)} ${round(cx + s * 0.7)},${round(cy + s)} ${round(cx)},${round(cy + s * 0.3)} ${round(cx - s * 0.7)},${round(cy + s)}" fill="${fill}" stroke="#333"/>`];
+        case 'conditional':
+            return [
+                `    <rect x="${round(cx - s * 0.7)}" y="${round(cy - s)}" width="${round(s * 1.4)}" height="${round(s * 2)}" fill="#fff" stroke="#333"/>`,
+                `    <path d="M${round(cx - s * 0.4)},${round(cy - s * 0.5)} H${round(cx + s * 0.4)} M${round(cx - s * 0.4)},${round(cy)} H${round(cx + s * 0.4)} M${round(cx - s * 0.4)},${round(cy + s * 0.5)} H${round(cx + s * 0.4)}" stroke="#333"/>`,
+            ];
+        case 'compensate':
+            return [`    <path d="M${round(cx - s)},${round(cy)} L${round(cx)},${round(cy - s * 0.6)} V${round(cy + s * 0.6)} Z M${round(cx)},${round(cy)} L${round(cx + s)},${round(cy - s * 0.6)} V${round(cy + s * 0.6)} Z" fill="${fill}" stroke="#333"/>`];
+        case 'cancel':
+            return [`    <path d="M${round(cx - s * 0.7)},${round(cy - s * 0.7)} L${round(cx + s * 0.7)},${round(cy + s * 0.7)} M${round(cx + s * 0.7)},${round(cy - s * 0.7)} L${round(cx - s * 0.7)},${round(cy + s * 0.7)}" stroke="#333" stroke-width="3"/>`];
+        case 'link':
+            return [`    <polygon points="${round(cx - s)},${round(cy - s * 0.3)} ${round(cx + s * 0.2)},${round(cy - s * 0.3)} ${round(cx + s * 0.2)},${round(cy - s * 0.7)} ${round(cx + s)},${round(cy)} ${round(cx + s * 0.2)},${round(cy + s * 0.7)} ${round(cx + s * 0.2)},${round(cy + s * 0.3)} ${round(cx - s)},${round(cy + s * 0.3)}" fill="${fill}" stroke="#333"/>`];
+        case 'terminate':
+            return [`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${round(s * 1.1)}" fill="#333"/>`];
+        default:
+            return [];
+    }
+}
+
+/** Marker inside a gateway diamond */
+function gatewayMarker(type: string, cx: number, cy: number, size: number): string[] {
+    const s = size * 0.2;
+    switch (type) {
+        case 'exclusiveGateway':
+            return [`    <path d="M${round(cx - s)},${round(cy - s)} L${round(cx + s)},${round(cy + s)} M${round(cx + s)},${round(cy - s)} L${round(cx - s)},${round(cy + s)}" stroke="#333" stroke-width="3"/>`];
+        case 'parallelGateway':
+            return [`    <path d="M${round(cx)},${round(cy - s * 1.3)} V${round(cy + s * 1.3)} M${round(cx - s * 1.3)},${round(cy)} H${round(cx + s * 1.3)}" stroke="#333" stroke-width="3"/>`];
+        case 'inclusiveGateway':
+            return [`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${round(s * 1.2)}" fill="none" stroke="#333" stroke-width="2.5"/>`];
+        case 'eventBasedGateway':
+            return [
+                `    <circle cx="${round(cx)}" cy="${round(cy)}" r="${round(s * 1.4)}" fill="none" stroke="#333"/>`,
+                `    <circle cx="${round(cx)}" cy="${round(cy)}" r="${round(s * 1.1)}" fill="none" stroke="#333"/>`,
+            ];
+        case 'complexGateway':
+            return [`    <path d="M${round(cx)},${round(cy - s * 1.3)} V${round(cy + s * 1.3)} M${round(cx - s * 1.3)},${round(cy)} H${round(cx + s * 1.3)} M${round(cx - s)},${round(cy - s)} L${round(cx + s)},${round(cy + s)} M${round(cx + s)},${round(cy - s)} L${round(cx - s)},${round(cy + s)}" stroke="#333" stroke-width="2.5"/>`];
+        default:
+            return [];
+    }
+}
+
+/** Task type marker in the top-left corner */
+function taskMarker(type: string, x: number, y: number): string[] {
+    const mx = x + 8;
+    const my = y + 8;
+    switch (type) {
+        case 'userTask':
+            return [
+                `    <circle cx="${round(mx + 6)}" cy="${round(my + 4)}" r="4" fill="none" stroke="#333"/>`,
+                `    <path d="M${round(mx)},${round(my + 15)} Q${round(mx + 6)},${round(my + 5)} ${round(mx + 12)},${round(my + 15)} Z" fill="none" stroke="#333"/>`,
+            ];
+        case 'serviceTask':
+            return [
+                `    <circle cx="${round(mx + 6)}" cy="${round(my + 6)}" r="5" fill="none" stroke="#333" stroke-width="2.5" stroke-dasharray="2.5,1.4"/>`,
+                `    <circle cx="${round(mx + 6)}" cy="${round(my + 6)}" r="2" fill="none" stroke="#333"/>`,
+            ];
+        case 'scriptTask':
+            return [
+                `    <rect x="${round(mx)}" y="${round(my)}" width="12" height="14" fill="none" stroke="#333"/>`,
+                `    <path d="M${round(mx + 3)},${round(my + 4)} H${round(mx + 9)} M${round(mx + 3)},${round(my + 7)} H${round(mx + 9)} M${round(mx + 3)},${round(my + 10)} H${round(mx + 9)}" stroke="#333"/>`,
+            ];
+        case 'manualTask':
+            return [`    <path d="M${round(mx)},${round(my + 6)} H${round(mx + 14)} M${round(mx)},${round(my + 9)} H${round(mx + 12)} M${round(mx)},${round(my + 12)} H${round(mx + 10)} M${round(mx)},${round(my + 3)} V${round(my + 14)}" stroke="#333"/>`];
+        case 'businessRuleTask':
+            return [
+                `    <rect x="${round(mx)}" y="${round(my)}" width="16" height="12" fill="none" stroke="#333"/>`,
+                `    <path d="M${round(mx)},${round(my + 4)} H${round(mx + 16)} M${round(mx + 5)},${round(my + 4)} V${round(my + 12)}" stroke="#333"/>`,
+            ];
+        case 'sendTask':
+        case 'receiveTask':
+            return [
+                `    <rect x="${round(mx)}" y="${round(my)}" width="16" height="11" fill="${type === 'sendTask' ? '#333' : '#fff'}" stroke="#333"/>`,
+                `    <polyline points="${round(mx)},${round(my)} ${round(mx + 8)},${round(my + 6)} ${round(mx + 16)},${round(my)}" fill="none" stroke="${type === 'sendTask' ? '#fff' : '#333'}"/>`,
+            ];
+        default:
+            return [];
+    }
+}
+
+/** Text rotated to read bottom to top, centred on a point */
+function verticalText(text: TextFn, x: number, y: number, value: string, attrs = ''): string {
+    return text(x, y, value.replace(/\n/g, ' '), ` text-anchor="middle" dominant-baseline="middle" transform="rotate(-90 ${round(x)} ${round(y)})"${attrs}`);
+}
+
+/** Round a coordinate for compact output */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
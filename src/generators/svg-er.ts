@@ -0,0 +1,127 @@
+/**
+ * ER diagram SVG generator
+ *
+ * Renders entities as tables with a name header and key / name / type
+ * rows, and relationships as lines with crow's foot cardinality symbols
+ * at both ends
+ */
+
+import type { Diagram, Position } from '../types';
+import type { ERCardinality } from '../types/er';
+import { escapeXml } from '../utils';
+import { extractERData } from '../utils/er';
+import { layoutERDiagram, type ERLayoutOptions, type ERTableBox } from '../layout/er';
+import { convertToERFormat } from './er-generator';
+
+/** ER SVG generation options */
+export interface ERSvgOptions extends ERLayoutOptions {
+    fontFamily?: string;
+    backgroundColor?: string;
+}
+
+/** Generate SVG from an ER diagram */
+export function generateERSvg(diagram: Diagram, options: ERSvgOptions = {}): string {
+    const fontFamily = options.fontFamily ?? 'Arial, sans-serif';
+    const fontSize = options.fontSize ?? 13;
+    const erDiagram = extractERData(diagram.type === 'er' ? diagram : convertToERFormat(diagram))!;
+    const layout = layoutERDiagram(erDiagram, options);
+    const text = (x: number, y: number, value: string, attrs = '') =>
+        `<text x="${round(x)}" y="${round(y)}" font-family="${fontFamily}" font-size="${fontSize}"${attrs}>${escapeXml(value)}</text>`;
+
+    const elements: string[] = [];
+    elements.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${layout.width} ${layout.height}" width="${layout.width}" height="${layout.height}">`);
+
+    if (options.backgroundColor && options.backgroundColor !== 'transparent') {
+        elements.push(`  <rect width="100%" height="100%" fill="${options.backgroundColor}"/>`);
+    }
+
+    if (layout.title) {
+        elements.push(`  ${text(layout.width / 2, (options.marginY ?? 20) + fontSize * 1.2, layout.title, ' text-anchor="middle" font-weight="bold" class="er-title"')}`);
+    }
+
+    for (const path of layout.relationships) {
+        const { relationship, points } = path;
+        if (points.length < 2) continue;
+
+        const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`).join(' ');
+        const dash = relationship.identifying === 'non-identifying' ? ' stroke-dasharray="6,4"' : '';
+        const parts = [`    <path d="${d}" fill="none" stroke="#333"${dash}/>`];
+        parts.push(...cardinalitySymbol(points[0], points[1], relationship.sourceCardinality));
+        parts.push(...cardinalitySymbol(points[points.length - 1], points[points.length - 2], relationship.targetCardinality));
+        if (relationship.label) {
+            parts.push(`    ${text(path.labelPosition.x, path.labelPosition.y, relationship.label, ' text-anchor="middle" dominant-baseline="middle" font-style="italic" paint-order="stroke" stroke="#fff" stroke-width="3"')}`);
+        }
+        elements.push(`  <g class="er-relationship" data-from="${escapeXml(relationship.source)}" data-to="${escapeXml(relationship.target)}">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    for (const table of layout.tables) {
+        elements.push(renderTable(table, text));
+    }
+
+    elements.push('</svg>');
+    return elements.join('\n');
+}
+
+/** Render one entity table */
+function renderTable(
+    table: ERTableBox,
+    text: (x: number, y: number, value: string, attrs?: string) => string
+): string {
+    const { x, y, width, height, headerHeight, rowHeight, keyWidth, nameWidth } = table;
+    const parts = [
+        `    <rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="#fff" stroke="#333"/>`,
+        `    <rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${headerHeight}" fill="#dae8fc" stroke="#333"/>`,
+        `    ${text(x + width / 2, y + headerHeight / 2, table.entity.name, ' text-anchor="middle" dominant-baseline="middle" font-weight="bold"')}`,
+    ];
+
+    for (const row of table.rows) {
+        const rowY = y + row.y;
+        const textY = rowY + rowHeight / 2;
+        if (row.y > headerHeight) {
+            parts.push(`    <line x1="${round(x)}" y1="${round(rowY)}" x2="${round(x + width)}" y2="${round(rowY)}" stroke="#ddd"/>`);
+        }
+        if (row.key) {
+            parts.push(`    ${text(x + 8, textY, row.key, ' dominant-baseline="middle" font-weight="bold"')}`);
+        }
+        const underline = row.attribute.keyType === 'pk' ? ' text-decoration="underline"' : '';
+        parts.push(`    ${text(x + keyWidth + 8, textY, row.attribute.name, ` dominant-baseline="middle"${underline}`)}`);
+        parts.push(`    ${text(x + keyWidth + nameWidth + 8, textY, row.attribute.type, ' dominant-baseline="middle" fill="#666"')}`);
+    }
+
+    return `  <g class="er-entity" data-id="${escapeXml(table.entity.id)}">\n${parts.join('\n')}\n  </g>`;
+}
+
+/**
+ * Crow's foot symbol where a relationship meets a table: a bar for "one",
+ * a circle for "zero" and a fork for "many"
+ */
+function cardinalitySymbol(end: Position, next: Position, cardinality: ERCardinality): string[] {
+    const length = Math.hypot(next.x - end.x, next.y - end.y) || 1;
+    const u = { x: (next.x - end.x) / length, y: (next.y - end.y) / length };
+    const n = { x: -u.y, y: u.x };
+    const at = (d: number, side = 0) => ({ x: end.x + u.x * d + n.x * side, y: end.y + u.y * d + n.y * side });
+    const line = (a: Position, b: Position) =>
+        `    <line x1="${round(a.x)}" y1="${round(a.y)}" x2="${round(b.x)}" y2="${round(b.y)}" stroke="#333"/>`;
+    const bar = (d: number) => line(at(d, -7), at(d, 7));
+    const circle = (d: number) => {
+        const c = at(d);
+        return `    <circle cx="${round(c.x)}" cy="${round(c.y)}" r="5" fill="#fff" stroke="#333"/>`;
+    };
+    const fork = () => [line(at(14), at(0, -8)), line(at(14), at(0)), line(at(14), at(0, 8))];
+
+    switch (cardinality) {
+        case 'exactly-one':
+            return [bar(8), bar(14)];
+        case 'zero-or-one':
+            return [bar(8), circle(20)];
+        case 'one-or-more':
+            return [...fork(), bar(18)];
+        case 'zero-or-more':
+            return [...fork(), circle(20)];
+    }
+}
+
+/** Round a coordinate for compact output */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
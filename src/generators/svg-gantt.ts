@@ -0,0 +1,197 @@
+/**
+ * Gantt SVG generator
+ *
+ * Renders Gantt charts as an SVG timeline: a date axis, section bands,
+ * task bars with progress, milestones, dependency arrows and shaded
+ * non-working days
+ */
+
+import type { Diagram, GanttScheduledTask } from '../types';
+import { addCalendarDays, daysBetween, escapeXml, extractGanttData, isExcludedDay, scheduleGanttTasks } from '../utils';
+
+/** Gantt SVG generation options */
+export interface GanttSvgOptions {
+    padding?: number;
+    dayWidth?: number;
+    rowHeight?: number;
+    labelWidth?: number;
+    fontSize?: number;
+    fontFamily?: string;
+    backgroundColor?: string;
+}
+
+const DEFAULT_OPTIONS: Required<GanttSvgOptions> = {
+    padding: 20,
+    dayWidth: 24,
+    rowHeight: 28,
+    labelWidth: 160,
+    fontSize: 12,
+    fontFamily: 'Arial, sans-serif',
+    backgroundColor: 'transparent',
+};
+
+/** Bar colors by task state */
+const BAR_COLORS = {
+    default: { fill: '#8fb3e8', stroke: '#4a78c2', progress: '#4a78c2' },
+    active: { fill: '#bfdbfe', stroke: '#2563eb', progress: '#2563eb' },
+    done: { fill: '#d3d3d3', stroke: '#808080', progress: '#808080' },
+    crit: { fill: '#f8b4b4', stroke: '#d32f2f', progress: '#d32f2f' },
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Row in the chart: section header or task */
+type GanttRow = { kind: 'section'; label: string } | { kind: 'task'; task: GanttScheduledTask };
+
+/** Generate SVG timeline from a Gantt diagram */
+export function generateGanttSvg(diagram: Diagram, options: GanttSvgOptions = {}): string {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const gantt = extractGanttData(diagram.type === 'gantt' ? diagram : { ...diagram, type: 'gantt' })!;
+    const tasks = scheduleGanttTasks(gantt);
+
+    // Rows: unsectioned tasks first, then each section with its tasks
+    const rows: GanttRow[] = tasks
+        .filter(t => !t.section || !gantt.sections.includes(t.section))
+        .map(task => ({ kind: 'task' as const, task }));
+    for (const section of gantt.sections) {
+        rows.push({ kind: 'section', label: section });
+        rows.push(...tasks.filter(t => t.section === section).map(task => ({ kind: 'task' as const, task })));
+    }
+
+    // Time range
+    const chartStart = tasks.map(t => t.start).sort()[0] ?? gantt.projectStart ?? '1970-01-01';
+    const lastEnd = tasks.map(t => t.end).sort().pop() ?? chartStart;
+    const days = Math.max(1, daysBetween(chartStart, lastEnd) + (tasks.some(t => t.milestone && t.end === lastEnd) ? 1 : 0));
+
+    const titleHeight = gantt.title ? opts.fontSize * 2.5 : 0;
+    const axisHeight = opts.rowHeight;
+    const chartTop = opts.padding + titleHeight + axisHeight;
+    const chartLeft = opts.padding + opts.labelWidth;
+    const chartWidth = days * opts.dayWidth;
+    const chartHeight = rows.length * opts.rowHeight;
+    const width = chartLeft + chartWidth + opts.padding;
+    const height = chartTop + chartHeight + opts.padding;
+
+    const xOf = (date: string) => chartLeft + daysBetween(chartStart, date) * opts.dayWidth;
+    const rowY = new Map<string, number>();
+    rows.forEach((row, index) => {
+        if (row.kind === 'task') rowY.set(row.task.id, chartTop + index * opts.rowHeight);
+    });
+
+    const elements: string[] = [];
+    elements.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">`);
+    elements.push(`  <defs>
+    <marker id="gantt-arrow" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+      <polygon points="0 0, 8 3, 0 6" fill="#555"/>
+    </marker>
+  </defs>`);
+
+    if (opts.backgroundColor !== 'transparent') {
+        elements.push(`  <rect width="100%" height="100%" fill="${opts.backgroundColor}"/>`);
+    }
+
+    if (gantt.title) {
+        elements.push(`  <text class="gantt-title" x="${width / 2}" y="${opts.padding + opts.fontSize * 1.5}" text-anchor="middle" font-family="${opts.fontFamily}" font-size="${opts.fontSize * 1.5}" font-weight="bold">${escapeXml(gantt.title)}</text>`);
+    }
+
+    // Section bands
+    rows.forEach((row, index) => {
+        if (row.kind !== 'section') return;
+        const y = chartTop + index * opts.rowHeight;
+        elements.push(`  <g class="gantt-section">
+    <rect x="${opts.padding}" y="${y}" width="${opts.labelWidth + chartWidth}" height="${opts.rowHeight}" fill="#eef2f7"/>
+    <text x="${opts.padding + 4}" y="${y + opts.rowHeight / 2}" dominant-baseline="middle" font-family="${opts.fontFamily}" font-size="${opts.fontSize}" font-weight="bold">${escapeXml(row.label)}</text>
+  </g>`);
+    });
+
+    // Non-working days and axis
+    const step = days <= 31 ? 1 : days <= 120 ? 7 : 30;
+    const axisFormat = gantt.axisFormat ?? (step === 1 ? '%m-%d' : '%Y-%m-%d');
+    const axis: string[] = [];
+    for (let day = 0; day < days; day++) {
+        const date = addCalendarDays(chartStart, day);
+        const x = chartLeft + day * opts.dayWidth;
+        if (isExcludedDay(date, gantt.excludes)) {
+            elements.push(`  <rect class="gantt-excluded" x="${x}" y="${chartTop}" width="${opts.dayWidth}" height="${chartHeight}" fill="#f0f0f0"/>`);
+        }
+        if (day % step === 0) {
+            axis.push(`    <line x1="${x}" y1="${chartTop - 4}" x2="${x}" y2="${chartTop + chartHeight}" stroke="#dddddd" stroke-width="1"/>`);
+            axis.push(`    <text x="${x + 2}" y="${chartTop - 8}" font-family="${opts.fontFamily}" font-size="${opts.fontSize - 2}" fill="#555">${escapeXml(formatAxisDate(date, axisFormat))}</text>`);
+        }
+    }
+    elements.push(`  <g class="gantt-axis">\n${axis.join('\n')}\n  </g>`);
+
+    // Dependencies
+    for (const task of tasks) {
+        for (const dependencyId of task.after ?? []) {
+            const dependency = tasks.find(t => t.id === dependencyId);
+            if (!dependency) continue;
+            const x1 = xOf(dependency.end);
+            const y1 = rowY.get(dependency.id)! + opts.rowHeight / 2;
+            const x2 = xOf(task.start);
+            const y2 = rowY.get(task.id)! + opts.rowHeight / 2;
+            elements.push(`  <path class="gantt-dependency" d="M${x1},${y1} H${x1 + 6} V${y2} H${x2}" fill="none" stroke="#555" stroke-width="1" marker-end="url(#gantt-arrow)"/>`);
+        }
+    }
+
+    // Task labels and bars
+    for (const row of rows) {
+        if (row.kind !== 'task') continue;
+        elements.push(renderTask(row.task, rowY.get(row.task.id)!, xOf, opts));
+    }
+
+    elements.push('</svg>');
+    return elements.join('\n');
+}
+
+/** Render task label and bar (or milestone diamond) */
+function renderTask(
+    task: GanttScheduledTask,
+    y: number,
+    xOf: (date: string) => number,
+    opts: Required<GanttSvgOptions>
+): string {
+    const colors = task.tags?.includes('crit') ? BAR_COLORS.crit
+        : task.tags?.includes('done') || task.progress === 100 ? BAR_COLORS.done
+            : task.tags?.includes('active') ? BAR_COLORS.active
+                : BAR_COLORS.default;
+    const midY = y + opts.rowHeight / 2;
+    const parts: string[] = [
+        `    <text x="${opts.padding + 12}" y="${midY}" dominant-baseline="middle" font-family="${opts.fontFamily}" font-size="${opts.fontSize}">${escapeXml(task.name)}</text>`,
+    ];
+
+    if (task.milestone) {
+        const cx = xOf(task.start);
+        const r = opts.rowHeight * 0.3;
+        parts.push(`    <polygon points="${cx},${midY - r} ${cx + r},${midY} ${cx},${midY + r} ${cx - r},${midY}" fill="${colors.stroke}"/>`);
+    } else {
+        const x = xOf(task.start);
+        const barWidth = Math.max(2, xOf(task.end) - x);
+        const barY = y + opts.rowHeight * 0.2;
+        const barHeight = opts.rowHeight * 0.6;
+        parts.push(`    <rect x="${x}" y="${barY}" width="${barWidth}" height="${barHeight}" rx="3" fill="${colors.fill}" stroke="${colors.stroke}" stroke-width="1"/>`);
+        if (task.progress !== undefined && task.progress > 0 && task.progress < 100) {
+            parts.push(`    <rect class="gantt-progress" x="${x}" y="${barY}" width="${barWidth * task.progress / 100}" height="${barHeight}" rx="3" fill="${colors.progress}" opacity="0.6"/>`);
+        }
+    }
+
+    return `  <g class="gantt-task" data-id="${escapeXml(task.id)}">\n${parts.join('\n')}\n  </g>`;
+}
+
+/** Format axis label with a strftime subset (%Y %y %m %d %e %b %a) */
+function formatAxisDate(isoDate: string, format: string): string {
+    const [year, month, day] = isoDate.split('-');
+    const weekday = new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+    return format.replace(/%([Yymdeba])/g, (_, token: string) => {
+        switch (token) {
+            case 'Y': return year;
+            case 'y': return year.slice(2);
+            case 'm': return month;
+            case 'd': return day;
+            case 'e': return String(parseInt(day, 10));
+            case 'b': return MONTHS[parseInt(month, 10) - 1];
+            default: return WEEKDAYS[weekday];
+        }
+    });
+}
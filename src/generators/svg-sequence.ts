@@ -0,0 +1,158 @@
+/**
+ * Sequence SVG generator
+ *
+ * Renders sequence diagrams with lifelines: participant heads, dashed
+ * lifelines, activation bars, message arrows, notes and combined
+ * fragment frames
+ */
+
+import type { Diagram, SequenceArrowType } from '../types';
+import { escapeXml } from '../utils';
+import { extractSequenceData } from '../parsers/sequence-parser';
+import { layoutSequenceDiagram, type SequenceLayoutOptions, type SequenceParticipantBox } from '../layout/sequence';
+
+/** Sequence SVG generation options */
+export interface SequenceSvgOptions extends SequenceLayoutOptions {
+    fontFamily?: string;
+    backgroundColor?: string;
+}
+
+/** Markers by arrow head */
+const MARKERS: Record<SequenceArrowType, string | undefined> = {
+    'solid': undefined,
+    'solid-arrow': 'seq-arrow',
+    'solid-cross': 'seq-cross',
+    'dotted': undefined,
+    'dotted-arrow': 'seq-arrow',
+    'dotted-cross': 'seq-cross',
+};
+
+/** Generate SVG with lifelines from a sequence diagram */
+export function generateSequenceSvg(diagram: Diagram, options: SequenceSvgOptions = {}): string {
+    const fontFamily = options.fontFamily ?? 'Arial, sans-serif';
+    const fontSize = options.fontSize ?? 14;
+    const sequence = extractSequenceData(diagram.type === 'sequence' ? diagram : { ...diagram, type: 'sequence' })!;
+    const layout = layoutSequenceDiagram(sequence, options);
+    const text = (x: number, y: number, value: string, attrs = '') =>
+        `<text x="${x}" y="${y}" font-family="${fontFamily}" font-size="${fontSize}"${attrs}>${escapeXml(value)}</text>`;
+
+    const elements: string[] = [];
+    elements.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${layout.width} ${layout.height}" width="${layout.width}" height="${layout.height}">`);
+    elements.push(`  <defs>
+    <marker id="seq-arrow" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+      <polygon points="0 0, 10 3.5, 0 7" fill="#333"/>
+    </marker>
+    <marker id="seq-arrow-open" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+      <polyline points="0 0, 10 3.5, 0 7" fill="none" stroke="#333"/>
+    </marker>
+    <marker id="seq-cross" markerWidth="10" markerHeight="10" refX="5" refY="5" orient="auto">
+      <path d="M0,0 L10,10 M10,0 L0,10" stroke="#333" stroke-width="1.5"/>
+    </marker>
+  </defs>`);
+
+    if (options.backgroundColor && options.backgroundColor !== 'transparent') {
+        elements.push(`  <rect width="100%" height="100%" fill="${options.backgroundColor}"/>`);
+    }
+
+    if (layout.title) {
+        elements.push(`  ${text(layout.width / 2, (options.marginY ?? 20) + fontSize * 1.2, layout.title, ' text-anchor="middle" font-weight="bold" class="seq-title"')}`);
+    }
+
+    // Fragments behind everything else
+    for (const frame of layout.fragments) {
+        const header = frame.block.type === 'group' || frame.block.type === 'rect' ? frame.block.label ?? '' : frame.block.type;
+        const parts = [
+            `    <rect x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${frame.height}" fill="${frame.block.type === 'rect' ? '#f0f0f0' : 'none'}" stroke="#666" stroke-width="1"/>`,
+        ];
+        if (header) {
+            const tabWidth = header.length * fontSize * 0.6 + 16;
+            parts.push(`    <path d="M${frame.x},${frame.y + fontSize + 6} H${frame.x + tabWidth - 6} L${frame.x + tabWidth},${frame.y + fontSize} V${frame.y}" fill="#eeeeee" stroke="#666"/>`);
+            parts.push(`    ${text(frame.x + 6, frame.y + fontSize, header, ' font-weight="bold"')}`);
+        }
+        if (frame.block.label && frame.block.type !== 'group' && frame.block.type !== 'rect') {
+            parts.push(`    ${text(frame.x + header.length * fontSize * 0.6 + 24, frame.y + fontSize, `[${frame.block.label}]`)}`);
+        }
+        for (const section of frame.sections) {
+            parts.push(`    <line x1="${frame.x}" y1="${section.y}" x2="${frame.x + frame.width}" y2="${section.y}" stroke="#666" stroke-dasharray="6,4"/>`);
+            if (section.label) {
+                parts.push(`    ${text(frame.x + 6, section.y + fontSize, `[${section.label}]`)}`);
+            }
+        }
+        elements.push(`  <g class="seq-fragment" data-type="${frame.block.type}">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    // Lifelines and participant heads
+    for (const box of layout.participants) {
+        elements.push(`  <line class="seq-lifeline" x1="${box.center}" y1="${box.y + box.height}" x2="${box.center}" y2="${box.lifelineEnd}" stroke="#999" stroke-dasharray="5,5"/>`);
+        elements.push(renderParticipant(box, text));
+    }
+
+    for (const bar of layout.activations) {
+        elements.push(`  <rect class="seq-activation" x="${bar.x}" y="${bar.y}" width="${bar.width}" height="${bar.height}" fill="#f5f5f5" stroke="#666"/>`);
+    }
+
+    for (const line of layout.messages) {
+        const { message } = line;
+        const dashed = message.arrowType.startsWith('dotted') ? ' stroke-dasharray="6,4"' : '';
+        const marker = message.isAsync && MARKERS[message.arrowType] === 'seq-arrow' ? 'seq-arrow-open' : MARKERS[message.arrowType];
+        const markerEnd = marker ? ` marker-end="url(#${marker})"` : '';
+        const label = line.number !== undefined ? `${line.number}. ${message.label}` : message.label;
+        const labelLines = label ? label.split('\n') : [];
+
+        const parts: string[] = [];
+        if (line.self) {
+            parts.push(`    <path d="M${line.x1},${line.y} H${line.x1 + 30} V${line.y + 20} H${line.x1}" fill="none" stroke="#333"${dashed}${markerEnd}/>`);
+            labelLines.forEach((labelLine, i) => {
+                parts.push(`    ${text(line.x1 + 36, line.y + 4 + (i - labelLines.length + 1) * fontSize * 1.2, labelLine)}`);
+            });
+        } else {
+            parts.push(`    <line x1="${line.x1}" y1="${line.y}" x2="${line.x2}" y2="${line.y}" stroke="#333"${dashed}${markerEnd}/>`);
+            labelLines.forEach((labelLine, i) => {
+                const labelY = line.y - 6 - (labelLines.length - 1 - i) * fontSize * 1.2;
+                parts.push(`    ${text((line.x1 + line.x2) / 2, labelY, labelLine, ' text-anchor="middle"')}`);
+            });
+        }
+        elements.push(`  <g class="seq-message" data-from="${escapeXml(message.from)}" data-to="${escapeXml(message.to)}">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    for (const box of layout.notes) {
+        const parts = [
+            `    <path d="M${box.x},${box.y} H${box.x + box.width - 10} L${box.x + box.width},${box.y + 10} V${box.y + box.height} H${box.x} Z" fill="#fff9b1" stroke="#d6b656"/>`,
+        ];
+        box.note.text.split('\n').forEach((noteLine, i) => {
+            parts.push(`    ${text(box.x + 8, box.y + 6 + fontSize * (i + 1) * 1.2, noteLine)}`);
+        });
+        elements.push(`  <g class="seq-note">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    elements.push('</svg>');
+    return elements.join('\n');
+}
+
+/** Render participant head: stick figure for actors, cylinder for databases, box otherwise */
+function renderParticipant(
+    box: SequenceParticipantBox,
+    text: (x: number, y: number, value: string, attrs?: string) => string
+): string {
+    const { participant, x, y, width, height, center } = box;
+    const parts: string[] = [];
+
+    if (participant.type === 'actor') {
+        const headY = y + 6;
+        parts.push(`    <circle cx="${center}" cy="${headY}" r="6" fill="none" stroke="#333"/>`);
+        parts.push(`    <path d="M${center},${headY + 6} V${headY + 20} M${center - 10},${headY + 11} H${center + 10} M${center},${headY + 20} L${center - 8},${headY + 30} M${center},${headY + 20} L${center + 8},${headY + 30}" fill="none" stroke="#333"/>`);
+        parts.push(`    ${text(center, y + height + 14, participant.label, ' text-anchor="middle"')}`);
+    } else {
+        if (participant.type === 'database') {
+            parts.push(`    <path d="M${x},${y + 6} A${width / 2},6 0 0 0 ${x + width},${y + 6} V${y + height} H${x} Z M${x},${y + 6} A${width / 2},6 0 0 1 ${x + width},${y + 6}" fill="#dae8fc" stroke="#6c8ebf"/>`);
+        } else {
+            parts.push(`    <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="3" fill="#dae8fc" stroke="#6c8ebf"/>`);
+        }
+        participant.label.split('\n').forEach((labelLine, i, all) => {
+            const lineY = y + height / 2 + (i - (all.length - 1) / 2) * 16;
+            parts.push(`    ${text(center, lineY, labelLine, ' text-anchor="middle" dominant-baseline="middle"')}`);
+        });
+    }
+
+    return `  <g class="seq-participant" data-id="${escapeXml(participant.id)}" data-type="${participant.type}">\n${parts.join('\n')}\n  </g>`;
+}
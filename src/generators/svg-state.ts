@@ -0,0 +1,142 @@
+/**
+ * State machine SVG generator
+ *
+ * Renders state machines with UML notation: rounded states with action
+ * compartments, composite states as containers around their children,
+ * start/end bullets, choice diamonds, fork/join bars, history circles and
+ * notes
+ */
+
+import type { Diagram } from '../types';
+import { escapeXml, extractStateData } from '../utils';
+import { layoutStateDiagram, type StateBox, type StateLayoutOptions } from '../layout/state';
+
+/** State SVG generation options */
+export interface StateSvgOptions extends StateLayoutOptions {
+    fontFamily?: string;
+    backgroundColor?: string;
+}
+
+/** Generate SVG from a state diagram */
+export function generateStateSvg(diagram: Diagram, options: StateSvgOptions = {}): string {
+    const fontFamily = options.fontFamily ?? 'Arial, sans-serif';
+    const fontSize = options.fontSize ?? 14;
+    const lineHeight = fontSize * 1.3;
+    const stateDiagram = extractStateData(diagram.type === 'state' ? diagram : { ...diagram, type: 'state' })!;
+    const layout = layoutStateDiagram(stateDiagram, options);
+    const text = (x: number, y: number, value: string, attrs = '') =>
+        `<text x="${round(x)}" y="${round(y)}" font-family="${fontFamily}" font-size="${fontSize}"${attrs}>${escapeXml(value)}</text>`;
+
+    const elements: string[] = [];
+    elements.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${layout.width} ${layout.height}" width="${layout.width}" height="${layout.height}">`);
+    elements.push(`  <defs>
+    <marker id="state-arrow" markerWidth="10" markerHeight="7" refX="9" refY="3.5" orient="auto">
+      <polyline points="0 0, 10 3.5, 0 7" fill="none" stroke="#333"/>
+    </marker>
+  </defs>`);
+
+    if (options.backgroundColor && options.backgroundColor !== 'transparent') {
+        elements.push(`  <rect width="100%" height="100%" fill="${options.backgroundColor}"/>`);
+    }
+
+    if (layout.title) {
+        elements.push(`  ${text(layout.width / 2, (options.marginY ?? 20) + fontSize * 1.2, layout.title, ' text-anchor="middle" font-weight="bold" class="state-title"')}`);
+    }
+
+    // Containers come first in the layout, so children are drawn on top
+    for (const box of layout.states) {
+        elements.push(renderState(box, text, lineHeight));
+    }
+
+    for (const path of layout.transitions) {
+        const d = path.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`).join(' ');
+        const parts = [`    <path d="${d}" fill="none" stroke="#333" marker-end="url(#state-arrow)"/>`];
+        const labelLines = path.label ? path.label.split('\n') : [];
+        labelLines.forEach((labelLine, i) => {
+            const y = path.labelPosition.y + (i - (labelLines.length - 1) / 2) * lineHeight;
+            parts.push(`    ${text(path.labelPosition.x, y, labelLine, ' text-anchor="middle" dominant-baseline="middle" paint-order="stroke" stroke="#fff" stroke-width="3"')}`);
+        });
+        elements.push(`  <g class="state-transition" data-from="${escapeXml(path.transition.source)}" data-to="${escapeXml(path.transition.target)}">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    for (const box of layout.notes) {
+        const parts = [
+            `    <path d="M${round(box.x)},${round(box.y)} H${round(box.x + box.width - 10)} L${round(box.x + box.width)},${round(box.y + 10)} V${round(box.y + box.height)} H${round(box.x)} Z" fill="#fff9b1" stroke="#d6b656"/>`,
+        ];
+        box.note.text.split('\n').forEach((noteLine, i) => {
+            parts.push(`    ${text(box.x + 8, box.y + 6 + lineHeight * (i + 1) - 4, noteLine)}`);
+        });
+        elements.push(`  <g class="state-note" data-for="${escapeXml(box.note.stateId)}">\n${parts.join('\n')}\n  </g>`);
+    }
+
+    elements.push('</svg>');
+    return elements.join('\n');
+}
+
+/** Render one state by its type */
+function renderState(
+    box: StateBox,
+    text: (x: number, y: number, value: string, attrs?: string) => string,
+    lineHeight: number
+): string {
+    const { state, x, y, width, height } = box;
+    const cx = x + width / 2;
+    const cy = y + height / 2;
+    const parts: string[] = [];
+    let className = 'state-node';
+
+    switch (state.type) {
+        case 'start':
+            parts.push(`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${width / 2}" fill="#333"/>`);
+            break;
+        case 'end':
+            parts.push(`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${width / 2}" fill="none" stroke="#333" stroke-width="2"/>`);
+            parts.push(`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${width / 2 - 5}" fill="#333"/>`);
+            break;
+        case 'fork':
+        case 'join':
+            parts.push(`    <rect x="${round(x)}" y="${round(y)}" width="${width}" height="${height}" rx="2" fill="#333"/>`);
+            break;
+        case 'choice':
+            parts.push(`    <polygon points="${round(cx)},${round(y)} ${round(x + width)},${round(cy)} ${round(cx)},${round(y + height)} ${round(x)},${round(cy)}" fill="#fff" stroke="#333"/>`);
+            break;
+        case 'history':
+        case 'deep-history':
+            parts.push(`    <circle cx="${round(cx)}" cy="${round(cy)}" r="${width / 2}" fill="#fff" stroke="#333"/>`);
+            parts.push(`    ${text(cx, cy, state.type === 'deep-history' ? 'H*' : 'H', ' text-anchor="middle" dominant-baseline="middle"')}`);
+            break;
+        default: {
+            const isComposite = box.headerHeight > 0;
+            if (isComposite) className = 'state-composite';
+            parts.push(`    <rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" rx="10" fill="${isComposite ? '#f5f5f5' : '#dae8fc'}" stroke="${isComposite ? '#666' : '#6c8ebf'}"/>`);
+
+            // Name centred, or at the top above the action compartment and children
+            const labelLines = box.label.split('\n');
+            const topAligned = isComposite || box.actions.length > 0;
+            labelLines.forEach((line, i) => {
+                const lineY = topAligned
+                    ? y + 5 + lineHeight * (i + 0.5)
+                    : cy + (i - (labelLines.length - 1) / 2) * lineHeight;
+                parts.push(`    ${text(cx, lineY, line, ` text-anchor="middle" dominant-baseline="middle"${isComposite ? ' font-weight="bold"' : ''}`)}`);
+            });
+            if (box.actions.length > 0) {
+                const dividerY = y + labelLines.length * lineHeight + 8;
+                parts.push(`    <line x1="${round(x)}" y1="${round(dividerY)}" x2="${round(x + width)}" y2="${round(dividerY)}" stroke="${isComposite ? '#666' : '#6c8ebf'}"/>`);
+                box.actions.forEach((action, i) => {
+                    parts.push(`    ${text(x + 8, dividerY + lineHeight * (i + 0.5) + 3, action, ' dominant-baseline="middle"')}`);
+                });
+            }
+            if (isComposite && box.actions.length === 0) {
+                const dividerY = y + box.headerHeight - 4;
+                parts.push(`    <line x1="${round(x)}" y1="${round(dividerY)}" x2="${round(x + width)}" y2="${round(dividerY)}" stroke="#666"/>`);
+            }
+        }
+    }
+
+    return `  <g class="${className}" data-id="${escapeXml(state.id)}" data-type="${state.type}">\n${parts.join('\n')}\n  </g>`;
+}
+
+/** Round a coordinate for compact output */
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
@@ -8,6 +8,9 @@
 // Types
 export * from './types/ir';
 export * from './types/fixer';
+export * from './types/registry';
+export * from './types/options';
+export * from './types/fidelity';
 export * from './types/api';
 export * from './types/mutations';
 export * from './types/validation';
@@ -30,50 +33,196 @@ export { createDiagram, mutateDiagram } from './api';
 export { convertInWorker } from './api/worker';
 export type { WorkerMessage, WorkerResponse } from './api/worker';
 
+// API - Format registry
+export {
+    registerParser,
+    registerGenerator,
+    registerDetector,
+    registerFixer,
+    registerCapabilities,
+    unregisterFormat,
+    isRegisteredFormat,
+} from './api/registry';
+
 // API - Diff
 export { compareDiagrams } from './api/diff';
 export type { DiffResult, DiffSummary, ElementDiff } from './api/diff';
 
 // Parsers - Core
 export { parseMermaid } from './parsers/mermaid';
-export { parseDrawio } from './parsers/drawio';
+export { parseDrawio, parseDrawioPages } from './parsers/drawio';
+export type { DrawioParseOptions } from './parsers/drawio';
 export { parseExcalidraw } from './parsers/excalidraw';
 export { parsePlantUML } from './parsers/plantuml';
 export { parseDot } from './parsers/dot';
+export { parseGraphvizPlain } from './parsers/graphviz-plain';
+export { parseGraphvizJson } from './parsers/graphviz-json';
 // Parsers - Extended
 export { parseD2 } from './parsers/d2';
-export { parseStructurizr } from './parsers/structurizr';
-export { parseBpmn, parseBpmn as parseBPMN } from './parsers/bpmn';
+export type { D2ParseOptions } from './parsers/d2';
+export { parseStructurizr, parseStructurizrC4Diagram, parseStructurizrViews } from './parsers/structurizr';
+export type { StructurizrParseOptions } from './parsers/structurizr';
+export { parseBpmn, parseBpmn as parseBPMN, parseBpmnDiagram } from './parsers/bpmn';
 export { parseGraphml, parseGraphml as parseGraphML } from './parsers/graphml';
 export { parseLucidchart } from './parsers/lucidchart';
 // Parsers - Sequence
-export { parseSequenceDiagram, parseSequence } from './parsers/sequence-parser';
+export { parseSequenceDiagram, parseSequence, parseSequenceToDiagram, extractSequenceData, embedSequenceData } from './parsers/sequence-parser';
+export { parsePlantUMLSequence, parsePlantUMLSequenceDiagram } from './parsers/plantuml-sequence';
+// Parsers - Class
+export { parseClassDiagram } from './parsers/class-parser';
+export type {
+    ClassRelationType,
+    ClassVisibility,
+    ClassifierKind,
+    IRClass,
+    IRClassAttribute,
+    IRClassDiagram,
+    IRClassNote,
+    IRClassOperation,
+    IRClassParameter,
+    IRClassRelationship,
+} from './types/class';
+export type { GanttScheduledTask, GanttTaskTag, IRGanttDiagram, IRGanttTask } from './types/gantt';
+// Parsers - Gantt
+export { parseGanttDiagram } from './parsers/gantt-parser';
+export { parsePlantUMLGantt } from './parsers/plantuml-gantt';
+export type { IRMindmapDiagram, IRMindmapNode, MindmapNodeShape, MindmapSide } from './types/mindmap';
+export type {
+    BpmnElementType,
+    BpmnEventDefinition,
+    BpmnEventDefinitionType,
+    BpmnFlowType,
+    IRBpmnDiagram,
+    IRBpmnElement,
+    IRBpmnFlow,
+    IRBpmnLane,
+    IRBpmnPool,
+    IRBpmnProcess,
+} from './types/bpmn';
+// Parsers - Mindmap
+export { parseMindmapDiagram } from './parsers/mindmap-parser';
+export { parsePlantUMLMindmap } from './parsers/plantuml-mindmap';
+// Parsers - C4
+export { parseC4Diagram } from './parsers/c4-parser';
+export { parsePlantUMLC4 } from './parsers/plantuml-c4';
+export type {
+    C4AutoLayout,
+    C4ElementKind,
+    C4ElementVariant,
+    C4LayoutDirection,
+    C4RelationshipDirection,
+    C4ViewType,
+    IRC4Diagram,
+    IRC4Element,
+    IRC4Group,
+    IRC4Relationship,
+    IRC4View,
+} from './types/c4';
+export type {
+    IRState,
+    IRStateDiagram,
+    IRStateNote,
+    IRTransition,
+    StateAction,
+    StateActionType,
+    StateDirection,
+    StateType,
+} from './types/state';
+export type {
+    ERAttributeKeyType,
+    ERCardinality,
+    ERIdentifying,
+    IRAttribute,
+    IREntity,
+    IRERDiagram,
+    IRRelationship,
+} from './types/er';
+// Parsers - ER
+export { parseERDiagram } from './parsers/er-parser';
+export { parseSQL, parseSQLERDiagram } from './parsers/sql';
 // Parsers - State
 export { parseStateDiagram, parseToStateDiagramIR } from './parsers/state';
+export { parseSCXML, parseSCXMLStateDiagram } from './parsers/scxml';
 export * from './parsers/base';
 
 // Generators - Core
-export { generateDrawio } from './generators/drawio';
+export { generateDrawio, generateDrawioPages, compressDrawio } from './generators/drawio';
+export type { DrawioOptions } from './generators/drawio';
 export { generateExcalidraw } from './generators/excalidraw';
+export type { ExcalidrawOptions } from './generators/excalidraw';
 export { generateMermaid } from './generators/mermaid';
+export type { MermaidOptions } from './generators/mermaid';
 export { generatePlantUML } from './generators/plantuml';
+export type { PlantUMLOptions } from './generators/plantuml';
 export { generateDot } from './generators/dot';
+export type { DotOptions } from './generators/dot';
 export { generateSvg } from './generators/svg';
-export { generatePng, generatePngBlob, generatePngWithInfo, downloadPng } from './generators/png';
+export { generatePng, generatePngBlob, generatePngWithInfo, generatePngFromSvg, downloadPng } from './generators/png';
 // Generators - Extended
 export { generateD2 } from './generators/d2';
-export { generateStructurizr } from './generators/structurizr';
-export { generateBpmn, generateBpmn as generateBPMN } from './generators/bpmn';
+export type { D2Options } from './generators/d2';
+export { generateStructurizr, generateStructurizrCode } from './generators/structurizr';
+export { generateBpmn, generateBpmn as generateBPMN, generateBpmnCode } from './generators/bpmn';
 export { generateGraphML } from './generators/graphml';
 // Generators - Sequence
 export { generateSequenceDiagram, generateSequence } from './generators/sequence-generator';
+export { generatePlantUMLSequence, generatePlantUMLSequenceCode } from './generators/plantuml-sequence';
+export { generateSequenceSvg } from './generators/svg-sequence';
+export type { SequenceSvgOptions } from './generators/svg-sequence';
+export { generateSequenceDrawio } from './generators/drawio-sequence';
+export type { SequenceDrawioOptions } from './generators/drawio-sequence';
+export { generateSequenceExcalidraw } from './generators/excalidraw-sequence';
+export type { SequenceExcalidrawOptions } from './generators/excalidraw-sequence';
 // Generators - State
 export { generateStateDiagram, generateStateDiagramCode } from './generators/state';
+export { generatePlantUMLState, generatePlantUMLStateCode } from './generators/plantuml-state';
+export { generateSCXML, generateSCXMLCode } from './generators/scxml';
+export { generateStateSvg } from './generators/svg-state';
+export type { StateSvgOptions } from './generators/svg-state';
+export { generateStateDrawio } from './generators/drawio-state';
+export type { StateDrawioOptions } from './generators/drawio-state';
+// Generators - ER
+export { generateERDiagram } from './generators/er-generator';
+export { generateSQL, generateSQLCode } from './generators/sql';
+export { generateDBML, generateDBMLCode } from './generators/dbml';
+export { generatePlantUMLER, generatePlantUMLERCode } from './generators/plantuml-er';
+export { generateERSvg } from './generators/svg-er';
+export type { ERSvgOptions } from './generators/svg-er';
+export { generateERDrawio } from './generators/drawio-er';
+export type { ERDrawioOptions } from './generators/drawio-er';
+// Generators - BPMN
+export { generateBpmnSvg } from './generators/svg-bpmn';
+export type { BpmnSvgOptions } from './generators/svg-bpmn';
+export { generateBpmnDrawio } from './generators/drawio-bpmn';
+export type { BpmnDrawioOptions } from './generators/drawio-bpmn';
+// Generators - Class
+export { generateClassDiagram } from './generators/class-generator';
+export { generatePlantUMLClassDiagram } from './generators/plantuml-class';
+// Generators - Gantt
+export { generateGanttDiagram } from './generators/gantt-generator';
+export { generatePlantUMLGantt } from './generators/plantuml-gantt';
+export { generateGanttSvg } from './generators/svg-gantt';
+export type { GanttSvgOptions } from './generators/svg-gantt';
+// Generators - Mindmap
+export { generateMindmapDiagram } from './generators/mindmap-generator';
+export { generatePlantUMLMindmap } from './generators/plantuml-mindmap';
+// Generators - C4
+export { generateC4Diagram, generateC4DiagramCode } from './generators/c4-generator';
+export { generatePlantUMLC4, generatePlantUMLC4Code } from './generators/plantuml-c4';
 export type { SvgOptions } from './generators/svg';
 export type { PngOptions, PngResult } from './generators/png';
 
 // Layout
 export { autoLayout } from './layout/auto-layout';
+export { loadElkLayout } from './layout/elk-layout';
+export { layoutSequenceDiagram } from './layout/sequence';
+export type { SequenceLayout, SequenceLayoutOptions } from './layout/sequence';
+export { layoutStateDiagram } from './layout/state';
+export type { StateLayout, StateLayoutOptions } from './layout/state';
+export { layoutERDiagram } from './layout/er';
+export type { ERLayout, ERLayoutOptions } from './layout/er';
+export { layoutBpmnDiagram } from './layout/bpmn';
+export type { BpmnLayout, BpmnLayoutOptions } from './layout/bpmn';
 
 // Fixers
 export { fixSyntax, hasFixerFor, getRulesFor, fixMermaid, fixPlantUML } from './fixers';
@@ -83,47 +232,100 @@ export type { FixResult, FixRule, SyntaxError, FixSuggestion } from './fixers';
 export * from './errors';
 
 // Main convert function
-import type { ConvertOptions, ConvertResult, Diagram, InputFormat, OutputFormat } from './types';
+import type {
+    BuiltinInputFormat,
+    BuiltinOutputFormat,
+    ConvertOptions,
+    ConvertResult,
+    Diagram,
+    DiagramSvgOptions,
+    DiagramType,
+    FormatGenerator,
+    FormatParser,
+    GeneratorOptions,
+    LayoutDirection,
+    ParserOptions,
+    PngGeneratorOptions,
+    SvgGeneratorOptions,
+} from './types';
 import { parseMermaid } from './parsers/mermaid';
 import { parseDrawio } from './parsers/drawio';
 import { parseExcalidraw } from './parsers/excalidraw';
 import { parsePlantUML } from './parsers/plantuml';
 import { parseDot } from './parsers/dot';
+import { parseGraphvizPlain } from './parsers/graphviz-plain';
+import { parseGraphvizJson } from './parsers/graphviz-json';
 import { parseD2 } from './parsers/d2';
-import { parseStructurizr } from './parsers/structurizr';
+import { parseStructurizr, parseStructurizrViews } from './parsers/structurizr';
+import { parseSCXML } from './parsers/scxml';
+import { parseSQL } from './parsers/sql';
 import { parseBpmn } from './parsers/bpmn';
 import { parseGraphml } from './parsers/graphml';
 import { parseLucidchart } from './parsers/lucidchart';
-import { generateDrawio } from './generators/drawio';
+import { generateDrawio, generateDrawioPages } from './generators/drawio';
 import { generateExcalidraw } from './generators/excalidraw';
 import { generateMermaid } from './generators/mermaid';
 import { generatePlantUML } from './generators/plantuml';
 import { generateDot } from './generators/dot';
 import { generateSvg } from './generators/svg';
-import { generatePng } from './generators/png';
+import { generatePng, generatePngFromSvg } from './generators/png';
 import { generateD2 } from './generators/d2';
 import { generateStructurizr } from './generators/structurizr';
 import { generateBpmn } from './generators/bpmn';
 import { generateGraphML } from './generators/graphml';
+import { generateSequenceDiagram } from './generators/sequence-generator';
+import { generatePlantUMLSequence } from './generators/plantuml-sequence';
+import { generateSequenceSvg } from './generators/svg-sequence';
+import { generateSequenceDrawio } from './generators/drawio-sequence';
+import { generateSequenceExcalidraw } from './generators/excalidraw-sequence';
+import { generateStateDiagram } from './generators/state';
+import { generatePlantUMLState } from './generators/plantuml-state';
+import { generateSCXML } from './generators/scxml';
+import { generateStateSvg } from './generators/svg-state';
+import { generateStateDrawio } from './generators/drawio-state';
+import { generateERDiagram } from './generators/er-generator';
+import { generateSQL } from './generators/sql';
+import { generateDBML } from './generators/dbml';
+import { generatePlantUMLER } from './generators/plantuml-er';
+import { generateERSvg } from './generators/svg-er';
+import { generateERDrawio } from './generators/drawio-er';
+import { generateBpmnSvg } from './generators/svg-bpmn';
+import { generateBpmnDrawio } from './generators/drawio-bpmn';
+import { generateClassDiagram } from './generators/class-generator';
+import { generatePlantUMLClassDiagram } from './generators/plantuml-class';
+import { generateGanttDiagram } from './generators/gantt-generator';
+import { generatePlantUMLGantt } from './generators/plantuml-gantt';
+import { generateGanttSvg } from './generators/svg-gantt';
+import { generateMindmapDiagram } from './generators/mindmap-generator';
+import { generatePlantUMLMindmap } from './generators/plantuml-mindmap';
+import { generateC4Diagram } from './generators/c4-generator';
+import { generatePlantUMLC4 } from './generators/plantuml-c4';
+import { extractSequenceData } from './parsers/sequence-parser';
 import { autoLayout } from './layout/auto-layout';
+import { getRegisteredGenerator, getRegisteredParser } from './api/registry';
 import { encodeText, transliterateCyrillic, hasCyrillic } from './utils/text-encoder';
+import { analyzeFidelity, summarizeDiagnostics } from './utils/fidelity';
 
 /** Parser functions by format */
-const parsers: Record<InputFormat, (source: string) => Diagram> = {
+const parsers: { [F in BuiltinInputFormat]: FormatParser<ParserOptions<F>> } = {
     mermaid: parseMermaid,
     drawio: parseDrawio,
     excalidraw: parseExcalidraw,
     plantuml: parsePlantUML,
     dot: parseDot,
+    'graphviz-plain': parseGraphvizPlain,
+    'graphviz-json': parseGraphvizJson,
     d2: parseD2,
     structurizr: parseStructurizr,
     bpmn: parseBpmn,
     graphml: parseGraphml,
     lucidchart: parseLucidchart,
+    scxml: parseSCXML,
+    sql: parseSQL,
 };
 
 /** Generator functions by format */
-const generators: Record<OutputFormat, (diagram: Diagram) => string> = {
+const generators: { [F in BuiltinOutputFormat]: FormatGenerator<GeneratorOptions<F>> } = {
     mermaid: generateMermaid,
     drawio: generateDrawio,
     excalidraw: generateExcalidraw,
@@ -135,8 +337,84 @@ const generators: Record<OutputFormat, (diagram: Diagram) => string> = {
     structurizr: generateStructurizr,
     bpmn: generateBpmn,
     graphml: generateGraphML,
+    scxml: generateSCXML,
+    sql: generateSQL,
+    dbml: generateDBML,
+};
+
+/** Generators for non-flowchart diagram types, used when the target format supports the type */
+const typedGenerators: { [F in BuiltinOutputFormat]?: Partial<Record<DiagramType, FormatGenerator<GeneratorOptions<F>>>> } = {
+    mermaid: {
+        sequence: (diagram, options) => {
+            const sequence = extractSequenceData(diagram);
+            return sequence ? generateSequenceDiagram(sequence) : generateMermaid(diagram, options);
+        },
+        class: (diagram, options) => generateClassDiagram(withDirection(diagram, options?.direction)),
+        state: (diagram, options) => generateStateDiagram(withDirection(diagram, options?.direction)),
+        er: (diagram, options) => generateERDiagram(withDirection(diagram, options?.direction)),
+        gantt: generateGanttDiagram,
+        mindmap: generateMindmapDiagram,
+        c4: generateC4Diagram,
+    },
+    plantuml: {
+        sequence: generatePlantUMLSequence,
+        class: (diagram, options) => generatePlantUMLClassDiagram(withDirection(diagram, options?.direction)),
+        state: (diagram, options) => generatePlantUMLState(withDirection(diagram, options?.direction)),
+        er: (diagram, options) => generatePlantUMLER(withDirection(diagram, options?.direction)),
+        gantt: generatePlantUMLGantt,
+        mindmap: generatePlantUMLMindmap,
+        c4: generatePlantUMLC4,
+    },
+    svg: {
+        sequence: (diagram, options) => generateSequenceSvg(diagram, svgOptionsFor(options, 'sequence')),
+        state: (diagram, options) => generateStateSvg(diagram, svgOptionsFor(options, 'state')),
+        er: (diagram, options) => generateERSvg(diagram, svgOptionsFor(options, 'er')),
+        gantt: (diagram, options) => generateGanttSvg(diagram, svgOptionsFor(options, 'gantt')),
+        bpmn: (diagram, options) => generateBpmnSvg(diagram, svgOptionsFor(options, 'bpmn')),
+    },
+    png: {
+        sequence: (diagram, options) => generatePngFromSvg(generateSequenceSvg(diagram, pngSvgOptionsFor(options, 'sequence')), options).dataUrl,
+        state: (diagram, options) => generatePngFromSvg(generateStateSvg(diagram, pngSvgOptionsFor(options, 'state')), options).dataUrl,
+        er: (diagram, options) => generatePngFromSvg(generateERSvg(diagram, pngSvgOptionsFor(options, 'er')), options).dataUrl,
+        gantt: (diagram, options) => generatePngFromSvg(generateGanttSvg(diagram, pngSvgOptionsFor(options, 'gantt')), options).dataUrl,
+        bpmn: (diagram, options) => generatePngFromSvg(generateBpmnSvg(diagram, pngSvgOptionsFor(options, 'bpmn')), options).dataUrl,
+    },
+    drawio: {
+        sequence: (diagram, options) => generateSequenceDrawio(diagram, { compressed: options?.compressed, ...options?.sequence }),
+        state: (diagram, options) => generateStateDrawio(diagram, { compressed: options?.compressed, ...options?.state }),
+        er: (diagram, options) => generateERDrawio(diagram, { compressed: options?.compressed, ...options?.er }),
+        bpmn: (diagram, options) => generateBpmnDrawio(diagram, { compressed: options?.compressed, ...options?.bpmn }),
+    },
+    excalidraw: {
+        sequence: (diagram, options) => generateSequenceExcalidraw(diagram, { backgroundColor: options?.backgroundColor, ...options?.sequence }),
+    },
 };
 
+/** The diagram with the direction of the generator options, which take precedence over the source */
+function withDirection(diagram: Diagram, direction: LayoutDirection | undefined): Diagram {
+    return direction ? { ...diagram, metadata: { source: diagram.type, ...diagram.metadata, direction } } : diagram;
+}
+
+/** SVG options of a diagram type: the font and background options of the format, then those of the type */
+function svgOptionsFor<T extends keyof DiagramSvgOptions>(options: SvgGeneratorOptions = {}, type: T): NonNullable<DiagramSvgOptions[T]> {
+    const { fontFamily, fontSize, backgroundColor } = options;
+    const shared = Object.fromEntries(Object.entries({ fontFamily, fontSize, backgroundColor }).filter(([, value]) => value !== undefined));
+    return { ...shared, ...options[type] } as NonNullable<DiagramSvgOptions[T]>;
+}
+
+/** SVG options of a diagram type rendered to PNG; the rasteriser paints the background */
+function pngSvgOptionsFor<T extends keyof DiagramSvgOptions>(options: PngGeneratorOptions = {}, type: T): NonNullable<DiagramSvgOptions[T]> {
+    return svgOptionsFor({ ...options, backgroundColor: undefined }, type);
+}
+
+/** Options of a format from options keyed by format */
+function optionsOf(byFormat: object | undefined, format: string): unknown {
+    return (byFormat as Record<string, unknown> | undefined)?.[format];
+}
+
+/** Visual formats that get a radial placement for mindmaps without coordinates */
+const RADIAL_TARGETS = new Set<string>(['drawio', 'excalidraw', 'svg', 'png']);
+
 /**
  * Apply text transformations to diagram labels
  */
@@ -241,22 +519,72 @@ function applyTextOptions(diagram: Diagram, options: ConvertOptions): Diagram {
  * ```
  */
 export function convert(source: string, options: ConvertOptions): ConvertResult {
-    const warnings: string[] = [];
-    const errors: string[] = [];
-
-    // Parse source
-    const parser = parsers[options.from];
+    // Parse source; registered parsers take precedence over built-in ones
+    const registered = getRegisteredParser(options.from);
+    const parser = (registered ?? parsers[options.from as BuiltinInputFormat]) as FormatParser | undefined;
     if (!parser) {
         throw new Error(`Unsupported input format: ${options.from}`);
     }
 
+    if (options.views && options.from === 'structurizr' && !registered) {
+        return convertViews(source, options);
+    }
+
+    // The page and view shortcuts take precedence over the parser options
+    let parserOptions = optionsOf(options.parserOptions, options.from);
+    if (options.from === 'drawio' && options.page !== undefined) {
+        parserOptions = { ...(parserOptions as object), page: options.page };
+    } else if (options.from === 'structurizr' && options.view !== undefined) {
+        parserOptions = { ...(parserOptions as object), view: options.view };
+    }
+
     let diagram: Diagram;
     try {
-        diagram = parser(source);
+        diagram = parser(source, parserOptions);
     } catch (error) {
         throw new Error(`Failed to parse ${options.from}: ${error}`);
     }
 
+    return render(diagram, options);
+}
+
+/** Convert every view of a Structurizr workspace; Draw.io gets one page per view */
+function convertViews(source: string, options: ConvertOptions): ConvertResult {
+    let diagrams: Diagram[];
+    try {
+        diagrams = parseStructurizrViews(source);
+    } catch (error) {
+        throw new Error(`Failed to parse ${options.from}: ${error}`);
+    }
+
+    const views = diagrams.map(diagram => render(diagram, options));
+    if (options.to !== 'drawio') {
+        return { ...views[0], views };
+    }
+
+    // Every view is a page, so the losses of every view apply
+    const output = generateDrawioPages(views.map(view => view.diagram), options.generatorOptions?.drawio);
+    const warnings = views.flatMap(view => view.warnings ?? []);
+    const errors = views.flatMap(view => view.errors ?? []);
+    return {
+        ...views[0],
+        output,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        errors: errors.length > 0 ? errors : undefined,
+        diagnostics: views.flatMap(view => view.diagnostics ?? []),
+        views,
+    };
+}
+
+/** Lay out, transform and generate a parsed diagram */
+function render(source: Diagram, options: ConvertOptions): ConvertResult {
+    // Layout only adds positions, so losses are measured on the parsed diagram
+    // with the text as it will be written
+    const diagnostics = analyzeFidelity(applyTextOptions(source, options), options.to);
+    const { warnings, errors } = summarizeDiagnostics(diagnostics);
+    warnings.unshift(...source.metadata?.warnings ?? []);
+    let diagram = source;
+
     // Apply layout if needed
     if (options.layout && options.layout.algorithm !== 'none') {
         diagram = autoLayout(diagram, {
@@ -264,7 +592,17 @@ export function convert(source: string, options: ConvertOptions): ConvertResult
             direction: options.layout.direction,
             nodeSpacing: options.layout.nodeSpacing,
             rankSpacing: options.layout.rankSpacing,
+            iterations: options.layout.iterations,
+            rootId: options.layout.rootId,
+            incremental: options.preserveLayout,
         });
+    } else if (options.preserveLayout && !options.layout) {
+        // Keep source coordinates, only place nodes that have none
+        diagram = autoLayout(diagram, { incremental: true });
+    } else if (diagram.type === 'mindmap' && RADIAL_TARGETS.has(options.to) && diagram.nodes.every(n => !n.position)) {
+        // Mindmaps have no coordinates; spread branches around the root
+        const root = diagram.nodes.find(n => n.metadata?.isRoot) ?? diagram.nodes[0];
+        diagram = autoLayout(diagram, { algorithm: 'radial', rootId: root?.id });
     }
 
     // Apply text transformations if specified
@@ -273,14 +611,15 @@ export function convert(source: string, options: ConvertOptions): ConvertResult
     }
 
     // Generate output
-    const generator = generators[options.to];
+    const builtin = options.to as BuiltinOutputFormat;
+    const generator = (getRegisteredGenerator(options.to) ?? typedGenerators[builtin]?.[diagram.type] ?? generators[builtin]) as FormatGenerator | undefined;
     if (!generator) {
         throw new Error(`Unsupported output format: ${options.to}`);
     }
 
     let output: string;
     try {
-        output = generator(diagram);
+        output = generator(diagram, optionsOf(options.generatorOptions, options.to));
     } catch (error) {
         throw new Error(`Failed to generate ${options.to}: ${error}`);
     }
@@ -290,6 +629,7 @@ export function convert(source: string, options: ConvertOptions): ConvertResult
         diagram,
         warnings: warnings.length > 0 ? warnings : undefined,
         errors: errors.length > 0 ? errors : undefined,
+        diagnostics,
     };
 }
 
@@ -1,28 +1,52 @@
 /**
- * Auto-layout using Dagre
+ * Auto-layout using Dagre, ELK or the built-in force, radial, tree and grid layouts
  * 
  * Automatically positions nodes in a diagram
  */
 
 import dagre from 'dagre';
-import type { Diagram, DiagramNode, LayoutDirection } from '../types';
+import type { Diagram, DiagramNode, LayoutAlgorithm, LayoutDirection } from '../types';
+import { applyElkLayout } from './elk-layout';
+import { applyForceLayout } from './force';
+import { applyGridLayout } from './grid';
+import { applyRadialLayout } from './radial';
+import { applyTreeLayout } from './tree';
+import { applyIncrementalLayout } from './incremental';
+import { buildParentMap } from '../utils/group-hierarchy';
+import {
+    EMPTY_GROUP_SIZE,
+    calculateViewport,
+    fitGroupsToChildren,
+    getDefaultNodeSize,
+    type LayoutBox,
+} from './layout-utils';
 
 export interface LayoutOptions {
-    algorithm?: 'dagre' | 'elk' | 'none';
+    algorithm?: LayoutAlgorithm;
     direction?: LayoutDirection;
     nodeSpacing?: number;
     rankSpacing?: number;
     marginX?: number;
     marginY?: number;
+    /** Keep nodes that already have a position; only place the others */
+    incremental?: boolean;
+    /** Simulation steps of the force-directed layout */
+    iterations?: number;
+    /** Root node for the radial and tree layouts (default: first node without incoming edges) */
+    rootId?: string;
 }
 
-const DEFAULT_OPTIONS: Required<LayoutOptions> = {
+type ResolvedLayoutOptions = Required<Omit<LayoutOptions, 'rootId'>> & Pick<LayoutOptions, 'rootId'>;
+
+const DEFAULT_OPTIONS: ResolvedLayoutOptions = {
     algorithm: 'dagre',
     direction: 'TB',
     nodeSpacing: 50,
     rankSpacing: 70,
     marginX: 50,
     marginY: 50,
+    incremental: false,
+    iterations: 300,
 };
 
 /** Apply auto-layout to diagram */
@@ -37,18 +61,47 @@ export function autoLayout(diagram: Diagram, options: LayoutOptions = {}): Diagr
         return diagram;
     }
 
-    if (opts.algorithm === 'elk') {
-        console.warn('ELK layout not implemented, falling back to Dagre');
+    if (opts.incremental) {
+        return applyIncrementalLayout(diagram, opts, d => runAlgorithm(d, opts));
+    }
+
+    return runAlgorithm(diagram, opts);
+}
+
+/** Run the selected layout algorithm on the whole diagram */
+function runAlgorithm(diagram: Diagram, opts: ResolvedLayoutOptions): Diagram {
+    switch (opts.algorithm) {
+        case 'elk':
+            try {
+                return applyElkLayout(diagram, opts);
+            } catch (layoutError) {
+                console.warn('ELK layout failed, falling back to Dagre:', layoutError);
+            }
+            break;
+        case 'force':
+            return applyForceLayout(diagram, opts);
+        case 'radial':
+            return applyRadialLayout(diagram, opts);
+        case 'tree':
+            return applyTreeLayout(diagram, opts);
+        case 'grid':
+            return applyGridLayout(diagram, opts);
     }
 
     return applyDagreLayout(diagram, opts);
 }
 
 /** Apply Dagre layout algorithm */
-function applyDagreLayout(diagram: Diagram, options: Required<LayoutOptions>): Diagram {
+function applyDagreLayout(diagram: Diagram, options: ResolvedLayoutOptions): Diagram {
     try {
-        // Create Dagre graph
-        const g = new dagre.graphlib.Graph();
+        const knownIds = new Set([...diagram.nodes, ...diagram.groups].map(e => e.id));
+        const parents = new Map(
+            [...buildParentMap(diagram.groups)].filter(([childId]) => knownIds.has(childId))
+        );
+        const compound = parents.size > 0;
+
+        // Create Dagre graph (compound when groups have members)
+        const g = new dagre.graphlib.Graph({ compound });
 
         g.setGraph({
             rankdir: options.direction,
@@ -70,8 +123,24 @@ function applyDagreLayout(diagram: Diagram, options: Required<LayoutOptions>): D
             });
         }
 
-        // Add edges
+        // Add groups: populated ones become clusters, empty ones plain boxes
+        const clusters = new Set(parents.values());
+        for (const group of diagram.groups) {
+            if (g.hasNode(group.id)) continue;
+            if (clusters.has(group.id)) {
+                g.setNode(group.id, { label: group.label });
+            } else {
+                const size = group.size || EMPTY_GROUP_SIZE;
+                g.setNode(group.id, { width: size.width, height: size.height, label: group.label });
+            }
+        }
+        for (const [childId, parentId] of parents) {
+            g.setParent(childId, parentId);
+        }
+
+        // Add edges (Dagre cannot route edges that end on a cluster)
         for (const edge of diagram.edges) {
+            if (clusters.has(edge.source) || clusters.has(edge.target)) continue;
             g.setEdge(edge.source, edge.target);
         }
 
@@ -123,26 +192,24 @@ function applyDagreLayout(diagram: Diagram, options: Required<LayoutOptions>): D
             };
         });
 
-        // Calculate viewport
-        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-
-        for (const node of layoutedNodes) {
-            if (node.position && node.size) {
-                minX = Math.min(minX, node.position.x);
-                minY = Math.min(minY, node.position.y);
-                maxX = Math.max(maxX, node.position.x + node.size.width);
-                maxY = Math.max(maxY, node.position.y + node.size.height);
-            }
+        // Size groups from Dagre cluster boxes, padded for their labels
+        const clusterBoxes = new Map<string, LayoutBox>();
+        for (const group of diagram.groups) {
+            const dagreGroup = g.hasNode(group.id) ? g.node(group.id) : undefined;
+            if (!dagreGroup || isNaN(dagreGroup.x) || isNaN(dagreGroup.y) || !dagreGroup.width) continue;
+            clusterBoxes.set(group.id, {
+                position: { x: dagreGroup.x - dagreGroup.width / 2, y: dagreGroup.y - dagreGroup.height / 2 },
+                size: { width: dagreGroup.width, height: dagreGroup.height },
+            });
         }
+        const layoutedGroups = fitGroupsToChildren(layoutedNodes, diagram.groups, parents, clusterBoxes);
 
         return {
             ...diagram,
             nodes: layoutedNodes,
             edges: layoutedEdges,
-            viewport: {
-                width: maxX - minX + options.marginX * 2,
-                height: maxY - minY + options.marginY * 2,
-            },
+            groups: layoutedGroups,
+            viewport: calculateViewport(layoutedNodes, layoutedGroups, options.marginX, options.marginY),
         };
     } catch (layoutError) {
         // Dagre failed (e.g., intersection errors), use simple layout
@@ -151,27 +218,8 @@ function applyDagreLayout(diagram: Diagram, options: Required<LayoutOptions>): D
     }
 }
 
-/** Get default size for node shape */
-function getDefaultNodeSize(shape: string): { width: number; height: number } {
-    switch (shape) {
-        case 'circle':
-            return { width: 80, height: 80 };
-        case 'diamond':
-            return { width: 100, height: 80 };
-        case 'cylinder':
-            return { width: 80, height: 100 };
-        case 'actor':
-            return { width: 50, height: 80 };
-        case 'hexagon':
-            return { width: 120, height: 80 };
-        default:
-            return { width: 150, height: 60 };
-    }
-}
-
-
 /** Simple grid layout as fallback when Dagre fails */
-function applySimpleLayout(diagram: Diagram, options: Required<LayoutOptions>): Diagram {
+function applySimpleLayout(diagram: Diagram, options: ResolvedLayoutOptions): Diagram {
     const isHorizontal = options.direction === 'LR' || options.direction === 'RL';
     const spacing = options.nodeSpacing + 100;
 
@@ -190,12 +238,14 @@ function applySimpleLayout(diagram: Diagram, options: Required<LayoutOptions>):
         };
     });
 
+    const layoutedGroups = fitGroupsToChildren(layoutedNodes, diagram.groups, buildParentMap(diagram.groups));
+
     // Calculate viewport
     let maxX = 0, maxY = 0;
-    for (const node of layoutedNodes) {
-        if (node.position && node.size) {
-            maxX = Math.max(maxX, node.position.x + node.size.width);
-            maxY = Math.max(maxY, node.position.y + node.size.height);
+    for (const element of [...layoutedNodes, ...layoutedGroups]) {
+        if (element.position && element.size) {
+            maxX = Math.max(maxX, element.position.x + element.size.width);
+            maxY = Math.max(maxY, element.position.y + element.size.height);
         }
     }
 
@@ -203,6 +253,7 @@ function applySimpleLayout(diagram: Diagram, options: Required<LayoutOptions>):
         ...diagram,
         nodes: layoutedNodes,
         edges: diagram.edges,
+        groups: layoutedGroups,
         viewport: {
             width: maxX + options.marginX,
             height: maxY + options.marginY,
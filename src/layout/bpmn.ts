@@ -0,0 +1,822 @@
+/**
+ * BPMN layout
+ *
+ * Places BPMN models the way process modelers draw them: pools stacked top
+ * to bottom with their name in a header strip on the left, lanes stacked
+ * inside their pool, and the process flowing left to right. Flow nodes are
+ * ranked with Dagre across the whole pool (with one cluster per lane), then
+ * every lane is sized to its members so lanes never overlap. Expanded
+ * sub-processes are laid out bottom-up like composite states, boundary
+ * events sit on the lower border of their activity, and flows are routed
+ * orthogonally.
+ *
+ * Models whose drawn elements, pools and lanes all carry DI bounds keep
+ * them unchanged, along with their waypoints. When only some carry them,
+ * those keep their bounds and the rest is placed around them. The result
+ * is a renderer-neutral geometry model shared by the BPMN, SVG and Draw.io
+ * generators.
+ */
+
+import dagre from 'dagre';
+import type { Position, Size } from '../types';
+import type { BpmnBounds, IRBpmnDiagram, IRBpmnElement, IRBpmnFlow, IRBpmnLane, IRBpmnPool } from '../types/bpmn';
+import { isBpmnEvent, isBpmnGateway, isBpmnSubProcess } from '../types/bpmn';
+import { walkLanes } from '../utils/bpmn';
+
+/** Options consumed by the BPMN layout */
+export interface BpmnLayoutOptions {
+    marginX?: number;
+    marginY?: number;
+    nodeSpacing?: number;
+    rankSpacing?: number;
+    /** Space between lane borders and their contents */
+    padding?: number;
+    /** Width of the name strip of pools and lanes */
+    headerSize?: number;
+    fontSize?: number;
+    /**
+     * Keep the bounds of models that carry only some, placing the rest
+     * around them; otherwise such models are laid out from scratch
+     */
+    keepPartialBounds?: boolean;
+}
+
+/** Placed pool */
+export interface BpmnPoolBox extends BpmnBounds {
+    pool: IRBpmnPool;
+}
+
+/** Placed lane */
+export interface BpmnLaneBox extends BpmnBounds {
+    lane: IRBpmnLane;
+    poolId: string;
+    /** Enclosing lane */
+    parent?: string;
+    depth: number;
+}
+
+/** Placed element */
+export interface BpmnShapeBox extends BpmnBounds {
+    element: IRBpmnElement;
+    /** Innermost lane, pool or expanded sub-process around the element */
+    container?: string;
+}
+
+/** Routed flow */
+export interface BpmnFlowPath {
+    flow: IRBpmnFlow;
+    points: Position[];
+    /** Centre of the label */
+    labelPosition: Position;
+}
+
+/** Complete BPMN layout */
+export interface BpmnLayout {
+    width: number;
+    height: number;
+    title?: string;
+    pools: BpmnPoolBox[];
+    /** Outer lanes come before their nested lanes */
+    lanes: BpmnLaneBox[];
+    /** Sub-processes come before their contents, activities before their boundary events */
+    shapes: BpmnShapeBox[];
+    flows: BpmnFlowPath[];
+}
+
+const DEFAULT_OPTIONS: Required<BpmnLayoutOptions> = {
+    marginX: 20,
+    marginY: 20,
+    nodeSpacing: 40,
+    rankSpacing: 50,
+    padding: 30,
+    headerSize: 30,
+    fontSize: 12,
+    keepPartialBounds: true,
+};
+
+/** Smallest lane and pool heights */
+const MIN_LANE_HEIGHT = 120;
+const BLACK_BOX_HEIGHT = 60;
+
+/** Boundary events overlap the lower border of their activity by half */
+const BOUNDARY_SIZE = 36;
+
+/** Dagre placement of one scope (a pool or a sub-process), relative to its origin */
+interface ScopeLayout {
+    width: number;
+    height: number;
+    positions: Map<string, Position>;
+}
+
+/** Lay out a BPMN model */
+export function layoutBpmnDiagram(bpmn: IRBpmnDiagram, options: BpmnLayoutOptions = {}): BpmnLayout {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const byId = new Map(bpmn.elements.map(element => [element.id, element]));
+
+    // Contents of collapsed sub-processes are not drawn
+    const isHidden = (element: IRBpmnElement): boolean => {
+        const seen = new Set<string>();
+        for (let parent = element.parent ? byId.get(element.parent) : undefined; parent && !seen.has(parent.id); parent = parent.parent ? byId.get(parent.parent) : undefined) {
+            seen.add(parent.id);
+            if (parent.expanded === false) return true;
+        }
+        return false;
+    };
+    const visible = bpmn.elements.filter(element => !isHidden(element));
+
+    const allLanes: IRBpmnLane[] = [];
+    bpmn.pools.forEach(pool => walkLanes(pool.lanes, lane => allLanes.push(lane)));
+    const bounded = [...visible, ...bpmn.pools, ...allLanes].map(item => item.bounds !== undefined);
+
+    const layout = !bounded.includes(true) || visible.length + bpmn.pools.length === 0
+        ? autoLayout(bpmn, visible, opts)
+        : !bounded.includes(false)
+            ? preservedLayout(bpmn, visible, opts)
+            : opts.keepPartialBounds ? completedLayout(bpmn, visible, opts) : autoLayout(bpmn, visible, opts);
+
+    // Innermost container by geometry: expanded sub-process, lane, then pool
+    const contains = (box: BpmnBounds, p: Position) =>
+        p.x >= box.x && p.x <= box.x + box.width && p.y >= box.y && p.y <= box.y + box.height;
+    const lanesInnerFirst = [...layout.lanes].sort((a, b) => b.depth - a.depth);
+    for (const shape of layout.shapes) {
+        const center = { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 };
+        const parent = shape.element.parent && layout.shapes.some(s => s.element.id === shape.element.parent)
+            ? shape.element.parent
+            : undefined;
+        shape.container = parent
+            ?? lanesInnerFirst.find(lane => contains(lane, center))?.lane.id
+            ?? layout.pools.find(pool => contains(pool, center))?.pool.id;
+    }
+
+    return layout;
+}
+
+// =============================================================================
+// Preserved Layout
+// =============================================================================
+
+/** Layout from DI bounds and waypoints */
+function preservedLayout(bpmn: IRBpmnDiagram, visible: IRBpmnElement[], opts: Required<BpmnLayoutOptions>): BpmnLayout {
+    const pools: BpmnPoolBox[] = bpmn.pools.map(pool => ({ pool, ...pool.bounds! }));
+    const lanes: BpmnLaneBox[] = [];
+    for (const pool of bpmn.pools) {
+        collectLanes(pool.lanes, pool.id, undefined, 0, lanes, lane => lane.bounds!);
+    }
+
+    const shapes = orderShapes(visible).map(element => ({ element, ...element.bounds! }));
+    const flows = routeFlows(bpmn.flows, shapes, pools, () => true);
+    const extents = [...pools, ...lanes, ...shapes];
+
+    const maxX = Math.max(0, ...extents.map(b => b.x + b.width), ...flows.flatMap(f => f.points.map(p => p.x)));
+    const maxY = Math.max(0, ...extents.map(b => b.y + b.height), ...flows.flatMap(f => f.points.map(p => p.y)));
+
+    return {
+        width: Math.ceil(maxX + opts.marginX),
+        height: Math.ceil(maxY + opts.marginY),
+        pools,
+        lanes,
+        shapes,
+        flows,
+    };
+}
+
+// =============================================================================
+// Completed Layout
+// =============================================================================
+
+/**
+ * Layout that keeps the DI bounds present and places the rest
+ *
+ * Elements next to a placed flow neighbour go beside it. Everything else
+ * takes its automatic position, carried into the frame of its placed
+ * sub-process or pool; pools without bounds are stacked below the drawn ones.
+ */
+function completedLayout(bpmn: IRBpmnDiagram, visible: IRBpmnElement[], opts: Required<BpmnLayoutOptions>): BpmnLayout {
+    const auto = autoLayout(bpmn, visible, opts);
+    const autoPools = new Map(auto.pools.map(box => [box.pool.id, box]));
+    const autoShapes = new Map(auto.shapes.map(box => [box.element.id, box]));
+
+    const drawn: BpmnBounds[] = [];
+    bpmn.pools.forEach(pool => walkLanes(pool.lanes, lane => {
+        if (lane.bounds) drawn.push(lane.bounds);
+    }));
+    drawn.push(...[...bpmn.pools, ...visible].flatMap(item => (item.bounds ? [item.bounds] : [])));
+    const autoTop = Math.min(...auto.pools.map(box => box.y), ...auto.shapes.map(box => box.y));
+    const shift = Math.max(...drawn.map(box => box.y + box.height)) + opts.rankSpacing - autoTop;
+
+    const pools: BpmnPoolBox[] = auto.pools.map(box => ({ pool: box.pool, ...(box.pool.bounds ?? { ...box, y: box.y + shift }) }));
+    const poolById = new Map(pools.map(box => [box.pool.id, box]));
+
+    // Automatic positions inside a pool keep their offset from its left edge and their share of its height
+    const inPool = (poolId: string | undefined, p: Position): Position => {
+        const from = poolId ? autoPools.get(poolId) : undefined;
+        const to = poolId ? poolById.get(poolId) : undefined;
+        if (!from || !to || !from.pool.bounds) return { x: p.x, y: p.y + shift };
+        return { x: to.x + p.x - from.x, y: to.y + (p.y - from.y) * to.height / from.height };
+    };
+
+    const lanes: BpmnLaneBox[] = auto.lanes.map(box => {
+        if (box.lane.bounds) return { ...box, ...box.lane.bounds };
+        const pool = poolById.get(box.poolId)!;
+        const top = inPool(box.poolId, box);
+        const bottom = inPool(box.poolId, { x: box.x, y: box.y + box.height });
+        return { ...box, x: top.x, y: top.y, width: pool.x + pool.width - top.x, height: bottom.y - top.y };
+    });
+
+    const placed = new Map<string, BpmnShapeBox>();
+    for (const element of visible) {
+        if (element.bounds) placed.set(element.id, { element, ...element.bounds });
+    }
+    const poolOf = (element: IRBpmnElement) => bpmn.pools.find(pool => pool.processId === element.processId)?.id;
+    const size = (element: IRBpmnElement) => {
+        const box = autoShapes.get(element.id);
+        return box ? { width: box.width, height: box.height } : elementSize(element);
+    };
+
+    // Beside a placed flow neighbour, moved down past the shapes it would cover
+    const besideNeighbour = (element: IRBpmnElement): BpmnBounds | undefined => {
+        const { width, height } = size(element);
+        let box: BpmnBounds | undefined;
+        for (const flow of bpmn.flows) {
+            if (flow.type === 'messageFlow') continue;
+            const source = flow.target === element.id ? placed.get(flow.source) : undefined;
+            const target = flow.source === element.id ? placed.get(flow.target) : undefined;
+            const neighbour = source ?? target;
+            if (!neighbour || neighbour.element.parent !== element.parent) continue;
+            const x = source ? source.x + source.width + opts.rankSpacing : neighbour.x - opts.rankSpacing - width;
+            box = { x, y: neighbour.y + neighbour.height / 2 - height / 2, width, height };
+            if (source) break;
+        }
+        if (!box) return undefined;
+
+        const overlaps = (other: BpmnShapeBox) => other.element.id !== element.parent
+            && other.element.type !== 'boundaryEvent'
+            && box!.x < other.x + other.width && other.x < box!.x + box!.width
+            && box!.y < other.y + other.height && other.y < box!.y + box!.height;
+        for (let other = [...placed.values()].find(overlaps); other; other = [...placed.values()].find(overlaps)) {
+            box.y = other.y + other.height + opts.nodeSpacing;
+        }
+        return box;
+    };
+
+    // Automatic position carried into the placed sub-process or pool
+    const fromAutomatic = (element: IRBpmnElement): BpmnBounds => {
+        const box = autoShapes.get(element.id) ?? { x: 0, y: 0, ...size(element) };
+        const parent = element.parent ? placed.get(element.parent) : undefined;
+        const autoParent = element.parent ? autoShapes.get(element.parent) : undefined;
+        if (parent && autoParent) {
+            return { x: parent.x + box.x - autoParent.x, y: parent.y + box.y - autoParent.y, width: box.width, height: box.height };
+        }
+        return { ...inPool(poolOf(element), box), width: box.width, height: box.height };
+    };
+
+    const pending = orderShapes(visible).filter(element => !element.bounds && element.type !== 'boundaryEvent');
+    while (pending.length > 0) {
+        // Elements beside a placed neighbour go first, so chains grow out of the drawn part
+        const index = Math.max(0, pending.findIndex(element => besideNeighbour(element)));
+        const [element] = pending.splice(index, 1);
+        placed.set(element.id, { element, ...(besideNeighbour(element) ?? fromAutomatic(element)) });
+    }
+
+    // Boundary events without bounds spread along the lower border of their activity
+    const boundaryEvents = visible.filter(element => element.type === 'boundaryEvent' && !element.bounds);
+    for (const event of boundaryEvents) {
+        const activity = event.attachedTo ? placed.get(event.attachedTo) : undefined;
+        if (!activity) {
+            placed.set(event.id, { element: event, ...fromAutomatic(event) });
+            continue;
+        }
+        const siblings = boundaryEvents.filter(other => other.attachedTo === event.attachedTo);
+        placed.set(event.id, {
+            element: event,
+            x: activity.x + activity.width * (siblings.indexOf(event) + 1) / (siblings.length + 1) - BOUNDARY_SIZE / 2,
+            y: activity.y + activity.height - BOUNDARY_SIZE / 2,
+            width: BOUNDARY_SIZE,
+            height: BOUNDARY_SIZE,
+        });
+    }
+
+    const shapes = orderShapes(visible).map(element => placed.get(element.id)!);
+    const hasBounds = (id: string) => !!(byIdOf(visible, id)?.bounds ?? bpmn.pools.find(pool => pool.id === id)?.bounds);
+    const flows = routeFlows(bpmn.flows, shapes, pools, flow => hasBounds(flow.source) && hasBounds(flow.target));
+    const extents = [...pools, ...lanes, ...shapes];
+
+    const maxX = Math.max(0, ...extents.map(b => b.x + b.width), ...flows.flatMap(f => f.points.map(p => p.x)));
+    const maxY = Math.max(0, ...extents.map(b => b.y + b.height), ...flows.flatMap(f => f.points.map(p => p.y)));
+
+    return {
+        width: Math.ceil(maxX + opts.marginX),
+        height: Math.ceil(maxY + opts.marginY),
+        pools,
+        lanes,
+        shapes,
+        flows,
+    };
+}
+
+// =============================================================================
+// Automatic Layout
+// =============================================================================
+
+/** Layout computed from scratch */
+function autoLayout(bpmn: IRBpmnDiagram, visible: IRBpmnElement[], opts: Required<BpmnLayoutOptions>): BpmnLayout {
+    const lineHeight = opts.fontSize * 1.25;
+    const textWidth = (text: string) => Math.max(0, ...text.split('\n').map(line => line.length)) * opts.fontSize * 0.6;
+    const labelHeight = lineHeight + 8;
+
+    const visibleIds = new Set(visible.map(element => element.id));
+    const boundaryOf = new Map<string, IRBpmnElement[]>();
+    for (const element of visible) {
+        if (element.type === 'boundaryEvent' && element.attachedTo && visibleIds.has(element.attachedTo)) {
+            boundaryOf.set(element.attachedTo, [...(boundaryOf.get(element.attachedTo) ?? []), element]);
+        }
+    }
+    const isPlaced = (element: IRBpmnElement) =>
+        element.type !== 'boundaryEvent' || !element.attachedTo || !visibleIds.has(element.attachedTo);
+    const childrenOf = (parent: string | undefined) =>
+        visible.filter(element => element.parent === parent && isPlaced(element));
+
+    const sizes = new Map<string, Size>();
+    const scopes = new Map<string, ScopeLayout>();
+
+    // The member of a scope that stands for an element (itself, its activity or its sub-process)
+    const representative = (id: string, members: Set<string>): string | undefined => {
+        const seen = new Set<string>();
+        let current = byIdOf(visible, id);
+        while (current && !seen.has(current.id)) {
+            if (members.has(current.id)) return current.id;
+            seen.add(current.id);
+            const next = current.type === 'boundaryEvent' && current.attachedTo ? current.attachedTo : current.parent;
+            current = next ? byIdOf(visible, next) : undefined;
+        }
+        return undefined;
+    };
+
+    const layoutScope = (key: string, members: IRBpmnElement[], clusters?: Map<string, string>): ScopeLayout => {
+        for (const member of members) {
+            sizes.set(member.id, measure(member));
+        }
+        const layout: ScopeLayout = { width: 0, height: 0, positions: new Map() };
+        if (members.length === 0) {
+            scopes.set(key, layout);
+            return layout;
+        }
+
+        const g = new dagre.graphlib.Graph({ multigraph: true, compound: !!clusters });
+        g.setGraph({ rankdir: 'LR', nodesep: opts.nodeSpacing, ranksep: opts.rankSpacing, marginx: 0, marginy: 0 });
+        g.setDefaultEdgeLabel(() => ({}));
+        const dagreSize = (id: string) => {
+            const size = sizes.get(id)!;
+            return { width: size.width, height: size.height + (boundaryOf.has(id) ? BOUNDARY_SIZE / 2 : 0) };
+        };
+        for (const member of members) {
+            g.setNode(member.id, dagreSize(member.id));
+        }
+        if (clusters) {
+            for (const member of members) {
+                const cluster = clusters.get(member.id);
+                if (!cluster) continue;
+                if (!g.hasNode(`lane:${cluster}`)) g.setNode(`lane:${cluster}`, {});
+                g.setParent(member.id, `lane:${cluster}`);
+            }
+        }
+
+        const memberIds = new Set(members.map(member => member.id));
+        for (const flow of bpmn.flows) {
+            if (flow.type === 'messageFlow') continue;
+            const source = representative(flow.source, memberIds);
+            const target = representative(flow.target, memberIds);
+            if (source && target && source !== target) {
+                g.setEdge(source, target, {}, flow.id);
+            }
+        }
+
+        dagre.layout(g);
+        let minX = Infinity;
+        let minY = Infinity;
+        for (const member of members) {
+            const node = g.node(member.id);
+            const size = dagreSize(member.id);
+            const position = { x: node.x - size.width / 2, y: node.y - size.height / 2 };
+            layout.positions.set(member.id, position);
+            minX = Math.min(minX, position.x);
+            minY = Math.min(minY, position.y);
+        }
+        for (const [id, position] of layout.positions) {
+            const size = dagreSize(id);
+            position.x -= minX;
+            position.y -= minY;
+            layout.width = Math.max(layout.width, position.x + size.width);
+            layout.height = Math.max(layout.height, position.y + size.height);
+        }
+        scopes.set(key, layout);
+        return layout;
+    };
+
+    const measure = (element: IRBpmnElement): Size => {
+        const name = element.name ?? '';
+        const children = childrenOf(element.id);
+        if (isBpmnSubProcess(element.type) && children.length > 0) {
+            const inner = layoutScope(element.id, children);
+            return {
+                width: Math.max(inner.width + opts.padding * 2, textWidth(name) + 20, 120),
+                height: inner.height + opts.padding * 2 + labelHeight,
+            };
+        }
+        if (element.type === 'textAnnotation') {
+            return { width: Math.max(100, textWidth(name) + 12), height: Math.max(30, name.split('\n').length * lineHeight + 10) };
+        }
+        return elementSize(element);
+    };
+
+    // Regions: every pool, then processes drawn without a pool
+    const regions: { pool?: IRBpmnPool; processId?: string }[] = bpmn.pools.map(pool => ({ pool, processId: pool.processId }));
+    const pooled = new Set(bpmn.pools.map(pool => pool.processId));
+    for (const process of bpmn.processes) {
+        if (!pooled.has(process.id)) regions.push({ processId: process.id });
+    }
+    for (const processId of new Set(visible.map(element => element.processId))) {
+        if (!regions.some(region => region.processId === processId)) regions.push({ processId });
+    }
+
+    interface RegionLayout {
+        pool?: IRBpmnPool;
+        scope: ScopeLayout;
+        laneOf: Map<string, string>;
+        leaves: { lane: IRBpmnLane; depth: number }[];
+        levels: number;
+    }
+
+    const regionLayouts: RegionLayout[] = regions.map((region, index) => {
+        const members = region.processId !== undefined
+            ? childrenOf(undefined).filter(element => element.processId === region.processId)
+            : [];
+        const lanes = region.pool?.lanes ?? [];
+        const leaves: { lane: IRBpmnLane; depth: number }[] = [];
+        let levels = 0;
+        walkLanes(lanes, (lane, depth) => {
+            levels = Math.max(levels, depth + 1);
+            if (!lane.lanes || lane.lanes.length === 0) leaves.push({ lane, depth });
+        });
+
+        // Deepest lane listing an element; parent lanes hand it to their first leaf
+        const laneOf = new Map<string, string>();
+        walkLanes(lanes, lane => {
+            const leaf = firstLeaf(lane);
+            for (const id of lane.elements) laneOf.set(id, leaf.id);
+        });
+        for (const member of members) {
+            if (laneOf.has(member.id) || leaves.length === 0) continue;
+            const neighbour = bpmn.flows
+                .filter(flow => flow.source === member.id || flow.target === member.id)
+                .map(flow => laneOf.get(flow.source === member.id ? flow.target : flow.source))
+                .find(Boolean);
+            laneOf.set(member.id, neighbour ?? leaves[0].lane.id);
+        }
+
+        const scope = layoutScope(`region:${index}`, members, leaves.length > 0 ? laneOf : undefined);
+        return { pool: region.pool, scope, laneOf, leaves, levels };
+    });
+
+    // Pools share one width; their contents start after the name strips
+    const contentWidth = Math.max(0, ...regionLayouts.map(r => r.scope.width)) + opts.padding * 2;
+    const poolWidth = Math.max(...regionLayouts.map(r => opts.headerSize * (1 + r.levels) + contentWidth), 300);
+
+    const titleHeight = bpmn.title ? opts.fontSize * 3 : 0;
+    const pools: BpmnPoolBox[] = [];
+    const lanes: BpmnLaneBox[] = [];
+    const positions = new Map<string, Position>();
+    let top = opts.marginY + titleHeight;
+
+    for (const region of regionLayouts) {
+        const { pool, scope } = region;
+        const left = pool ? opts.marginX + opts.headerSize * (1 + region.levels) + opts.padding : opts.marginX;
+        const place = (id: string, dy: number) => {
+            const position = scope.positions.get(id)!;
+            positions.set(id, { x: left + position.x, y: position.y + dy });
+        };
+
+        if (!pool) {
+            scope.positions.forEach((_, id) => place(id, top));
+            top += scope.height + opts.rankSpacing;
+            continue;
+        }
+        if (!pool.processId) {
+            pools.push({ pool, x: opts.marginX, y: top, width: poolWidth, height: BLACK_BOX_HEIGHT });
+            top += BLACK_BOX_HEIGHT + opts.rankSpacing;
+            continue;
+        }
+
+        let height: number;
+        if (region.leaves.length > 0) {
+            // Each lane keeps the relative positions of its members
+            const laneHeights = new Map<string, { y: number; height: number }>();
+            let laneTop = top;
+            for (const { lane } of region.leaves) {
+                const members = [...scope.positions.keys()].filter(id => region.laneOf.get(id) === lane.id);
+                const tops = members.map(id => scope.positions.get(id)!.y);
+                const bottoms = members.map(id => scope.positions.get(id)!.y + sizes.get(id)!.height + (boundaryOf.has(id) ? BOUNDARY_SIZE / 2 : 0));
+                const range = members.length > 0 ? Math.max(...bottoms) - Math.min(...tops) : 0;
+                const laneHeight = Math.max(MIN_LANE_HEIGHT, range + opts.padding * 2);
+                const dy = laneTop + (laneHeight - range) / 2 - (members.length > 0 ? Math.min(...tops) : 0);
+                members.forEach(id => place(id, dy));
+                laneHeights.set(lane.id, { y: laneTop, height: laneHeight });
+                laneTop += laneHeight;
+            }
+            collectLanes(pool.lanes, pool.id, undefined, 0, lanes, (lane, depth) => {
+                const leafBoxes = leavesOf(lane).map(leaf => laneHeights.get(leaf.id)!);
+                const y = leafBoxes[0].y;
+                const last = leafBoxes[leafBoxes.length - 1];
+                const x = opts.marginX + opts.headerSize * (1 + depth);
+                return { x, y, width: opts.marginX + poolWidth - x, height: last.y + last.height - y };
+            });
+            height = laneTop - top;
+        } else {
+            height = Math.max(MIN_LANE_HEIGHT, scope.height + opts.padding * 2);
+            const dy = top + (height - scope.height) / 2;
+            scope.positions.forEach((_, id) => place(id, dy));
+        }
+        pools.push({ pool, x: opts.marginX, y: top, width: poolWidth, height });
+        top += height + opts.rankSpacing;
+    }
+
+    // Sub-process contents sit below the sub-process name
+    const placeChildren = (parent: IRBpmnElement, origin: Position) => {
+        const scope = scopes.get(parent.id);
+        if (!scope) return;
+        const size = sizes.get(parent.id)!;
+        const x = origin.x + (size.width - scope.width) / 2;
+        const y = origin.y + labelHeight + opts.padding;
+        for (const [id, position] of scope.positions) {
+            const absolute = { x: x + position.x, y: y + position.y };
+            positions.set(id, absolute);
+            placeChildren(byIdOf(visible, id)!, absolute);
+        }
+    };
+    for (const [id, position] of [...positions]) {
+        placeChildren(byIdOf(visible, id)!, position);
+    }
+
+    const shapes: BpmnShapeBox[] = [];
+    for (const element of orderShapes(visible)) {
+        const position = positions.get(element.id);
+        const size = sizes.get(element.id);
+        if (position && size) {
+            shapes.push({ element, ...position, ...size });
+        }
+    }
+
+    // Boundary events spread along the lower border of their activity
+    for (const [activityId, events] of boundaryOf) {
+        const activity = shapes.find(shape => shape.element.id === activityId);
+        if (!activity) continue;
+        events.forEach((event, i) => {
+            const index = shapes.findIndex(shape => shape.element.id === activityId);
+            shapes.splice(index + 1 + i, 0, {
+                element: event,
+                x: activity.x + activity.width * (i + 1) / (events.length + 1) - BOUNDARY_SIZE / 2,
+                y: activity.y + activity.height - BOUNDARY_SIZE / 2,
+                width: BOUNDARY_SIZE,
+                height: BOUNDARY_SIZE,
+            });
+        });
+    }
+
+    const flows = routeFlows(bpmn.flows, shapes, pools, () => false);
+    const extents = [...pools, ...shapes];
+    const maxX = Math.max(opts.marginX, ...extents.map(b => b.x + b.width), ...flows.flatMap(f => f.points.map(p => p.x)));
+    const maxY = Math.max(opts.marginY + titleHeight, ...extents.map(b => b.y + b.height), ...flows.flatMap(f => f.points.map(p => p.y)));
+
+    return {
+        width: Math.ceil(maxX + opts.marginX),
+        height: Math.ceil(maxY + opts.marginY),
+        title: bpmn.title,
+        pools,
+        lanes,
+        shapes,
+        flows,
+    };
+}
+
+/** Default size of an element */
+function elementSize(element: IRBpmnElement): Size {
+    if (isBpmnEvent(element.type)) return { width: 36, height: 36 };
+    if (isBpmnGateway(element.type)) return { width: 50, height: 50 };
+    switch (element.type) {
+        case 'dataObjectReference': return { width: 36, height: 50 };
+        case 'dataStoreReference': return { width: 50, height: 50 };
+        default: return { width: 100, height: 80 };
+    }
+}
+
+// =============================================================================
+// Flow Routing
+// =============================================================================
+
+/** Route every flow whose ends are drawn, keeping the DI waypoints of the flows selected */
+function routeFlows(
+    flows: IRBpmnFlow[],
+    shapes: BpmnShapeBox[],
+    pools: BpmnPoolBox[],
+    keepWaypoints: (flow: IRBpmnFlow) => boolean
+): BpmnFlowPath[] {
+    const shapeById = new Map(shapes.map(shape => [shape.element.id, shape]));
+    const poolById = new Map(pools.map(pool => [pool.pool.id, pool]));
+    const paths: BpmnFlowPath[] = [];
+
+    for (const flow of flows) {
+        const source = shapeById.get(flow.source) ?? poolById.get(flow.source);
+        const target = shapeById.get(flow.target) ?? poolById.get(flow.target);
+        if (!source || !target) continue;
+
+        let points: Position[];
+        if (flow.waypoints && flow.waypoints.length >= 2 && keepWaypoints(flow)) {
+            points = flow.waypoints.map(p => ({ x: p.x, y: p.y }));
+        } else if (flow.type === 'messageFlow') {
+            points = routeMessageFlow(source, target, 'pool' in source, 'pool' in target);
+        } else if (flow.type === 'sequenceFlow' && 'element' in source && 'element' in target) {
+            points = routeSequenceFlow(source, target);
+        } else {
+            points = [clipToBox(source, centerOf(target)), clipToBox(target, centerOf(source))];
+        }
+        paths.push({ flow, points, labelPosition: pathMidpoint(points) });
+    }
+    return paths;
+}
+
+/** Orthogonal sequence flow: out of the right side, or the top or bottom of gateways and boundary events */
+function routeSequenceFlow(source: BpmnShapeBox, target: BpmnShapeBox): Position[] {
+    const sc = centerOf(source);
+    const tc = centerOf(target);
+    const sourceRight = source.x + source.width;
+    const sourceBottom = source.y + source.height;
+    const targetBottom = target.y + target.height;
+
+    if (source.element.type === 'boundaryEvent') {
+        const down = tc.y >= sc.y;
+        const start = { x: sc.x, y: down ? sourceBottom : source.y };
+        if (Math.abs(tc.x - sc.x) < 1) {
+            return [start, { x: tc.x, y: down ? target.y : targetBottom }];
+        }
+        return simplify([start, { x: sc.x, y: tc.y }, { x: tc.x > sc.x ? target.x : target.x + target.width, y: tc.y }]);
+    }
+
+    if (target.x >= sourceRight) {
+        if (Math.abs(sc.y - tc.y) < 1) {
+            return [{ x: sourceRight, y: sc.y }, { x: target.x, y: sc.y }];
+        }
+        if (isBpmnGateway(source.element.type)) {
+            return [{ x: sc.x, y: tc.y < sc.y ? source.y : sourceBottom }, { x: sc.x, y: tc.y }, { x: target.x, y: tc.y }];
+        }
+        if (isBpmnGateway(target.element.type)) {
+            return [{ x: sourceRight, y: sc.y }, { x: tc.x, y: sc.y }, { x: tc.x, y: sc.y < tc.y ? target.y : targetBottom }];
+        }
+        const midX = (sourceRight + target.x) / 2;
+        return [{ x: sourceRight, y: sc.y }, { x: midX, y: sc.y }, { x: midX, y: tc.y }, { x: target.x, y: tc.y }];
+    }
+
+    // Backwards: straight down or up when clear, otherwise loop below both
+    if (target.y >= sourceBottom || targetBottom <= source.y) {
+        const down = target.y >= sourceBottom;
+        const start = { x: sc.x, y: down ? sourceBottom : source.y };
+        const end = { x: tc.x, y: down ? target.y : targetBottom };
+        const midY = (start.y + end.y) / 2;
+        return simplify([start, { x: sc.x, y: midY }, { x: tc.x, y: midY }, end]);
+    }
+    const below = Math.max(sourceBottom, targetBottom) + 20;
+    return simplify([{ x: sc.x, y: sourceBottom }, { x: sc.x, y: below }, { x: tc.x, y: below }, { x: tc.x, y: targetBottom }]);
+}
+
+/** Vertical message flow between pools or their elements */
+function routeMessageFlow(source: BpmnBounds, target: BpmnBounds, sourceIsPool: boolean, targetIsPool: boolean): Position[] {
+    const down = source.y + source.height <= target.y;
+    const up = target.y + target.height <= source.y;
+    if (!down && !up) {
+        return [clipToBox(source, centerOf(target)), clipToBox(target, centerOf(source))];
+    }
+
+    // Pools are entered where the other end lines up with them
+    const clamp = (value: number, box: BpmnBounds) => Math.min(Math.max(value, box.x + 10), box.x + box.width - 10);
+    let sx = centerOf(source).x;
+    let tx = centerOf(target).x;
+    if (sourceIsPool && targetIsPool) {
+        sx = tx = (Math.max(source.x, target.x) + Math.min(source.x + source.width, target.x + target.width)) / 2;
+    } else if (sourceIsPool) {
+        sx = clamp(tx, source);
+    } else if (targetIsPool) {
+        tx = clamp(sx, target);
+    }
+
+    const sy = down ? source.y + source.height : source.y;
+    const ty = down ? target.y : target.y + target.height;
+    if (Math.abs(sx - tx) < 1) {
+        return [{ x: sx, y: sy }, { x: sx, y: ty }];
+    }
+    const midY = (sy + ty) / 2;
+    return [{ x: sx, y: sy }, { x: sx, y: midY }, { x: tx, y: midY }, { x: tx, y: ty }];
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+/** Add lane boxes depth-first */
+function collectLanes(
+    lanes: IRBpmnLane[],
+    poolId: string,
+    parent: string | undefined,
+    depth: number,
+    boxes: BpmnLaneBox[],
+    boundsOf: (lane: IRBpmnLane, depth: number) => BpmnBounds
+): void {
+    for (const lane of lanes) {
+        boxes.push({ lane, poolId, parent, depth, ...boundsOf(lane, depth) });
+        if (lane.lanes) {
+            collectLanes(lane.lanes, poolId, lane.id, depth + 1, boxes, boundsOf);
+        }
+    }
+}
+
+/** Leaf lanes below a lane (the lane itself when it has none) */
+function leavesOf(lane: IRBpmnLane): IRBpmnLane[] {
+    return lane.lanes && lane.lanes.length > 0 ? lane.lanes.flatMap(leavesOf) : [lane];
+}
+
+/** First leaf lane below a lane */
+function firstLeaf(lane: IRBpmnLane): IRBpmnLane {
+    return leavesOf(lane)[0];
+}
+
+/** Sub-processes before their contents and boundary events last, model order otherwise */
+function orderShapes(elements: IRBpmnElement[]): IRBpmnElement[] {
+    const ids = new Set(elements.map(element => element.id));
+    const ordered: IRBpmnElement[] = [];
+    const visit = (parent: string | undefined) => {
+        for (const element of elements) {
+            const elementParent = element.parent && ids.has(element.parent) ? element.parent : undefined;
+            if (elementParent !== parent || element.type === 'boundaryEvent' || ordered.includes(element)) continue;
+            ordered.push(element);
+            visit(element.id);
+        }
+    };
+    visit(undefined);
+    return [...ordered, ...elements.filter(element => element.type === 'boundaryEvent')];
+}
+
+/** Element by ID */
+function byIdOf(elements: IRBpmnElement[], id: string): IRBpmnElement | undefined {
+    return elements.find(element => element.id === id);
+}
+
+/** Centre of a box */
+function centerOf(box: BpmnBounds): Position {
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/** Point where the ray from the box centre towards `toward` leaves the box */
+function clipToBox(box: BpmnBounds, toward: Position): Position {
+    const center = centerOf(box);
+    const dx = toward.x - center.x;
+    const dy = toward.y - center.y;
+    if (dx === 0 && dy === 0) {
+        return center;
+    }
+    const scale = Math.min(
+        dx !== 0 ? box.width / 2 / Math.abs(dx) : Infinity,
+        dy !== 0 ? box.height / 2 / Math.abs(dy) : Infinity
+    );
+    if (scale >= 1) {
+        return center;
+    }
+    return { x: center.x + dx * scale, y: center.y + dy * scale };
+}
+
+/** Point halfway along a path */
+function pathMidpoint(points: Position[]): Position {
+    const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+    let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+    for (let i = 0; i < lengths.length; i++) {
+        if (remaining <= lengths[i] && lengths[i] > 0) {
+            const t = remaining / lengths[i];
+            return { x: points[i].x + (points[i + 1].x - points[i].x) * t, y: points[i].y + (points[i + 1].y - points[i].y) * t };
+        }
+        remaining -= lengths[i];
+    }
+    return points[0];
+}
+
+/** Drop repeated points and points in the middle of straight runs */
+function simplify(points: Position[]): Position[] {
+    const result: Position[] = [];
+    for (const point of points) {
+        const last = result[result.length - 1];
+        if (last && Math.abs(last.x - point.x) < 0.01 && Math.abs(last.y - point.y) < 0.01) continue;
+        const before = result[result.length - 2];
+        if (before && last && ((before.x === last.x && last.x === point.x) || (before.y === last.y && last.y === point.y))) {
+            result[result.length - 1] = point;
+            continue;
+        }
+        result.push(point);
+    }
+    return result;
+}
@@ -0,0 +1,363 @@
+/**
+ * ELK layered layout
+ *
+ * Runs the Eclipse Layout Kernel (elkjs) synchronously in-process.
+ * Groups become compound nodes, node ports become fixed ELK ports,
+ * and routed bend points are written back as edge waypoints.
+ *
+ * The 1.6 MB engine is only loaded once ELK layout is requested:
+ * synchronously where a CommonJS `require` can be obtained (Node),
+ * or ahead of time through `loadElkLayout()` (bundled browser builds).
+ */
+
+import type * as ElkWorkerModule from 'elkjs/lib/elk-worker.min.js';
+import type { ElkExtendedEdge, ElkNode, ElkPoint, ElkPort } from 'elkjs/lib/elk-api';
+import type { Diagram, DiagramEdge, DiagramGroup, DiagramNode, LayoutDirection, Port, Position } from '../types';
+import { LayoutError } from '../errors';
+import { buildParentMap } from '../utils/group-hierarchy';
+import { EMPTY_GROUP_SIZE, calculateViewport, getDefaultNodeSize, getGroupPadding } from './layout-utils';
+
+/** Options consumed by the ELK engine */
+export interface ElkLayoutOptions {
+    direction: LayoutDirection;
+    nodeSpacing: number;
+    rankSpacing: number;
+    marginX: number;
+    marginY: number;
+}
+
+const DIRECTION_MAP: Record<LayoutDirection, string> = {
+    TB: 'DOWN',
+    BT: 'UP',
+    LR: 'RIGHT',
+    RL: 'LEFT',
+};
+
+const PORT_SIDE_MAP: Record<Exclude<Port['position'], 'center'>, string> = {
+    top: 'NORTH',
+    right: 'EAST',
+    bottom: 'SOUTH',
+    left: 'WEST',
+};
+
+type ElkWorkerExports = typeof ElkWorkerModule.default;
+type ElkWorkerInstance = InstanceType<NonNullable<ElkWorkerExports['Worker']>>;
+
+const ELK_WORKER_MODULE = 'elkjs/lib/elk-worker.min.js';
+
+let workerExports: ElkWorkerExports | null = null;
+let engine: ElkWorkerInstance | null = null;
+
+/**
+ * Whether this code runs inside a Web Worker
+ *
+ * elkjs treats such a scope as its own worker: evaluating the module
+ * replaces `self.onmessage` and exports nothing, so it must not be loaded there.
+ */
+function isWorkerScope(): boolean {
+    return typeof document === 'undefined' && typeof self !== 'undefined';
+}
+
+/** Obtain a synchronous CommonJS `require`, if the runtime has one */
+function getRequire(): ((id: string) => unknown) | undefined {
+    if (typeof require === 'function') return require;
+    const nodeModule = globalThis.process?.getBuiltinModule?.('module') as
+        | typeof import('node:module')
+        | undefined;
+    return nodeModule?.createRequire(import.meta.url);
+}
+
+/**
+ * Load the ELK engine ahead of layout
+ *
+ * Needed where modules can only be loaded asynchronously (bundled browser
+ * builds); in Node the engine is loaded on first use. Resolves to false
+ * where ELK cannot run, such as inside a Web Worker.
+ */
+export async function loadElkLayout(): Promise<boolean> {
+    if (workerExports) return true;
+    if (isWorkerScope()) return false;
+
+    // Bundlers expose the CommonJS exports either directly or as `default`
+    const loaded = (await import('elkjs/lib/elk-worker.min.js')) as unknown as ElkWorkerExports;
+    workerExports = loaded.Worker ? loaded : (loaded.default as unknown as ElkWorkerExports);
+    return true;
+}
+
+/** Resolve the elkjs worker exports, loading them synchronously if possible */
+function getWorkerExports(): ElkWorkerExports {
+    if (workerExports) return workerExports;
+    if (isWorkerScope()) {
+        throw new LayoutError('ELK engine is not available in a Web Worker', 'elk');
+    }
+
+    const load = getRequire();
+    if (!load) {
+        throw new LayoutError('ELK engine is not loaded; call loadElkLayout() before layout', 'elk');
+    }
+    workerExports = load(ELK_WORKER_MODULE) as ElkWorkerExports;
+    return workerExports;
+}
+
+/** Lazily create the in-process ELK worker */
+function getEngine(): ElkWorkerInstance {
+    if (engine) return engine;
+
+    const elkWorker = getWorkerExports();
+    const WorkerCtor = elkWorker.Worker ?? elkWorker.default;
+    if (!WorkerCtor) {
+        throw new LayoutError('ELK engine is not available in this environment', 'elk');
+    }
+
+    const instance = new WorkerCtor();
+    instance.onmessage = () => undefined;
+    instance.dispatcher.saveDispatch({ data: { id: 0, cmd: 'register', algorithms: ['layered'] } });
+    engine = instance;
+    return instance;
+}
+
+/**
+ * Run ELK on a graph synchronously
+ *
+ * The elkjs FakeWorker dispatcher executes layout in the calling thread,
+ * so bypassing its setTimeout-based postMessage gives a blocking call.
+ */
+function runElk(graph: ElkNode): ElkNode {
+    const instance = getEngine();
+    let response: { data?: ElkNode; error?: unknown } | undefined;
+
+    instance.onmessage = (message) => {
+        response = message.data as typeof response;
+    };
+    instance.dispatcher.saveDispatch({ data: { id: 1, cmd: 'layout', graph, layoutOptions: {}, options: {} } });
+    instance.onmessage = () => undefined;
+
+    if (!response) {
+        throw new LayoutError('ELK returned no result', 'elk');
+    }
+    if (response.error) {
+        const error = response.error as { message?: string; toString(): string };
+        throw new LayoutError(`ELK layout failed: ${error.message ?? String(error)}`, 'elk');
+    }
+    return response.data as ElkNode;
+}
+
+/** Unique ELK id for a node port */
+function portKey(nodeId: string, portId: string): string {
+    return `${nodeId}::${portId}`;
+}
+
+/** Estimate rendered label size for ELK label placement */
+function estimateLabelSize(text: string): { width: number; height: number } {
+    const lines = text.split('\n');
+    const longest = Math.max(...lines.map(l => l.length));
+    return { width: longest * 7 + 10, height: lines.length * 18 };
+}
+
+/** Convert IR ports to fixed-position ELK ports */
+function toElkPorts(node: DiagramNode, width: number, height: number): ElkPort[] {
+    const ports: ElkPort[] = [];
+
+    for (const port of node.ports ?? []) {
+        if (port.position === 'center') continue;
+
+        const offset = port.offset ?? 0.5;
+        let x = 0, y = 0;
+        switch (port.position) {
+            case 'top':
+                x = width * offset;
+                break;
+            case 'bottom':
+                x = width * offset;
+                y = height;
+                break;
+            case 'left':
+                y = height * offset;
+                break;
+            case 'right':
+                x = width;
+                y = height * offset;
+                break;
+        }
+
+        ports.push({
+            id: portKey(node.id, port.id),
+            x,
+            y,
+            width: 0,
+            height: 0,
+            layoutOptions: { 'elk.port.side': PORT_SIDE_MAP[port.position] },
+        });
+    }
+
+    return ports;
+}
+
+/** Build ELK graph with groups as compound nodes */
+function buildElkGraph(diagram: Diagram, options: ElkLayoutOptions): ElkNode {
+    const parents = buildParentMap(diagram.groups);
+    const elkNodes = new Map<string, ElkNode>();
+    const nodePorts = new Map<string, Set<string>>();
+
+    const root: ElkNode = {
+        id: '__root__',
+        layoutOptions: {
+            'elk.algorithm': 'layered',
+            'elk.direction': DIRECTION_MAP[options.direction],
+            'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+            'elk.edgeRouting': 'ORTHOGONAL',
+            'elk.spacing.nodeNode': String(options.nodeSpacing),
+            'elk.layered.spacing.nodeNodeBetweenLayers': String(options.rankSpacing),
+            'elk.spacing.edgeNode': String(Math.round(options.nodeSpacing / 2)),
+            'elk.spacing.edgeEdge': '10',
+            'elk.edgeLabels.placement': 'CENTER',
+            'elk.padding': '[top=0,left=0,bottom=0,right=0]',
+        },
+        children: [],
+        edges: [],
+    };
+
+    for (const group of diagram.groups) {
+        const padding = getGroupPadding(group);
+        elkNodes.set(group.id, {
+            id: group.id,
+            children: [],
+            layoutOptions: {
+                'elk.padding': `[top=${padding.top},left=${padding.left},bottom=${padding.bottom},right=${padding.right}]`,
+            },
+        });
+    }
+
+    for (const node of diagram.nodes) {
+        const size = node.size || getDefaultNodeSize(node.shape);
+        const ports = toElkPorts(node, size.width, size.height);
+        nodePorts.set(node.id, new Set(ports.map(p => p.id)));
+
+        const elkNode: ElkNode = {
+            id: node.id,
+            width: size.width,
+            height: size.height,
+        };
+        if (ports.length > 0) {
+            elkNode.ports = ports;
+            elkNode.layoutOptions = { 'elk.portConstraints': 'FIXED_POS' };
+        }
+        elkNodes.set(node.id, elkNode);
+    }
+
+    // Attach every element to its parent compound node (or the root)
+    for (const [id, elkNode] of elkNodes) {
+        const parentId = parents.get(id);
+        const parent = parentId ? elkNodes.get(parentId) : undefined;
+        (parent ?? root).children!.push(elkNode);
+    }
+
+    // Empty groups are laid out as plain boxes so they keep a visible size
+    for (const group of diagram.groups) {
+        const elkGroup = elkNodes.get(group.id)!;
+        if (elkGroup.children!.length === 0) {
+            const size = group.size || EMPTY_GROUP_SIZE;
+            elkGroup.width = size.width;
+            elkGroup.height = size.height;
+        }
+    }
+
+    const resolveEnd = (nodeId: string, portId: string | undefined): string => {
+        const key = portId ? portKey(nodeId, portId) : undefined;
+        return key && nodePorts.get(nodeId)?.has(key) ? key : nodeId;
+    };
+
+    for (const edge of diagram.edges) {
+        if (!elkNodes.has(edge.source) || !elkNodes.has(edge.target)) continue;
+
+        const elkEdge: ElkExtendedEdge = {
+            id: edge.id,
+            sources: [resolveEnd(edge.source, edge.sourcePort)],
+            targets: [resolveEnd(edge.target, edge.targetPort)],
+        };
+        if (edge.label) {
+            elkEdge.labels = [{ text: edge.label, ...estimateLabelSize(edge.label) }];
+        }
+        root.edges!.push(elkEdge);
+    }
+
+    return root;
+}
+
+/** Collect absolute positions of all ELK nodes */
+function collectAbsolutePositions(
+    elkNode: ElkNode,
+    offset: Position,
+    out: Map<string, { position: Position; width: number; height: number }>
+): void {
+    for (const child of elkNode.children ?? []) {
+        const position = {
+            x: offset.x + (child.x ?? 0),
+            y: offset.y + (child.y ?? 0),
+        };
+        out.set(child.id, { position, width: child.width ?? 0, height: child.height ?? 0 });
+        collectAbsolutePositions(child, position, out);
+    }
+}
+
+/** Apply ELK layered layout to diagram */
+export function applyElkLayout(diagram: Diagram, options: ElkLayoutOptions): Diagram {
+    const graph = buildElkGraph(diagram, options);
+    const result = runElk(graph);
+
+    const origin = { x: options.marginX, y: options.marginY };
+    const boxes = new Map<string, { position: Position; width: number; height: number }>();
+    boxes.set(result.id, { position: origin, width: result.width ?? 0, height: result.height ?? 0 });
+    collectAbsolutePositions(result, origin, boxes);
+
+    const layoutedNodes: DiagramNode[] = diagram.nodes.map(node => {
+        const box = boxes.get(node.id);
+        if (!box) return node;
+        return {
+            ...node,
+            position: { x: Math.round(box.position.x), y: Math.round(box.position.y) },
+            size: node.size || { width: box.width, height: box.height },
+        };
+    });
+
+    const layoutedGroups: DiagramGroup[] = diagram.groups.map(group => {
+        const box = boxes.get(group.id);
+        if (!box) return group;
+        return {
+            ...group,
+            position: { x: Math.round(box.position.x), y: Math.round(box.position.y) },
+            size: { width: Math.round(box.width), height: Math.round(box.height) },
+        };
+    });
+
+    const routed = new Map<string, ElkExtendedEdge & { container?: string }>();
+    for (const edge of result.edges ?? []) {
+        routed.set(edge.id, edge);
+    }
+
+    const layoutedEdges: DiagramEdge[] = diagram.edges.map(edge => {
+        const elkEdge = routed.get(edge.id);
+        if (!elkEdge?.sections?.length) return edge;
+
+        // Section coordinates are relative to the edge's container
+        const container = boxes.get(elkEdge.container ?? result.id)?.position ?? origin;
+        const waypoints = elkEdge.sections.flatMap(section => section.bendPoints ?? [])
+            .map((p: ElkPoint) => ({
+                x: Math.round(container.x + p.x),
+                y: Math.round(container.y + p.y),
+            }));
+
+        return {
+            ...edge,
+            waypoints: waypoints.length > 0 ? waypoints : undefined,
+        };
+    });
+
+    return {
+        ...diagram,
+        nodes: layoutedNodes,
+        edges: layoutedEdges,
+        groups: layoutedGroups,
+        viewport: calculateViewport(layoutedNodes, layoutedGroups, options.marginX, options.marginY),
+    };
+}
@@ -0,0 +1,25 @@
+/**
+ * Type declarations for the bundled ELK engine
+ *
+ * The worker module ships without usable typings; only the parts
+ * used by the synchronous layout bridge are declared here.
+ */
+
+declare module 'elkjs/lib/elk-worker.min.js' {
+    interface ElkDispatchMessage {
+        data: Record<string, unknown>;
+    }
+
+    /** In-process worker emulation exported by elkjs for non-browser use */
+    export class Worker {
+        constructor(url?: string);
+        onmessage: (message: ElkDispatchMessage) => void;
+        postMessage(message: Record<string, unknown>): void;
+        dispatcher: {
+            saveDispatch(message: ElkDispatchMessage): void;
+        };
+    }
+
+    const elkWorker: { Worker?: typeof Worker; default?: typeof Worker };
+    export default elkWorker;
+}
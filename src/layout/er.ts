@@ -0,0 +1,196 @@
+/**
+ * ER diagram layout
+ *
+ * Sizes every entity as a table (a name header above one row per
+ * attribute), places the tables with Dagre and routes relationships along
+ * Dagre's edge paths. The result is a renderer-neutral geometry model
+ * shared by the SVG and Draw.io ER generators.
+ */
+
+import dagre from 'dagre';
+import type { LayoutDirection, Position } from '../types';
+import type { IRAttribute, IREntity, IRERDiagram, IRRelationship } from '../types/er';
+
+/** Options consumed by the ER layout */
+export interface ERLayoutOptions {
+    marginX?: number;
+    marginY?: number;
+    nodeSpacing?: number;
+    rankSpacing?: number;
+    fontSize?: number;
+    direction?: LayoutDirection;
+}
+
+/** Attribute row of a table */
+export interface ERRow {
+    attribute: IRAttribute;
+    /** PK, FK or UK */
+    key: string;
+    y: number;
+}
+
+/** Placed entity table */
+export interface ERTableBox {
+    entity: IREntity;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    headerHeight: number;
+    rowHeight: number;
+    /** Width of the key column; zero when no attribute is a key */
+    keyWidth: number;
+    /** Width of the name column */
+    nameWidth: number;
+    rows: ERRow[];
+}
+
+/** Routed relationship; the first point touches the source table */
+export interface ERRelationshipPath {
+    relationship: IRRelationship;
+    points: Position[];
+    /** Centre of the label */
+    labelPosition: Position;
+}
+
+/** Complete ER layout */
+export interface ERLayout {
+    width: number;
+    height: number;
+    title?: string;
+    tables: ERTableBox[];
+    relationships: ERRelationshipPath[];
+}
+
+const DEFAULT_OPTIONS: Required<ERLayoutOptions> = {
+    marginX: 20,
+    marginY: 20,
+    nodeSpacing: 50,
+    rankSpacing: 90,
+    fontSize: 13,
+    direction: 'LR',
+};
+
+/** Lay out an ER diagram */
+export function layoutERDiagram(erDiagram: IRERDiagram, options: ERLayoutOptions = {}): ERLayout {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const charWidth = opts.fontSize * 0.6;
+    const rowHeight = Math.round(opts.fontSize * 1.8);
+    const headerHeight = Math.round(opts.fontSize * 2.2);
+    const textWidth = (text: string) => text.length * charWidth;
+
+    const tables = new Map<string, ERTableBox>();
+    for (const entity of erDiagram.entities) {
+        const hasKeys = entity.attributes.some(attr => attr.keyType);
+        const keyWidth = hasKeys ? textWidth('PK') + 16 : 0;
+        const nameWidth = Math.max(0, ...entity.attributes.map(attr => textWidth(attr.name))) + 16;
+        const typeWidth = Math.max(0, ...entity.attributes.map(attr => textWidth(attr.type))) + 16;
+        tables.set(entity.id, {
+            entity,
+            x: 0,
+            y: 0,
+            width: Math.max(120, textWidth(entity.name) + 24, keyWidth + nameWidth + typeWidth),
+            height: headerHeight + entity.attributes.length * rowHeight,
+            headerHeight,
+            rowHeight,
+            keyWidth,
+            nameWidth,
+            rows: entity.attributes.map((attribute, i) => ({
+                attribute,
+                key: attribute.keyType?.toUpperCase() ?? '',
+                y: headerHeight + i * rowHeight,
+            })),
+        });
+    }
+
+    const g = new dagre.graphlib.Graph({ multigraph: true });
+    g.setGraph({ rankdir: opts.direction, nodesep: opts.nodeSpacing, ranksep: opts.rankSpacing, marginx: 0, marginy: 0 });
+    g.setDefaultEdgeLabel(() => ({}));
+    for (const table of tables.values()) {
+        g.setNode(table.entity.id, { width: table.width, height: table.height });
+    }
+    for (const rel of erDiagram.relationships) {
+        if (rel.source === rel.target || !tables.has(rel.source) || !tables.has(rel.target)) continue;
+        g.setEdge(rel.source, rel.target, rel.label
+            ? { width: textWidth(rel.label) + 8, height: opts.fontSize * 1.4, labelpos: 'c' }
+            : {}, rel.id);
+    }
+    dagre.layout(g);
+
+    const titleHeight = erDiagram.title ? opts.fontSize * 2.5 : 0;
+    const offsetX = opts.marginX;
+    const offsetY = opts.marginY + titleHeight;
+    for (const table of tables.values()) {
+        const node = g.node(table.entity.id);
+        table.x = offsetX + node.x - table.width / 2;
+        table.y = offsetY + node.y - table.height / 2;
+    }
+
+    const relationships: ERRelationshipPath[] = [];
+    for (const rel of erDiagram.relationships) {
+        const source = tables.get(rel.source);
+        const target = tables.get(rel.target);
+        if (!source || !target) continue;
+
+        if (source === target) {
+            // Self-relationship loops over the top right corner
+            const right = source.x + source.width;
+            const top = source.y;
+            relationships.push({
+                relationship: rel,
+                points: [
+                    { x: right - 30, y: top },
+                    { x: right - 30, y: top - 30 },
+                    { x: right + 30, y: top - 30 },
+                    { x: right + 30, y: top + 30 },
+                    { x: right, y: top + 30 },
+                ],
+                labelPosition: { x: right + 30 + textWidth(rel.label ?? '') / 2 + 6, y: top - 30 },
+            });
+            continue;
+        }
+
+        const route = g.edge({ v: rel.source, w: rel.target, name: rel.id });
+        const points: Position[] = (route?.points ?? []).map((p: Position) => ({ x: offsetX + p.x, y: offsetY + p.y }));
+        const middle = points[Math.floor(points.length / 2)] ?? { x: 0, y: 0 };
+        relationships.push({
+            relationship: rel,
+            points,
+            labelPosition: route?.x !== undefined ? { x: offsetX + route.x, y: offsetY + route.y } : middle,
+        });
+    }
+
+    // Self-relationships may reach above the first rank
+    const minY = Math.min(offsetY, ...relationships.flatMap(r => r.points.map(p => p.y - 10)));
+    const shift = offsetY - minY;
+    if (shift > 0) {
+        for (const table of tables.values()) {
+            table.y += shift;
+        }
+        for (const path of relationships) {
+            path.points = path.points.map(p => ({ x: p.x, y: p.y + shift }));
+            path.labelPosition = { x: path.labelPosition.x, y: path.labelPosition.y + shift };
+        }
+    }
+
+    const boxes = [...tables.values()];
+    const maxX = Math.max(
+        opts.marginX,
+        ...boxes.map(b => b.x + b.width),
+        ...relationships.flatMap(r => r.points.map(p => p.x)),
+        ...relationships.map(r => r.labelPosition.x + textWidth(r.relationship.label ?? '') / 2)
+    );
+    const maxY = Math.max(
+        offsetY,
+        ...boxes.map(b => b.y + b.height),
+        ...relationships.flatMap(r => r.points.map(p => p.y))
+    );
+
+    return {
+        width: Math.ceil(maxX + opts.marginX),
+        height: Math.ceil(maxY + opts.marginY),
+        title: erDiagram.title,
+        tables: boxes,
+        relationships,
+    };
+}
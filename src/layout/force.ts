@@ -0,0 +1,172 @@
+/**
+ * Force-directed layout
+ *
+ * Fruchterman-Reingold spring embedder for undirected networks and
+ * topologies. Deterministic: the same diagram always yields the same
+ * drawing. Disconnected components are laid out separately and packed.
+ */
+
+import type { Diagram, DiagramEdge, DiagramNode, Position } from '../types';
+import { applyNodePositions, findConnectedComponents, getDefaultNodeSize, packBlocks } from './layout-utils';
+
+/** Options consumed by the force-directed layout */
+export interface ForceLayoutOptions {
+    nodeSpacing: number;
+    marginX: number;
+    marginY: number;
+    iterations: number;
+}
+
+/** Passes of overlap removal after the simulation */
+const OVERLAP_PASSES = 50;
+
+interface Body {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Apply force-directed layout to diagram */
+export function applyForceLayout(diagram: Diagram, options: ForceLayoutOptions): Diagram {
+    const components = findConnectedComponents(diagram.nodes, diagram.edges);
+    const laidOut = components.map(component => simulate(component, diagram.edges, options));
+
+    const blocks = laidOut.map(bodies => boundsOf(bodies));
+    const offsets = packBlocks(blocks.map(b => ({ width: b.width, height: b.height })), options.nodeSpacing * 2);
+
+    const positions = new Map<string, Position>();
+    laidOut.forEach((bodies, index) => {
+        const block = blocks[index];
+        for (const body of bodies) {
+            positions.set(body.id, {
+                x: body.x - body.width / 2 - block.x + offsets[index].x,
+                y: body.y - body.height / 2 - block.y + offsets[index].y,
+            });
+        }
+    });
+
+    return applyNodePositions(diagram, positions, options.marginX, options.marginY);
+}
+
+/** Run the spring simulation for one connected component (center coordinates) */
+function simulate(nodes: DiagramNode[], edges: DiagramEdge[], options: ForceLayoutOptions): Body[] {
+    const bodies: Body[] = nodes.map(node => {
+        const size = node.size || getDefaultNodeSize(node.shape);
+        return { id: node.id, x: 0, y: 0, width: size.width, height: size.height };
+    });
+    if (bodies.length === 1) return bodies;
+
+    const index = new Map(bodies.map((b, i) => [b.id, i]));
+    const links = edges
+        .map(e => [index.get(e.source), index.get(e.target)] as const)
+        .filter((l): l is readonly [number, number] => l[0] !== undefined && l[1] !== undefined && l[0] !== l[1]);
+
+    // Ideal distance between centers
+    const averageSize = bodies.reduce((sum, b) => sum + Math.max(b.width, b.height), 0) / bodies.length;
+    const k = averageSize + options.nodeSpacing;
+
+    // Start on a circle in component (BFS) order so neighbours begin close together
+    const radius = (k * bodies.length) / (2 * Math.PI);
+    bodies.forEach((body, i) => {
+        const angle = (2 * Math.PI * i) / bodies.length;
+        body.x = radius * Math.cos(angle);
+        body.y = radius * Math.sin(angle);
+    });
+
+    let temperature = k * Math.sqrt(bodies.length);
+    const cooling = temperature / (options.iterations + 1);
+
+    for (let iteration = 0; iteration < options.iterations; iteration++) {
+        const dx = new Array<number>(bodies.length).fill(0);
+        const dy = new Array<number>(bodies.length).fill(0);
+
+        // Repulsion between every pair
+        for (let i = 0; i < bodies.length; i++) {
+            for (let j = i + 1; j < bodies.length; j++) {
+                let vx = bodies[i].x - bodies[j].x;
+                let vy = bodies[i].y - bodies[j].y;
+                if (vx === 0 && vy === 0) {
+                    // Coincident bodies: separate them deterministically
+                    vx = (j - i) * 0.1;
+                    vy = (i + j) * 0.1;
+                }
+                const distance = Math.max(Math.hypot(vx, vy), 0.01);
+                const force = (k * k) / distance;
+                dx[i] += (vx / distance) * force;
+                dy[i] += (vy / distance) * force;
+                dx[j] -= (vx / distance) * force;
+                dy[j] -= (vy / distance) * force;
+            }
+        }
+
+        // Attraction along edges
+        for (const [source, target] of links) {
+            const vx = bodies[source].x - bodies[target].x;
+            const vy = bodies[source].y - bodies[target].y;
+            const distance = Math.max(Math.hypot(vx, vy), 0.01);
+            const force = (distance * distance) / k;
+            dx[source] -= (vx / distance) * force;
+            dy[source] -= (vy / distance) * force;
+            dx[target] += (vx / distance) * force;
+            dy[target] += (vy / distance) * force;
+        }
+
+        // Move, limited by the current temperature
+        for (let i = 0; i < bodies.length; i++) {
+            const length = Math.hypot(dx[i], dy[i]);
+            if (length === 0) continue;
+            const step = Math.min(length, temperature);
+            bodies[i].x += (dx[i] / length) * step;
+            bodies[i].y += (dy[i] / length) * step;
+        }
+
+        temperature = Math.max(temperature - cooling, 0.1);
+    }
+
+    removeOverlaps(bodies, options.nodeSpacing / 2);
+    return bodies;
+}
+
+/** Push overlapping boxes apart along the axis of least penetration */
+function removeOverlaps(bodies: Body[], gap: number): void {
+    for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+        let moved = false;
+
+        for (let i = 0; i < bodies.length; i++) {
+            for (let j = i + 1; j < bodies.length; j++) {
+                const a = bodies[i];
+                const b = bodies[j];
+                const overlapX = (a.width + b.width) / 2 + gap - Math.abs(a.x - b.x);
+                const overlapY = (a.height + b.height) / 2 + gap - Math.abs(a.y - b.y);
+                if (overlapX <= 0 || overlapY <= 0) continue;
+
+                moved = true;
+                if (overlapX < overlapY) {
+                    const shift = (overlapX / 2) * (a.x <= b.x ? -1 : 1);
+                    a.x += shift;
+                    b.x -= shift;
+                } else {
+                    const shift = (overlapY / 2) * (a.y <= b.y ? -1 : 1);
+                    a.y += shift;
+                    b.y -= shift;
+                }
+            }
+        }
+
+        if (!moved) break;
+    }
+}
+
+/** Bounding box of bodies (top-left based) */
+function boundsOf(bodies: Body[]): { x: number; y: number; width: number; height: number } {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const body of bodies) {
+        minX = Math.min(minX, body.x - body.width / 2);
+        minY = Math.min(minY, body.y - body.height / 2);
+        maxX = Math.max(maxX, body.x + body.width / 2);
+        maxY = Math.max(maxY, body.y + body.height / 2);
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
@@ -0,0 +1,60 @@
+/**
+ * Grid layout
+ *
+ * Arranges each connected component as a compact grid (in breadth-first
+ * order, so neighbours stay close) and packs the components into rows.
+ * Useful for disconnected diagrams and inventories of unrelated nodes.
+ */
+
+import type { Diagram, Position } from '../types';
+import { applyNodePositions, findConnectedComponents, getDefaultNodeSize, packBlocks } from './layout-utils';
+
+/** Options consumed by the grid layout */
+export interface GridLayoutOptions {
+    nodeSpacing: number;
+    marginX: number;
+    marginY: number;
+}
+
+/** Apply grid/packing layout to diagram */
+export function applyGridLayout(diagram: Diagram, options: GridLayoutOptions): Diagram {
+    const components = findConnectedComponents(diagram.nodes, diagram.edges);
+
+    // Uniform cells per component, sized by its largest node
+    const blocks = components.map(component => {
+        const columns = Math.ceil(Math.sqrt(component.length));
+        const rows = Math.ceil(component.length / columns);
+        let cellWidth = 0, cellHeight = 0;
+        for (const node of component) {
+            const size = node.size || getDefaultNodeSize(node.shape);
+            cellWidth = Math.max(cellWidth, size.width);
+            cellHeight = Math.max(cellHeight, size.height);
+        }
+        return {
+            columns,
+            cellWidth,
+            cellHeight,
+            width: columns * cellWidth + (columns - 1) * options.nodeSpacing,
+            height: rows * cellHeight + (rows - 1) * options.nodeSpacing,
+        };
+    });
+
+    const offsets = packBlocks(blocks, options.nodeSpacing * 2);
+    const positions = new Map<string, Position>();
+
+    components.forEach((component, index) => {
+        const block = blocks[index];
+        component.forEach((node, i) => {
+            const size = node.size || getDefaultNodeSize(node.shape);
+            const column = i % block.columns;
+            const row = Math.floor(i / block.columns);
+            // Centre the node inside its cell
+            positions.set(node.id, {
+                x: offsets[index].x + column * (block.cellWidth + options.nodeSpacing) + (block.cellWidth - size.width) / 2,
+                y: offsets[index].y + row * (block.cellHeight + options.nodeSpacing) + (block.cellHeight - size.height) / 2,
+            });
+        });
+    });
+
+    return applyNodePositions(diagram, positions, options.marginX, options.marginY);
+}
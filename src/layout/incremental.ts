@@ -0,0 +1,275 @@
+/**
+ * Incremental layout
+ *
+ * Keeps nodes that already carry a position pinned and places the
+ * remaining nodes around them, using a full layout pass as a guide
+ * for their relative arrangement.
+ */
+
+import type { Diagram, DiagramEdge, DiagramNode, LayoutDirection, Position } from '../types';
+import { buildParentMap } from '../utils/group-hierarchy';
+import { calculateViewport, fitGroupsToChildren, getDefaultNodeSize, type LayoutBox } from './layout-utils';
+
+/** Options consumed by the incremental placement */
+export interface IncrementalLayoutOptions {
+    direction: LayoutDirection;
+    nodeSpacing: number;
+    marginX: number;
+    marginY: number;
+}
+
+/** Upper bound on collision-avoidance steps per node */
+const MAX_PLACEMENT_STEPS = 500;
+
+/**
+ * Place position-less nodes without moving positioned ones
+ *
+ * @param layoutAll - Full layout pass used to derive relative placement
+ */
+export function applyIncrementalLayout(
+    diagram: Diagram,
+    options: IncrementalLayoutOptions,
+    layoutAll: (diagram: Diagram) => Diagram
+): Diagram {
+    const pinned = diagram.nodes.filter(n => n.position);
+    const free = diagram.nodes.filter(n => !n.position);
+
+    if (free.length === 0) return diagram;
+    if (pinned.length === 0) return layoutAll(diagram);
+
+    const guide = layoutAll(diagram);
+    const guidePositions = new Map<string, Position>();
+    for (const node of guide.nodes) {
+        if (node.position) guidePositions.set(node.id, node.position);
+    }
+
+    const adjacency = buildAdjacency(diagram.edges);
+    const pinnedIds = new Set(pinned.map(n => n.id));
+    const offsets = computeAnchorOffsets(free, pinned, pinnedIds, adjacency, guidePositions, options);
+
+    // Occupied space starts with every pinned node
+    const occupied: LayoutBox[] = pinned.map(n => ({
+        position: n.position!,
+        size: n.size || getDefaultNodeSize(n.shape),
+    }));
+
+    const horizontal = options.direction === 'LR' || options.direction === 'RL';
+    const rankOf = (n: DiagramNode) => {
+        const p = guidePositions.get(n.id);
+        return p ? (horizontal ? p.x : p.y) : 0;
+    };
+
+    const placed = new Map<string, DiagramNode>();
+    for (const node of [...free].sort((a, b) => rankOf(a) - rankOf(b))) {
+        const size = node.size || getDefaultNodeSize(node.shape);
+        const guidePos = guidePositions.get(node.id) || { x: 0, y: 0 };
+        const offset = offsets.get(node.id) || { x: 0, y: 0 };
+        const position = findFreeSpot(
+            { x: guidePos.x + offset.x, y: guidePos.y + offset.y },
+            size,
+            occupied,
+            options.nodeSpacing,
+            horizontal
+        );
+
+        occupied.push({ position, size });
+        placed.set(node.id, { ...node, position, size });
+    }
+
+    const nodes = diagram.nodes.map(n => placed.get(n.id) ?? n);
+
+    // Routing of edges that touch a new node is no longer valid
+    const edges = diagram.edges.map(edge => {
+        if (pinnedIds.has(edge.source) && pinnedIds.has(edge.target)) return edge;
+        return edge.waypoints ? { ...edge, waypoints: undefined } : edge;
+    });
+
+    const groups = growAffectedGroups(diagram, nodes, new Set(placed.keys()));
+    const fitted = calculateViewport(nodes, groups, options.marginX, options.marginY);
+
+    return {
+        ...diagram,
+        nodes,
+        edges,
+        groups,
+        viewport: {
+            ...diagram.viewport,
+            width: Math.max(fitted.width, diagram.viewport?.width ?? 0),
+            height: Math.max(fitted.height, diagram.viewport?.height ?? 0),
+        },
+    };
+}
+
+/** Undirected adjacency list from edges */
+function buildAdjacency(edges: DiagramEdge[]): Map<string, Set<string>> {
+    const adjacency = new Map<string, Set<string>>();
+    const link = (a: string, b: string) => {
+        if (!adjacency.has(a)) adjacency.set(a, new Set());
+        adjacency.get(a)!.add(b);
+    };
+    for (const edge of edges) {
+        link(edge.source, edge.target);
+        link(edge.target, edge.source);
+    }
+    return adjacency;
+}
+
+/**
+ * Translation from guide layout to final coordinates for each free node
+ *
+ * A node follows the nearest pinned nodes of its connected component.
+ * Nodes in components without any pinned node are placed as one block
+ * beside the existing content, keeping their guide arrangement.
+ */
+function computeAnchorOffsets(
+    free: DiagramNode[],
+    pinned: DiagramNode[],
+    pinnedIds: Set<string>,
+    adjacency: Map<string, Set<string>>,
+    guidePositions: Map<string, Position>,
+    options: IncrementalLayoutOptions
+): Map<string, Position> {
+    const pinnedById = new Map(pinned.map(n => [n.id, n]));
+    const offsets = new Map<string, Position>();
+    const unanchored: DiagramNode[] = [];
+
+    for (const node of free) {
+        const anchors = findNearestPinned(node.id, pinnedIds, adjacency);
+        const deltas = anchors
+            .map(id => {
+                const actual = pinnedById.get(id)!.position!;
+                const guide = guidePositions.get(id);
+                return guide ? { x: actual.x - guide.x, y: actual.y - guide.y } : undefined;
+            })
+            .filter((d): d is Position => d !== undefined);
+
+        if (deltas.length === 0) {
+            unanchored.push(node);
+            continue;
+        }
+
+        offsets.set(node.id, {
+            x: deltas.reduce((sum, d) => sum + d.x, 0) / deltas.length,
+            y: deltas.reduce((sum, d) => sum + d.y, 0) / deltas.length,
+        });
+    }
+
+    if (unanchored.length > 0) {
+        let maxX = -Infinity, maxY = -Infinity, minX = Infinity, minY = Infinity;
+        for (const node of pinned) {
+            const size = node.size || getDefaultNodeSize(node.shape);
+            minX = Math.min(minX, node.position!.x);
+            minY = Math.min(minY, node.position!.y);
+            maxX = Math.max(maxX, node.position!.x + size.width);
+            maxY = Math.max(maxY, node.position!.y + size.height);
+        }
+
+        let guideMinX = Infinity, guideMinY = Infinity;
+        for (const node of unanchored) {
+            const guide = guidePositions.get(node.id) || { x: 0, y: 0 };
+            guideMinX = Math.min(guideMinX, guide.x);
+            guideMinY = Math.min(guideMinY, guide.y);
+        }
+
+        // Beside the content, across the flow direction
+        const horizontal = options.direction === 'LR' || options.direction === 'RL';
+        const gap = options.nodeSpacing * 2;
+        const offset = horizontal
+            ? { x: minX - guideMinX, y: maxY + gap - guideMinY }
+            : { x: maxX + gap - guideMinX, y: minY - guideMinY };
+
+        for (const node of unanchored) {
+            offsets.set(node.id, offset);
+        }
+    }
+
+    return offsets;
+}
+
+/** Breadth-first search for the closest pinned nodes */
+function findNearestPinned(
+    startId: string,
+    pinnedIds: Set<string>,
+    adjacency: Map<string, Set<string>>
+): string[] {
+    const visited = new Set<string>([startId]);
+    let frontier = [startId];
+
+    while (frontier.length > 0) {
+        const next: string[] = [];
+        const found: string[] = [];
+
+        for (const id of frontier) {
+            for (const neighbor of adjacency.get(id) ?? []) {
+                if (visited.has(neighbor)) continue;
+                visited.add(neighbor);
+                if (pinnedIds.has(neighbor)) {
+                    found.push(neighbor);
+                } else {
+                    next.push(neighbor);
+                }
+            }
+        }
+
+        if (found.length > 0) return found;
+        frontier = next;
+    }
+
+    return [];
+}
+
+/** Shift a box across the flow direction until it overlaps nothing */
+function findFreeSpot(
+    start: Position,
+    size: { width: number; height: number },
+    occupied: LayoutBox[],
+    spacing: number,
+    horizontal: boolean
+): Position {
+    const gap = spacing / 2;
+    const position = { x: Math.round(start.x), y: Math.round(start.y) };
+
+    for (let step = 0; step < MAX_PLACEMENT_STEPS; step++) {
+        const blocker = occupied.find(box =>
+            position.x < box.position.x + box.size.width + gap &&
+            box.position.x < position.x + size.width + gap &&
+            position.y < box.position.y + box.size.height + gap &&
+            box.position.y < position.y + size.height + gap
+        );
+        if (!blocker) break;
+
+        if (horizontal) {
+            position.y = Math.round(blocker.position.y + blocker.size.height + gap);
+        } else {
+            position.x = Math.round(blocker.position.x + blocker.size.width + gap);
+        }
+    }
+
+    return position;
+}
+
+/** Enlarge groups that received new members; other groups are left untouched */
+function growAffectedGroups(diagram: Diagram, nodes: DiagramNode[], placedIds: Set<string>): Diagram['groups'] {
+    const parents = buildParentMap(diagram.groups);
+    const affected = new Set<string>();
+
+    for (const id of placedIds) {
+        let current = parents.get(id);
+        while (current && !affected.has(current)) {
+            affected.add(current);
+            current = parents.get(current);
+        }
+    }
+
+    if (affected.size === 0) return diagram.groups;
+
+    const existing = new Map<string, LayoutBox>();
+    for (const group of diagram.groups) {
+        if (group.position && group.size) {
+            existing.set(group.id, { position: group.position, size: group.size });
+        }
+    }
+
+    const fitted = fitGroupsToChildren(nodes, diagram.groups, parents, existing);
+    return diagram.groups.map((group, index) => affected.has(group.id) ? fitted[index] : group);
+}
@@ -6,3 +6,21 @@
 
 export { autoLayout } from './auto-layout';
 export type { LayoutOptions } from './auto-layout';
+export { applyElkLayout, loadElkLayout } from './elk-layout';
+export type { ElkLayoutOptions } from './elk-layout';
+export { applyForceLayout } from './force';
+export type { ForceLayoutOptions } from './force';
+export { applyRadialLayout } from './radial';
+export type { RadialLayoutOptions } from './radial';
+export { applyTreeLayout } from './tree';
+export type { TreeLayoutOptions } from './tree';
+export { applyGridLayout } from './grid';
+export type { GridLayoutOptions } from './grid';
+export { layoutSequenceDiagram } from './sequence';
+export type { SequenceLayout, SequenceLayoutOptions } from './sequence';
+export { layoutStateDiagram } from './state';
+export type { StateLayout, StateLayoutOptions } from './state';
+export { layoutERDiagram } from './er';
+export type { ERLayout, ERLayoutOptions } from './er';
+export { layoutBpmnDiagram } from './bpmn';
+export type { BpmnLayout, BpmnLayoutOptions } from './bpmn';
@@ -0,0 +1,332 @@
+/**
+ * Shared layout helpers
+ *
+ * Node sizing, group fitting and viewport calculation used by all layout engines
+ */
+
+import type { Diagram, DiagramEdge, DiagramGroup, DiagramNode, Position, Size, Viewport } from '../types';
+import { SPACING } from '../constants/layout';
+import { buildParentMap, sortGroupsOuterFirst } from '../utils/group-hierarchy';
+
+/** Height reserved for a group label above or below its contents */
+export const GROUP_LABEL_HEIGHT = 24;
+
+/** Size given to groups without members */
+export const EMPTY_GROUP_SIZE: Size = { width: 160, height: 80 };
+
+/** Axis-aligned box in absolute coordinates */
+export interface LayoutBox {
+    position: Position;
+    size: Size;
+}
+
+/** Space around group contents, including room for the label */
+export interface GroupPadding {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/** Get default size for node shape */
+export function getDefaultNodeSize(shape: string): Size {
+    switch (shape) {
+        case 'circle':
+            return { width: 80, height: 80 };
+        case 'diamond':
+            return { width: 100, height: 80 };
+        case 'cylinder':
+            return { width: 80, height: 100 };
+        case 'actor':
+            return { width: 50, height: 80 };
+        case 'hexagon':
+            return { width: 120, height: 80 };
+        default:
+            return { width: 150, height: 60 };
+    }
+}
+
+/** Calculate viewport covering all positioned nodes and groups */
+export function calculateViewport(
+    nodes: DiagramNode[],
+    groups: DiagramGroup[],
+    marginX: number,
+    marginY: number
+): Viewport {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+    for (const element of [...nodes, ...groups]) {
+        if (element.position && element.size) {
+            minX = Math.min(minX, element.position.x);
+            minY = Math.min(minY, element.position.y);
+            maxX = Math.max(maxX, element.position.x + element.size.width);
+            maxY = Math.max(maxY, element.position.y + element.size.height);
+        }
+    }
+
+    if (!isFinite(minX)) {
+        return { width: marginX * 2, height: marginY * 2 };
+    }
+
+    return {
+        width: maxX - minX + marginX * 2,
+        height: maxY - minY + marginY * 2,
+    };
+}
+
+/** Get padding for group contents, reserving label space per `GroupStyle.labelPosition` */
+export function getGroupPadding(group: DiagramGroup): GroupPadding {
+    const padding = SPACING.GROUP_PADDING;
+    const labelSpace = group.label ? GROUP_LABEL_HEIGHT : 0;
+    const labelAtBottom = group.style.labelPosition === 'bottom';
+
+    return {
+        top: padding + (labelAtBottom ? 0 : labelSpace),
+        right: padding,
+        bottom: padding + (labelAtBottom ? labelSpace : 0),
+        left: padding,
+    };
+}
+
+/**
+ * Size and position groups so they enclose their members
+ *
+ * Groups are fitted innermost first, so an outer group encloses the
+ * already padded bounds of its nested groups. When a layout engine has
+ * produced its own cluster box, the result covers both.
+ */
+export function fitGroupsToChildren(
+    nodes: DiagramNode[],
+    groups: DiagramGroup[],
+    parents: Map<string, string>,
+    engineBoxes: Map<string, LayoutBox> = new Map()
+): DiagramGroup[] {
+    const boxes = new Map<string, LayoutBox>();
+    for (const node of nodes) {
+        if (node.position && node.size) {
+            boxes.set(node.id, { position: node.position, size: node.size });
+        }
+    }
+
+    const childrenOf = new Map<string, string[]>();
+    for (const [childId, parentId] of parents) {
+        const list = childrenOf.get(parentId) ?? [];
+        list.push(childId);
+        childrenOf.set(parentId, list);
+    }
+
+    const ordered = sortGroupsOuterFirst(groups, parents).reverse();
+    const fitted = new Map<string, DiagramGroup>();
+
+    for (const group of ordered) {
+        const childBoxes = (childrenOf.get(group.id) ?? [])
+            .map(id => boxes.get(id))
+            .filter((box): box is LayoutBox => box !== undefined);
+        const engineBox = engineBoxes.get(group.id);
+
+        if (childBoxes.length === 0 && !engineBox) {
+            fitted.set(group.id, group);
+            if (group.position && group.size) {
+                boxes.set(group.id, { position: group.position, size: group.size });
+            }
+            continue;
+        }
+
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        if (childBoxes.length > 0) {
+            const padding = getGroupPadding(group);
+            for (const box of childBoxes) {
+                minX = Math.min(minX, box.position.x - padding.left);
+                minY = Math.min(minY, box.position.y - padding.top);
+                maxX = Math.max(maxX, box.position.x + box.size.width + padding.right);
+                maxY = Math.max(maxY, box.position.y + box.size.height + padding.bottom);
+            }
+        }
+        if (engineBox) {
+            minX = Math.min(minX, engineBox.position.x);
+            minY = Math.min(minY, engineBox.position.y);
+            maxX = Math.max(maxX, engineBox.position.x + engineBox.size.width);
+            maxY = Math.max(maxY, engineBox.position.y + engineBox.size.height);
+        }
+
+        const box: LayoutBox = {
+            position: { x: Math.round(minX), y: Math.round(minY) },
+            size: { width: Math.round(maxX - minX), height: Math.round(maxY - minY) },
+        };
+        boxes.set(group.id, box);
+        fitted.set(group.id, { ...group, position: box.position, size: box.size });
+    }
+
+    return groups.map(group => fitted.get(group.id) ?? group);
+}
+
+/** Split nodes into connected components (edge direction ignored), in node order */
+export function findConnectedComponents(nodes: DiagramNode[], edges: DiagramEdge[]): DiagramNode[][] {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+        if (!byId.has(edge.source) || !byId.has(edge.target)) continue;
+        adjacency.set(edge.source, [...(adjacency.get(edge.source) ?? []), edge.target]);
+        adjacency.set(edge.target, [...(adjacency.get(edge.target) ?? []), edge.source]);
+    }
+
+    const seen = new Set<string>();
+    const components: DiagramNode[][] = [];
+
+    for (const start of nodes) {
+        if (seen.has(start.id)) continue;
+        const component: DiagramNode[] = [];
+        const queue = [start.id];
+        seen.add(start.id);
+
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            component.push(byId.get(id)!);
+            for (const neighbor of adjacency.get(id) ?? []) {
+                if (!seen.has(neighbor)) {
+                    seen.add(neighbor);
+                    queue.push(neighbor);
+                }
+            }
+        }
+        components.push(component);
+    }
+
+    return components;
+}
+
+/**
+ * Pack blocks into rows (shelf packing)
+ *
+ * Rows are filled up to a width that keeps the result roughly square.
+ *
+ * @returns Top-left offset of every block, in input order
+ */
+export function packBlocks(blocks: Size[], spacing: number): Position[] {
+    const totalArea = blocks.reduce((sum, b) => sum + (b.width + spacing) * (b.height + spacing), 0);
+    const widest = blocks.reduce((max, b) => Math.max(max, b.width), 0);
+    const rowLimit = Math.max(widest, Math.sqrt(totalArea) * 1.2);
+
+    const offsets: Position[] = [];
+    let x = 0, y = 0, rowHeight = 0;
+
+    for (const block of blocks) {
+        if (x > 0 && x + block.width > rowLimit) {
+            x = 0;
+            y += rowHeight + spacing;
+            rowHeight = 0;
+        }
+        offsets.push({ x, y });
+        x += block.width + spacing;
+        rowHeight = Math.max(rowHeight, block.height);
+    }
+
+    return offsets;
+}
+
+/**
+ * Write computed node positions back to the diagram
+ *
+ * Positions are top-left corners; the whole drawing is shifted so it
+ * starts at the margins. Groups are fitted around their members and
+ * stale edge routing is dropped, since edges are drawn straight.
+ */
+export function applyNodePositions(
+    diagram: Diagram,
+    positions: Map<string, Position>,
+    marginX: number,
+    marginY: number
+): Diagram {
+    let minX = Infinity, minY = Infinity;
+    for (const position of positions.values()) {
+        minX = Math.min(minX, position.x);
+        minY = Math.min(minY, position.y);
+    }
+    const shiftX = isFinite(minX) ? marginX - minX : 0;
+    const shiftY = isFinite(minY) ? marginY - minY : 0;
+
+    const nodes = diagram.nodes.map(node => {
+        const position = positions.get(node.id);
+        if (!position) return node;
+        return {
+            ...node,
+            position: { x: Math.round(position.x + shiftX), y: Math.round(position.y + shiftY) },
+            size: node.size || getDefaultNodeSize(node.shape),
+        };
+    });
+
+    const edges = diagram.edges.map(edge => edge.waypoints ? { ...edge, waypoints: undefined } : edge);
+    const groups = fitGroupsToChildren(nodes, diagram.groups, buildParentMap(diagram.groups));
+
+    return {
+        ...diagram,
+        nodes,
+        edges,
+        groups,
+        viewport: calculateViewport(nodes, groups, marginX, marginY),
+    };
+}
+
+/** Spanning forest used by the tree and radial layouts */
+export interface SpanningForest {
+    roots: string[];
+    children: Map<string, string[]>;
+}
+
+/**
+ * Build a spanning forest by breadth-first traversal
+ *
+ * Roots are `rootId` when given, then nodes without incoming edges,
+ * then any node not reached yet (cycles). With `directed`, only
+ * source -> target edges are followed; otherwise edges work both ways.
+ */
+export function buildSpanningForest(
+    nodes: DiagramNode[],
+    edges: DiagramEdge[],
+    rootId: string | undefined,
+    directed: boolean
+): SpanningForest {
+    const ids = new Set(nodes.map(n => n.id));
+    const adjacency = new Map<string, string[]>();
+    const incoming = new Set<string>();
+
+    for (const edge of edges) {
+        if (!ids.has(edge.source) || !ids.has(edge.target) || edge.source === edge.target) continue;
+        adjacency.set(edge.source, [...(adjacency.get(edge.source) ?? []), edge.target]);
+        if (!directed) {
+            adjacency.set(edge.target, [...(adjacency.get(edge.target) ?? []), edge.source]);
+        }
+        incoming.add(edge.target);
+    }
+
+    const candidates = [
+        ...(rootId && ids.has(rootId) ? [rootId] : []),
+        ...nodes.filter(n => !incoming.has(n.id)).map(n => n.id),
+        ...nodes.map(n => n.id),
+    ];
+
+    const visited = new Set<string>();
+    const roots: string[] = [];
+    const children = new Map<string, string[]>();
+
+    for (const candidate of candidates) {
+        if (visited.has(candidate)) continue;
+        roots.push(candidate);
+        visited.add(candidate);
+
+        const queue = [candidate];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            const list: string[] = [];
+            for (const next of adjacency.get(id) ?? []) {
+                if (visited.has(next)) continue;
+                visited.add(next);
+                list.push(next);
+                queue.push(next);
+            }
+            children.set(id, list);
+        }
+    }
+
+    return { roots, children };
+}
@@ -0,0 +1,122 @@
+/**
+ * Radial layout
+ *
+ * Places the root in the centre and each tree level on a ring around
+ * it. Every subtree gets an angular wedge proportional to its number
+ * of leaves, which suits mindmaps and hub-and-spoke topologies.
+ */
+
+import type { Diagram, Position, Size } from '../types';
+import {
+    applyNodePositions,
+    buildSpanningForest,
+    findConnectedComponents,
+    getDefaultNodeSize,
+    packBlocks,
+} from './layout-utils';
+
+/** Options consumed by the radial layout */
+export interface RadialLayoutOptions {
+    nodeSpacing: number;
+    rankSpacing: number;
+    marginX: number;
+    marginY: number;
+    rootId?: string;
+}
+
+/** Apply radial layout to diagram */
+export function applyRadialLayout(diagram: Diagram, options: RadialLayoutOptions): Diagram {
+    const sizes = new Map<string, Size>(
+        diagram.nodes.map(n => [n.id, n.size || getDefaultNodeSize(n.shape)])
+    );
+    const components = findConnectedComponents(diagram.nodes, diagram.edges);
+
+    // Lay out every component around its own centre
+    const laidOut = components.map(component => {
+        const forest = buildSpanningForest(component, diagram.edges, options.rootId, false);
+        return layoutComponent(forest.roots[0], forest.children, sizes, options);
+    });
+
+    const bounds = laidOut.map(centers => {
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (const [id, c] of centers) {
+            const size = sizes.get(id)!;
+            minX = Math.min(minX, c.x - size.width / 2);
+            minY = Math.min(minY, c.y - size.height / 2);
+            maxX = Math.max(maxX, c.x + size.width / 2);
+            maxY = Math.max(maxY, c.y + size.height / 2);
+        }
+        return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    });
+    const offsets = packBlocks(bounds, options.nodeSpacing * 2);
+
+    const positions = new Map<string, Position>();
+    laidOut.forEach((centers, index) => {
+        for (const [id, c] of centers) {
+            const size = sizes.get(id)!;
+            positions.set(id, {
+                x: c.x - size.width / 2 - bounds[index].x + offsets[index].x,
+                y: c.y - size.height / 2 - bounds[index].y + offsets[index].y,
+            });
+        }
+    });
+
+    return applyNodePositions(diagram, positions, options.marginX, options.marginY);
+}
+
+/** Centre coordinates for one tree, root at the origin */
+function layoutComponent(
+    root: string,
+    children: Map<string, string[]>,
+    sizes: Map<string, Size>,
+    options: RadialLayoutOptions
+): Map<string, Position> {
+    const leaves = new Map<string, number>();
+    const depths = new Map<string, number>();
+    const countLeaves = (id: string, depth: number): number => {
+        depths.set(id, depth);
+        const kids = children.get(id) ?? [];
+        const count = kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + countLeaves(kid, depth + 1), 0);
+        leaves.set(id, count);
+        return count;
+    };
+    countLeaves(root, 0);
+
+    // Ring radii: far enough from the previous ring and wide enough for its nodes
+    const maxDepth = Math.max(...depths.values());
+    const ringNodes = new Array<number>(maxDepth + 1).fill(0);
+    let largest = 0;
+    for (const [id, depth] of depths) {
+        ringNodes[depth]++;
+        const size = sizes.get(id)!;
+        largest = Math.max(largest, Math.hypot(size.width, size.height));
+    }
+    const radii = [0];
+    for (let depth = 1; depth <= maxDepth; depth++) {
+        const step = radii[depth - 1] + largest + options.rankSpacing / 2;
+        const circumferenceNeeded = (ringNodes[depth] * (largest + options.nodeSpacing)) / (2 * Math.PI);
+        radii[depth] = Math.max(step, circumferenceNeeded);
+    }
+
+    const centers = new Map<string, Position>();
+    const assign = (id: string, start: number, end: number) => {
+        const depth = depths.get(id)!;
+        const angle = (start + end) / 2;
+        centers.set(id, {
+            x: radii[depth] * Math.cos(angle),
+            y: radii[depth] * Math.sin(angle),
+        });
+
+        let cursor = start;
+        const total = leaves.get(id)!;
+        for (const kid of children.get(id) ?? []) {
+            const span = ((end - start) * leaves.get(kid)!) / total;
+            assign(kid, cursor, cursor + span);
+            cursor += span;
+        }
+    };
+    // Full circle centred on the top, so a single child sits above the root
+    assign(root, -1.5 * Math.PI, 0.5 * Math.PI);
+
+    return centers;
+}
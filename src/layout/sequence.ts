@@ -0,0 +1,306 @@
+/**
+ * Sequence layout
+ *
+ * Places participants side by side and walks the element tree top to
+ * bottom: every message, note and block header takes a row on the
+ * lifelines. The result is a renderer-neutral geometry model shared by
+ * the SVG, Draw.io and Excalidraw lifeline generators.
+ */
+
+import type { IRBlock, IRMessage, IRNote, IRParticipant, IRSequenceDiagram, SequenceElement } from '../types';
+
+/** Options consumed by the sequence layout */
+export interface SequenceLayoutOptions {
+    marginX?: number;
+    marginY?: number;
+    participantWidth?: number;
+    participantHeight?: number;
+    participantSpacing?: number;
+    rowHeight?: number;
+    activationWidth?: number;
+    fontSize?: number;
+}
+
+/** Participant box and its lifeline */
+export interface SequenceParticipantBox {
+    participant: IRParticipant;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Horizontal centre of the lifeline */
+    center: number;
+    lifelineEnd: number;
+}
+
+/** Message arrow between two lifelines (or a self-call loop) */
+export interface SequenceMessageLine {
+    message: IRMessage;
+    /** Message number when autonumber is on */
+    number?: number;
+    x1: number;
+    x2: number;
+    y: number;
+    self: boolean;
+}
+
+/** Activation bar on a lifeline */
+export interface SequenceActivationBar {
+    participant: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Note box */
+export interface SequenceNoteBox {
+    note: IRNote;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Combined fragment frame (alt, loop, ...) */
+export interface SequenceFragmentFrame {
+    block: IRBlock;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Section separators below the first section */
+    sections: Array<{ label?: string; y: number }>;
+}
+
+/** Complete sequence layout */
+export interface SequenceLayout {
+    width: number;
+    height: number;
+    title?: string;
+    participants: SequenceParticipantBox[];
+    messages: SequenceMessageLine[];
+    activations: SequenceActivationBar[];
+    notes: SequenceNoteBox[];
+    fragments: SequenceFragmentFrame[];
+}
+
+const DEFAULT_OPTIONS: Required<SequenceLayoutOptions> = {
+    marginX: 20,
+    marginY: 20,
+    participantWidth: 120,
+    participantHeight: 40,
+    participantSpacing: 40,
+    rowHeight: 40,
+    activationWidth: 10,
+    fontSize: 14,
+};
+
+/** Space between a fragment frame and the lifelines it encloses */
+const FRAGMENT_PADDING = 30;
+
+/** Lay out a sequence diagram */
+export function layoutSequenceDiagram(sequence: IRSequenceDiagram, options: SequenceLayoutOptions = {}): SequenceLayout {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const charWidth = opts.fontSize * 0.6;
+    const textWidth = (text: string) => Math.max(...text.split('\n').map(line => line.length)) * charWidth;
+
+    // Participant widths and the gaps required by message labels between neighbours
+    const index = new Map(sequence.participants.map((p, i) => [p.id, i]));
+    const widths = sequence.participants.map(p => Math.max(opts.participantWidth, textWidth(p.label) + 20));
+    const gaps = sequence.participants.slice(1).map(() => opts.participantSpacing);
+    walkElements(sequence.elements, element => {
+        if (element.kind !== 'message') return;
+        const from = index.get(element.data.from) ?? 0;
+        const to = index.get(element.data.to) ?? 0;
+        if (Math.abs(from - to) !== 1) return;
+        const left = Math.min(from, to);
+        const needed = textWidth(element.data.label) + 40 - (widths[left] + widths[left + 1]) / 2;
+        gaps[left] = Math.max(gaps[left], needed);
+    });
+
+    const titleHeight = sequence.title ? opts.fontSize * 2.5 : 0;
+    const top = opts.marginY + titleHeight;
+    const participants: SequenceParticipantBox[] = [];
+    let x = opts.marginX + FRAGMENT_PADDING;
+    sequence.participants.forEach((participant, i) => {
+        participants.push({
+            participant,
+            x,
+            y: top,
+            width: widths[i],
+            height: opts.participantHeight,
+            center: x + widths[i] / 2,
+            lifelineEnd: 0,
+        });
+        x += widths[i] + (gaps[i] ?? 0);
+    });
+    const centerOf = (id: string) => participants[index.get(id) ?? 0]?.center ?? opts.marginX;
+
+    const messages: SequenceMessageLine[] = [];
+    const activations: SequenceActivationBar[] = [];
+    const notes: SequenceNoteBox[] = [];
+    const fragments: SequenceFragmentFrame[] = [];
+    const open = new Map<string, number[]>(); // participant -> start y of open activations
+    let y = top + opts.participantHeight + opts.rowHeight / 2;
+    let messageNumber = 0;
+
+    const activationX = (id: string, depth: number) => centerOf(id) - opts.activationWidth / 2 + depth * (opts.activationWidth / 2);
+    const closeActivation = (id: string, endY: number) => {
+        const starts = open.get(id);
+        const startY = starts?.pop();
+        if (startY === undefined) return;
+        activations.push({
+            participant: id,
+            x: activationX(id, starts!.length),
+            y: startY,
+            width: opts.activationWidth,
+            height: Math.max(endY - startY, opts.rowHeight / 2),
+        });
+    };
+
+    const place = (elements: SequenceElement[], depth: number) => {
+        for (const element of elements) {
+            switch (element.kind) {
+                case 'message': {
+                    const message = element.data;
+                    const self = message.from === message.to;
+                    const lines = message.label.split('\n').length;
+                    y += opts.rowHeight + (lines - 1) * opts.fontSize;
+                    messages.push({
+                        message,
+                        number: sequence.autonumber ? ++messageNumber : undefined,
+                        x1: centerOf(message.from),
+                        x2: self ? centerOf(message.from) : centerOf(message.to),
+                        y,
+                        self,
+                    });
+                    if (self) y += opts.rowHeight / 2;
+                    break;
+                }
+                case 'activation': {
+                    const id = element.data.participant;
+                    if (element.action === 'activate') {
+                        open.set(id, [...(open.get(id) ?? []), y]);
+                    } else {
+                        closeActivation(id, y);
+                    }
+                    break;
+                }
+                case 'note': {
+                    const note = element.data;
+                    const lines = note.text.split('\n').length;
+                    const height = lines * opts.fontSize * 1.4 + 12;
+                    const centers = note.participants.map(centerOf);
+                    let width = Math.max(80, textWidth(note.text) + 20);
+                    let noteX: number;
+                    if (note.position === 'left') {
+                        noteX = centers[0] - width - opts.activationWidth;
+                    } else if (note.position === 'right') {
+                        noteX = centers[0] + opts.activationWidth;
+                    } else {
+                        const minX = Math.min(...centers);
+                        const maxX = Math.max(...centers);
+                        width = Math.max(width, maxX - minX + 40);
+                        noteX = (minX + maxX) / 2 - width / 2;
+                    }
+                    y += opts.rowHeight / 2;
+                    notes.push({ note, x: noteX, y, width, height });
+                    y += height;
+                    break;
+                }
+                case 'block': {
+                    const block = element.data;
+                    const ids = new Set<string>();
+                    walkElements([element], inner => {
+                        if (inner.kind === 'message') ids.add(inner.data.from).add(inner.data.to);
+                        if (inner.kind === 'note') inner.data.participants.forEach(id => ids.add(id));
+                        if (inner.kind === 'activation') ids.add(inner.data.participant);
+                    });
+                    const centers = (ids.size > 0 ? [...ids] : sequence.participants.map(p => p.id)).map(centerOf);
+                    const inset = Math.max(FRAGMENT_PADDING - depth * 8, 6);
+
+                    y += opts.rowHeight / 2;
+                    const frame: SequenceFragmentFrame = {
+                        block,
+                        x: Math.min(...centers) - inset - (ids.size === 1 ? 40 : 0),
+                        y,
+                        width: 0,
+                        height: 0,
+                        sections: [],
+                    };
+                    y += opts.fontSize;
+                    block.sections.forEach((section, sectionIndex) => {
+                        if (sectionIndex > 0) {
+                            y += opts.rowHeight / 2;
+                            frame.sections.push({ label: section.label, y });
+                        }
+                        place(section.elements, depth + 1);
+                    });
+                    y += opts.rowHeight / 2;
+                    frame.width = Math.max(...centers) + inset + (ids.size === 1 ? 40 : 0) - frame.x;
+                    frame.height = y - frame.y;
+                    fragments.push(frame);
+                    break;
+                }
+            }
+        }
+    };
+    place(sequence.elements, 0);
+
+    const lifelineEnd = y + opts.rowHeight;
+    for (const [id, starts] of open) {
+        while (starts.length > 0) closeActivation(id, lifelineEnd - opts.rowHeight / 2);
+    }
+    for (const box of participants) {
+        box.lifelineEnd = lifelineEnd;
+    }
+
+    // Notes and frames may stick out on the left
+    const minX = Math.min(opts.marginX, ...notes.map(n => n.x), ...fragments.map(f => f.x));
+    const shift = opts.marginX - minX;
+    if (shift > 0) {
+        for (const box of participants) {
+            box.x += shift;
+            box.center += shift;
+        }
+        for (const message of messages) {
+            message.x1 += shift;
+            message.x2 += shift;
+        }
+        for (const item of [...activations, ...notes, ...fragments]) {
+            item.x += shift;
+        }
+    }
+
+    const maxX = Math.max(
+        ...participants.map(p => p.x + p.width),
+        ...notes.map(n => n.x + n.width),
+        ...fragments.map(f => f.x + f.width),
+        ...messages.filter(m => m.self).map(m => m.x1 + 40 + textWidth(m.message.label)),
+        opts.marginX
+    );
+
+    return {
+        width: maxX + opts.marginX,
+        height: lifelineEnd + opts.marginY,
+        title: sequence.title,
+        participants,
+        messages,
+        activations,
+        notes,
+        fragments,
+    };
+}
+
+/** Visit every element, descending into block sections */
+function walkElements(elements: SequenceElement[], visitor: (element: SequenceElement) => void): void {
+    for (const element of elements) {
+        visitor(element);
+        if (element.kind === 'block') {
+            for (const section of element.data.sections) {
+                walkElements(section.elements, visitor);
+            }
+        }
+    }
+}
@@ -0,0 +1,378 @@
+/**
+ * State machine layout
+ *
+ * Lays out composite states bottom-up: every scope (the top level or a
+ * composite state) is placed with Dagre from the sizes of its children,
+ * and each composite state is sized to fit its scope below a header.
+ * Transitions between siblings follow Dagre's routes; transitions that
+ * cross a composite border are drawn straight between the two boxes. The
+ * result is a renderer-neutral geometry model shared by the SVG and
+ * Draw.io state generators.
+ */
+
+import dagre from 'dagre';
+import type { IRState, IRStateDiagram, IRStateNote, IRTransition, Position, Size } from '../types';
+import { formatTransitionLabel, walkStates } from '../utils/state';
+
+/** Options consumed by the state layout */
+export interface StateLayoutOptions {
+    marginX?: number;
+    marginY?: number;
+    nodeSpacing?: number;
+    rankSpacing?: number;
+    /** Inner padding of composite states */
+    padding?: number;
+    fontSize?: number;
+}
+
+/** Placed state; composite states enclose the boxes of their children */
+export interface StateBox {
+    state: IRState;
+    /** Enclosing composite state */
+    parent?: string;
+    depth: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Display name (description, label or ID) */
+    label: string;
+    /** `entry / action` lines */
+    actions: string[];
+    /** Name and action compartment of composite states */
+    headerHeight: number;
+}
+
+/** Routed transition */
+export interface StateTransitionPath {
+    transition: IRTransition;
+    label: string;
+    points: Position[];
+    /** Centre of the label */
+    labelPosition: Position;
+}
+
+/** Note box beside its state */
+export interface StateNoteBox {
+    note: IRStateNote;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Complete state machine layout */
+export interface StateLayout {
+    width: number;
+    height: number;
+    title?: string;
+    /** Composite states come before their children */
+    states: StateBox[];
+    transitions: StateTransitionPath[];
+    notes: StateNoteBox[];
+}
+
+const DEFAULT_OPTIONS: Required<StateLayoutOptions> = {
+    marginX: 20,
+    marginY: 20,
+    nodeSpacing: 40,
+    rankSpacing: 50,
+    padding: 20,
+    fontSize: 14,
+};
+
+/** Fixed sizes of pseudo-states */
+const PSEUDO_SIZES: Partial<Record<IRState['type'], Size>> = {
+    'start': { width: 24, height: 24 },
+    'end': { width: 26, height: 26 },
+    'history': { width: 28, height: 28 },
+    'deep-history': { width: 28, height: 28 },
+    'choice': { width: 36, height: 36 },
+};
+
+/** Dagre placement of one scope, relative to the scope origin */
+interface ScopeLayout {
+    width: number;
+    height: number;
+    positions: Map<string, Position>;
+    routes: Map<string, { points: Position[]; label: Position }>;
+}
+
+/** Lay out a state machine */
+export function layoutStateDiagram(stateDiagram: IRStateDiagram, options: StateLayoutOptions = {}): StateLayout {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const lineHeight = opts.fontSize * 1.3;
+    const textWidth = (text: string) => Math.max(0, ...text.split('\n').map(line => line.length)) * opts.fontSize * 0.6;
+    const direction = stateDiagram.direction ?? 'TB';
+    const horizontal = direction === 'LR' || direction === 'RL';
+
+    const parents = new Map<string, string>();
+    const byId = new Map<string, IRState>();
+    walkStates(stateDiagram.states, (state, parent) => {
+        byId.set(state.id, state);
+        if (parent) parents.set(state.id, parent.id);
+    });
+
+    // The child of `scope` that contains `id`, if any
+    const representative = (id: string, scope: string | undefined): string | undefined => {
+        const seen = new Set<string>();
+        for (let current: string | undefined = id; current && !seen.has(current); current = parents.get(current)) {
+            seen.add(current);
+            if (parents.get(current) === scope) return current;
+        }
+        return undefined;
+    };
+
+    const texts = new Map<string, { label: string; actions: string[] }>();
+    const textOf = (state: IRState) => {
+        let text = texts.get(state.id);
+        if (!text) {
+            text = {
+                label: state.description || state.label || state.id,
+                actions: (state.actions ?? []).map(a => `${a.type} / ${a.action}`),
+            };
+            texts.set(state.id, text);
+        }
+        return text;
+    };
+    const headerHeight = (state: IRState) => {
+        const { label, actions } = textOf(state);
+        return label.split('\n').length * lineHeight + 10 + (actions.length > 0 ? actions.length * lineHeight + 6 : 0);
+    };
+
+    const sizes = new Map<string, Size>();
+    const scopes = new Map<string | undefined, ScopeLayout>();
+
+    const layoutScope = (scopeId: string | undefined, children: IRState[]): ScopeLayout => {
+        for (const child of children) {
+            sizes.set(child.id, measureState(child));
+        }
+
+        const g = new dagre.graphlib.Graph({ multigraph: true });
+        g.setGraph({ rankdir: direction, nodesep: opts.nodeSpacing, ranksep: opts.rankSpacing, marginx: 0, marginy: 0 });
+        g.setDefaultEdgeLabel(() => ({}));
+        for (const child of children) {
+            g.setNode(child.id, { ...sizes.get(child.id)! });
+        }
+
+        const direct = new Set<string>();
+        for (const transition of stateDiagram.transitions) {
+            const source = representative(transition.source, scopeId);
+            const target = representative(transition.target, scopeId);
+            if (!source || !target || source === target) continue;
+
+            // Only transitions between the children themselves get a routed label
+            const isDirect = source === transition.source && target === transition.target;
+            const label = formatTransitionLabel(transition);
+            g.setEdge(source, target, isDirect && label
+                ? { width: textWidth(label) + 8, height: label.split('\n').length * lineHeight, labelpos: 'c' }
+                : {}, transition.id);
+            if (isDirect) direct.add(transition.id);
+        }
+
+        const layout: ScopeLayout = { width: 0, height: 0, positions: new Map(), routes: new Map() };
+        if (children.length === 0) {
+            scopes.set(scopeId, layout);
+            return layout;
+        }
+
+        dagre.layout(g);
+        for (const child of children) {
+            const node = g.node(child.id);
+            const size = sizes.get(child.id)!;
+            layout.positions.set(child.id, { x: node.x - size.width / 2, y: node.y - size.height / 2 });
+            layout.width = Math.max(layout.width, node.x + size.width / 2);
+            layout.height = Math.max(layout.height, node.y + size.height / 2);
+        }
+        for (const edge of g.edges()) {
+            if (!edge.name || !direct.has(edge.name)) continue;
+            const route = g.edge(edge);
+            if (!route?.points) continue;
+            const points = route.points.map((p: Position) => ({ x: p.x, y: p.y }));
+            const middle = points[Math.floor(points.length / 2)];
+            layout.routes.set(edge.name, {
+                points,
+                label: route.x !== undefined ? { x: route.x, y: route.y } : middle,
+            });
+            for (const p of points) {
+                layout.width = Math.max(layout.width, p.x);
+                layout.height = Math.max(layout.height, p.y);
+            }
+        }
+
+        scopes.set(scopeId, layout);
+        return layout;
+    };
+
+    const measureState = (state: IRState): Size => {
+        const { label, actions } = textOf(state);
+        if (state.children && state.children.length > 0) {
+            const inner = layoutScope(state.id, state.children);
+            return {
+                width: Math.max(inner.width, textWidth(label), ...actions.map(textWidth)) + opts.padding * 2,
+                height: headerHeight(state) + inner.height + opts.padding,
+            };
+        }
+        if (state.type === 'fork' || state.type === 'join') {
+            return horizontal ? { width: 8, height: 80 } : { width: 80, height: 8 };
+        }
+        const pseudo = PSEUDO_SIZES[state.type];
+        if (pseudo) {
+            return { ...pseudo };
+        }
+        const lines = label.split('\n').length + actions.length;
+        return {
+            width: Math.max(100, textWidth(label) + 24, ...actions.map(a => textWidth(a) + 24)),
+            height: lines * lineHeight + 16 + (actions.length > 0 ? 6 : 0),
+        };
+    };
+
+    layoutScope(undefined, stateDiagram.states);
+
+    // Place scopes recursively from the top level down
+    const titleHeight = stateDiagram.title ? opts.fontSize * 2.5 : 0;
+    const boxes: StateBox[] = [];
+    const boxById = new Map<string, StateBox>();
+    const routes = new Map<string, { points: Position[]; label: Position }>();
+
+    const place = (scopeId: string | undefined, originX: number, originY: number, depth: number) => {
+        const scope = scopes.get(scopeId)!;
+        for (const [id, position] of scope.positions) {
+            const state = byId.get(id)!;
+            const size = sizes.get(id)!;
+            const isComposite = !!state.children && state.children.length > 0;
+            const box: StateBox = {
+                state,
+                parent: scopeId,
+                depth,
+                x: originX + position.x,
+                y: originY + position.y,
+                width: size.width,
+                height: size.height,
+                ...textOf(state),
+                headerHeight: isComposite ? headerHeight(state) : 0,
+            };
+            boxes.push(box);
+            boxById.set(id, box);
+
+            if (isComposite) {
+                const inner = scopes.get(id)!;
+                place(id, box.x + (box.width - inner.width) / 2, box.y + box.headerHeight, depth + 1);
+            }
+        }
+        for (const [id, route] of scope.routes) {
+            routes.set(id, {
+                points: route.points.map(p => ({ x: originX + p.x, y: originY + p.y })),
+                label: { x: originX + route.label.x, y: originY + route.label.y },
+            });
+        }
+    };
+    place(undefined, opts.marginX, opts.marginY + titleHeight, 0);
+
+    const transitions: StateTransitionPath[] = [];
+    for (const transition of stateDiagram.transitions) {
+        const source = boxById.get(transition.source);
+        const target = boxById.get(transition.target);
+        if (!source || !target) continue;
+
+        const label = formatTransitionLabel(transition);
+        const route = routes.get(transition.id);
+        if (route) {
+            transitions.push({ transition, label, points: route.points, labelPosition: route.label });
+        } else if (source === target) {
+            // Self-transition loops out of the right side
+            const right = source.x + source.width;
+            const cy = source.y + source.height / 2;
+            transitions.push({
+                transition,
+                label,
+                points: [{ x: right, y: cy - 10 }, { x: right + 25, y: cy - 10 }, { x: right + 25, y: cy + 10 }, { x: right, y: cy + 10 }],
+                labelPosition: { x: right + 30 + textWidth(label) / 2, y: cy },
+            });
+        } else {
+            const start = clipToBox(source, centerOf(target));
+            const end = clipToBox(target, centerOf(source));
+            transitions.push({
+                transition,
+                label,
+                points: [start, end],
+                labelPosition: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+            });
+        }
+    }
+
+    const notes: StateNoteBox[] = [];
+    for (const note of stateDiagram.notes ?? []) {
+        const box = boxById.get(note.stateId);
+        if (!box) continue;
+        const width = Math.max(80, textWidth(note.text) + 16);
+        const height = note.text.split('\n').length * lineHeight + 12;
+        notes.push({
+            note,
+            x: note.position === 'left' ? box.x - width - 20 : box.x + box.width + 20,
+            y: box.y,
+            width,
+            height,
+        });
+    }
+
+    // Notes on the left may stick out
+    const minX = Math.min(opts.marginX, ...notes.map(n => n.x));
+    const shift = opts.marginX - minX;
+    if (shift > 0) {
+        for (const item of [...boxes, ...notes]) {
+            item.x += shift;
+        }
+        for (const path of transitions) {
+            path.points = path.points.map(p => ({ x: p.x + shift, y: p.y }));
+            path.labelPosition = { x: path.labelPosition.x + shift, y: path.labelPosition.y };
+        }
+    }
+
+    const maxX = Math.max(
+        opts.marginX,
+        ...boxes.map(b => b.x + b.width),
+        ...notes.map(n => n.x + n.width),
+        ...transitions.flatMap(t => t.points.map(p => p.x)),
+        ...transitions.map(t => t.labelPosition.x + textWidth(t.label) / 2)
+    );
+    const maxY = Math.max(
+        opts.marginY + titleHeight,
+        ...boxes.map(b => b.y + b.height),
+        ...notes.map(n => n.y + n.height),
+        ...transitions.flatMap(t => t.points.map(p => p.y))
+    );
+
+    return {
+        width: Math.ceil(maxX + opts.marginX),
+        height: Math.ceil(maxY + opts.marginY),
+        title: stateDiagram.title,
+        states: boxes,
+        transitions,
+        notes,
+    };
+}
+
+/** Centre of a box */
+function centerOf(box: StateBox): Position {
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/** Point where the ray from the box centre towards `toward` leaves the box */
+function clipToBox(box: StateBox, toward: Position): Position {
+    const center = centerOf(box);
+    const dx = toward.x - center.x;
+    const dy = toward.y - center.y;
+    if (dx === 0 && dy === 0) {
+        return center;
+    }
+    const scale = Math.min(
+        dx !== 0 ? box.width / 2 / Math.abs(dx) : Infinity,
+        dy !== 0 ? box.height / 2 / Math.abs(dy) : Infinity
+    );
+    // The other box lies inside this one (composite and its own child)
+    if (scale >= 1) {
+        return center;
+    }
+    return { x: center.x + dx * scale, y: center.y + dy * scale };
+}
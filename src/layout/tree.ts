@@ -0,0 +1,108 @@
+/**
+ * Tidy tree layout
+ *
+ * Places a spanning tree of the diagram level by level: leaves get
+ * consecutive slots, parents are centred above their children and
+ * subtrees never overlap. Graphs that are not trees are laid out
+ * along their breadth-first spanning forest.
+ */
+
+import type { Diagram, LayoutDirection, Position, Size } from '../types';
+import { applyNodePositions, buildSpanningForest, getDefaultNodeSize } from './layout-utils';
+
+/** Options consumed by the tree layout */
+export interface TreeLayoutOptions {
+    direction: LayoutDirection;
+    nodeSpacing: number;
+    rankSpacing: number;
+    marginX: number;
+    marginY: number;
+    rootId?: string;
+}
+
+/** Apply tidy tree layout to diagram */
+export function applyTreeLayout(diagram: Diagram, options: TreeLayoutOptions): Diagram {
+    const horizontal = options.direction === 'LR' || options.direction === 'RL';
+    const forest = buildSpanningForest(diagram.nodes, diagram.edges, options.rootId, true);
+
+    const sizes = new Map<string, Size>(
+        diagram.nodes.map(n => [n.id, n.size || getDefaultNodeSize(n.shape)])
+    );
+    // Extent across the levels (breadth) and along them (depth)
+    const breadthOf = (id: string) => horizontal ? sizes.get(id)!.height : sizes.get(id)!.width;
+    const depthOf = (id: string) => horizontal ? sizes.get(id)!.width : sizes.get(id)!.height;
+
+    const levels = new Map<string, number>();
+    const centers = new Map<string, number>();
+    let cursor = 0;
+
+    const shiftSubtree = (id: string, delta: number) => {
+        centers.set(id, centers.get(id)! + delta);
+        for (const child of forest.children.get(id) ?? []) {
+            shiftSubtree(child, delta);
+        }
+    };
+
+    // Post-order placement of a subtree starting at the cursor
+    const place = (id: string, level: number): void => {
+        levels.set(id, level);
+        const start = cursor;
+        const kids = forest.children.get(id) ?? [];
+        const breadth = breadthOf(id);
+
+        if (kids.length === 0) {
+            centers.set(id, cursor + breadth / 2);
+            cursor += breadth + options.nodeSpacing;
+            return;
+        }
+
+        for (const child of kids) {
+            place(child, level + 1);
+        }
+
+        const first = centers.get(kids[0])!;
+        const last = centers.get(kids[kids.length - 1])!;
+        let center = (first + last) / 2;
+
+        // A parent wider than its children must not cross the previous subtree
+        if (center - breadth / 2 < start) {
+            const delta = start - (center - breadth / 2);
+            for (const child of kids) shiftSubtree(child, delta);
+            center += delta;
+            cursor += delta;
+        }
+        centers.set(id, center);
+        cursor = Math.max(cursor, center + breadth / 2 + options.nodeSpacing);
+    };
+
+    for (const root of forest.roots) {
+        place(root, 0);
+    }
+
+    // Level offsets along the flow, each level as deep as its deepest node
+    const levelDepth: number[] = [];
+    for (const [id, level] of levels) {
+        levelDepth[level] = Math.max(levelDepth[level] ?? 0, depthOf(id));
+    }
+    const levelStart: number[] = [];
+    let offset = 0;
+    for (let level = 0; level < levelDepth.length; level++) {
+        levelStart[level] = offset;
+        offset += (levelDepth[level] ?? 0) + options.rankSpacing;
+    }
+
+    const reverse = options.direction === 'BT' || options.direction === 'RL';
+    const positions = new Map<string, Position>();
+    for (const [id, level] of levels) {
+        const across = centers.get(id)! - breadthOf(id) / 2;
+        // Centre each node within its level band
+        let along = levelStart[level] + (levelDepth[level] - depthOf(id)) / 2;
+        if (reverse) along = -along - depthOf(id);
+
+        positions.set(id, horizontal
+            ? { x: along, y: across }
+            : { x: across, y: along });
+    }
+
+    return applyNodePositions(diagram, positions, options.marginX, options.marginY);
+}
@@ -1,144 +1,434 @@
 /**
  * BPMN Parser
- * 
+ *
  * Parses BPMN 2.0 XML to IR
  * Business Process Model and Notation standard
+ *
+ * Supported elements:
+ * - collaborations: participants (pools, including black-box pools) and
+ *   message flows
+ * - processes with lane sets, nested lanes and sub-processes
+ * - tasks, call activities, events with their event definitions (boundary
+ *   events included), gateways, data object and data store references and
+ *   text annotations
+ * - sequence flows with conditions, associations and data associations
+ * - messages, errors, signals, escalations and data stores
+ * - BPMN DI: shape bounds, expanded sub-processes and edge waypoints
+ * - attributes of extension namespaces such as Camunda's on the definitions,
+ *   processes, elements and flows; `extensionElements` are dropped with a
+ *   warning
+ *
+ * Elements are matched by local name, so any namespace prefix works.
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape } from '../types';
+import type {
+    BpmnBounds,
+    BpmnElementType,
+    BpmnEventDefinition,
+    BpmnEventDefinitionType,
+    BpmnRootElement,
+    BpmnTimerType,
+    Diagram,
+    IRBpmnDiagram,
+    IRBpmnElement,
+    IRBpmnFlow,
+    IRBpmnLane,
+    IRBpmnPool,
+    IRBpmnProcess,
+    Position,
+} from '../types';
+import { isBpmnSubProcess } from '../types';
+import { embedBpmnData, generateId, walkLanes, parseXml } from '../utils';
+import type { XmlElement } from '../utils';
+import { ParseError } from '../errors';
 import { validateInput } from './base';
 
+/** Elements placed on a process */
+const ELEMENT_TYPES = new Set<BpmnElementType>([
+    'task', 'userTask', 'serviceTask', 'scriptTask', 'manualTask', 'businessRuleTask', 'sendTask', 'receiveTask',
+    'subProcess', 'transaction', 'adHocSubProcess', 'callActivity',
+    'startEvent', 'endEvent', 'intermediateCatchEvent', 'intermediateThrowEvent', 'boundaryEvent',
+    'exclusiveGateway', 'parallelGateway', 'inclusiveGateway', 'eventBasedGateway', 'complexGateway',
+    'dataObjectReference', 'dataStoreReference', 'textAnnotation',
+]);
+
+/** Root elements kept for event definitions and data stores */
+const ROOT_ELEMENTS = new Set<BpmnRootElement['type']>(['message', 'error', 'signal', 'escalation', 'dataStore']);
+
+const TIMER_TYPES: BpmnTimerType[] = ['timeDate', 'timeDuration', 'timeCycle'];
+
+/** Namespaces of the BPMN model and its diagram interchange; others are extensions */
+const STANDARD_NAMESPACES = new Set([
+    'http://www.omg.org/spec/BPMN/20100524/MODEL',
+    'http://www.omg.org/spec/BPMN/20100524/DI',
+    'http://www.omg.org/spec/DD/20100524/DC',
+    'http://www.omg.org/spec/DD/20100524/DI',
+    'http://www.w3.org/2001/XMLSchema-instance',
+]);
+
+/** Parser state shared across the document */
+interface ParseContext {
+    processes: IRBpmnProcess[];
+    pools: IRBpmnPool[];
+    elements: IRBpmnElement[];
+    flows: IRBpmnFlow[];
+    rootElements: BpmnRootElement[];
+    /** Lane sets by process */
+    lanes: Map<string, IRBpmnLane[]>;
+    /** Extension namespaces declared on the root, by prefix */
+    namespaces: Map<string, string>;
+    /** IDs of the elements whose extensionElements were dropped */
+    droppedExtensions: string[];
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
 /** Parse BPMN XML to IR */
 export function parseBpmn(xml: string): Diagram {
     validateInput(xml, 'bpmn');
 
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, 'text/xml');
+    return embedBpmnData(parseBpmnDiagram(xml));
+}
 
-    const nodes: DiagramNode[] = [];
-    const edges: DiagramEdge[] = [];
-    const groups: DiagramGroup[] = [];
+/** Parse BPMN XML to the BPMN model */
+export function parseBpmnDiagram(xml: string): IRBpmnDiagram {
+    const root = parseXml(xml, 'bpmn').documentElement;
+    if (root.localName !== 'definitions' && root.localName !== 'process') {
+        throw new ParseError(`Expected <definitions> root element, found <${root.localName}>`, 'bpmn');
+    }
 
-    // Parse process elements
-    const processes = doc.querySelectorAll('process, bpmn\\:process');
+    const namespaces = new Map<string, string>();
+    for (const name of root.getAttributeNames()) {
+        const uri = root.getAttribute(name)!;
+        if (name.startsWith('xmlns:') && !STANDARD_NAMESPACES.has(uri)) namespaces.set(name.slice(6), uri);
+    }
+    const context: ParseContext = {
+        processes: [], pools: [], elements: [], flows: [], rootElements: [], lanes: new Map(), namespaces, droppedExtensions: [],
+    };
+    let collaborationId: string | undefined;
 
-    processes.forEach(process => {
-        const processId = process.getAttribute('id') || 'process';
+    for (const child of root.localName === 'process' ? [root] : childElements(root)) {
+        const name = child.localName;
+        if (name === 'process') {
+            parseProcess(child, context);
+        } else if (name === 'collaboration') {
+            collaborationId = child.getAttribute('id') || undefined;
+            parseCollaboration(child, context);
+        } else if (ROOT_ELEMENTS.has(name as BpmnRootElement['type'])) {
+            context.rootElements.push(omitUndefined({
+                type: name as BpmnRootElement['type'],
+                id: child.getAttribute('id') || generateId(),
+                name: child.getAttribute('name') || undefined,
+                code: child.getAttribute('errorCode') || child.getAttribute('escalationCode') || undefined,
+            }));
+        }
+    }
 
-        // Parse tasks
-        const tasks = process.querySelectorAll('task, userTask, serviceTask, scriptTask, manualTask, businessRuleTask, sendTask, receiveTask, bpmn\\:task, bpmn\\:userTask, bpmn\\:serviceTask');
-        tasks.forEach(task => {
-            nodes.push(createBpmnNode(task, 'rectangle'));
-        });
+    // Pools take the lanes of their process; lanes of a process without a pool get one
+    for (const [processId, lanes] of context.lanes) {
+        const pool = context.pools.find(p => p.processId === processId);
+        if (pool) {
+            pool.lanes = lanes;
+        } else {
+            context.pools.push({ id: `Participant_${processId}`, processId, lanes });
+        }
+    }
 
-        // Parse events
-        const startEvents = process.querySelectorAll('startEvent, bpmn\\:startEvent');
-        startEvents.forEach(event => {
-            nodes.push(createBpmnNode(event, 'circle', 'start'));
-        });
+    // Annotations of a collaboration belong to the first process
+    for (const element of context.elements) {
+        element.processId ||= context.processes[0]?.id ?? 'Process_1';
+    }
 
-        const endEvents = process.querySelectorAll('endEvent, bpmn\\:endEvent');
-        endEvents.forEach(event => {
-            nodes.push(createBpmnNode(event, 'circle', 'end'));
-        });
+    applyDiagramInterchange(root, context);
+    const rootAttributes = root.localName === 'definitions' ? extensionAttributes(root, context) : undefined;
 
-        const intermediateEvents = process.querySelectorAll('intermediateCatchEvent, intermediateThrowEvent, bpmn\\:intermediateCatchEvent, bpmn\\:intermediateThrowEvent');
-        intermediateEvents.forEach(event => {
-            nodes.push(createBpmnNode(event, 'circle', 'intermediate'));
-        });
+    return omitUndefined({
+        id: root.getAttribute('id') || generateId(),
+        title: root.getAttribute('name') || undefined,
+        processes: context.processes,
+        pools: context.pools,
+        elements: context.elements,
+        flows: context.flows,
+        rootElements: context.rootElements.length > 0 ? context.rootElements : undefined,
+        metadata: omitUndefined({
+            source: 'bpmn',
+            targetNamespace: root.getAttribute('targetNamespace') || undefined,
+            collaborationId,
+            namespaces: namespaces.size > 0 ? Object.fromEntries(namespaces) : undefined,
+            extensionAttributes: rootAttributes,
+            warnings: context.droppedExtensions.length > 0
+                ? [`Dropped the extension elements of ${context.droppedExtensions.join(', ')}`]
+                : undefined,
+        }),
+    });
+}
 
-        // Parse gateways
-        const exclusiveGateways = process.querySelectorAll('exclusiveGateway, bpmn\\:exclusiveGateway');
-        exclusiveGateways.forEach(gw => {
-            nodes.push(createBpmnNode(gw, 'diamond', 'exclusive'));
-        });
+// =============================================================================
+// Element Parsers
+// =============================================================================
 
-        const parallelGateways = process.querySelectorAll('parallelGateway, bpmn\\:parallelGateway');
-        parallelGateways.forEach(gw => {
-            nodes.push(createBpmnNode(gw, 'diamond', 'parallel'));
-        });
+/** Parse a process: its lane set and flow elements */
+function parseProcess(process: XmlElement, context: ParseContext): void {
+    const id = process.getAttribute('id') || `Process_${context.processes.length + 1}`;
+    const executable = process.getAttribute('isExecutable');
+    context.processes.push(omitUndefined({
+        id,
+        name: process.getAttribute('name') || undefined,
+        isExecutable: executable ? executable === 'true' : undefined,
+        extensionAttributes: extensionAttributes(process, context),
+    }));
+
+    const laneSet = childElements(process).find(child => child.localName === 'laneSet');
+    if (laneSet) {
+        context.lanes.set(id, parseLaneSet(laneSet));
+    }
+    parseScope(process, id, undefined, context);
+}
 
-        const inclusiveGateways = process.querySelectorAll('inclusiveGateway, bpmn\\:inclusiveGateway');
-        inclusiveGateways.forEach(gw => {
-            nodes.push(createBpmnNode(gw, 'diamond', 'inclusive'));
+/** Parse the lanes of a lane set, with nested child lane sets */
+function parseLaneSet(laneSet: XmlElement): IRBpmnLane[] {
+    return childElements(laneSet)
+        .filter(child => child.localName === 'lane')
+        .map(lane => {
+            const childLaneSet = childElements(lane).find(child => child.localName === 'childLaneSet');
+            const lanes = childLaneSet ? parseLaneSet(childLaneSet) : [];
+            return omitUndefined({
+                id: lane.getAttribute('id') || generateId(),
+                name: lane.getAttribute('name') || undefined,
+                elements: childElements(lane)
+                    .filter(child => child.localName === 'flowNodeRef')
+                    .map(ref => ref.textContent?.trim() ?? '')
+                    .filter(Boolean),
+                lanes: lanes.length > 0 ? lanes : undefined,
+            });
         });
+}
+
+/** Parse participants, message flows and annotations of a collaboration */
+function parseCollaboration(collaboration: XmlElement, context: ParseContext): void {
+    for (const child of childElements(collaboration)) {
+        if (child.localName === 'participant') {
+            context.pools.push(omitUndefined({
+                id: child.getAttribute('id') || generateId(),
+                name: child.getAttribute('name') || undefined,
+                processId: child.getAttribute('processRef') || undefined,
+                lanes: [],
+            }));
+        } else if (child.localName === 'messageFlow') {
+            const flow = parseFlow(child, 'messageFlow', context);
+            if (flow) {
+                flow.messageRef = child.getAttribute('messageRef') || undefined;
+                context.flows.push(omitUndefined(flow));
+            }
+        }
+    }
+    parseScope(collaboration, '', undefined, context);
+}
+
+/** Parse the flow elements of a process or sub-process */
+function parseScope(container: XmlElement, processId: string, parent: string | undefined, context: ParseContext): void {
+    for (const child of childElements(container)) {
+        const name = child.localName;
+        if (ELEMENT_TYPES.has(name as BpmnElementType)) {
+            const element = parseElement(child, name as BpmnElementType, processId, parent, context);
+            context.elements.push(element);
+            if (isBpmnSubProcess(element.type)) {
+                parseScope(child, processId, element.id, context);
+            }
+        } else if (name === 'sequenceFlow' && processId) {
+            const flow = parseFlow(child, 'sequenceFlow', context);
+            const condition = childElements(child).find(c => c.localName === 'conditionExpression');
+            if (flow) {
+                flow.condition = condition?.textContent?.trim() || undefined;
+                context.flows.push(omitUndefined(flow));
+            }
+        } else if (name === 'association') {
+            const flow = parseFlow(child, 'association', context);
+            if (flow) context.flows.push(flow);
+        }
+    }
+}
+
+/** Parse a flow node, data reference or annotation with its data associations */
+function parseElement(
+    node: XmlElement,
+    type: BpmnElementType,
+    processId: string,
+    parent: string | undefined,
+    context: ParseContext
+): IRBpmnElement {
+    const id = node.getAttribute('id') || generateId();
+    const children = childElements(node);
+    const text = children.find(child => child.localName === 'text');
+    const eventDefinitions = children
+        .filter(child => child.localName.endsWith('EventDefinition'))
+        .map(parseEventDefinition);
+    const cancelActivity = node.getAttribute('cancelActivity');
 
-        // Parse sequence flows (edges)
-        const flows = process.querySelectorAll('sequenceFlow, bpmn\\:sequenceFlow');
-        flows.forEach(flow => {
-            const id = flow.getAttribute('id') || `flow-${edges.length}`;
-            const sourceRef = flow.getAttribute('sourceRef') || '';
-            const targetRef = flow.getAttribute('targetRef') || '';
-            const name = flow.getAttribute('name') || '';
-
-            if (sourceRef && targetRef) {
-                edges.push({
-                    id,
-                    type: 'edge',
-                    source: sourceRef,
-                    target: targetRef,
-                    label: name,
-                    arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' },
-                    style: {},
+    for (const association of children) {
+        const refs = (refName: string) => childElements(association)
+            .filter(child => child.localName === refName)
+            .map(child => child.textContent?.trim() ?? '')
+            .filter(Boolean);
+
+        // Input targets are placeholder properties of the activity itself
+        if (association.localName === 'dataInputAssociation') {
+            refs('sourceRef').forEach((source, i) => context.flows.push({
+                id: association.getAttribute('id') ? `${association.getAttribute('id')}${i > 0 ? `_${i}` : ''}` : generateId(),
+                type: 'dataInputAssociation',
+                source,
+                target: id,
+            }));
+        } else if (association.localName === 'dataOutputAssociation') {
+            refs('targetRef').forEach((target, i) => context.flows.push({
+                id: association.getAttribute('id') ? `${association.getAttribute('id')}${i > 0 ? `_${i}` : ''}` : generateId(),
+                type: 'dataOutputAssociation',
+                source: id,
+                target,
+            }));
+        }
+    }
+
+    return omitUndefined({
+        id,
+        type,
+        name: (type === 'textAnnotation' ? text?.textContent : node.getAttribute('name')) || undefined,
+        processId,
+        parent,
+        attachedTo: node.getAttribute('attachedToRef') || undefined,
+        cancelActivity: cancelActivity === 'false' ? false : undefined,
+        eventDefinitions: eventDefinitions.length > 0 ? eventDefinitions : undefined,
+        defaultFlow: node.getAttribute('default') || undefined,
+        triggeredByEvent: node.getAttribute('triggeredByEvent') === 'true' ? true : undefined,
+        calledElement: node.getAttribute('calledElement') || undefined,
+        itemRef: node.getAttribute('dataObjectRef') || node.getAttribute('dataStoreRef') || undefined,
+        extensionAttributes: extensionAttributes(node, context),
+    });
+}
+
+/** Parse a <...EventDefinition> element */
+function parseEventDefinition(definition: XmlElement): BpmnEventDefinition {
+    const type = definition.localName.replace(/EventDefinition$/, '') as BpmnEventDefinitionType;
+    const children = childElements(definition);
+    const timer = children.find(child => TIMER_TYPES.includes(child.localName as BpmnTimerType));
+    const condition = children.find(child => child.localName === 'condition');
+
+    return omitUndefined({
+        type,
+        id: definition.getAttribute('id') || undefined,
+        ref: definition.getAttribute(`${type}Ref`) || undefined,
+        timer: timer?.localName as BpmnTimerType | undefined,
+        expression: (timer ?? condition)?.textContent?.trim() || definition.getAttribute('name') || undefined,
+    });
+}
+
+/** Parse an element with sourceRef and targetRef attributes */
+function parseFlow(element: XmlElement, type: IRBpmnFlow['type'], context: ParseContext): IRBpmnFlow | undefined {
+    const source = element.getAttribute('sourceRef');
+    const target = element.getAttribute('targetRef');
+    if (!source || !target) {
+        return undefined;
+    }
+    return omitUndefined({
+        id: element.getAttribute('id') || generateId(),
+        type,
+        source,
+        target,
+        name: element.getAttribute('name') || undefined,
+        extensionAttributes: extensionAttributes(element, context),
+    });
+}
+
+/**
+ * Attributes of extension namespaces by qualified name
+ *
+ * Extension elements are not kept; their owners are listed in a warning.
+ */
+function extensionAttributes(node: XmlElement, context: ParseContext): Record<string, string> | undefined {
+    if (childElements(node).some(child => child.localName === 'extensionElements')) {
+        context.droppedExtensions.push(node.getAttribute('id') || node.localName);
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const name of node.getAttributeNames()) {
+        const colon = name.indexOf(':');
+        if (colon > 0 && context.namespaces.has(name.slice(0, colon))) attributes[name] = node.getAttribute(name)!;
+    }
+    return Object.keys(attributes).length > 0 ? attributes : undefined;
+}
+
+// =============================================================================
+// Diagram Interchange
+// =============================================================================
+
+/** Copy shape bounds and edge waypoints from every BPMNPlane */
+function applyDiagramInterchange(root: XmlElement, context: ParseContext): void {
+    const shapes = new Map<string, { bounds?: BpmnBounds; expanded?: boolean }>();
+    const edges = new Map<string, Position[]>();
+
+    const planes = childElements(root)
+        .filter(child => child.localName === 'BPMNDiagram')
+        .flatMap(diagram => childElements(diagram).filter(child => child.localName === 'BPMNPlane'));
+    for (const plane of planes) {
+        for (const child of childElements(plane)) {
+            const ref = child.getAttribute('bpmnElement');
+            if (!ref) continue;
+            if (child.localName === 'BPMNShape') {
+                const bounds = childElements(child).find(c => c.localName === 'Bounds');
+                const expanded = child.getAttribute('isExpanded');
+                shapes.set(ref, {
+                    bounds: bounds ? {
+                        x: number(bounds, 'x'),
+                        y: number(bounds, 'y'),
+                        width: number(bounds, 'width'),
+                        height: number(bounds, 'height'),
+                    } : undefined,
+                    expanded: expanded ? expanded === 'true' : undefined,
                 });
+            } else if (child.localName === 'BPMNEdge') {
+                edges.set(ref, childElements(child)
+                    .filter(c => c.localName === 'waypoint')
+                    .map(point => ({ x: number(point, 'x'), y: number(point, 'y') })));
             }
-        });
+        }
+    }
 
-        // Parse lanes as groups
-        const lanes = process.querySelectorAll('lane, bpmn\\:lane');
-        lanes.forEach(lane => {
-            const id = lane.getAttribute('id') || `lane-${groups.length}`;
-            const name = lane.getAttribute('name') || id;
-            const flowNodeRefs = lane.querySelectorAll('flowNodeRef, bpmn\\:flowNodeRef');
-            const children = Array.from(flowNodeRefs).map(ref => ref.textContent || '').filter(Boolean);
-
-            groups.push({
-                id,
-                type: 'group',
-                label: name,
-                children,
-                style: {},
-                metadata: { bpmnType: 'lane' },
-            });
+    for (const element of context.elements) {
+        const shape = shapes.get(element.id);
+        if (shape?.bounds) element.bounds = shape.bounds;
+        if (shape?.expanded !== undefined && isBpmnSubProcess(element.type)) element.expanded = shape.expanded;
+    }
+    for (const pool of context.pools) {
+        const bounds = shapes.get(pool.id)?.bounds;
+        if (bounds) pool.bounds = bounds;
+        walkLanes(pool.lanes, lane => {
+            const laneBounds = shapes.get(lane.id)?.bounds;
+            if (laneBounds) lane.bounds = laneBounds;
         });
+    }
+    for (const flow of context.flows) {
+        const waypoints = edges.get(flow.id);
+        if (waypoints && waypoints.length >= 2) flow.waypoints = waypoints;
+    }
+}
 
-        // Parse subprocesses as groups
-        const subprocesses = process.querySelectorAll('subProcess, bpmn\\:subProcess');
-        subprocesses.forEach(sp => {
-            const id = sp.getAttribute('id') || `subprocess-${groups.length}`;
-            const name = sp.getAttribute('name') || id;
-
-            groups.push({
-                id,
-                type: 'group',
-                label: name,
-                children: [],
-                style: {},
-                metadata: { bpmnType: 'subprocess' },
-            });
-        });
-    });
+// =============================================================================
+// Utility Functions
+// =============================================================================
 
-    return {
-        id: 'bpmn-diagram',
-        type: 'flowchart',
-        nodes,
-        edges,
-        groups,
-        metadata: { source: 'bpmn' },
-    };
+/** Child elements of an element */
+function childElements(element: XmlElement): XmlElement[] {
+    return element.children;
 }
 
-function createBpmnNode(element: Element, shape: NodeShape, subtype?: string): DiagramNode {
-    const id = element.getAttribute('id') || `node-${Date.now()}`;
-    const name = element.getAttribute('name') || id;
+/** Numeric attribute, 0 when missing */
+function number(element: XmlElement, name: string): number {
+    return parseFloat(element.getAttribute(name) ?? '') || 0;
+}
 
-    return {
-        id,
-        type: 'node',
-        label: name,
-        shape,
-        style: {},
-        metadata: { bpmnType: element.tagName, bpmnSubtype: subtype },
-    };
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
 }
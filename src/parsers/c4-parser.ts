@@ -0,0 +1,345 @@
+/**
+ * C4 Diagram Parser
+ *
+ * Parses Mermaid C4 diagrams (C4Context, C4Container, C4Component,
+ * C4Dynamic, C4Deployment) to IR. The macro grammar is shared with
+ * C4-PlantUML, which only differs in its header, comments and layout macros.
+ *
+ * Supported features:
+ * - Person, System, Container and Component with the _Ext, Db and Queue variants
+ * - Enterprise_Boundary, System_Boundary, Container_Boundary and Boundary blocks
+ * - Deployment_Node / Node (with _L and _R variants) blocks
+ * - Rel, BiRel, Rel_Back, directional Rel_U / Rel_D / Rel_L / Rel_R and RelIndex
+ * - $tags and $link named arguments
+ * - title
+ *
+ * Syntax example:
+ *   C4Container
+ *   title Internet Banking
+ *   Person(customer, "Customer", "A bank customer")
+ *   System_Boundary(bank, "Internet Banking") {
+ *     Container(web, "Web App", "Java", "Delivers the SPA")
+ *     ContainerDb(db, "Database", "PostgreSQL")
+ *   }
+ *   Rel(customer, web, "Uses", "HTTPS")
+ */
+
+import type { Diagram } from '../types';
+import type {
+    C4ElementKind,
+    C4LayoutDirection,
+    C4RelationshipDirection,
+    C4ViewType,
+    IRC4Diagram,
+    IRC4Element,
+    IRC4Group,
+    IRC4Relationship,
+} from '../types/c4';
+import { defaultC4Scope, embedC4Data, generateId } from '../utils';
+import { ParseError } from '../errors';
+import { validateInput } from './base';
+
+/** Macro call of a statement line */
+interface MacroCall {
+    name: string;
+    args: string[];
+    named: Record<string, string>;
+    opensBlock: boolean;
+}
+
+/** Dialect differences between Mermaid and C4-PlantUML */
+export interface C4MacroDialect {
+    format: 'mermaid' | 'plantuml';
+    /** Whole-line comment prefix */
+    comment: RegExp;
+    /** Lines carrying no model information */
+    ignored: RegExp;
+}
+
+const MERMAID_DIALECT: C4MacroDialect = {
+    format: 'mermaid',
+    comment: /^%%/,
+    ignored: /^(?:C4\w+|Update\w+\(|UpdateLayoutConfig|accTitle|accDescr)/,
+};
+
+/** Mermaid headers to view types */
+const HEADER_VIEWS: Record<string, C4ViewType> = {
+    c4context: 'systemContext',
+    c4container: 'container',
+    c4component: 'component',
+    c4dynamic: 'dynamic',
+    c4deployment: 'deployment',
+};
+
+/** Element macros by name without the _Ext suffix */
+const ELEMENT_MACROS: Record<string, { kind: C4ElementKind; variant?: 'database' | 'queue'; technology: boolean }> = {
+    Person: { kind: 'person', technology: false },
+    System: { kind: 'softwareSystem', technology: false },
+    SystemDb: { kind: 'softwareSystem', variant: 'database', technology: false },
+    SystemQueue: { kind: 'softwareSystem', variant: 'queue', technology: false },
+    Container: { kind: 'container', technology: true },
+    ContainerDb: { kind: 'container', variant: 'database', technology: true },
+    ContainerQueue: { kind: 'container', variant: 'queue', technology: true },
+    Component: { kind: 'component', technology: true },
+    ComponentDb: { kind: 'component', variant: 'database', technology: true },
+    ComponentQueue: { kind: 'component', variant: 'queue', technology: true },
+    Deployment_Node: { kind: 'deploymentNode', technology: true },
+    Deployment_Node_L: { kind: 'deploymentNode', technology: true },
+    Deployment_Node_R: { kind: 'deploymentNode', technology: true },
+    Node: { kind: 'deploymentNode', technology: true },
+    Node_L: { kind: 'deploymentNode', technology: true },
+    Node_R: { kind: 'deploymentNode', technology: true },
+};
+
+/** Boundary macros */
+const BOUNDARY_MACROS: Record<string, C4ElementKind | IRC4Group['kind']> = {
+    Enterprise_Boundary: 'enterprise',
+    System_Boundary: 'softwareSystem',
+    Container_Boundary: 'container',
+    Boundary: 'group',
+};
+
+/** Rel suffixes to layout directions */
+const REL_DIRECTIONS: Record<string, C4RelationshipDirection> = {
+    U: 'up', Up: 'up', D: 'down', Down: 'down', L: 'left', Left: 'left', R: 'right', Right: 'right',
+};
+
+const REL_PATTERN = /^(Bi)?Rel(Index)?(?:_(Back_Neighbor|Back|Neighbor|U|Up|D|Down|L|Left|R|Right))?$/;
+
+/** Parse Mermaid C4 diagram to IR */
+export function parseC4Diagram(source: string): Diagram {
+    validateInput(source, 'mermaid');
+
+    const lines = source.split('\n').map((text, index) => ({ text: text.trim(), number: index + 1 }));
+    const header = lines.find(line => line.text && !line.text.startsWith('%%'));
+    const viewType = HEADER_VIEWS[header?.text.split(/\s/)[0].toLowerCase() ?? ''] ?? 'systemContext';
+    return embedC4Data(parseC4Macros(lines, viewType, MERMAID_DIALECT));
+}
+
+/** Whether a Mermaid source is a C4 diagram */
+export function isC4Diagram(source: string): boolean {
+    return /^\s*C4(?:Context|Container|Component|Dynamic|Deployment)\b/m.test(source);
+}
+
+/** Parse C4 macro statements shared by Mermaid and C4-PlantUML to the C4 model */
+export function parseC4Macros(
+    lines: { text: string; number: number }[],
+    viewType: C4ViewType,
+    dialect: C4MacroDialect
+): IRC4Diagram {
+    const elements: IRC4Element[] = [];
+    const groups: IRC4Group[] = [];
+    const relationships: IRC4Relationship[] = [];
+    const ids = new Set<string>();
+    const stack: { id: string; element: boolean }[] = [];
+    let pendingBlock: { id: string; element: boolean } | undefined;
+    let title: string | undefined;
+    let direction: C4LayoutDirection | undefined;
+    let relationshipId = 0;
+
+    const parentElement = () => [...stack].reverse().find(entry => entry.element)?.id;
+    /** Group boundary directly around the statement */
+    const enclosingGroup = () => {
+        const top = stack[stack.length - 1];
+        return top && !top.element ? top.id : undefined;
+    };
+
+    for (const { text, number } of lines) {
+        if (!text || dialect.comment.test(text) || dialect.ignored.test(text)) continue;
+
+        if (text === '{' && pendingBlock) {
+            stack.push(pendingBlock);
+            pendingBlock = undefined;
+            continue;
+        }
+        pendingBlock = undefined;
+        if (/^}\s*$/.test(text)) {
+            stack.pop();
+            continue;
+        }
+
+        const titleMatch = text.match(/^title\s+(.+)$/i);
+        if (titleMatch) {
+            title = titleMatch[1].trim();
+            continue;
+        }
+
+        const call = parseMacroCall(text);
+        if (!call) continue;
+
+        if (/^LAYOUT_(?:LEFT_RIGHT|LANDSCAPE)$/.test(call.name)) {
+            direction = 'lr';
+            continue;
+        }
+        if (call.name === 'LAYOUT_TOP_DOWN') {
+            direction = 'tb';
+            continue;
+        }
+
+        const relMatch = call.name.match(REL_PATTERN);
+        if (relMatch) {
+            const [, bi, indexed, suffix] = relMatch;
+            const args = indexed ? call.args.slice(1) : call.args;
+            let [source, target] = args;
+            if (!source || !target) {
+                throw new ParseError(`${call.name} needs a source and a target`, dialect.format, number);
+            }
+            if (suffix?.startsWith('Back')) {
+                [source, target] = [target, source];
+            }
+            relationships.push(omitUndefined({
+                id: `edge-${relationshipId++}`,
+                source,
+                target,
+                description: args[2] || undefined,
+                technology: args[3] || call.named.techn || undefined,
+                tags: call.named.tags ? splitTags(call.named.tags) : undefined,
+                direction: suffix ? REL_DIRECTIONS[suffix] : undefined,
+                bidirectional: bi ? true : undefined,
+                order: indexed ? call.args[0] : viewType === 'dynamic' ? String(relationshipId) : undefined,
+                url: call.named.link,
+            }));
+            continue;
+        }
+
+        const boundary = BOUNDARY_MACROS[call.name];
+        if (boundary) {
+            const [id, name] = call.args;
+            if (!id) {
+                throw new ParseError(`${call.name} needs an alias`, dialect.format, number);
+            }
+            const entry = { id, element: boundary !== 'enterprise' && boundary !== 'group' };
+            if (entry.element) {
+                const element: IRC4Element = omitUndefined({
+                    id,
+                    kind: boundary as C4ElementKind,
+                    name: name ?? id,
+                    tags: call.named.tags ? splitTags(call.named.tags) : undefined,
+                    parent: parentElement(),
+                    group: enclosingGroup(),
+                    url: call.named.link,
+                });
+                elements.push(element);
+            } else {
+                groups.push(omitUndefined({
+                    id,
+                    name: name ?? id,
+                    kind: boundary as IRC4Group['kind'],
+                    parent: [...stack].reverse().find(e => !e.element)?.id,
+                    metadata: call.args[2] ? { boundaryType: call.args[2] } : undefined,
+                }));
+            }
+            ids.add(id);
+            if (call.opensBlock) stack.push(entry);
+            else pendingBlock = entry;
+            continue;
+        }
+
+        const external = call.name.endsWith('_Ext');
+        const macro = ELEMENT_MACROS[external ? call.name.slice(0, -4) : call.name];
+        if (macro) {
+            const [id, name, third, fourth] = call.args;
+            if (!id) {
+                throw new ParseError(`${call.name} needs an alias`, dialect.format, number);
+            }
+            elements.push(omitUndefined({
+                id,
+                kind: macro.kind,
+                name: name ?? id,
+                description: (macro.technology ? fourth : third) || call.named.descr || undefined,
+                technology: macro.technology ? third || call.named.techn || call.named.type || undefined : undefined,
+                tags: call.named.tags ? splitTags(call.named.tags) : undefined,
+                external: external || undefined,
+                variant: macro.variant,
+                parent: parentElement(),
+                group: enclosingGroup(),
+                url: call.named.link,
+            }));
+            ids.add(id);
+            const entry = { id, element: true };
+            if (call.opensBlock) stack.push(entry);
+            else pendingBlock = entry;
+        }
+    }
+
+    for (const relationship of relationships) {
+        for (const end of [relationship.source, relationship.target]) {
+            if (!ids.has(end)) {
+                throw new ParseError(`Relationship references unknown element "${end}"`, dialect.format);
+            }
+        }
+    }
+
+    const c4: IRC4Diagram = omitUndefined({
+        id: generateId(),
+        title,
+        elements,
+        groups,
+        relationships,
+        views: [],
+        metadata: { source: dialect.format },
+    });
+    const scope = defaultC4Scope(c4, viewType);
+    c4.views.push(omitUndefined({
+        type: viewType,
+        scope,
+        title,
+        include: ['*'],
+        exclude: [],
+        autoLayout: direction ? { direction } : undefined,
+    }));
+    return c4;
+}
+
+/** Split `Name(arg, "arg", $key="value") {` into its parts */
+function parseMacroCall(text: string): MacroCall | null {
+    const match = text.match(/^([A-Za-z_]\w*)\s*\((.*)\)\s*(\{)?\s*$/);
+    if (!match) return null;
+
+    const args: string[] = [];
+    const named: Record<string, string> = {};
+    for (const raw of splitArguments(match[2])) {
+        const namedMatch = raw.match(/^\$(\w+)\s*=\s*([\s\S]*)$/);
+        if (namedMatch) {
+            named[namedMatch[1]] = unquote(namedMatch[2]);
+        } else {
+            args.push(unquote(raw));
+        }
+    }
+    return { name: match[1], args, named, opensBlock: !!match[3] };
+}
+
+/** Split macro arguments on commas outside quotes */
+function splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (const char of text) {
+        if (char === '"') quoted = !quoted;
+        if (char === ',' && !quoted) {
+            args.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (current.trim() || args.length > 0) args.push(current.trim());
+    return args;
+}
+
+/** Strip quotes; C4-PlantUML writes line breaks as \n */
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    const inner = trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2 ? trimmed.slice(1, -1) : trimmed;
+    return inner.replace(/\\n/g, '\n');
+}
+
+/** Split a C4-PlantUML tag list (tags are joined with +) */
+function splitTags(value: string): string[] {
+    return value.split(/[+,]/).map(tag => tag.trim()).filter(Boolean);
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -0,0 +1,276 @@
+/**
+ * Mermaid Class Diagram Parser
+ *
+ * Parses Mermaid classDiagram syntax to IR
+ *
+ * Supported features:
+ * - Classes with attributes and methods (block or `Class : member` form)
+ * - Visibility markers (+ - # ~) and classifiers ($ *)
+ * - Generics (class Box~T~) and display labels (class A["Label"])
+ * - Annotations (<<interface>>, <<abstract>>, <<enumeration>>, <<service>>)
+ * - Namespaces (as groups)
+ * - All relationship types, two-way relations, cardinality and labels
+ * - Notes (note, note for Class)
+ *
+ * Syntax examples:
+ *   classDiagram
+ *     Animal <|-- Duck
+ *     Animal : +int age
+ *     class Duck {
+ *       +String beakColor
+ *       +swim()
+ *     }
+ *     Customer "1" --> "*" Ticket : buys
+ */
+
+import type { ArrowConfig, ArrowHeadType, ClassRelationType, Diagram, DiagramNode } from '../types';
+import { createEdge, createEmptyDiagram, createGroup, createNode, validateInput } from './base';
+
+// =============================================================================
+// Regex Patterns
+// =============================================================================
+
+/** Class name with optional generic: Name or Name~T~ */
+const CLASS_NAME = String.raw`([\w.]+)(?:~([^~]+)~)?`;
+
+/** Match class declaration: class Name~T~["Label"]:::css { } */
+const CLASS_PATTERN = new RegExp(
+    String.raw`^class\s+${CLASS_NAME}(?:\s*\["([^"]*)"\])?(?:\s*:::\s*\w+)?\s*(\{)?\s*(\})?$`
+);
+
+/** Match annotation line: <<interface>> Name, or <<interface>> inside a class body */
+const ANNOTATION_PATTERN = /^<<\s*([^>]+?)\s*>>\s*([\w.]+)?$/;
+
+/** Match member added outside a block: Name : +member */
+const MEMBER_PATTERN = /^([\w.]+)\s*:\s*(.+)$/;
+
+/** Match relationship: A "1" <|-- "many" B : label */
+const RELATION_PATTERN = new RegExp(
+    String.raw`^${CLASS_NAME}\s*(?:"([^"]*)"\s*)?` +
+    String.raw`((?:<\||\*|o|<|\(\))?(?:--|\.\.)(?:\|>|\*|o|>|\(\))?)` +
+    String.raw`\s*(?:"([^"]*)"\s*)?${CLASS_NAME}(?:\s*:\s*(.+))?$`
+);
+
+/** Match namespace start: namespace Name { */
+const NAMESPACE_PATTERN = /^namespace\s+([\w.]+)\s*\{$/;
+
+/** Match note: note "text" or note for Class "text" */
+const NOTE_PATTERN = /^note\s+(?:for\s+([\w.]+)\s+)?"([^"]*)"$/;
+
+/** Lines that only affect styling or interaction */
+const IGNORED_PATTERN = /^(?:style|classDef|cssClass|click|link|callback|accTitle|accDescr)\b/;
+
+/** Arrow end symbols to arrow heads (same convention as the PlantUML parser) */
+const ARROW_END_MAP: Record<string, ArrowHeadType> = {
+    '<|': 'diamond',
+    '|>': 'diamond',
+    '*': 'diamond-filled',
+    'o': 'circle',
+    '()': 'circle-filled',
+    '<': 'arrow',
+    '>': 'arrow',
+};
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse Mermaid classDiagram to IR */
+export function parseClassDiagram(source: string): Diagram {
+    validateInput(source, 'mermaid');
+
+    const diagram = createEmptyDiagram('class', 'mermaid-class');
+    const classes = new Map<string, DiagramNode>();
+    let currentClass: DiagramNode | null = null;
+    let currentNamespace: string | null = null;
+    let noteCount = 0;
+
+    const ensure = (id: string, generic?: string) =>
+        ensureClass(id, generic, classes, diagram, currentNamespace);
+
+    for (const rawLine of source.trim().split('\n')) {
+        const line = rawLine.trim();
+
+        // Skip empty lines, comments and the header
+        if (!line || line.startsWith('%%') || /^classDiagram\b/i.test(line)) {
+            continue;
+        }
+
+        // Class body
+        if (currentClass) {
+            if (line === '}') {
+                currentClass = null;
+                continue;
+            }
+            const annotation = line.match(ANNOTATION_PATTERN);
+            if (annotation) {
+                setAnnotation(currentClass, annotation[1]);
+            } else {
+                addMember(currentClass, line);
+            }
+            continue;
+        }
+
+        // Namespace end
+        if (line === '}' && currentNamespace) {
+            currentNamespace = null;
+            continue;
+        }
+
+        const directionMatch = line.match(/^direction\s+(TB|BT|LR|RL|TD)$/i);
+        if (directionMatch) {
+            const direction = directionMatch[1].toUpperCase();
+            diagram.metadata = { ...diagram.metadata!, direction: direction === 'TD' ? 'TB' : direction };
+            continue;
+        }
+
+        if (IGNORED_PATTERN.test(line)) {
+            continue;
+        }
+
+        const namespaceMatch = line.match(NAMESPACE_PATTERN);
+        if (namespaceMatch) {
+            currentNamespace = namespaceMatch[1];
+            if (!diagram.groups.some(g => g.id === currentNamespace)) {
+                diagram.groups.push(createGroup(currentNamespace, [], { label: currentNamespace }));
+            }
+            continue;
+        }
+
+        const classMatch = line.match(CLASS_PATTERN);
+        if (classMatch) {
+            const [, id, generic, label, open, close] = classMatch;
+            const node = ensure(id, generic);
+            if (label) {
+                node.label = label;
+            }
+            if (open && !close) {
+                currentClass = node;
+            }
+            continue;
+        }
+
+        const annotationMatch = line.match(ANNOTATION_PATTERN);
+        if (annotationMatch && annotationMatch[2]) {
+            setAnnotation(ensure(annotationMatch[2]), annotationMatch[1]);
+            continue;
+        }
+
+        const noteMatch = line.match(NOTE_PATTERN);
+        if (noteMatch) {
+            const [, attachTo, text] = noteMatch;
+            const note = createNode(`note_${noteCount++}`, text.replace(/\\n/g, '\n'), { shape: 'note' });
+            note.metadata = { isNote: true, attachTo };
+            diagram.nodes.push(note);
+            continue;
+        }
+
+        const relationMatch = line.match(RELATION_PATTERN);
+        if (relationMatch) {
+            const [, from, fromGeneric, sourceCardinality, arrow, targetCardinality, to, toGeneric, label] = relationMatch;
+            ensure(from, fromGeneric);
+            ensure(to, toGeneric);
+
+            const edge = createEdge(from, to, {
+                label: label?.trim(),
+                arrow: parseClassArrow(arrow),
+            });
+            edge.metadata = {
+                relationType: getRelationType(arrow),
+                ...(sourceCardinality !== undefined && { sourceCardinality }),
+                ...(targetCardinality !== undefined && { targetCardinality }),
+            };
+            diagram.edges.push(edge);
+            continue;
+        }
+
+        const memberMatch = line.match(MEMBER_PATTERN);
+        if (memberMatch) {
+            addMember(ensure(memberMatch[1]), memberMatch[2].trim());
+        }
+    }
+
+    return diagram;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Get existing class node or create a new one */
+function ensureClass(
+    id: string,
+    generic: string | undefined,
+    classes: Map<string, DiagramNode>,
+    diagram: Diagram,
+    namespace: string | null
+): DiagramNode {
+    let node = classes.get(id);
+    if (!node) {
+        node = createNode(id, id, { shape: 'rectangle' });
+        node.metadata = { classType: 'class', members: [], methods: [] };
+        classes.set(id, node);
+        diagram.nodes.push(node);
+
+        if (namespace) {
+            diagram.groups.find(g => g.id === namespace)?.children.push(id);
+        }
+    }
+
+    if (generic && !node.metadata!.generic) {
+        node.metadata!.generic = generic;
+        if (node.label === id) {
+            node.label = `${id}<${generic.replace(/~/g, '')}>`;
+        }
+    }
+    return node;
+}
+
+/** Apply an annotation such as <<interface>> */
+function setAnnotation(node: DiagramNode, annotation: string): void {
+    const lower = annotation.toLowerCase();
+    node.metadata!.stereotype = annotation;
+    if (lower === 'interface') {
+        node.metadata!.classType = 'interface';
+    } else if (lower === 'abstract') {
+        node.metadata!.classType = 'abstract';
+    } else if (lower === 'enumeration' || lower === 'enum') {
+        node.metadata!.classType = 'enum';
+    }
+}
+
+/** Add attribute or method line to class metadata */
+function addMember(node: DiagramNode, member: string): void {
+    const key = member.includes('(') ? 'methods' : 'members';
+    (node.metadata![key] as string[]).push(member);
+}
+
+/** Split relationship arrow into source end, line and target end */
+function splitArrow(arrow: string): { source: string; line: string; target: string } {
+    const match = arrow.match(/^(.*?)(--|\.\.)(.*)$/)!;
+    return { source: match[1], line: match[2], target: match[3] };
+}
+
+/** Map Mermaid relationship arrow to arrow configuration */
+function parseClassArrow(arrow: string): ArrowConfig {
+    const { source, line, target } = splitArrow(arrow);
+    return {
+        sourceType: ARROW_END_MAP[source] ?? 'none',
+        targetType: ARROW_END_MAP[target] ?? 'none',
+        lineType: line === '..' ? 'dashed' : 'solid',
+    };
+}
+
+/** Determine UML relationship kind from arrow */
+function getRelationType(arrow: string): ClassRelationType {
+    const { source, line, target } = splitArrow(arrow);
+    const ends = source + target;
+    const dashed = line === '..';
+
+    if (ends.includes('|')) return dashed ? 'realization' : 'inheritance';
+    if (ends.includes('*')) return 'composition';
+    if (ends.includes('()')) return 'lollipop';
+    if (ends.includes('o')) return 'aggregation';
+    if (ends.includes('<') || ends.includes('>')) return dashed ? 'dependency' : 'association';
+    return dashed ? 'dashed-link' : 'link';
+}
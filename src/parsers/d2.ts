@@ -4,142 +4,1009 @@
  * Parses D2 diagram language to IR
  * D2 is a modern diagram scripting language
  * https://d2lang.com/
+ *
+ * Supported features:
+ * - Keys: plain, quoted and dotted (`a.b.c -> x`), `_` for the parent
+ *   container, case-insensitive like D2 itself
+ * - Connections (->, <-, <->, --) and chains (a -> b -> c), edge
+ *   references ((a -> b)[0].style.stroke: red), null deletions
+ * - Containers (nested maps and dotted keys) as groups
+ * - shape, label, icon, near, tooltip, link, width, height, top, left
+ *   and direction; sql_table and class shapes with their columns/members
+ * - style.* mapped to NodeStyle / EdgeStyle / GroupStyle
+ * - Arrowheads (source-arrowhead / target-arrowhead) with shapes and labels
+ * - classes, vars with ${substitution}, markdown and code block labels
+ * - Imports (x: @file, ...@file) through the `imports` option
+ *
+ * Connections to containers are kept in `metadata.containerEdges` because
+ * IR edges connect nodes. Boards (layers, scenarios, steps) and globs are
+ * not evaluated.
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape } from '../types';
+import type { ArrowConfig, ArrowHeadType, Diagram, DiagramEdge, DiagramGroup, DiagramNode, EdgeStyle, GroupStyle, NodeShape, NodeStyle } from '../types';
+import { ParseError } from '../errors';
 import { validateInput } from './base';
 
-/** Parse D2 code to IR */
-export function parseD2(code: string): Diagram {
-    validateInput(code, 'd2');
+/** Options for parsing D2 */
+export interface D2ParseOptions {
+    /**
+     * Sources of imported files, by path as written (`@shared` or `@shared.d2`),
+     * or a resolver. Unresolved imports are listed in `metadata.unresolvedImports`
+     * and reported in `metadata.warnings`.
+     */
+    imports?: Record<string, string> | ((path: string) => string | undefined);
+}
 
-    const lines = code.split('\n');
-    const nodes = new Map<string, DiagramNode>();
-    const edges: DiagramEdge[] = [];
-    const groups: DiagramGroup[] = [];
+// =============================================================================
+// Syntax Tree
+// =============================================================================
 
-    let edgeId = 0;
-    const groupStack: string[] = [];
-    const nodeToGroup = new Map<string, string>();
-
-    for (const rawLine of lines) {
-        const line = rawLine.trim();
-        if (!line || line.startsWith('#')) continue;
-
-        // Check for group/container definition: name: { or name {
-        const groupMatch = line.match(/^(\w+)\s*:\s*\{?\s*$/) || line.match(/^(\w+)\s*\{\s*$/);
-        if (groupMatch && line.includes('{')) {
-            const groupId = groupMatch[1];
-            groups.push({
-                id: groupId,
-                type: 'group',
-                label: groupId,
-                children: [],
-                style: {},
-            });
-            groupStack.push(groupId);
-            continue;
-        }
-
-        // Check for closing brace
-        if (line === '}') {
-            groupStack.pop();
-            continue;
-        }
-
-        // Parse edge: a -> b or a -- b or a <-> b
-        const edgeMatch = line.match(/^([\w-]+)\s*(->|<->|--|<-)\s*([\w-]+)(?:\s*:\s*(.+))?$/);
-        if (edgeMatch) {
-            const [, sourceId, arrow, targetId, label] = edgeMatch;
-
-            // Ensure nodes exist
-            ensureNode(nodes, sourceId, groupStack, nodeToGroup);
-            ensureNode(nodes, targetId, groupStack, nodeToGroup);
-
-            edges.push({
-                id: `edge-${edgeId++}`,
-                type: 'edge',
-                source: sourceId,
-                target: targetId,
-                label: label?.trim(),
-                arrow: {
-                    sourceType: arrow === '<->' || arrow === '<-' ? 'arrow' : 'none',
-                    targetType: arrow === '->' || arrow === '<->' ? 'arrow' : 'none',
-                    lineType: arrow === '--' ? 'dashed' : 'solid',
-                },
-                style: {},
-            });
-            continue;
+type D2Scalar =
+    | { kind: 'string'; text: string; quote: 'none' | 'double' | 'single' }
+    | { kind: 'block'; text: string; tag: string }
+    | { kind: 'array'; items: D2Scalar[] }
+    | { kind: 'import'; path: string }
+    | { kind: 'null' };
+
+type D2Statement =
+    | { kind: 'field'; line: number; path: string[]; value?: D2Scalar; map?: D2Statement[] }
+    | { kind: 'edge'; line: number; chain: string[][]; ops: string[]; value?: D2Scalar; map?: D2Statement[] }
+    | {
+        kind: 'edge-ref'; line: number; chain: string[][]; ops: string[];
+        index: number | '*'; path: string[]; value?: D2Scalar; map?: D2Statement[];
+    }
+    | { kind: 'spread'; line: number; path: string };
+
+/** Keys that configure their parent instead of declaring an object */
+const ATTRIBUTE_KEYWORDS = new Set([
+    'label', 'shape', 'style', 'icon', 'near', 'tooltip', 'link', 'width', 'height', 'top', 'left',
+    'direction', 'class', 'constraint', 'source-arrowhead', 'target-arrowhead', 'grid-rows',
+    'grid-columns', 'grid-gap', 'vertical-gap', 'horizontal-gap', 'filled',
+]);
+
+/** Keys holding definitions or other boards */
+const SCOPE_KEYWORDS = new Set(['vars', 'classes']);
+const BOARD_KEYWORDS = new Set(['layers', 'scenarios', 'steps']);
+
+const isReserved = (key: string) => ATTRIBUTE_KEYWORDS.has(key) || SCOPE_KEYWORDS.has(key) || BOARD_KEYWORDS.has(key);
+
+// =============================================================================
+// Reader
+// =============================================================================
+
+/** Read D2 source into statements */
+function readD2(source: string): D2Statement[] {
+    let pos = 0;
+    const lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+        if (source[i] === '\n') lineStarts.push(i + 1);
+    }
+    const lineOf = (index: number) => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (lineStarts[mid] <= index) low = mid; else high = mid - 1;
+        }
+        return low + 1;
+    };
+    const fail = (message: string): never => {
+        throw new ParseError(message, 'd2', lineOf(pos));
+    };
+    const peek = (offset = 0) => source[pos + offset];
+    const atBoundary = () => pos === 0 || /\s/.test(source[pos - 1]);
+
+    const skipComment = () => {
+        while (pos < source.length && source[pos] !== '\n') pos++;
+    };
+
+    /** Spaces, line continuations and comments on the current line */
+    const skipInline = () => {
+        while (pos < source.length) {
+            const char = source[pos];
+            if (char === ' ' || char === '\t' || char === '\r') {
+                pos++;
+            } else if (char === '\\' && (peek(1) === '\n' || (peek(1) === '\r' && peek(2) === '\n'))) {
+                pos += peek(1) === '\n' ? 2 : 3;
+            } else if (char === '#' && atBoundary()) {
+                skipComment();
+            } else {
+                break;
+            }
+        }
+    };
+
+    /** Whitespace, separators and comments between statements */
+    const skipBlank = () => {
+        for (;;) {
+            skipInline();
+            if (source.startsWith('"""', pos)) {
+                const end = source.indexOf('"""', pos + 3);
+                if (end < 0) fail('Unterminated block comment');
+                pos = end + 3;
+            } else if (peek() === '\n' || peek() === ';') {
+                pos++;
+            } else {
+                return;
+            }
+        }
+    };
+
+    const isEdgeOp = () => (peek() === '<' && peek(1) === '-') || (peek() === '-' && (peek(1) === '-' || peek(1) === '>'));
+
+    const readOp = (): string => {
+        const match = /<?-+>?/y;
+        match.lastIndex = pos;
+        const op = match.exec(source)![0];
+        pos += op.length;
+        return op;
+    };
+
+    const readQuoted = (): { text: string; quote: 'double' | 'single' } => {
+        const quote = source[pos];
+        let text = '';
+        pos++;
+        while (pos < source.length && source[pos] !== quote) {
+            if (source[pos] === '\n') fail('Unterminated string');
+            if (source[pos] === '\\' && pos + 1 < source.length) {
+                const next = source[pos + 1];
+                text += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+                pos += 2;
+                continue;
+            }
+            text += source[pos++];
+        }
+        if (pos >= source.length) fail('Unterminated string');
+        pos++;
+        return { text, quote: quote === '"' ? 'double' : 'single' };
+    };
+
+    const readKey = (): string => {
+        skipInline();
+        if (peek() === '"' || peek() === "'") {
+            return readQuoted().text;
+        }
+        const start = pos;
+        // Parentheses belong to the key (class methods) unless closing an edge reference
+        let depth = 0;
+        while (pos < source.length) {
+            const char = source[pos];
+            if ((char === ')' && depth === 0) || '.:;{}[]\n'.includes(char) || isEdgeOp() || (char === '#' && atBoundary())) break;
+            if (char === '(') depth++;
+            if (char === ')') depth--;
+            pos++;
+        }
+        const key = source.slice(start, pos).trim();
+        if (!key) fail(pos < source.length ? `Unexpected "${peek()}"` : 'Unexpected end of input');
+        return key;
+    };
+
+    const readKeyPath = (): string[] => {
+        const path = [readKey()];
+        while (peek() === '.') {
+            pos++;
+            path.push(readKey());
+        }
+        return path;
+    };
+
+    const readChain = (first: string[]): { chain: string[][]; ops: string[] } => {
+        const chain = [first];
+        const ops: string[] = [];
+        skipInline();
+        while (isEdgeOp()) {
+            ops.push(readOp());
+            chain.push(readKeyPath());
+            skipInline();
+        }
+        return { chain, ops };
+    };
+
+    const readUnquoted = (stop: string): string => {
+        const start = pos;
+        while (pos < source.length && !stop.includes(source[pos]) && !(source[pos] === '#' && atBoundary())) {
+            // ${var} substitutions contain braces
+            const close = source[pos] === '$' && peek(1) === '{' ? source.indexOf('}', pos) : -1;
+            pos = close > 0 && !source.slice(pos, close).includes('\n') ? close + 1 : pos + 1;
+        }
+        return source.slice(start, pos).trim();
+    };
+
+    const readBlock = (): D2Scalar => {
+        let pipes = '';
+        while (peek() === '|') pipes += source[pos++];
+        const tag = readUnquoted(' \t\r\n|');
+        const end = source.indexOf(pipes, pos);
+        if (end < 0) fail('Unterminated block string');
+        const text = dedent(source.slice(pos, end));
+        pos = end + pipes.length;
+        return { kind: 'block', text, tag };
+    };
+
+    const readValue = (): D2Scalar => {
+        const char = peek();
+        if (char === '"' || char === "'") {
+            return { kind: 'string', ...readQuoted() };
+        }
+        if (char === '|') {
+            return readBlock();
+        }
+        if (char === '@') {
+            pos++;
+            return { kind: 'import', path: peek() === '"' || peek() === "'" ? readQuoted().text : readUnquoted(' \t\r\n;{}') };
+        }
+        if (char === '[') {
+            pos++;
+            const items: D2Scalar[] = [];
+            for (;;) {
+                skipBlank();
+                if (peek() === ',') { pos++; continue; }
+                if (peek() === ']') { pos++; return { kind: 'array', items }; }
+                if (pos >= source.length) fail('Unterminated array');
+                items.push(peek() === '"' || peek() === "'"
+                    ? { kind: 'string', ...readQuoted() }
+                    : { kind: 'string', text: readUnquoted(';,]\n'), quote: 'none' });
+            }
         }
+        const text = readUnquoted(';{}\n');
+        return text === 'null' ? { kind: 'null' } : { kind: 'string', text, quote: 'none' };
+    };
 
-        // Parse node definition: name: label or name: { shape: ... }
-        const nodeMatch = line.match(/^([\w-]+)\s*:\s*(.+)$/);
-        if (nodeMatch) {
-            const [, id, value] = nodeMatch;
-            const shape = detectD2Shape(value);
-            const label = value.replace(/\{.*\}/, '').trim();
+    /** Optional `: value` and `{ map }` after a key or connection */
+    const readBody = (): { value?: D2Scalar; map?: D2Statement[] } => {
+        let value: D2Scalar | undefined;
+        let map: D2Statement[] | undefined;
+        skipInline();
+        if (peek() === ':') {
+            pos++;
+            skipInline();
+            if (peek() !== '{') value = readValue();
+            skipInline();
+        }
+        if (peek() === '{') {
+            pos++;
+            map = readMap(true);
+        }
+        return { value, map };
+    };
 
-            const node = ensureNode(nodes, id, groupStack, nodeToGroup);
-            node.label = label || id;
-            node.shape = shape;
-            continue;
+    const readStatement = (): D2Statement | undefined => {
+        const line = lineOf(pos);
+        if (source.startsWith('...', pos)) {
+            pos += 3;
+            skipInline();
+            if (peek() === '@') {
+                pos++;
+                const path = peek() === '"' || peek() === "'" ? readQuoted().text : readUnquoted(' \t\r\n;{}');
+                return { kind: 'spread', line, path };
+            }
+            // Variable spreads (...${x}) are not evaluated
+            readUnquoted(';}\n');
+            return undefined;
+        }
+        if (peek() === '(') {
+            pos++;
+            const { chain, ops } = readChain(readKeyPath());
+            if (peek() !== ')') fail('Expected ")"');
+            pos++;
+            let index: number | '*' = 0;
+            if (peek() === '[') {
+                pos++;
+                const raw = readUnquoted(']\n');
+                if (peek() !== ']') fail('Expected "]"');
+                pos++;
+                index = raw === '*' ? '*' : Number(raw);
+                if (index !== '*' && !Number.isInteger(index)) fail(`Invalid edge index "${raw}"`);
+            }
+            let path: string[] = [];
+            if (peek() === '.') {
+                pos++;
+                path = readKeyPath();
+            }
+            return { kind: 'edge-ref', line, chain, ops, index, path, ...readBody() };
+        }
+        const first = readKeyPath();
+        skipInline();
+        if (isEdgeOp()) {
+            const { chain, ops } = readChain(first);
+            return { kind: 'edge', line, chain, ops, ...readBody() };
         }
+        return { kind: 'field', line, path: first, ...readBody() };
+    };
 
-        // Simple node reference
-        const simpleNode = line.match(/^([\w-]+)$/);
-        if (simpleNode) {
-            ensureNode(nodes, simpleNode[1], groupStack, nodeToGroup);
+    const readMap = (nested: boolean): D2Statement[] => {
+        const statements: D2Statement[] = [];
+        for (;;) {
+            skipBlank();
+            if (pos >= source.length) {
+                if (nested) fail('Missing closing "}"');
+                return statements;
+            }
+            if (peek() === '}') {
+                if (!nested) fail('Unexpected "}"');
+                pos++;
+                return statements;
+            }
+            const statement = readStatement();
+            if (statement) statements.push(statement);
+            skipInline();
+            if (pos < source.length && !'\n;}'.includes(peek())) fail(`Unexpected "${peek()}"`);
         }
+    };
+
+    return readMap(false);
+}
+
+/** Remove the common indentation of a block string */
+function dedent(text: string): string {
+    const lines = text.replace(/^[ \t]*\r?\n/, '').replace(/\s+$/, '').split('\n');
+    const indent = Math.min(...lines.filter(line => line.trim()).map(line => line.match(/^[ \t]*/)![0].length));
+    return lines.map(line => line.slice(Number.isFinite(indent) ? indent : 0)).join('\n');
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+interface D2Field {
+    key: string;
+    value?: D2Scalar;
+    map?: D2Map;
+    line: number;
+}
+
+interface D2Map {
+    /** Fields by lower-cased key, in declaration order */
+    fields: Map<string, D2Field>;
+    parent?: D2Map;
+    /** Lower-cased path of the object owning this map */
+    path: string[];
+}
+
+interface D2Connection {
+    source: string[];
+    target: string[];
+    op: string;
+    value?: D2Scalar;
+    map: D2Map;
+    line: number;
+}
+
+interface D2Context {
+    root: D2Map;
+    connections: D2Connection[];
+    options: D2ParseOptions;
+    importing: string[];
+    unresolved: string[];
+    boards: string[];
+    warnings: string[];
+}
+
+const newMap = (parent: D2Map | undefined, path: string[]): D2Map => ({ fields: new Map(), parent, path });
+
+/** Field at a key path below a map, created on the way */
+function ensureField(map: D2Map, keys: string[], line: number): D2Field {
+    let current = map;
+    let field: D2Field | undefined;
+    keys.forEach((key, index) => {
+        const lower = key.toLowerCase();
+        field = current.fields.get(lower);
+        if (!field) {
+            field = { key, line };
+            current.fields.set(lower, field);
+        }
+        if (index < keys.length - 1) {
+            field.map ??= newMap(current, [...current.path, lower]);
+            current = field.map;
+        }
+    });
+    return field!;
+}
+
+/** Scope a key path is relative to, after leading `_` parent references */
+function resolveScope(scope: D2Map, path: string[], line: number): { scope: D2Map; keys: string[] } {
+    let current = scope;
+    let index = 0;
+    while (path[index] === '_') {
+        if (!current.parent) throw new ParseError('"_" used outside of a container', 'd2', line);
+        current = current.parent;
+        index++;
     }
+    return { scope: current, keys: path.slice(index) };
+}
+
+const samePath = (a: string[], b: string[]) => a.length === b.length && a.every((key, i) => key === b[i]);
+const startsWithPath = (path: string[], prefix: string[]) => prefix.every((key, i) => path[i] === key);
+const isGlob = (keys: string[]) => keys.some(key => key.includes('*'));
+const direction = (op: string) => `${op.startsWith('<') ? '<' : ''}${op.endsWith('>') ? '>' : ''}`;
 
-    // Assign nodes to groups
-    for (const [nodeId, groupId] of nodeToGroup) {
-        const group = groups.find(g => g.id === groupId);
-        if (group) {
-            group.children.push(nodeId);
+function applyStatements(statements: D2Statement[], scope: D2Map, context: D2Context): void {
+    for (const statement of statements) {
+        switch (statement.kind) {
+            case 'field':
+                applyField(statement, scope, context);
+                break;
+            case 'edge':
+                applyEdge(statement, scope, context);
+                break;
+            case 'edge-ref':
+                applyEdgeReference(statement, scope, context);
+                break;
+            case 'spread': {
+                const imported = loadImport(statement.path, statement.line, context);
+                if (imported) applyImport(imported, statement.path, scope, context);
+                break;
+            }
         }
     }
+}
+
+function applyField(
+    statement: Extract<D2Statement, { kind: 'field' }>,
+    scope: D2Map,
+    context: D2Context
+): void {
+    const { scope: base, keys } = resolveScope(scope, statement.path, statement.line);
+    if (keys.length === 0) return;
+    if (isGlob(keys)) return;
+    const lowered = keys.map(key => key.toLowerCase());
+    const board = lowered.find(key => BOARD_KEYWORDS.has(key));
+    if (board) {
+        if (!context.boards.includes(board)) context.boards.push(board);
+        return;
+    }
+
+    if (statement.value?.kind === 'null') {
+        const parent = keys.length > 1 ? ensureField(base, keys.slice(0, -1), statement.line).map : base;
+        parent?.fields.delete(lowered[lowered.length - 1]);
+        const path = [...base.path, ...lowered];
+        context.connections = context.connections.filter(conn =>
+            !startsWithPath(conn.source, path) && !startsWithPath(conn.target, path));
+        return;
+    }
+
+    const field = ensureField(base, keys, statement.line);
+    const owner = keys.length > 1 ? ensureField(base, keys.slice(0, -1), statement.line).map! : base;
+    if (statement.value?.kind === 'import') {
+        const imported = loadImport(statement.value.path, statement.line, context);
+        field.map ??= newMap(owner, [...owner.path, lowered[lowered.length - 1]]);
+        if (imported) applyImport(imported, statement.value.path, field.map, context);
+    } else if (statement.value) {
+        field.value = statement.value;
+    }
+    if (statement.map) {
+        field.map ??= newMap(owner, [...owner.path, lowered[lowered.length - 1]]);
+        applyStatements(statement.map, field.map, context);
+    }
+}
+
+function applyEdge(
+    statement: Extract<D2Statement, { kind: 'edge' }>,
+    scope: D2Map,
+    context: D2Context
+): void {
+    if (statement.chain.some(isGlob)) return;
+    const endpoints = statement.chain.map(path => {
+        const { scope: base, keys } = resolveScope(scope, path, statement.line);
+        ensureField(base, keys, statement.line);
+        return [...base.path, ...keys.map(key => key.toLowerCase())];
+    });
+    for (let i = 0; i < statement.ops.length; i++) {
+        const connection: D2Connection = {
+            source: endpoints[i],
+            target: endpoints[i + 1],
+            op: statement.ops[i],
+            value: statement.value?.kind === 'null' ? undefined : statement.value,
+            map: newMap(scope, scope.path),
+            line: statement.line,
+        };
+        context.connections.push(connection);
+        if (statement.map) applyStatements(statement.map, connection.map, context);
+    }
+}
 
+function applyEdgeReference(
+    statement: Extract<D2Statement, { kind: 'edge-ref' }>,
+    scope: D2Map,
+    context: D2Context
+): void {
+    const endpoints = statement.chain.map(path => {
+        const { scope: base, keys } = resolveScope(scope, path, statement.line);
+        return [...base.path, ...keys.map(key => key.toLowerCase())];
+    });
+    for (let i = 0; i < statement.ops.length; i++) {
+        const matches = context.connections.filter(conn =>
+            samePath(conn.source, endpoints[i])
+            && samePath(conn.target, endpoints[i + 1])
+            && direction(conn.op) === direction(statement.ops[i]));
+        const selected = statement.index === '*' ? matches : matches.slice(statement.index, statement.index + 1);
+        if (selected.length === 0) {
+            throw new ParseError(`Connection not found: (${statement.chain[i].join('.')} ${statement.ops[i]} ${statement.chain[i + 1].join('.')})[${statement.index}]`, 'd2', statement.line);
+        }
+
+        for (const connection of selected) {
+            if (statement.path.length === 0) {
+                if (statement.value?.kind === 'null') {
+                    context.connections = context.connections.filter(conn => conn !== connection);
+                    continue;
+                }
+                if (statement.value) connection.value = statement.value;
+                if (statement.map) applyStatements(statement.map, connection.map, context);
+            } else {
+                applyField({ kind: 'field', line: statement.line, path: statement.path, value: statement.value, map: statement.map }, connection.map, context);
+            }
+        }
+    }
+}
+
+function loadImport(path: string, line: number, context: D2Context): D2Statement[] | undefined {
+    const { imports } = context.options;
+    const candidates = [path, path.replace(/\.d2$/, ''), `${path.replace(/\.d2$/, '')}.d2`, path.replace(/^\.\//, '')];
+    let text: string | undefined;
+    for (const candidate of candidates) {
+        text = typeof imports === 'function' ? imports(candidate) : imports?.[candidate];
+        if (text !== undefined) break;
+    }
+    if (text === undefined) {
+        if (!context.unresolved.includes(path)) context.unresolved.push(path);
+        context.warnings.push(`Dropped the unresolved import @${path} on line ${line}`);
+        return undefined;
+    }
+    if (context.importing.includes(path)) {
+        throw new ParseError(`Import cycle: ${[...context.importing, path].join(' -> ')}`, 'd2', line);
+    }
+    return readD2(text);
+}
+
+function applyImport(statements: D2Statement[], path: string, scope: D2Map, context: D2Context): void {
+    context.importing.push(path);
+    try {
+        applyStatements(statements, scope, context);
+    } finally {
+        context.importing.pop();
+    }
+}
+
+// =============================================================================
+// Attributes
+// =============================================================================
+
+interface D2Attribute {
+    value: D2Scalar;
+    scope: D2Map;
+}
+
+/** Attributes of an object or connection: its classes first, then its own fields */
+function readAttributes(map: D2Map | undefined, value: D2Scalar | undefined, scope: D2Map, root: D2Map): Map<string, D2Attribute> {
+    const own = new Map<string, D2Attribute>();
+    if (map) flattenAttributes(map, '', own);
+
+    const attributes = new Map<string, D2Attribute>();
+    const classes = root.fields.get('classes')?.map;
+    const classAttribute = own.get('class');
+    const classNames = classAttribute ? scalarList(classAttribute.value) : [];
+    for (const name of classNames) {
+        const definition = classes?.fields.get(name.toLowerCase());
+        if (!definition) continue;
+        if (definition.value && definition.value.kind !== 'null') {
+            attributes.set('label', { value: definition.value, scope: classes! });
+        }
+        if (definition.map) flattenAttributes(definition.map, '', attributes);
+    }
+    for (const [key, attribute] of own) attributes.set(key, attribute);
+    if (value && value.kind !== 'null' && value.kind !== 'import') {
+        attributes.set('label', { value, scope });
+    }
+    return attributes;
+}
+
+function flattenAttributes(map: D2Map, prefix: string, into: Map<string, D2Attribute>): void {
+    for (const [key, field] of map.fields) {
+        if (!prefix && !ATTRIBUTE_KEYWORDS.has(key)) continue;
+        const name = prefix + key;
+        if (field.value) into.set(name, { value: field.value, scope: map });
+        if (field.map) flattenAttributes(field.map, `${name}.`, into);
+    }
+}
+
+/** Text of a value with ${vars} substituted (not in single-quoted strings) */
+function scalarText(value: D2Scalar, scope: D2Map): string {
+    switch (value.kind) {
+        case 'string':
+            return value.quote === 'single'
+                ? value.text
+                : value.text.replace(/\$\{([^}]+)\}/g, (match, name: string) => lookupVariable(scope, name.trim()) ?? match);
+        case 'block':
+            return value.text;
+        case 'array':
+            return value.items.map(item => scalarText(item, scope)).join('; ');
+        case 'import':
+            return value.path;
+        default:
+            return '';
+    }
+}
+
+function scalarList(value: D2Scalar): string[] {
+    if (value.kind === 'array') return value.items.flatMap(scalarList);
+    return value.kind === 'string' ? [value.text] : [];
+}
+
+/** Variable from the nearest `vars` block up the scope chain */
+function lookupVariable(scope: D2Map, name: string): string | undefined {
+    const keys = name.split('.').map(key => key.toLowerCase());
+    for (let current: D2Map | undefined = scope; current; current = current.parent) {
+        let field = current.fields.get('vars');
+        for (const key of keys) {
+            field = field?.map?.fields.get(key);
+        }
+        if (field?.value) return scalarText(field.value, current);
+    }
+    return undefined;
+}
+
+// =============================================================================
+// IR Conversion
+// =============================================================================
+
+/** D2 shapes to IR shapes; shapes without an exact match keep the D2 name in metadata */
+const SHAPE_MAP: Record<string, NodeShape> = {
+    rectangle: 'rectangle',
+    square: 'rectangle',
+    circle: 'circle',
+    oval: 'ellipse',
+    diamond: 'diamond',
+    hexagon: 'hexagon',
+    parallelogram: 'parallelogram',
+    cylinder: 'cylinder',
+    queue: 'cylinder',
+    stored_data: 'cylinder',
+    document: 'document',
+    page: 'document',
+    cloud: 'cloud',
+    person: 'actor',
+    callout: 'note',
+    text: 'custom',
+    code: 'custom',
+    image: 'custom',
+    package: 'rectangle',
+    step: 'parallelogram',
+    sql_table: 'rectangle',
+    class: 'rectangle',
+};
+
+const EXACT_SHAPES = new Set(['rectangle', 'circle', 'oval', 'diamond', 'hexagon', 'parallelogram', 'cylinder', 'document', 'cloud', 'person']);
+
+const DIRECTIONS: Record<string, string> = { down: 'TB', up: 'BT', right: 'LR', left: 'RL' };
+
+interface D2Object {
+    path: string[];
+    names: string[];
+    field: D2Field;
+    attributes: Map<string, D2Attribute>;
+    kind: 'node' | 'group' | 'table';
+    parent?: D2Object;
+}
+
+/** Parse D2 code to IR */
+export function parseD2(code: string, options: D2ParseOptions = {}): Diagram {
+    validateInput(code, 'd2');
+
+    const root = newMap(undefined, []);
+    const context: D2Context = { root, connections: [], options, importing: [], unresolved: [], boards: [], warnings: [] };
+    applyStatements(readD2(code), root, context);
+
+    // Objects: non-reserved keys, depth-first in declaration order
+    const objects: D2Object[] = [];
+    const walk = (map: D2Map, names: string[], parent: D2Object | undefined) => {
+        for (const [key, field] of map.fields) {
+            if (isReserved(key)) continue;
+            const attributes = readAttributes(field.map, field.value, map, root);
+            const shape = attributeText(attributes, 'shape')?.toLowerCase();
+            const hasChildren = !!field.map && [...field.map.fields.keys()].some(child => !isReserved(child));
+            const object: D2Object = {
+                path: [...map.path, key],
+                names: [...names, field.key],
+                field,
+                attributes,
+                kind: shape === 'sql_table' || shape === 'class' ? 'table' : hasChildren ? 'group' : 'node',
+                parent,
+            };
+            objects.push(object);
+            if (object.kind === 'group') walk(field.map!, object.names, object);
+        }
+    };
+    walk(root, [], undefined);
+
+    // Ids: the dotted path, so that an id does not depend on other objects
+    const ids = new Map(objects.map(object => [object, object.names.join('.')]));
+    const byPath = new Map(objects.map(object => [object.path.join('\0'), object]));
+
+    const nodes: DiagramNode[] = [];
+    const groups: DiagramGroup[] = [];
+    const groupsByObject = new Map<D2Object, DiagramGroup>();
+    for (const object of objects) {
+        const id = ids.get(object)!;
+        if (object.kind === 'group') {
+            const group = toGroup(object, id);
+            groups.push(group);
+            groupsByObject.set(object, group);
+        } else {
+            nodes.push(toNode(object, id));
+        }
+        if (object.parent) groupsByObject.get(object.parent)!.children.push(id);
+    }
+
+    // Endpoints inside sql_table / class shapes are columns of that node
+    const resolveEndpoint = (path: string[]): { object: D2Object; column?: string } | undefined => {
+        for (let length = 1; length <= path.length; length++) {
+            const object = byPath.get(path.slice(0, length).join('\0'));
+            if (object?.kind === 'table' || (object && length === path.length)) {
+                return { object, column: length < path.length ? path.slice(length).join('.') : undefined };
+            }
+        }
+        return undefined;
+    };
+
+    const edges: DiagramEdge[] = [];
+    const containerEdges: DiagramEdge[] = [];
+    context.connections.forEach((connection, index) => {
+        const source = resolveEndpoint(connection.source);
+        const target = resolveEndpoint(connection.target);
+        if (!source || !target) return;
+        const edge = toEdge(connection, `edge-${index}`, ids.get(source.object)!, ids.get(target.object)!, root);
+        if (source.column || target.column) {
+            edge.metadata = omitUndefined({ ...edge.metadata, sourceColumn: source.column, targetColumn: target.column });
+        }
+        (source.object.kind === 'group' || target.object.kind === 'group' ? containerEdges : edges).push(edge);
+    });
+
+    const rootAttributes = readAttributes(root, undefined, root, root);
+    const rootDirection = attributeText(rootAttributes, 'direction');
     return {
         id: 'd2-diagram',
         type: 'flowchart',
-        nodes: Array.from(nodes.values()),
+        nodes,
         edges,
         groups,
-        metadata: { source: 'd2' },
-    };
-}
-
-function ensureNode(
-    nodes: Map<string, DiagramNode>,
-    id: string,
-    groupStack: string[],
-    nodeToGroup: Map<string, string>
-): DiagramNode {
-    if (!nodes.has(id)) {
-        const node: DiagramNode = {
-            id,
-            type: 'node',
-            label: id,
-            shape: 'rectangle',
-            style: {},
-        };
-        nodes.set(id, node);
+        metadata: omitUndefined({
+            source: 'd2',
+            direction: rootDirection ? DIRECTIONS[rootDirection.toLowerCase()] ?? rootDirection : undefined,
+            title: attributeText(rootAttributes, 'label'),
+            containerEdges: containerEdges.length > 0 ? containerEdges : undefined,
+            unresolvedImports: context.unresolved.length > 0 ? context.unresolved : undefined,
+            boards: context.boards.length > 0 ? context.boards : undefined,
+            warnings: context.warnings.length > 0 ? context.warnings : undefined,
+        }),
+    };
+}
 
-        if (groupStack.length > 0) {
-            nodeToGroup.set(id, groupStack[groupStack.length - 1]);
-        }
+function attributeText(attributes: Map<string, D2Attribute>, name: string): string | undefined {
+    const attribute = attributes.get(name);
+    return attribute ? scalarText(attribute.value, attribute.scope) : undefined;
+}
+
+function attributeNumber(attributes: Map<string, D2Attribute>, name: string): number | undefined {
+    const text = attributeText(attributes, name);
+    const number = text === undefined ? NaN : Number(text);
+    return Number.isFinite(number) ? number : undefined;
+}
+
+function attributeFlag(attributes: Map<string, D2Attribute>, name: string): boolean | undefined {
+    const text = attributeText(attributes, name)?.toLowerCase();
+    return text === undefined ? undefined : text === 'true';
+}
+
+/** Label, with the format of markdown / code block labels */
+function labelOf(object: D2Object): { label: string; format?: string; language?: string } {
+    const attribute = object.attributes.get('label');
+    if (!attribute) return { label: object.names[object.names.length - 1] };
+    const label = scalarText(attribute.value, attribute.scope);
+    if (attribute.value.kind !== 'block') return { label };
+    const tag = attribute.value.tag.toLowerCase();
+    return tag === '' || tag === 'md' || tag === 'markdown'
+        ? { label, format: 'markdown' }
+        : { label, format: tag === 'latex' || tag === 'tex' ? 'latex' : 'code', language: tag };
+}
+
+/** Style keys that have no NodeStyle field are kept as written */
+function extraStyle(attributes: Map<string, D2Attribute>, mapped: string[]): Record<string, string> | undefined {
+    const extra: Record<string, string> = {};
+    for (const [key, attribute] of attributes) {
+        if (!key.startsWith('style.')) continue;
+        const name = key.slice(6);
+        if (!mapped.includes(name)) extra[name] = scalarText(attribute.value, attribute.scope);
+    }
+    return Object.keys(extra).length > 0 ? extra : undefined;
+}
+
+function commonMetadata(object: D2Object, shape: string | undefined): Record<string, unknown> {
+    const { attributes } = object;
+    const classAttribute = attributes.get('class');
+    return {
+        d2Shape: shape && !EXACT_SHAPES.has(shape) ? shape : undefined,
+        icon: attributeText(attributes, 'icon'),
+        near: attributeText(attributes, 'near'),
+        tooltip: attributeText(attributes, 'tooltip'),
+        link: attributeText(attributes, 'link'),
+        classes: classAttribute ? scalarList(classAttribute.value) : undefined,
+        path: object.names.length > 1 ? object.names.join('.') : undefined,
+    };
+}
+
+const NODE_STYLE_KEYS = ['fill', 'stroke', 'stroke-width', 'font-size', 'font-color', 'font', 'bold', 'opacity', 'shadow', 'border-radius'];
+
+function toNode(object: D2Object, id: string): DiagramNode {
+    const { attributes } = object;
+    const shape = attributeText(attributes, 'shape')?.toLowerCase();
+    const { label, format, language } = labelOf(object);
+    const bold = attributeFlag(attributes, 'style.bold');
+    const style: NodeStyle = omitUndefined({
+        fill: attributeText(attributes, 'style.fill'),
+        stroke: attributeText(attributes, 'style.stroke'),
+        strokeWidth: attributeNumber(attributes, 'style.stroke-width'),
+        fontSize: attributeNumber(attributes, 'style.font-size'),
+        fontColor: attributeText(attributes, 'style.font-color'),
+        fontFamily: attributeText(attributes, 'style.font'),
+        fontWeight: bold === undefined ? undefined : bold ? 'bold' as const : 'normal' as const,
+        opacity: attributeNumber(attributes, 'style.opacity'),
+        shadow: attributeFlag(attributes, 'style.shadow'),
+        rounded: attributeNumber(attributes, 'style.border-radius'),
+    });
+
+    const width = attributeNumber(attributes, 'width');
+    const height = attributeNumber(attributes, 'height');
+    const left = attributeNumber(attributes, 'left');
+    const top = attributeNumber(attributes, 'top');
+    const node: DiagramNode = {
+        id,
+        type: 'node',
+        label,
+        shape: shape ? SHAPE_MAP[shape] ?? 'rectangle' : 'rectangle',
+        style,
+    };
+    if (width !== undefined && height !== undefined) node.size = { width, height };
+    if (left !== undefined && top !== undefined) node.position = { x: left, y: top };
+
+    const metadata = omitUndefined({
+        ...commonMetadata(object, shape),
+        labelFormat: format,
+        language,
+        d2Style: extraStyle(attributes, NODE_STYLE_KEYS),
+        columns: shape === 'sql_table' ? tableColumns(object) : undefined,
+        members: shape === 'class' ? classMembers(object) : undefined,
+    });
+    if (Object.keys(metadata).length > 0) node.metadata = metadata;
+    return node;
+}
+
+function toGroup(object: D2Object, id: string): DiagramGroup {
+    const { attributes } = object;
+    const shape = attributeText(attributes, 'shape')?.toLowerCase();
+    const dash = attributeNumber(attributes, 'style.stroke-dash');
+    const style: GroupStyle = omitUndefined({
+        fill: attributeText(attributes, 'style.fill'),
+        stroke: attributeText(attributes, 'style.stroke'),
+        strokeWidth: attributeNumber(attributes, 'style.stroke-width'),
+        strokeDasharray: dash ? `${dash},${dash}` : undefined,
+        opacity: attributeNumber(attributes, 'style.opacity'),
+    });
+    const containerDirection = attributeText(attributes, 'direction');
+    const metadata = omitUndefined({
+        ...commonMetadata(object, shape),
+        direction: containerDirection ? DIRECTIONS[containerDirection.toLowerCase()] ?? containerDirection : undefined,
+        d2Style: extraStyle(attributes, ['fill', 'stroke', 'stroke-width', 'stroke-dash', 'opacity']),
+    });
+    return {
+        id,
+        type: 'group',
+        label: labelOf(object).label,
+        children: [],
+        style,
+        ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    };
+}
+
+/** Columns of a sql_table: `name: type { constraint: primary_key }` */
+function tableColumns(object: D2Object): { name: string; type?: string; constraints?: string[] }[] {
+    return [...(object.field.map?.fields ?? [])]
+        .filter(([key]) => !isReserved(key))
+        .map(([, field]) => {
+            const constraint = field.map?.fields.get('constraint')?.value;
+            return omitUndefined({
+                name: field.key,
+                type: field.value ? scalarText(field.value, object.field.map!) : undefined,
+                constraints: constraint ? scalarList(constraint) : undefined,
+            });
+        });
+}
+
+/** Members of a class shape: `+name: type`, `-method(arg): return` */
+function classMembers(object: D2Object): { name: string; type?: string; visibility?: string; method: boolean }[] {
+    return [...(object.field.map?.fields ?? [])]
+        .filter(([key]) => !isReserved(key))
+        .map(([, field]) => {
+            const match = field.key.match(/^([+\-#~])?\s*(.*)$/)!;
+            return omitUndefined({
+                name: match[2],
+                type: field.value ? scalarText(field.value, object.field.map!) : undefined,
+                visibility: match[1],
+                method: match[2].includes('('),
+            });
+        });
+}
+
+/** D2 arrowhead shapes to IR arrow heads */
+function arrowHead(shape: string | undefined, filled: boolean | undefined): ArrowHeadType {
+    switch (shape) {
+        case undefined:
+        case 'triangle':
+            return filled === false ? 'open' : 'arrow';
+        case 'arrow':
+            return 'arrow';
+        case 'diamond':
+            return filled ? 'diamond-filled' : 'diamond';
+        case 'circle':
+            return filled ? 'circle-filled' : 'circle';
+        case 'box':
+        case 'cf-one':
+        case 'cf-one-required':
+            return 'bar';
+        case 'cross':
+            return 'cross';
+        default:
+            return 'arrow';
     }
-    return nodes.get(id)!;
 }
 
-function detectD2Shape(value: string): NodeShape {
-    const lower = value.toLowerCase();
-    if (lower.includes('circle') || lower.includes('oval')) return 'circle';
-    if (lower.includes('diamond')) return 'diamond';
-    if (lower.includes('cylinder') || lower.includes('database')) return 'cylinder';
-    if (lower.includes('hexagon')) return 'hexagon';
-    if (lower.includes('cloud')) return 'cloud';
-    if (lower.includes('person') || lower.includes('actor')) return 'actor';
-    return 'rectangle';
+function toEdge(connection: D2Connection, id: string, source: string, target: string, root: D2Map): DiagramEdge {
+    const attributes = readAttributes(connection.map, connection.value, connection.map, root);
+    const dash = attributeNumber(attributes, 'style.stroke-dash');
+    // An arrowhead shape draws a head even at an end the operator leaves bare
+    const head = (side: 'source' | 'target', directed: boolean): ArrowHeadType => {
+        const shape = attributeText(attributes, `${side}-arrowhead.shape`)?.toLowerCase();
+        return directed || shape
+            ? arrowHead(shape, attributeFlag(attributes, `${side}-arrowhead.style.filled`))
+            : 'none';
+    };
+    const arrow: ArrowConfig = {
+        sourceType: head('source', connection.op.startsWith('<')),
+        targetType: head('target', connection.op.endsWith('>')),
+        lineType: dash !== undefined && dash > 0 ? 'dashed' : 'solid',
+    };
+    const style: EdgeStyle = omitUndefined({
+        stroke: attributeText(attributes, 'style.stroke'),
+        strokeWidth: attributeNumber(attributes, 'style.stroke-width'),
+        opacity: attributeNumber(attributes, 'style.opacity'),
+    });
+    const label = attributeText(attributes, 'label');
+    const edge: DiagramEdge = {
+        id,
+        type: 'edge',
+        source,
+        target,
+        label: label || undefined,
+        arrow,
+        style,
+    };
+
+    const sourceShape = attributeText(attributes, 'source-arrowhead.shape');
+    const targetShape = attributeText(attributes, 'target-arrowhead.shape');
+    const classAttribute = attributes.get('class');
+    const metadata = omitUndefined({
+        sourceLabel: attributeText(attributes, 'source-arrowhead') ?? attributeText(attributes, 'source-arrowhead.label'),
+        targetLabel: attributeText(attributes, 'target-arrowhead') ?? attributeText(attributes, 'target-arrowhead.label'),
+        sourceArrowhead: sourceShape?.startsWith('cf-') ? sourceShape : undefined,
+        targetArrowhead: targetShape?.startsWith('cf-') ? targetShape : undefined,
+        animated: attributeFlag(attributes, 'style.animated'),
+        classes: classAttribute ? scalarList(classAttribute.value) : undefined,
+        d2Style: extraStyle(attributes, ['stroke', 'stroke-width', 'stroke-dash', 'opacity', 'animated']),
+    });
+    if (Object.keys(metadata).length > 0) edge.metadata = metadata;
+    return edge;
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
 }
@@ -1,48 +1,485 @@
 /**
  * Graphviz DOT parser
- * 
- * Parses DOT language to IR with support for:
- * - Graph attributes (bgcolor, fontname, etc.)
- * - Nested subgraphs
- * - Node/edge attributes
- * - Clusters
+ *
+ * Parses DOT language to IR following the Graphviz grammar:
+ * - strict / graph / digraph, graph attributes (bgcolor, fontname, etc.)
+ * - Any number of statements per line, attribute lists on chains
+ * - node [..] / edge [..] / graph [..] defaults with subgraph scoping
+ * - Nested subgraphs; clusters become groups, rank=same is kept in metadata
+ * - node:port:compass endpoints and subgraphs as edge operands
+ * - Quoted strings with + concatenation, HTML-like <...> labels
+ * - Record shapes ({a|<p> b|c}) with their fields as ports
+ * - Layout from `dot -Tdot` output: pos, width, height, bb and edge splines
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape, ArrowConfig } from '../types';
+import type { ArrowHeadType, Diagram, DiagramEdge, DiagramGroup, DiagramNode, InputFormat, LineType, NodeShape, Port, Position } from '../types';
+import { ParseError } from '../errors';
 import { createEmptyDiagram, createNode, createEdge, createGroup, validateInput } from './base';
 
-/** Graph-level attributes */
-interface GraphAttributes {
-    bgcolor?: string;
-    fontname?: string;
-    fontsize?: number;
-    fontcolor?: string;
-    label?: string;
-    rankdir?: string;
-    splines?: string;
-    nodesep?: number;
-    ranksep?: number;
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface DotToken {
+    type: 'id' | 'punct' | 'edgeop' | 'eof';
+    value: string;
+    /** How an ID was written; HTML strings are labels, not text */
+    quoting?: 'plain' | 'quoted' | 'html';
+    line: number;
+    column: number;
 }
 
+const KEYWORDS = new Set(['strict', 'graph', 'digraph', 'subgraph', 'node', 'edge']);
+
+/** Split DOT source into tokens */
+function tokenizeDot(source: string): DotToken[] {
+    const tokens: DotToken[] = [];
+    let pos = 0;
+    let line = 1;
+    let lineStart = 0;
+
+    const fail = (message: string): never => {
+        throw new ParseError(message, 'dot', line, pos - lineStart + 1);
+    };
+    const advance = (count: number) => {
+        for (let i = 0; i < count; i++) {
+            if (source[pos] === '\n') {
+                line++;
+                lineStart = pos + 1;
+            }
+            pos++;
+        }
+    };
+
+    while (pos < source.length) {
+        const char = source[pos];
+        const start = { line, column: pos - lineStart + 1 };
+
+        if (/\s/.test(char)) {
+            advance(1);
+        } else if (source.startsWith('//', pos) || (char === '#' && !source.slice(lineStart, pos).trim())) {
+            // Line comments and C preprocessor output lines, indented or not
+            while (pos < source.length && source[pos] !== '\n') advance(1);
+        } else if (source.startsWith('/*', pos)) {
+            const end = source.indexOf('*/', pos + 2);
+            if (end < 0) fail('Unterminated comment');
+            advance(end + 2 - pos);
+        } else if (char === '"') {
+            let value = '';
+            advance(1);
+            while (pos < source.length && source[pos] !== '"') {
+                if (source[pos] === '\\' && source[pos + 1] === '"') {
+                    value += '"';
+                    advance(2);
+                } else if (source[pos] === '\\' && source[pos + 1] === '\n') {
+                    advance(2);
+                } else if (source[pos] === '\\' && source[pos + 1] === '\r' && source[pos + 2] === '\n') {
+                    advance(3);
+                } else {
+                    value += source[pos];
+                    advance(1);
+                }
+            }
+            if (pos >= source.length) fail('Unterminated string');
+            advance(1);
+            const previous = tokens[tokens.length - 1];
+            const beforePrevious = tokens[tokens.length - 2];
+            // "a" + "b" concatenation
+            if (previous?.type === 'punct' && previous.value === '+' && beforePrevious?.quoting === 'quoted') {
+                tokens.pop();
+                beforePrevious.value += value;
+            } else {
+                tokens.push({ type: 'id', value, quoting: 'quoted', ...start });
+            }
+        } else if (char === '<') {
+            let depth = 0;
+            let end = pos;
+            do {
+                if (source[end] === '<') depth++;
+                else if (source[end] === '>') depth--;
+                end++;
+            } while (depth > 0 && end < source.length);
+            if (depth > 0) fail('Unterminated HTML string');
+            tokens.push({ type: 'id', value: source.slice(pos + 1, end - 1), quoting: 'html', ...start });
+            advance(end - pos);
+        } else if (source.startsWith('->', pos) || source.startsWith('--', pos)) {
+            tokens.push({ type: 'edgeop', value: source.slice(pos, pos + 2), ...start });
+            advance(2);
+        } else if ('{}[];,=:+'.includes(char)) {
+            tokens.push({ type: 'punct', value: char, ...start });
+            advance(1);
+        } else {
+            const match = /-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/y;
+            match.lastIndex = pos;
+            const word = match.exec(source)?.[0];
+            if (!word) fail(`Unexpected character "${char}"`);
+            tokens.push({ type: 'id', value: word!, quoting: 'plain', ...start });
+            advance(word!.length);
+        }
+    }
+
+    tokens.push({ type: 'eof', value: '', line, column: pos - lineStart + 1 });
+    return tokens;
+}
+
+// =============================================================================
+// Grammar
+// =============================================================================
+
+export interface DotValue {
+    text: string;
+    html?: boolean;
+}
+
+export type DotAttributes = Record<string, DotValue>;
+
+export interface DotNodeRef {
+    kind: 'node';
+    id: string;
+    port?: string;
+    compass?: string;
+}
+
+interface DotSubgraph {
+    kind: 'subgraph';
+    id?: string;
+    statements: DotStatement[];
+}
+
+type DotStatement =
+    | { kind: 'defaults'; target: 'graph' | 'node' | 'edge'; attributes: DotAttributes }
+    | { kind: 'assign'; key: string; value: DotValue }
+    | { kind: 'node-stmt'; node: DotNodeRef; attributes: DotAttributes }
+    | { kind: 'edge-stmt'; operands: (DotNodeRef | DotSubgraph)[]; attributes: DotAttributes }
+    | DotSubgraph;
+
+export interface DotGraph {
+    strict: boolean;
+    directed: boolean;
+    id?: string;
+    statements: DotStatement[];
+}
+
+/** Shapes that the IR shape maps back to; others keep their DOT name */
+const CANONICAL_SHAPES = new Set(['box', 'ellipse', 'circle', 'diamond', 'hexagon', 'parallelogram', 'trapezium', 'cylinder', 'note']);
+
+const COMPASS_POINTS = new Set(['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw', 'c', '_']);
+
+/** Parse tokens into a graph; only the first graph of a file is read */
+function parseDotGraph(tokens: DotToken[]): DotGraph {
+    let index = 0;
+    const peek = (offset = 0) => tokens[Math.min(index + offset, tokens.length - 1)];
+    const isKeyword = (token: DotToken, keyword: string) => token.quoting === 'plain' && token.value.toLowerCase() === keyword;
+    const isPunct = (value: string, token = peek()) => token.type === 'punct' && token.value === value;
+    const fail = (message: string, token = peek()): never => {
+        throw new ParseError(message, 'dot', token.line, token.column);
+    };
+    const describe = (token: DotToken) => token.type === 'eof' ? 'end of input' : `"${token.value}"`;
+    const expect = (value: string) => {
+        if (!isPunct(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+        index++;
+    };
+    const readId = (): DotToken => {
+        const token = peek();
+        if (token.type !== 'id' || (token.quoting === 'plain' && KEYWORDS.has(token.value.toLowerCase()))) {
+            fail(`Expected an identifier but found ${describe(token)}`);
+        }
+        index++;
+        return token;
+    };
+    const toValue = (token: DotToken): DotValue => token.quoting === 'html' ? { text: token.value, html: true } : { text: token.value };
+
+    const readAttributeLists = (): DotAttributes => {
+        const attributes: DotAttributes = {};
+        while (isPunct('[')) {
+            index++;
+            while (!isPunct(']')) {
+                const key = readId().value.toLowerCase();
+                if (isPunct('=')) {
+                    index++;
+                    attributes[key] = toValue(readId());
+                } else {
+                    attributes[key] = { text: 'true' };
+                }
+                if (isPunct(',') || isPunct(';')) index++;
+            }
+            index++;
+        }
+        return attributes;
+    };
+
+    const readNodeRef = (): DotNodeRef => {
+        const ref: DotNodeRef = { kind: 'node', id: readId().value };
+        if (isPunct(':')) {
+            index++;
+            const first = readId().value;
+            if (isPunct(':')) {
+                index++;
+                ref.port = first;
+                ref.compass = readId().value;
+            } else if (COMPASS_POINTS.has(first)) {
+                ref.compass = first;
+            } else {
+                ref.port = first;
+            }
+        }
+        return ref;
+    };
+
+    const readSubgraph = (): DotSubgraph => {
+        let id: string | undefined;
+        if (isKeyword(peek(), 'subgraph')) {
+            index++;
+            if (peek().type === 'id' && !isPunct('{')) id = readId().value;
+        }
+        expect('{');
+        const statements = readStatements();
+        expect('}');
+        return { kind: 'subgraph', id, statements };
+    };
+
+    const readOperand = (): DotNodeRef | DotSubgraph =>
+        isPunct('{') || isKeyword(peek(), 'subgraph') ? readSubgraph() : readNodeRef();
+
+    const readStatement = (): DotStatement => {
+        const token = peek();
+        for (const target of ['graph', 'node', 'edge'] as const) {
+            if (isKeyword(token, target) && isPunct('[', peek(1))) {
+                index++;
+                return { kind: 'defaults', target, attributes: readAttributeLists() };
+            }
+        }
+        if (token.type === 'id' && isPunct('=', peek(1))) {
+            const key = readId().value.toLowerCase();
+            index++;
+            return { kind: 'assign', key, value: toValue(readId()) };
+        }
+
+        const first = readOperand();
+        if (peek().type !== 'edgeop') {
+            if (first.kind === 'subgraph') return first;
+            return { kind: 'node-stmt', node: first, attributes: readAttributeLists() };
+        }
+        const operands = [first];
+        while (peek().type === 'edgeop') {
+            index++;
+            operands.push(readOperand());
+        }
+        return { kind: 'edge-stmt', operands, attributes: readAttributeLists() };
+    };
+
+    const readStatements = (): DotStatement[] => {
+        const statements: DotStatement[] = [];
+        while (!isPunct('}') && peek().type !== 'eof') {
+            statements.push(readStatement());
+            if (isPunct(';')) index++;
+        }
+        return statements;
+    };
+
+    let strict = false;
+    if (isKeyword(peek(), 'strict')) {
+        strict = true;
+        index++;
+    }
+    const kind = peek();
+    if (!isKeyword(kind, 'graph') && !isKeyword(kind, 'digraph')) fail(`Expected "graph" or "digraph" but found ${describe(kind)}`);
+    index++;
+    const id = isPunct('{') ? undefined : readId().value;
+    expect('{');
+    const statements = readStatements();
+    expect('}');
+    return { strict, directed: kind.value.toLowerCase() === 'digraph', id, statements };
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+interface DotScope {
+    nodeDefaults: DotAttributes;
+    edgeDefaults: DotAttributes;
+    cluster?: DotCluster;
+}
+
+export interface DotCluster {
+    name: string;
+    attributes: DotAttributes;
+    children: string[];
+}
+
+export interface DotNodeRecord {
+    id: string;
+    attributes: DotAttributes;
+    cluster?: DotCluster;
+}
+
+export interface DotEdgeRecord {
+    source: DotNodeRef;
+    target: DotNodeRef;
+    attributes: DotAttributes;
+    directed: boolean;
+}
+
+export interface DotModel {
+    graph: DotGraph;
+    attributes: DotAttributes;
+    nodes: Map<string, DotNodeRecord>;
+    edges: DotEdgeRecord[];
+    clusters: DotCluster[];
+    ranks: { rank: string; nodes: string[] }[];
+}
+
+/** Apply statements with Graphviz scoping: defaults are copied into subgraphs */
+function evaluateDot(graph: DotGraph): DotModel {
+    const model: DotModel = { graph, attributes: {}, nodes: new Map(), edges: [], clusters: [], ranks: [] };
+    const edgeKeys = new Map<string, DotEdgeRecord>();
+
+    const touchNode = (id: string, scope: DotScope, attributes: DotAttributes = {}): void => {
+        let record = model.nodes.get(id);
+        if (!record) {
+            record = { id, attributes: { ...scope.nodeDefaults } };
+            model.nodes.set(id, record);
+        }
+        Object.assign(record.attributes, attributes);
+        // A node belongs to the first cluster it is mentioned in
+        if (!record.cluster && scope.cluster) {
+            record.cluster = scope.cluster;
+            scope.cluster.children.push(id);
+        }
+    };
+
+    const addEdge = (source: DotNodeRef, target: DotNodeRef, attributes: DotAttributes, directed: boolean) => {
+        if (graph.strict) {
+            const ends = [source.id, target.id];
+            const key = (directed ? ends : [...ends].sort()).join('\0');
+            const existing = edgeKeys.get(key);
+            if (existing) {
+                Object.assign(existing.attributes, attributes);
+                return;
+            }
+            const record = { source, target, attributes, directed };
+            edgeKeys.set(key, record);
+            model.edges.push(record);
+        } else {
+            model.edges.push({ source, target, attributes, directed });
+        }
+    };
+
+    /** Run statements; returns the ids of every node mentioned */
+    const run = (statements: DotStatement[], scope: DotScope, attributes: DotAttributes): string[] => {
+        const mentioned = new Set<string>();
+        for (const statement of statements) {
+            switch (statement.kind) {
+                case 'defaults':
+                    if (statement.target === 'graph') Object.assign(attributes, statement.attributes);
+                    else Object.assign(statement.target === 'node' ? scope.nodeDefaults : scope.edgeDefaults, statement.attributes);
+                    break;
+                case 'assign':
+                    attributes[statement.key] = statement.value;
+                    break;
+                case 'node-stmt':
+                    touchNode(statement.node.id, scope, statement.attributes);
+                    mentioned.add(statement.node.id);
+                    break;
+                case 'subgraph':
+                    for (const id of runSubgraph(statement, scope)) mentioned.add(id);
+                    break;
+                case 'edge-stmt': {
+                    const operands = statement.operands.map(operand => {
+                        if (operand.kind === 'subgraph') {
+                            return runSubgraph(operand, scope).map(id => ({ kind: 'node' as const, id }));
+                        }
+                        touchNode(operand.id, scope);
+                        return [operand];
+                    });
+                    const edgeAttributes = { ...scope.edgeDefaults, ...statement.attributes };
+                    for (let i = 0; i < operands.length - 1; i++) {
+                        for (const source of operands[i]) {
+                            for (const target of operands[i + 1]) {
+                                addEdge(source, target, { ...edgeAttributes }, graph.directed);
+                            }
+                        }
+                    }
+                    operands.flat().forEach(ref => mentioned.add(ref.id));
+                    break;
+                }
+            }
+        }
+        return [...mentioned];
+    };
+
+    const runSubgraph = (subgraph: DotSubgraph, parent: DotScope): string[] => {
+        const attributes: DotAttributes = {};
+        let cluster: DotCluster | undefined;
+        if (subgraph.id?.startsWith('cluster')) {
+            cluster = model.clusters.find(existing => existing.name === subgraph.id);
+            if (!cluster) {
+                cluster = { name: subgraph.id, attributes, children: [] };
+                model.clusters.push(cluster);
+                parent.cluster?.children.push(subgraph.id);
+            }
+        }
+        const scope: DotScope = {
+            nodeDefaults: { ...parent.nodeDefaults },
+            edgeDefaults: { ...parent.edgeDefaults },
+            cluster: cluster ?? parent.cluster,
+        };
+        const mentioned = run(subgraph.statements, scope, attributes);
+        if (cluster && cluster.attributes !== attributes) Object.assign(cluster.attributes, attributes);
+        if (attributes.rank) model.ranks.push({ rank: attributes.rank.text, nodes: mentioned });
+        return mentioned;
+    };
+
+    run(graph.statements, { nodeDefaults: {}, edgeDefaults: {} }, model.attributes);
+    return model;
+}
+
+// =============================================================================
+// IR Conversion
+// =============================================================================
+
 /** Parse DOT to IR diagram */
 export function parseDot(source: string): Diagram {
     validateInput(source, 'dot');
 
-    const diagram = createEmptyDiagram('flowchart', 'dot');
-    const nodeMap = new Map<string, DiagramNode>();
+    return buildDotDiagram(evaluateDot(parseDotGraph(tokenizeDot(source))), 'dot');
+}
+
+/**
+ * Convert an evaluated graph to IR. Shared with the Graphviz -Tplain and
+ * -Tjson parsers, which describe the same graph model.
+ */
+export function buildDotDiagram(model: DotModel, format: InputFormat): Diagram {
+    const { graph, attributes } = model;
+    const diagram = createEmptyDiagram('flowchart', format);
+    const frame = layoutFrame(model);
+    const text = (key: string) => attributes[key] && !attributes[key].html ? attributes[key].text : undefined;
+    const number = (key: string) => parseNumber(text(key));
+    const rankdir = text('rankdir')?.toUpperCase();
 
-    // Parse graph attributes
-    const graphAttrs = parseGraphAttributes(source);
+    if (graph.id) diagram.name = graph.id;
 
     // Apply graph attributes to diagram metadata
-    diagram.metadata = {
-        source: 'dot',
-        direction: graphAttrs.rankdir?.toUpperCase() || 'TB',
-        ...graphAttrs,
-    };
+    diagram.metadata = omitUndefined({
+        source: format,
+        direction: rankdir || 'TB',
+        bgcolor: text('bgcolor'),
+        fontname: text('fontname'),
+        fontsize: number('fontsize'),
+        fontcolor: text('fontcolor'),
+        label: attributes.label ? labelText(attributes.label, { G: graph.id ?? '' }) : undefined,
+        rankdir,
+        splines: text('splines'),
+        nodesep: number('nodesep'),
+        ranksep: number('ranksep'),
+        strict: graph.strict || undefined,
+        directed: graph.directed,
+        ranks: model.ranks.length > 0 ? model.ranks : undefined,
+    });
 
     // Set viewport background if specified
-    if (graphAttrs.bgcolor) {
+    if (attributes.bgcolor) {
         diagram.viewport = {
             width: 800,
             height: 600,
@@ -50,281 +487,396 @@ export function parseDot(source: string): Diagram {
             offsetX: 0,
             offsetY: 0,
         };
-        if (!diagram.metadata) diagram.metadata = { source: 'dot' };
-        (diagram.metadata as Record<string, unknown>).backgroundColor = graphAttrs.bgcolor;
+        diagram.metadata.backgroundColor = attributes.bgcolor.text;
+    }
+
+    // Clusters are groups named without their "cluster" prefix when unambiguous
+    const groupIds = new Map<string, string>();
+    for (const cluster of model.clusters) {
+        const short = cluster.name.replace(/^cluster_?/, '');
+        groupIds.set(cluster.name, short && !model.nodes.has(short) ? short : cluster.name);
     }
 
-    // Remove comments
-    const cleanSource = removeComments(source);
+    for (const record of model.nodes.values()) {
+        diagram.nodes.push(toNode(record, graph, rankdir, frame));
+    }
 
-    // Parse subgraphs recursively
-    parseSubgraphs(cleanSource, diagram, nodeMap, null);
+    for (const cluster of model.clusters) {
+        diagram.groups.push(toGroup(cluster, groupIds, frame));
+    }
 
-    // Parse remaining nodes and edges
-    parseNodesAndEdges(cleanSource, diagram, nodeMap, null);
+    for (const record of model.edges) {
+        diagram.edges.push(toEdge(record, groupIds, frame));
+    }
 
     return diagram;
 }
 
-/** Remove comments from DOT source */
-function removeComments(source: string): string {
-    return source
-        .replace(/\/\/.*$/gm, '')
-        .replace(/\/\*[\s\S]*?\*\//g, '')
-        .replace(/#.*$/gm, '');
-}
-
-/** Parse graph-level attributes */
-function parseGraphAttributes(source: string): GraphAttributes {
-    const attrs: GraphAttributes = {};
-
-    // Match graph [ ... ] block
-    const graphAttrMatch = source.match(/(?:di)?graph\s+\w*\s*\{[^}]*?graph\s*\[([^\]]+)\]/is);
-    if (graphAttrMatch) {
-        const parsed = parseAttributes(graphAttrMatch[1]);
-        Object.assign(attrs, {
-            bgcolor: parsed.bgcolor,
-            fontname: parsed.fontname,
-            fontsize: parsed.fontsize ? parseInt(parsed.fontsize) : undefined,
-            fontcolor: parsed.fontcolor,
-            label: parsed.label,
-            rankdir: parsed.rankdir,
-            splines: parsed.splines,
-            nodesep: parsed.nodesep ? parseFloat(parsed.nodesep) : undefined,
-            ranksep: parsed.ranksep ? parseFloat(parsed.ranksep) : undefined,
-        });
+function toNode(record: DotNodeRecord, graph: DotGraph, rankdir: string | undefined, frame: LayoutFrame | undefined): DiagramNode {
+    const { id, attributes } = record;
+    const value = (key: string) => attributes[key]?.text;
+    const styles = (value('style') ?? '').split(',').map(style => style.trim());
+    const shapeName = value('shape');
+    const isRecord = shapeName === 'record' || shapeName === 'Mrecord';
+    const rawLabel = attributes.label ?? { text: '\\N' };
+
+    let label: string;
+    let ports: Port[] | undefined;
+    const metadata: Record<string, unknown> = {};
+    if (rawLabel.html) {
+        label = htmlToText(rawLabel.text);
+        metadata.htmlLabel = rawLabel.text;
+        const htmlPorts = [...rawLabel.text.matchAll(/\bport\s*=\s*"([^"]*)"/gi)].map(match => match[1]);
+        if (htmlPorts.length > 0) ports = htmlPorts.map(port => ({ id: port, position: 'center' }));
+    } else if (isRecord) {
+        const fields = parseRecordLabel(escapeLabel(rawLabel.text, { N: id, G: graph.id ?? '' }, true));
+        const horizontal = rankdir !== 'LR' && rankdir !== 'RL';
+        label = recordText(fields);
+        metadata.recordFields = fields;
+        const recordPorts = collectRecordPorts(fields, horizontal, 0, 1);
+        if (recordPorts.length > 0) ports = recordPorts;
+    } else {
+        label = labelText(rawLabel, { N: id, G: graph.id ?? '' });
     }
 
-    // Also check for standalone rankdir
-    const rankdirMatch = source.match(/rankdir\s*=\s*["']?(TB|BT|LR|RL)["']?/i);
-    if (rankdirMatch && !attrs.rankdir) {
-        attrs.rankdir = rankdirMatch[1].toUpperCase();
+    let shape = mapDotShape(shapeName);
+    if (shape === 'rectangle' && (styles.includes('rounded') || shapeName === 'Mrecord')) shape = 'rounded-rectangle';
+
+    const node = createNode(id, label, {
+        shape,
+        style: omitUndefined({
+            fill: value('fillcolor') ? firstColor(value('fillcolor')!) : styles.includes('filled') && value('color') ? firstColor(value('color')!) : undefined,
+            stroke: value('color') ? firstColor(value('color')!) : undefined,
+            strokeWidth: parseNumber(value('penwidth')),
+            fontColor: value('fontcolor'),
+            fontSize: parseNumber(value('fontsize')),
+            fontFamily: value('fontname'),
+        }),
+    });
+    if (ports) node.ports = ports;
+
+    // Graphviz layout: pos is the center in points, width / height in inches
+    const center = frame && value('pos') ? parsePoint(value('pos')!) : undefined;
+    if (frame && center) {
+        const width = (parseNumber(value('width')) ?? 0.75) * POINTS_PER_INCH;
+        const height = (parseNumber(value('height')) ?? 0.5) * POINTS_PER_INCH;
+        node.position = { x: roundPixel(center.x - width / 2), y: roundPixel(frame.flip(center.y) - height / 2) };
+        node.size = { width: roundPixel(width), height: roundPixel(height) };
     }
 
-    // Check for standalone bgcolor
-    const bgcolorMatch = source.match(/bgcolor\s*=\s*["']?([^"'\s;]+)["']?/i);
-    if (bgcolorMatch && !attrs.bgcolor) {
-        attrs.bgcolor = bgcolorMatch[1];
-    }
+    // Store additional attributes in metadata
+    Object.assign(metadata, omitUndefined({
+        dotShape: shapeName && !CANONICAL_SHAPES.has(shapeName) ? shapeName : undefined,
+        tooltip: value('tooltip'),
+        url: value('url') ?? value('href'),
+        xlabel: value('xlabel'),
+    }));
+    if (Object.keys(metadata).length > 0) node.metadata = metadata;
+    return node;
+}
 
-    return attrs;
-}
-
-/** Parse subgraphs recursively */
-function parseSubgraphs(
-    source: string,
-    diagram: Diagram,
-    nodeMap: Map<string, DiagramNode>,
-    parentGroup: DiagramGroup | null
-): void {
-    // Match subgraph blocks (including nested)
-    const subgraphRegex = /subgraph\s+(?:cluster_)?(\w+)\s*\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/gi;
-    let match;
-
-    while ((match = subgraphRegex.exec(source)) !== null) {
-        const [fullMatch, name, content] = match;
-
-        // Parse subgraph attributes
-        const labelMatch = content.match(/label\s*=\s*["']([^"']+)["']/i);
-        const styleMatch = content.match(/style\s*=\s*["']?(\w+)["']?/i);
-        const colorMatch = content.match(/(?:fill)?color\s*=\s*["']?([^"'\s;]+)["']?/i);
-        const bgcolorMatch = content.match(/bgcolor\s*=\s*["']?([^"'\s;]+)["']?/i);
-
-        const group = createGroup(name, [], {
-            label: labelMatch?.[1] || name,
-            style: {
-                fill: bgcolorMatch?.[1] || colorMatch?.[1],
-                stroke: colorMatch?.[1],
-                strokeDasharray: styleMatch?.[1] === 'dashed' ? '5,5' : undefined,
-            },
-        });
+function toGroup(cluster: DotCluster, groupIds: Map<string, string>, frame: LayoutFrame | undefined): DiagramGroup {
+    const { attributes } = cluster;
+    const value = (key: string) => attributes[key]?.text;
+    const styles = (value('style') ?? '').split(',').map(style => style.trim());
+    const color = value('color') ? firstColor(value('color')!) : undefined;
+    const id = groupIds.get(cluster.name)!;
+
+    const box = frame && value('bb') ? parseBox(value('bb')!) : undefined;
+    return createGroup(id, cluster.children.map(child => groupIds.get(child) ?? child), {
+        label: attributes.label ? labelText(attributes.label, { G: cluster.name }) : id,
+        position: box && frame ? { x: roundPixel(box.x1), y: roundPixel(frame.flip(box.y2)) } : undefined,
+        size: box ? { width: roundPixel(box.x2 - box.x1), height: roundPixel(box.y2 - box.y1) } : undefined,
+        style: omitUndefined({
+            fill: value('fillcolor') ?? value('bgcolor') ?? (styles.includes('filled') ? color : undefined),
+            stroke: value('pencolor') ?? color,
+            strokeWidth: parseNumber(value('penwidth')),
+            strokeDasharray: styles.includes('dashed') ? '5,5' : styles.includes('dotted') ? '2,2' : undefined,
+        }),
+    });
+}
 
-        diagram.groups.push(group);
+function toEdge(record: DotEdgeRecord, groupIds: Map<string, string>, frame: LayoutFrame | undefined): DiagramEdge {
+    const { source, target, attributes } = record;
+    const value = (key: string) => attributes[key]?.text;
+    const styles = (value('style') ?? '').split(',').map(style => style.trim());
+    const dir = value('dir') ?? (record.directed ? 'forward' : 'none');
+    const lineType: LineType = styles.includes('dashed') ? 'dashed'
+        : styles.includes('dotted') ? 'dotted'
+            : styles.includes('bold') ? 'thick' : 'solid';
+    const label = attributes.label ? labelText(attributes.label, { T: source.id, H: target.id }) : undefined;
+
+    // Ports from tailport / headport attributes: "port:compass"
+    const tailPort = splitPort(value('tailport'));
+    const headPort = splitPort(value('headport'));
+    const cluster = (name: string | undefined) => name === undefined ? undefined : groupIds.get(name) ?? name;
+
+    const edge = createEdge(source.id, target.id, {
+        label: label || undefined,
+        arrow: {
+            sourceType: dir === 'back' || dir === 'both' ? mapDotArrowhead(value('arrowtail')) : 'none',
+            targetType: dir === 'forward' || dir === 'both' ? mapDotArrowhead(value('arrowhead')) : 'none',
+            lineType,
+        },
+        style: omitUndefined({
+            stroke: value('color') ? firstColor(value('color')!) : undefined,
+            strokeWidth: parseNumber(value('penwidth')),
+        }),
+        waypoints: frame && value('pos') ? splineWaypoints(value('pos')!, frame) : undefined,
+    });
+    const sourcePort = source.port ?? tailPort.port;
+    const targetPort = target.port ?? headPort.port;
+    if (sourcePort) edge.sourcePort = sourcePort;
+    if (targetPort) edge.targetPort = targetPort;
+
+    const metadata = omitUndefined({
+        sourceCompass: source.compass ?? tailPort.compass,
+        targetCompass: target.compass ?? headPort.compass,
+        headLabel: value('headlabel'),
+        tailLabel: value('taillabel'),
+        xlabel: value('xlabel'),
+        lhead: cluster(value('lhead')),
+        ltail: cluster(value('ltail')),
+        constraint: value('constraint') === 'false' ? false : undefined,
+    });
+    if (Object.keys(metadata).length > 0) edge.metadata = metadata;
+    return edge;
+}
 
-        // Add to parent group if nested
-        if (parentGroup) {
-            parentGroup.children.push(group.id);
-        }
+// =============================================================================
+// Graphviz Layout
+// =============================================================================
 
-        // Recursively parse nested subgraphs
-        parseSubgraphs(content, diagram, nodeMap, group);
+/** Graphviz points per inch; one point is drawn as one pixel */
+const POINTS_PER_INCH = 72;
 
-        // Parse nodes inside this subgraph
-        parseNodesAndEdges(content, diagram, nodeMap, group);
-    }
+/** Coordinate frame of a laid-out graph: Graphviz y grows upwards */
+interface LayoutFrame {
+    flip: (y: number) => number;
 }
 
-/** Parse nodes and edges from DOT content */
-function parseNodesAndEdges(
-    source: string,
-    diagram: Diagram,
-    nodeMap: Map<string, DiagramNode>,
-    currentGroup: DiagramGroup | null
-): void {
-    // Split by semicolons and newlines
-    const lines = source.split(/[;\n]/).map(l => l.trim()).filter(Boolean);
-
-    for (const line of lines) {
-        // Skip graph/digraph declaration and subgraph
-        if (/^(strict\s+)?(di)?graph\s+/i.test(line)) continue;
-        if (/^subgraph\s+/i.test(line)) continue;
-        if (line === '{' || line === '}') continue;
-        if (/^(graph|node|edge)\s*\[/i.test(line)) continue; // Skip default attributes
-
-        // Parse edge: A -> B or A -- B (can have multiple targets: A -> B -> C)
-        const edgeResult = parseEdgeLine(line, nodeMap, diagram, currentGroup);
-        if (edgeResult.length > 0) {
-            diagram.edges.push(...edgeResult);
-            continue;
-        }
-
-        // Parse node definition: A [label="Label", shape=box]
-        const nodeResult = parseNodeLine(line, currentGroup);
-        if (nodeResult && !nodeMap.has(nodeResult.id)) {
-            nodeMap.set(nodeResult.id, nodeResult);
-            diagram.nodes.push(nodeResult);
+/** Frame from the graph bounding box, or the node extents without one; none when nothing has a position */
+function layoutFrame(model: DotModel): LayoutFrame | undefined {
+    const positioned = [...model.nodes.values()].filter(record => record.attributes.pos);
+    if (positioned.length === 0) return undefined;
+
+    const bb = model.attributes.bb ? parseBox(model.attributes.bb.text) : undefined;
+    const top = bb?.y2 ?? Math.max(...positioned.map(record => {
+        const center = parsePoint(record.attributes.pos.text);
+        const height = (parseNumber(record.attributes.height?.text) ?? 0.5) * POINTS_PER_INCH;
+        return center ? center.y + height / 2 : 0;
+    }));
+    return { flip: y => top - y };
+}
 
-            if (currentGroup) {
-                currentGroup.children.push(nodeResult.id);
-            }
-        }
-    }
+function parsePoint(value: string): Position | undefined {
+    const [x, y] = value.replace(/!$/, '').split(',').map(Number);
+    return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined;
 }
 
-/** Parse node definition */
-function parseNodeLine(line: string, currentGroup: DiagramGroup | null): DiagramNode | null {
-    // Pattern: nodeId [attr1=val1, attr2=val2]
-    const match = line.match(/^(\w+)\s*\[([^\]]+)\]/);
-    if (!match) {
-        // Simple node without attributes
-        const simpleMatch = line.match(/^(\w+)\s*$/);
-        if (simpleMatch && !['graph', 'digraph', 'subgraph', 'node', 'edge'].includes(simpleMatch[1].toLowerCase())) {
-            return createNode(simpleMatch[1], simpleMatch[1]);
-        }
-        return null;
-    }
+function parseBox(value: string): { x1: number; y1: number; x2: number; y2: number } | undefined {
+    const [x1, y1, x2, y2] = value.split(',').map(Number);
+    return [x1, y1, x2, y2].every(Number.isFinite) ? { x1, y1, x2, y2 } : undefined;
+}
 
-    const [, id, attrsStr] = match;
-    const attrs = parseAttributes(attrsStr);
+const roundPixel = (value: number) => Math.round(value * 100) / 100;
 
-    const node = createNode(id, attrs.label || id, {
-        shape: mapDotShape(attrs.shape),
-        style: {
-            fill: attrs.fillcolor || (attrs.style?.includes('filled') ? attrs.color : undefined),
-            stroke: attrs.color,
-            fontColor: attrs.fontcolor,
-            fontSize: attrs.fontsize ? parseInt(attrs.fontsize) : undefined,
-        },
-    });
+/**
+ * Waypoints of an edge spline ("e,x,y s,x,y p0 p1 p2 p3 ..."): the cubic
+ * Bezier segments are followed through their joints and midpoints, the
+ * end points on the node borders are left out and straight runs collapsed
+ */
+function splineWaypoints(pos: string, frame: LayoutFrame): Position[] | undefined {
+    const controls = pos.split(';')[0].trim().split(/\s+/)
+        .filter(token => !/^[es],/.test(token))
+        .map(parsePoint)
+        .filter((point): point is Position => point !== undefined)
+        .map(point => ({ x: point.x, y: frame.flip(point.y) }));
+    if (controls.length < 4) return undefined;
+
+    const path: Position[] = [controls[0]];
+    for (let i = 0; i + 3 < controls.length; i += 3) {
+        const [p0, p1, p2, p3] = controls.slice(i, i + 4);
+        path.push({
+            x: (p0.x + 3 * p1.x + 3 * p2.x + p3.x) / 8,
+            y: (p0.y + 3 * p1.y + 3 * p2.y + p3.y) / 8,
+        }, p3);
+    }
 
-    // Store additional attributes in metadata
-    if (attrs.tooltip || attrs.url || attrs.href) {
-        node.metadata = {
-            tooltip: attrs.tooltip,
-            url: attrs.url || attrs.href,
-        };
+    const waypoints: Position[] = [];
+    for (let i = 1; i < path.length - 1; i++) {
+        const previous = waypoints[waypoints.length - 1] ?? path[0];
+        const next = path[i + 1];
+        const cross = (path[i].x - previous.x) * (next.y - previous.y) - (path[i].y - previous.y) * (next.x - previous.x);
+        const length = Math.hypot(next.x - previous.x, next.y - previous.y) || 1;
+        if (Math.abs(cross) / length > 0.5) {
+            waypoints.push({ x: roundPixel(path[i].x), y: roundPixel(path[i].y) });
+        }
     }
+    return waypoints.length > 0 ? waypoints : undefined;
+}
 
-    return node;
+// =============================================================================
+// Labels
+// =============================================================================
+
+/** Text of a label: HTML labels are flattened, escString sequences resolved */
+function labelText(value: DotValue, names: Record<string, string>): string {
+    return value.html ? htmlToText(value.text) : escapeLabel(value.text, names);
 }
 
-/** Parse edge line - supports chained edges like A -> B -> C */
-function parseEdgeLine(
-    line: string,
-    nodeMap: Map<string, DiagramNode>,
-    diagram: Diagram,
-    currentGroup: DiagramGroup | null
-): DiagramEdge[] {
-    const edges: DiagramEdge[] = [];
-
-    // Pattern: A -> B -> C [label="text"] or A -- B
-    // First, extract attributes if present
-    const attrMatch = line.match(/\[([^\]]+)\]\s*$/);
-    const attrs = attrMatch ? parseAttributes(attrMatch[1]) : {};
-    const lineWithoutAttrs = attrMatch ? line.replace(/\s*\[[^\]]+\]\s*$/, '') : line;
-
-    // Split by arrow operators
-    const parts = lineWithoutAttrs.split(/\s*(->|--)\s*/);
-    if (parts.length < 3) return edges;
-
-    // Determine if directed
-    const isDirected = lineWithoutAttrs.includes('->');
-
-    // Create edges for each pair
-    for (let i = 0; i < parts.length - 2; i += 2) {
-        const sourceId = parts[i].trim();
-        const targetId = parts[i + 2].trim();
-
-        if (!sourceId || !targetId) continue;
-
-        // Ensure nodes exist
-        ensureNode(sourceId, nodeMap, diagram, currentGroup);
-        ensureNode(targetId, nodeMap, diagram, currentGroup);
-
-        const edge = createEdge(sourceId, targetId, {
-            label: attrs.label,
-            arrow: {
-                sourceType: attrs.dir === 'back' || attrs.dir === 'both' ? 'arrow' : 'none',
-                targetType: isDirected && attrs.dir !== 'back' ? mapDotArrowhead(attrs.arrowhead) : 'none',
-                lineType: attrs.style === 'dashed' ? 'dashed' : attrs.style === 'dotted' ? 'dotted' : 'solid',
-            },
-            style: {
-                stroke: attrs.color,
-                strokeWidth: attrs.penwidth ? parseFloat(attrs.penwidth) : undefined,
-            },
+/**
+ * Resolve DOT escString sequences: \n \l \r are line breaks, \N \G \T \H
+ * are the node, graph, tail and head names. Record labels keep \{ \| \<.
+ */
+function escapeLabel(text: string, names: Record<string, string>, keepRecordEscapes = false): string {
+    return text
+        .replace(/\\([nlr])$/, '')
+        .replace(/\\(.)/g, (match, char: string) => {
+            if (char === 'n' || char === 'l' || char === 'r') return '\n';
+            if (char in names) return names[char];
+            if (keepRecordEscapes && '{}|<> '.includes(char)) return match;
+            return char;
         });
+}
 
-        edges.push(edge);
-    }
+/** Plain text of an HTML-like label */
+function htmlToText(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(?:tr|p)>/gi, '\n')
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+        .replace(/&amp;/g, '&')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+}
 
-    return edges;
+/** Field of a record shape label */
+interface DotRecordField {
+    port?: string;
+    text?: string;
+    fields?: DotRecordField[];
 }
 
-/** Ensure node exists */
-function ensureNode(
-    id: string,
-    nodeMap: Map<string, DiagramNode>,
-    diagram: Diagram,
-    currentGroup: DiagramGroup | null
-): void {
-    if (!nodeMap.has(id)) {
-        const node = createNode(id, id);
-        nodeMap.set(id, node);
-        diagram.nodes.push(node);
+/** Parse a record label: fields separated by |, { } flips orientation, <port> names a field */
+function parseRecordLabel(label: string): DotRecordField[] {
+    let pos = 0;
+    const readFields = (): DotRecordField[] => {
+        const fields: DotRecordField[] = [];
+        let field: DotRecordField = {};
+        let text = '';
+        const finish = () => {
+            if (!field.fields) {
+                const trimmed = text.trim();
+                if (trimmed) field.text = trimmed;
+            }
+            fields.push(field);
+            field = {};
+            text = '';
+        };
+        while (pos < label.length) {
+            const char = label[pos];
+            if (char === '\\' && pos + 1 < label.length) {
+                text += label[pos + 1];
+                pos += 2;
+            } else if (char === '{') {
+                pos++;
+                field.fields = readFields();
+            } else if (char === '}') {
+                pos++;
+                break;
+            } else if (char === '|') {
+                pos++;
+                finish();
+            } else if (char === '<') {
+                const end = label.indexOf('>', pos);
+                field.port = label.slice(pos + 1, end < 0 ? undefined : end).trim();
+                pos = end < 0 ? label.length : end + 1;
+            } else {
+                text += char;
+                pos++;
+            }
+        }
+        finish();
+        return fields;
+    };
+    return readFields();
+}
 
-        if (currentGroup) {
-            currentGroup.children.push(id);
+function recordText(fields: DotRecordField[]): string {
+    return fields
+        .map(field => field.fields ? recordText(field.fields) : field.text ?? '')
+        .filter(Boolean)
+        .join(' | ');
+}
+
+/**
+ * Ports of named record fields, placed on the side edges usually leave from:
+ * fields side by side use the bottom edge, stacked fields the right edge
+ */
+function collectRecordPorts(fields: DotRecordField[], horizontal: boolean, start: number, span: number): Port[] {
+    const ports: Port[] = [];
+    const step = span / fields.length;
+    fields.forEach((field, index) => {
+        const offset = start + step * index;
+        if (field.port) {
+            ports.push({ id: field.port, position: horizontal ? 'bottom' : 'right', offset: round(offset + step / 2) });
         }
-    }
+        if (field.fields) {
+            ports.push(...collectRecordPorts(field.fields, !horizontal, horizontal ? offset : 0, horizontal ? step : 1));
+        }
+    });
+    return ports;
 }
 
-/** Parse DOT attributes string */
-function parseAttributes(str: string): Record<string, string> {
-    const attrs: Record<string, string> = {};
+const round = (value: number) => Math.round(value * 1000) / 1000;
 
-    // Match key=value or key="value" or key=<html>
-    const regex = /(\w+)\s*=\s*(?:"([^"]*)"|'([^']*)'|<([^>]*)>|(\S+))/g;
-    let match;
+// =============================================================================
+// Attribute Values
+// =============================================================================
 
-    while ((match = regex.exec(str)) !== null) {
-        const [, key, val1, val2, val3, val4] = match;
-        attrs[key.toLowerCase()] = val1 ?? val2 ?? val3 ?? val4 ?? '';
-    }
+function splitPort(value: string | undefined): { port?: string; compass?: string } {
+    if (!value) return {};
+    const [first, second] = value.split(':');
+    if (second !== undefined) return { port: first, compass: second };
+    return COMPASS_POINTS.has(first) ? { compass: first } : { port: first };
+}
 
-    return attrs;
+/** First color of a color list ("red:blue", "red;0.3:blue") */
+function firstColor(value: string): string {
+    return value.split(':')[0].split(';')[0];
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : undefined;
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
 }
 
 /** Map DOT arrowhead to IR type */
-function mapDotArrowhead(arrowhead?: string): 'none' | 'arrow' | 'open' | 'diamond' | 'diamond-filled' | 'circle' | 'circle-filled' | 'cross' | 'bar' {
+function mapDotArrowhead(arrowhead?: string): ArrowHeadType {
     if (!arrowhead) return 'arrow';
 
-    const map: Record<string, 'none' | 'arrow' | 'open' | 'diamond' | 'diamond-filled' | 'circle' | 'circle-filled' | 'cross' | 'bar'> = {
+    const map: Record<string, ArrowHeadType> = {
         'none': 'none',
         'normal': 'arrow',
         'open': 'open',
         'empty': 'open',
-        'diamond': 'diamond',
+        'onormal': 'open',
+        'diamond': 'diamond-filled',
         'odiamond': 'diamond',
+        'ediamond': 'diamond',
         'dot': 'circle-filled',
         'odot': 'circle',
         'box': 'bar',
@@ -379,7 +931,7 @@ function mapDotShape(shape?: string): NodeShape {
         'plain': 'rectangle',
         'none': 'rectangle',
         'record': 'rectangle',
-        'Mrecord': 'rounded-rectangle',
+        'mrecord': 'rounded-rectangle',
     };
 
     return shapeMap[shape.toLowerCase()] || 'rectangle';
@@ -7,11 +7,14 @@
  * - Edge waypoints
  * - All node shapes
  * - Compressed diagram content (Confluence format)
+ * - Multi-page files (one diagram per page)
  */
 
 import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape, ArrowConfig } from '../types';
 import { createEmptyDiagram, createNode, createEdge, createGroup, validateInput, validatePattern } from './base';
-import { parseDrawioShape, DRAWIO_ARROW_HEAD_REVERSE } from '../utils';
+import { parseDrawioShape, DRAWIO_ARROW_HEAD_REVERSE, parseXml, decodeHtmlEntities } from '../utils';
+import type { XmlDocument, XmlElement } from '../utils';
+import { ParseError } from '../errors';
 import pako from 'pako';
 
 /** Parsed style object */
@@ -72,33 +75,81 @@ interface ParsedStyle {
     [key: string]: unknown;
 }
 
-/** Parse Draw.io XML to IR diagram */
-export function parseDrawio(source: string): Diagram {
+/** Options for parsing Draw.io files */
+export interface DrawioParseOptions {
+    /** Page of a multi-page file: zero-based index, page id or page name (default: first page) */
+    page?: number | string;
+}
+
+/** Parse Draw.io XML to IR diagram (a single page) */
+export function parseDrawio(source: string, options: DrawioParseOptions = {}): Diagram {
+    const pages = loadDrawioPages(source);
+    return parsePage(selectPage(pages, options.page));
+}
+
+/**
+ * Parse every page of a Draw.io file
+ *
+ * Each page becomes a separate diagram carrying the page id and name.
+ */
+export function parseDrawioPages(source: string): Diagram[] {
+    return loadDrawioPages(source).map(parsePage);
+}
+
+/**
+ * Parse source XML and return the page elements
+ *
+ * For an mxfile these are its `<diagram>` elements; a bare
+ * mxGraphModel is treated as a single page.
+ */
+function loadDrawioPages(source: string): XmlElement[] {
     validateInput(source, 'drawio');
     validatePattern(source, /<mxfile|<mxGraphModel/i, 'drawio', 'Invalid Draw.io XML format');
 
-    const diagram = createEmptyDiagram('flowchart', 'drawio');
+    const doc = parseXml(source, 'drawio');
 
     // Decompress if needed (Confluence stores Draw.io in compressed format)
-    const decompressedSource = decompressDrawioXml(source);
+    decompressDrawioPages(doc);
+
+    const pages = Array.from(doc.querySelectorAll('diagram'));
+    if (pages.length > 0) {
+        return pages;
+    }
+
+    const graphModel = doc.querySelector('mxGraphModel');
+    return graphModel ? [graphModel] : [doc.documentElement];
+}
 
-    // Parse XML
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(decompressedSource, 'text/xml');
+/** Pick a page by index, id or name */
+function selectPage(pages: XmlElement[], page: number | string | undefined): XmlElement {
+    if (page === undefined) {
+        return pages[0];
+    }
+
+    const found = typeof page === 'number'
+        ? pages[page]
+        : pages.find(p => p.getAttribute('id') === page)
+            ?? pages.find(p => p.getAttribute('name') === page);
 
-    // Check for parse errors
-    const parseError = doc.querySelector('parsererror');
-    if (parseError) {
-        throw new Error(`Invalid Draw.io XML: ${parseError.textContent}`);
+    if (!found) {
+        const available = pages.map((p, i) => p.getAttribute('name') || String(i));
+        throw new ParseError(`Draw.io page not found: ${page}`, 'drawio', undefined, undefined, { pages: available });
     }
+    return found;
+}
+
+/** Parse one page (a `<diagram>` element or bare mxGraphModel) to IR diagram */
+function parsePage(page: XmlElement): Diagram {
+    const diagram = createEmptyDiagram('flowchart', 'drawio');
 
-    // Find all mxCell elements
-    const cells = doc.querySelectorAll('mxCell');
+    // Find all mxCell elements of this page
+    const cells = page.querySelectorAll('mxCell');
 
     // Maps for resolving references
-    const cellMap = new Map<string, Element>();
+    const cellMap = new Map<string, XmlElement>();
     const nodeIdMap = new Map<string, string>(); // mxCell id -> IR node id
     const groupIdMap = new Map<string, string>(); // mxCell id -> IR group id
+    const nodeParentCell = new Map<string, string>(); // IR node id -> parent mxCell id
 
     // First pass: collect all cells
     cells.forEach(cell => {
@@ -119,6 +170,15 @@ export function parseDrawio(source: string): Diagram {
         }
     });
 
+    // Nested groups: a container inside another container
+    cells.forEach(cell => {
+        const groupIrId = groupIdMap.get(cell.getAttribute('id') || '');
+        const parentGroupId = groupIdMap.get(cell.getAttribute('parent') || '');
+        if (groupIrId && parentGroupId && groupIrId !== parentGroupId) {
+            diagram.groups.find(g => g.id === parentGroupId)?.children.push(groupIrId);
+        }
+    });
+
     // Third pass: parse nodes (vertices)
     cells.forEach(cell => {
         if (isVertex(cell) && !isGroup(cell)) {
@@ -129,6 +189,9 @@ export function parseDrawio(source: string): Diagram {
 
                 // Add to parent group if exists
                 const parentId = cell.getAttribute('parent');
+                if (parentId) {
+                    nodeParentCell.set(node.id, parentId);
+                }
                 if (parentId && groupIdMap.has(parentId)) {
                     const groupIrId = groupIdMap.get(parentId)!;
                     const group = diagram.groups.find(g => g.id === groupIrId);
@@ -140,24 +203,37 @@ export function parseDrawio(source: string): Diagram {
         }
     });
 
+    // Child geometry is relative to its container; the IR uses absolute coordinates
+    const groupOffsets = resolveGroupOffsets(cells, groupIdMap, diagram.groups);
+    for (const node of diagram.nodes) {
+        const offset = groupOffsets.get(nodeParentCell.get(node.id) || '');
+        if (offset && node.position) {
+            node.position = { x: node.position.x + offset.x, y: node.position.y + offset.y };
+        }
+    }
+
     // Fourth pass: parse edges
     cells.forEach(cell => {
         if (isEdge(cell)) {
             const edge = parseEdgeCell(cell, nodeIdMap);
             if (edge) {
+                const offset = groupOffsets.get(cell.getAttribute('parent') || '');
+                if (offset && edge.waypoints) {
+                    edge.waypoints = edge.waypoints.map(p => ({ x: p.x + offset.x, y: p.y + offset.y }));
+                }
                 diagram.edges.push(edge);
             }
         }
     });
 
-    // Extract diagram name and metadata
-    const diagramEl = doc.querySelector('diagram');
-    if (diagramEl) {
-        diagram.name = diagramEl.getAttribute('name') || undefined;
+    // Extract page id and name
+    if (page.tagName === 'diagram') {
+        diagram.id = page.getAttribute('id') || diagram.id;
+        diagram.name = page.getAttribute('name') || undefined;
     }
 
     // Extract page settings
-    const graphModel = doc.querySelector('mxGraphModel');
+    const graphModel = page.tagName === 'mxGraphModel' ? page : page.querySelector('mxGraphModel');
     if (graphModel) {
         const pageWidth = graphModel.getAttribute('pageWidth');
         const pageHeight = graphModel.getAttribute('pageHeight');
@@ -182,6 +258,52 @@ export function parseDrawio(source: string): Diagram {
     return diagram;
 }
 
+/**
+ * Convert container-relative group positions to absolute ones
+ *
+ * @returns Absolute origin of every group cell, keyed by mxCell id
+ */
+function resolveGroupOffsets(
+    cells: XmlElement[],
+    groupIdMap: Map<string, string>,
+    groups: DiagramGroup[]
+): Map<string, { x: number; y: number }> {
+    const parentCell = new Map<string, string>();
+    cells.forEach(cell => {
+        const id = cell.getAttribute('id');
+        const parent = cell.getAttribute('parent');
+        if (id && parent && groupIdMap.has(id) && groupIdMap.has(parent)) {
+            parentCell.set(id, parent);
+        }
+    });
+
+    const groupsById = new Map(groups.map(g => [g.id, g]));
+    const offsets = new Map<string, { x: number; y: number }>();
+
+    const resolve = (cellId: string, depth: number): { x: number; y: number } => {
+        const cached = offsets.get(cellId);
+        if (cached) return cached;
+
+        const group = groupsById.get(groupIdMap.get(cellId)!);
+        const own = group?.position || { x: 0, y: 0 };
+        const parent = parentCell.get(cellId);
+        const base = parent && depth < groupIdMap.size ? resolve(parent, depth + 1) : { x: 0, y: 0 };
+        const absolute = { x: own.x + base.x, y: own.y + base.y };
+
+        offsets.set(cellId, absolute);
+        if (group?.position) {
+            group.position = absolute;
+        }
+        return absolute;
+    };
+
+    for (const cellId of groupIdMap.keys()) {
+        resolve(cellId, 0);
+    }
+
+    return offsets;
+}
+
 /** Parse CSS-like style string to object */
 function parseStyleString(style: string): ParsedStyle {
     const result: ParsedStyle = {};
@@ -237,6 +359,10 @@ function parseStyleString(style: string): ParsedStyle {
             const trimmed = part.trim();
             if (trimmed && !trimmed.includes('=')) {
                 result.shape = trimmed;
+                // Bare container styles ("swimlane;...", "group;...")
+                if (trimmed === 'swimlane' || trimmed === 'group') {
+                    result[trimmed] = true;
+                }
             }
         }
     }
@@ -245,24 +371,24 @@ function parseStyleString(style: string): ParsedStyle {
 }
 
 /** Check if cell is a vertex (node) */
-function isVertex(cell: Element): boolean {
+function isVertex(cell: XmlElement): boolean {
     return cell.getAttribute('vertex') === '1';
 }
 
 /** Check if cell is an edge */
-function isEdge(cell: Element): boolean {
+function isEdge(cell: XmlElement): boolean {
     return cell.getAttribute('edge') === '1';
 }
 
 /** Check if cell is a group (swimlane, container) */
-function isGroup(cell: Element): boolean {
+function isGroup(cell: XmlElement): boolean {
     const style = cell.getAttribute('style') || '';
     const parsed = parseStyleString(style);
     return Boolean(parsed.swimlane || parsed.group || parsed.container);
 }
 
 /** Parse node from mxCell */
-function parseNodeCell(cell: Element): DiagramNode | null {
+function parseNodeCell(cell: XmlElement): DiagramNode | null {
     const id = cell.getAttribute('id');
     if (!id || id === '0' || id === '1') return null; // Skip root cells
 
@@ -310,7 +436,7 @@ function parseNodeCell(cell: Element): DiagramNode | null {
 
 /** Parse edge from mxCell */
 function parseEdgeCell(
-    cell: Element,
+    cell: XmlElement,
     nodeIdMap: Map<string, string>
 ): DiagramEdge | null {
     const sourceId = cell.getAttribute('source');
@@ -381,7 +507,7 @@ function parseEdgeCell(
 }
 
 /** Parse group from mxCell */
-function parseGroupCell(cell: Element): DiagramGroup | null {
+function parseGroupCell(cell: XmlElement): DiagramGroup | null {
     const id = cell.getAttribute('id');
     if (!id || id === '0' || id === '1') return null;
 
@@ -484,52 +610,25 @@ function parseEdgeArrowFromParsed(style: ParsedStyle): ArrowConfig {
     return config;
 }
 
-/** Decode HTML entities in text */
-function decodeHtmlEntities(text: string): string {
-    const textarea = document.createElement('textarea');
-    textarea.innerHTML = text;
-    return textarea.value;
-}
-
 /**
- * Decompress Draw.io XML if it contains compressed content
- * 
+ * Decompress the pages of a Draw.io file that hold compressed content
+ *
  * Confluence and Draw.io store diagrams in compressed format:
  * 1. mxGraphModel XML is deflate-compressed
  * 2. Then URL-encoded  
  * 3. Then base64-encoded
  * 4. Stored in <diagram> element text content
+ *
+ * The decompressed mxGraphModel replaces the text of its `<diagram>`.
  */
-function decompressDrawioXml(source: string): string {
-    // Check if this is an mxfile with potentially compressed content
-    if (!source.includes('<mxfile')) {
-        return source;
-    }
-
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(source, 'text/xml');
-
-    // Check for parse errors
-    const parseError = doc.querySelector('parsererror');
-    if (parseError) {
-        return source;
-    }
-
-    // Find diagram elements
-    const diagrams = doc.querySelectorAll('diagram');
-    if (diagrams.length === 0) {
-        return source;
-    }
-
-    let modified = false;
-
-    diagrams.forEach(diagram => {
+function decompressDrawioPages(doc: XmlDocument): void {
+    doc.querySelectorAll('diagram').forEach(diagram => {
         // If diagram already has mxGraphModel child, it's not compressed
         if (diagram.querySelector('mxGraphModel')) {
             return;
         }
 
-        const content = diagram.textContent?.trim() || '';
+        const content = diagram.textContent.trim();
         if (!content || content.length < 20) {
             return;
         }
@@ -544,15 +643,9 @@ function decompressDrawioXml(source: string): string {
             const decompressed = decompressBase64Content(content);
 
             if (decompressed && decompressed.includes('<mxGraphModel')) {
-                // Parse decompressed content and replace diagram content
-                const decompressedDoc = parser.parseFromString(decompressed, 'text/xml');
-                const graphModel = decompressedDoc.querySelector('mxGraphModel');
-
-                if (graphModel && !decompressedDoc.querySelector('parsererror')) {
-                    // Clear diagram text and append decompressed mxGraphModel
-                    diagram.textContent = '';
-                    diagram.appendChild(doc.importNode(graphModel, true));
-                    modified = true;
+                const graphModel = parseXml(decompressed, 'drawio').querySelector('mxGraphModel');
+                if (graphModel) {
+                    diagram.replaceChildren(graphModel);
                 }
             }
         } catch (error) {
@@ -560,13 +653,6 @@ function decompressDrawioXml(source: string): string {
             console.warn('[DrawioParser] Decompression failed:', error);
         }
     });
-
-    if (modified) {
-        const serializer = new XMLSerializer();
-        return serializer.serializeToString(doc);
-    }
-
-    return source;
 }
 
 /**
@@ -18,18 +18,15 @@
  *     }
  */
 
-import type { Diagram, DiagramNode, DiagramEdge } from '../types';
+import type { Diagram } from '../types';
 import type {
-    IRERDiagram,
     IREntity,
     IRAttribute,
     IRRelationship,
-    ERCardinality,
-    ERIdentifying,
     ERAttributeKeyType,
 } from '../types/er';
 import { parseLeftCardinality, parseRightCardinality } from '../types/er';
-import { generateId } from '../utils';
+import { embedERData, generateId } from '../utils';
 import { validateInput } from './base';
 
 // =============================================================================
@@ -45,12 +42,15 @@ const RELATIONSHIP_PATTERN = /^(\w[\w-]*)\s*(\|o|\|\||\}o|\}[|])\s*(--|\.\.)\s*(
 /** Match entity block start: ENTITY { */
 const ENTITY_BLOCK_START = /^(\w[\w-]*)\s*\{$/;
 
-/** Match attribute line: type name [PK|FK|UK] ["comment"] */
-const ATTRIBUTE_PATTERN = /^\s*(\w+)\s+(\w+)(?:\s+(PK|FK|UK))?(?:\s+"([^"]*)")?$/;
+/** Match attribute line: type name [PK|FK|UK] ["comment"]; types may carry `(size)` or `[]` */
+const ATTRIBUTE_PATTERN = /^\s*([a-zA-Z][\w()[\]-]*)\s+(\w+)(?:\s+(PK|FK|UK))?(?:\s+"([^"]*)")?$/i;
 
 /** Match entity block end */
 const ENTITY_BLOCK_END = /^\s*\}$/;
 
+/** Match direction statement: direction LR */
+const DIRECTION_PATTERN = /^direction\s+(TB|TD|BT|LR|RL)$/i;
+
 // =============================================================================
 // Parser
 // =============================================================================
@@ -65,6 +65,7 @@ export function parseERDiagram(source: string): Diagram {
 
     let currentEntity: IREntity | null = null;
     let inEntityBlock = false;
+    let direction: string | undefined;
 
     for (const rawLine of lines) {
         const line = rawLine.trim();
@@ -79,6 +80,13 @@ export function parseERDiagram(source: string): Diagram {
             continue;
         }
 
+        const directionMatch = !inEntityBlock && line.match(DIRECTION_PATTERN);
+        if (directionMatch) {
+            direction = directionMatch[1].toUpperCase();
+            if (direction === 'TD') direction = 'TB';
+            continue;
+        }
+
         // Handle entity block end
         if (ENTITY_BLOCK_END.test(line)) {
             if (currentEntity) {
@@ -140,8 +148,12 @@ export function parseERDiagram(source: string): Diagram {
         }
     }
 
-    // Convert to standard IR Diagram
-    return convertToIR(entities, relationships);
+    return embedERData({
+        id: generateId(),
+        entities: [...entities.values()],
+        relationships,
+        metadata: { source: 'mermaid-er', ...(direction && { direction }) },
+    });
 }
 
 /** Get existing entity or create new one */
@@ -157,83 +169,6 @@ function getOrCreateEntity(entities: Map<string, IREntity>, name: string): IREnt
     return entities.get(name)!;
 }
 
-/** Convert ER-specific structures to standard IR Diagram */
-function convertToIR(
-    entities: Map<string, IREntity>,
-    relationships: IRRelationship[]
-): Diagram {
-    const nodes: DiagramNode[] = [];
-    const edges: DiagramEdge[] = [];
-
-    // Convert entities to nodes
-    for (const entity of entities.values()) {
-        const node: DiagramNode = {
-            id: entity.id,
-            type: 'node',
-            label: formatEntityLabel(entity),
-            shape: 'rectangle',
-            style: {},
-            metadata: {
-                entityType: 'er-entity',
-                attributes: entity.attributes,
-            },
-        };
-        nodes.push(node);
-    }
-
-    // Convert relationships to edges
-    for (const rel of relationships) {
-        const edge: DiagramEdge = {
-            id: rel.id,
-            type: 'edge',
-            source: rel.source,
-            target: rel.target,
-            label: rel.label,
-            arrow: {
-                sourceType: 'none',
-                targetType: 'none',
-                lineType: rel.identifying === 'identifying' ? 'solid' : 'dashed',
-            },
-            style: {},
-            metadata: {
-                relationshipType: 'er-relationship',
-                sourceCardinality: rel.sourceCardinality,
-                targetCardinality: rel.targetCardinality,
-                identifying: rel.identifying,
-            },
-        };
-        edges.push(edge);
-    }
-
-    return {
-        id: generateId(),
-        type: 'er',
-        nodes,
-        edges,
-        groups: [],
-        metadata: {
-            source: 'mermaid-er',
-        },
-    };
-}
-
-/** Format entity label with attributes */
-function formatEntityLabel(entity: IREntity): string {
-    if (entity.attributes.length === 0) {
-        return entity.name;
-    }
-
-    const attrLines = entity.attributes.map(attr => {
-        let line = `${attr.type} ${attr.name}`;
-        if (attr.keyType) {
-            line += ` ${attr.keyType}`;
-        }
-        return line;
-    });
-
-    return `${entity.name}\n${attrLines.join('\n')}`;
-}
-
 // =============================================================================
 // Utility Functions for External Use
 // =============================================================================
@@ -244,32 +179,4 @@ export function isERDiagram(source: string): boolean {
 }
 
 /** Extract ER-specific data from parsed diagram */
-export function extractERData(diagram: Diagram): IRERDiagram | null {
-    if (diagram.type !== 'er') {
-        return null;
-    }
-
-    const entities: IREntity[] = diagram.nodes.map(node => ({
-        id: node.id,
-        name: node.id,
-        attributes: (node.metadata?.attributes as IRAttribute[]) || [],
-    }));
-
-    const relationships: IRRelationship[] = diagram.edges.map(edge => ({
-        id: edge.id,
-        source: edge.source,
-        target: edge.target,
-        sourceCardinality: (edge.metadata?.sourceCardinality as ERCardinality) || 'exactly-one',
-        targetCardinality: (edge.metadata?.targetCardinality as ERCardinality) || 'exactly-one',
-        identifying: (edge.metadata?.identifying as ERIdentifying) || 'identifying',
-        label: edge.label,
-    }));
-
-    return {
-        id: diagram.id,
-        title: diagram.name,
-        entities,
-        relationships,
-        metadata: diagram.metadata,
-    };
-}
+export { extractERData } from '../utils';
@@ -0,0 +1,213 @@
+/**
+ * Mermaid Gantt Chart Parser
+ *
+ * Parses Mermaid gantt syntax to IR
+ *
+ * Supported features:
+ * - title, dateFormat, axisFormat, excludes, inclusiveEndDates
+ * - Sections
+ * - Tasks with tags (done, active, crit, milestone), IDs, start dates,
+ *   `after` dependencies, end dates and durations (30d, 1w, 12h)
+ * - Tasks without a start follow the previous task
+ *
+ * Syntax examples:
+ *   gantt
+ *     title Release plan
+ *     dateFormat YYYY-MM-DD
+ *     excludes weekends
+ *     section Build
+ *     Design      :done, des, 2024-01-01, 5d
+ *     Implement   :active, impl, after des, 10d
+ *     Release     :milestone, rel, after impl, 0d
+ */
+
+import type { Diagram, GanttTaskTag, IRGanttDiagram, IRGanttTask } from '../types';
+import {
+    addCalendarDays,
+    DEFAULT_GANTT_DATE_FORMAT,
+    embedGanttData,
+    GANTT_WEEKDAYS,
+    generateId,
+    parseGanttDate,
+    parseGanttDuration,
+} from '../utils';
+import { validateInput } from './base';
+
+// =============================================================================
+// Regex Patterns
+// =============================================================================
+
+/** Match a keyword line: title Release plan */
+const KEYWORD_PATTERN = /^(title|dateFormat|axisFormat|tickInterval|excludes|includes|todayMarker|weekday|weekend|section)\b\s*(.*)$/i;
+
+/** Match task line: Task name : metadata */
+const TASK_PATTERN = /^([^:]+?)\s*:(.*)$/;
+
+/** Lines that only affect rendering or interaction */
+const IGNORED_PATTERN = /^(?:click|accTitle|accDescr|displayMode)\b/;
+
+/** Task tags that may precede the task metadata */
+const TASK_TAGS = new Set(['done', 'active', 'crit', 'milestone']);
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse Mermaid gantt chart to IR */
+export function parseGanttDiagram(source: string): Diagram {
+    validateInput(source, 'mermaid');
+
+    const gantt: IRGanttDiagram = {
+        id: generateId(),
+        excludes: [],
+        sections: [],
+        tasks: [],
+        metadata: { source: 'mermaid-gantt' },
+    };
+
+    let dateFormat = DEFAULT_GANTT_DATE_FORMAT;
+    let inclusiveEndDates = false;
+    let currentSection: string | undefined;
+
+    for (const rawLine of source.trim().split('\n')) {
+        const line = rawLine.trim();
+
+        // Skip empty lines, comments and the header
+        if (!line || line.startsWith('%%') || /^gantt\b/i.test(line) || IGNORED_PATTERN.test(line)) {
+            continue;
+        }
+
+        if (/^inclusiveEndDates$/i.test(line)) {
+            inclusiveEndDates = true;
+            gantt.metadata = { ...gantt.metadata, inclusiveEndDates: true };
+            continue;
+        }
+
+        const keywordMatch = line.match(KEYWORD_PATTERN);
+        if (keywordMatch) {
+            const [, keyword, value] = keywordMatch;
+            switch (keyword.toLowerCase()) {
+                case 'title':
+                    gantt.title = value.trim();
+                    break;
+                case 'dateformat':
+                    dateFormat = value.trim();
+                    gantt.dateFormat = dateFormat;
+                    break;
+                case 'axisformat':
+                    gantt.axisFormat = value.trim();
+                    break;
+                case 'excludes':
+                    gantt.excludes.push(...parseExcludes(value, dateFormat));
+                    break;
+                case 'section':
+                    currentSection = value.trim();
+                    if (!gantt.sections.includes(currentSection)) {
+                        gantt.sections.push(currentSection);
+                    }
+                    break;
+            }
+            continue;
+        }
+
+        const taskMatch = line.match(TASK_PATTERN);
+        if (taskMatch) {
+            const previous = gantt.tasks[gantt.tasks.length - 1];
+            const task = parseTask(taskMatch[1], taskMatch[2], gantt.tasks.length, dateFormat, inclusiveEndDates);
+            if (!task.start && !task.after && previous) {
+                task.after = [previous.id];
+            }
+            if (currentSection) {
+                task.section = currentSection;
+            }
+            gantt.tasks.push(task);
+        }
+    }
+
+    return embedGanttData(gantt);
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Parse task metadata: [tags,] [id,] [start,] end-or-duration */
+function parseTask(
+    name: string,
+    data: string,
+    index: number,
+    dateFormat: string,
+    inclusiveEndDates: boolean
+): IRGanttTask {
+    const items = data.split(',').map(item => item.trim()).filter(Boolean);
+    const tags: GanttTaskTag[] = [];
+    let milestone = false;
+
+    while (items.length > 0 && TASK_TAGS.has(items[0])) {
+        const tag = items.shift()!;
+        if (tag === 'milestone') {
+            milestone = true;
+        } else {
+            tags.push(tag as GanttTaskTag);
+        }
+    }
+
+    let id: string | undefined;
+    let startText: string | undefined;
+    let endText: string | undefined;
+    if (items.length >= 3) {
+        [id, startText, endText] = items;
+    } else if (items.length === 2) {
+        [startText, endText] = items;
+    } else {
+        [endText] = items;
+    }
+
+    const task: IRGanttTask = { id: id ?? `task${index + 1}`, name: name.trim() };
+    if (milestone) task.milestone = true;
+    if (tags.length > 0) task.tags = tags;
+
+    // Start: date or after <ids>
+    const afterMatch = startText?.match(/^after\s+(.+)$/i);
+    if (afterMatch) {
+        task.after = afterMatch[1].trim().split(/\s+/);
+    } else if (startText) {
+        task.start = parseGanttDate(startText, dateFormat);
+    }
+
+    // End: date, duration or until <id>
+    if (endText) {
+        const untilMatch = endText.match(/^until\s+(.+)$/i);
+        const duration = parseGanttDuration(endText);
+        const endDate = parseGanttDate(endText, dateFormat);
+        if (untilMatch) {
+            task.metadata = { until: untilMatch[1].trim().split(/\s+/) };
+        } else if (duration !== undefined) {
+            task.duration = duration;
+        } else if (endDate) {
+            task.end = inclusiveEndDates ? addCalendarDays(endDate, 1) : endDate;
+        }
+    }
+
+    return task;
+}
+
+/** Parse excludes list: weekends, weekday names and dates */
+function parseExcludes(value: string, dateFormat: string): string[] {
+    return value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean)
+        .map(item => {
+            const lower = item.toLowerCase();
+            if (lower === 'weekends' || GANTT_WEEKDAYS.includes(lower)) {
+                return lower;
+            }
+            return parseGanttDate(item, dateFormat) ?? item;
+        });
+}
+
+/** Check if source is a Mermaid gantt chart */
+export function isGanttDiagram(source: string): boolean {
+    return /^\s*gantt\s*$/im.test(source);
+}
@@ -7,13 +7,14 @@
 
 import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape } from '../types';
 import { validateInput } from './base';
+import { parseXml } from '../utils';
+import type { XmlElement } from '../utils';
 
 /** Parse GraphML XML to IR */
 export function parseGraphml(xml: string): Diagram {
     validateInput(xml, 'graphml');
 
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, 'text/xml');
+    const doc = parseXml(xml, 'graphml');
 
     const nodes: DiagramNode[] = [];
     const edges: DiagramEdge[] = [];
@@ -99,7 +100,7 @@ export function parseGraphml(xml: string): Diagram {
     };
 }
 
-function getDataValue(element: Element, attrName: string, keys: Map<string, { for: string; name: string }>): string | null {
+function getDataValue(element: XmlElement, attrName: string, keys: Map<string, { for: string; name: string }>): string | null {
     // Find key id for this attribute name
     for (const [keyId, keyInfo] of keys) {
         if (keyInfo.name === attrName || keyId === attrName) {
@@ -112,7 +113,7 @@ function getDataValue(element: Element, attrName: string, keys: Map<string, { fo
     return directData?.textContent || null;
 }
 
-function detectGraphmlShape(element: Element, keys: Map<string, { for: string; name: string }>): NodeShape {
+function detectGraphmlShape(element: XmlElement, keys: Map<string, { for: string; name: string }>): NodeShape {
     const shapeData = getDataValue(element, 'shape', keys) || getDataValue(element, 'type', keys) || '';
     const lower = shapeData.toLowerCase();
 
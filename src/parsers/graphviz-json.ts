@@ -0,0 +1,128 @@
+/**
+ * Graphviz -Tjson parser
+ *
+ * Parses the JSON output of `dot -Tjson` / `-Tjson0` to IR. The first
+ * `_subgraph_cnt` objects are subgraphs, the rest are nodes; edges refer to
+ * nodes by `_gvid`. Attributes are the same as in DOT, so the graph is
+ * converted like a parsed DOT file, layout included.
+ */
+
+import type { Diagram } from '../types';
+import { ParseError } from '../errors';
+import { validateInput } from './base';
+import { buildDotDiagram, type DotAttributes, type DotCluster, type DotModel } from './dot';
+
+interface GraphvizJsonObject {
+    _gvid: number;
+    name: string;
+    nodes?: number[];
+    subgraphs?: number[];
+    [attribute: string]: unknown;
+}
+
+interface GraphvizJsonEdge {
+    _gvid: number;
+    tail: number;
+    head: number;
+    [attribute: string]: unknown;
+}
+
+interface GraphvizJson {
+    name?: string;
+    directed?: boolean;
+    strict?: boolean;
+    _subgraph_cnt?: number;
+    objects?: GraphvizJsonObject[];
+    edges?: GraphvizJsonEdge[];
+    [attribute: string]: unknown;
+}
+
+/** Keys of JSON objects that are structure rather than DOT attributes */
+const STRUCTURE_KEYS = new Set(['name', 'directed', 'strict', 'nodes', 'edges', 'subgraphs', 'objects', 'tail', 'head']);
+
+/** Parse Graphviz JSON output to IR */
+export function parseGraphvizJson(source: string): Diagram {
+    validateInput(source, 'graphviz-json');
+
+    let json: GraphvizJson;
+    try {
+        json = JSON.parse(source) as GraphvizJson;
+    } catch (error) {
+        throw new ParseError(`Invalid JSON: ${(error as Error).message}`, 'graphviz-json');
+    }
+
+    const objects = json.objects ?? [];
+    const subgraphCount = json._subgraph_cnt ?? 0;
+    const subgraphs = objects.slice(0, subgraphCount);
+    const nodeObjects = objects.slice(subgraphCount);
+    const byId = new Map(objects.map(object => [object._gvid, object]));
+
+    const model: DotModel = {
+        graph: { strict: json.strict ?? false, directed: json.directed ?? true, id: json.name, statements: [] },
+        attributes: attributesOf(json),
+        nodes: new Map(nodeObjects.map(object => [object.name, { id: object.name, attributes: attributesOf(object) }])),
+        edges: [],
+        clusters: [],
+        ranks: [],
+    };
+
+    // Subgraphs list every node below them; a node belongs to its deepest cluster
+    const nested = new Set(subgraphs.flatMap(subgraph => subgraph.subgraphs ?? []));
+    const depths = new Map<string, number>();
+    const visit = (subgraph: GraphvizJsonObject, depth: number, parent: DotCluster | undefined) => {
+        const attributes = attributesOf(subgraph);
+        let cluster = parent;
+        if (subgraph.name.startsWith('cluster')) {
+            cluster = { name: subgraph.name, attributes, children: [] };
+            model.clusters.push(cluster);
+            parent?.children.push(subgraph.name);
+        }
+        const members = (subgraph.nodes ?? []).map(id => byId.get(id)?.name).filter((name): name is string => !!name);
+        if (attributes.rank) model.ranks.push({ rank: attributes.rank.text, nodes: members });
+        if (cluster && cluster !== parent) {
+            for (const name of members) {
+                const record = model.nodes.get(name);
+                if (record && (depths.get(name) ?? -1) < depth) {
+                    record.cluster = cluster;
+                    depths.set(name, depth);
+                }
+            }
+        }
+        for (const child of subgraph.subgraphs ?? []) {
+            const object = byId.get(child);
+            if (object) visit(object, depth + 1, cluster);
+        }
+    };
+    subgraphs.filter(subgraph => !nested.has(subgraph._gvid)).forEach(subgraph => visit(subgraph, 0, undefined));
+    for (const record of model.nodes.values()) {
+        record.cluster?.children.push(record.id);
+    }
+
+    for (const edge of json.edges ?? []) {
+        const tail = byId.get(edge.tail)?.name;
+        const head = byId.get(edge.head)?.name;
+        if (tail === undefined || head === undefined) {
+            throw new ParseError(`Edge ${edge._gvid} refers to an unknown node`, 'graphviz-json');
+        }
+        model.edges.push({
+            source: { kind: 'node', id: tail },
+            target: { kind: 'node', id: head },
+            attributes: attributesOf(edge),
+            directed: model.graph.directed,
+        });
+    }
+
+    return buildDotDiagram(model, 'graphviz-json');
+}
+
+/** String properties are DOT attributes; labels written as <...> are HTML */
+function attributesOf(object: Record<string, unknown>): DotAttributes {
+    const attributes: DotAttributes = {};
+    for (const [key, value] of Object.entries(object)) {
+        if (typeof value !== 'string' || key.startsWith('_') || STRUCTURE_KEYS.has(key)) continue;
+        attributes[key.toLowerCase()] = key === 'label' && /^<[\s\S]*>$/.test(value)
+            ? { text: value.slice(1, -1), html: true }
+            : { text: value };
+    }
+    return attributes;
+}
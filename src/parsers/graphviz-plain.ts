@@ -0,0 +1,134 @@
+/**
+ * Graphviz -Tplain parser
+ *
+ * Parses the line-based layout output of `dot -Tplain` to IR:
+ *
+ *   graph scale width height
+ *   node name x y width height label style shape color fillcolor
+ *   edge tail head n x1 y1 .. xn yn [label xl yl] style color
+ *   stop
+ *
+ * Coordinates are inches with y growing upwards; they are converted to
+ * points and flipped like the `pos` attributes of `dot -Tdot` output.
+ */
+
+import type { Diagram } from '../types';
+import { ParseError } from '../errors';
+import { validateInput } from './base';
+import { buildDotDiagram, type DotAttributes, type DotModel, type DotValue } from './dot';
+
+const POINTS_PER_INCH = 72;
+
+/** Parse Graphviz plain output to IR */
+export function parseGraphvizPlain(source: string): Diagram {
+    validateInput(source, 'graphviz-plain');
+
+    const model: DotModel = {
+        graph: { strict: false, directed: true, statements: [] },
+        attributes: {},
+        nodes: new Map(),
+        edges: [],
+        clusters: [],
+        ranks: [],
+    };
+
+    source.split(/\r?\n/).forEach((text, index) => {
+        const line = index + 1;
+        const fields = splitPlainLine(text, line);
+        if (fields.length === 0) return;
+        const number = (position: number) => {
+            const value = Number(fields[position]?.text);
+            if (!Number.isFinite(value)) {
+                throw new ParseError(`Expected a number in field ${position + 1}`, 'graphviz-plain', line);
+            }
+            return value;
+        };
+        const points = (position: number) => number(position) * POINTS_PER_INCH;
+
+        switch (fields[0].text) {
+            case 'graph':
+                model.attributes.bb = { text: `0,0,${points(2)},${points(3)}` };
+                break;
+            case 'node': {
+                if (fields.length < 11) throw new ParseError('Incomplete node line', 'graphviz-plain', line);
+                const attributes: DotAttributes = {
+                    pos: { text: `${points(2)},${points(3)}` },
+                    width: { text: String(number(4)) },
+                    height: { text: String(number(5)) },
+                    label: fields[6],
+                    style: fields[7],
+                    shape: fields[8],
+                };
+                // Defaults are always written; keep what differs
+                if (fields[9].text !== 'black') attributes.color = fields[9];
+                if (fields[7].text.includes('filled')) attributes.fillcolor = fields[10];
+                model.nodes.set(fields[1].text, { id: fields[1].text, attributes });
+                break;
+            }
+            case 'edge': {
+                const count = number(3);
+                const rest = 4 + count * 2;
+                if (fields.length < rest + 2) throw new ParseError('Incomplete edge line', 'graphviz-plain', line);
+                const spline = Array.from({ length: count }, (_, i) => `${points(4 + i * 2)},${points(5 + i * 2)}`);
+                const attributes: DotAttributes = {
+                    pos: { text: spline.join(' ') },
+                    style: fields[fields.length - 2],
+                };
+                if (fields[fields.length - 1].text !== 'black') attributes.color = fields[fields.length - 1];
+                // The optional label comes with its position
+                if (fields.length >= rest + 5) attributes.label = fields[rest];
+                for (const id of [fields[1].text, fields[2].text]) {
+                    if (!model.nodes.has(id)) model.nodes.set(id, { id, attributes: {} });
+                }
+                model.edges.push({
+                    source: { kind: 'node', id: fields[1].text },
+                    target: { kind: 'node', id: fields[2].text },
+                    attributes,
+                    directed: true,
+                });
+                break;
+            }
+            case 'stop':
+                break;
+            default:
+                throw new ParseError(`Unknown statement "${fields[0].text}"`, 'graphviz-plain', line);
+        }
+    });
+
+    return buildDotDiagram(model, 'graphviz-plain');
+}
+
+/** Split a line into fields: plain words, "quoted strings" and <HTML> labels */
+function splitPlainLine(text: string, line: number): DotValue[] {
+    const fields: DotValue[] = [];
+    let pos = 0;
+    while (pos < text.length) {
+        if (/\s/.test(text[pos])) {
+            pos++;
+        } else if (text[pos] === '"') {
+            let value = '';
+            pos++;
+            while (pos < text.length && text[pos] !== '"') {
+                if (text[pos] === '\\' && text[pos + 1] === '"') pos++;
+                value += text[pos++];
+            }
+            if (pos >= text.length) throw new ParseError('Unterminated string', 'graphviz-plain', line);
+            pos++;
+            fields.push({ text: value });
+        } else if (text[pos] === '<') {
+            let depth = 0;
+            const start = pos;
+            do {
+                if (text[pos] === '<') depth++;
+                else if (text[pos] === '>') depth--;
+                pos++;
+            } while (depth > 0 && pos < text.length);
+            fields.push({ text: text.slice(start + 1, pos - 1), html: true });
+        } else {
+            const start = pos;
+            while (pos < text.length && !/\s/.test(text[pos])) pos++;
+            fields.push({ text: text.slice(start, pos) });
+        }
+    }
+    return fields;
+}
@@ -6,26 +6,44 @@
 
 // Core formats
 export { parseMermaid } from './mermaid';
-export { parseDrawio } from './drawio';
+export { parseDrawio, parseDrawioPages } from './drawio';
+export type { DrawioParseOptions } from './drawio';
 export { parseExcalidraw } from './excalidraw';
 export { parsePlantUML } from './plantuml';
 export { parseDot } from './dot';
+export { parseGraphvizPlain } from './graphviz-plain';
+export { parseGraphvizJson } from './graphviz-json';
 
 // Extended formats
 export { parseD2 } from './d2';
-export { parseStructurizr } from './structurizr';
-export { parseBpmn, parseBpmn as parseBPMN } from './bpmn';
+export type { D2ParseOptions } from './d2';
+export { parseStructurizr, parseStructurizrC4Diagram, parseStructurizrViews } from './structurizr';
+export type { StructurizrParseOptions } from './structurizr';
+export { parseBpmn, parseBpmn as parseBPMN, parseBpmnDiagram } from './bpmn';
 export { parseGraphml, parseGraphml as parseGraphML } from './graphml';
 export { parseLucidchart } from './lucidchart';
 
 // State diagrams
 export { parseStateDiagram, parseToStateDiagramIR } from './state';
+export { parseSCXML, parseSCXMLStateDiagram } from './scxml';
 
 // ER Diagrams
 export { parseERDiagram, isERDiagram, extractERData } from './er-parser';
+export { parseSQL, parseSQLERDiagram } from './sql';
 
 // Sequence diagrams
-export { parseSequenceDiagram, parseSequence } from './sequence-parser';
+export { parseSequenceDiagram, parseSequence, parseSequenceToDiagram, extractSequenceData, embedSequenceData } from './sequence-parser';
+export { parsePlantUMLSequence, parsePlantUMLSequenceDiagram, isPlantUMLSequence } from './plantuml-sequence';
+
+// Class diagrams
+export { parseClassDiagram } from './class-parser';
+export { parseGanttDiagram, isGanttDiagram } from './gantt-parser';
+export { parsePlantUMLGantt, isPlantUMLGantt } from './plantuml-gantt';
+export { parseMindmapDiagram, isMindmapDiagram } from './mindmap-parser';
+export { parsePlantUMLMindmap, isPlantUMLMindmap } from './plantuml-mindmap';
+export { parseC4Diagram, isC4Diagram, parseC4Macros } from './c4-parser';
+export type { C4MacroDialect } from './c4-parser';
+export { parsePlantUMLC4, isPlantUMLC4 } from './plantuml-c4';
 
 // Base utilities
 export {
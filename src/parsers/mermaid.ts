@@ -1,7 +1,8 @@
 /**
  * Mermaid diagram parser
  * 
- * Parses Mermaid flowchart syntax to IR
+ * Parses Mermaid flowchart syntax to IR; sequence, class, state, ER, gantt, mindmap and C4
+ * diagrams are detected by their header and routed to their own parsers
  * 
  * Supported features:
  * - Comments (%% comment)
@@ -15,6 +16,13 @@
 import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, DiagramType, NodeShape, NodeStyle } from '../types';
 import { generateId, parseMermaidArrow, detectMermaidShape } from '../utils';
 import { validateInput } from './base';
+import { parseSequenceToDiagram } from './sequence-parser';
+import { parseClassDiagram } from './class-parser';
+import { parseStateDiagram } from './state';
+import { parseERDiagram } from './er-parser';
+import { parseGanttDiagram } from './gantt-parser';
+import { parseMindmapDiagram } from './mindmap-parser';
+import { parseC4Diagram } from './c4-parser';
 
 /** Class definition storage */
 interface ClassDef {
@@ -22,10 +30,26 @@ interface ClassDef {
     style: NodeStyle;
 }
 
+/** Parsers for Mermaid diagram types other than flowcharts */
+const DIAGRAM_PARSERS: Partial<Record<DiagramType, (source: string) => Diagram>> = {
+    sequence: parseSequenceToDiagram,
+    class: parseClassDiagram,
+    state: parseStateDiagram,
+    er: parseERDiagram,
+    gantt: parseGanttDiagram,
+    mindmap: parseMindmapDiagram,
+    c4: parseC4Diagram,
+};
+
 /** Parse Mermaid diagram to IR */
 export function parseMermaid(source: string): Diagram {
     validateInput(source, 'mermaid');
 
+    const typedParser = DIAGRAM_PARSERS[detectMermaidDiagramType(source)];
+    if (typedParser) {
+        return typedParser(source);
+    }
+
     // Pre-process: remove inline comments and normalize
     const cleanedSource = preprocessSource(source);
     const lines = cleanedSource.split('\n');
@@ -83,6 +107,8 @@ export function parseMermaid(source: string): Diagram {
                 children: [],
                 style: {},
             };
+            // A subgraph opened inside another one is a member of it
+            groupStack[groupStack.length - 1]?.children.push(id);
             groups.push(group);
             groupStack.push(group);
             continue;
@@ -231,6 +257,24 @@ export function parseMermaid(source: string): Diagram {
     };
 }
 
+/** Detect diagram type from the header line (first line that is not a comment) */
+function detectMermaidDiagramType(source: string): DiagramType {
+    const header = source
+        .split('\n')
+        .map(line => line.trim())
+        .find(line => line && !line.startsWith('%%'));
+
+    if (!header) return 'flowchart';
+    if (/^sequenceDiagram\b/i.test(header)) return 'sequence';
+    if (/^classDiagram(?:-v2)?\b/i.test(header)) return 'class';
+    if (/^stateDiagram(?:-v2)?\b/i.test(header)) return 'state';
+    if (/^erDiagram\b/i.test(header)) return 'er';
+    if (/^gantt\b/i.test(header)) return 'gantt';
+    if (/^mindmap\b/i.test(header)) return 'mindmap';
+    if (/^C4(?:Context|Container|Component|Dynamic|Deployment)\b/i.test(header)) return 'c4';
+    return 'flowchart';
+}
+
 /** Pre-process source: remove inline comments, handle multi-line */
 function preprocessSource(source: string): string {
     return source
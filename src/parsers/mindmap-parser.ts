@@ -0,0 +1,157 @@
+/**
+ * Mermaid Mindmap Parser
+ *
+ * Parses Mermaid mindmap syntax to IR
+ *
+ * Supported features:
+ * - Indentation-based hierarchy
+ * - Node shapes: [square], (rounded), ((circle)), ))bang((, )cloud(, {{hexagon}}
+ * - Optional node IDs (root((Topic)))
+ * - Icons (::icon(fa fa-book)) and classes (:::urgent large)
+ * - Quoted and markdown strings ("text", "`**text**`")
+ *
+ * Syntax examples:
+ *   mindmap
+ *     root((Workshop))
+ *       Ideas
+ *         ::icon(fa fa-lightbulb)
+ *         id[Prototype]
+ *       Risks
+ */
+
+import type { Diagram, IRMindmapNode, MindmapNodeShape } from '../types';
+import { createMindmapNodeId, embedMindmapData, generateId } from '../utils';
+import { ParseError } from '../errors';
+import { validateInput } from './base';
+
+// =============================================================================
+// Regex Patterns
+// =============================================================================
+
+/** Shape delimiters, longest first so (( is not read as ( */
+const SHAPE_DELIMITERS: Array<{ open: string; close: string; shape: MindmapNodeShape }> = [
+    { open: '((', close: '))', shape: 'circle' },
+    { open: '))', close: '((', shape: 'bang' },
+    { open: '{{', close: '}}', shape: 'hexagon' },
+    { open: ')', close: '(', shape: 'cloud' },
+    { open: '[', close: ']', shape: 'square' },
+    { open: '(', close: ')', shape: 'rounded' },
+];
+
+/** Match icon decoration: ::icon(fa fa-book) */
+const ICON_PATTERN = /^::icon\((.*)\)$/;
+
+/** Match class decoration: :::urgent large */
+const CLASS_PATTERN = /^:::\s*(.+)$/;
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse Mermaid mindmap to IR */
+export function parseMindmapDiagram(source: string): Diagram {
+    validateInput(source, 'mermaid');
+
+    const stack: Array<{ indent: number; node: IRMindmapNode }> = [];
+    const usedIds = new Set<string>();
+    let root: IRMindmapNode | undefined;
+    let last: IRMindmapNode | undefined;
+
+    const lines = source.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const rawLine = lines[i];
+        const line = rawLine.trim();
+
+        // Skip empty lines, comments and the header
+        if (!line || line.startsWith('%%') || /^mindmap\b/i.test(line)) {
+            continue;
+        }
+
+        const iconMatch = line.match(ICON_PATTERN);
+        if (iconMatch) {
+            if (last) last.icon = iconMatch[1].trim();
+            continue;
+        }
+
+        const classMatch = line.match(CLASS_PATTERN);
+        if (classMatch) {
+            if (last) last.cssClass = classMatch[1].trim();
+            continue;
+        }
+
+        const indent = rawLine.length - rawLine.trimStart().length;
+        const node = parseNode(line, usedIds);
+
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+            stack.pop();
+        }
+
+        if (stack.length > 0) {
+            stack[stack.length - 1].node.children.push(node);
+        } else if (!root) {
+            root = node;
+        } else {
+            throw new ParseError('Mindmap can only have one root node', 'mermaid', i + 1);
+        }
+
+        stack.push({ indent, node });
+        last = node;
+    }
+
+    if (!root) {
+        throw new ParseError('Mindmap has no root node', 'mermaid');
+    }
+
+    return embedMindmapData({
+        id: generateId(),
+        root,
+        metadata: { source: 'mermaid-mindmap' },
+    });
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Parse node text: id?, shape delimiters and label */
+function parseNode(text: string, usedIds: Set<string>): IRMindmapNode {
+    let id: string | undefined;
+    let label = text;
+    let shape: MindmapNodeShape | undefined;
+
+    for (const delimiter of SHAPE_DELIMITERS) {
+        const start = text.indexOf(delimiter.open);
+        if (start < 0 || !text.endsWith(delimiter.close) || text.length < start + delimiter.open.length + delimiter.close.length) {
+            continue;
+        }
+        // The ID part may not contain other delimiters
+        const prefix = text.slice(0, start).trim();
+        if (/[()[\]{}]/.test(prefix)) continue;
+
+        id = prefix || undefined;
+        label = text.slice(start + delimiter.open.length, text.length - delimiter.close.length);
+        shape = delimiter.shape;
+        break;
+    }
+
+    const node: IRMindmapNode = {
+        id: createMindmapNodeId(id ?? unquote(label.trim()), usedIds),
+        label: unquote(label.trim()),
+        children: [],
+    };
+    if (shape) node.shape = shape;
+    return node;
+}
+
+/** Strip quotes and markdown-string backticks */
+function unquote(text: string): string {
+    const quoted = text.match(/^"(.*)"$/s);
+    const inner = quoted ? quoted[1] : text;
+    const markdown = inner.match(/^`(.*)`$/s);
+    return (markdown ? markdown[1] : inner).replace(/<br\s*\/?>/gi, '\n');
+}
+
+/** Check if source is a Mermaid mindmap */
+export function isMindmapDiagram(source: string): boolean {
+    return /^\s*mindmap\s*$/im.test(source);
+}
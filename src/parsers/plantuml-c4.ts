@@ -0,0 +1,56 @@
+/**
+ * C4-PlantUML Parser
+ *
+ * Parses C4-PlantUML (https://github.com/plantuml-stdlib/C4-PlantUML) to IR.
+ * The diagram level comes from the included library file (C4_Context,
+ * C4_Container, C4_Component, C4_Dynamic, C4_Deployment); the macros are
+ * shared with Mermaid C4.
+ *
+ * Syntax example:
+ *   @startuml
+ *   !include <C4/C4_Container>
+ *   LAYOUT_LEFT_RIGHT()
+ *   Person(customer, "Customer")
+ *   System_Boundary(bank, "Internet Banking") {
+ *     Container(web, "Web App", "Java", "Delivers the SPA")
+ *   }
+ *   Rel(customer, web, "Uses", "HTTPS")
+ *   @enduml
+ */
+
+import type { Diagram } from '../types';
+import type { C4ViewType } from '../types/c4';
+import { embedC4Data } from '../utils';
+import { validateInput } from './base';
+import { parseC4Macros, type C4MacroDialect } from './c4-parser';
+
+const PLANTUML_DIALECT: C4MacroDialect = {
+    format: 'plantuml',
+    comment: /^'/,
+    ignored: /^(?:@start|@end|!|skinparam|hide|show|SHOW_|HIDE_|Lay_|Add\w+Tag|Update\w+Style|UpdateBoundaryStyle|footer|header|caption|legend|endlegend)/i,
+};
+
+/** Library files to view types, most detailed first */
+const INCLUDE_VIEWS: [RegExp, C4ViewType][] = [
+    [/C4_Deployment/i, 'deployment'],
+    [/C4_Dynamic/i, 'dynamic'],
+    [/C4_Component/i, 'component'],
+    [/C4_Container/i, 'container'],
+    [/C4_Context/i, 'systemContext'],
+];
+
+/** Parse C4-PlantUML to IR */
+export function parsePlantUMLC4(source: string): Diagram {
+    validateInput(source, 'plantuml');
+
+    const lines = source.split('\n').map((text, index) => ({ text: text.trim(), number: index + 1 }));
+    const includes = lines.filter(line => /^!include/i.test(line.text)).map(line => line.text).join('\n');
+    const viewType = INCLUDE_VIEWS.find(([pattern]) => pattern.test(includes))?.[1] ?? 'systemContext';
+    return embedC4Data(parseC4Macros(lines, viewType, PLANTUML_DIALECT));
+}
+
+/** Whether a PlantUML source uses the C4-PlantUML library */
+export function isPlantUMLC4(source: string): boolean {
+    return /^\s*!include\S*\s+\S*C4[_/]/im.test(source)
+        || /^\s*(?:Person|System|Container|Component)(?:Db|Queue)?(?:_Ext)?\s*\(/m.test(source);
+}
@@ -0,0 +1,242 @@
+/**
+ * PlantUML Gantt Chart Parser
+ *
+ * Parses PlantUML @startgantt syntax to IR
+ *
+ * Supported features:
+ * - title, Project starts
+ * - Closed days (saturday are closed, 2024-01-01 is closed, ranges)
+ * - Separators (-- Section --) as sections
+ * - Tasks with aliases, lasts/requires, starts, ends, completion and colors
+ * - Milestones (happens)
+ * - Dependencies ([A]'s end, [A] -> [B])
+ * - Clauses joined with `and`
+ *
+ * Syntax examples:
+ *   @startgantt
+ *   Project starts 2024-01-01
+ *   saturday are closed
+ *   -- Build --
+ *   [Design] as [des] lasts 5 days
+ *   [Implement] as [impl] lasts 10 days
+ *   [impl] starts at [des]'s end
+ *   [Release] happens at [impl]'s end
+ *   @endgantt
+ *
+ * Tasks colored in the color written for critical Mermaid tasks are read
+ * back as critical. Other colors are kept for PlantUML output only, which
+ * is reported in `metadata.warnings`.
+ */
+
+import type { Diagram, IRGanttDiagram, IRGanttTask } from '../types';
+import { addCalendarDays, CRITICAL_TASK_COLOR, embedGanttData, generateId } from '../utils';
+import { validateInput } from './base';
+
+// =============================================================================
+// Regex Patterns
+// =============================================================================
+
+/** PlantUML date: 2024-01-31 or 2024/01/31 */
+const DATE = String.raw`(\d{4})[-/](\d{1,2})[-/](\d{1,2})`;
+
+/** Task reference: [Name] */
+const TASK_REF = String.raw`\[([^\]]+)\]`;
+
+/** Match task statement: [Name] as [alias] clauses */
+const TASK_STATEMENT_PATTERN = new RegExp(String.raw`^${TASK_REF}(?:\s+as\s+${TASK_REF})?\s*(.*)$`, 'i');
+
+/** Match dependency arrow: [A] -> [B] */
+const ARROW_PATTERN = new RegExp(String.raw`^${TASK_REF}\s*-+>\s*${TASK_REF}$`);
+
+/** Match project start: Project starts 2024-01-01 */
+const PROJECT_START_PATTERN = new RegExp(String.raw`^project\s+starts\s+(?:the\s+|on\s+)?${DATE}$`, 'i');
+
+/** Match closed weekday: saturday are closed */
+const CLOSED_WEEKDAY_PATTERN = /^(monday|tuesday|wednesday|thursday|friday|saturday|sunday)s?\s+(?:are|is)\s+closed$/i;
+
+/** Match closed dates: 2024-01-01 is closed, 2024-01-01 to 2024-01-05 are closed */
+const CLOSED_DATE_PATTERN = new RegExp(String.raw`^${DATE}(?:\s+to\s+${DATE})?\s+(?:are|is)\s+closed$`, 'i');
+
+/** Match separator: -- Section -- */
+const SEPARATOR_PATTERN = /^--\s*(.*?)\s*--$/;
+
+/** Lines that only affect rendering */
+const IGNORED_PATTERN = /^(?:skinparam|scale|printscale|projectscale|hide|show|language|today|header|footer|legend|caption|<style>)\b/i;
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse PlantUML Gantt chart to IR */
+export function parsePlantUMLGantt(source: string): Diagram {
+    validateInput(source, 'plantuml');
+
+    const gantt: IRGanttDiagram = {
+        id: generateId(),
+        excludes: [],
+        sections: [],
+        tasks: [],
+        metadata: { source: 'plantuml-gantt' },
+    };
+
+    const tasks = new Map<string, IRGanttTask>();
+    const coloredLines: number[] = [];
+    let currentSection: string | undefined;
+
+    // Tasks are referenced by name or alias
+    const resolve = (ref: string): IRGanttTask => {
+        const key = ref.trim();
+        let task = tasks.get(key);
+        if (!task) {
+            task = { id: `task${gantt.tasks.length + 1}`, name: key };
+            if (currentSection) task.section = currentSection;
+            tasks.set(key, task);
+            gantt.tasks.push(task);
+        }
+        return task;
+    };
+
+    const lines = source.trim().split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+
+        // Skip empty lines, comments and diagram boundaries
+        if (!line || line.startsWith("'") || /^@(?:start|end)gantt\b/i.test(line) || IGNORED_PATTERN.test(line)) {
+            continue;
+        }
+
+        const titleMatch = line.match(/^title\s+(.+)$/i);
+        if (titleMatch) {
+            gantt.title = titleMatch[1].trim();
+            continue;
+        }
+
+        const projectStartMatch = line.match(PROJECT_START_PATTERN);
+        if (projectStartMatch) {
+            gantt.projectStart = toIsoDate(projectStartMatch.slice(1, 4));
+            continue;
+        }
+
+        const weekdayMatch = line.match(CLOSED_WEEKDAY_PATTERN);
+        if (weekdayMatch) {
+            gantt.excludes.push(weekdayMatch[1].toLowerCase());
+            continue;
+        }
+
+        const closedMatch = line.match(CLOSED_DATE_PATTERN);
+        if (closedMatch) {
+            const from = toIsoDate(closedMatch.slice(1, 4));
+            const to = closedMatch[4] ? toIsoDate(closedMatch.slice(4, 7)) : from;
+            for (let date = from; date <= to; date = addCalendarDays(date, 1)) {
+                gantt.excludes.push(date);
+            }
+            continue;
+        }
+
+        const separatorMatch = line.match(SEPARATOR_PATTERN);
+        if (separatorMatch) {
+            currentSection = separatorMatch[1] || undefined;
+            if (currentSection && !gantt.sections.includes(currentSection)) {
+                gantt.sections.push(currentSection);
+            }
+            continue;
+        }
+
+        const arrowMatch = line.match(ARROW_PATTERN);
+        if (arrowMatch) {
+            const from = resolve(arrowMatch[1]);
+            addDependency(resolve(arrowMatch[2]), from.id);
+            continue;
+        }
+
+        const taskMatch = line.match(TASK_STATEMENT_PATTERN);
+        if (taskMatch) {
+            const [, name, alias, clauses] = taskMatch;
+            const task = resolve(name);
+            if (alias) {
+                task.id = alias.trim();
+                tasks.set(task.id, task);
+            }
+            for (const clause of clauses.split(/\s+and\s+/i)) {
+                if (applyClause(task, clause.trim(), resolve) === 'color') coloredLines.push(i + 1);
+            }
+        }
+    }
+
+    if (coloredLines.length > 0) {
+        const where = `line${coloredLines.length === 1 ? '' : 's'} ${coloredLines.join(', ')}`;
+        gantt.metadata = { ...gantt.metadata, warnings: [`Task colors on ${where} are written to PlantUML only`] };
+    }
+
+    return embedGanttData(gantt);
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Apply one task clause such as `lasts 5 days` or `starts at [A]'s end`;
+ * returns 'color' for a color that only PlantUML output keeps
+ */
+function applyClause(task: IRGanttTask, clause: string, resolve: (ref: string) => IRGanttTask): 'color' | undefined {
+    const durationMatch = clause.match(/^(?:lasts|requires)\s+(\d+)\s*(days?|weeks?)$/i);
+    if (durationMatch) {
+        const count = parseInt(durationMatch[1], 10);
+        task.duration = /^week/i.test(durationMatch[2]) ? count * 7 : count;
+        return;
+    }
+
+    const startDateMatch = clause.match(new RegExp(String.raw`^(starts|happens)\s+(?:at\s+|on\s+)?${DATE}$`, 'i'));
+    if (startDateMatch) {
+        task.start = toIsoDate(startDateMatch.slice(2, 5));
+        if (startDateMatch[1].toLowerCase() === 'happens') task.milestone = true;
+        return;
+    }
+
+    const startAfterMatch = clause.match(new RegExp(String.raw`^(starts|happens)\s+(?:at\s+)?${TASK_REF}'s\s+end$`, 'i'));
+    if (startAfterMatch) {
+        addDependency(task, resolve(startAfterMatch[2]).id);
+        if (startAfterMatch[1].toLowerCase() === 'happens') task.milestone = true;
+        return;
+    }
+
+    // PlantUML end dates are inclusive
+    const endDateMatch = clause.match(new RegExp(String.raw`^ends\s+(?:at\s+|on\s+)?${DATE}$`, 'i'));
+    if (endDateMatch) {
+        task.end = addCalendarDays(toIsoDate(endDateMatch.slice(1, 4)), 1);
+        return;
+    }
+
+    const completionMatch = clause.match(/^is\s+(\d+)%\s+complete(?:d)?$/i);
+    if (completionMatch) {
+        task.progress = parseInt(completionMatch[1], 10);
+        return;
+    }
+
+    const colorMatch = clause.match(/^is\s+colou?red\s+in\s+(.+)$/i);
+    if (colorMatch) {
+        const color = colorMatch[1].trim();
+        if (color.toLowerCase() === CRITICAL_TASK_COLOR.toLowerCase()) {
+            task.tags = [...(task.tags ?? []).filter(tag => tag !== 'crit'), 'crit'];
+            return;
+        }
+        task.metadata = { ...task.metadata, color };
+        return 'color';
+    }
+}
+
+/** Record that a task starts after another */
+function addDependency(task: IRGanttTask, dependencyId: string): void {
+    task.after = [...(task.after ?? []).filter(id => id !== dependencyId), dependencyId];
+}
+
+/** Normalize year, month and day parts to YYYY-MM-DD */
+function toIsoDate([year, month, day]: string[]): string {
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/** Check if source is a PlantUML Gantt chart */
+export function isPlantUMLGantt(source: string): boolean {
+    return /@startgantt\b/i.test(source);
+}
@@ -0,0 +1,155 @@
+/**
+ * PlantUML Mindmap Parser
+ *
+ * Parses PlantUML @startmindmap and @startwbs syntax to IR
+ *
+ * Supported features:
+ * - Levels with * (or OrgMode + / - for right / left branches)
+ * - left side / right side keywords
+ * - WBS direction markers (**< and **>)
+ * - Node colors (**[#lightblue]) and boxless nodes (**_)
+ * - Multiline nodes (**:line 1
+ *   line 2;)
+ * - title
+ *
+ * Syntax examples:
+ *   @startmindmap
+ *   * Workshop
+ *   ** Ideas
+ *   ***[#lightgreen] Prototype
+ *   left side
+ *   ** Risks
+ *   ***_ Budget
+ *   @endmindmap
+ */
+
+import type { Diagram, IRMindmapDiagram, IRMindmapNode, MindmapSide } from '../types';
+import { createMindmapNodeId, embedMindmapData, generateId } from '../utils';
+import { ParseError } from '../errors';
+import { validateInput } from './base';
+
+// =============================================================================
+// Regex Patterns
+// =============================================================================
+
+/** Match node line: level markers, [#color], _ and WBS < / > before the text */
+const NODE_PATTERN = /^([*+-]+)(?:\[(#[^\]]+)\])?(_)?([<>])?\s*(.*)$/;
+
+/** Match side switch: left side / right side */
+const SIDE_PATTERN = /^(left|right)\s+side$/i;
+
+/** Lines that only affect rendering */
+const IGNORED_PATTERN = /^(?:skinparam|scale|hide|show|caption|header|footer|legend|endlegend|'|@end)/i;
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse PlantUML mindmap or WBS to IR */
+export function parsePlantUMLMindmap(source: string): Diagram {
+    validateInput(source, 'plantuml');
+
+    const variant: IRMindmapDiagram['variant'] = /@startwbs\b/i.test(source) ? 'wbs' : 'mindmap';
+    const stack: IRMindmapNode[] = [];
+    const usedIds = new Set<string>();
+    let root: IRMindmapNode | undefined;
+    let title: string | undefined;
+    let currentSide: MindmapSide | undefined;
+    let inStyle = false;
+
+    const lines = source.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+
+        if (/^<style>/i.test(line)) inStyle = true;
+        if (inStyle) {
+            if (/<\/style>/i.test(line)) inStyle = false;
+            continue;
+        }
+
+        if (!line || /^@start/i.test(line) || IGNORED_PATTERN.test(line)) {
+            continue;
+        }
+
+        const titleMatch = line.match(/^title\s+(.+)$/i);
+        if (titleMatch) {
+            title = titleMatch[1].trim();
+            continue;
+        }
+
+        const sideMatch = line.match(SIDE_PATTERN);
+        if (sideMatch) {
+            currentSide = sideMatch[1].toLowerCase() as MindmapSide;
+            continue;
+        }
+
+        const nodeMatch = line.match(NODE_PATTERN);
+        if (!nodeMatch) {
+            continue;
+        }
+
+        const [, markers, color, boxless, direction] = nodeMatch;
+        let text = nodeMatch[5];
+
+        // Multiline node: :text ... ;
+        if (text.startsWith(':')) {
+            const textLines = [text.slice(1)];
+            while (!textLines[textLines.length - 1].trimEnd().endsWith(';') && i + 1 < lines.length) {
+                textLines.push(lines[++i]);
+            }
+            text = textLines.join('\n').trimEnd().replace(/;$/, '');
+        }
+
+        const depth = markers.length - 1;
+        const label = text.trim();
+        const node: IRMindmapNode = {
+            id: createMindmapNodeId(label, usedIds),
+            label,
+            children: [],
+        };
+        if (color) node.color = color;
+        if (boxless) node.boxless = true;
+
+        if (depth > 0) {
+            const side = direction === '<' ? 'left'
+                : direction === '>' ? 'right'
+                : markers[0] === '-' ? 'left'
+                : markers[0] === '+' ? 'right'
+                : currentSide;
+            if (side) node.side = side;
+        }
+
+        if (depth === 0) {
+            if (root) {
+                throw new ParseError('Mindmap can only have one root node', 'plantuml', i + 1);
+            }
+            root = node;
+        } else {
+            const parent = stack[depth - 1];
+            if (!parent) {
+                throw new ParseError(`Node "${label}" has no parent at level ${depth}`, 'plantuml', i + 1);
+            }
+            parent.children.push(node);
+        }
+
+        stack.length = depth;
+        stack.push(node);
+    }
+
+    if (!root) {
+        throw new ParseError('Mindmap has no root node', 'plantuml');
+    }
+
+    return embedMindmapData({
+        id: generateId(),
+        title,
+        variant,
+        root,
+        metadata: { source: `plantuml-${variant}` },
+    });
+}
+
+/** Check if source is a PlantUML mindmap or WBS */
+export function isPlantUMLMindmap(source: string): boolean {
+    return /@start(?:mindmap|wbs)\b/i.test(source);
+}
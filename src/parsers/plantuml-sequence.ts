@@ -0,0 +1,348 @@
+/**
+ * PlantUML Sequence Diagram Parser
+ *
+ * Parses PlantUML sequence syntax to the sequence IR
+ *
+ * Supported features:
+ * - Participants: participant, actor, boundary, control, entity, database,
+ *   collections, queue (with "Display name" as alias)
+ * - Messages: -> --> ->> -->> ->x <- (colored arrows -[#red]>)
+ * - Activations: activate / deactivate, ++ / -- shortcuts, return
+ * - Notes: left of / right of / over A, B, single and multi-line
+ * - Blocks: alt / else, opt, loop, par, break, critical, group
+ * - title, autonumber
+ *
+ * Syntax examples:
+ *   @startuml
+ *   actor User
+ *   participant "Backend API" as API
+ *   User -> API ++ : Request
+ *   alt success
+ *     API --> User : 200
+ *   else failure
+ *     API --> User : 500
+ *   end
+ *   return done
+ *   @enduml
+ */
+
+import type {
+    Diagram,
+    IRBlock,
+    IRBlockSection,
+    IRMessage,
+    IRParticipant,
+    IRSequenceDiagram,
+    NotePosition,
+    ParticipantType,
+    SequenceArrowType,
+    SequenceElement,
+} from '../types';
+import { generateId } from '../utils';
+import { validateInput } from './base';
+import { addDropped, describeDropped, embedSequenceData, type DroppedConstructs } from './sequence-parser';
+
+// =============================================================================
+// Regex Patterns
+// =============================================================================
+
+/** Participant reference: Alice or "Long name" */
+const PARTICIPANT_REF = String.raw`("[^"]+"|[\w.@]+)`;
+
+/** Message arrow: ->, -->, ->>, ->x, <-, -[#red]>, -\ */
+const ARROW = String.raw`([xo]?<{0,2}-+(?:\[[^\]]*\])?-*(?:>{1,2}|\\{1,2}|\/{1,2})?[xo]?)`;
+
+/** Match message: A -> B ++ : label */
+const MESSAGE_PATTERN = new RegExp(
+    String.raw`^${PARTICIPANT_REF}\s*${ARROW}\s*${PARTICIPANT_REF}\s*(\+\+|--|\*\*|!!)?\s*(?::\s*(.*))?$`
+);
+
+/** Match participant declaration */
+const PARTICIPANT_PATTERN = new RegExp(
+    String.raw`^(participant|actor|boundary|control|entity|database|collections|queue)\s+${PARTICIPANT_REF}(?:\s+as\s+${PARTICIPANT_REF})?(.*)$`,
+    'i'
+);
+
+/** Match note: note left of A : text, note over A, B */
+const NOTE_PATTERN = /^[hr]?note\s+(left|right|over)(?:\s+of)?\s*([^:]*?)\s*(?::\s*(.*))?$/i;
+
+/** Match block start */
+const BLOCK_PATTERN = /^(alt|opt|loop|par|break|critical|group)\b\s*(.*)$/i;
+
+/** Keywords only used by sequence diagrams */
+const SEQUENCE_KEYWORD_PATTERN = /^\s*(?:participant|boundary|control|collections|queue|activate|deactivate|autonumber|return)\b/im;
+
+/** Match a message line anywhere in the source */
+const MESSAGE_LINE_PATTERN = new RegExp(String.raw`^\s*${PARTICIPANT_REF}\s*${ARROW}\s*${PARTICIPANT_REF}`, 'm');
+
+/** Lines that only affect rendering */
+const IGNORED_PATTERN = /^(?:skinparam|hide|show|scale|header|footer|legend|endlegend|caption|newpage|end\s+box|\|\|\||!|'|@start|@end)/i;
+
+/** Constructs the sequence IR cannot hold, reported as dropped */
+const DROPPED_PATTERNS: [RegExp, string][] = [
+    [/^box\b/i, 'participant boxes'],
+    [/^==/, 'dividers'],
+    [/^\.\.\./, 'delays'],
+    [/^ref\s+over\b/i, 'references'],
+];
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse PlantUML sequence diagram to generic IR */
+export function parsePlantUMLSequence(source: string): Diagram {
+    return embedSequenceData(parsePlantUMLSequenceDiagram(source));
+}
+
+/** Parse PlantUML sequence diagram to the sequence IR */
+export function parsePlantUMLSequenceDiagram(source: string): IRSequenceDiagram {
+    validateInput(source, 'plantuml');
+
+    const participants: IRParticipant[] = [];
+    const participantIds = new Map<string, string>(); // reference (id or display name) -> id
+    const elements: SequenceElement[] = [];
+    const blockStack: { block: IRBlock; currentSection: IRBlockSection }[] = [];
+    const activations: Array<{ participant: string; caller?: string }> = [];
+    let lastMessage: IRMessage | undefined;
+    let title: string | undefined;
+    let autonumber = false;
+    const dropped: DroppedConstructs = new Map();
+
+    const add = (element: SequenceElement) => {
+        const target = blockStack.length > 0 ? blockStack[blockStack.length - 1].currentSection.elements : elements;
+        target.push(element);
+    };
+
+    const declare = (ref: string, type: ParticipantType = 'participant', aliasRef?: string): string => {
+        const name = unquote(ref);
+        // "Display name" as id, or id as "Display name"
+        let id = name;
+        let label = name;
+        if (aliasRef) {
+            const alias = unquote(aliasRef);
+            if (ref.startsWith('"') || !aliasRef.startsWith('"')) {
+                id = alias;
+            } else {
+                label = alias;
+            }
+        }
+        if (/[^\w]/.test(id)) {
+            id = id.replace(/[^\w]+/g, '_');
+        }
+
+        const existing = participants.find(p => p.id === id);
+        if (existing) {
+            existing.type = type;
+        } else {
+            participants.push({ id, type, label, alias: label !== id ? label : undefined });
+        }
+        participantIds.set(id, id);
+        participantIds.set(label, id);
+        return id;
+    };
+
+    const resolve = (ref: string): string => participantIds.get(unquote(ref)) ?? declare(ref);
+
+    const activate = (participant: string, caller?: string) => {
+        activations.push({ participant, caller });
+        add({ kind: 'activation', data: { id: generateId(), participant }, action: 'activate' });
+    };
+
+    const deactivate = (participant: string) => {
+        const index = activations.map(a => a.participant).lastIndexOf(participant);
+        if (index >= 0) activations.splice(index, 1);
+        add({ kind: 'activation', data: { id: generateId(), participant }, action: 'deactivate' });
+    };
+
+    const lines = source.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+
+        if (!line || IGNORED_PATTERN.test(line)) {
+            continue;
+        }
+
+        const droppedMatch = DROPPED_PATTERNS.find(([pattern]) => pattern.test(line));
+        if (droppedMatch) {
+            addDropped(dropped, droppedMatch[1], i + 1);
+            // Multi-line reference until end ref
+            if (/^ref\b/i.test(line) && !line.includes(':')) {
+                while (i + 1 < lines.length && !/^end\s*ref$/i.test(lines[i + 1].trim())) i++;
+                i++;
+            }
+            continue;
+        }
+
+        const titleMatch = line.match(/^title\s+(.+)$/i);
+        if (titleMatch) {
+            title = titleMatch[1].trim();
+            continue;
+        }
+
+        if (/^autonumber\b/i.test(line)) {
+            autonumber = true;
+            continue;
+        }
+
+        const participantMatch = line.match(PARTICIPANT_PATTERN);
+        if (participantMatch) {
+            const [, keyword, ref, aliasRef] = participantMatch;
+            declare(ref, keyword.toLowerCase() as ParticipantType, aliasRef);
+            continue;
+        }
+
+        const activationMatch = line.match(/^(activate|deactivate|destroy)\s+(\S+)/i);
+        if (activationMatch) {
+            const participant = resolve(activationMatch[2]);
+            if (activationMatch[1].toLowerCase() === 'activate') {
+                activate(participant, lastMessage?.to === participant ? lastMessage.from : undefined);
+            } else {
+                deactivate(participant);
+            }
+            continue;
+        }
+
+        const returnMatch = line.match(/^return\b\s*(.*)$/i);
+        if (returnMatch) {
+            const current = activations[activations.length - 1];
+            if (current?.caller) {
+                lastMessage = {
+                    id: generateId(),
+                    from: current.participant,
+                    to: current.caller,
+                    label: decodeText(returnMatch[1]),
+                    arrowType: 'dotted-arrow',
+                };
+                add({ kind: 'message', data: lastMessage });
+            }
+            if (current) deactivate(current.participant);
+            continue;
+        }
+
+        const noteMatch = line.match(NOTE_PATTERN);
+        if (noteMatch) {
+            const [, positionStr, targets, inlineText] = noteMatch;
+            let text = inlineText;
+            if (text === undefined) {
+                // Multi-line note until end note
+                const textLines: string[] = [];
+                while (i + 1 < lines.length && !/^end\s*[hr]?note$/i.test(lines[i + 1].trim())) {
+                    textLines.push(lines[++i].trim());
+                }
+                i++;
+                text = textLines.join('\n');
+            }
+
+            const position = positionStr.toLowerCase() as NotePosition;
+            const noteParticipants = targets
+                ? targets.split(',').map(t => resolve(t.trim()))
+                : lastMessage
+                    ? [position === 'right' ? lastMessage.to : lastMessage.from]
+                    : participants.slice(0, 1).map(p => p.id);
+            add({
+                kind: 'note',
+                data: { id: generateId(), position, participants: noteParticipants, text: decodeText(text) },
+            });
+            continue;
+        }
+
+        const blockMatch = line.match(BLOCK_PATTERN);
+        if (blockMatch) {
+            const block: IRBlock = {
+                id: generateId(),
+                type: blockMatch[1].toLowerCase() as IRBlock['type'],
+                label: blockMatch[2].trim() || undefined,
+                sections: [{ elements: [] }],
+            };
+            blockStack.push({ block, currentSection: block.sections[0] });
+            continue;
+        }
+
+        const elseMatch = line.match(/^else\b\s*(.*)$/i);
+        if (elseMatch && blockStack.length > 0) {
+            const current = blockStack[blockStack.length - 1];
+            const section: IRBlockSection = { label: elseMatch[1].trim() || undefined, elements: [] };
+            current.block.sections.push(section);
+            current.currentSection = section;
+            continue;
+        }
+
+        if (/^end$/i.test(line)) {
+            const completed = blockStack.pop();
+            if (completed) add({ kind: 'block', data: completed.block });
+            continue;
+        }
+
+        const messageMatch = line.match(MESSAGE_PATTERN);
+        if (messageMatch) {
+            const [, left, arrow, right, modifier, label] = messageMatch;
+            const reversed = /^[xo]?</.test(arrow) && !/[>\\/][xo]?$/.test(arrow);
+            const from = resolve(reversed ? right : left);
+            const to = resolve(reversed ? left : right);
+
+            lastMessage = {
+                id: generateId(),
+                from,
+                to,
+                label: decodeText(label ?? ''),
+                arrowType: parseArrowType(arrow, reversed),
+            };
+            if (/>>|<</.test(arrow)) {
+                lastMessage.isAsync = true;
+            }
+            add({ kind: 'message', data: lastMessage });
+
+            if (modifier === '++') {
+                activate(to, from);
+            } else if (modifier === '--') {
+                deactivate(from);
+            }
+            continue;
+        }
+    }
+
+    // Unclosed blocks keep their content
+    while (blockStack.length > 0) {
+        add({ kind: 'block', data: blockStack.pop()!.block });
+    }
+
+    return {
+        id: generateId(),
+        title,
+        autonumber: autonumber || undefined,
+        participants,
+        elements,
+        metadata: { source: 'plantuml', warnings: describeDropped(dropped) },
+    };
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/** Derive message arrow type from PlantUML arrow syntax */
+function parseArrowType(arrow: string, reversed: boolean): SequenceArrowType {
+    const line = arrow.replace(/\[[^\]]*\]/g, '');
+    const dotted = (line.match(/-/g) ?? []).length > 1;
+    const head = reversed ? line.slice(0, 2) : line.slice(-2);
+    if (head.includes('x')) {
+        return dotted ? 'dotted-cross' : 'solid-cross';
+    }
+    return dotted ? 'dotted-arrow' : 'solid-arrow';
+}
+
+/** Strip surrounding quotes */
+function unquote(text: string): string {
+    return text.replace(/^"(.*)"$/, '$1');
+}
+
+/** Decode PlantUML \n line breaks */
+function decodeText(text: string): string {
+    return text.trim().replace(/\\n/g, '\n');
+}
+
+/** Check if source is a PlantUML sequence diagram */
+export function isPlantUMLSequence(source: string): boolean {
+    return SEQUENCE_KEYWORD_PATTERN.test(source) && MESSAGE_LINE_PATTERN.test(source);
+}
@@ -17,6 +17,10 @@ import type {
     ArrowConfig,
 } from '../types';
 import { createEmptyDiagram, createNode, createEdge, createGroup, validateInput } from './base';
+import { isPlantUMLGantt, parsePlantUMLGantt } from './plantuml-gantt';
+import { isPlantUMLMindmap, parsePlantUMLMindmap } from './plantuml-mindmap';
+import { isPlantUMLC4, parsePlantUMLC4 } from './plantuml-c4';
+import { isPlantUMLSequence, parsePlantUMLSequence } from './plantuml-sequence';
 
 /** Diagram type detection */
 type PlantUMLDiagramType = 'component' | 'sequence' | 'class' | 'activity' | 'usecase';
@@ -33,11 +37,23 @@ interface NoteInfo {
 export function parsePlantUML(source: string): Diagram {
     validateInput(source, 'plantuml');
 
+    if (isPlantUMLGantt(source)) {
+        return parsePlantUMLGantt(source);
+    }
+
+    if (isPlantUMLMindmap(source)) {
+        return parsePlantUMLMindmap(source);
+    }
+
+    if (isPlantUMLC4(source)) {
+        return parsePlantUMLC4(source);
+    }
+
     const diagramType = detectDiagramType(source);
 
     switch (diagramType) {
         case 'sequence':
-            return parseSequenceDiagram(source);
+            return parsePlantUMLSequence(source);
         case 'class':
             return parseClassDiagram(source);
         default:
@@ -50,6 +66,9 @@ function detectDiagramType(source: string): PlantUMLDiagramType {
     const lower = source.toLowerCase();
 
     // Sequence diagram indicators
+    if (isPlantUMLSequence(source)) {
+        return 'sequence';
+    }
     if (lower.includes('->') && (lower.includes('participant') || lower.includes('actor'))) {
         if (
             lower.includes('activate') ||
@@ -91,135 +110,6 @@ function detectDiagramType(source: string): PlantUMLDiagramType {
     return 'component';
 }
 
-/** Parse sequence diagram */
-function parseSequenceDiagram(source: string): Diagram {
-    const diagram = createEmptyDiagram('sequence', 'plantuml');
-    const lines = getCleanLines(source);
-
-    const participants = new Map<string, DiagramNode>();
-    const notes: NoteInfo[] = [];
-    let noteBuffer: string[] = [];
-    let inNote = false;
-    let currentNoteAttach: { target?: string; position?: string } = {};
-    let messageIndex = 0;
-
-    for (const line of lines) {
-        // Note start
-        const noteStartMatch = line.match(
-            /^note\s+(left|right|over)\s*(?:of\s+)?(\w+)?(?:\s*:\s*(.+))?$/i
-        );
-        if (noteStartMatch) {
-            const [, position, target, inlineText] = noteStartMatch;
-            if (inlineText) {
-                // Inline note
-                const noteId = `note_${notes.length}`;
-                notes.push({
-                    id: noteId,
-                    text: inlineText,
-                    attachTo: target,
-                    position: position.toLowerCase() as NoteInfo['position'],
-                });
-            } else {
-                inNote = true;
-                currentNoteAttach = { target, position: position.toLowerCase() };
-                noteBuffer = [];
-            }
-            continue;
-        }
-
-        // Note end
-        if (line === 'end note' && inNote) {
-            const noteId = `note_${notes.length}`;
-            notes.push({
-                id: noteId,
-                text: noteBuffer.join('\n'),
-                attachTo: currentNoteAttach.target,
-                position: currentNoteAttach.position as NoteInfo['position'],
-            });
-            inNote = false;
-            noteBuffer = [];
-            continue;
-        }
-
-        // Inside note
-        if (inNote) {
-            noteBuffer.push(line);
-            continue;
-        }
-
-        // Participant/Actor definition
-        const participantMatch =
-            line.match(/^(participant|actor)\s+"?([^"]+)"?\s+as\s+(\w+)/i) ||
-            line.match(/^(participant|actor)\s+(\w+)/i);
-        if (participantMatch) {
-            const [, type, labelOrId, alias] = participantMatch;
-            const id = alias || labelOrId;
-            const label = alias ? labelOrId : id;
-
-            if (!participants.has(id)) {
-                const node = createNode(id, label, {
-                    shape: type.toLowerCase() === 'actor' ? 'actor' : 'rectangle',
-                });
-                participants.set(id, node);
-                diagram.nodes.push(node);
-            }
-            continue;
-        }
-
-        // Message: A -> B : text
-        const messageMatch = line.match(
-            /^(\w+)\s*(-+>+|<-+|->+x|x<-+|-+>>|<<-+|\.+>|<\.+)\s*(\w+)\s*(?::\s*(.+))?$/
-        );
-        if (messageMatch) {
-            const [, from, arrow, to, label] = messageMatch;
-
-            // Ensure participants exist
-            ensureParticipant(from, participants, diagram);
-            ensureParticipant(to, participants, diagram);
-
-            const edge = createEdge(from, to, {
-                label: label?.trim(),
-                arrow: parseSequenceArrow(arrow),
-            });
-            edge.metadata = { order: messageIndex++ };
-            diagram.edges.push(edge);
-            continue;
-        }
-
-        // Activation/Deactivation (store as metadata)
-        const activateMatch = line.match(/^(activate|deactivate)\s+(\w+)/i);
-        if (activateMatch) {
-            const [, action, target] = activateMatch;
-            ensureParticipant(target, participants, diagram);
-            // Store activation info in diagram metadata
-            if (!diagram.metadata) diagram.metadata = { source: 'plantuml' };
-            const meta = diagram.metadata as Record<string, unknown>;
-            if (!meta.activations) meta.activations = [];
-            (meta.activations as Array<{ action: string; target: string; order: number }>).push({
-                action: action.toLowerCase(),
-                target,
-                order: messageIndex,
-            });
-            continue;
-        }
-    }
-
-    // Add notes as special nodes
-    for (const note of notes) {
-        const noteNode = createNode(note.id, note.text, {
-            shape: 'note',
-        });
-        noteNode.metadata = {
-            isNote: true,
-            attachTo: note.attachTo,
-            position: note.position,
-        };
-        diagram.nodes.push(noteNode);
-    }
-
-    return diagram;
-}
-
 /** Parse class diagram */
 function parseClassDiagram(source: string): Diagram {
     const diagram = createEmptyDiagram('class', 'plantuml');
@@ -227,7 +117,9 @@ function parseClassDiagram(source: string): Diagram {
 
     const classes = new Map<string, DiagramNode>();
     const notes: NoteInfo[] = [];
+    const packageStack: DiagramGroup[] = [];
     let currentClass: { id: string; members: string[]; methods: string[] } | null = null;
+    let declaredClass: { id: string; members: string[]; methods: string[] } | null = null;
     let noteBuffer: string[] = [];
     let inNote = false;
     let currentNoteAttach: string | undefined;
@@ -286,21 +178,42 @@ function parseClassDiagram(source: string): Diagram {
         );
         if (classMatch) {
             const [, type, name, stereotype] = classMatch;
-            const id = name.trim();
+            const genericMatch = name.trim().match(/^([\w.]+)\s*<(.+)>$/);
+            const id = genericMatch ? genericMatch[1] : name.trim();
 
-            currentClass = { id, members: [], methods: [] };
+            // Without a brace the body may still open on the next line
+            declaredClass = { id, members: [], methods: [] };
+            currentClass = line.endsWith('{') ? declaredClass : null;
 
-            const node = createNode(id, id, {
+            const node = createNode(id, genericMatch ? name.trim() : id, {
                 shape: type.toLowerCase().includes('interface') ? 'ellipse' : 'rectangle',
             });
             node.metadata = {
                 classType: type.toLowerCase().replace(/\s+/g, '-'),
                 stereotype,
-                members: currentClass.members,
-                methods: currentClass.methods,
+                ...(genericMatch && { generic: genericMatch[2] }),
+                members: declaredClass.members,
+                methods: declaredClass.methods,
             };
             classes.set(id, node);
             diagram.nodes.push(node);
+            packageStack[packageStack.length - 1]?.children.push(id);
+            continue;
+        }
+
+        if (line === '{' && declaredClass && !currentClass) {
+            currentClass = declaredClass;
+            continue;
+        }
+        declaredClass = null;
+
+        // Package start: package Name { (classes inside become group children)
+        const packageMatch = line.match(/^(?:package|namespace)\s+"?([^"{]+?)"?\s*\{$/i);
+        if (packageMatch && !currentClass) {
+            const label = packageMatch[1].trim();
+            const group = createGroup(label, [], { label });
+            diagram.groups.push(group);
+            packageStack.push(group);
             continue;
         }
 
@@ -332,6 +245,12 @@ function parseClassDiagram(source: string): Diagram {
             continue;
         }
 
+        // Package end
+        if (line === '}' && packageStack.length > 0) {
+            packageStack.pop();
+            continue;
+        }
+
         // Class member/method
         if (currentClass && line !== '{') {
             const memberMatch = line.match(/^([+\-#~])?\s*(\w+)\s*:\s*(\w+)$/);
@@ -352,10 +271,12 @@ function parseClassDiagram(source: string): Diagram {
             continue;
         }
 
-        // Relationship: A <|-- B, A --> B, etc.
-        const relationMatch = line.match(/^(\w+)\s*([<>|.*o#x\-]+)\s*(\w+)(?:\s*:\s*(.+))?$/);
+        // Relationship: A <|-- B, A "1" --> "*" B, etc.
+        const relationMatch = line.match(
+            /^(\w+)\s*(?:"([^"]*)"\s*)?([<>|.*o#x\-]+)\s*(?:"([^"]*)"\s*)?(\w+)(?:\s*:\s*(.+))?$/
+        );
         if (relationMatch) {
-            const [, from, arrow, to, label] = relationMatch;
+            const [, from, sourceCardinality, arrow, targetCardinality, to, label] = relationMatch;
 
             ensureClass(from, classes, diagram);
             ensureClass(to, classes, diagram);
@@ -364,6 +285,12 @@ function parseClassDiagram(source: string): Diagram {
                 label: label?.trim(),
                 arrow: parseClassArrow(arrow),
             });
+            if (sourceCardinality !== undefined || targetCardinality !== undefined) {
+                edge.metadata = {
+                    ...(sourceCardinality !== undefined && { sourceCardinality }),
+                    ...(targetCardinality !== undefined && { targetCardinality }),
+                };
+            }
             diagram.edges.push(edge);
         }
     }
@@ -528,19 +455,6 @@ function getCleanLines(source: string): string[] {
     return result;
 }
 
-/** Ensure participant exists in sequence diagram */
-function ensureParticipant(
-    id: string,
-    participants: Map<string, DiagramNode>,
-    diagram: Diagram
-): void {
-    if (!participants.has(id)) {
-        const node = createNode(id, id, { shape: 'rectangle' });
-        participants.set(id, node);
-        diagram.nodes.push(node);
-    }
-}
-
 /** Ensure class exists in class diagram */
 function ensureClass(id: string, classes: Map<string, DiagramNode>, diagram: Diagram): void {
     if (!classes.has(id)) {
@@ -551,11 +465,11 @@ function ensureClass(id: string, classes: Map<string, DiagramNode>, diagram: Dia
     }
 }
 
-/** Parse sequence diagram arrow */
-function parseSequenceArrow(arrow: string): ArrowConfig {
+/** Parse class diagram arrow */
+function parseClassArrow(arrow: string): ArrowConfig {
     const config: ArrowConfig = {
         sourceType: 'none',
-        targetType: 'arrow',
+        targetType: 'none',
         lineType: 'solid',
     };
 
@@ -564,74 +478,26 @@ function parseSequenceArrow(arrow: string): ArrowConfig {
         config.lineType = 'dashed';
     }
 
-    // Lost message (x)
-    if (arrow.includes('x')) {
-        config.targetType = 'cross';
-    }
+    // Split into the symbols before and after the line
+    const [, left = '', right = ''] = arrow.match(/^([^.-]*)[.-]+(.*)$/) || [];
 
-    // Async (>>)
-    if (arrow.includes('>>')) {
-        config.targetType = 'open';
-    }
-
-    // Bidirectional
-    if (arrow.startsWith('<') && arrow.endsWith('>')) {
-        config.sourceType = 'arrow';
-    } else if (arrow.startsWith('<')) {
-        // Reverse direction
-        config.sourceType = 'arrow';
-        config.targetType = 'none';
-    }
+    config.sourceType = parseClassArrowEnd(left);
+    config.targetType = parseClassArrowEnd(right);
 
     return config;
 }
 
-/** Parse class diagram arrow */
-function parseClassArrow(arrow: string): ArrowConfig {
-    const config: ArrowConfig = {
-        sourceType: 'none',
-        targetType: 'arrow',
-        lineType: 'solid',
-    };
-
-    // Dotted line
-    if (arrow.includes('.')) {
-        config.lineType = 'dashed';
-    }
-
-    // Inheritance <|--
-    if (arrow.includes('<|') || arrow.includes('|>')) {
-        config.targetType = 'diamond';
-        if (arrow.includes('<|')) {
-            config.sourceType = 'diamond';
-            config.targetType = 'none';
-        }
-    }
-
+/** Parse one end of a class diagram arrow */
+function parseClassArrowEnd(end: string): ArrowConfig['sourceType'] {
+    // Inheritance <|-- / --|>
+    if (end.includes('|')) return 'diamond';
     // Composition *--
-    if (arrow.includes('*')) {
-        if (arrow.startsWith('*')) {
-            config.sourceType = 'diamond-filled';
-        } else {
-            config.targetType = 'diamond-filled';
-        }
-    }
-
+    if (end.includes('*')) return 'diamond-filled';
     // Aggregation o--
-    if (arrow.includes('o')) {
-        if (arrow.startsWith('o')) {
-            config.sourceType = 'circle';
-        } else {
-            config.targetType = 'circle';
-        }
-    }
-
-    // Dependency ..>
-    if (arrow.includes('>') && !arrow.includes('|>')) {
-        config.targetType = 'arrow';
-    }
-
-    return config;
+    if (end.includes('o')) return 'circle';
+    // Association / dependency -->, ..>
+    if (end.includes('>') || end.includes('<')) return 'arrow';
+    return 'none';
 }
 
 /** Parse node definition line */
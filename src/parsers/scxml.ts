@@ -0,0 +1,233 @@
+/**
+ * SCXML Parser
+ *
+ * Parses W3C State Chart XML (SCXML) to IR
+ *
+ * Supported elements:
+ * - <state>, <parallel>, <final> and <history> with nesting
+ * - initial states from the `initial` attribute, an <initial> element or
+ *   document order
+ * - <transition> with event, cond and target(s); targetless transitions
+ *   become self-transitions marked `targetless`
+ * - <onentry>, <onexit> and <invoke> as entry, exit and do actions
+ */
+
+import type { Diagram, IRState, IRStateDiagram, IRTransition, StateAction } from '../types';
+import { embedStateData, generateId, parseXml } from '../utils';
+import type { XmlElement } from '../utils';
+import { ParseError } from '../errors';
+import { validateInput } from './base';
+
+/** Elements that declare states */
+const STATE_ELEMENTS = new Set(['state', 'parallel', 'final', 'history']);
+
+/** Parser state shared across the document */
+interface ParseContext {
+    transitions: IRTransition[];
+    startCounter: number;
+    endCounter: number;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse SCXML to IR */
+export function parseSCXML(source: string): Diagram {
+    validateInput(source, 'scxml');
+
+    return embedStateData(parseSCXMLStateDiagram(source));
+}
+
+/** Parse SCXML to the state machine model */
+export function parseSCXMLStateDiagram(source: string): IRStateDiagram {
+    const root = parseXml(source, 'scxml').documentElement;
+    if (root.localName !== 'scxml') {
+        throw new ParseError(`Expected <scxml> root element, found <${root.localName}>`, 'scxml');
+    }
+
+    const context: ParseContext = { transitions: [], startCounter: 0, endCounter: 0 };
+    const states = parseScope(root, context, false);
+
+    return {
+        id: generateId(),
+        title: root.getAttribute('name') || undefined,
+        states,
+        transitions: context.transitions,
+        metadata: { source: 'scxml' },
+    };
+}
+
+// =============================================================================
+// Element Parsers
+// =============================================================================
+
+/** Parse the child states of <scxml>, <state> or <parallel>, adding a start state when one applies */
+function parseScope(element: XmlElement, context: ParseContext, parallel: boolean): IRState[] {
+    const stateElements = childElements(element).filter(child => STATE_ELEMENTS.has(child.localName));
+
+    // All regions of a <parallel> are entered together
+    const start = parallel ? undefined : parseInitial(element, stateElements, context);
+    const states = stateElements.map(child => parseState(child, context));
+
+    return start ? [start, ...states] : states;
+}
+
+/** Start state for the `initial` attribute, the <initial> element or the first child in document order */
+function parseInitial(element: XmlElement, stateElements: XmlElement[], context: ParseContext): IRState | undefined {
+    const initialElement = childElements(element).find(child => child.localName === 'initial');
+    const initialTransition = initialElement && childElements(initialElement).find(child => child.localName === 'transition');
+
+    let targets: string[];
+    let action: string | undefined;
+    if (element.getAttribute('initial')) {
+        targets = splitIds(element.getAttribute('initial')!);
+    } else if (initialTransition) {
+        targets = splitIds(initialTransition.getAttribute('target') ?? '');
+        action = executableContent(initialTransition);
+    } else {
+        const first = stateElements.find(child => child.localName !== 'history' && child.getAttribute('id'));
+        targets = first ? [first.getAttribute('id')!] : [];
+    }
+
+    if (targets.length === 0) {
+        return undefined;
+    }
+
+    const start: IRState = {
+        id: `__start_${context.startCounter++}`,
+        type: 'start',
+        label: '[*]',
+    };
+    for (const target of targets) {
+        context.transitions.push({
+            id: generateId(),
+            source: start.id,
+            target,
+            action,
+        });
+    }
+    return start;
+}
+
+/** Parse a state, parallel, final or history element */
+function parseState(element: XmlElement, context: ParseContext): IRState {
+    const tag = element.localName;
+    const id = element.getAttribute('id')
+        || (tag === 'final' ? `__end_${context.endCounter++}` : generateId());
+
+    const state: IRState = {
+        id,
+        type: 'state',
+        label: id,
+    };
+
+    if (tag === 'final') {
+        state.type = 'end';
+    } else if (tag === 'history') {
+        state.type = element.getAttribute('type') === 'deep' ? 'deep-history' : 'history';
+    }
+
+    const actions: StateAction[] = [];
+    for (const child of childElements(element)) {
+        switch (child.localName) {
+            case 'onentry':
+            case 'onexit': {
+                const action = executableContent(child);
+                if (action) {
+                    actions.push({ type: child.localName === 'onentry' ? 'entry' : 'exit', action });
+                }
+                break;
+            }
+            case 'invoke':
+                actions.push({
+                    type: 'do',
+                    action: child.getAttribute('src') || child.getAttribute('type') || child.getAttribute('id') || 'invoke',
+                });
+                break;
+            case 'transition':
+                parseTransition(child, id, context);
+                break;
+        }
+    }
+    if (actions.length > 0) {
+        state.actions = actions;
+    }
+
+    if (tag === 'state' || tag === 'parallel') {
+        const children = parseScope(element, context, tag === 'parallel');
+        if (children.length > 0) {
+            state.type = 'composite';
+            state.children = children;
+            if (tag === 'parallel') {
+                state.parallel = true;
+            }
+        }
+    }
+
+    return state;
+}
+
+/** Parse a transition; one IR transition per target */
+function parseTransition(element: XmlElement, source: string, context: ParseContext): void {
+    const event = element.getAttribute('event') || undefined;
+    const guard = element.getAttribute('cond') || undefined;
+    const action = executableContent(element);
+    const targets = splitIds(element.getAttribute('target') ?? '');
+
+    if (targets.length === 0) {
+        context.transitions.push({
+            id: generateId(),
+            source,
+            target: source,
+            event,
+            guard,
+            action,
+            metadata: { targetless: true },
+        });
+        return;
+    }
+
+    for (const target of targets) {
+        context.transitions.push({
+            id: generateId(),
+            source,
+            target,
+            event,
+            guard,
+            action,
+        });
+    }
+}
+
+/** Summarise executable content (<script>, <raise>, <send>, <log>, <assign>, ...) as action text */
+function executableContent(element: XmlElement): string | undefined {
+    const parts = childElements(element).map(child => {
+        switch (child.localName) {
+            case 'script':
+                return child.textContent?.trim() || child.getAttribute('src') || '';
+            case 'raise':
+                return `raise ${child.getAttribute('event') ?? ''}`.trim();
+            case 'send':
+                return `send ${child.getAttribute('event') ?? child.getAttribute('eventexpr') ?? ''}`.trim();
+            case 'log':
+                return `log ${child.getAttribute('expr') ?? child.getAttribute('label') ?? ''}`.trim();
+            case 'assign':
+                return `${child.getAttribute('location') ?? ''} = ${child.getAttribute('expr') ?? child.textContent?.trim() ?? ''}`;
+            default:
+                return child.localName;
+        }
+    }).filter(Boolean);
+
+    return parts.length > 0 ? parts.join('; ') : undefined;
+}
+
+/** Element children, skipping text and comments */
+function childElements(element: XmlElement): XmlElement[] {
+    return element.children;
+}
+
+/** Split a space-separated ID list */
+function splitIds(value: string): string[] {
+    return value.split(/\s+/).filter(Boolean);
+}
@@ -1,7 +1,8 @@
 /**
  * Sequence Diagram Parser
  * 
- * Parses Mermaid sequenceDiagram syntax to IR
+ * Parses Mermaid sequenceDiagram syntax to IR and converts between the
+ * sequence model and the generic IR
  */
 
 import type {
@@ -17,9 +18,13 @@ import type {
     NotePosition,
     BlockType,
 } from '../types/sequence';
+import type { ArrowConfig, Diagram, DiagramEdge, DiagramNode } from '../types';
 import { generateId } from '../utils';
 import { validateInput } from './base';
 
+/** Lines of each dropped construct, by description */
+export type DroppedConstructs = Map<string, number[]>;
+
 // =============================================================================
 // Arrow Patterns
 // =============================================================================
@@ -32,10 +37,20 @@ const ARROW_MAP: Record<string, SequenceArrowType> = {
     '--x': 'dotted-cross',
     '-->': 'dotted',
     '-->>': 'dotted-arrow',
+    '-)': 'solid-arrow',
+    '--)': 'dotted-arrow',
 };
 
-/** Regex pattern for arrows */
-const ARROW_PATTERN = /(->>|-->>|-x|--x|-->|->)/;
+/** Participant types supported by the typed participant syntax */
+const PARTICIPANT_TYPES = new Set<ParticipantType>([
+    'participant', 'actor', 'boundary', 'control', 'entity', 'database', 'collections', 'queue',
+]);
+
+/** Async arrows (open arrowhead) */
+const ASYNC_ARROWS = new Set(['-)', '--)']);
+
+/** Regex pattern for arrows, longest first */
+const ARROW_PATTERN = /(-->>|->>|--x|-x|--\)|-\)|-->|->)/;
 
 // =============================================================================
 // Block Keywords
@@ -59,16 +74,19 @@ const BLOCK_KEYWORDS: Record<string, BlockType> = {
 export function parseSequenceDiagram(source: string): IRSequenceDiagram {
     validateInput(source, 'mermaid');
 
-    const lines = source.trim().split('\n');
+    const lines = source.split('\n');
     const participants: IRParticipant[] = [];
     const participantMap = new Map<string, IRParticipant>();
     const elements: SequenceElement[] = [];
     
     let title: string | undefined;
+    let autonumber = false;
     const blockStack: { block: IRBlock; currentSection: IRBlockSection }[] = [];
+    const dropped: DroppedConstructs = new Map();
+    let inBox = false;
 
-    for (const rawLine of lines) {
-        const line = rawLine.trim();
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
 
         // Skip empty lines and comments
         if (!line || line.startsWith('%%')) {
@@ -81,17 +99,22 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
         }
 
         // Parse title
-        const titleMatch = line.match(/^title\s*:\s*(.+)$/i);
+        const titleMatch = line.match(/^title(?:\s*:\s*|\s+)(.+)$/i);
         if (titleMatch) {
             title = titleMatch[1].trim();
             continue;
         }
 
-        // Parse participant/actor
-        const participantMatch = line.match(/^(participant|actor)\s+(\w+)(?:\s+as\s+(.+))?$/i);
+        if (/^autonumber\b/i.test(line)) {
+            autonumber = true;
+            continue;
+        }
+
+        // Parse participant/actor, optionally typed: participant DB@{ "type": "database" }
+        const participantMatch = line.match(/^(participant|actor)\s+(\w+)(?:@\{\s*"type"\s*:\s*"(\w+)"\s*\})?(?:\s+as\s+(.+))?$/i);
         if (participantMatch) {
-            const [, typeStr, id, alias] = participantMatch;
-            const type: ParticipantType = typeStr.toLowerCase() === 'actor' ? 'actor' : 'participant';
+            const [, typeStr, id, typeAttr, alias] = participantMatch;
+            const type = parseParticipantType(typeAttr ?? typeStr);
             const participant = createParticipant(id, alias || id, type, alias);
             
             if (!participantMap.has(id)) {
@@ -132,7 +155,7 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
                 id: generateId(),
                 position,
                 participants: noteParticipants,
-                text: text.trim(),
+                text: decodeText(text),
             };
             
             const element: SequenceElement = { kind: 'note', data: note };
@@ -140,8 +163,19 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
             continue;
         }
 
+        // Boxes only group participant declarations; their end closes no block
+        if (/^box\b/i.test(line)) {
+            addDropped(dropped, 'participant boxes', i + 1);
+            inBox = true;
+            continue;
+        }
+        if (inBox && line.toLowerCase() === 'end') {
+            inBox = false;
+            continue;
+        }
+
         // Parse block start (loop, alt, opt, par, critical, break, rect)
-        const blockStartMatch = line.match(/^(loop|alt|opt|par|critical|break|rect)\s*(.*)$/i);
+        const blockStartMatch = line.match(/^(loop|alt|opt|par|critical|break|rect)\b\s*(.*)$/i);
         if (blockStartMatch) {
             const [, keyword, label] = blockStartMatch;
             const blockType = BLOCK_KEYWORDS[keyword.toLowerCase()];
@@ -157,8 +191,8 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
             continue;
         }
 
-        // Parse else/and (section separator in alt/par)
-        const sectionMatch = line.match(/^(else|and)\s*(.*)$/i);
+        // Parse else/and/option (section separator in alt/par/critical)
+        const sectionMatch = line.match(/^(else|and|option)\b\s*(.*)$/i);
         if (sectionMatch && blockStack.length > 0) {
             const [, , label] = sectionMatch;
             const current = blockStack[blockStack.length - 1];
@@ -192,15 +226,7 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
             ensureParticipant(from, participants, participantMap);
             ensureParticipant(to, participants, participantMap);
             
-            const message: IRMessage = {
-                id: generateId(),
-                from,
-                to,
-                label: label || '',
-                arrowType: ARROW_MAP[arrow] || 'solid-arrow',
-            };
-            
-            const element: SequenceElement = { kind: 'message', data: message };
+            const element: SequenceElement = { kind: 'message', data: createMessage(from, to, arrow, label) };
             addElement(element, blockStack, elements);
             continue;
         }
@@ -213,7 +239,10 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
             ensureParticipant(from, participants, participantMap);
             ensureParticipant(to, participants, participantMap);
             
-            // Add deactivation if needed
+            // Add message
+            addElement({ kind: 'message', data: createMessage(from, to, arrow, label) }, blockStack, elements);
+
+            // The sender's activation ends with the message
             if (deactivateSource) {
                 const deactivateElement: SequenceElement = {
                     kind: 'activation',
@@ -223,16 +252,6 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
                 addElement(deactivateElement, blockStack, elements);
             }
             
-            // Add message
-            const message: IRMessage = {
-                id: generateId(),
-                from,
-                to,
-                label: label || '',
-                arrowType: ARROW_MAP[arrow] || 'solid-arrow',
-            };
-            addElement({ kind: 'message', data: message }, blockStack, elements);
-            
             // Add activation if needed
             if (activateTarget) {
                 const activateElement: SequenceElement = {
@@ -246,15 +265,196 @@ export function parseSequenceDiagram(source: string): IRSequenceDiagram {
         }
     }
 
+    // Unclosed blocks keep their content
+    while (blockStack.length > 0) {
+        addElement({ kind: 'block', data: blockStack.pop()!.block }, blockStack, elements);
+    }
+
     return {
         id: generateId(),
         title,
+        autonumber: autonumber || undefined,
         participants,
         elements,
-        metadata: { source: 'mermaid' },
+        metadata: { source: 'mermaid', warnings: describeDropped(dropped) },
     };
 }
 
+/** Record a construct the sequence IR cannot hold */
+export function addDropped(dropped: DroppedConstructs, construct: string, lineNumber: number): void {
+    dropped.set(construct, [...dropped.get(construct) ?? [], lineNumber]);
+}
+
+/** One warning per dropped construct, or undefined when nothing was dropped */
+export function describeDropped(dropped: DroppedConstructs): string[] | undefined {
+    if (dropped.size === 0) return undefined;
+    return [...dropped].map(([construct, lineNumbers]) =>
+        `Dropped ${construct} on line${lineNumbers.length === 1 ? '' : 's'} ${lineNumbers.join(', ')}`);
+}
+
+// =============================================================================
+// Conversion to Generic IR
+// =============================================================================
+
+/** Arrow configuration for each message arrow type */
+const ARROW_CONFIG: Record<SequenceArrowType, ArrowConfig> = {
+    'solid': { sourceType: 'none', targetType: 'none', lineType: 'solid' },
+    'solid-arrow': { sourceType: 'none', targetType: 'arrow', lineType: 'solid' },
+    'solid-cross': { sourceType: 'none', targetType: 'cross', lineType: 'solid' },
+    'dotted': { sourceType: 'none', targetType: 'none', lineType: 'dashed' },
+    'dotted-arrow': { sourceType: 'none', targetType: 'arrow', lineType: 'dashed' },
+    'dotted-cross': { sourceType: 'none', targetType: 'cross', lineType: 'dashed' },
+};
+
+/** Parse Mermaid sequenceDiagram to generic IR diagram */
+export function parseSequenceToDiagram(source: string): Diagram {
+    return embedSequenceData(parseSequenceDiagram(source));
+}
+
+/**
+ * Convert sequence diagram IR to generic diagram IR
+ *
+ * Participants become nodes and messages become edges ordered by
+ * `metadata.order`. The full element tree (notes, blocks, activations)
+ * is kept in the diagram metadata so it can be regenerated.
+ */
+export function embedSequenceData(sequence: IRSequenceDiagram): Diagram {
+    const source = sequence.metadata?.source ?? 'mermaid';
+    const nodes: DiagramNode[] = sequence.participants.map(participant => ({
+        id: participant.id,
+        type: 'node',
+        label: participant.label,
+        shape: participant.type === 'actor' ? 'actor' : participant.type === 'database' ? 'cylinder' : 'rectangle',
+        style: {},
+        metadata: {
+            participantType: participant.type,
+            alias: participant.alias,
+        },
+    }));
+
+    const edges: DiagramEdge[] = [];
+    const collectMessages = (elements: SequenceElement[]) => {
+        for (const element of elements) {
+            if (element.kind === 'message') {
+                const message = element.data;
+                edges.push({
+                    id: message.id,
+                    type: 'edge',
+                    source: message.from,
+                    target: message.to,
+                    label: message.label || undefined,
+                    arrow: { ...ARROW_CONFIG[message.arrowType] },
+                    style: {},
+                    metadata: {
+                        order: edges.length,
+                        arrowType: message.arrowType,
+                        ...(message.isAsync ? { isAsync: true } : {}),
+                    },
+                });
+            } else if (element.kind === 'block') {
+                for (const section of element.data.sections) {
+                    collectMessages(section.elements);
+                }
+            }
+        }
+    };
+    collectMessages(sequence.elements);
+
+    return {
+        id: sequence.id,
+        name: sequence.title,
+        type: 'sequence',
+        nodes,
+        edges,
+        groups: [],
+        metadata: {
+            ...sequence.metadata,
+            source: source.endsWith('-sequence') ? source : `${source}-sequence`,
+            autonumber: sequence.autonumber,
+            sequenceElements: sequence.elements,
+        },
+    };
+}
+
+/**
+ * Extract sequence-specific data from parsed diagram
+ *
+ * Uses the preserved element tree when present; otherwise messages are
+ * rebuilt from the edges in `metadata.order` (e.g. PlantUML sources).
+ */
+export function extractSequenceData(diagram: Diagram): IRSequenceDiagram | null {
+    if (diagram.type !== 'sequence') {
+        return null;
+    }
+
+    const participants: IRParticipant[] = diagram.nodes
+        .filter(node => !node.metadata?.isNote)
+        .map(node => {
+            const alias = node.metadata?.alias as string | undefined;
+            const participantType = node.metadata?.participantType as ParticipantType | undefined;
+            return {
+                id: node.id,
+                type: participantType ?? (node.shape === 'actor' ? 'actor' : 'participant'),
+                label: node.label,
+                alias: alias ?? (node.label !== node.id ? node.label : undefined),
+            };
+        });
+
+    const preserved = diagram.metadata?.sequenceElements;
+    let elements: SequenceElement[];
+    if (Array.isArray(preserved)) {
+        elements = preserved as SequenceElement[];
+    } else {
+        const orderOf = (edge: DiagramEdge) => (edge.metadata?.order as number | undefined) ?? Infinity;
+        elements = [...diagram.edges]
+            .sort((a, b) => orderOf(a) - orderOf(b))
+            .map(edge => ({
+                kind: 'message',
+                data: {
+                    id: edge.id,
+                    from: edge.source,
+                    to: edge.target,
+                    label: edge.label || '',
+                    arrowType: (edge.metadata?.arrowType as SequenceArrowType | undefined) ?? inferArrowType(edge.arrow),
+                    ...(edge.metadata?.isAsync ? { isAsync: true } : {}),
+                },
+            }));
+
+        // Notes have no position in the message flow, append them
+        for (const node of diagram.nodes.filter(n => n.metadata?.isNote)) {
+            const attachTo = node.metadata?.attachTo as string | undefined;
+            if (!attachTo) continue;
+            const position = node.metadata?.position as string | undefined;
+            elements.push({
+                kind: 'note',
+                data: {
+                    id: node.id,
+                    position: position === 'left' || position === 'right' ? position : 'over',
+                    participants: [attachTo],
+                    text: node.label,
+                },
+            });
+        }
+    }
+
+    return {
+        id: diagram.id,
+        title: diagram.name,
+        autonumber: diagram.metadata?.autonumber === true || undefined,
+        participants,
+        elements,
+        metadata: diagram.metadata,
+    };
+}
+
+/** Derive message arrow type from a generic arrow configuration */
+function inferArrowType(arrow: ArrowConfig): SequenceArrowType {
+    const dotted = arrow.lineType === 'dashed' || arrow.lineType === 'dotted';
+    if (arrow.targetType === 'cross') return dotted ? 'dotted-cross' : 'solid-cross';
+    if (arrow.targetType === 'none') return dotted ? 'dotted' : 'solid';
+    return dotted ? 'dotted-arrow' : 'solid-arrow';
+}
+
 // =============================================================================
 // Helper Functions
 // =============================================================================
@@ -269,6 +469,35 @@ function createParticipant(
     return { id, type, label, alias };
 }
 
+/** Map a participant keyword or Mermaid type attribute to ParticipantType */
+function parseParticipantType(keyword: string): ParticipantType {
+    const type = keyword.toLowerCase();
+    return PARTICIPANT_TYPES.has(type as ParticipantType) ? type as ParticipantType : 'participant';
+}
+
+/** Create a message from Mermaid arrow syntax */
+function createMessage(from: string, to: string, arrow: string, label?: string): IRMessage {
+    const message: IRMessage = {
+        id: generateId(),
+        from,
+        to,
+        label: label ? decodeText(label) : '',
+        arrowType: ARROW_MAP[arrow] || 'solid-arrow',
+    };
+    if (ASYNC_ARROWS.has(arrow)) {
+        message.isAsync = true;
+    }
+    return message;
+}
+
+/** Decode label text: <br> line breaks and escaped colons */
+function decodeText(text: string): string {
+    return text
+        .trim()
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/&#58;/g, ':');
+}
+
 /** Ensure participant exists, create if not */
 function ensureParticipant(
     id: string,
@@ -299,7 +528,7 @@ function addElement(
 /** Parse message line: A->>B: Message */
 function parseMessageLine(line: string): { from: string; to: string; arrow: string; label?: string } | null {
     // Pattern: participant arrow participant : label
-    const match = line.match(/^(\w+)\s*(->>|-->>|-x|--x|-->|->)\s*(\w+)\s*(?::\s*(.*))?$/);
+    const match = line.match(new RegExp(String.raw`^(\w+)\s*${ARROW_PATTERN.source}\s*(\w+)\s*(?::\s*(.*))?$`));
     if (!match) return null;
     
     const [, from, arrow, to, label] = match;
@@ -316,22 +545,19 @@ function parseMessageWithActivation(line: string): {
     deactivateSource: boolean;
 } | null {
     // Pattern: participant arrow [+-]participant : label
-    const match = line.match(/^(\w+)\s*(->>|-->>|-x|--x|-->|->)\s*([+-]?)(\w+)\s*(?::\s*(.*))?$/);
+    const match = line.match(new RegExp(String.raw`^(\w+)\s*${ARROW_PATTERN.source}\s*([+-]?)(\w+)\s*(?::\s*(.*))?$`));
     if (!match) return null;
     
     const [, from, arrow, modifier, to, label] = match;
-    
-    // Check for source deactivation (- before arrow)
-    const sourceMatch = line.match(/^(\w+)\s*(-)\s*(->>|-->>|-x|--x|-->|->)/);
-    const deactivateSource = !!sourceMatch;
-    
+
+    // A leading - on the target ends the sender's activation
     return {
         from,
         to,
         arrow,
         label: label?.trim(),
         activateTarget: modifier === '+',
-        deactivateSource: modifier === '-' || deactivateSource,
+        deactivateSource: modifier === '-',
     };
 }
 
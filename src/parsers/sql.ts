@@ -0,0 +1,640 @@
+/**
+ * SQL DDL Parser
+ *
+ * Parses CREATE TABLE statements (PostgreSQL, MySQL and SQLite dialects)
+ * to the ER IR
+ *
+ * Supported statements:
+ * - CREATE TABLE with column types, inline PRIMARY KEY, UNIQUE, NOT NULL
+ *   and REFERENCES, and table-level PRIMARY KEY, UNIQUE and FOREIGN KEY
+ *   constraints (named or not)
+ * - ALTER TABLE ... ADD [CONSTRAINT name] PRIMARY KEY / UNIQUE / FOREIGN KEY
+ * - CREATE UNIQUE INDEX ... ON table (columns)
+ * - COMMENT ON COLUMN table.column IS '...', MySQL COMMENT '...' and
+ *   trailing `-- comment` lines as attribute comments
+ *
+ * Every foreign key becomes a relationship from the referenced table to
+ * the referencing one. The referenced side is exactly one when the key
+ * columns are NOT NULL and zero-or-one otherwise; the referencing side is
+ * zero-or-one when the key columns are unique and zero-or-more otherwise.
+ * Keys that are part of the primary key make the relationship identifying.
+ * The relationship metadata records the key columns (`columns`) and the
+ * referenced columns (`references`), since an attribute has a single key
+ * type: a column that is both primary and foreign key is marked `pk` only.
+ * Other statements (indexes, inserts, views, ...) are ignored.
+ */
+
+import type { Diagram } from '../types';
+import type { ERAttributeKeyType, IRAttribute, IREntity, IRERDiagram, IRRelationship } from '../types/er';
+import { embedERData, generateId } from '../utils';
+import { ParseError } from '../errors';
+import { validateInput } from './base';
+
+/** Lexical token */
+interface Token {
+    kind: 'word' | 'quoted' | 'string' | 'number' | 'punct' | 'comment';
+    value: string;
+    line: number;
+}
+
+/** Column definition */
+interface ColumnDef {
+    name: string;
+    type: string;
+    notNull: boolean;
+    primaryKey: boolean;
+    unique: boolean;
+    comment?: string;
+}
+
+/** Foreign key constraint */
+interface ForeignKeyDef {
+    columns: string[];
+    table: string;
+    /** Empty when the referenced table's primary key is meant */
+    referencedColumns: string[];
+    /** Trailing comment of the constraint, used as relationship label */
+    label?: string;
+}
+
+/** Table definition collected across statements */
+interface TableDef {
+    name: string;
+    columns: ColumnDef[];
+    primaryKey: string[];
+    uniques: string[][];
+    foreignKeys: ForeignKeyDef[];
+}
+
+/** Words that end a column type and start a column constraint */
+const COLUMN_CONSTRAINT_WORDS = new Set([
+    'CONSTRAINT', 'NOT', 'NULL', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'DEFAULT', 'CHECK', 'COLLATE',
+    'AUTO_INCREMENT', 'AUTOINCREMENT', 'GENERATED', 'COMMENT', 'IDENTITY', 'ON', 'CHARSET', 'AS',
+]);
+
+/** Words that start a table-level constraint or index */
+const TABLE_CONSTRAINT_WORDS = new Set(['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK', 'EXCLUDE', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'LIKE']);
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/** Parse SQL DDL to IR */
+export function parseSQL(source: string): Diagram {
+    validateInput(source, 'sql');
+
+    return embedERData(parseSQLERDiagram(source));
+}
+
+/** Parse SQL DDL to the ER model */
+export function parseSQLERDiagram(source: string): IRERDiagram {
+    const tables = new Map<string, TableDef>();
+    const tableOf = (name: string) => tables.get(name.toLowerCase());
+
+    for (const statement of splitStatements(tokenize(source))) {
+        const code = statement.filter(token => token.kind !== 'comment');
+        const words = code.slice(0, 6).map(keyword);
+
+        if (words[0] === 'CREATE' && words.includes('TABLE') && !words.includes('INDEX')) {
+            const table = parseCreateTable(statement);
+            if (table) {
+                tables.set(table.name.toLowerCase(), table);
+            }
+        } else if (words[0] === 'ALTER' && words[1] === 'TABLE') {
+            parseAlterTable(statement, tableOf);
+        } else if (words[0] === 'CREATE' && words[1] === 'UNIQUE' && words[2] === 'INDEX') {
+            parseUniqueIndex(code, tableOf);
+        } else if (words[0] === 'COMMENT' && words[1] === 'ON' && words[2] === 'COLUMN') {
+            parseColumnComment(code, tableOf);
+        }
+    }
+
+    return buildERDiagram([...tables.values()]);
+}
+
+// =============================================================================
+// Lexer
+// =============================================================================
+
+/** Split SQL into tokens; `--` and `#` comments are kept, block comments dropped */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+        const next = source[i + 1];
+
+        if (char === '\n') {
+            line++;
+            i++;
+        } else if (/\s/.test(char)) {
+            i++;
+        } else if ((char === '-' && next === '-') || char === '#') {
+            const end = source.indexOf('\n', i);
+            const stop = end === -1 ? source.length : end;
+            tokens.push({ kind: 'comment', value: source.slice(i + (char === '#' ? 1 : 2), stop).trim(), line });
+            i = stop;
+        } else if (char === '/' && next === '*') {
+            const end = source.indexOf('*/', i + 2);
+            const stop = end === -1 ? source.length : end + 2;
+            line += (source.slice(i, stop).match(/\n/g) ?? []).length;
+            i = stop;
+        } else if (char === '\'' || char === '"' || char === '`' || (char === '[' && next !== ']')) {
+            const close = char === '[' ? ']' : char;
+            const startLine = line;
+            let value = '';
+            let j = i + 1;
+            for (; j < source.length; j++) {
+                if (source[j] === '\\' && char === '\'') {
+                    value += source[++j] ?? '';
+                } else if (source[j] === close && source[j + 1] === close && close !== ']') {
+                    value += close;
+                    j++;
+                } else if (source[j] === close) {
+                    break;
+                } else {
+                    if (source[j] === '\n') line++;
+                    value += source[j];
+                }
+            }
+            if (j >= source.length) {
+                throw new ParseError(`Unterminated ${char === '\'' ? 'string' : 'quoted identifier'}`, 'sql', startLine);
+            }
+            tokens.push({ kind: char === '\'' ? 'string' : 'quoted', value, line: startLine });
+            i = j + 1;
+        } else if (char === '[' && next === ']') {
+            tokens.push({ kind: 'punct', value: '[]', line });
+            i += 2;
+        } else if (/\d/.test(char)) {
+            const match = /^\d+(\.\d+)?/.exec(source.slice(i))!;
+            tokens.push({ kind: 'number', value: match[0], line });
+            i += match[0].length;
+        } else if (/[\p{L}_$]/u.test(char)) {
+            const match = /^[\p{L}\p{N}_$]+/u.exec(source.slice(i))!;
+            tokens.push({ kind: 'word', value: match[0], line });
+            i += match[0].length;
+        } else {
+            tokens.push({ kind: 'punct', value: char, line });
+            i++;
+        }
+    }
+
+    return tokens;
+}
+
+/** Split tokens into statements at semicolons; a comment after the semicolon on its line stays with the statement */
+function splitStatements(tokens: Token[]): Token[][] {
+    const statements: Token[][] = [[]];
+    let lastSemicolon: Token | undefined;
+    for (const token of tokens) {
+        const current = statements[statements.length - 1];
+        if (token.kind === 'punct' && token.value === ';') {
+            lastSemicolon = token;
+            statements.push([]);
+        } else if (token.kind === 'comment' && current.length === 0 && lastSemicolon?.line === token.line) {
+            statements[statements.length - 2].push(token);
+        } else {
+            statements[statements.length - 1].push(token);
+        }
+    }
+    return statements.filter(statement => statement.some(token => token.kind !== 'comment'));
+}
+
+// =============================================================================
+// Statement Parsers
+// =============================================================================
+
+/** CREATE [TEMP] TABLE [IF NOT EXISTS] name ( items ) */
+function parseCreateTable(statement: Token[]): TableDef | null {
+    const code = statement.filter(token => token.kind !== 'comment');
+    let i = code.findIndex(token => keyword(token) === 'TABLE') + 1;
+    if (keyword(code[i]) === 'IF') {
+        i += 3; // IF NOT EXISTS
+    }
+
+    const nameResult = readQualifiedName(code, i);
+    if (!nameResult || !isPunct(code[nameResult.next], '(')) {
+        // CREATE TABLE ... AS SELECT and LIKE copies have no column list
+        return null;
+    }
+
+    const open = statement.indexOf(code[nameResult.next]);
+    const close = matchingParen(statement, open);
+    if (close === -1) {
+        throw new ParseError(`Missing ) in CREATE TABLE ${nameResult.name}`, 'sql', statement[open].line);
+    }
+
+    const table: TableDef = { name: nameResult.name, columns: [], primaryKey: [], uniques: [], foreignKeys: [] };
+    for (const item of splitItems(statement.slice(open + 1, close))) {
+        const first = keyword(item.tokens[0]);
+        if (item.tokens[0].kind === 'word' && TABLE_CONSTRAINT_WORDS.has(first) && isTableConstraint(item.tokens)) {
+            parseTableConstraint(item.tokens, item.comment, table);
+        } else {
+            parseColumn(item.tokens, item.comment, table);
+        }
+    }
+    return table;
+}
+
+/** ALTER TABLE [ONLY] [IF EXISTS] name ADD ..., ADD ... */
+function parseAlterTable(statement: Token[], tableOf: (name: string) => TableDef | undefined): void {
+    const code = statement.filter(token => token.kind !== 'comment');
+    let i = 2;
+    while (['ONLY', 'IF', 'EXISTS'].includes(keyword(code[i]))) {
+        i++;
+    }
+    const nameResult = readQualifiedName(code, i);
+    const table = nameResult && tableOf(nameResult.name);
+    if (!table || !code[nameResult.next]) {
+        return;
+    }
+
+    const rest = statement.slice(statement.indexOf(code[nameResult.next]));
+    for (const item of splitItems(rest)) {
+        if (keyword(item.tokens[0]) !== 'ADD') continue;
+        const tokens = item.tokens.slice(1);
+        if (TABLE_CONSTRAINT_WORDS.has(keyword(tokens[0]))) {
+            parseTableConstraint(tokens, item.comment, table);
+        } else {
+            parseColumn(keyword(tokens[0]) === 'COLUMN' ? tokens.slice(1) : tokens, item.comment, table);
+        }
+    }
+}
+
+/** CREATE UNIQUE INDEX [name] ON table (columns) */
+function parseUniqueIndex(code: Token[], tableOf: (name: string) => TableDef | undefined): void {
+    const on = code.findIndex(token => keyword(token) === 'ON');
+    let i = on + 1;
+    if (keyword(code[i]) === 'ONLY') i++;
+    const nameResult = on === -1 ? null : readQualifiedName(code, i);
+    const table = nameResult && tableOf(nameResult.name);
+    if (!table) {
+        return;
+    }
+
+    const open = code.findIndex((token, index) => index >= nameResult.next && isPunct(token, '('));
+    if (open !== -1) {
+        table.uniques.push(readColumnList(code, open).columns);
+    }
+}
+
+/** COMMENT ON COLUMN [schema.]table.column IS 'text' */
+function parseColumnComment(code: Token[], tableOf: (name: string) => TableDef | undefined): void {
+    const is = code.findIndex(token => keyword(token) === 'IS');
+    const parts = code.slice(3, is).filter(token => !isPunct(token, '.')).map(token => token.value);
+    const text = code[is + 1];
+    if (parts.length < 2 || text?.kind !== 'string') {
+        return;
+    }
+
+    const column = tableOf(parts[parts.length - 2])?.columns.find(c => sameName(c.name, parts[parts.length - 1]));
+    if (column) {
+        column.comment = text.value;
+    }
+}
+
+// =============================================================================
+// Table Item Parsers
+// =============================================================================
+
+/** Column: name type [constraints] */
+function parseColumn(tokens: Token[], comment: string | undefined, table: TableDef): void {
+    const name = tokens[0];
+    if (!name || (name.kind !== 'word' && name.kind !== 'quoted')) {
+        return;
+    }
+
+    // The type runs until the first constraint keyword
+    let i = 1;
+    const typeTokens: Token[] = [];
+    let depth = 0;
+    while (i < tokens.length) {
+        const token = tokens[i];
+        if (depth === 0 && token.kind === 'word' && isColumnConstraintStart(tokens, i)) break;
+        if (isPunct(token, '(')) depth++;
+        if (isPunct(token, ')')) depth--;
+        typeTokens.push(token);
+        i++;
+    }
+
+    const column: ColumnDef = {
+        name: name.value,
+        type: joinType(typeTokens) || 'text',
+        notNull: false,
+        primaryKey: false,
+        unique: false,
+        comment,
+    };
+
+    while (i < tokens.length) {
+        const word = keyword(tokens[i]);
+        if (word === 'NOT' && keyword(tokens[i + 1]) === 'NULL') {
+            column.notNull = true;
+            i += 2;
+        } else if (word === 'PRIMARY' && keyword(tokens[i + 1]) === 'KEY') {
+            column.primaryKey = true;
+            i += 2;
+        } else if (word === 'UNIQUE') {
+            column.unique = true;
+            i += keyword(tokens[i + 1]) === 'KEY' ? 2 : 1;
+        } else if (word === 'REFERENCES') {
+            const reference = readReference(tokens, i + 1);
+            if (reference) {
+                table.foreignKeys.push({ columns: [column.name], ...reference.target });
+                i = reference.next;
+            } else {
+                i++;
+            }
+        } else if (word === 'COMMENT' && tokens[i + 1]?.kind === 'string') {
+            column.comment = tokens[i + 1].value;
+            i += 2;
+        } else if (word === 'CONSTRAINT') {
+            i += 2;
+        } else {
+            i = skipToken(tokens, i);
+        }
+    }
+
+    table.columns.push(column);
+}
+
+/** PRIMARY KEY (...), UNIQUE [KEY] [name] (...), FOREIGN KEY [name] (...) REFERENCES ... */
+function parseTableConstraint(tokens: Token[], comment: string | undefined, table: TableDef): void {
+    let i = 0;
+    if (keyword(tokens[i]) === 'CONSTRAINT') {
+        i += 2;
+    }
+
+    const word = keyword(tokens[i]);
+    const open = tokens.findIndex((token, index) => index > i && isPunct(token, '('));
+    if (open === -1) {
+        return;
+    }
+    const list = readColumnList(tokens, open);
+
+    if (word === 'PRIMARY') {
+        table.primaryKey = list.columns;
+    } else if (word === 'UNIQUE') {
+        table.uniques.push(list.columns);
+    } else if (word === 'FOREIGN') {
+        const referencesAt = tokens.findIndex((token, index) => index >= list.next && keyword(token) === 'REFERENCES');
+        const reference = referencesAt === -1 ? null : readReference(tokens, referencesAt + 1);
+        if (reference) {
+            table.foreignKeys.push({ columns: list.columns, ...reference.target, label: comment });
+        }
+    }
+}
+
+// =============================================================================
+// ER Model
+// =============================================================================
+
+/** Build entities and relationships from the collected tables */
+function buildERDiagram(tables: TableDef[]): IRERDiagram {
+    const entities: IREntity[] = [];
+    const relationships: IRRelationship[] = [];
+    const byName = new Map(tables.map(table => [table.name.toLowerCase(), table]));
+
+    for (const table of tables) {
+        const primaryKey = primaryKeyOf(table);
+        const fkColumns = new Set(table.foreignKeys.flatMap(fk => fk.columns.map(c => c.toLowerCase())));
+
+        entities.push({
+            id: table.name,
+            name: table.name,
+            attributes: table.columns.map(column => {
+                const lower = column.name.toLowerCase();
+                let keyType: ERAttributeKeyType | undefined;
+                if (primaryKey.has(lower)) {
+                    keyType = 'pk';
+                } else if (fkColumns.has(lower)) {
+                    keyType = 'fk';
+                } else if (isUnique(table, [column.name])) {
+                    keyType = 'uk';
+                }
+                const attribute: IRAttribute = { name: column.name, type: column.type };
+                if (keyType) attribute.keyType = keyType;
+                if (column.comment) attribute.comment = column.comment;
+                return attribute;
+            }),
+        });
+    }
+
+    for (const table of tables) {
+        const primaryKey = primaryKeyOf(table);
+        for (const fk of table.foreignKeys) {
+            const parent = byName.get(fk.table.toLowerCase());
+            if (!parent) {
+                // Referenced table defined elsewhere
+                entities.push({ id: fk.table, name: fk.table, attributes: [] });
+                byName.set(fk.table.toLowerCase(), { name: fk.table, columns: [], primaryKey: [], uniques: [], foreignKeys: [] });
+            }
+
+            const required = fk.columns.every(name => {
+                const column = findColumn(table, name);
+                return column?.notNull || primaryKey.has(name.toLowerCase());
+            });
+            const relationship: IRRelationship = {
+                id: generateId(),
+                source: parent?.name ?? fk.table,
+                target: table.name,
+                sourceCardinality: required ? 'exactly-one' : 'zero-or-one',
+                targetCardinality: isUnique(table, fk.columns) ? 'zero-or-one' : 'zero-or-more',
+                identifying: fk.columns.every(name => primaryKey.has(name.toLowerCase())) ? 'identifying' : 'non-identifying',
+                metadata: {
+                    columns: fk.columns,
+                    references: fk.referencedColumns.length > 0 || !parent ? fk.referencedColumns : primaryKeyNames(parent),
+                },
+            };
+            if (fk.label) relationship.label = fk.label;
+            relationships.push(relationship);
+        }
+    }
+
+    return {
+        id: generateId(),
+        entities,
+        relationships,
+        metadata: { source: 'sql' },
+    };
+}
+
+/** Lowercased primary key columns, declared inline or as a table constraint */
+function primaryKeyOf(table: TableDef): Set<string> {
+    return new Set(primaryKeyNames(table).map(name => name.toLowerCase()));
+}
+
+/** Primary key columns in declaration order */
+function primaryKeyNames(table: TableDef): string[] {
+    return table.primaryKey.length > 0
+        ? table.primaryKey
+        : table.columns.filter(column => column.primaryKey).map(column => column.name);
+}
+
+/** True when the columns are exactly the primary key or a unique constraint */
+function isUnique(table: TableDef, columns: string[]): boolean {
+    const wanted = new Set(columns.map(name => name.toLowerCase()));
+    const sameSet = (names: Iterable<string>) => {
+        const set = new Set([...names].map(name => name.toLowerCase()));
+        return set.size === wanted.size && [...set].every(name => wanted.has(name));
+    };
+
+    if (sameSet(primaryKeyOf(table))) return true;
+    if (table.uniques.some(unique => sameSet(unique))) return true;
+    return columns.length === 1 && !!findColumn(table, columns[0])?.unique;
+}
+
+/** Column by case-insensitive name */
+function findColumn(table: TableDef, name: string): ColumnDef | undefined {
+    return table.columns.find(column => sameName(column.name, name));
+}
+
+// =============================================================================
+// Token Helpers
+// =============================================================================
+
+/** Uppercased value of an unquoted word; empty for other tokens */
+function keyword(token: Token | undefined): string {
+    return token?.kind === 'word' ? token.value.toUpperCase() : '';
+}
+
+/** True when the token is the given punctuation */
+function isPunct(token: Token | undefined, value: string): boolean {
+    return token?.kind === 'punct' && token.value === value;
+}
+
+/** Case-insensitive identifier comparison */
+function sameName(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Index of the parenthesis closing the one at `open`, or -1 */
+function matchingParen(tokens: Token[], open: number): number {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+        if (isPunct(tokens[i], '(')) depth++;
+        if (isPunct(tokens[i], ')') && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/** Index after the token at `i`, skipping a whole parenthesised group */
+function skipToken(tokens: Token[], i: number): number {
+    if (isPunct(tokens[i], '(')) {
+        const close = matchingParen(tokens, i);
+        return close === -1 ? tokens.length : close + 1;
+    }
+    return i + 1;
+}
+
+/** `[schema.]name`; the schema is dropped */
+function readQualifiedName(tokens: Token[], i: number): { name: string; next: number } | null {
+    let name: string | undefined;
+    while (tokens[i] && (tokens[i].kind === 'word' || tokens[i].kind === 'quoted')) {
+        name = tokens[i].value;
+        i++;
+        if (!isPunct(tokens[i], '.')) break;
+        i++;
+    }
+    return name ? { name, next: i } : null;
+}
+
+/** Names in the parenthesised list at `open`, ignoring ASC/DESC and prefix lengths */
+function readColumnList(tokens: Token[], open: number): { columns: string[]; next: number } {
+    const close = matchingParen(tokens, open);
+    const end = close === -1 ? tokens.length : close;
+    const columns: string[] = [];
+    let depth = 0;
+    let expectName = true;
+    for (let i = open + 1; i < end; i++) {
+        const token = tokens[i];
+        if (isPunct(token, '(')) depth++;
+        else if (isPunct(token, ')')) depth--;
+        else if (depth === 0 && isPunct(token, ',')) expectName = true;
+        else if (depth === 0 && expectName && (token.kind === 'word' || token.kind === 'quoted')) {
+            columns.push(token.value);
+            expectName = false;
+        }
+    }
+    return { columns, next: end + 1 };
+}
+
+/** `table [(columns)]` after REFERENCES */
+function readReference(tokens: Token[], i: number): { target: Pick<ForeignKeyDef, 'table' | 'referencedColumns'>; next: number } | null {
+    const nameResult = readQualifiedName(tokens, i);
+    if (!nameResult) {
+        return null;
+    }
+    if (isPunct(tokens[nameResult.next], '(')) {
+        const list = readColumnList(tokens, nameResult.next);
+        return { target: { table: nameResult.name, referencedColumns: list.columns }, next: list.next };
+    }
+    return { target: { table: nameResult.name, referencedColumns: [] }, next: nameResult.next };
+}
+
+/** True when the word at `i` starts a column constraint rather than continuing the type */
+function isColumnConstraintStart(tokens: Token[], i: number): boolean {
+    const word = keyword(tokens[i]);
+    if (word === 'CHARACTER') {
+        return keyword(tokens[i + 1]) === 'SET';
+    }
+    return COLUMN_CONSTRAINT_WORDS.has(word);
+}
+
+/** True when an item starting with a constraint word is a constraint, not a column named like one */
+function isTableConstraint(tokens: Token[]): boolean {
+    const word = keyword(tokens[0]);
+    if (word === 'KEY' || word === 'INDEX') {
+        // MySQL `KEY name (columns)`; a column would be `key type ...`
+        return isPunct(tokens[1], '(') || (isPunct(tokens[2], '(') && tokens[3]?.kind !== 'number');
+    }
+    return true;
+}
+
+/** Type text from its tokens: `VARCHAR(255)`, `NUMERIC(10,2)`, `DOUBLE PRECISION`, `text[]` */
+function joinType(tokens: Token[]): string {
+    let type = '';
+    for (const token of tokens) {
+        const value = token.kind === 'string' ? `'${token.value}'` : token.value;
+        if (token.kind === 'punct' || type.endsWith('(') || type.endsWith(',') || type === '') {
+            type += value;
+        } else {
+            type += ` ${value}`;
+        }
+    }
+    return type;
+}
+
+/** Items of a parenthesised list split at top-level commas, with their trailing comments */
+function splitItems(tokens: Token[]): Array<{ tokens: Token[]; comment?: string }> {
+    const items: Array<{ tokens: Token[]; comments: string[] }> = [{ tokens: [], comments: [] }];
+    let depth = 0;
+    let lastComma: Token | undefined;
+
+    for (const token of tokens) {
+        const current = items[items.length - 1];
+        if (token.kind === 'comment') {
+            // A comment on the line of the separating comma belongs to the item before it
+            if (lastComma && lastComma.line === token.line && current.tokens.length === 0 && items.length > 1) {
+                items[items.length - 2].comments.push(token.value);
+            } else {
+                current.comments.push(token.value);
+            }
+            continue;
+        }
+        if (isPunct(token, '(')) depth++;
+        if (isPunct(token, ')')) depth--;
+        if (depth === 0 && isPunct(token, ',')) {
+            lastComma = token;
+            items.push({ tokens: [], comments: [] });
+            continue;
+        }
+        current.tokens.push(token);
+    }
+
+    return items
+        .filter(item => item.tokens.length > 0)
+        .map(item => ({ tokens: item.tokens, comment: item.comments.join(' ') || undefined }));
+}
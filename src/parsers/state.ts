@@ -4,7 +4,7 @@
  * Parses Mermaid stateDiagram-v2 syntax to IR
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape } from '../types';
+import type { Diagram } from '../types';
 import type {
     IRStateDiagram,
     IRState,
@@ -15,7 +15,7 @@ import type {
     StateAction,
     StateNotePosition,
 } from '../types/state';
-import { generateId } from '../utils';
+import { generateId, embedStateData, parseTransitionLabel } from '../utils';
 import { validateInput } from './base';
 
 // =============================================================================
@@ -27,7 +27,7 @@ export function parseStateDiagram(source: string): Diagram {
     validateInput(source, 'mermaid');
 
     const stateDiagram = parseToStateDiagramIR(source);
-    return convertStateDiagramToIR(stateDiagram);
+    return embedStateData(stateDiagram);
 }
 
 /** Parse to intermediate state diagram representation */
@@ -152,9 +152,8 @@ export function parseToStateDiagramIR(source: string): IRStateDiagram {
                     type: 'start',
                     label: '[*]',
                 };
-                states.push(startState);
                 stateMap.set(actualSourceId, startState);
-                addToCurrentComposite(startState, compositeStack);
+                addState(startState, states, compositeStack);
             } else {
                 getOrCreateState(sourceId, stateMap, states, compositeStack);
             }
@@ -166,9 +165,8 @@ export function parseToStateDiagramIR(source: string): IRStateDiagram {
                     type: 'end',
                     label: '[*]',
                 };
-                states.push(endState);
                 stateMap.set(actualTargetId, endState);
-                addToCurrentComposite(endState, compositeStack);
+                addState(endState, states, compositeStack);
             } else {
                 getOrCreateState(targetId, stateMap, states, compositeStack);
             }
@@ -226,6 +224,7 @@ export function parseToStateDiagramIR(source: string): IRStateDiagram {
         states,
         transitions,
         notes: notes.length > 0 ? notes : undefined,
+        metadata: { source: 'mermaid-state' },
     };
 }
 
@@ -251,22 +250,10 @@ function parseTransitionLine(line: string): TransitionMatch | null {
 
     const [, sourceId, targetId, labelPart] = match;
 
-    let label = labelPart?.trim();
-    let event: string | undefined;
-    let guard: string | undefined;
-    let action: string | undefined;
+    const label = labelPart?.trim();
 
     // Parse label for event[guard]/action format
-    if (label) {
-        const eventGuardActionMatch = label.match(/^([^[\]/]+)?(?:\[([^\]]+)\])?(?:\/(.+))?$/);
-        if (eventGuardActionMatch) {
-            event = eventGuardActionMatch[1]?.trim();
-            guard = eventGuardActionMatch[2]?.trim();
-            action = eventGuardActionMatch[3]?.trim();
-        }
-    }
-
-    return { sourceId, targetId, label, event, guard, action };
+    return { sourceId, targetId, label, ...(label ? parseTransitionLabel(label) : {}) };
 }
 
 /** Get or create state */
@@ -286,164 +273,21 @@ function getOrCreateState(
         label: id,
     };
 
-    states.push(state);
     stateMap.set(id, state);
-    addToCurrentComposite(state, compositeStack);
+    addState(state, states, compositeStack);
 
     return state;
 }
 
-/** Add state to current composite if any */
-function addToCurrentComposite(state: IRState, compositeStack: IRState[]): void {
+/** Add state to the current composite, or to the top level outside composites */
+function addState(state: IRState, states: IRState[], compositeStack: IRState[]): void {
     if (compositeStack.length > 0) {
         const currentComposite = compositeStack[compositeStack.length - 1];
         if (!currentComposite.children) {
             currentComposite.children = [];
         }
-        // Add reference by ID, not the state itself (to avoid circular refs)
-        // Actually, for nested states we store the full state
         currentComposite.children.push(state);
-    }
-}
-
-// =============================================================================
-// Conversion to Generic IR
-// =============================================================================
-
-/** Convert state diagram IR to generic diagram IR */
-function convertStateDiagramToIR(stateDiagram: IRStateDiagram): Diagram {
-    const nodes: DiagramNode[] = [];
-    const edges: DiagramEdge[] = [];
-    const groups: DiagramGroup[] = [];
-
-    // Convert states to nodes
-    for (const state of stateDiagram.states) {
-        convertStateToNodes(state, nodes, groups);
-    }
-
-    // Convert transitions to edges
-    for (const transition of stateDiagram.transitions) {
-        edges.push({
-            id: transition.id,
-            type: 'edge',
-            source: transition.source,
-            target: transition.target,
-            label: transition.label,
-            arrow: {
-                sourceType: 'none',
-                targetType: 'arrow',
-                lineType: 'solid',
-            },
-            style: transition.style || {},
-            metadata: transition.metadata,
-        });
-    }
-
-    // Convert notes to nodes
-    if (stateDiagram.notes) {
-        for (const note of stateDiagram.notes) {
-            nodes.push({
-                id: note.id,
-                type: 'node',
-                label: note.text,
-                shape: 'note',
-                style: {},
-                metadata: {
-                    noteFor: note.stateId,
-                    notePosition: note.position,
-                },
-            });
-        }
-    }
-
-    return {
-        id: stateDiagram.id,
-        name: stateDiagram.title,
-        type: 'state',
-        nodes,
-        edges,
-        groups,
-        metadata: {
-            source: 'mermaid-state',
-            direction: stateDiagram.direction,
-            ...stateDiagram.metadata,
-        },
-    };
-}
-
-/** Convert state to diagram nodes (handles composite states) */
-function convertStateToNodes(
-    state: IRState,
-    nodes: DiagramNode[],
-    groups: DiagramGroup[]
-): void {
-    const shape = getShapeForStateType(state.type);
-
-    // Build label with actions if present
-    let label = state.label || state.id;
-    if (state.description && state.description !== label) {
-        label = state.description;
-    }
-    if (state.actions && state.actions.length > 0) {
-        const actionLines = state.actions.map(a => `${a.type}/${a.action}`);
-        label = `${label}\n${actionLines.join('\n')}`;
-    }
-
-    const node: DiagramNode = {
-        id: state.id,
-        type: 'node',
-        label,
-        shape,
-        position: state.position,
-        size: state.size,
-        style: state.style || {},
-        metadata: {
-            stateType: state.type,
-            ...state.metadata,
-        },
-    };
-
-    nodes.push(node);
-
-    // Handle composite states
-    if (state.children && state.children.length > 0) {
-        const childIds: string[] = [];
-
-        for (const child of state.children) {
-            convertStateToNodes(child, nodes, groups);
-            childIds.push(child.id);
-        }
-
-        groups.push({
-            id: `group_${state.id}`,
-            type: 'group',
-            label: state.label || state.id,
-            children: childIds,
-            style: {},
-            metadata: {
-                compositeStateId: state.id,
-            },
-        });
-    }
-}
-
-/** Map state type to node shape */
-function getShapeForStateType(stateType: StateType): NodeShape {
-    switch (stateType) {
-        case 'start':
-        case 'end':
-            return 'circle';
-        case 'fork':
-        case 'join':
-            return 'rectangle'; // Thin bar in actual rendering
-        case 'choice':
-            return 'diamond';
-        case 'history':
-        case 'deep-history':
-            return 'circle';
-        case 'composite':
-        case 'state':
-        default:
-            return 'rounded-rectangle';
+    } else {
+        states.push(state);
     }
 }
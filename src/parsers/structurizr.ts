@@ -3,255 +3,580 @@
  *
  * Parses Structurizr DSL (C4 model) to IR
  * https://structurizr.com/dsl
+ *
+ * Supported features:
+ * - workspace name and description, !identifiers flat | hierarchical
+ * - person, softwareSystem, container and component with description,
+ *   technology and tags, as arguments or in element blocks
+ * - group and enterprise boundaries
+ * - Relationships (a -> b, -> b inside an element block, this -> b)
+ *   with description, technology and tags
+ * - url and properties blocks
+ * - deploymentEnvironment with deploymentNode, infrastructureNode,
+ *   softwareSystemInstance and containerInstance
+ * - views: systemLandscape, systemContext, container, component, dynamic
+ *   and deployment with include, exclude, autoLayout, title and description
+ *
+ * Kind tags (Element, Person, Container...) are implied by the element kind;
+ * the External, Database and Queue tags become the external flag and the
+ * database / queue variants.
  */
 
-import type { Diagram, DiagramNode, DiagramEdge, DiagramGroup, NodeShape } from '../types';
+import type { Diagram } from '../types';
+import type {
+    C4ElementKind,
+    C4LayoutDirection,
+    IRC4Diagram,
+    IRC4Element,
+    IRC4Group,
+    IRC4Relationship,
+    IRC4View,
+    C4ViewType,
+} from '../types/c4';
+import { c4ViewKey, embedC4Data, materializeC4View } from '../utils';
+import { ParseError } from '../errors';
 import { validateInput } from './base';
 
+/** Token of a DSL line */
+interface Token {
+    value: string;
+    quoted: boolean;
+}
+
+/** Block the parser is in */
+type Context =
+    | { kind: 'root' }
+    | { kind: 'workspace' }
+    | { kind: 'model' }
+    | { kind: 'element'; id: string }
+    | { kind: 'group'; id: string }
+    | { kind: 'environment'; name: string }
+    | { kind: 'relationship'; id: string }
+    | { kind: 'properties'; target: { properties?: Record<string, string> } }
+    | { kind: 'views' }
+    | { kind: 'view'; view: IRC4View }
+    | { kind: 'skip' };
+
+/** Relationship or view reference resolved once the whole model is known */
+interface PendingReference {
+    ref: string;
+    scope?: string;
+    /** Element that must not resolve to itself, e.g. an instance named after its target */
+    exclude?: string;
+    line: number;
+    apply: (id: string) => void;
+}
+
+const ELEMENT_KEYWORDS: Record<string, C4ElementKind> = {
+    person: 'person',
+    softwaresystem: 'softwareSystem',
+    container: 'container',
+    component: 'component',
+    deploymentnode: 'deploymentNode',
+    infrastructurenode: 'infrastructureNode',
+    softwaresysteminstance: 'softwareSystemInstance',
+    containerinstance: 'containerInstance',
+};
+
+const VIEW_KEYWORDS: Record<string, C4ViewType> = {
+    systemlandscape: 'systemLandscape',
+    systemcontext: 'systemContext',
+    container: 'container',
+    component: 'component',
+    dynamic: 'dynamic',
+    deployment: 'deployment',
+};
+
+/** Tags every element or relationship of a kind carries implicitly */
+const IMPLIED_TAGS = new Set([
+    'Element', 'Person', 'Software System', 'Container', 'Component', 'Deployment Node',
+    'Infrastructure Node', 'Software System Instance', 'Container Instance', 'Relationship',
+]);
+
+/** Options for parsing Structurizr workspaces */
+export interface StructurizrParseOptions {
+    /** View to materialise: zero-based index, view key or title (default: the whole model) */
+    view?: number | string;
+}
+
 /** Parse Structurizr DSL to IR */
-export function parseStructurizr(code: string): Diagram {
+export function parseStructurizr(code: string, options: StructurizrParseOptions = {}): Diagram {
+    const c4 = parseStructurizrC4Diagram(code);
+    if (options.view === undefined) {
+        return embedC4Data(c4);
+    }
+
+    const index = typeof options.view === 'number'
+        ? options.view
+        : c4.views.findIndex((view, i) => c4ViewKey(view, i) === options.view || view.title === options.view);
+    if (!c4.views[index]) {
+        const available = c4.views.map((view, i) => c4ViewKey(view, i));
+        throw new ParseError(`Structurizr view not found: ${options.view}`, 'structurizr', undefined, undefined, { views: available });
+    }
+    return embedC4Data(materializeC4View(c4, c4.views[index], index));
+}
+
+/**
+ * Parse every view of a Structurizr workspace
+ *
+ * Each view becomes a separate diagram scoped by its include and exclude
+ * expressions, carrying the view key as id and the view title as name.
+ * A workspace without views yields the whole model.
+ */
+export function parseStructurizrViews(code: string): Diagram[] {
+    const c4 = parseStructurizrC4Diagram(code);
+    if (c4.views.length === 0) {
+        return [embedC4Data(c4)];
+    }
+    return c4.views.map((view, index) => embedC4Data(materializeC4View(c4, view, index)));
+}
+
+/** Parse Structurizr DSL to the C4 model */
+export function parseStructurizrC4Diagram(code: string): IRC4Diagram {
     validateInput(code, 'structurizr');
 
-    const lines = code.split('\n');
-    const nodes = new Map<string, DiagramNode>();
-    const edges: DiagramEdge[] = [];
-    const groups: DiagramGroup[] = [];
-
-    let edgeId = 0;
-    const containerStack: string[] = [];
-    const nodeToContainer = new Map<string, string>();
-
-    for (const rawLine of lines) {
-        const line = rawLine.trim();
-        if (!line || line.startsWith('//') || line.startsWith('#')) continue;
-
-        // Backward compatibility: support non-assignment form used by older tests
-        // person <id> "Name" ...
-        // softwareSystem <id> "Name" ...
-        // container <id> "Name" ...
-        // component <id> "Name" ...
-        const legacyPerson = line.match(
-            /^person\s+(\w+)\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)")?/i
-        );
-        if (legacyPerson) {
-            const [, id, name] = legacyPerson;
-            nodes.set(id, createNode(id, unquoteStructurizrLabel(name), 'actor'));
-            addToContainer(id, containerStack, nodeToContainer);
-            continue;
+    const elements = new Map<string, IRC4Element>();
+    const groups: IRC4Group[] = [];
+    const relationships: IRC4Relationship[] = [];
+    const views: IRC4View[] = [];
+    const pending: PendingReference[] = [];
+    const stack: Context[] = [{ kind: 'root' }];
+    const usedIds = new Set<string>();
+    let hierarchical = false;
+    let title: string | undefined;
+    let description: string | undefined;
+    let relationshipId = 0;
+    let lineNumber = 0;
+
+    const current = () => stack[stack.length - 1];
+    const nearest = <K extends Context['kind']>(kind: K) =>
+        [...stack].reverse().find((ctx): ctx is Extract<Context, { kind: K }> => ctx.kind === kind);
+    /** Innermost element block */
+    const parentElement = () => nearest('element')?.id;
+    const enclosingGroup = () => {
+        for (let i = stack.length - 1; i >= 0; i--) {
+            const ctx = stack[i];
+            if (ctx.kind === 'group') return ctx.id;
+            if (ctx.kind === 'element') return undefined;
         }
+        return undefined;
+    };
 
-        const legacySystem = line.match(
-            /^softwareSystem\s+(\w+)\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)")?/i
-        );
-        if (legacySystem) {
-            const [, id, name] = legacySystem;
-            nodes.set(id, createNode(id, unquoteStructurizrLabel(name), 'rectangle'));
-            addToContainer(id, containerStack, nodeToContainer);
-            continue;
+    const uniqueId = (base: string) => {
+        const safe = base.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'element';
+        let candidate = safe;
+        for (let n = 2; usedIds.has(candidate); n++) {
+            candidate = `${safe}_${n}`;
         }
+        usedIds.add(candidate);
+        return candidate;
+    };
+
+    const defer = (ref: string, apply: (id: string) => void, exclude?: string) => {
+        pending.push({ ref, scope: parentElement(), exclude, line: lineNumber, apply });
+    };
 
-        const legacyContainer = line.match(
-            /^container\s+(\w+)\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)")?/i
-        );
-        if (legacyContainer) {
-            const [, id, name, tech] = legacyContainer;
-            const normalizedName = unquoteStructurizrLabel(name);
-            const node = createNode(
-                id,
-                tech ? `${normalizedName}\n[${tech}]` : normalizedName,
-                'rectangle'
-            );
-            nodes.set(id, node);
-            addToContainer(id, containerStack, nodeToContainer);
-            continue;
+    /** Element, group, relationship and deployment statements of model blocks */
+    const modelStatement = (tokens: Token[]): Context => {
+        let assigned: string | undefined;
+        let rest = tokens;
+        if (rest.length >= 3 && rest[1].value === '=' && !rest[1].quoted && !rest[0].quoted) {
+            assigned = rest[0].value;
+            rest = rest.slice(2);
         }
 
-        const legacyComponent = line.match(
-            /^component\s+(\w+)\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)")?/i
-        );
-        if (legacyComponent) {
-            const [, id, name, tech] = legacyComponent;
-            const normalizedName = unquoteStructurizrLabel(name);
-            const node = createNode(
-                id,
-                tech ? `${normalizedName}\n[${tech}]` : normalizedName,
-                'rectangle'
-            );
-            nodes.set(id, node);
-            addToContainer(id, containerStack, nodeToContainer);
-            continue;
+        const arrow = rest.findIndex(token => token.value === '->' && !token.quoted);
+        if (arrow === 0 || arrow === 1) {
+            const sourceRef = arrow === 0 || rest[0].value === 'this' ? parentElement() : undefined;
+            const args = rest.slice(arrow + 2).map(token => token.value);
+            const relationship: IRC4Relationship = omitUndefined({
+                id: assigned ?? `edge-${relationshipId++}`,
+                source: sourceRef ?? '',
+                target: '',
+                description: args[0] || undefined,
+                technology: args[1] || undefined,
+                tags: args[2] ? splitTags(args[2]) : undefined,
+            });
+            relationships.push(relationship);
+            if (!sourceRef) {
+                if (arrow === 0) {
+                    throw new ParseError('Relationship without a source outside an element block', 'structurizr', lineNumber);
+                }
+                defer(rest[0].value, id => { relationship.source = id; });
+            }
+            defer(rest[arrow + 1]?.value ?? '', id => { relationship.target = id; });
+            return { kind: 'relationship', id: relationship.id };
         }
 
-        // Parse person assignment: <id> = person "Name" [description]
-        const personMatch = line.match(
-            /^(\w+)\s*=\s*person\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)"+)?/i
-        );
-        if (personMatch) {
-            const [, id, name] = personMatch;
-            nodes.set(id, createNode(id, unquoteStructurizrLabel(name), 'actor'));
-            addToContainer(id, containerStack, nodeToContainer);
-
-            if (line.includes('{')) {
-                containerStack.push(id);
+        const keyword = rest[0]?.quoted ? '' : rest[0]?.value.toLowerCase() ?? '';
+        const kind = ELEMENT_KEYWORDS[keyword];
+        if (kind) {
+            let args = rest.slice(1);
+            let legacy = false;
+            // Older shorthand without assignment: person <id> "Name" ["Description"]
+            if (!assigned && args.length >= 2 && !args[0].quoted && args[1].quoted && !kind.endsWith('Instance')) {
+                assigned = args[0].value;
+                args = args.slice(1);
+                legacy = true;
             }
-            continue;
+            return declareElement(kind, assigned, args.map(token => token.value), legacy);
         }
 
-        // Parse softwareSystem assignment: <id> = softwareSystem "Name" [description]
-        const systemMatch = line.match(
-            /^(\w+)\s*=\s*softwareSystem\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)")?/i
-        );
-        if (systemMatch) {
-            const [, id, name] = systemMatch;
-            const normalizedName = unquoteStructurizrLabel(name);
-            nodes.set(id, createNode(id, normalizedName, 'rectangle'));
-            addToContainer(id, containerStack, nodeToContainer);
-
-            if (line.includes('{')) {
-                if (!groups.some(g => g.id === id)) {
-                    groups.push({
-                        id,
-                        type: 'group',
-                        label: normalizedName,
-                        children: [],
-                        style: {},
-                        metadata: { structurizrType: 'softwareSystem' },
-                    });
+        switch (keyword) {
+            case 'group':
+            case 'enterprise': {
+                const name = rest[1]?.value ?? keyword;
+                const id = uniqueId(assigned ?? name);
+                let parent: string | undefined;
+                for (let i = stack.length - 1; i >= 0; i--) {
+                    const ctx = stack[i];
+                    if (ctx.kind === 'group') { parent = ctx.id; break; }
+                    if (ctx.kind === 'element') break;
                 }
-                containerStack.push(id);
+                groups.push(omitUndefined({ id, name, kind: keyword as IRC4Group['kind'], parent }));
+                return { kind: 'group', id };
             }
-            continue;
+            case 'deploymentenvironment':
+                return { kind: 'environment', name: rest[1]?.value ?? assigned ?? 'Default' };
+            case '!identifiers':
+                hierarchical = rest[1]?.value.toLowerCase() === 'hierarchical';
+                return { kind: 'skip' };
+            default:
+                return { kind: 'skip' };
         }
+    };
 
-        // Parse container assignment: <id> = container "Name" [technology] [description]
-        const containerMatch = line.match(
-            /^(\w+)\s*=\s*container\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)")?/i
-        );
-        if (containerMatch) {
-            const [, id, name, tech] = containerMatch;
-            const normalizedName = unquoteStructurizrLabel(name);
-            const node = createNode(
-                id,
-                tech ? `${normalizedName}\n[${tech}]` : normalizedName,
-                'rectangle'
-            );
-            nodes.set(id, node);
-            addToContainer(id, containerStack, nodeToContainer);
-
-            if (line.includes('{')) {
-                if (!groups.some(g => g.id === id)) {
-                    groups.push({
-                        id,
-                        type: 'group',
-                        label: normalizedName,
-                        children: [],
-                        style: {},
-                        metadata: { structurizrType: 'container' },
-                    });
+    const declareElement = (kind: C4ElementKind, assigned: string | undefined, args: string[], legacy: boolean): Context => {
+        const parent = parentElement();
+        const environment = nearest('environment')?.name;
+        let name: string;
+        let elementDescription: string | undefined;
+        let technology: string | undefined;
+        let tags: string | undefined;
+        let instanceRef: string | undefined;
+
+        switch (kind) {
+            case 'person':
+            case 'softwareSystem':
+                [name, elementDescription, tags] = args;
+                break;
+            case 'softwareSystemInstance':
+            case 'containerInstance':
+                instanceRef = args[0];
+                name = args[0] ?? kind;
+                tags = args[2];
+                break;
+            default:
+                // Legacy shorthand puts the technology right after the name
+                if (legacy) {
+                    [name, technology] = args;
+                } else {
+                    [name, elementDescription, technology, tags] = args;
                 }
-                containerStack.push(id);
-            }
-            continue;
         }
 
-        // Parse component assignment: <id> = component "Name" [technology] [description]
-        const componentMatch = line.match(
-            /^(\w+)\s*=\s*component\s+"([^"]*(?:""[^"]*)*)"(?:\s+"([^"]+)")?/i
-        );
-        if (componentMatch) {
-            const [, id, name, tech] = componentMatch;
-            const normalizedName = unquoteStructurizrLabel(name);
-            const node = createNode(
-                id,
-                tech ? `${normalizedName}\n[${tech}]` : normalizedName,
-                'rectangle'
-            );
-            nodes.set(id, node);
-            addToContainer(id, containerStack, nodeToContainer);
-
-            if (line.includes('{')) {
-                containerStack.push(id);
-            }
-            continue;
+        const local = assigned ?? name ?? kind;
+        const id = assigned
+            ? uniqueId(hierarchical && parent ? `${parent}.${assigned}` : assigned)
+            : uniqueId(hierarchical && parent ? `${parent}.${local}` : local);
+        const element: IRC4Element = omitUndefined({
+            id,
+            kind,
+            name: name ?? id,
+            description: elementDescription || undefined,
+            technology: technology || undefined,
+            parent,
+            group: enclosingGroup(),
+            environment,
+        });
+        applyTags(element, tags ? splitTags(tags) : []);
+        elements.set(id, element);
+
+        if (instanceRef) {
+            defer(instanceRef, target => {
+                element.instanceOf = target;
+                element.name = elements.get(target)?.name ?? element.name;
+            }, id);
         }
+        return { kind: 'element', id };
+    };
 
-        // Parse relationship: <source> -> <target> [description] [technology]
-        const relMatch = line.match(/^(\w+)\s*->\s*(\w+)(?:\s+"([^"]+)")?(?:\s+"([^"]+)")?/);
-        if (relMatch) {
-            const [, sourceId, targetId, desc, tech] = relMatch;
-            const label = tech ? `${desc || ''} [${tech}]`.trim() : desc;
-
-            edges.push({
-                id: `edge-${edgeId++}`,
-                type: 'edge',
-                source: sourceId,
-                target: targetId,
-                label,
-                arrow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' },
-                style: {},
-            });
-            continue;
+    /** description, technology, tags, url and properties inside element and relationship blocks */
+    const propertyStatement = (tokens: Token[], target: IRC4Element | IRC4Relationship): Context | undefined => {
+        const keyword = tokens[0].quoted ? '' : tokens[0].value.toLowerCase();
+        const value = tokens[1]?.value;
+        switch (keyword) {
+            case 'description':
+                target.description = value;
+                return { kind: 'skip' };
+            case 'technology':
+                target.technology = value;
+                return { kind: 'skip' };
+            case 'tags':
+            case 'tag':
+                applyTags(target, tokens.slice(1).flatMap(token => splitTags(token.value)));
+                return { kind: 'skip' };
+            case 'url':
+                target.url = value;
+                return { kind: 'skip' };
+            case 'properties':
+                return { kind: 'properties', target };
+            case 'perspectives':
+            case 'instances':
+            case 'healthcheck':
+                return { kind: 'skip' };
+            default:
+                return undefined;
         }
+    };
 
-        // Parse group/boundary: <type> <id> { or <type> <id> "name" {
-        const groupMatch = line.match(
-            /^(enterprise|group|softwareSystemBoundary|containerBoundary)\s+(\w+)(?:\s+"([^"]+)")?\s*\{/i
-        );
-        if (groupMatch) {
-            const [, type, id, name] = groupMatch;
-            groups.push({
-                id,
-                type: 'group',
-                label: name || id,
-                children: [],
-                style: {},
-                metadata: { structurizrType: type },
-            });
-            containerStack.push(id);
-            continue;
+    const viewStatement = (tokens: Token[]): Context => {
+        const keyword = tokens[0].quoted ? '' : tokens[0].value.toLowerCase();
+        const type = VIEW_KEYWORDS[keyword];
+        if (!type) {
+            return { kind: 'skip' };
         }
+        const args = tokens.slice(1).map(token => token.value);
+        const view: IRC4View = { type, include: [], exclude: [] };
+        let rest = args;
+        if (type !== 'systemLandscape') {
+            view.scope = rest[0];
+            rest = rest.slice(1);
+        }
+        if (type === 'deployment') {
+            view.environment = rest[0];
+            rest = rest.slice(1);
+        }
+        view.key = rest[0] || undefined;
+        view.description = rest[1] || undefined;
+        if (view.scope && view.scope !== '*') {
+            defer(view.scope, id => { view.scope = id; });
+        }
+        views.push(omitUndefined(view));
+        return { kind: 'view', view: views[views.length - 1] };
+    };
 
-        // Closing brace
-        if (line === '}') {
-            containerStack.pop();
+    const viewContentStatement = (tokens: Token[], view: IRC4View): Context => {
+        const keyword = tokens[0].quoted ? '' : tokens[0].value.toLowerCase();
+        const args = tokens.slice(1).map(token => token.value);
+        switch (keyword) {
+            case 'include':
+                view.include.push(...args);
+                break;
+            case 'exclude':
+                view.exclude.push(...args);
+                break;
+            case 'autolayout':
+                view.autoLayout = omitUndefined({
+                    direction: (['tb', 'bt', 'lr', 'rl'].includes(args[0]?.toLowerCase()) ? args[0].toLowerCase() : 'tb') as C4LayoutDirection,
+                    rankSeparation: args[1] ? Number(args[1]) : undefined,
+                    nodeSeparation: args[2] ? Number(args[2]) : undefined,
+                });
+                break;
+            case 'title':
+                view.title = args[0];
+                break;
+            case 'description':
+                view.description = args[0];
+                break;
+            default: {
+                // Dynamic view steps: a -> b "description" "technology"
+                const arrow = tokens.findIndex(token => token.value === '->' && !token.quoted);
+                if (view.type === 'dynamic' && arrow === 1 && tokens[2]) {
+                    const order = String((view.steps?.length ?? 0) + 1);
+                    const step: IRC4Relationship = omitUndefined({
+                        id: `${view.key ?? 'dynamic'}-step-${order}`,
+                        source: '',
+                        target: '',
+                        description: tokens[3]?.value || undefined,
+                        technology: tokens[4]?.value || undefined,
+                        order,
+                    });
+                    view.steps = [...(view.steps ?? []), step];
+                    defer(tokens[0].value, id => { step.source = id; });
+                    defer(tokens[2].value, id => { step.target = id; });
+                }
+            }
         }
+        return { kind: 'skip' };
+    };
+
+    /** Dispatch one statement in the current block; returns the block it would open */
+    const statement = (tokens: Token[]): Context => {
+        const ctx = current();
+        const keyword = tokens[0].quoted ? '' : tokens[0].value.toLowerCase();
+        switch (ctx.kind) {
+            case 'root':
+                if (keyword === 'workspace') {
+                    title = tokens[1]?.quoted || tokens[1]?.value !== 'extends' ? tokens[1]?.value : undefined;
+                    description = title ? tokens[2]?.value : undefined;
+                    return { kind: 'workspace' };
+                }
+                if (keyword === 'model') return { kind: 'model' };
+                if (keyword === 'views') return { kind: 'views' };
+                return modelStatement(tokens);
+            case 'workspace':
+                if (keyword === 'model') return { kind: 'model' };
+                if (keyword === 'views') return { kind: 'views' };
+                if (keyword === 'name') title = tokens[1]?.value;
+                if (keyword === 'description') description = tokens[1]?.value;
+                if (keyword === '!identifiers') hierarchical = tokens[1]?.value.toLowerCase() === 'hierarchical';
+                return { kind: 'skip' };
+            case 'element':
+                return propertyStatement(tokens, elements.get(ctx.id)!) ?? modelStatement(tokens);
+            case 'relationship':
+                return propertyStatement(tokens, relationships.find(rel => rel.id === ctx.id)!) ?? { kind: 'skip' };
+            case 'properties':
+                if (tokens.length >= 2) {
+                    ctx.target.properties = { ...ctx.target.properties, [tokens[0].value]: tokens[1].value };
+                }
+                return { kind: 'skip' };
+            case 'model':
+            case 'group':
+            case 'environment':
+                return modelStatement(tokens);
+            case 'views':
+                return viewStatement(tokens);
+            case 'view':
+                return viewContentStatement(tokens, ctx.view);
+            default:
+                return { kind: 'skip' };
+        }
+    };
+
+    let opened: Context = { kind: 'skip' };
+    for (const line of joinContinuations(stripBlockComments(code))) {
+        lineNumber = line.number;
+        let segment: Token[] = [];
+        const flush = () => {
+            if (segment.length > 0) {
+                opened = statement(segment);
+                segment = [];
+            }
+        };
+        for (const token of tokenize(line.text)) {
+            if (!token.quoted && token.value === '{') {
+                flush();
+                stack.push(opened);
+                opened = { kind: 'skip' };
+            } else if (!token.quoted && token.value === '}') {
+                flush();
+                if (stack.length > 1) stack.pop();
+            } else {
+                segment.push(token);
+            }
+        }
+        flush();
     }
 
-    // Assign nodes to groups
-    for (const [nodeId, groupId] of nodeToContainer) {
-        const group = groups.find(g => g.id === groupId);
-        if (group) group.children.push(nodeId);
+    // References may point at elements declared further down
+    for (const reference of pending) {
+        const id = resolveReference(reference.ref, reference.scope, elements, hierarchical, reference.exclude);
+        if (!id) {
+            throw new ParseError(`Unknown identifier "${reference.ref}"`, 'structurizr', reference.line);
+        }
+        reference.apply(id);
     }
 
-    return {
+    return omitUndefined({
         id: 'structurizr-diagram',
-        type: 'flowchart',
-        nodes: Array.from(nodes.values()),
-        edges,
+        title,
+        description,
+        elements: Array.from(elements.values()),
         groups,
-        metadata: { source: 'structurizr' },
-    };
+        relationships,
+        views,
+        metadata: omitUndefined({
+            source: 'structurizr',
+            identifiers: hierarchical ? 'hierarchical' : undefined,
+        }),
+    });
 }
 
-function unquoteStructurizrLabel(label: string): string {
-    let result = label.trim();
-
-    while (
-        (result.startsWith('"') && result.endsWith('"')) ||
-        (result.startsWith("'") && result.endsWith("'"))
-    ) {
-        result = result.slice(1, -1).trim();
+/** Resolve an identifier, trying enclosing elements first with hierarchical identifiers */
+function resolveReference(
+    ref: string,
+    scope: string | undefined,
+    elements: Map<string, IRC4Element>,
+    hierarchical: boolean,
+    exclude?: string
+): string | undefined {
+    if (hierarchical) {
+        let prefix = scope;
+        while (prefix) {
+            const candidate = `${prefix}.${ref}`;
+            if (candidate !== exclude && elements.has(candidate)) return candidate;
+            prefix = elements.get(prefix)?.parent;
+        }
     }
+    if (ref !== exclude && elements.has(ref)) return ref;
+    return undefined;
+}
 
-    return result.replace(/""/g, '"');
+/** Apply a tag list, turning the External, Database and Queue tags into fields */
+function applyTags(target: IRC4Element | IRC4Relationship, tags: string[]): void {
+    const user: string[] = [...(target.tags ?? [])];
+    for (const tag of tags) {
+        if (IMPLIED_TAGS.has(tag)) continue;
+        if ('kind' in target) {
+            if (tag === 'External') { target.external = true; continue; }
+            if (tag === 'Database') { target.variant = 'database'; continue; }
+            if (tag === 'Queue') { target.variant = 'queue'; continue; }
+        }
+        if (!user.includes(tag)) user.push(tag);
+    }
+    target.tags = user.length > 0 ? user : undefined;
+    if (!target.tags) delete target.tags;
 }
 
-function createNode(id: string, label: string, shape: NodeShape): DiagramNode {
-    return { id, type: 'node', label, shape, style: {} };
+/** Split a comma-separated tag list */
+function splitTags(value: string): string[] {
+    return value.split(',').map(tag => tag.trim()).filter(Boolean);
 }
 
-function addToContainer(nodeId: string, stack: string[], map: Map<string, string>): void {
-    if (stack.length > 0) {
-        map.set(nodeId, stack[stack.length - 1]);
+/** Split a line into quoted strings, braces and bare words; // starts a comment */
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /"((?:[^"\\]|\\.)*)"|([{}])|([^\s"{}]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        if (match[1] !== undefined) {
+            tokens.push({ value: match[1].replace(/\\(["\\])/g, '$1').replace(/\\n/g, '\n'), quoted: true });
+        } else if (match[2]) {
+            tokens.push({ value: match[2], quoted: false });
+        } else {
+            if (match[3].startsWith('//') || (tokens.length === 0 && match[3].startsWith('#'))) break;
+            tokens.push({ value: match[3], quoted: false });
+        }
     }
+    return tokens;
+}
+
+/** Replace block comments with blank lines so line numbers stay correct */
+function stripBlockComments(code: string): string {
+    return code.replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '));
+}
+
+/** Join lines ending in a backslash with the next one */
+function joinContinuations(code: string): { text: string; number: number }[] {
+    const lines: { text: string; number: number }[] = [];
+    let buffer = '';
+    let start = 0;
+    code.split('\n').forEach((raw, index) => {
+        if (!buffer) start = index + 1;
+        const text = raw.trim();
+        if (text.endsWith('\\')) {
+            buffer += `${text.slice(0, -1)} `;
+            return;
+        }
+        lines.push({ text: buffer + text, number: start });
+        buffer = '';
+    });
+    if (buffer) lines.push({ text: buffer, number: start });
+    return lines;
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
 }
@@ -0,0 +1,247 @@
+/**
+ * BPMN Types
+ *
+ * Types for BPMN 2.0 process models: processes, pools (participants) with
+ * lanes, flow nodes with their event definitions, and sequence, message,
+ * association and data flows
+ */
+
+import type { Position } from './ir';
+
+// =============================================================================
+// Element Types
+// =============================================================================
+
+/** Task variants */
+export type BpmnTaskType =
+    | 'task'
+    | 'userTask'
+    | 'serviceTask'
+    | 'scriptTask'
+    | 'manualTask'
+    | 'businessRuleTask'
+    | 'sendTask'
+    | 'receiveTask';
+
+/** Activities that contain other flow nodes */
+export type BpmnSubProcessType = 'subProcess' | 'transaction' | 'adHocSubProcess';
+
+/** Event variants */
+export type BpmnEventType =
+    | 'startEvent'
+    | 'endEvent'
+    | 'intermediateCatchEvent'
+    | 'intermediateThrowEvent'
+    | 'boundaryEvent';
+
+/** Gateway variants */
+export type BpmnGatewayType =
+    | 'exclusiveGateway'
+    | 'parallelGateway'
+    | 'inclusiveGateway'
+    | 'eventBasedGateway'
+    | 'complexGateway';
+
+/** Data and artifact elements */
+export type BpmnDataType = 'dataObjectReference' | 'dataStoreReference' | 'textAnnotation';
+
+/** Any element placed on a process */
+export type BpmnElementType =
+    | BpmnTaskType
+    | BpmnSubProcessType
+    | 'callActivity'
+    | BpmnEventType
+    | BpmnGatewayType
+    | BpmnDataType;
+
+/** Event definition kinds (<timerEventDefinition> etc.) */
+export type BpmnEventDefinitionType =
+    | 'message'
+    | 'timer'
+    | 'error'
+    | 'signal'
+    | 'escalation'
+    | 'conditional'
+    | 'compensate'
+    | 'cancel'
+    | 'link'
+    | 'terminate';
+
+/** Timer expression kinds */
+export type BpmnTimerType = 'timeDate' | 'timeDuration' | 'timeCycle';
+
+/** Trigger or result of an event */
+export interface BpmnEventDefinition {
+    type: BpmnEventDefinitionType;
+    id?: string;
+    /** Referenced message, error, signal or escalation */
+    ref?: string;
+    timer?: BpmnTimerType;
+    /** Timer expression, condition or link name */
+    expression?: string;
+}
+
+/** Shape bounds from BPMN DI */
+export interface BpmnBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Flow node, data element or annotation */
+export interface IRBpmnElement {
+    id: string;
+    type: BpmnElementType;
+    /** Name; the text of annotations */
+    name?: string;
+    /** Owning process */
+    processId: string;
+    /** Enclosing sub-process */
+    parent?: string;
+    /** Activity a boundary event is attached to */
+    attachedTo?: string;
+    /** Boundary events interrupt their activity unless false */
+    cancelActivity?: boolean;
+    eventDefinitions?: BpmnEventDefinition[];
+    /** Default outgoing sequence flow of gateways and activities */
+    defaultFlow?: string;
+    /** Sub-processes started by an event */
+    triggeredByEvent?: boolean;
+    /** Sub-process drawn with its contents */
+    expanded?: boolean;
+    /** Process called by a call activity */
+    calledElement?: string;
+    /** Data object or data store behind a reference */
+    itemRef?: string;
+    /** Attributes of extension namespaces by qualified name, e.g. `camunda:asyncBefore` */
+    extensionAttributes?: Record<string, string>;
+    bounds?: BpmnBounds;
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Flow Types
+// =============================================================================
+
+/** Connection kinds */
+export type BpmnFlowType =
+    | 'sequenceFlow'
+    | 'messageFlow'
+    | 'association'
+    | 'dataInputAssociation'
+    | 'dataOutputAssociation';
+
+/**
+ * Connection between elements. Data input associations run from the data
+ * element to the activity, data output associations the other way.
+ */
+export interface IRBpmnFlow {
+    id: string;
+    type: BpmnFlowType;
+    source: string;
+    target: string;
+    name?: string;
+    /** Condition expression of a sequence flow */
+    condition?: string;
+    /** Message carried by a message flow */
+    messageRef?: string;
+    /** DI waypoints, including both docking points */
+    waypoints?: Position[];
+    /** Attributes of extension namespaces by qualified name */
+    extensionAttributes?: Record<string, string>;
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Container Types
+// =============================================================================
+
+/** Lane of a pool; flow nodes belong to the innermost lane */
+export interface IRBpmnLane {
+    id: string;
+    name?: string;
+    /** Flow nodes assigned to this lane (flowNodeRef) */
+    elements: string[];
+    /** Nested lanes (childLaneSet) */
+    lanes?: IRBpmnLane[];
+    bounds?: BpmnBounds;
+}
+
+/** Pool (collaboration participant); black-box pools have no process */
+export interface IRBpmnPool {
+    /** Participant ID */
+    id: string;
+    name?: string;
+    processId?: string;
+    lanes: IRBpmnLane[];
+    bounds?: BpmnBounds;
+}
+
+/** Process; its elements reference it by ID */
+export interface IRBpmnProcess {
+    id: string;
+    name?: string;
+    isExecutable?: boolean;
+    /** Attributes of extension namespaces by qualified name, e.g. `camunda:historyTimeToLive` */
+    extensionAttributes?: Record<string, string>;
+}
+
+/** Root elements referenced by event definitions and data store references */
+export interface BpmnRootElement {
+    type: 'message' | 'error' | 'signal' | 'escalation' | 'dataStore';
+    id: string;
+    name?: string;
+    /** Error or escalation code */
+    code?: string;
+}
+
+// =============================================================================
+// BPMN Diagram
+// =============================================================================
+
+/** Complete BPMN model */
+export interface IRBpmnDiagram {
+    id: string;
+    title?: string;
+    processes: IRBpmnProcess[];
+    pools: IRBpmnPool[];
+    elements: IRBpmnElement[];
+    flows: IRBpmnFlow[];
+    rootElements?: BpmnRootElement[];
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Utility Functions
+// =============================================================================
+
+const EVENT_TYPES = new Set<BpmnElementType>(['startEvent', 'endEvent', 'intermediateCatchEvent', 'intermediateThrowEvent', 'boundaryEvent']);
+const GATEWAY_TYPES = new Set<BpmnElementType>(['exclusiveGateway', 'parallelGateway', 'inclusiveGateway', 'eventBasedGateway', 'complexGateway']);
+const SUB_PROCESS_TYPES = new Set<BpmnElementType>(['subProcess', 'transaction', 'adHocSubProcess']);
+const DATA_TYPES = new Set<BpmnElementType>(['dataObjectReference', 'dataStoreReference', 'textAnnotation']);
+
+/** Check if element is an event */
+export function isBpmnEvent(type: BpmnElementType): type is BpmnEventType {
+    return EVENT_TYPES.has(type);
+}
+
+/** Check if element is a gateway */
+export function isBpmnGateway(type: BpmnElementType): type is BpmnGatewayType {
+    return GATEWAY_TYPES.has(type);
+}
+
+/** Check if element is a sub-process that can contain flow nodes */
+export function isBpmnSubProcess(type: BpmnElementType): type is BpmnSubProcessType {
+    return SUB_PROCESS_TYPES.has(type);
+}
+
+/** Check if element is a data element or annotation rather than a flow node */
+export function isBpmnDataElement(type: BpmnElementType): type is BpmnDataType {
+    return DATA_TYPES.has(type);
+}
+
+/** Check if element is a task, sub-process or call activity */
+export function isBpmnActivity(type: BpmnElementType): boolean {
+    return !isBpmnEvent(type) && !isBpmnGateway(type) && !isBpmnDataElement(type);
+}
@@ -0,0 +1,157 @@
+/**
+ * C4 Model Types
+ *
+ * Types for C4 architecture models (Structurizr DSL, C4-PlantUML, Mermaid C4)
+ */
+
+// =============================================================================
+// Element Types
+// =============================================================================
+
+/** C4 element kinds, static structure first, deployment last */
+export type C4ElementKind =
+    | 'person'
+    | 'softwareSystem'
+    | 'container'
+    | 'component'
+    | 'deploymentNode'
+    | 'infrastructureNode'
+    | 'softwareSystemInstance'
+    | 'containerInstance';
+
+/** Shape variants drawn by C4-PlantUML and Mermaid (SystemDb, ContainerQueue) */
+export type C4ElementVariant = 'database' | 'queue';
+
+/** Model element */
+export interface IRC4Element {
+    id: string;
+    kind: C4ElementKind;
+    name: string;
+    description?: string;
+    technology?: string;
+    /** User tags; the implicit kind tags (Element, Person, Container...) are not listed */
+    tags?: string[];
+    /** Outside the enterprise or system in scope (_Ext macros, External tag) */
+    external?: boolean;
+    variant?: C4ElementVariant;
+    /** Enclosing element: software system of a container, container of a component, deployment node of a node or instance */
+    parent?: string;
+    /** Enclosing enterprise or group boundary */
+    group?: string;
+    /** Element deployed by a software system or container instance */
+    instanceOf?: string;
+    /** Deployment environment of deployment elements */
+    environment?: string;
+    url?: string;
+    properties?: Record<string, string>;
+    metadata?: Record<string, unknown>;
+}
+
+/** Named boundary that is not a model element */
+export interface IRC4Group {
+    id: string;
+    name: string;
+    kind: 'enterprise' | 'group';
+    /** Enclosing group */
+    parent?: string;
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Relationship Types
+// =============================================================================
+
+/** Layout hint of C4-PlantUML Rel_U / Rel_D / Rel_L / Rel_R */
+export type C4RelationshipDirection = 'up' | 'down' | 'left' | 'right';
+
+/** Relationship between two elements */
+export interface IRC4Relationship {
+    id: string;
+    source: string;
+    target: string;
+    description?: string;
+    technology?: string;
+    tags?: string[];
+    direction?: C4RelationshipDirection;
+    /** BiRel */
+    bidirectional?: boolean;
+    /** Step number in dynamic views */
+    order?: string;
+    url?: string;
+    properties?: Record<string, string>;
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// View Types
+// =============================================================================
+
+/** Structurizr view types; Mermaid and C4-PlantUML headers map onto them */
+export type C4ViewType =
+    | 'systemLandscape'
+    | 'systemContext'
+    | 'container'
+    | 'component'
+    | 'dynamic'
+    | 'deployment';
+
+/** Rank direction of autoLayout */
+export type C4LayoutDirection = 'tb' | 'bt' | 'lr' | 'rl';
+
+/** Automatic layout settings */
+export interface C4AutoLayout {
+    direction: C4LayoutDirection;
+    rankSeparation?: number;
+    nodeSeparation?: number;
+}
+
+/** Diagram definition over the model */
+export interface IRC4View {
+    type: C4ViewType;
+    key?: string;
+    /** Software system or container in scope; * or absent for landscape-wide views */
+    scope?: string;
+    /** Deployment environment of deployment views */
+    environment?: string;
+    title?: string;
+    description?: string;
+    /** Include expressions as written: *, identifiers, ->x->, relationship expressions */
+    include: string[];
+    exclude: string[];
+    autoLayout?: C4AutoLayout;
+    /** Ordered interactions of dynamic views */
+    steps?: IRC4Relationship[];
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Model Types
+// =============================================================================
+
+/** Complete C4 model with its views */
+export interface IRC4Diagram {
+    id: string;
+    title?: string;
+    description?: string;
+    elements: IRC4Element[];
+    groups: IRC4Group[];
+    relationships: IRC4Relationship[];
+    views: IRC4View[];
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Structural parent kinds: a component sits in a container, a container in a software system */
+export const C4_PARENT_KIND: Partial<Record<C4ElementKind, C4ElementKind>> = {
+    container: 'softwareSystem',
+    component: 'container',
+};
+
+/** Whether the element belongs to a deployment environment */
+export function isC4DeploymentElement(kind: C4ElementKind): boolean {
+    return kind === 'deploymentNode' || kind === 'infrastructureNode'
+        || kind === 'softwareSystemInstance' || kind === 'containerInstance';
+}
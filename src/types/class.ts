@@ -0,0 +1,150 @@
+/**
+ * Class Diagram Types
+ *
+ * Types for UML class diagrams (Mermaid classDiagram, PlantUML class)
+ */
+
+// =============================================================================
+// Classifier Types
+// =============================================================================
+
+/** Member visibility */
+export type ClassVisibility =
+    | 'public'      // +
+    | 'private'     // -
+    | 'protected'   // #
+    | 'package';    // ~
+
+/** Kind of classifier */
+export type ClassifierKind = 'class' | 'interface' | 'abstract' | 'enum';
+
+/** Attribute (field) of a class */
+export interface IRClassAttribute {
+    name: string;
+    type?: string;
+    visibility?: ClassVisibility;
+    isStatic?: boolean;
+    defaultValue?: string;
+}
+
+/** Operation parameter */
+export interface IRClassParameter {
+    name: string;
+    type?: string;
+}
+
+/** Operation (method) of a class */
+export interface IRClassOperation {
+    name: string;
+    parameters: IRClassParameter[];
+    returnType?: string;
+    visibility?: ClassVisibility;
+    isStatic?: boolean;
+    isAbstract?: boolean;
+}
+
+/** Class, interface, abstract class or enumeration */
+export interface IRClass {
+    id: string;
+    name: string;
+    kind: ClassifierKind;
+    /** Display label when different from the name */
+    label?: string;
+    /** Stereotype other than the one implied by the kind, e.g. service */
+    stereotype?: string;
+    /** Generic type parameters, e.g. T or K, V */
+    generic?: string;
+    /** Enclosing namespace/package */
+    namespace?: string;
+    attributes: IRClassAttribute[];
+    operations: IRClassOperation[];
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Relationship Types
+// =============================================================================
+
+/** UML relationship kinds */
+export type ClassRelationType =
+    | 'inheritance'     // <|--
+    | 'realization'     // <|..
+    | 'composition'     // *--
+    | 'aggregation'     // o--
+    | 'association'     // -->
+    | 'dependency'      // ..>
+    | 'lollipop'        // ()--
+    | 'link'            // --
+    | 'dashed-link';    // ..
+
+/** Relationship between two classes */
+export interface IRClassRelationship {
+    id: string;
+    source: string;           // Source class ID (as written)
+    target: string;           // Target class ID (as written)
+    kind: ClassRelationType;
+    /** End carrying the decoration (triangle, diamond, arrow head); default target */
+    markerEnd?: 'source' | 'target' | 'both';
+    label?: string;
+    sourceCardinality?: string;
+    targetCardinality?: string;
+    metadata?: Record<string, unknown>;
+}
+
+/** Note, optionally attached to a class */
+export interface IRClassNote {
+    id: string;
+    text: string;
+    attachTo?: string;
+}
+
+// =============================================================================
+// Diagram Types
+// =============================================================================
+
+/** Complete class diagram representation */
+export interface IRClassDiagram {
+    id: string;
+    title?: string;
+    direction?: string;
+    classes: IRClass[];
+    relationships: IRClassRelationship[];
+    notes?: IRClassNote[];
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Visibility Mapping
+// =============================================================================
+
+/** Map UML visibility symbol (+ - # ~) to ClassVisibility */
+export function parseVisibility(symbol: string | undefined): ClassVisibility | undefined {
+    switch (symbol) {
+        case '+':
+            return 'public';
+        case '-':
+            return 'private';
+        case '#':
+            return 'protected';
+        case '~':
+            return 'package';
+        default:
+            return undefined;
+    }
+}
+
+/** Map ClassVisibility to UML symbol */
+export function generateVisibility(visibility: ClassVisibility | undefined): string {
+    switch (visibility) {
+        case 'public':
+            return '+';
+        case 'private':
+            return '-';
+        case 'protected':
+            return '#';
+        case 'package':
+            return '~';
+        default:
+            return '';
+    }
+}
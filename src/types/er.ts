@@ -62,6 +62,10 @@ export interface IRRelationship {
     targetCardinality: ERCardinality;
     identifying: ERIdentifying;
     label?: string;           // Relationship verb/label
+    /**
+     * Foreign keys read from SQL record `columns` (on the referencing
+     * entity) and `references` (on the referenced one, empty when unknown)
+     */
     metadata?: Record<string, unknown>;
 }
 
@@ -0,0 +1,91 @@
+/**
+ * Conversion Fidelity Types
+ *
+ * IR features that output formats can express, and diagnostics for the
+ * features a conversion loses
+ *
+ * @example
+ * ```typescript
+ * const result = convert(drawioXml, { from: 'drawio', to: 'mermaid' });
+ * for (const loss of result.diagnostics ?? []) {
+ *   console.warn(`${loss.elementId}: ${loss.reason}`);
+ * }
+ * ```
+ */
+
+import type { ArrowHeadType, DiagramType, LineType, NodeShape } from './ir';
+
+/**
+ * IR feature that a format may be unable to express
+ *
+ * Shapes, line types, arrow heads and diagram types are features of
+ * their own, e.g. `shape:cloud`, `line:thick`, `arrow:diamond` and
+ * `type:sequence`.
+ */
+export type DiagramFeature =
+    // Layout
+    | 'positions'
+    | 'sizes'
+    | 'waypoints'
+    | 'ports'
+    // Structure
+    | 'groups'
+    | 'nested-groups'
+    | 'collapsed-groups'
+    | 'edge-labels'
+    | 'label-position'
+    | 'block-labels'
+    | 'unicode-text'
+    // Node style
+    | 'fill'
+    | 'stroke'
+    | 'stroke-width'
+    | 'font-size'
+    | 'font-family'
+    | 'font-color'
+    | 'font-weight'
+    | 'text-align'
+    | 'opacity'
+    | 'shadow'
+    | 'rounded'
+    // Edge style
+    | 'edge-stroke'
+    | 'edge-stroke-width'
+    | 'edge-opacity'
+    // Group style
+    | 'group-fill'
+    | 'group-stroke'
+    | 'group-dash'
+    | 'group-opacity'
+    | 'group-label-position'
+    | `shape:${NodeShape}`
+    | `line:${LineType}`
+    | `arrow:${ArrowHeadType}`
+    | `type:${DiagramType}`;
+
+/** How much a loss matters: errors drop text, warnings change the picture, info is cosmetic */
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/** Feature of a diagram element that the output format cannot express */
+export interface ConversionDiagnostic {
+    /** Node, edge or group id; absent for the diagram itself */
+    elementId?: string;
+    elementType: 'node' | 'edge' | 'group' | 'diagram';
+    feature: DiagramFeature;
+    /** Human-readable explanation */
+    reason: string;
+    severity: DiagnosticSeverity;
+}
+
+/** IR features an output format can express */
+export interface FormatCapabilities {
+    /** Layout, structure and style features */
+    features: readonly DiagramFeature[];
+    shapes: readonly NodeShape[];
+    lineTypes: readonly LineType[];
+    arrowHeads: readonly ArrowHeadType[];
+    /** Diagram types written natively; others are converted or drawn as flowcharts */
+    diagramTypes: readonly DiagramType[];
+    /** Text is limited to ASCII where no canvas is available, so `unicode-text` is lost there */
+    asciiText?: boolean;
+}
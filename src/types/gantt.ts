@@ -0,0 +1,61 @@
+/**
+ * Gantt Chart Types
+ *
+ * Types for Gantt charts (Mermaid gantt, PlantUML @startgantt)
+ */
+
+// =============================================================================
+// Task Types
+// =============================================================================
+
+/** Task status/emphasis tags (Mermaid done, active, crit) */
+export type GanttTaskTag = 'done' | 'active' | 'crit';
+
+/** Gantt task or milestone */
+export interface IRGanttTask {
+    id: string;
+    name: string;
+    /** Section the task belongs to */
+    section?: string;
+    /** Explicit start date (YYYY-MM-DD) */
+    start?: string;
+    /** Explicit end date (YYYY-MM-DD, exclusive) */
+    end?: string;
+    /** Length in working days */
+    duration?: number;
+    /** Task IDs that must end before this task starts */
+    after?: string[];
+    milestone?: boolean;
+    tags?: GanttTaskTag[];
+    /** Completion percentage (0-100) */
+    progress?: number;
+    metadata?: Record<string, unknown>;
+}
+
+/** Task with concrete dates after scheduling */
+export interface GanttScheduledTask extends IRGanttTask {
+    start: string;
+    end: string;
+}
+
+// =============================================================================
+// Diagram Types
+// =============================================================================
+
+/** Complete Gantt chart representation */
+export interface IRGanttDiagram {
+    id: string;
+    title?: string;
+    /** Input date format of the source (Mermaid dateFormat) */
+    dateFormat?: string;
+    /** Axis label format (Mermaid axisFormat, strftime style) */
+    axisFormat?: string;
+    /** Date tasks without a start fall back to (PlantUML "Project starts") */
+    projectStart?: string;
+    /** Non-working days: weekends, weekday names or YYYY-MM-DD dates */
+    excludes: string[];
+    /** Section names in order */
+    sections: string[];
+    tasks: IRGanttTask[];
+    metadata?: Record<string, unknown>;
+}
@@ -10,9 +10,33 @@ export * from './er';
 // State diagram types
 export * from './state';
 
+// Class diagram types
+export * from './class';
+
+// Gantt chart types
+export * from './gantt';
+
+// Mindmap types
+export * from './mindmap';
+
+// BPMN types
+export * from './bpmn';
+
+// C4 model types
+export * from './c4';
+
 // Syntax fixer types
 export * from './fixer';
 
+// Format registry types
+export * from './registry';
+
+// Parser and generator options by format
+export * from './options';
+
+// Conversion fidelity types
+export * from './fidelity';
+
 // Fluent API types
 export * from './api';
 
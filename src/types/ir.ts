@@ -5,6 +5,10 @@
  * All parsers convert to IR, all generators convert from IR.
  */
 
+import type { CustomInputFormat, CustomOutputFormat } from './registry';
+import type { GeneratorOptionsMap, ParserOptionsMap } from './options';
+import type { ConversionDiagnostic } from './fidelity';
+
 // =============================================================================
 // Base Types
 // =============================================================================
@@ -183,6 +187,8 @@ export type DiagramType =
     | 'er'              // Entity-Relationship
     | 'mindmap'
     | 'gantt'
+    | 'bpmn'
+    | 'c4'
     | 'pie'
     | 'generic';
 
@@ -195,6 +201,8 @@ export interface DiagramMetadata {
     author?: string;
     title?: string;
     description?: string;
+    /** Source constructs the parser dropped; convert reports them as warnings */
+    warnings?: string[];
     [key: string]: unknown;
 }
 
@@ -214,21 +222,28 @@ export interface Diagram {
 // Utility Types
 // =============================================================================
 
-/** Supported input formats */
-export type InputFormat =
+/** Input formats parsed by the library itself */
+export type BuiltinInputFormat =
     | 'mermaid'
     | 'drawio'
     | 'excalidraw'
     | 'plantuml'
     | 'dot'
+    | 'graphviz-plain'
+    | 'graphviz-json'
     | 'd2'
     | 'structurizr'
     | 'bpmn'
     | 'graphml'
-    | 'lucidchart';
+    | 'lucidchart'
+    | 'scxml'
+    | 'sql';
 
-/** Supported output formats */
-export type OutputFormat =
+/** Supported input formats, including registered custom formats */
+export type InputFormat = BuiltinInputFormat | CustomInputFormat;
+
+/** Output formats generated by the library itself */
+export type BuiltinOutputFormat =
     | 'mermaid'
     | 'drawio'
     | 'excalidraw'
@@ -239,10 +254,16 @@ export type OutputFormat =
     | 'd2'
     | 'structurizr'
     | 'bpmn'
-    | 'graphml';
+    | 'graphml'
+    | 'scxml'
+    | 'sql'
+    | 'dbml';
+
+/** Supported output formats, including registered custom formats */
+export type OutputFormat = BuiltinOutputFormat | CustomOutputFormat;
 
 /** Layout algorithm */
-export type LayoutAlgorithm = 'dagre' | 'elk' | 'none';
+export type LayoutAlgorithm = 'dagre' | 'elk' | 'force' | 'radial' | 'tree' | 'grid' | 'none';
 
 /** Layout direction */
 export type LayoutDirection = 'TB' | 'BT' | 'LR' | 'RL';
@@ -256,6 +277,10 @@ export interface ConvertOptions {
         direction?: LayoutDirection;
         nodeSpacing?: number;
         rankSpacing?: number;
+        /** Simulation steps for the force layout */
+        iterations?: number;
+        /** Root node for the radial and tree layouts */
+        rootId?: string;
     };
     style?: {
         theme?: 'default' | 'dark' | 'minimal';
@@ -270,13 +295,36 @@ export interface ConvertOptions {
         /** Escape special characters */
         escapeSpecial?: boolean;
     };
+    /** Keep positions from the source; only position-less nodes are laid out */
     preserveLayout?: boolean;
+    /** Page of a multi-page Draw.io source: zero-based index, page id or page name */
+    page?: number | string;
+    /** View of a Structurizr workspace: zero-based index, view key or title */
+    view?: number | string;
+    /** Convert every view of a Structurizr workspace (see ConvertResult.views) */
+    views?: boolean;
+    /** Parser options by input format; only the options of `from` are used */
+    parserOptions?: Partial<ParserOptionsMap>;
+    /** Generator options by output format; only the options of `to` are used */
+    generatorOptions?: Partial<GeneratorOptionsMap>;
 }
 
 /** Conversion result */
 export interface ConvertResult {
     output: string;
     diagram: Diagram;
+    /** Source constructs the parser dropped, then features the output format loses, one line per feature */
     warnings?: string[];
+    /** Lost text, such as edge labels, one line per feature */
     errors?: string[];
+    /**
+     * Every element feature the output format cannot express; empty when
+     * the capabilities of a registered format are unknown
+     */
+    diagnostics?: ConversionDiagnostic[];
+    /**
+     * One result per view when converting with `views`. The top-level output
+     * is a Draw.io file with a page per view, or the first view otherwise.
+     */
+    views?: ConvertResult[];
 }
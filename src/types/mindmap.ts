@@ -0,0 +1,54 @@
+/**
+ * Mindmap Types
+ *
+ * Types for mindmaps (Mermaid mindmap, PlantUML @startmindmap / @startwbs)
+ */
+
+// =============================================================================
+// Node Types
+// =============================================================================
+
+/** Mindmap node shapes (Mermaid syntax in comments) */
+export type MindmapNodeShape =
+    | 'default'     // text
+    | 'square'      // [text]
+    | 'rounded'     // (text)
+    | 'circle'      // ((text))
+    | 'bang'        // ))text((
+    | 'cloud'       // )text(
+    | 'hexagon';    // {{text}}
+
+/** Branch side relative to the root (PlantUML + / - levels) */
+export type MindmapSide = 'left' | 'right';
+
+/** Mindmap node with its subtree */
+export interface IRMindmapNode {
+    id: string;
+    label: string;
+    shape?: MindmapNodeShape;
+    /** Icon class, e.g. fa fa-book */
+    icon?: string;
+    /** CSS classes (Mermaid :::class) */
+    cssClass?: string;
+    /** Background color (PlantUML [#color]) */
+    color?: string;
+    /** Drawn without a box (PlantUML _) */
+    boxless?: boolean;
+    side?: MindmapSide;
+    children: IRMindmapNode[];
+    metadata?: Record<string, unknown>;
+}
+
+// =============================================================================
+// Diagram Types
+// =============================================================================
+
+/** Complete mindmap representation */
+export interface IRMindmapDiagram {
+    id: string;
+    title?: string;
+    /** Work breakdown structure rather than a free mindmap */
+    variant?: 'mindmap' | 'wbs';
+    root: IRMindmapNode;
+    metadata?: Record<string, unknown>;
+}
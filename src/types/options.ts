@@ -0,0 +1,87 @@
+/**
+ * Format Options Types
+ *
+ * Options of the parsers and generators by format, passed through
+ * `ConvertOptions.parserOptions` and `ConvertOptions.generatorOptions`
+ */
+
+import type { CustomInputFormats, CustomOutputFormats } from './registry';
+import type { DrawioParseOptions } from '../parsers/drawio';
+import type { D2ParseOptions } from '../parsers/d2';
+import type { StructurizrParseOptions } from '../parsers/structurizr';
+import type { MermaidOptions } from '../generators/mermaid';
+import type { PlantUMLOptions } from '../generators/plantuml';
+import type { DotOptions } from '../generators/dot';
+import type { D2Options } from '../generators/d2';
+import type { DrawioOptions } from '../generators/drawio';
+import type { SequenceDrawioOptions } from '../generators/drawio-sequence';
+import type { StateDrawioOptions } from '../generators/drawio-state';
+import type { ERDrawioOptions } from '../generators/drawio-er';
+import type { BpmnDrawioOptions } from '../generators/drawio-bpmn';
+import type { ExcalidrawOptions } from '../generators/excalidraw';
+import type { SequenceExcalidrawOptions } from '../generators/excalidraw-sequence';
+import type { SvgOptions } from '../generators/svg';
+import type { PngOptions } from '../generators/png';
+import type { SequenceSvgOptions } from '../generators/svg-sequence';
+import type { StateSvgOptions } from '../generators/svg-state';
+import type { ERSvgOptions } from '../generators/svg-er';
+import type { GanttSvgOptions } from '../generators/svg-gantt';
+import type { BpmnSvgOptions } from '../generators/svg-bpmn';
+import type { BpmnLayoutOptions } from '../layout/bpmn';
+
+/**
+ * SVG options of diagram types other than flowcharts. The font and
+ * background options of the format apply to them too.
+ */
+export interface DiagramSvgOptions {
+    sequence?: SequenceSvgOptions;
+    state?: StateSvgOptions;
+    er?: ERSvgOptions;
+    gantt?: GanttSvgOptions;
+    bpmn?: BpmnSvgOptions;
+}
+
+/** Options of the SVG generators */
+export interface SvgGeneratorOptions extends SvgOptions, DiagramSvgOptions {}
+
+/** Options of the PNG generators; diagram types get their SVG options before rasterising */
+export interface PngGeneratorOptions extends PngOptions, DiagramSvgOptions {}
+
+/** Options of the Draw.io generators; `compressed` applies to every diagram type */
+export interface DrawioGeneratorOptions extends DrawioOptions {
+    sequence?: SequenceDrawioOptions;
+    state?: StateDrawioOptions;
+    er?: ERDrawioOptions;
+    bpmn?: BpmnDrawioOptions;
+}
+
+/** Options of the Excalidraw generators; `backgroundColor` applies to every diagram type */
+export interface ExcalidrawGeneratorOptions extends ExcalidrawOptions {
+    sequence?: SequenceExcalidrawOptions;
+}
+
+/** Parser options by input format, including the custom formats */
+export interface ParserOptionsMap extends CustomInputFormats {
+    drawio: DrawioParseOptions;
+    d2: D2ParseOptions;
+    structurizr: StructurizrParseOptions;
+}
+
+/** Generator options by output format, including the custom formats */
+export interface GeneratorOptionsMap extends CustomOutputFormats {
+    mermaid: MermaidOptions;
+    plantuml: PlantUMLOptions;
+    dot: DotOptions;
+    d2: D2Options;
+    drawio: DrawioGeneratorOptions;
+    excalidraw: ExcalidrawGeneratorOptions;
+    svg: SvgGeneratorOptions;
+    png: PngGeneratorOptions;
+    bpmn: BpmnLayoutOptions;
+}
+
+/** Parser options of an input format; formats without options take none */
+export type ParserOptions<F extends string> = F extends keyof ParserOptionsMap ? ParserOptionsMap[F] : undefined;
+
+/** Generator options of an output format; formats without options take none */
+export type GeneratorOptions<F extends string> = F extends keyof GeneratorOptionsMap ? GeneratorOptionsMap[F] : undefined;
@@ -0,0 +1,65 @@
+/**
+ * Format Registry Types
+ *
+ * Types for plugging custom formats into convert, format detection and
+ * the syntax fixers
+ */
+
+import type { Diagram } from './ir';
+import type { FixResult, FixRule } from './fixer';
+
+/**
+ * Custom input formats and the options of their parsers
+ *
+ * Declare the formats added with `registerParser` by extending this
+ * interface, which adds them to `InputFormat`:
+ *
+ * ```typescript
+ * declare module '@whitebite/diagram-converter' {
+ *     interface CustomInputFormats {
+ *         acme: { strict?: boolean };
+ *     }
+ * }
+ * ```
+ */
+export interface CustomInputFormats {}
+
+/** Custom output formats and the options of their generators; see CustomInputFormats */
+export interface CustomOutputFormats {}
+
+/** Names of custom input formats */
+export type CustomInputFormat = Extract<keyof CustomInputFormats, string>;
+
+/** Names of custom output formats */
+export type CustomOutputFormat = Extract<keyof CustomOutputFormats, string>;
+
+/** Parses source code to IR */
+export type FormatParser<Options = unknown> = (source: string, options?: Options) => Diagram;
+
+/** Generates source code from IR */
+export type FormatGenerator<Options = unknown> = (diagram: Diagram, options?: Options) => string;
+
+/** Detection confidence */
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
+/** Source pattern that identifies a format */
+export interface DetectionPattern {
+    regex: RegExp;
+    confidence: DetectionConfidence;
+    reason: string;
+}
+
+/** Match of a format detector */
+export interface FormatMatch {
+    confidence: DetectionConfidence;
+    reason: string;
+}
+
+/** Recognises the source of a format; returns null when it does not match */
+export type FormatDetector = (source: string) => FormatMatch | null;
+
+/** Fixes syntax errors in the source of a format */
+export type SyntaxFixer = (source: string) => FixResult;
+
+/** Fixer of a registered format: rules applied line by line, or a function */
+export type FixerDefinition = readonly FixRule[] | SyntaxFixer;
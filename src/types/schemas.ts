@@ -32,7 +32,7 @@ const MERMAID_PATTERNS = [
     /^timeline/im,
     /^quadrantChart/im,
     /^requirementDiagram/im,
-    /^C4Context/im,
+    /^C4(Context|Container|Component|Dynamic|Deployment)/im,
 ];
 
 export const MermaidInputSchema = NonEmptyStringSchema.refine(
@@ -76,10 +76,29 @@ export const PlantUMLInputSchema = NonEmptyStringSchema.refine(
 // ============================================================================
 
 export const DotInputSchema = NonEmptyStringSchema.refine(
-    (s) => /^\s*(strict\s+)?(di)?graph\s+/im.test(s.trim()),
+    (s) => /^\s*(strict\s+)?(di)?graph\b/im.test(s.trim()),
     { message: 'Not a valid DOT/Graphviz diagram. Expected "graph" or "digraph" declaration.' }
 );
 
+/** `dot -Tplain` output starts with "graph scale width height" */
+export const GraphvizPlainInputSchema = NonEmptyStringSchema.refine(
+    (s) => /^\s*graph\s+[\d.]+\s+[\d.]+\s+[\d.]+/.test(s),
+    { message: 'Not a valid Graphviz plain output. Expected "graph scale width height" line.' }
+);
+
+export const GraphvizJsonInputSchema = NonEmptyStringSchema.refine(
+    (s) => {
+        try {
+            const data = JSON.parse(s);
+            return typeof data === 'object' && data !== null &&
+                (Array.isArray(data.objects) || Array.isArray(data.edges) || '_subgraph_cnt' in data);
+        } catch {
+            return false;
+        }
+    },
+    { message: 'Not a valid Graphviz JSON output. Expected { "objects": [...], "edges": [...] }.' }
+);
+
 // ============================================================================
 // D2 Schema
 // ============================================================================
@@ -92,7 +111,8 @@ export const D2InputSchema = NonEmptyStringSchema.refine(
         return /->|<->|--|<-/.test(trimmed) ||
             /^\w+\s*:/.test(trimmed) ||
             /^\w+\s*\{/.test(trimmed) ||
-            /^\s*\w+\s*$/m.test(trimmed); // Simple node name on a line
+            /^\s*\w+\s*$/m.test(trimmed) || // Simple node name on a line
+            /^\s*(?:\.\.\.@|["'])/m.test(trimmed); // Import spread or quoted key
     },
     { message: 'Not a valid D2 diagram. Expected node definitions or connections (->).' }
 );
@@ -120,10 +140,8 @@ export const ExcalidrawInputSchema = NonEmptyStringSchema.refine(
 export const BpmnInputSchema = NonEmptyStringSchema.refine(
     (s) => {
         const lower = s.toLowerCase();
-        return lower.includes('<definitions') ||
-            lower.includes('bpmn:definitions') ||
-            lower.includes('<process') ||
-            lower.includes('bpmn:process');
+        // Any namespace prefix: bpmn:, bpmn2:, semantic:
+        return /<([\w-]+:)?(definitions|process)[\s>]/.test(lower);
     },
     { message: 'Not a valid BPMN XML. Expected <definitions> or <process> element.' }
 );
@@ -172,6 +190,24 @@ export const StructurizrInputSchema = NonEmptyStringSchema.refine(
     { message: 'Not a valid Structurizr DSL. Expected workspace, softwareSystem, container, component, or person.' }
 );
 
+// ============================================================================
+// SCXML Schema
+// ============================================================================
+
+export const ScxmlInputSchema = NonEmptyStringSchema.refine(
+    (s) => s.includes('<scxml'),
+    { message: 'Not a valid SCXML document. Expected <scxml> root element.' }
+);
+
+// ============================================================================
+// SQL Schema
+// ============================================================================
+
+export const SqlInputSchema = NonEmptyStringSchema.refine(
+    (s) => /\bcreate\s+(?:\w+\s+)*table\b/i.test(s),
+    { message: 'Not a valid SQL schema. Expected CREATE TABLE statements.' }
+);
+
 // ============================================================================
 // Schema Map for Dynamic Validation
 // ============================================================================
@@ -182,12 +218,16 @@ export const InputSchemas = {
     drawio: DrawioInputSchema,
     plantuml: PlantUMLInputSchema,
     dot: DotInputSchema,
+    'graphviz-plain': GraphvizPlainInputSchema,
+    'graphviz-json': GraphvizJsonInputSchema,
     d2: D2InputSchema,
     excalidraw: ExcalidrawInputSchema,
     bpmn: BpmnInputSchema,
     graphml: GraphmlInputSchema,
     lucidchart: LucidchartInputSchema,
     structurizr: StructurizrInputSchema,
+    scxml: ScxmlInputSchema,
+    sql: SqlInputSchema,
 } as const;
 
 export type InputSchemaFormat = keyof typeof InputSchemas;
@@ -200,9 +240,13 @@ export type MermaidInput = z.infer<typeof MermaidInputSchema>;
 export type DrawioInput = z.infer<typeof DrawioInputSchema>;
 export type PlantUMLInput = z.infer<typeof PlantUMLInputSchema>;
 export type DotInput = z.infer<typeof DotInputSchema>;
+export type GraphvizPlainInput = z.infer<typeof GraphvizPlainInputSchema>;
+export type GraphvizJsonInput = z.infer<typeof GraphvizJsonInputSchema>;
 export type D2Input = z.infer<typeof D2InputSchema>;
 export type ExcalidrawInput = z.infer<typeof ExcalidrawInputSchema>;
 export type BpmnInput = z.infer<typeof BpmnInputSchema>;
 export type GraphmlInput = z.infer<typeof GraphmlInputSchema>;
 export type LucidchartInput = z.infer<typeof LucidchartInputSchema>;
 export type StructurizrInput = z.infer<typeof StructurizrInputSchema>;
+export type ScxmlInput = z.infer<typeof ScxmlInputSchema>;
+export type SqlInput = z.infer<typeof SqlInputSchema>;
@@ -2,7 +2,7 @@
  * Sequence Diagram Types
  * 
  * Types for representing sequence diagrams in IR format.
- * Supports Mermaid sequenceDiagram syntax.
+ * Supports Mermaid sequenceDiagram and PlantUML sequence syntax.
  */
 
 import type { DiagramMetadata } from './ir';
@@ -12,7 +12,15 @@ import type { DiagramMetadata } from './ir';
 // =============================================================================
 
 /** Participant type in sequence diagram */
-export type ParticipantType = 'participant' | 'actor';
+export type ParticipantType =
+    | 'participant'
+    | 'actor'
+    | 'boundary'
+    | 'control'
+    | 'entity'
+    | 'database'
+    | 'collections'
+    | 'queue';
 
 /** Participant in sequence diagram */
 export interface IRParticipant {
@@ -84,7 +92,8 @@ export type BlockType =
     | 'par'     // Parallel
     | 'critical'// Critical section
     | 'break'   // Break
-    | 'rect';   // Highlight rectangle
+    | 'rect'    // Highlight rectangle (Mermaid)
+    | 'group';  // Labelled group (PlantUML)
 
 /** Section within a block (for alt/par) */
 export interface IRBlockSection {
@@ -119,6 +128,8 @@ export type SequenceElement =
 export interface IRSequenceDiagram {
     id: string;
     title?: string;
+    /** Number messages automatically */
+    autonumber?: boolean;
     participants: IRParticipant[];
     elements: SequenceElement[];
     metadata?: DiagramMetadata;
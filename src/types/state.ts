@@ -1,7 +1,8 @@
 /**
  * State Diagram Types
  * 
- * Types for Mermaid stateDiagram-v2 support
+ * Types for state machines: Mermaid stateDiagram-v2, PlantUML state
+ * diagrams and SCXML
  */
 
 import type { NodeStyle, EdgeStyle, Position, Size } from './ir';
@@ -30,6 +31,8 @@ export interface IRState {
     description?: string;
     /** Child states for composite states */
     children?: IRState[];
+    /** Children are orthogonal regions that are active together (SCXML <parallel>) */
+    parallel?: boolean;
     /** Internal actions (entry/exit/do) */
     actions?: StateAction[];
     position?: Position;
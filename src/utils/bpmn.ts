@@ -0,0 +1,436 @@
+/**
+ * BPMN helpers
+ *
+ * Conversion between the generic IR and the BPMN model. Flow nodes become
+ * IR nodes, pools, lanes and expanded sub-processes become groups, and
+ * every flow becomes an edge; the BPMN specifics travel in metadata.
+ * Diagrams from other formats are read by shape: circles are events,
+ * diamonds gateways, documents data objects, and groups become lanes (or
+ * pools when they only contain other groups).
+ */
+
+import type { ArrowConfig, Diagram, DiagramEdge, DiagramGroup, DiagramNode, NodeShape, Position } from '../types';
+import type {
+    BpmnBounds,
+    BpmnElementType,
+    BpmnEventDefinition,
+    BpmnFlowType,
+    BpmnRootElement,
+    IRBpmnDiagram,
+    IRBpmnElement,
+    IRBpmnFlow,
+    IRBpmnLane,
+    IRBpmnPool,
+    IRBpmnProcess,
+} from '../types/bpmn';
+import { isBpmnDataElement, isBpmnSubProcess } from '../types/bpmn';
+import { buildParentMap } from './group-hierarchy';
+
+/** Every element type, for validating metadata */
+const ELEMENT_TYPES = new Set<BpmnElementType>([
+    'task', 'userTask', 'serviceTask', 'scriptTask', 'manualTask', 'businessRuleTask', 'sendTask', 'receiveTask',
+    'subProcess', 'transaction', 'adHocSubProcess', 'callActivity',
+    'startEvent', 'endEvent', 'intermediateCatchEvent', 'intermediateThrowEvent', 'boundaryEvent',
+    'exclusiveGateway', 'parallelGateway', 'inclusiveGateway', 'eventBasedGateway', 'complexGateway',
+    'dataObjectReference', 'dataStoreReference', 'textAnnotation',
+]);
+
+const FLOW_TYPES = new Set<BpmnFlowType>(['sequenceFlow', 'messageFlow', 'association', 'dataInputAssociation', 'dataOutputAssociation']);
+
+/** Line and arrow heads per flow type */
+const FLOW_ARROWS: Record<BpmnFlowType, ArrowConfig> = {
+    sequenceFlow: { sourceType: 'none', targetType: 'arrow', lineType: 'solid' },
+    messageFlow: { sourceType: 'circle', targetType: 'open', lineType: 'dashed' },
+    association: { sourceType: 'none', targetType: 'none', lineType: 'dotted' },
+    dataInputAssociation: { sourceType: 'none', targetType: 'open', lineType: 'dotted' },
+    dataOutputAssociation: { sourceType: 'none', targetType: 'open', lineType: 'dotted' },
+};
+
+/** Element types from the `bpmnSubtype` of older IR */
+const LEGACY_SUBTYPES: Record<string, BpmnElementType> = {
+    start: 'startEvent',
+    end: 'endEvent',
+    intermediate: 'intermediateCatchEvent',
+    exclusive: 'exclusiveGateway',
+    parallel: 'parallelGateway',
+    inclusive: 'inclusiveGateway',
+};
+
+/** IR node shape of an element type */
+export function bpmnShape(type: BpmnElementType): NodeShape {
+    if (type.endsWith('Event')) return 'circle';
+    if (type.endsWith('Gateway')) return 'diamond';
+    switch (type) {
+        case 'dataObjectReference': return 'document';
+        case 'dataStoreReference': return 'cylinder';
+        case 'textAnnotation': return 'note';
+        default: return 'rounded-rectangle';
+    }
+}
+
+// =============================================================================
+// IR Conversion
+// =============================================================================
+
+/** Extract the BPMN model from a diagram; null unless it is a BPMN diagram */
+export function extractBpmnData(diagram: Diagram): IRBpmnDiagram | null {
+    if (diagram.type !== 'bpmn') {
+        return null;
+    }
+
+    const parents = buildParentMap(diagram.groups);
+    const groups = new Map(diagram.groups.map(group => [group.id, group]));
+    const ancestors = (id: string): DiagramGroup[] => {
+        const chain: DiagramGroup[] = [];
+        for (let current = parents.get(id); current && !chain.some(g => g.id === current); current = parents.get(current)) {
+            const group = groups.get(current);
+            if (group) chain.push(group);
+        }
+        return chain;
+    };
+
+    const kinds = new Map(diagram.groups.map(group => [group.id, groupKind(group, parents, groups)]));
+    const processes: IRBpmnProcess[] = [...((diagram.metadata?.processes as IRBpmnProcess[] | undefined) ?? [])];
+    const ensureProcess = (id: string) => {
+        if (!processes.some(process => process.id === id)) {
+            processes.push({ id });
+        }
+        return id;
+    };
+    const defaultProcessId = processes[0]?.id ?? 'Process_1';
+    const defaultProcess = () => ensureProcess(defaultProcessId);
+
+    // Pools without metadata get a process of their own when they hold lanes
+    const pools: IRBpmnPool[] = [];
+    for (const group of diagram.groups.filter(g => kinds.get(g.id) === 'participant')) {
+        const processId = group.metadata?.bpmnType
+            ? group.metadata.processId as string | undefined
+            : `Process_${group.id}`;
+        pools.push(omitUndefined({
+            id: group.id,
+            name: group.label || undefined,
+            processId: processId ? ensureProcess(processId) : undefined,
+            lanes: childLanes(group, diagram.groups, parents, kinds),
+            bounds: groupBounds(group),
+        }));
+    }
+
+    // Lanes outside any pool share one implicit pool
+    const looseLanes = diagram.groups.filter(group => {
+        if (kinds.get(group.id) !== 'lane') return false;
+        const parent = parents.get(group.id);
+        return !parent || kinds.get(parent) === 'subProcess';
+    });
+    if (looseLanes.length > 0) {
+        pools.push({
+            id: pools.some(pool => pool.id === 'Participant_1') ? `Participant_${diagram.id}` : 'Participant_1',
+            name: diagram.name,
+            processId: defaultProcess(),
+            lanes: looseLanes.map(lane => buildLane(lane, diagram.groups, parents, kinds)),
+        });
+    }
+
+    const incoming = new Set(diagram.edges.map(edge => edge.target));
+    const outgoing = new Set(diagram.edges.map(edge => edge.source));
+    const elements: IRBpmnElement[] = diagram.nodes.map(node => {
+        const {
+            bpmnType, bpmnSubtype, processId, parent, attachedTo, cancelActivity, eventDefinitions,
+            defaultFlow, triggeredByEvent, expanded, calledElement, itemRef, extensionAttributes, ...rest
+        } = node.metadata ?? {};
+        const chain = ancestors(node.id);
+        const pool = chain.find(group => kinds.get(group.id) === 'participant');
+        const subProcess = chain.find(group => kinds.get(group.id) === 'subProcess');
+        const type = elementType(bpmnType, bpmnSubtype) ?? inferElementType(node, incoming.has(node.id), outgoing.has(node.id));
+
+        return omitUndefined({
+            id: node.id,
+            type,
+            name: node.label || undefined,
+            processId: (processId as string | undefined)
+                ?? (pool ? pools.find(p => p.id === pool.id)?.processId : undefined)
+                ?? defaultProcess(),
+            parent: (parent as string | undefined) ?? (subProcess?.metadata?.subProcessId as string | undefined),
+            attachedTo: attachedTo as string | undefined,
+            cancelActivity: cancelActivity as boolean | undefined,
+            eventDefinitions: eventDefinitions as BpmnEventDefinition[] | undefined,
+            defaultFlow: defaultFlow as string | undefined,
+            triggeredByEvent: triggeredByEvent as boolean | undefined,
+            expanded: expanded as boolean | undefined,
+            calledElement: calledElement as string | undefined,
+            itemRef: itemRef as string | undefined,
+            extensionAttributes: extensionAttributes as Record<string, string> | undefined,
+            bounds: node.position && node.size
+                ? { x: node.position.x, y: node.position.y, width: node.size.width, height: node.size.height }
+                : undefined,
+            metadata: Object.keys(rest).length > 0 ? rest : undefined,
+        });
+    });
+
+    const byId = new Map(elements.map(element => [element.id, element]));
+    for (const pool of pools) {
+        walkLanes(pool.lanes, lane => {
+            lane.elements = lane.elements.filter(id => byId.has(id));
+        });
+    }
+
+    const poolIds = new Set(pools.map(pool => pool.id));
+    const flows: IRBpmnFlow[] = diagram.edges
+        .filter(edge => (byId.has(edge.source) || poolIds.has(edge.source)) && (byId.has(edge.target) || poolIds.has(edge.target)))
+        .map(edge => {
+            const { bpmnType, condition, messageRef, extensionAttributes, dockingPoints, ...rest } = edge.metadata ?? {};
+            const docks = dockingPoints as [Position, Position] | undefined;
+            return omitUndefined({
+                id: edge.id,
+                type: FLOW_TYPES.has(bpmnType as BpmnFlowType)
+                    ? bpmnType as BpmnFlowType
+                    : inferFlowType(byId.get(edge.source), byId.get(edge.target)),
+                source: edge.source,
+                target: edge.target,
+                name: edge.label || undefined,
+                condition: condition as string | undefined,
+                messageRef: messageRef as string | undefined,
+                extensionAttributes: extensionAttributes as Record<string, string> | undefined,
+                waypoints: docks ? [docks[0], ...(edge.waypoints ?? []), docks[1]] : undefined,
+                metadata: Object.keys(rest).length > 0 ? rest : undefined,
+            });
+        });
+
+    const { processes: _processes, rootElements, ...metadata } = diagram.metadata ?? { source: 'bpmn' };
+
+    return omitUndefined({
+        id: diagram.id,
+        title: diagram.name,
+        processes,
+        pools,
+        elements,
+        flows,
+        rootElements: rootElements as BpmnRootElement[] | undefined,
+        metadata,
+    });
+}
+
+/** Embed a BPMN model into the generic IR */
+export function embedBpmnData(bpmn: IRBpmnDiagram): Diagram {
+    const nodes: DiagramNode[] = bpmn.elements.map(element => ({
+        id: element.id,
+        type: 'node',
+        label: element.name ?? '',
+        shape: bpmnShape(element.type),
+        position: element.bounds ? { x: element.bounds.x, y: element.bounds.y } : undefined,
+        size: element.bounds ? { width: element.bounds.width, height: element.bounds.height } : undefined,
+        style: {},
+        metadata: omitUndefined({
+            ...element.metadata,
+            bpmnType: element.type,
+            processId: element.processId,
+            parent: element.parent,
+            attachedTo: element.attachedTo,
+            cancelActivity: element.cancelActivity,
+            eventDefinitions: element.eventDefinitions,
+            defaultFlow: element.defaultFlow,
+            triggeredByEvent: element.triggeredByEvent,
+            expanded: element.expanded,
+            calledElement: element.calledElement,
+            itemRef: element.itemRef,
+            extensionAttributes: element.extensionAttributes,
+        }),
+    }));
+
+    const groups: DiagramGroup[] = [];
+    const subProcessChildren = (id: string) => bpmn.elements
+        .filter(element => element.parent === id)
+        .flatMap(element => hasChildren(bpmn, element.id) ? [element.id, `group_${element.id}`] : [element.id]);
+
+    for (const pool of bpmn.pools) {
+        const laneElements = new Set<string>();
+        const visitLane = (lane: IRBpmnLane): void => {
+            lane.elements.forEach(id => laneElements.add(id));
+            groups.push(omitUndefined({
+                id: lane.id,
+                type: 'group' as const,
+                label: lane.name,
+                children: [...lane.elements, ...(lane.lanes ?? []).map(child => child.id)],
+                position: lane.bounds ? { x: lane.bounds.x, y: lane.bounds.y } : undefined,
+                size: lane.bounds ? { width: lane.bounds.width, height: lane.bounds.height } : undefined,
+                style: {},
+                metadata: { bpmnType: 'lane' },
+            }));
+            lane.lanes?.forEach(visitLane);
+        };
+        const start = groups.length;
+        pool.lanes.forEach(visitLane);
+
+        // Elements outside every lane (data objects, annotations) sit in the pool itself
+        const loose = pool.processId
+            ? bpmn.elements.filter(e => e.processId === pool.processId && !e.parent && !laneElements.has(e.id)).map(e => e.id)
+            : [];
+        groups.splice(start, 0, omitUndefined({
+            id: pool.id,
+            type: 'group' as const,
+            label: pool.name,
+            children: [...pool.lanes.map(lane => lane.id), ...loose],
+            position: pool.bounds ? { x: pool.bounds.x, y: pool.bounds.y } : undefined,
+            size: pool.bounds ? { width: pool.bounds.width, height: pool.bounds.height } : undefined,
+            style: {},
+            metadata: omitUndefined({ bpmnType: 'participant', processId: pool.processId }),
+        }));
+    }
+
+    for (const element of bpmn.elements) {
+        if (!isBpmnSubProcess(element.type) || !hasChildren(bpmn, element.id)) continue;
+        groups.push(omitUndefined({
+            id: `group_${element.id}`,
+            type: 'group' as const,
+            label: element.name,
+            children: subProcessChildren(element.id),
+            style: {},
+            metadata: { bpmnType: 'subProcess', subProcessId: element.id },
+        }));
+    }
+
+    const edges: DiagramEdge[] = bpmn.flows.map(flow => {
+        const points = flow.waypoints ?? [];
+        return omitUndefined({
+            id: flow.id,
+            type: 'edge' as const,
+            source: flow.source,
+            target: flow.target,
+            label: flow.name,
+            arrow: { ...FLOW_ARROWS[flow.type] },
+            style: {},
+            waypoints: points.length > 2 ? points.slice(1, -1) : undefined,
+            metadata: omitUndefined({
+                ...flow.metadata,
+                bpmnType: flow.type,
+                condition: flow.condition,
+                messageRef: flow.messageRef,
+                extensionAttributes: flow.extensionAttributes,
+                dockingPoints: points.length >= 2 ? [points[0], points[points.length - 1]] : undefined,
+            }),
+        });
+    });
+
+    return {
+        id: bpmn.id,
+        name: bpmn.title,
+        type: 'bpmn',
+        nodes,
+        edges,
+        groups,
+        metadata: omitUndefined({
+            ...bpmn.metadata,
+            source: (bpmn.metadata?.source as string | undefined) ?? 'bpmn',
+            processes: bpmn.processes,
+            rootElements: bpmn.rootElements,
+        }),
+    };
+}
+
+/** Visit every lane depth-first, parents before children */
+export function walkLanes(lanes: IRBpmnLane[], visitor: (lane: IRBpmnLane, depth: number) => void, depth = 0): void {
+    for (const lane of lanes) {
+        visitor(lane, depth);
+        if (lane.lanes) {
+            walkLanes(lane.lanes, visitor, depth + 1);
+        }
+    }
+}
+
+// =============================================================================
+// Inference
+// =============================================================================
+
+/** Role of a group: pools hold lanes, lanes hold flow nodes */
+function groupKind(group: DiagramGroup, parents: Map<string, string>, groups: Map<string, DiagramGroup>): 'participant' | 'lane' | 'subProcess' {
+    const bpmnType = group.metadata?.bpmnType as string | undefined;
+    if (bpmnType === 'participant' || bpmnType === 'pool') return 'participant';
+    if (bpmnType === 'lane') return 'lane';
+    if (bpmnType && bpmnType.toLowerCase() === 'subprocess') return 'subProcess';
+
+    const onlyGroups = group.children.length > 0 && group.children.every(id => groups.has(id));
+    return !parents.has(group.id) && onlyGroups ? 'participant' : 'lane';
+}
+
+/** Lanes directly inside a pool or lane group */
+function childLanes(
+    group: DiagramGroup,
+    all: DiagramGroup[],
+    parents: Map<string, string>,
+    kinds: Map<string, string>
+): IRBpmnLane[] {
+    return all
+        .filter(child => parents.get(child.id) === group.id && kinds.get(child.id) === 'lane')
+        .map(child => buildLane(child, all, parents, kinds));
+}
+
+/** Lane for a group, with its nested lanes */
+function buildLane(
+    group: DiagramGroup,
+    all: DiagramGroup[],
+    parents: Map<string, string>,
+    kinds: Map<string, string>
+): IRBpmnLane {
+    const lanes = childLanes(group, all, parents, kinds);
+    return omitUndefined({
+        id: group.id,
+        name: group.label || undefined,
+        elements: group.children.filter(id => !kinds.has(id) && parents.get(id) === group.id),
+        lanes: lanes.length > 0 ? lanes : undefined,
+        bounds: groupBounds(group),
+    });
+}
+
+/** Element type from metadata, accepting prefixed tag names (`bpmn:task`) */
+function elementType(bpmnType: unknown, bpmnSubtype: unknown): BpmnElementType | undefined {
+    const type = typeof bpmnType === 'string' ? bpmnType.replace(/^\w+:/, '') as BpmnElementType : undefined;
+    if (type && ELEMENT_TYPES.has(type)) {
+        return type;
+    }
+    return typeof bpmnSubtype === 'string' ? LEGACY_SUBTYPES[bpmnSubtype] : undefined;
+}
+
+/** Element type of a node without BPMN metadata */
+function inferElementType(node: DiagramNode, hasIncoming: boolean, hasOutgoing: boolean): BpmnElementType {
+    switch (node.shape) {
+        case 'circle':
+        case 'ellipse':
+            if (!hasIncoming) return 'startEvent';
+            return hasOutgoing ? 'intermediateCatchEvent' : 'endEvent';
+        case 'diamond':
+            return 'exclusiveGateway';
+        case 'document':
+            return 'dataObjectReference';
+        case 'cylinder':
+            return 'dataStoreReference';
+        case 'note':
+            return 'textAnnotation';
+        default:
+            return 'task';
+    }
+}
+
+/** Flow type of an edge without BPMN metadata */
+function inferFlowType(source?: IRBpmnElement, target?: IRBpmnElement): BpmnFlowType {
+    if (source?.type === 'textAnnotation' || target?.type === 'textAnnotation') return 'association';
+    if (source && isBpmnDataElement(source.type)) return 'dataInputAssociation';
+    if (target && isBpmnDataElement(target.type)) return 'dataOutputAssociation';
+    if (!source || !target || source.processId !== target.processId) return 'messageFlow';
+    return 'sequenceFlow';
+}
+
+/** Bounds of a placed group */
+function groupBounds(group: DiagramGroup): BpmnBounds | undefined {
+    return group.position && group.size
+        ? { x: group.position.x, y: group.position.y, width: group.size.width, height: group.size.height }
+        : undefined;
+}
+
+/** Check if a sub-process contains elements */
+function hasChildren(bpmn: IRBpmnDiagram, id: string): boolean {
+    return bpmn.elements.some(element => element.parent === id);
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
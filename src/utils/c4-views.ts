@@ -0,0 +1,327 @@
+/**
+ * C4 view scoping
+ *
+ * Materialises a Structurizr-style view as its own C4 model: the elements
+ * selected by the view type, scope and include/exclude expressions, the
+ * boundaries around them and the relationships between them. Relationships
+ * of hidden children are implied on their nearest visible ancestor
+ * (customer -> web on a container shows as customer -> bank on a landscape).
+ */
+
+import type { C4ViewType, IRC4Diagram, IRC4Element, IRC4Relationship, IRC4View } from '../types/c4';
+import { isC4DeploymentElement } from '../types/c4';
+import { defaultC4Scope } from './c4';
+
+/** Structurizr default view titles */
+const VIEW_TITLES: Record<C4ViewType, string> = {
+    systemLandscape: 'System Landscape',
+    systemContext: 'System Context',
+    container: 'Container',
+    component: 'Component',
+    dynamic: 'Dynamic',
+    deployment: 'Deployment',
+};
+
+/**
+ * Model of a single view: the selected elements, their boundaries and the
+ * (implied) relationships between them. The result carries only this view.
+ */
+export function materializeC4View(c4: IRC4Diagram, view: IRC4View, index = 0): IRC4Diagram {
+    const byId = new Map(c4.elements.map(element => [element.id, element]));
+    const scope = view.scope && byId.has(view.scope) ? view.scope
+        : view.type === 'systemLandscape' || view.type === 'dynamic' || view.type === 'deployment' ? undefined
+        : defaultC4Scope(c4, view.type);
+    const scoped = { ...view, scope };
+
+    let visible: Set<string>;
+    let relationships: IRC4Relationship[];
+    if (view.type === 'deployment') {
+        visible = deploymentElements(c4, scoped);
+        relationships = deploymentRelationships(c4, visible);
+    } else if (view.type === 'dynamic') {
+        const steps = view.steps ?? c4.relationships.filter(rel => rel.order !== undefined);
+        visible = new Set(steps.flatMap(step => [step.source, step.target]).filter(id => byId.has(id)));
+        relationships = steps.filter(step => visible.has(step.source) && visible.has(step.target));
+    } else {
+        visible = new Set<string>();
+        const permitted = permittedElements(c4, scoped);
+        const include = view.include.length > 0 ? view.include : ['*'];
+        for (const expression of include) {
+            for (const id of selectElements(c4, expression, scoped, permitted)) visible.add(id);
+        }
+        for (const expression of view.exclude) {
+            if (isRelationshipExpression(expression) && !expression.startsWith('->') && !expression.endsWith('->')) continue;
+            for (const id of selectElements(c4, expression, scoped, undefined)) visible.delete(id);
+        }
+        relationships = impliedRelationships(c4, visible)
+            .filter(rel => !view.exclude.some(expression => matchesRelationship(expression, rel)));
+    }
+
+    // Boundaries: parents of visible elements that are not drawn themselves; a
+    // component view only draws the container boundary
+    const boundaries = new Set<string>();
+    if (view.type !== 'systemLandscape' && view.type !== 'systemContext') {
+        for (const id of visible) {
+            if (view.type === 'component' && byId.get(id)?.kind !== 'component') continue;
+            for (let parent = byId.get(id)?.parent; parent && !visible.has(parent); parent = byId.get(parent)?.parent) {
+                boundaries.add(parent);
+                if (view.type !== 'deployment') break;
+            }
+        }
+    }
+
+    const shown = new Set([...visible, ...boundaries]);
+    const elements = c4.elements
+        .filter(element => shown.has(element.id))
+        .map(element => element.parent && !shown.has(element.parent) ? { ...element, parent: undefined } : element);
+    const groupIds = new Set(elements.map(element => element.group).filter((id): id is string => !!id));
+    for (const group of c4.groups) {
+        if (group.parent && groupIds.has(group.id)) groupIds.add(group.parent);
+    }
+
+    return {
+        ...c4,
+        id: c4ViewKey(view, index),
+        title: view.title ?? c4ViewTitle(c4, view),
+        description: view.description ?? c4.description,
+        elements,
+        groups: c4.groups.filter(group => groupIds.has(group.id)),
+        relationships,
+        views: [{ ...scoped, include: ['*'], exclude: [] }],
+    };
+}
+
+/** View key, or a Structurizr-style key when the source has none */
+export function c4ViewKey(view: IRC4View, index: number): string {
+    if (view.key) return view.key;
+    const type = view.type.charAt(0).toUpperCase() + view.type.slice(1);
+    return [type, view.scope === '*' ? undefined : view.scope, view.environment, String(index + 1).padStart(3, '0')]
+        .filter(Boolean)
+        .join('-')
+        .replace(/[^\w-]/g, '_');
+}
+
+/** Structurizr default title: `[Container] Internet Banking` */
+export function c4ViewTitle(c4: IRC4Diagram, view: IRC4View): string {
+    const scope = c4.elements.find(element => element.id === view.scope)?.name;
+    const subject = [scope, view.type === 'deployment' ? view.environment : undefined].filter(Boolean).join(' - ');
+    return subject ? `[${VIEW_TITLES[view.type]}] ${subject}` : `[${VIEW_TITLES[view.type]}]`;
+}
+
+// =============================================================================
+// Static Views
+// =============================================================================
+
+/** Elements a static view may show: people and systems, plus the children of its scope */
+function permittedElements(c4: IRC4Diagram, view: IRC4View): Set<string> {
+    const permitted = new Set<string>();
+    for (const element of c4.elements) {
+        if (isC4DeploymentElement(element.kind)) continue;
+        const inScope = element.parent === view.scope;
+        const allowed = element.kind === 'person' || element.kind === 'softwareSystem'
+            ? view.type === 'systemLandscape' || view.type === 'systemContext' || element.id !== view.scope
+            : view.type === 'container' ? element.kind === 'container'
+            : view.type === 'component'
+                ? (element.kind === 'container' && element.id !== view.scope) || (element.kind === 'component' && inScope)
+            : false;
+        if (allowed) permitted.add(element.id);
+    }
+    return permitted;
+}
+
+/** Elements selected by an include/exclude expression */
+function selectElements(
+    c4: IRC4Diagram,
+    expression: string,
+    view: IRC4View,
+    permitted: Set<string> | undefined
+): string[] {
+    const allow = (id: string) => !permitted || permitted.has(id);
+    if (expression === '*') {
+        return wildcardElements(c4, view, permitted ?? new Set()).filter(allow);
+    }
+
+    const property = expression.match(/^element\.(tag|type|parent)==(.+)$/i);
+    if (property) {
+        const values = property[2].split(',').map(value => value.trim());
+        return c4.elements.filter(element => {
+            switch (property[1].toLowerCase()) {
+                case 'tag':
+                    return values.every(value => elementTags(element).includes(value));
+                case 'type':
+                    return values.some(value => value.toLowerCase() === element.kind.toLowerCase());
+                default:
+                    return values.includes(element.parent ?? '');
+            }
+        }).map(element => element.id).filter(allow);
+    }
+
+    if (isRelationshipExpression(expression)) {
+        const afferent = expression.startsWith('->');
+        const efferent = expression.endsWith('->');
+        const inner = expression.replace(/^->|->$/g, '');
+        if (afferent || efferent) {
+            // ->x-> : x and everything connected to it
+            const ids = [inner];
+            for (const rel of impliedRelationships(c4, new Set(permitted ?? c4.elements.map(element => element.id)))) {
+                if (afferent && rel.target === inner) ids.push(rel.source);
+                if (efferent && rel.source === inner) ids.push(rel.target);
+            }
+            return ids.filter(allow);
+        }
+        return inner.split('->').map(id => id.trim()).filter(allow);
+    }
+
+    return c4.elements.some(element => element.id === expression) ? [expression] : [];
+}
+
+/** What `include *` means for each view type */
+function wildcardElements(c4: IRC4Diagram, view: IRC4View, permitted: Set<string>): string[] {
+    if (view.type === 'systemLandscape') {
+        return c4.elements.filter(element => element.kind === 'person' || element.kind === 'softwareSystem').map(element => element.id);
+    }
+
+    // The scope's own elements plus everything they are directly connected to
+    const core = view.type === 'systemContext'
+        ? new Set(view.scope ? [view.scope] : [])
+        : new Set(c4.elements.filter(element => element.parent === view.scope && permitted.has(element.id)).map(element => element.id));
+    // Other systems' containers are drawn as their software system
+    const targets = new Set([...permitted].filter(id =>
+        core.has(id) || view.type !== 'container' || c4.elements.find(element => element.id === id)?.kind !== 'container'));
+    const selected = new Set(core);
+    for (const rel of impliedRelationships(c4, targets)) {
+        if (core.has(rel.source)) selected.add(rel.target);
+        if (core.has(rel.target)) selected.add(rel.source);
+    }
+    return [...selected];
+}
+
+/**
+ * Relationships between visible elements; an endpoint that is not visible
+ * is replaced by its nearest visible ancestor. Duplicates keep the first.
+ */
+function impliedRelationships(c4: IRC4Diagram, visible: Set<string>): IRC4Relationship[] {
+    const parents = new Map(c4.elements.map(element => [element.id, element.parent]));
+    const lift = (id: string): string | undefined => {
+        for (let current: string | undefined = id; current; current = parents.get(current)) {
+            if (visible.has(current)) return current;
+        }
+        return undefined;
+    };
+
+    const seen = new Set<string>();
+    const result: IRC4Relationship[] = [];
+    for (const relationship of c4.relationships) {
+        const source = lift(relationship.source);
+        const target = lift(relationship.target);
+        if (!source || !target || source === target) continue;
+        const key = `${source}\0${target}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push(source === relationship.source && target === relationship.target
+            ? relationship
+            : { ...relationship, id: `${relationship.id}-implied`, source, target });
+    }
+    return result;
+}
+
+function isRelationshipExpression(expression: string): boolean {
+    return expression.includes('->');
+}
+
+/** Whether an exclude expression removes a relationship (a->b, a->*, relationship.tag==x) */
+function matchesRelationship(expression: string, relationship: IRC4Relationship): boolean {
+    const tag = expression.match(/^relationship\.tag==(.+)$/i);
+    if (tag) {
+        return tag[1].split(',').every(value => relationship.tags?.includes(value.trim()));
+    }
+    if (expression.startsWith('->') || expression.endsWith('->') || !isRelationshipExpression(expression)) {
+        return false;
+    }
+    const [source, target] = expression.split('->').map(id => id.trim());
+    return (source === '*' || source === relationship.source) && (target === '*' || target === relationship.target);
+}
+
+function elementTags(element: IRC4Element): string[] {
+    const implied = element.kind.charAt(0).toUpperCase() + element.kind.slice(1);
+    return [
+        'Element',
+        implied.replace('SoftwareSystem', 'Software System'),
+        ...(element.tags ?? []),
+        ...(element.external ? ['External'] : []),
+        ...(element.variant === 'database' ? ['Database'] : element.variant === 'queue' ? ['Queue'] : []),
+    ];
+}
+
+// =============================================================================
+// Deployment Views
+// =============================================================================
+
+/** Deployment elements of the view's environment; a scope keeps its own instances */
+function deploymentElements(c4: IRC4Diagram, view: IRC4View): Set<string> {
+    const byId = new Map(c4.elements.map(element => [element.id, element]));
+    const environmentOf = (element: IRC4Element): string | undefined =>
+        element.environment ?? (element.parent && byId.has(element.parent) ? environmentOf(byId.get(element.parent)!) : undefined);
+    const environments = c4.elements.filter(element => isC4DeploymentElement(element.kind)).map(environmentOf);
+    const environment = view.environment ?? environments.find(Boolean);
+    const belongsToScope = (element: IRC4Element) => {
+        if (!view.scope || !element.instanceOf) return true;
+        for (let current: string | undefined = element.instanceOf; current; current = byId.get(current)?.parent) {
+            if (current === view.scope) return true;
+        }
+        return false;
+    };
+
+    const leaves = c4.elements.filter(element =>
+        isC4DeploymentElement(element.kind)
+        && element.kind !== 'deploymentNode'
+        && environmentOf(element) === environment
+        && belongsToScope(element));
+    const visible = new Set(leaves.map(element => element.id));
+    // Deployment nodes hosting visible elements
+    for (const leaf of leaves) {
+        for (let parent = leaf.parent; parent && byId.has(parent); parent = byId.get(parent)!.parent) {
+            visible.add(parent);
+        }
+    }
+    // Empty deployment nodes of an unscoped view are still drawn
+    if (!view.scope) {
+        for (const element of c4.elements) {
+            if (element.kind === 'deploymentNode' && environmentOf(element) === environment) visible.add(element.id);
+        }
+    }
+    return visible;
+}
+
+/** Relationships between deployed instances follow the relationships of what they deploy */
+function deploymentRelationships(c4: IRC4Diagram, visible: Set<string>): IRC4Relationship[] {
+    const instances = new Map<string, string[]>();
+    for (const element of c4.elements) {
+        if (visible.has(element.id) && element.instanceOf) {
+            instances.set(element.instanceOf, [...(instances.get(element.instanceOf) ?? []), element.id]);
+        }
+    }
+    const parents = new Map(c4.elements.map(element => [element.id, element.parent]));
+    const deployed = (id: string): string[] => {
+        for (let current: string | undefined = id; current; current = parents.get(current)) {
+            if (instances.has(current)) return instances.get(current)!;
+        }
+        return visible.has(id) ? [id] : [];
+    };
+
+    const seen = new Set<string>();
+    const result: IRC4Relationship[] = [];
+    for (const relationship of c4.relationships) {
+        for (const source of deployed(relationship.source)) {
+            for (const target of deployed(relationship.target)) {
+                const key = `${source}\0${target}`;
+                if (source === target || seen.has(key)) continue;
+                seen.add(key);
+                result.push(source === relationship.source && target === relationship.target
+                    ? relationship
+                    : { ...relationship, id: `${relationship.id}-${source}-${target}`, source, target });
+            }
+        }
+    }
+    return result;
+}
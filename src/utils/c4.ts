@@ -0,0 +1,446 @@
+/**
+ * C4 model helpers
+ *
+ * Conversion between the generic IR (element nodes, boundary groups and
+ * relationship edges) and the C4 model, plus the `Name [technology]`
+ * label convention shared by the C4 parsers and generators.
+ */
+
+import type { Diagram, DiagramEdge, DiagramGroup, DiagramNode, NodeShape, NodeStyle } from '../types';
+import type {
+    C4ElementKind,
+    C4ElementVariant,
+    C4RelationshipDirection,
+    C4ViewType,
+    IRC4Diagram,
+    IRC4Element,
+    IRC4Group,
+    IRC4Relationship,
+    IRC4View,
+} from '../types/c4';
+import { buildParentMap, sortGroupsOuterFirst } from './group-hierarchy';
+
+/** C4 colors as drawn by Structurizr and C4-PlantUML */
+const KIND_STYLES: Partial<Record<C4ElementKind, NodeStyle>> = {
+    person: { fill: '#08427b', stroke: '#073b6f', fontColor: '#ffffff' },
+    softwareSystem: { fill: '#1168bd', stroke: '#0b4884', fontColor: '#ffffff' },
+    container: { fill: '#438dd5', stroke: '#3c7fc0', fontColor: '#ffffff' },
+    component: { fill: '#85bbf0', stroke: '#78a8d8', fontColor: '#000000' },
+};
+
+const EXTERNAL_STYLE: NodeStyle = { fill: '#999999', stroke: '#8a8a8a', fontColor: '#ffffff' };
+
+/** Legacy structurizrType group metadata to C4 kinds */
+const LEGACY_GROUP_KINDS: Record<string, C4ElementKind | IRC4Group['kind']> = {
+    softwareSystem: 'softwareSystem',
+    softwareSystemBoundary: 'softwareSystem',
+    container: 'container',
+    containerBoundary: 'container',
+    enterprise: 'enterprise',
+    group: 'group',
+};
+
+/** Name and technology of a `Name\n[technology]` or `description [technology]` label */
+export function splitC4Label(label: string): { text: string; technology?: string } {
+    const match = label.match(/^([\s\S]*?)\s*\[([^\]]+)\]\s*$/);
+    if (!match) {
+        return { text: label.trim() };
+    }
+    return { text: match[1].trim(), technology: match[2].trim() };
+}
+
+/** Node label of an element: its name with the technology below */
+export function formatC4ElementLabel(element: IRC4Element): string {
+    return element.technology ? `${element.name}\n[${element.technology}]` : element.name;
+}
+
+/** Edge label of a relationship: its description followed by the technology */
+export function formatC4RelationshipLabel(relationship: IRC4Relationship): string | undefined {
+    if (!relationship.technology) {
+        return relationship.description;
+    }
+    return `${relationship.description ?? ''} [${relationship.technology}]`.trim();
+}
+
+/** Visit every element depth-first, parents before their children */
+export function walkC4Elements(
+    c4: IRC4Diagram,
+    visitor: (element: IRC4Element, depth: number) => void
+): void {
+    const children = new Map<string | undefined, IRC4Element[]>();
+    const ids = new Set(c4.elements.map(element => element.id));
+    for (const element of c4.elements) {
+        const parent = element.parent && ids.has(element.parent) ? element.parent : undefined;
+        children.set(parent, [...(children.get(parent) ?? []), element]);
+    }
+    const visit = (parent: string | undefined, depth: number) => {
+        for (const element of children.get(parent) ?? []) {
+            visitor(element, depth);
+            visit(element.id, depth + 1);
+        }
+    };
+    visit(undefined, 0);
+}
+
+/** Element or group of a boundary tree, with what it contains */
+export type C4TreeEntry =
+    | { element: IRC4Element; children: C4TreeEntry[] }
+    | { group: IRC4Group; children: C4TreeEntry[] };
+
+/**
+ * Nest elements under their parents and groups, keeping source order. An
+ * element whose parent is not listed, or that `nests` rejects, starts at the top.
+ */
+export function buildC4Tree(
+    c4: IRC4Diagram,
+    elements: IRC4Element[],
+    nests: (element: IRC4Element) => boolean = () => true
+): C4TreeEntry[] {
+    const roots: C4TreeEntry[] = [];
+    const ids = new Set(elements.map(element => element.id));
+    const groups = new Map(c4.groups.map(group => [group.id, group]));
+    const entries = new Map(elements.map(element => [element.id, { element, children: [] as C4TreeEntry[] }]));
+    const groupEntries = new Map<string, C4TreeEntry[]>();
+    const groupChildren = (id: string, parent: string | undefined, scope: C4TreeEntry[]): C4TreeEntry[] => {
+        const key = `${parent ?? ''}\0${id}`;
+        const existing = groupEntries.get(key);
+        if (existing) return existing;
+        const group = groups.get(id)!;
+        const outer = group.parent && groups.has(group.parent) ? groupChildren(group.parent, parent, scope) : scope;
+        const entry = { group, children: [] as C4TreeEntry[] };
+        outer.push(entry);
+        groupEntries.set(key, entry.children);
+        groupEntries.set(`*${id}`, entry.children);
+        return entry.children;
+    };
+
+    for (const element of elements) {
+        const parent = element.parent && ids.has(element.parent) && nests(element) ? element.parent : undefined;
+        const scope = parent ? entries.get(parent)!.children : roots;
+        const target = element.group && groups.has(element.group) ? groupChildren(element.group, parent, scope) : scope;
+        target.push(entries.get(element.id)!);
+    }
+    // Groups without members are kept at the top
+    for (const group of c4.groups) {
+        if (!groupEntries.has(`*${group.id}`)) groupChildren(group.id, undefined, roots);
+    }
+    return roots;
+}
+
+/** Element a view of the given type is about when the source does not name one */
+export function defaultC4Scope(c4: IRC4Diagram, type: C4ViewType): string | undefined {
+    const hasChildren = (id: string) => c4.elements.some(element => element.parent === id);
+    const systems = c4.elements.filter(element => element.kind === 'softwareSystem' && !element.external);
+    switch (type) {
+        case 'systemContext':
+            return (systems.find(system => hasChildren(system.id)) ?? systems[0])?.id;
+        case 'container':
+            return systems.find(system => hasChildren(system.id))?.id;
+        case 'component':
+            return c4.elements.find(element => element.kind === 'container' && hasChildren(element.id))?.id;
+        default:
+            return undefined;
+    }
+}
+
+/** Extract the C4 model from a parsed diagram */
+export function extractC4Data(diagram: Diagram): IRC4Diagram | null {
+    if (diagram.type !== 'c4') {
+        return null;
+    }
+
+    const parents = buildParentMap(diagram.groups);
+
+    // Boundaries are either elements (systems, containers, deployment nodes) or plain groups
+    const groupKinds = new Map<string, C4ElementKind | IRC4Group['kind']>();
+    for (const group of sortGroupsOuterFirst(diagram.groups, parents)) {
+        const explicit = (group.metadata?.c4Kind ?? group.metadata?.c4Group) as C4ElementKind | IRC4Group['kind'] | undefined;
+        const legacy = LEGACY_GROUP_KINDS[group.metadata?.structurizrType as string];
+        groupKinds.set(group.id, explicit ?? legacy ?? childKind(enclosingElementKind(group.id)) ?? 'softwareSystem');
+    }
+
+    /** Kind of the nearest element boundary around an id */
+    function enclosingElementKind(id: string): C4ElementKind | undefined {
+        const parent = enclosing(id);
+        return parent ? groupKinds.get(parent) as C4ElementKind : undefined;
+    }
+
+    /** Nearest element boundary around an id, skipping plain groups */
+    function enclosing(id: string): string | undefined {
+        let current = parents.get(id);
+        while (current) {
+            const kind = groupKinds.get(current);
+            if (kind && kind !== 'enterprise' && kind !== 'group') {
+                return current;
+            }
+            current = parents.get(current);
+        }
+        return undefined;
+    }
+
+    /** Nearest plain group before any element boundary */
+    function enclosingGroup(id: string): string | undefined {
+        let current = parents.get(id);
+        while (current) {
+            const kind = groupKinds.get(current);
+            if (kind === 'enterprise' || kind === 'group') return current;
+            if (kind) return undefined;
+            current = parents.get(current);
+        }
+        return undefined;
+    }
+
+    const elements: IRC4Element[] = [];
+    const groups: IRC4Group[] = [];
+
+    for (const group of sortGroupsOuterFirst(diagram.groups, parents)) {
+        const kind = groupKinds.get(group.id)!;
+        if (kind === 'enterprise' || kind === 'group') {
+            let parent = parents.get(group.id);
+            while (parent && !['enterprise', 'group'].includes(groupKinds.get(parent)!)) {
+                parent = parents.get(parent);
+            }
+            groups.push(omitUndefined({
+                id: group.id,
+                name: group.label ?? group.id,
+                kind,
+                parent,
+                metadata: stripC4Metadata(group.metadata),
+            }));
+            continue;
+        }
+        elements.push(toElement(group.id, group.label ?? group.id, kind, group.metadata, enclosing(group.id), enclosingGroup(group.id)));
+    }
+
+    for (const node of diagram.nodes) {
+        const parentKind = enclosingElementKind(node.id);
+        const kind = (node.metadata?.c4Kind ?? node.metadata?.structurizrType) as C4ElementKind | undefined
+            ?? (node.shape === 'actor' ? 'person' : childKind(parentKind) ?? 'softwareSystem');
+        const metadata = node.shape === 'cylinder' && !node.metadata?.variant
+            ? { ...node.metadata, variant: 'database' }
+            : node.metadata;
+        elements.push(toElement(node.id, node.label, kind, metadata, enclosing(node.id), enclosingGroup(node.id)));
+    }
+
+    const ids = new Set(elements.map(element => element.id));
+    const relationships: IRC4Relationship[] = diagram.edges.map(edge => {
+        const split = edge.label ? splitC4Label(edge.label) : undefined;
+        const meta = edge.metadata ?? {};
+        const {
+            description, technology, tags, direction, order, url, properties, bidirectional,
+            ...rest
+        } = meta;
+        return omitUndefined({
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            description: (description as string | undefined) ?? (split?.text || undefined),
+            technology: (technology as string | undefined) ?? split?.technology,
+            tags: tags as string[] | undefined,
+            direction: direction as C4RelationshipDirection | undefined,
+            bidirectional: (bidirectional as boolean | undefined)
+                ?? (edge.arrow.sourceType !== 'none' && edge.arrow.targetType !== 'none' ? true : undefined),
+            order: order as string | undefined,
+            url: url as string | undefined,
+            properties: properties as Record<string, string> | undefined,
+            metadata: Object.keys(rest).length > 0 ? rest : undefined,
+        });
+    });
+    const hidden = (diagram.metadata?.boundaryRelationships as IRC4Relationship[] | undefined) ?? [];
+    relationships.push(...hidden.filter(rel => ids.has(rel.source) && ids.has(rel.target)));
+
+    const { views, boundaryRelationships: _hidden, title, description, ...metadata }: Record<string, unknown> = diagram.metadata ?? {};
+    return omitUndefined({
+        id: diagram.id,
+        title: diagram.name ?? title as string | undefined,
+        description: description as string | undefined,
+        elements,
+        groups,
+        relationships,
+        views: (views as IRC4View[] | undefined) ?? [],
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    });
+}
+
+/** Embed a C4 model into the generic IR */
+export function embedC4Data(c4: IRC4Diagram): Diagram {
+    // Elements with children are drawn as boundaries around them
+    const boundaries = new Set(c4.elements.map(element => element.parent).filter((id): id is string => !!id));
+    const nodes: DiagramNode[] = [];
+    const groups: DiagramGroup[] = [];
+    const edges: DiagramEdge[] = [];
+    const childrenOf = (id: string) => [
+        ...c4.groups.filter(group => group.parent === id).map(group => group.id),
+        ...c4.elements.filter(element => element.parent === id || (!element.parent && element.group === id)).map(element => element.id),
+    ];
+
+    for (const group of c4.groups) {
+        groups.push({
+            id: group.id,
+            type: 'group',
+            label: group.name,
+            children: childrenOf(group.id),
+            style: { strokeDasharray: '5,5' },
+            metadata: { ...group.metadata, c4Group: group.kind },
+        });
+    }
+
+    walkC4Elements(c4, element => {
+        const metadata = elementMetadata(element);
+        if (boundaries.has(element.id)) {
+            groups.push({
+                id: element.id,
+                type: 'group',
+                label: element.name,
+                children: childrenOf(element.id),
+                style: { strokeDasharray: '5,5' },
+                metadata,
+            });
+            return;
+        }
+        nodes.push({
+            id: element.id,
+            type: 'node',
+            label: formatC4ElementLabel(element),
+            shape: elementShape(element),
+            style: { ...(element.external ? EXTERNAL_STYLE : KIND_STYLES[element.kind] ?? {}) },
+            metadata,
+        });
+    });
+
+    // Relationships to boundaries have no node to attach to and are kept aside
+    const boundaryRelationships: IRC4Relationship[] = [];
+    for (const relationship of c4.relationships) {
+        if (boundaries.has(relationship.source) || boundaries.has(relationship.target)) {
+            boundaryRelationships.push(relationship);
+            continue;
+        }
+        edges.push({
+            id: relationship.id,
+            type: 'edge',
+            source: relationship.source,
+            target: relationship.target,
+            label: formatC4RelationshipLabel(relationship),
+            arrow: {
+                sourceType: relationship.bidirectional ? 'arrow' : 'none',
+                targetType: 'arrow',
+                lineType: 'solid',
+            },
+            style: {},
+            metadata: omitUndefined({
+                ...relationship.metadata,
+                description: relationship.description,
+                technology: relationship.technology,
+                tags: relationship.tags,
+                direction: relationship.direction,
+                bidirectional: relationship.bidirectional,
+                order: relationship.order,
+                url: relationship.url,
+                properties: relationship.properties,
+            }),
+        });
+    }
+
+    return {
+        id: c4.id,
+        name: c4.title,
+        type: 'c4',
+        nodes,
+        edges,
+        groups,
+        metadata: omitUndefined({
+            ...c4.metadata,
+            source: (c4.metadata?.source as string | undefined) ?? 'c4',
+            title: c4.title,
+            description: c4.description,
+            views: c4.views.length > 0 ? c4.views : undefined,
+            boundaryRelationships: boundaryRelationships.length > 0 ? boundaryRelationships : undefined,
+        }),
+    };
+}
+
+/** Kind of an element placed directly inside an element of the given kind */
+function childKind(parentKind: C4ElementKind | undefined): C4ElementKind | undefined {
+    switch (parentKind) {
+        case 'softwareSystem':
+            return 'container';
+        case 'container':
+            return 'component';
+        case 'deploymentNode':
+            return 'infrastructureNode';
+        default:
+            return undefined;
+    }
+}
+
+/** IR node shape of an element */
+function elementShape(element: IRC4Element): NodeShape {
+    if (element.kind === 'person') return 'actor';
+    if (element.variant === 'database') return 'cylinder';
+    return element.kind === 'component' ? 'rectangle' : 'rounded-rectangle';
+}
+
+/** Node or group metadata holding the element fields */
+function elementMetadata(element: IRC4Element): Record<string, unknown> {
+    return omitUndefined({
+        ...element.metadata,
+        c4Kind: element.kind,
+        name: element.name,
+        description: element.description,
+        technology: element.technology,
+        tags: element.tags,
+        external: element.external,
+        variant: element.variant,
+        instanceOf: element.instanceOf,
+        environment: element.environment,
+        url: element.url,
+        properties: element.properties,
+    });
+}
+
+/** Build an element from node or group metadata */
+function toElement(
+    id: string,
+    label: string,
+    kind: C4ElementKind,
+    metadata: Record<string, unknown> | undefined,
+    parent: string | undefined,
+    group: string | undefined
+): IRC4Element {
+    const meta = metadata ?? {};
+    const split = splitC4Label(label);
+    return omitUndefined({
+        id,
+        kind,
+        name: (meta.name as string | undefined) ?? split.text,
+        description: meta.description as string | undefined,
+        technology: (meta.technology as string | undefined) ?? (meta.name === undefined ? split.technology : undefined),
+        tags: meta.tags as string[] | undefined,
+        external: meta.external as boolean | undefined,
+        variant: meta.variant as C4ElementVariant | undefined,
+        parent,
+        group,
+        instanceOf: meta.instanceOf as string | undefined,
+        environment: meta.environment as string | undefined,
+        url: meta.url as string | undefined,
+        properties: meta.properties as Record<string, string> | undefined,
+        metadata: stripC4Metadata(meta),
+    });
+}
+
+/** Metadata left after removing the fields the C4 model owns */
+function stripC4Metadata(metadata: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+    if (!metadata) return undefined;
+    const {
+        c4Kind: _kind, c4Group: _group, structurizrType: _legacy, name: _name, description: _description,
+        technology: _technology, tags: _tags, external: _external, variant: _variant, instanceOf: _instanceOf,
+        environment: _environment, url: _url, properties: _properties,
+        ...rest
+    } = metadata;
+    return Object.keys(rest).length > 0 ? rest : undefined;
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
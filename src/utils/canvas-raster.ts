@@ -0,0 +1,118 @@
+/**
+ * Canvas raster
+ *
+ * Drawing surface backed by an OffscreenCanvas or a DOM canvas, so text
+ * is drawn with the fonts of the environment and every script it supports.
+ * Returns null where no 2D canvas is available, e.g. in Node.js, and the
+ * pure TypeScript raster is used instead.
+ */
+
+import type { Raster, Rgba, TextRun } from './raster';
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Canvas textBaseline for SVG dominant-baseline values */
+const TEXT_BASELINES: Record<string, CanvasTextBaseline> = {
+    'middle': 'middle',
+    'central': 'middle',
+    'hanging': 'hanging',
+    'text-before-edge': 'top',
+    'text-top': 'top',
+    'text-after-edge': 'bottom',
+    'text-bottom': 'bottom',
+    'ideographic': 'ideographic',
+};
+
+const TEXT_ALIGNS: Record<TextRun['anchor'], CanvasTextAlign> = {
+    start: 'left',
+    middle: 'center',
+    end: 'right',
+};
+
+const cssColor = (color: Rgba) => `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a})`;
+
+/** Get a 2D context of a new canvas, if the environment has one */
+function createContext(width: number, height: number): Canvas2D | null {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        return new OffscreenCanvas(width, height).getContext('2d');
+    }
+    if (typeof document === 'undefined') return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    try {
+        return canvas.getContext('2d');
+    } catch {
+        // DOM implementations without canvas support, such as jsdom
+        return null;
+    }
+}
+
+let canvasSupport: boolean | undefined;
+
+/** Whether a 2D canvas is available, so rasters can draw text with system fonts */
+export function supportsCanvasText(): boolean {
+    canvasSupport ??= createContext(1, 1) !== null;
+    return canvasSupport;
+}
+
+/** Create a transparent raster on a canvas, or null without canvas support */
+export function createCanvasRaster(width: number, height: number): Raster | null {
+    const context = createContext(width, height);
+    if (!context) return null;
+
+    return {
+        width,
+        height,
+
+        clear(color) {
+            context.save();
+            context.globalCompositeOperation = 'copy';
+            context.fillStyle = cssColor(color);
+            context.fillRect(0, 0, width, height);
+            context.restore();
+        },
+
+        fill(polygons, color) {
+            if (color.a <= 0) return;
+            context.beginPath();
+            for (const polygon of polygons) {
+                polygon.forEach((p, i) => (i === 0 ? context.moveTo(p.x, p.y) : context.lineTo(p.x, p.y)));
+                context.closePath();
+            }
+            context.fillStyle = cssColor(color);
+            context.fill('nonzero');
+        },
+
+        fillText(run) {
+            context.save();
+            context.setTransform(...run.matrix);
+            context.font = run.font;
+            context.textAlign = TEXT_ALIGNS[run.anchor];
+            context.textBaseline = TEXT_BASELINES[run.baseline] ?? 'alphabetic';
+
+            if (run.stroke) {
+                context.strokeStyle = cssColor(run.stroke.color);
+                context.lineWidth = run.stroke.width;
+                context.lineJoin = 'round';
+                context.strokeText(run.text, run.x, run.y);
+            }
+            if (run.fill) {
+                context.fillStyle = cssColor(run.fill);
+                context.fillText(run.text, run.x, run.y);
+                if (run.underline) {
+                    const metrics = context.measureText(run.text);
+                    const thickness = run.fontSize / 14;
+                    context.fillRect(run.x - metrics.actualBoundingBoxLeft, run.y + metrics.actualBoundingBoxDescent + thickness, metrics.width, thickness);
+                }
+            }
+            context.restore();
+        },
+
+        toImage() {
+            const { data } = context.getImageData(0, 0, width, height);
+            return { width, height, data };
+        },
+    };
+}
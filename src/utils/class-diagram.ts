@@ -0,0 +1,462 @@
+/**
+ * Class diagram helpers
+ *
+ * Conversion between the generic IR (class nodes and relationship edges)
+ * and the structured class-diagram model, plus member parsing and
+ * formatting shared by the Mermaid and PlantUML class generators.
+ */
+
+import type { ArrowConfig, ArrowHeadType, Diagram, DiagramEdge, DiagramGroup, DiagramNode } from '../types';
+import type {
+    ClassifierKind,
+    ClassRelationType,
+    IRClass,
+    IRClassAttribute,
+    IRClassDiagram,
+    IRClassNote,
+    IRClassOperation,
+    IRClassParameter,
+    IRClassRelationship,
+} from '../types/class';
+import { generateVisibility, parseVisibility } from '../types/class';
+
+/** Member syntax flavour */
+export type ClassMemberSyntax = 'mermaid' | 'uml';
+
+/** PlantUML-style modifiers: {static}, {abstract}, {classifier}, {field}, {method} */
+const MODIFIER_PATTERN = /\{(static|abstract|classifier|field|method)\}/gi;
+
+/** Arrow head drawn for each relationship kind */
+const RELATION_HEAD: Record<ClassRelationType, ArrowHeadType> = {
+    'inheritance': 'diamond',
+    'realization': 'diamond',
+    'composition': 'diamond-filled',
+    'aggregation': 'circle',
+    'association': 'arrow',
+    'dependency': 'arrow',
+    'lollipop': 'circle-filled',
+    'link': 'none',
+    'dashed-link': 'none',
+};
+
+/** Relationship kinds drawn with a dashed line */
+const DASHED_RELATIONS = new Set<ClassRelationType>(['realization', 'dependency', 'dashed-link']);
+
+/** Class diagram arrow symbols at the source end (Mermaid and PlantUML share them) */
+const SOURCE_END_SYNTAX: Partial<Record<ArrowHeadType, string>> = {
+    'diamond': '<|',
+    'open': '<|',
+    'diamond-filled': '*',
+    'circle': 'o',
+    'circle-filled': '()',
+    'arrow': '<',
+};
+
+/** Class diagram arrow symbols at the target end */
+const TARGET_END_SYNTAX: Partial<Record<ArrowHeadType, string>> = {
+    'diamond': '|>',
+    'open': '|>',
+    'diamond-filled': '*',
+    'circle': 'o',
+    'circle-filled': '()',
+    'arrow': '>',
+};
+
+// =============================================================================
+// Member Parsing
+// =============================================================================
+
+/** Parse an attribute line such as `+String name`, `-count: int = 0` or `{static} +id: UUID` */
+export function parseClassAttribute(text: string): IRClassAttribute {
+    const { rest, modifiers } = stripModifiers(text);
+    let body = rest;
+    const visibility = parseVisibility(body[0]);
+    if (visibility) body = body.slice(1).trim();
+
+    // Mermaid classifier suffix
+    let isStatic = modifiers.has('static') || modifiers.has('classifier');
+    if (body.endsWith('$')) {
+        isStatic = true;
+        body = body.slice(0, -1).trim();
+    }
+
+    let defaultValue: string | undefined;
+    const equals = body.indexOf('=');
+    if (equals >= 0) {
+        defaultValue = body.slice(equals + 1).trim();
+        body = body.slice(0, equals).trim();
+    }
+
+    const { name, type } = splitNameAndType(body);
+    return omitUndefined({ name, type, visibility, isStatic: isStatic || undefined, defaultValue });
+}
+
+/** Parse an operation line such as `+add(T item)* bool` or `+find(id: int): User` */
+export function parseClassOperation(text: string): IRClassOperation {
+    const { rest, modifiers } = stripModifiers(text);
+    let body = rest;
+    const visibility = parseVisibility(body[0]);
+    if (visibility) body = body.slice(1).trim();
+
+    const match = body.match(/^(.*?)\(([^)]*)\)\s*(.*)$/);
+    if (!match) {
+        return { name: body, parameters: [], visibility };
+    }
+
+    let suffix = match[3];
+    let isStatic = modifiers.has('static') || modifiers.has('classifier');
+    let isAbstract = modifiers.has('abstract');
+
+    // Mermaid classifiers after the parameter list or the return type: * abstract, $ static
+    const leading = suffix.match(/^[*$]+/)?.[0] ?? '';
+    suffix = suffix.slice(leading.length);
+    const trailing = suffix.match(/[*$]+\s*$/)?.[0] ?? '';
+    suffix = suffix.slice(0, suffix.length - trailing.length);
+    const classifiers = leading + trailing;
+    isAbstract = isAbstract || classifiers.includes('*');
+    isStatic = isStatic || classifiers.includes('$');
+
+    const returnType = suffix.replace(/^\s*:\s*/, '').trim() || undefined;
+    const parameters: IRClassParameter[] = match[2]
+        .split(',')
+        .map(p => p.trim())
+        .filter(Boolean)
+        .map(p => omitUndefined(splitNameAndType(p)));
+
+    return omitUndefined({
+        name: match[1].trim(),
+        parameters,
+        returnType,
+        visibility,
+        isStatic: isStatic || undefined,
+        isAbstract: isAbstract || undefined,
+    });
+}
+
+/** Split `name: type` (UML) or `type name` (Mermaid/Java) */
+function splitNameAndType(text: string): { name: string; type?: string } {
+    const colon = text.indexOf(':');
+    if (colon >= 0) {
+        return { name: text.slice(0, colon).trim(), type: text.slice(colon + 1).trim() || undefined };
+    }
+
+    const tokens = text.trim().split(/\s+/);
+    if (tokens.length > 1) {
+        return { name: tokens[tokens.length - 1], type: tokens.slice(0, -1).join(' ') };
+    }
+    return { name: text.trim() };
+}
+
+/** Remove PlantUML-style modifiers and report which were present */
+function stripModifiers(text: string): { rest: string; modifiers: Set<string> } {
+    const modifiers = new Set<string>();
+    const rest = text.replace(MODIFIER_PATTERN, (_, modifier: string) => {
+        modifiers.add(modifier.toLowerCase());
+        return '';
+    }).trim();
+    return { rest, modifiers };
+}
+
+/** Drop undefined properties so structured members stay compact */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+// =============================================================================
+// Member Formatting
+// =============================================================================
+
+/** Format an attribute for Mermaid (`+String name$`) or UML/PlantUML (`{static} +name: String`) */
+export function formatClassAttribute(attribute: IRClassAttribute, syntax: ClassMemberSyntax): string {
+    const visibility = generateVisibility(attribute.visibility);
+    const defaultValue = attribute.defaultValue !== undefined ? ` = ${attribute.defaultValue}` : '';
+
+    if (syntax === 'mermaid') {
+        const type = attribute.type ? `${formatType(attribute.type, syntax)} ` : '';
+        return `${visibility}${type}${attribute.name}${attribute.isStatic ? '$' : ''}${defaultValue}`;
+    }
+
+    const type = attribute.type ? `: ${formatType(attribute.type, syntax)}` : '';
+    return `${attribute.isStatic ? '{static} ' : ''}${visibility}${attribute.name}${type}${defaultValue}`;
+}
+
+/** Format an operation for Mermaid (`+find(int id)* User`) or UML/PlantUML (`{abstract} +find(id: int): User`) */
+export function formatClassOperation(operation: IRClassOperation, syntax: ClassMemberSyntax): string {
+    const visibility = generateVisibility(operation.visibility);
+
+    if (syntax === 'mermaid') {
+        const parameters = operation.parameters
+            .map(p => p.type ? `${formatType(p.type, syntax)} ${p.name}` : p.name)
+            .join(', ');
+        const classifiers = `${operation.isAbstract ? '*' : ''}${operation.isStatic ? '$' : ''}`;
+        const returnType = operation.returnType ? ` ${formatType(operation.returnType, syntax)}` : '';
+        return `${visibility}${operation.name}(${parameters})${classifiers}${returnType}`;
+    }
+
+    const parameters = operation.parameters
+        .map(p => p.type ? `${p.name}: ${formatType(p.type, syntax)}` : p.name)
+        .join(', ');
+    const modifiers = `${operation.isStatic ? '{static} ' : ''}${operation.isAbstract ? '{abstract} ' : ''}`;
+    const returnType = operation.returnType ? `: ${formatType(operation.returnType, syntax)}` : '';
+    return `${modifiers}${visibility}${operation.name}(${parameters})${returnType}`;
+}
+
+/** Convert generic notation: Mermaid uses List~T~, UML uses List<T> */
+export function formatType(type: string, syntax: ClassMemberSyntax): string {
+    if (syntax === 'mermaid') {
+        let result = type;
+        while (/<[^<>]*>/.test(result)) {
+            result = result.replace(/<([^<>]*)>/g, '~$1~');
+        }
+        return result;
+    }
+    let result = type;
+    while (/~[^~]*~/.test(result)) {
+        result = result.replace(/~([^~]*)~/, '<$1>');
+    }
+    return result;
+}
+
+// =============================================================================
+// Relationship Mapping
+// =============================================================================
+
+/** Determine relationship kind and decorated end from arrow configuration */
+export function classifyClassRelation(arrow: ArrowConfig): Pick<IRClassRelationship, 'kind' | 'markerEnd'> {
+    const dashed = arrow.lineType === 'dashed' || arrow.lineType === 'dotted';
+    const sourceDecorated = arrow.sourceType !== 'none';
+    const targetDecorated = arrow.targetType !== 'none';
+    const head = targetDecorated ? arrow.targetType : arrow.sourceType;
+    const markerEnd = sourceDecorated && targetDecorated ? 'both' : sourceDecorated ? 'source' : 'target';
+
+    switch (head) {
+        case 'diamond':
+        case 'open':
+            return { kind: dashed ? 'realization' : 'inheritance', markerEnd };
+        case 'diamond-filled':
+            return { kind: 'composition', markerEnd };
+        case 'circle':
+            return { kind: 'aggregation', markerEnd };
+        case 'circle-filled':
+            return { kind: 'lollipop', markerEnd };
+        case 'none':
+            return { kind: dashed ? 'dashed-link' : 'link', markerEnd };
+        default:
+            return { kind: dashed ? 'dependency' : 'association', markerEnd };
+    }
+}
+
+/** Arrow configuration for a relationship kind */
+export function getClassRelationArrow(
+    kind: ClassRelationType,
+    markerEnd: IRClassRelationship['markerEnd'] = 'target'
+): ArrowConfig {
+    const head = RELATION_HEAD[kind];
+    return {
+        sourceType: markerEnd === 'source' || markerEnd === 'both' ? head : 'none',
+        targetType: markerEnd === 'target' || markerEnd === 'both' ? head : 'none',
+        lineType: DASHED_RELATIONS.has(kind) ? 'dashed' : 'solid',
+    };
+}
+
+/** Class relationship arrow syntax (`<|--`, `*--`, `..>`), shared by Mermaid and PlantUML */
+export function generateClassArrow(arrow: ArrowConfig): string {
+    const line = arrow.lineType === 'dashed' || arrow.lineType === 'dotted' ? '..' : '--';
+    return `${SOURCE_END_SYNTAX[arrow.sourceType] ?? ''}${line}${TARGET_END_SYNTAX[arrow.targetType] ?? ''}`;
+}
+
+// =============================================================================
+// Extraction / Embedding
+// =============================================================================
+
+/** Annotation implied by a classifier kind */
+export const CLASSIFIER_STEREOTYPE: Record<Exclude<ClassifierKind, 'class'>, string> = {
+    interface: 'interface',
+    abstract: 'abstract',
+    enum: 'enumeration',
+};
+
+/**
+ * Extract class-diagram data from a parsed diagram
+ *
+ * Reads structured `attributes`/`operations` from node metadata when
+ * present, otherwise parses the `members`/`methods` lines written by
+ * the Mermaid and PlantUML parsers.
+ */
+export function extractClassData(diagram: Diagram): IRClassDiagram | null {
+    if (diagram.type !== 'class') {
+        return null;
+    }
+
+    const namespaceOf = new Map<string, string>();
+    for (const group of diagram.groups) {
+        for (const childId of group.children) {
+            namespaceOf.set(childId, group.label || group.id);
+        }
+    }
+
+    const classNodes = diagram.nodes.filter(n => !n.metadata?.isNote);
+    const classIds = new Set(classNodes.map(n => n.id));
+
+    const classes = classNodes.map(node => nodeToClass(node, namespaceOf.get(node.id)));
+
+    const relationships: IRClassRelationship[] = diagram.edges
+        .filter(edge => classIds.has(edge.source) && classIds.has(edge.target))
+        .map(edge => omitUndefined({
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            ...classifyClassRelation(edge.arrow),
+            label: edge.label,
+            sourceCardinality: edge.metadata?.sourceCardinality as string | undefined,
+            targetCardinality: edge.metadata?.targetCardinality as string | undefined,
+        }));
+
+    const notes: IRClassNote[] = diagram.nodes
+        .filter(n => n.metadata?.isNote)
+        .map(node => omitUndefined({
+            id: node.id,
+            text: node.label,
+            attachTo: node.metadata?.attachTo as string | undefined,
+        }));
+
+    return omitUndefined({
+        id: diagram.id,
+        title: diagram.name,
+        direction: diagram.metadata?.direction as string | undefined,
+        classes,
+        relationships,
+        notes,
+        metadata: diagram.metadata,
+    });
+}
+
+/** Embed a class diagram into the generic IR */
+export function embedClassData(classDiagram: IRClassDiagram): Diagram {
+    const nodes: DiagramNode[] = classDiagram.classes.map(cls => ({
+        id: cls.id,
+        type: 'node',
+        label: cls.label ?? defaultClassLabel(cls.name, cls.generic),
+        shape: 'rectangle',
+        style: {},
+        metadata: omitUndefined({
+            ...cls.metadata,
+            classType: cls.kind,
+            stereotype: cls.stereotype,
+            generic: cls.generic,
+            attributes: cls.attributes,
+            operations: cls.operations,
+        }),
+    }));
+
+    for (const note of classDiagram.notes ?? []) {
+        nodes.push({
+            id: note.id,
+            type: 'node',
+            label: note.text,
+            shape: 'note',
+            style: {},
+            metadata: { isNote: true, attachTo: note.attachTo },
+        });
+    }
+
+    const edges: DiagramEdge[] = classDiagram.relationships.map(rel => ({
+        id: rel.id,
+        type: 'edge',
+        source: rel.source,
+        target: rel.target,
+        label: rel.label,
+        arrow: getClassRelationArrow(rel.kind, rel.markerEnd),
+        style: {},
+        metadata: omitUndefined({
+            ...rel.metadata,
+            relationType: rel.kind,
+            sourceCardinality: rel.sourceCardinality,
+            targetCardinality: rel.targetCardinality,
+        }),
+    }));
+
+    const groups: DiagramGroup[] = [];
+    for (const cls of classDiagram.classes) {
+        if (!cls.namespace) continue;
+        let group = groups.find(g => g.id === cls.namespace);
+        if (!group) {
+            group = { id: cls.namespace, type: 'group', label: cls.namespace, children: [], style: {} };
+            groups.push(group);
+        }
+        group.children.push(cls.id);
+    }
+
+    return {
+        id: classDiagram.id,
+        name: classDiagram.title,
+        type: 'class',
+        nodes,
+        edges,
+        groups,
+        metadata: {
+            ...classDiagram.metadata,
+            source: (classDiagram.metadata?.source as string | undefined) ?? 'class',
+            ...(classDiagram.direction && { direction: classDiagram.direction }),
+        },
+    };
+}
+
+/** Convert a class node to the structured model */
+function nodeToClass(node: DiagramNode, namespace: string | undefined): IRClass {
+    const meta = node.metadata ?? {};
+    const kind = toClassifierKind(meta.classType as string | undefined);
+    const generic = meta.generic as string | undefined;
+
+    // Older parsers keep member lines; anything with a parameter list is an operation
+    const lines = [...((meta.members as string[] | undefined) ?? []), ...((meta.methods as string[] | undefined) ?? [])];
+    const attributes = Array.isArray(meta.attributes)
+        ? meta.attributes as IRClassAttribute[]
+        : lines.filter(l => !l.includes('(')).map(parseClassAttribute);
+    const operations = Array.isArray(meta.operations)
+        ? meta.operations as IRClassOperation[]
+        : lines.filter(l => l.includes('(')).map(parseClassOperation);
+
+    let stereotype = meta.stereotype as string | undefined;
+    if (stereotype && kind !== 'class' && isImpliedStereotype(stereotype, kind)) {
+        stereotype = undefined;
+    }
+
+    return omitUndefined({
+        id: node.id,
+        name: node.id,
+        kind,
+        label: node.label && node.label !== defaultClassLabel(node.id, generic) ? node.label : undefined,
+        stereotype,
+        generic,
+        namespace,
+        attributes,
+        operations,
+    });
+}
+
+/** Map parser class types (class, interface, abstract-class, enum, ...) to a classifier kind */
+function toClassifierKind(classType: string | undefined): ClassifierKind {
+    switch (classType) {
+        case 'interface':
+            return 'interface';
+        case 'abstract':
+        case 'abstract-class':
+            return 'abstract';
+        case 'enum':
+            return 'enum';
+        default:
+            return 'class';
+    }
+}
+
+/** Whether a stereotype only restates the classifier kind */
+function isImpliedStereotype(stereotype: string, kind: Exclude<ClassifierKind, 'class'>): boolean {
+    const lower = stereotype.toLowerCase();
+    return lower === CLASSIFIER_STEREOTYPE[kind] || lower === kind;
+}
+
+/** Label shown for a class without an explicit display label */
+function defaultClassLabel(name: string, generic: string | undefined): string {
+    return generic ? `${name}<${formatType(generic, 'uml')}>` : name;
+}
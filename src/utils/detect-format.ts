@@ -6,20 +6,18 @@
  */
 
 import type { InputFormat } from '../types/ir';
+import type { DetectionConfidence, DetectionPattern } from '../types/registry';
+import { getRegisteredDetectors } from '../api/registry';
 
 export interface DetectionResult {
   format: InputFormat | null;
-  confidence: 'high' | 'medium' | 'low';
+  confidence: DetectionConfidence;
   reason: string;
 }
 
 interface FormatPattern {
   format: InputFormat;
-  patterns: Array<{
-    regex: RegExp;
-    confidence: 'high' | 'medium' | 'low';
-    reason: string;
-  }>;
+  patterns: DetectionPattern[];
 }
 
 /**
@@ -57,6 +55,14 @@ const FORMAT_PATTERNS: FormatPattern[] = [
       { regex: /xmlns.*graphml/i, confidence: 'high', reason: 'GraphML namespace' },
     ],
   },
+  // SCXML - W3C state chart XML
+  {
+    format: 'scxml',
+    patterns: [
+      { regex: /<scxml\b/i, confidence: 'high', reason: 'SCXML root element' },
+      { regex: /xmlns="http:\/\/www\.w3\.org\/2005\/07\/scxml"/i, confidence: 'high', reason: 'SCXML namespace' },
+    ],
+  },
   // Draw.io - XML with mxfile/mxGraphModel
   {
     format: 'drawio',
@@ -82,6 +88,14 @@ const FORMAT_PATTERNS: FormatPattern[] = [
       { regex: /^"?Id"?,"?Name"?,"?Shape Library"?/m, confidence: 'high', reason: 'Lucidchart CSV header (quoted)' },
     ],
   },
+  // SQL DDL - CREATE TABLE statements
+  {
+    format: 'sql',
+    patterns: [
+      { regex: /^\s*CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+|UNLOGGED\s+)?TABLE\b/im, confidence: 'high', reason: 'SQL CREATE TABLE statement' },
+      { regex: /^\s*ALTER\s+TABLE\b.*\bFOREIGN\s+KEY\b/im, confidence: 'medium', reason: 'SQL foreign key constraint' },
+    ],
+  },
   // Structurizr - DSL with workspace keyword
   {
     format: 'structurizr',
@@ -92,6 +106,20 @@ const FORMAT_PATTERNS: FormatPattern[] = [
       { regex: /\bmodel\s*\{/i, confidence: 'medium', reason: 'Structurizr model block' },
     ],
   },
+  // Graphviz layout output - plain text and JSON renderings
+  {
+    format: 'graphviz-plain',
+    patterns: [
+      { regex: /^graph\s+[\d.]+\s+[\d.]+\s+[\d.]+\s*$/m, confidence: 'high', reason: 'Graphviz plain graph line' },
+    ],
+  },
+  {
+    format: 'graphviz-json',
+    patterns: [
+      { regex: /"_subgraph_cnt"\s*:/, confidence: 'high', reason: 'Graphviz JSON subgraph count' },
+      { regex: /"_gvid"\s*:/, confidence: 'high', reason: 'Graphviz JSON object id' },
+    ],
+  },
   // Mermaid - specific diagram type declarations
   {
     format: 'mermaid',
@@ -108,7 +136,7 @@ const FORMAT_PATTERNS: FormatPattern[] = [
       { regex: /^mindmap\b/m, confidence: 'high', reason: 'Mermaid mindmap' },
       { regex: /^journey\b/m, confidence: 'high', reason: 'Mermaid user journey' },
       { regex: /^gitGraph\b/m, confidence: 'high', reason: 'Mermaid git graph' },
-      { regex: /^C4Context\b/m, confidence: 'high', reason: 'Mermaid C4 context' },
+      { regex: /^C4(Context|Container|Component|Dynamic|Deployment)\b/m, confidence: 'high', reason: 'Mermaid C4 diagram' },
       { regex: /^quadrantChart\b/m, confidence: 'high', reason: 'Mermaid quadrant chart' },
       { regex: /^requirementDiagram\b/m, confidence: 'high', reason: 'Mermaid requirement diagram' },
       // Medium confidence - arrow syntax (could be other formats)
@@ -168,8 +196,18 @@ export function detectFormat(code: string): DetectionResult {
     };
   }
 
+  // Registered formats first, so they can claim sources that look like built-in ones
+  const registered = getRegisteredDetectors();
+  for (const [format, detector] of registered) {
+    const match = detector(trimmed);
+    if (match) {
+      return { format, ...match };
+    }
+  }
+
   // Check each format's patterns
   for (const { format, patterns } of FORMAT_PATTERNS) {
+    if (registered.some(([replaced]) => replaced === format)) continue;
     for (const { regex, confidence, reason } of patterns) {
       if (regex.test(trimmed)) {
         return { format, confidence, reason };
@@ -227,7 +265,16 @@ export function detectAllFormats(code: string): DetectionResult[] {
     return results;
   }
 
+  const registered = getRegisteredDetectors();
+  for (const [format, detector] of registered) {
+    const match = detector(trimmed);
+    if (match) {
+      results.push({ format, ...match });
+    }
+  }
+
   for (const { format, patterns } of FORMAT_PATTERNS) {
+    if (registered.some(([replaced]) => replaced === format)) continue;
     for (const { regex, confidence, reason } of patterns) {
       if (regex.test(trimmed)) {
         results.push({ format, confidence, reason });
@@ -0,0 +1,419 @@
+/**
+ * ER diagram helpers
+ *
+ * Conversion between the generic IR (entity nodes and relationship edges)
+ * and the structured ER model, plus the relational schema shared by the
+ * SQL and DBML generators: primary keys, and foreign key columns inferred
+ * from relationship cardinalities.
+ */
+
+import type { Diagram, DiagramEdge, DiagramNode } from '../types';
+import type {
+    ERCardinality,
+    ERIdentifying,
+    IRAttribute,
+    IREntity,
+    IRERDiagram,
+    IRRelationship,
+} from '../types/er';
+
+// =============================================================================
+// IR Conversion
+// =============================================================================
+
+/** Extract the ER model from a diagram; null unless it is an ER diagram */
+export function extractERData(diagram: Diagram): IRERDiagram | null {
+    if (diagram.type !== 'er') {
+        return null;
+    }
+
+    const entities: IREntity[] = diagram.nodes.map(node => omitUndefined({
+        id: node.id,
+        name: (node.metadata?.entityName as string | undefined) ?? node.id,
+        alias: node.metadata?.alias as string | undefined,
+        attributes: (node.metadata?.attributes as IRAttribute[]) || [],
+    }));
+
+    const relationships: IRRelationship[] = diagram.edges.map(edge => {
+        const { relationshipType: _type, sourceCardinality, targetCardinality, identifying, ...rest } = edge.metadata ?? {};
+        return omitUndefined({
+            id: edge.id,
+            source: edge.source,
+            target: edge.target,
+            sourceCardinality: (sourceCardinality as ERCardinality) || 'exactly-one',
+            targetCardinality: (targetCardinality as ERCardinality) || 'exactly-one',
+            identifying: (identifying as ERIdentifying) || 'identifying',
+            label: edge.label,
+            metadata: Object.keys(rest).length > 0 ? rest : undefined,
+        });
+    });
+
+    return {
+        id: diagram.id,
+        title: diagram.name,
+        entities,
+        relationships,
+        metadata: diagram.metadata,
+    };
+}
+
+/** Embed an ER model into a generic diagram */
+export function embedERData(erDiagram: IRERDiagram): Diagram {
+    const nodes: DiagramNode[] = erDiagram.entities.map(entity => ({
+        id: entity.id,
+        type: 'node',
+        label: formatEntityLabel(entity),
+        shape: 'rectangle',
+        style: {},
+        metadata: omitUndefined({
+            entityType: 'er-entity',
+            entityName: entity.name !== entity.id ? entity.name : undefined,
+            alias: entity.alias,
+            attributes: entity.attributes,
+        }),
+    }));
+
+    const edges: DiagramEdge[] = erDiagram.relationships.map(rel => ({
+        id: rel.id,
+        type: 'edge',
+        source: rel.source,
+        target: rel.target,
+        label: rel.label,
+        arrow: {
+            sourceType: 'none',
+            targetType: 'none',
+            lineType: rel.identifying === 'identifying' ? 'solid' : 'dashed',
+        },
+        style: {},
+        metadata: {
+            ...rel.metadata,
+            relationshipType: 'er-relationship',
+            sourceCardinality: rel.sourceCardinality,
+            targetCardinality: rel.targetCardinality,
+            identifying: rel.identifying,
+        },
+    }));
+
+    return {
+        id: erDiagram.id,
+        name: erDiagram.title,
+        type: 'er',
+        nodes,
+        edges,
+        groups: [],
+        metadata: {
+            source: 'er',
+            ...erDiagram.metadata,
+        },
+    };
+}
+
+/** Entity label: name followed by `type name key` lines */
+function formatEntityLabel(entity: IREntity): string {
+    if (entity.attributes.length === 0) {
+        return entity.name;
+    }
+
+    const attrLines = entity.attributes.map(attr =>
+        attr.keyType ? `${attr.type} ${attr.name} ${attr.keyType}` : `${attr.type} ${attr.name}`
+    );
+    return `${entity.name}\n${attrLines.join('\n')}`;
+}
+
+// =============================================================================
+// Relational Schema
+// =============================================================================
+
+/** Column of a resolved table */
+export interface ERColumn {
+    name: string;
+    type: string;
+    primaryKey: boolean;
+    unique: boolean;
+    notNull: boolean;
+    comment?: string;
+    /** Added for a foreign key or a missing primary key, not declared on the entity */
+    synthetic?: boolean;
+}
+
+/** Table for one entity */
+export interface ERTable {
+    entity: IREntity;
+    columns: ERColumn[];
+}
+
+/** Foreign key inferred from a one-to-many or one-to-one relationship */
+export interface ERForeignKey {
+    relationship: IRRelationship;
+    /** Entity holding the key */
+    table: string;
+    columns: string[];
+    /** Entity referenced by the key */
+    referencedTable: string;
+    referencedColumns: string[];
+    oneToOne: boolean;
+}
+
+/** Relational view of an ER model */
+export interface ERSchema {
+    tables: ERTable[];
+    foreignKeys: ERForeignKey[];
+    /** Relationships that are many on both sides; they need a junction table */
+    manyToMany: IRRelationship[];
+}
+
+/** True when the cardinality allows several rows */
+export function isManyCardinality(cardinality: ERCardinality): boolean {
+    return cardinality === 'zero-or-more' || cardinality === 'one-or-more';
+}
+
+/** True when the cardinality allows no row */
+export function isOptionalCardinality(cardinality: ERCardinality): boolean {
+    return cardinality === 'zero-or-one' || cardinality === 'zero-or-more';
+}
+
+/** Primary key columns of a table */
+export function primaryKeyColumns(table: ERTable): ERColumn[] {
+    return table.columns.filter(column => column.primaryKey);
+}
+
+/**
+ * Resolve an ER model to tables and foreign keys
+ *
+ * The "many" side of a relationship holds the foreign key; for one-to-one
+ * relationships the target does. Columns recorded on the relationship
+ * (`columns` and `references` metadata, as read from SQL) are used as they
+ * are. Otherwise an existing column is reused when its name combines the
+ * referenced entity and key (`customer_id`, `customerId`), or else when it is
+ * marked FK and no other relationship took it; failing both a column is added.
+ * Entities referenced without a primary key get their `id` column, or a new
+ * one, as key.
+ */
+export function resolveERSchema(erDiagram: IRERDiagram): ERSchema {
+    const tables = new Map<string, ERTable>();
+    for (const entity of erDiagram.entities) {
+        tables.set(entity.id, {
+            entity,
+            columns: entity.attributes.map(attr => omitUndefined({
+                name: attr.name,
+                type: attr.type,
+                primaryKey: attr.keyType === 'pk',
+                unique: attr.keyType === 'uk',
+                notNull: attr.keyType === 'pk',
+                comment: attr.comment,
+            })),
+        });
+    }
+    const tableOf = (id: string): ERTable => {
+        let table = tables.get(id);
+        if (!table) {
+            table = { entity: { id, name: id, attributes: [] }, columns: [] };
+            tables.set(id, table);
+        }
+        return table;
+    };
+
+    const links: ForeignKeyLink[] = [];
+    const manyToMany: IRRelationship[] = [];
+    const claimed = new Set<ERColumn>();
+
+    for (const rel of erDiagram.relationships) {
+        const sourceMany = isManyCardinality(rel.sourceCardinality);
+        const targetMany = isManyCardinality(rel.targetCardinality);
+
+        if (sourceMany && targetMany) {
+            ensurePrimaryKey(tableOf(rel.source));
+            ensurePrimaryKey(tableOf(rel.target));
+            manyToMany.push(rel);
+            continue;
+        }
+
+        const childIsSource = sourceMany;
+        const child = tableOf(childIsSource ? rel.source : rel.target);
+        const parent = tableOf(childIsSource ? rel.target : rel.source);
+        const keys = referencedKeys(parent, recordedNames(rel, 'references'));
+        const columns = recordedColumns(child, recordedNames(rel, 'columns'), keys.length);
+        columns.forEach(column => column && claimed.add(column));
+
+        links.push({
+            relationship: rel,
+            child,
+            parent,
+            parentCardinality: childIsSource ? rel.targetCardinality : rel.sourceCardinality,
+            oneToOne: !sourceMany && !targetMany,
+            keys,
+            columns,
+        });
+    }
+
+    // Each pass only fills the columns earlier passes left open, so that a
+    // column named after its key is not taken by another relationship first
+    const fill = (find: (link: ForeignKeyLink, key: ERColumn) => ERColumn | undefined) => {
+        for (const link of links) {
+            link.keys.forEach((key, i) => {
+                if (link.columns[i]) return;
+                const column = find(link, key);
+                if (column) {
+                    link.columns[i] = column;
+                    claimed.add(column);
+                }
+            });
+        }
+    };
+    fill((link, key) => findNamedColumn(link, key, claimed));
+    fill((link, key) => findMarkedColumn(link, key, claimed));
+    fill((link, key) => addForeignKeyColumn(link.child, link.parent, key));
+
+    const foreignKeys = links.map(({ relationship, child, parent, parentCardinality, oneToOne, keys, columns }) => {
+        for (const column of columns as ERColumn[]) {
+            if (!isOptionalCardinality(parentCardinality)) {
+                column.notNull = true;
+            }
+            if (oneToOne && keys.length === 1 && !column.primaryKey) {
+                column.unique = true;
+            }
+        }
+        return {
+            relationship,
+            table: child.entity.id,
+            columns: columns.map(column => column!.name),
+            referencedTable: parent.entity.id,
+            referencedColumns: keys.map(key => key.name),
+            oneToOne,
+        };
+    });
+
+    return { tables: [...tables.values()], foreignKeys, manyToMany };
+}
+
+/** Foreign key being resolved; `columns` is filled in per key of `keys` */
+interface ForeignKeyLink {
+    relationship: IRRelationship;
+    child: ERTable;
+    parent: ERTable;
+    parentCardinality: ERCardinality;
+    oneToOne: boolean;
+    keys: ERColumn[];
+    columns: (ERColumn | undefined)[];
+}
+
+/** String list stored under `key` in the relationship metadata */
+function recordedNames(rel: IRRelationship, key: 'columns' | 'references'): string[] {
+    const value = rel.metadata?.[key];
+    return Array.isArray(value) ? value.filter((name): name is string => typeof name === 'string') : [];
+}
+
+/** Columns of `parent` named by a recorded reference, or else its primary key */
+function referencedKeys(parent: ERTable, names: string[]): ERColumn[] {
+    const columns = names.map(name => findColumn(parent, name));
+    if (columns.length > 0 && columns.every(column => column !== undefined)) {
+        return columns as ERColumn[];
+    }
+    return ensurePrimaryKey(parent);
+}
+
+/** Recorded foreign key columns of `child`; open slots unless all of them exist */
+function recordedColumns(child: ERTable, names: string[], keyCount: number): (ERColumn | undefined)[] {
+    const columns = names.map(name => findColumn(child, name));
+    if (columns.length === keyCount && columns.every(column => column !== undefined)) {
+        return columns;
+    }
+    return new Array<undefined>(keyCount).fill(undefined);
+}
+
+function findColumn(table: ERTable, name: string): ERColumn | undefined {
+    return table.columns.find(column => column.name.toLowerCase() === name.toLowerCase());
+}
+
+/** Primary key of a table, promoting or adding an `id` column when it has none */
+function ensurePrimaryKey(table: ERTable): ERColumn[] {
+    const keys = primaryKeyColumns(table);
+    if (keys.length > 0) {
+        return keys;
+    }
+
+    const existing = table.columns.find(column => column.name.toLowerCase() === 'id');
+    if (existing) {
+        existing.primaryKey = true;
+        existing.notNull = true;
+        return [existing];
+    }
+
+    const id: ERColumn = { name: 'id', type: 'int', primaryKey: true, unique: false, notNull: true, synthetic: true };
+    table.columns.unshift(id);
+    return [id];
+}
+
+/** Unclaimed column of the link's child named after the parent and `key` */
+function findNamedColumn(link: ForeignKeyLink, key: ERColumn, claimed: Set<ERColumn>): ERColumn | undefined {
+    const { name } = link.parent.entity;
+    const names = new Set([normalize(name + key.name)]);
+    if (link.keys.length === 1) {
+        names.add(normalize(`${name}id`));
+    }
+    return candidateColumns(link, key, claimed).find(column => names.has(normalize(column.name)));
+}
+
+/** Unclaimed column of the link's child marked FK, preferring one named like `key` */
+function findMarkedColumn(link: ForeignKeyLink, key: ERColumn, claimed: Set<ERColumn>): ERColumn | undefined {
+    const attrs = new Map(link.child.entity.attributes.map(attr => [attr.name, attr]));
+    const marked = candidateColumns(link, key, claimed).filter(column => attrs.get(column.name)?.keyType === 'fk');
+    return marked.find(column => normalize(column.name) === normalize(key.name)) ?? marked[0];
+}
+
+/** Columns of the link's child not yet holding a key, other than `key` itself */
+function candidateColumns(link: ForeignKeyLink, key: ERColumn, claimed: Set<ERColumn>): ERColumn[] {
+    return link.child.columns.filter(column => !claimed.has(column) && column !== key);
+}
+
+/** Add a `<entity>_<key>` column to `child` */
+function addForeignKeyColumn(child: ERTable, parent: ERTable, key: ERColumn): ERColumn {
+    const prefix = child === parent ? 'parent' : snakeCase(parent.entity.name);
+    const base = `${prefix}_${key.name}`;
+    let name = base;
+    for (let i = 2; child.columns.some(column => column.name === name); i++) {
+        name = `${base}_${i}`;
+    }
+
+    const column: ERColumn = { name, type: foreignKeyType(key.type), primaryKey: false, unique: false, notNull: false, synthetic: true };
+    child.columns.push(column);
+    return column;
+}
+
+/** Auto-incrementing key types and the integer type that references them */
+const SERIAL_TYPES: Record<string, string> = {
+    serial: 'integer',
+    serial4: 'integer',
+    bigserial: 'bigint',
+    serial8: 'bigint',
+    smallserial: 'smallint',
+    serial2: 'smallint',
+};
+
+/** Type of a column referencing a key of type `type`, in the same case */
+function foreignKeyType(type: string): string {
+    const base = SERIAL_TYPES[type.toLowerCase()];
+    if (!base) {
+        return type;
+    }
+    return type === type.toUpperCase() ? base.toUpperCase() : base;
+}
+
+/** Lowercase snake_case form of an entity name */
+export function snakeCase(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[^a-zA-Z0-9]+/g, '_')
+        .replace(/^_|_$/g, '')
+        .toLowerCase();
+}
+
+/** Name with case and separators removed, for matching */
+function normalize(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Drop keys whose value is undefined */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
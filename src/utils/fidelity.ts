@@ -0,0 +1,268 @@
+/**
+ * Conversion fidelity
+ *
+ * Compare a diagram with the capabilities of an output format and list
+ * the features that the conversion drops
+ */
+
+import type {
+    ConversionDiagnostic,
+    DiagnosticSeverity,
+    Diagram,
+    DiagramEdge,
+    DiagramFeature,
+    DiagramGroup,
+    DiagramNode,
+    FormatCapabilities,
+    OutputFormat,
+    SequenceElement,
+} from '../types';
+import { FORMAT_CAPABILITIES } from '../constants/capabilities';
+import { getRegisteredCapabilities, getRegisteredGenerator } from '../api/registry';
+import { supportsCanvasText } from './canvas-raster';
+import { buildParentMap } from './group-hierarchy';
+
+/** Features whose loss leaves the picture intact */
+const COSMETIC_FEATURES = new Set<DiagramFeature>([
+    'label-position', 'font-size', 'font-family', 'font-weight', 'text-align', 'shadow', 'rounded',
+    'collapsed-groups', 'group-label-position',
+]);
+
+/** How each feature reads in a diagnostic */
+const FEATURE_NAMES: Partial<Record<DiagramFeature, string>> = {
+    'positions': 'positions',
+    'sizes': 'sizes',
+    'waypoints': 'edge waypoints',
+    'ports': 'connection ports',
+    'groups': 'groups',
+    'nested-groups': 'nested groups',
+    'collapsed-groups': 'collapsed groups',
+    'edge-labels': 'edge labels',
+    'label-position': 'edge label positions',
+    'block-labels': 'labels of sequence groups',
+    'unicode-text': 'text beyond ASCII',
+    'fill': 'node fill colors',
+    'stroke': 'node stroke colors',
+    'stroke-width': 'node stroke widths',
+    'font-size': 'font sizes',
+    'font-family': 'font families',
+    'font-color': 'font colors',
+    'font-weight': 'bold text',
+    'text-align': 'text alignment',
+    'opacity': 'node opacity',
+    'shadow': 'shadows',
+    'rounded': 'rounded corners',
+    'edge-stroke': 'edge colors',
+    'edge-stroke-width': 'edge widths',
+    'edge-opacity': 'edge opacity',
+    'group-fill': 'group fill colors',
+    'group-stroke': 'group stroke colors',
+    'group-dash': 'dashed group borders',
+    'group-opacity': 'group opacity',
+    'group-label-position': 'group label positions',
+};
+
+/** Most element ids listed in a summary line */
+const SUMMARY_IDS = 5;
+
+/**
+ * IR features an output format can express
+ *
+ * Capabilities registered for the format take precedence. A registered
+ * generator without capabilities has none known, even under the name of
+ * a built-in format.
+ */
+export function getFormatCapabilities(format: OutputFormat): FormatCapabilities | undefined {
+    const registered = getRegisteredCapabilities(format);
+    if (registered) return registered;
+    if (getRegisteredGenerator(format)) return undefined;
+    return (FORMAT_CAPABILITIES as Partial<Record<string, FormatCapabilities>>)[format];
+}
+
+/** Whether an output format can express a feature; false when its capabilities are unknown */
+export function supportsFeature(format: OutputFormat, feature: DiagramFeature): boolean {
+    const capabilities = getFormatCapabilities(format);
+    return capabilities ? hasFeature(capabilities, feature) : false;
+}
+
+/**
+ * List the features of a diagram that an output format cannot express
+ *
+ * Diagram types the format writes natively, other than flowcharts, are
+ * generated from their own model and are not checked element by element;
+ * of sequence diagrams only group labels are checked. The text of nodes,
+ * edges and groups is checked for every type. Formats with unknown
+ * capabilities report nothing.
+ */
+export function analyzeFidelity(diagram: Diagram, format: OutputFormat): ConversionDiagnostic[] {
+    const capabilities = getFormatCapabilities(format);
+    if (!capabilities) return [];
+
+    const diagnostics: ConversionDiagnostic[] = [];
+    const report: Reporter = (feature, elementType, elementId) => {
+        if (hasFeature(capabilities, feature)) return false;
+        diagnostics.push({
+            ...(elementId !== undefined && { elementId }),
+            elementType,
+            feature,
+            reason: `${format} cannot express ${describeFeature(feature)}`,
+            severity: severityOf(feature),
+        });
+        return true;
+    };
+
+    checkText(diagram, report);
+
+    const native = capabilities.diagramTypes.includes(diagram.type);
+    if (!native) {
+        report(`type:${diagram.type}`, 'diagram');
+    } else if (diagram.type !== 'flowchart' && diagram.type !== 'generic') {
+        if (diagram.type === 'sequence') checkSequenceBlocks(diagram, report);
+        return diagnostics;
+    }
+
+    for (const node of diagram.nodes) checkNode(node, report);
+    for (const edge of diagram.edges) checkEdge(edge, report);
+
+    const parents = buildParentMap(diagram.groups);
+    for (const group of diagram.groups) checkGroup(group, parents.has(group.id), report);
+
+    return diagnostics;
+}
+
+/**
+ * Condense diagnostics into one line per lost feature, listing the
+ * affected elements. Info diagnostics are left out.
+ */
+export function summarizeDiagnostics(diagnostics: ConversionDiagnostic[]): { warnings: string[]; errors: string[] } {
+    const byReason = new Map<string, { severity: DiagnosticSeverity; ids: string[] }>();
+    for (const diagnostic of diagnostics) {
+        if (diagnostic.severity === 'info') continue;
+        const entry = byReason.get(diagnostic.reason) ?? { severity: diagnostic.severity, ids: [] };
+        if (diagnostic.elementId !== undefined) entry.ids.push(diagnostic.elementId);
+        byReason.set(diagnostic.reason, entry);
+    }
+
+    const summary = { warnings: [] as string[], errors: [] as string[] };
+    for (const [reason, { severity, ids }] of byReason) {
+        const listed = ids.slice(0, SUMMARY_IDS).join(', ') + (ids.length > SUMMARY_IDS ? ', …' : '');
+        const count = `${ids.length} element${ids.length === 1 ? '' : 's'}`;
+        const line = ids.length > 0 ? `${reason} (${count}: ${listed})` : reason;
+        (severity === 'error' ? summary.errors : summary.warnings).push(line);
+    }
+    return summary;
+}
+
+/** Record a diagnostic unless the format has the feature; returns whether it was lost */
+type Reporter = (
+    feature: DiagramFeature,
+    elementType: ConversionDiagnostic['elementType'],
+    elementId?: string,
+) => boolean;
+
+function checkNode(node: DiagramNode, report: Reporter): void {
+    const { style } = node;
+    if (node.position) report('positions', 'node', node.id);
+    if (node.size) report('sizes', 'node', node.id);
+    if (node.ports?.length) report('ports', 'node', node.id);
+    report(`shape:${node.shape}`, 'node', node.id);
+
+    if (style.fill) report('fill', 'node', node.id);
+    if (style.stroke) report('stroke', 'node', node.id);
+    if (style.strokeWidth !== undefined) report('stroke-width', 'node', node.id);
+    if (style.fontSize !== undefined) report('font-size', 'node', node.id);
+    if (style.fontFamily) report('font-family', 'node', node.id);
+    if (style.fontColor) report('font-color', 'node', node.id);
+    if (style.fontWeight === 'bold') report('font-weight', 'node', node.id);
+    if (style.textAlign && style.textAlign !== 'center') report('text-align', 'node', node.id);
+    if (style.opacity !== undefined && style.opacity !== 1) report('opacity', 'node', node.id);
+    if (style.shadow) report('shadow', 'node', node.id);
+    if (style.rounded) report('rounded', 'node', node.id);
+}
+
+function checkEdge(edge: DiagramEdge, report: Reporter): void {
+    const { arrow, style } = edge;
+    if (edge.waypoints?.length) report('waypoints', 'edge', edge.id);
+    if (edge.sourcePort || edge.targetPort) report('ports', 'edge', edge.id);
+    if (edge.label) {
+        const lost = report('edge-labels', 'edge', edge.id);
+        if (!lost && edge.labelPosition && edge.labelPosition !== 'middle') report('label-position', 'edge', edge.id);
+    }
+
+    report(`line:${arrow.lineType}`, 'edge', edge.id);
+    // Leaving out a head needs no notation
+    if (arrow.targetType !== 'none') report(`arrow:${arrow.targetType}`, 'edge', edge.id);
+    if (arrow.sourceType !== 'none' && arrow.sourceType !== arrow.targetType) report(`arrow:${arrow.sourceType}`, 'edge', edge.id);
+
+    if (style.stroke) report('edge-stroke', 'edge', edge.id);
+    if (style.strokeWidth !== undefined) report('edge-stroke-width', 'edge', edge.id);
+    if (style.opacity !== undefined && style.opacity !== 1) report('edge-opacity', 'edge', edge.id);
+}
+
+function checkGroup(group: DiagramGroup, nested: boolean, report: Reporter): void {
+    // Nothing else of a dropped group survives
+    if (report('groups', 'group', group.id)) return;
+    if (nested) report('nested-groups', 'group', group.id);
+    if (group.collapsed) report('collapsed-groups', 'group', group.id);
+    if (group.position) report('positions', 'group', group.id);
+    if (group.size) report('sizes', 'group', group.id);
+
+    const { style } = group;
+    if (style.fill) report('group-fill', 'group', group.id);
+    if (style.stroke) report('group-stroke', 'group', group.id);
+    if (style.strokeDasharray) report('group-dash', 'group', group.id);
+    if (style.opacity !== undefined && style.opacity !== 1) report('group-opacity', 'group', group.id);
+    if (style.labelPosition && style.labelPosition !== 'top') report('group-label-position', 'group', group.id);
+}
+
+function checkText(diagram: Diagram, report: Reporter): void {
+    const texts = [
+        ...diagram.nodes.map(node => ['node', node.id, node.label] as const),
+        ...diagram.edges.map(edge => ['edge', edge.id, edge.label] as const),
+        ...diagram.groups.map(group => ['group', group.id, group.label] as const),
+    ];
+    for (const [elementType, id, text] of texts) {
+        if (text && /[^\x20-\x7e\s]/.test(text)) report('unicode-text', elementType, id);
+    }
+}
+
+function checkSequenceBlocks(diagram: Diagram, report: Reporter): void {
+    const visit = (elements: SequenceElement[]) => {
+        for (const element of elements) {
+            if (element.kind !== 'block') continue;
+            if (element.data.type === 'group' && element.data.label) report('block-labels', 'group', element.data.id);
+            for (const section of element.data.sections) visit(section.elements);
+        }
+    };
+    const elements = diagram.metadata?.sequenceElements;
+    if (Array.isArray(elements)) visit(elements as SequenceElement[]);
+}
+
+function hasFeature(capabilities: FormatCapabilities, feature: DiagramFeature): boolean {
+    const [kind, value] = feature.split(':');
+    switch (value === undefined ? undefined : kind) {
+        case 'shape': return (capabilities.shapes as readonly string[]).includes(value);
+        case 'line': return (capabilities.lineTypes as readonly string[]).includes(value);
+        case 'arrow': return (capabilities.arrowHeads as readonly string[]).includes(value);
+        case 'type': return (capabilities.diagramTypes as readonly string[]).includes(value);
+        default: return feature === 'unicode-text'
+            ? !capabilities.asciiText || supportsCanvasText()
+            : capabilities.features.includes(feature);
+    }
+}
+
+function describeFeature(feature: DiagramFeature): string {
+    const [kind, value] = feature.split(':');
+    switch (value === undefined ? undefined : kind) {
+        case 'shape': return `the ${value} shape`;
+        case 'line': return `${value} lines`;
+        case 'arrow': return `${value} arrow heads`;
+        case 'type': return `${value} diagrams natively`;
+        default: return FEATURE_NAMES[feature] ?? feature;
+    }
+}
+
+function severityOf(feature: DiagramFeature): DiagnosticSeverity {
+    if (feature === 'edge-labels' || feature === 'block-labels') return 'error';
+    return COSMETIC_FEATURES.has(feature) ? 'info' : 'warning';
+}
@@ -0,0 +1,340 @@
+/**
+ * Gantt chart helpers
+ *
+ * Date arithmetic with non-working days, task scheduling, and conversion
+ * between the generic IR and the structured Gantt model.
+ */
+
+import type { Diagram, DiagramEdge, DiagramGroup, DiagramNode } from '../types';
+import type { GanttScheduledTask, GanttTaskTag, IRGanttDiagram, IRGanttTask } from '../types/gantt';
+
+/** Weekday names indexed by Date#getUTCDay */
+export const GANTT_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/** Date format tokens (Mermaid/dayjs style) and the fields they carry */
+const DATE_TOKENS: Array<{ token: string; pattern: string; field?: 'year' | 'shortYear' | 'month' | 'day' }> = [
+    { token: 'YYYY', pattern: '(\\d{4})', field: 'year' },
+    { token: 'YY', pattern: '(\\d{2})', field: 'shortYear' },
+    { token: 'MM', pattern: '(\\d{2})', field: 'month' },
+    { token: 'M', pattern: '(\\d{1,2})', field: 'month' },
+    { token: 'DD', pattern: '(\\d{2})', field: 'day' },
+    { token: 'D', pattern: '(\\d{1,2})', field: 'day' },
+    { token: 'HH', pattern: '\\d{2}' },
+    { token: 'H', pattern: '\\d{1,2}' },
+    { token: 'mm', pattern: '\\d{2}' },
+    { token: 'ss', pattern: '\\d{2}' },
+];
+
+/** Duration units in days */
+const DURATION_UNITS: Record<string, number> = {
+    ms: 1 / 86_400_000,
+    s: 1 / 86_400,
+    m: 1 / 1440,
+    h: 1 / 24,
+    d: 1,
+    w: 7,
+};
+
+/** Default Mermaid date format */
+export const DEFAULT_GANTT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/** PlantUML color of critical tasks, which PlantUML has no tag for */
+export const CRITICAL_TASK_COLOR = 'Tomato';
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+/** Parse a date written in the given format to YYYY-MM-DD */
+export function parseGanttDate(text: string, format: string = DEFAULT_GANTT_DATE_FORMAT): string | undefined {
+    const fields: Array<string | undefined> = [];
+    let pattern = '';
+
+    for (let i = 0; i < format.length;) {
+        const token = DATE_TOKENS.find(t => format.startsWith(t.token, i));
+        if (token) {
+            pattern += token.pattern;
+            if (token.field) fields.push(token.field);
+            i += token.token.length;
+        } else {
+            pattern += format[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            i++;
+        }
+    }
+
+    const match = text.trim().match(new RegExp(`^${pattern}$`));
+    if (!match) {
+        return undefined;
+    }
+
+    let year = 1970, month = 1, day = 1;
+    fields.forEach((field, index) => {
+        const value = parseInt(match[index + 1], 10);
+        if (field === 'year') year = value;
+        if (field === 'shortYear') year = 2000 + value;
+        if (field === 'month') month = value;
+        if (field === 'day') day = value;
+    });
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return isNaN(date.getTime()) ? undefined : toIsoDate(date);
+}
+
+/** Format a YYYY-MM-DD date in the given format */
+export function formatGanttDate(isoDate: string, format: string = DEFAULT_GANTT_DATE_FORMAT): string {
+    const date = fromIsoDate(isoDate);
+    const values: Record<string, string> = {
+        YYYY: String(date.getUTCFullYear()).padStart(4, '0'),
+        YY: String(date.getUTCFullYear() % 100).padStart(2, '0'),
+        MM: String(date.getUTCMonth() + 1).padStart(2, '0'),
+        M: String(date.getUTCMonth() + 1),
+        DD: String(date.getUTCDate()).padStart(2, '0'),
+        D: String(date.getUTCDate()),
+        HH: '00', H: '0', mm: '00', ss: '00',
+    };
+
+    let result = '';
+    for (let i = 0; i < format.length;) {
+        const token = DATE_TOKENS.find(t => format.startsWith(t.token, i));
+        if (token) {
+            result += values[token.token];
+            i += token.token.length;
+        } else {
+            result += format[i++];
+        }
+    }
+    return result;
+}
+
+/** Shift a YYYY-MM-DD date by calendar days */
+export function addCalendarDays(isoDate: string, days: number): string {
+    const date = fromIsoDate(isoDate);
+    date.setUTCDate(date.getUTCDate() + days);
+    return toIsoDate(date);
+}
+
+/** Calendar days between two YYYY-MM-DD dates */
+export function daysBetween(start: string, end: string): number {
+    return Math.round((fromIsoDate(end).getTime() - fromIsoDate(start).getTime()) / 86_400_000);
+}
+
+/** Check whether a date falls on a non-working day */
+export function isExcludedDay(isoDate: string, excludes: string[]): boolean {
+    if (excludes.length === 0) {
+        return false;
+    }
+    const weekday = fromIsoDate(isoDate).getUTCDay();
+    return excludes.some(exclude => {
+        const lower = exclude.toLowerCase();
+        if (lower === 'weekends') return weekday === 0 || weekday === 6;
+        if (GANTT_WEEKDAYS.includes(lower)) return GANTT_WEEKDAYS[weekday] === lower;
+        return exclude === isoDate;
+    });
+}
+
+/** Date after the given number of working days (end is exclusive) */
+export function addWorkingDays(start: string, days: number, excludes: string[]): string {
+    let date = start;
+    let remaining = days;
+    while (remaining > 0) {
+        if (!isExcludedDay(date, excludes)) {
+            remaining -= 1;
+        }
+        date = addCalendarDays(date, 1);
+    }
+    return date;
+}
+
+/** Working days between two dates (end exclusive) */
+export function countWorkingDays(start: string, end: string, excludes: string[]): number {
+    let count = 0;
+    for (let date = start; date < end; date = addCalendarDays(date, 1)) {
+        if (!isExcludedDay(date, excludes)) count++;
+    }
+    return count;
+}
+
+/** Parse a Mermaid-style duration (3d, 1w, 12h) to days */
+export function parseGanttDuration(text: string): number | undefined {
+    const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)$/);
+    return match ? parseFloat(match[1]) * DURATION_UNITS[match[2]] : undefined;
+}
+
+function fromIsoDate(isoDate: string): Date {
+    return new Date(`${isoDate}T00:00:00Z`);
+}
+
+function toIsoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+// =============================================================================
+// Scheduling
+// =============================================================================
+
+/**
+ * Resolve concrete start and end dates for every task
+ *
+ * Tasks start at their explicit date, after their dependencies, or at the
+ * project start. Durations count working days only.
+ */
+export function scheduleGanttTasks(gantt: IRGanttDiagram): GanttScheduledTask[] {
+    const byId = new Map(gantt.tasks.map(t => [t.id, t]));
+    const scheduled = new Map<string, GanttScheduledTask>();
+    const visiting = new Set<string>();
+    const projectStart = gantt.projectStart
+        ?? gantt.tasks.find(t => t.start)?.start
+        ?? gantt.tasks.find(t => t.end)?.end
+        ?? toIsoDate(new Date());
+
+    const schedule = (task: IRGanttTask): GanttScheduledTask => {
+        const done = scheduled.get(task.id);
+        if (done) return done;
+        visiting.add(task.id);
+
+        // Cyclic dependencies are ignored
+        const dependencyEnds = (task.after ?? [])
+            .map(id => byId.get(id))
+            .filter((dep): dep is IRGanttTask => dep !== undefined && !visiting.has(dep.id))
+            .map(dep => schedule(dep).end);
+
+        let start = task.start ?? dependencyEnds.sort().pop();
+        if (!start && task.end && task.duration !== undefined) {
+            start = addCalendarDays(task.end, -Math.ceil(task.duration));
+        }
+        start ??= projectStart;
+
+        const end = task.milestone
+            ? start
+            : task.end ?? addWorkingDays(start, task.duration ?? 1, gantt.excludes);
+
+        const result = { ...task, start, end };
+        visiting.delete(task.id);
+        scheduled.set(task.id, result);
+        return result;
+    };
+
+    return gantt.tasks.map(schedule);
+}
+
+// =============================================================================
+// Extraction / Embedding
+// =============================================================================
+
+/** Extract Gantt data from a parsed diagram */
+export function extractGanttData(diagram: Diagram): IRGanttDiagram | null {
+    if (diagram.type !== 'gantt') {
+        return null;
+    }
+
+    const sectionOf = new Map<string, string>();
+    for (const group of diagram.groups) {
+        for (const childId of group.children) {
+            sectionOf.set(childId, group.label || group.id);
+        }
+    }
+
+    const tasks: IRGanttTask[] = diagram.nodes.map(node => {
+        const { section, start, end, duration, after, milestone, tags, progress, ...rest } = node.metadata ?? {};
+        const dependencies = Array.isArray(after)
+            ? after as string[]
+            : diagram.edges.filter(e => e.target === node.id).map(e => e.source);
+
+        return omitEmpty({
+            id: node.id,
+            name: node.label,
+            section: sectionOf.get(node.id) ?? section as string | undefined,
+            start: start as string | undefined,
+            end: end as string | undefined,
+            duration: duration as number | undefined,
+            after: dependencies.length > 0 ? dependencies : undefined,
+            milestone: milestone ? true : undefined,
+            tags: (tags as GanttTaskTag[] | undefined)?.length ? tags as GanttTaskTag[] : undefined,
+            progress: progress as number | undefined,
+            metadata: Object.keys(rest).length > 0 ? rest : undefined,
+        });
+    });
+
+    const sections = diagram.groups.map(g => g.label || g.id);
+    for (const task of tasks) {
+        if (task.section && !sections.includes(task.section)) sections.push(task.section);
+    }
+
+    return omitEmpty({
+        id: diagram.id,
+        title: diagram.name ?? diagram.metadata?.title,
+        dateFormat: diagram.metadata?.dateFormat as string | undefined,
+        axisFormat: diagram.metadata?.axisFormat as string | undefined,
+        projectStart: diagram.metadata?.projectStart as string | undefined,
+        excludes: (diagram.metadata?.excludes as string[] | undefined) ?? [],
+        sections,
+        tasks,
+        metadata: diagram.metadata,
+    });
+}
+
+/** Embed a Gantt chart into the generic IR */
+export function embedGanttData(gantt: IRGanttDiagram): Diagram {
+    const nodes: DiagramNode[] = gantt.tasks.map(task => ({
+        id: task.id,
+        type: 'node',
+        label: task.name,
+        shape: task.milestone ? 'diamond' : 'rectangle',
+        style: {},
+        metadata: omitEmpty({
+            ...task.metadata,
+            section: task.section,
+            start: task.start,
+            end: task.end,
+            duration: task.duration,
+            after: task.after,
+            milestone: task.milestone,
+            tags: task.tags,
+            progress: task.progress,
+        }),
+    }));
+
+    const taskIds = new Set(gantt.tasks.map(t => t.id));
+    const edges: DiagramEdge[] = gantt.tasks.flatMap(task =>
+        (task.after ?? []).filter(id => taskIds.has(id)).map(id => ({
+            id: `${id}->${task.id}`,
+            type: 'edge' as const,
+            source: id,
+            target: task.id,
+            arrow: { sourceType: 'none' as const, targetType: 'arrow' as const, lineType: 'solid' as const },
+            style: {},
+            metadata: { dependency: true },
+        }))
+    );
+
+    const groups: DiagramGroup[] = gantt.sections.map(section => ({
+        id: section,
+        type: 'group',
+        label: section,
+        children: gantt.tasks.filter(t => t.section === section).map(t => t.id),
+        style: {},
+    }));
+
+    return {
+        id: gantt.id,
+        name: gantt.title,
+        type: 'gantt',
+        nodes,
+        edges,
+        groups,
+        metadata: omitEmpty({
+            ...gantt.metadata,
+            source: (gantt.metadata?.source as string | undefined) ?? 'gantt',
+            title: gantt.title,
+            dateFormat: gantt.dateFormat,
+            axisFormat: gantt.axisFormat,
+            projectStart: gantt.projectStart,
+            excludes: gantt.excludes.length > 0 ? gantt.excludes : undefined,
+        }),
+    };
+}
+
+/** Drop undefined properties */
+function omitEmpty<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
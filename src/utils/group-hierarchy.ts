@@ -0,0 +1,84 @@
+/**
+ * Group hierarchy utilities
+ *
+ * Resolve the tree formed by groups and their members
+ */
+
+import type { DiagramGroup } from '../types';
+
+/**
+ * Build child -> parent group map
+ *
+ * Elements listed in several groups are assigned to the innermost one,
+ * so nested groups that repeat their descendants still form a proper tree.
+ */
+export function buildParentMap(groups: DiagramGroup[]): Map<string, string> {
+    const candidates = new Map<string, string[]>();
+    for (const group of groups) {
+        for (const childId of group.children) {
+            if (childId === group.id) continue;
+            const list = candidates.get(childId) ?? [];
+            list.push(group.id);
+            candidates.set(childId, list);
+        }
+    }
+
+    const depths = new Map<string, number>();
+    const depthOf = (groupId: string, visiting: Set<string>): number => {
+        const cached = depths.get(groupId);
+        if (cached !== undefined) return cached;
+        if (visiting.has(groupId)) return 0;
+        visiting.add(groupId);
+        const parents = candidates.get(groupId) ?? [];
+        const depth = parents.length > 0
+            ? 1 + Math.max(...parents.map(p => depthOf(p, visiting)))
+            : 0;
+        visiting.delete(groupId);
+        depths.set(groupId, depth);
+        return depth;
+    };
+
+    const parents = new Map<string, string>();
+    for (const [childId, list] of candidates) {
+        let best = list[0];
+        for (const groupId of list) {
+            if (depthOf(groupId, new Set()) > depthOf(best, new Set())) {
+                best = groupId;
+            }
+        }
+        parents.set(childId, best);
+    }
+
+    // Break containment cycles (A inside B inside A)
+    for (const group of groups) {
+        const seen = new Set<string>();
+        let current = parents.get(group.id);
+        while (current) {
+            if (current === group.id) {
+                parents.delete(group.id);
+                break;
+            }
+            if (seen.has(current)) break;
+            seen.add(current);
+            current = parents.get(current);
+        }
+    }
+
+    return parents;
+}
+
+/** Nesting depth of an element in the group tree (0 = top level) */
+export function getGroupDepth(id: string, parents: Map<string, string>): number {
+    let depth = 0;
+    let current = parents.get(id);
+    while (current && depth <= parents.size) {
+        depth++;
+        current = parents.get(current);
+    }
+    return depth;
+}
+
+/** Order groups so every group comes after the group containing it */
+export function sortGroupsOuterFirst(groups: DiagramGroup[], parents: Map<string, string>): DiagramGroup[] {
+    return [...groups].sort((a, b) => getGroupDepth(a.id, parents) - getGroupDepth(b.id, parents));
+}
@@ -0,0 +1,623 @@
+/**
+ * Image encoders
+ *
+ * Encodes RGBA bitmaps as PNG, baseline JPEG or lossless WebP in pure
+ * TypeScript, so images can be produced in Node.js and Web Workers.
+ */
+
+import pako from 'pako';
+import { GeneratorError } from '../errors';
+import type { Rgba, RgbaImage } from './raster';
+
+/** Image formats the encoders write */
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/** MIME types by image format */
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+/** Encode a bitmap in the given format; quality (0-1) applies to JPEG */
+export function encodeImage(image: RgbaImage, format: ImageFormat, quality = 1): Uint8Array {
+    switch (format) {
+        case 'jpeg':
+            return encodeJpeg(image, quality);
+        case 'webp':
+            return encodeWebp(image);
+        default:
+            return encodePng(image);
+    }
+}
+
+/** Base64 data URL of encoded image bytes */
+export function toDataUrl(bytes: Uint8Array, mimeType: string): string {
+    let binary = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/** Growable byte buffer */
+class ByteWriter {
+    private buffer = new Uint8Array(1024);
+    length = 0;
+
+    private reserve(count: number): void {
+        if (this.length + count <= this.buffer.length) return;
+        let size = this.buffer.length * 2;
+        while (size < this.length + count) size *= 2;
+        const grown = new Uint8Array(size);
+        grown.set(this.buffer.subarray(0, this.length));
+        this.buffer = grown;
+    }
+
+    byte(value: number): void {
+        this.reserve(1);
+        this.buffer[this.length++] = value;
+    }
+
+    bytes(values: ArrayLike<number>): void {
+        this.reserve(values.length);
+        this.buffer.set(values, this.length);
+        this.length += values.length;
+    }
+
+    uint16(value: number): void {
+        this.byte((value >>> 8) & 0xff);
+        this.byte(value & 0xff);
+    }
+
+    uint32(value: number): void {
+        this.uint16(value >>> 16);
+        this.uint16(value & 0xffff);
+    }
+
+    uint32LE(value: number): void {
+        for (let shift = 0; shift < 32; shift += 8) this.byte((value >>> shift) & 0xff);
+    }
+
+    ascii(text: string): void {
+        for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+    }
+
+    toBytes(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+// =============================================================================
+// PNG
+// =============================================================================
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Encode a bitmap as a truecolour-with-alpha PNG */
+export function encodePng(image: RgbaImage): Uint8Array {
+    const { width, height, data } = image;
+    const stride = width * 4;
+    const filtered = new Uint8Array((stride + 1) * height);
+    const candidate = new Uint8Array(stride);
+
+    for (let y = 0; y < height; y++) {
+        const row = y * stride;
+        const out = y * (stride + 1);
+        let best = Infinity;
+        // Pick the filter with the smallest sum of absolute differences
+        for (let filter = 0; filter < 5; filter++) {
+            let score = 0;
+            for (let x = 0; x < stride; x++) {
+                const value = data[row + x];
+                const left = x >= 4 ? data[row + x - 4] : 0;
+                const up = y > 0 ? data[row + x - stride] : 0;
+                const upLeft = x >= 4 && y > 0 ? data[row + x - stride - 4] : 0;
+                let predictor = 0;
+                if (filter === 1) predictor = left;
+                else if (filter === 2) predictor = up;
+                else if (filter === 3) predictor = (left + up) >> 1;
+                else if (filter === 4) predictor = paeth(left, up, upLeft);
+                const residual = (value - predictor) & 0xff;
+                candidate[x] = residual;
+                score += residual < 128 ? residual : 256 - residual;
+            }
+            if (score < best) {
+                best = score;
+                filtered[out] = filter;
+                filtered.set(candidate, out + 1);
+            }
+        }
+    }
+
+    const writer = new ByteWriter();
+    writer.bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const header = new ByteWriter();
+    header.uint32(width);
+    header.uint32(height);
+    // 8 bits per channel, RGBA, deflate, adaptive filtering, no interlace
+    header.bytes([8, 6, 0, 0, 0]);
+    writePngChunk(writer, 'IHDR', header.toBytes());
+    writePngChunk(writer, 'IDAT', pako.deflate(filtered));
+    writePngChunk(writer, 'IEND', new Uint8Array(0));
+    return writer.toBytes();
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+function writePngChunk(writer: ByteWriter, type: string, payload: Uint8Array): void {
+    const chunk = new Uint8Array(4 + payload.length);
+    for (let i = 0; i < 4; i++) chunk[i] = type.charCodeAt(i);
+    chunk.set(payload, 4);
+    writer.uint32(payload.length);
+    writer.bytes(chunk);
+    writer.uint32(crc32(chunk));
+}
+
+// =============================================================================
+// JPEG
+// =============================================================================
+
+/** Position in an 8x8 block of each coefficient in zig-zag order */
+const ZIGZAG = [
+    0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+    12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+    35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+    58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** Example quantization tables of the JPEG standard (Annex K), row by row */
+const LUMINANCE_QUANTIZATION = [
+    16, 11, 10, 16, 24, 40, 51, 61,
+    12, 12, 14, 19, 26, 58, 60, 55,
+    14, 13, 16, 24, 40, 57, 69, 56,
+    14, 17, 22, 29, 51, 87, 80, 62,
+    18, 22, 37, 56, 68, 109, 103, 77,
+    24, 35, 55, 64, 81, 104, 113, 92,
+    49, 64, 78, 87, 103, 121, 120, 101,
+    72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMINANCE_QUANTIZATION = [
+    17, 18, 24, 47, 99, 99, 99, 99,
+    18, 21, 26, 66, 99, 99, 99, 99,
+    24, 26, 56, 99, 99, 99, 99, 99,
+    47, 66, 99, 99, 99, 99, 99, 99,
+    ...new Array<number>(32).fill(99),
+];
+
+interface HuffmanSpec {
+    /** Number of codes of each length from 1 to 16 */
+    counts: number[];
+    symbols: number[];
+}
+
+/** AC symbols (run << 4 | size) after the listed ones, in increasing order */
+function acSymbols(first: number[]): number[] {
+    const rest: number[] = [];
+    for (let run = 0; run < 16; run++) {
+        for (let size = 1; size <= 10; size++) {
+            const symbol = (run << 4) | size;
+            if (!first.includes(symbol)) rest.push(symbol);
+        }
+    }
+    return [...first, ...rest];
+}
+
+/** Example Huffman tables of the JPEG standard (Annex K) */
+const DC_LUMINANCE: HuffmanSpec = {
+    counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMINANCE: HuffmanSpec = {
+    counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+    symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMINANCE: HuffmanSpec = {
+    counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 125],
+    symbols: acSymbols([
+        0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+        0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+        0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a,
+    ]),
+};
+
+const AC_CHROMINANCE: HuffmanSpec = {
+    counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 119],
+    symbols: acSymbols([
+        0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+        0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+        0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1,
+    ]),
+};
+
+interface Code {
+    code: number;
+    length: number;
+}
+
+function jpegCodes(spec: HuffmanSpec): Code[] {
+    const codes: Code[] = [];
+    let code = 0;
+    let index = 0;
+    spec.counts.forEach((count, i) => {
+        for (let n = 0; n < count; n++) codes[spec.symbols[index++]] = { code: code++, length: i + 1 };
+        code <<= 1;
+    });
+    return codes;
+}
+
+/** Quantization table for a quality from 0 to 1, scaled like libjpeg */
+function scaleQuantization(table: number[], quality: number): number[] {
+    const percent = Math.max(1, Math.min(100, Math.round(quality * 100)));
+    const factor = percent < 50 ? 5000 / percent : 200 - percent * 2;
+    return table.map(value => Math.max(1, Math.min(255, Math.floor((value * factor + 50) / 100))));
+}
+
+/** DCT basis: row u holds C(u)/2 * cos((2x + 1)u * pi / 16) */
+const DCT_BASIS = Array.from({ length: 8 }, (_, u) =>
+    Array.from({ length: 8 }, (_, x) => (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16))
+);
+
+/** Forward 8x8 DCT in place */
+function forwardDct(block: Float64Array, temp: Float64Array): void {
+    for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+            let sum = 0;
+            for (let x = 0; x < 8; x++) sum += DCT_BASIS[u][x] * block[y * 8 + x];
+            temp[y * 8 + u] = sum;
+        }
+    }
+    for (let u = 0; u < 8; u++) {
+        for (let v = 0; v < 8; v++) {
+            let sum = 0;
+            for (let y = 0; y < 8; y++) sum += DCT_BASIS[v][y] * temp[y * 8 + u];
+            block[v * 8 + u] = sum;
+        }
+    }
+}
+
+/** Bit writer for entropy-coded JPEG data, most significant bit first with 0xFF stuffing */
+class JpegBitWriter {
+    private accumulator = 0;
+    private count = 0;
+
+    constructor(private readonly writer: ByteWriter) {}
+
+    write(code: number, length: number): void {
+        for (let i = length - 1; i >= 0; i--) {
+            this.accumulator = (this.accumulator << 1) | ((code >>> i) & 1);
+            if (++this.count === 8) this.emit();
+        }
+    }
+
+    /** Pad the last byte with one bits */
+    flush(): void {
+        while (this.count !== 0) this.write(1, 1);
+    }
+
+    private emit(): void {
+        this.writer.byte(this.accumulator);
+        if (this.accumulator === 0xff) this.writer.byte(0);
+        this.accumulator = 0;
+        this.count = 0;
+    }
+}
+
+/**
+ * Encode a bitmap as a baseline JPEG with 4:4:4 sampling
+ *
+ * JPEG has no alpha channel, so transparent pixels are composited onto
+ * the background (white by default).
+ */
+export function encodeJpeg(image: RgbaImage, quality = 0.92, background: Pick<Rgba, 'r' | 'g' | 'b'> = { r: 255, g: 255, b: 255 }): Uint8Array {
+    const { width, height, data } = image;
+    if (width > 0xffff || height > 0xffff) {
+        throw new GeneratorError(`JPEG images are limited to 65535 pixels per side, got ${width}x${height}`, 'png');
+    }
+    const tables = [scaleQuantization(LUMINANCE_QUANTIZATION, quality), scaleQuantization(CHROMINANCE_QUANTIZATION, quality)];
+
+    const writer = new ByteWriter();
+    writer.uint16(0xffd8);
+    // JFIF header with 1:1 pixel aspect ratio
+    writer.uint16(0xffe0);
+    writer.uint16(16);
+    writer.ascii('JFIF\0');
+    writer.bytes([1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+    writer.uint16(0xffdb);
+    writer.uint16(2 + 65 * 2);
+    tables.forEach((table, id) => {
+        writer.byte(id);
+        writer.bytes(ZIGZAG.map(index => table[index]));
+    });
+
+    writer.uint16(0xffc0);
+    writer.uint16(17);
+    writer.byte(8);
+    writer.uint16(height);
+    writer.uint16(width);
+    writer.bytes([3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]);
+
+    const specs = [DC_LUMINANCE, AC_LUMINANCE, DC_CHROMINANCE, AC_CHROMINANCE];
+    writer.uint16(0xffc4);
+    writer.uint16(2 + specs.reduce((sum, spec) => sum + 17 + spec.symbols.length, 0));
+    for (const [i, spec] of specs.entries()) {
+        // Class (DC 0, AC 1) in the high nibble, table id in the low one
+        writer.byte(((i % 2) << 4) | (i >> 1));
+        writer.bytes(spec.counts);
+        writer.bytes(spec.symbols);
+    }
+
+    writer.uint16(0xffda);
+    writer.uint16(12);
+    writer.bytes([3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+    const [dcLuma, acLuma, dcChroma, acChroma] = specs.map(jpegCodes);
+    const bits = new JpegBitWriter(writer);
+    const components = [
+        { dc: dcLuma, ac: acLuma, quantization: tables[0], previous: 0 },
+        { dc: dcChroma, ac: acChroma, quantization: tables[1], previous: 0 },
+        { dc: dcChroma, ac: acChroma, quantization: tables[1], previous: 0 },
+    ];
+    const blocks = [new Float64Array(64), new Float64Array(64), new Float64Array(64)];
+    const temp = new Float64Array(64);
+
+    for (let by = 0; by < height; by += 8) {
+        for (let bx = 0; bx < width; bx += 8) {
+            for (let i = 0; i < 64; i++) {
+                // Blocks past the edge repeat the last row and column
+                const x = Math.min(width - 1, bx + (i & 7));
+                const y = Math.min(height - 1, by + (i >> 3));
+                const offset = (y * width + x) * 4;
+                const alpha = data[offset + 3] / 255;
+                const under = 1 - alpha;
+                const r = data[offset] * alpha + background.r * under;
+                const g = data[offset + 1] * alpha + background.g * under;
+                const b = data[offset + 2] * alpha + background.b * under;
+                blocks[0][i] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+                blocks[1][i] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+                blocks[2][i] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+            }
+            components.forEach((component, c) => {
+                forwardDct(blocks[c], temp);
+                component.previous = encodeJpegBlock(bits, blocks[c], component.quantization, component.dc, component.ac, component.previous);
+            });
+        }
+    }
+    bits.flush();
+    writer.uint16(0xffd9);
+    return writer.toBytes();
+}
+
+/** Bit count and bit pattern of a coefficient */
+function magnitude(value: number): [number, number] {
+    const size = value === 0 ? 0 : Math.floor(Math.log2(Math.abs(value))) + 1;
+    return [size, value < 0 ? value + (1 << size) - 1 : value];
+}
+
+/** Quantize and entropy-code one block; returns its DC value */
+function encodeJpegBlock(bits: JpegBitWriter, block: Float64Array, quantization: number[], dc: Code[], ac: Code[], previous: number): number {
+    // AC coefficients are limited to ten bits in baseline JPEG
+    const coefficients = ZIGZAG.map((index, k) => {
+        const value = Math.round(block[index] / quantization[index]);
+        return k === 0 ? value : Math.max(-1023, Math.min(1023, value));
+    });
+
+    const [dcSize, dcBits] = magnitude(coefficients[0] - previous);
+    bits.write(dc[dcSize].code, dc[dcSize].length);
+    bits.write(dcBits, dcSize);
+
+    let run = 0;
+    for (let k = 1; k < 64; k++) {
+        const value = coefficients[k];
+        if (value === 0) {
+            run++;
+            continue;
+        }
+        while (run > 15) {
+            bits.write(ac[0xf0].code, ac[0xf0].length);
+            run -= 16;
+        }
+        const [size, pattern] = magnitude(value);
+        const symbol = (run << 4) | size;
+        bits.write(ac[symbol].code, ac[symbol].length);
+        bits.write(pattern, size);
+        run = 0;
+    }
+    if (run > 0) bits.write(ac[0x00].code, ac[0x00].length);
+    return coefficients[0];
+}
+
+// =============================================================================
+// WebP
+// =============================================================================
+
+/** Bit writer for VP8L, least significant bit first */
+class LsbBitWriter {
+    private accumulator = 0;
+    private count = 0;
+
+    constructor(private readonly writer: ByteWriter) {}
+
+    write(value: number, length: number): void {
+        for (let i = 0; i < length; i++) {
+            this.accumulator |= ((value >>> i) & 1) << this.count;
+            if (++this.count === 8) {
+                this.writer.byte(this.accumulator);
+                this.accumulator = 0;
+                this.count = 0;
+            }
+        }
+    }
+
+    /** Write a prefix code, whose bits are read most significant first */
+    code(code: Code): void {
+        for (let i = code.length - 1; i >= 0; i--) this.write((code.code >>> i) & 1, 1);
+    }
+
+    flush(): void {
+        if (this.count > 0) this.write(0, 8 - this.count);
+    }
+}
+
+/** Order in which code length code lengths are written */
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/** Huffman code lengths no longer than `limit`, flattening the histogram until they fit */
+function huffmanLengths(histogram: number[], limit: number): number[] {
+    let counts = histogram.slice();
+    for (;;) {
+        const lengths = new Array<number>(counts.length).fill(0);
+        const nodes: { weight: number; symbols: number[] }[] = [];
+        counts.forEach((weight, symbol) => {
+            if (weight > 0) nodes.push({ weight, symbols: [symbol] });
+        });
+        if (nodes.length === 1) lengths[nodes[0].symbols[0]] = 1;
+        while (nodes.length > 1) {
+            nodes.sort((a, b) => a.weight - b.weight);
+            const [a, b] = nodes.splice(0, 2);
+            for (const symbol of [...a.symbols, ...b.symbols]) lengths[symbol]++;
+            nodes.push({ weight: a.weight + b.weight, symbols: [...a.symbols, ...b.symbols] });
+        }
+        if (Math.max(...lengths) <= limit) return lengths;
+        counts = counts.map(count => (count > 0 ? Math.max(1, count >> 1) : 0));
+    }
+}
+
+/** Canonical codes for code lengths; a single used symbol takes no bits */
+function canonicalCodes(lengths: number[]): Code[] {
+    const used = lengths.filter(length => length > 0).length;
+    const codes: Code[] = lengths.map(() => ({ code: 0, length: 0 }));
+    if (used <= 1) return codes;
+    let code = 0;
+    for (let length = 1; length <= 15; length++) {
+        lengths.forEach((symbolLength, symbol) => {
+            if (symbolLength === length) codes[symbol] = { code: code++, length };
+        });
+        code <<= 1;
+    }
+    return codes;
+}
+
+/** Write a prefix code for a histogram and return its codes */
+function writePrefixCode(bits: LsbBitWriter, histogram: number[]): Code[] {
+    const used = histogram.flatMap((count, symbol) => (count > 0 ? [symbol] : []));
+    if (used.length <= 1) {
+        // Simple code with one 8-bit symbol, which takes no bits to write
+        const symbol = used[0] ?? 0;
+        bits.write(1, 1);
+        bits.write(0, 1);
+        bits.write(1, 1);
+        bits.write(symbol, 8);
+        return histogram.map(() => ({ code: 0, length: 0 }));
+    }
+
+    const lengths = huffmanLengths(histogram, 15);
+    // Code lengths as symbols, with runs of zeros folded into 17 and 18
+    const tokens: { symbol: number; extra?: number; extraBits?: number }[] = [];
+    for (let i = 0; i < lengths.length;) {
+        let run = 1;
+        while (lengths[i] === 0 && i + run < lengths.length && lengths[i + run] === 0 && run < 138) run++;
+        if (lengths[i] === 0 && run >= 11) {
+            tokens.push({ symbol: 18, extra: run - 11, extraBits: 7 });
+        } else if (lengths[i] === 0 && run >= 3) {
+            tokens.push({ symbol: 17, extra: run - 3, extraBits: 3 });
+        } else {
+            run = 1;
+            tokens.push({ symbol: lengths[i] });
+        }
+        i += run;
+    }
+
+    const lengthHistogram = new Array<number>(19).fill(0);
+    tokens.forEach(token => lengthHistogram[token.symbol]++);
+    const lengthLengths = huffmanLengths(lengthHistogram, 7);
+    const lengthCodes = canonicalCodes(lengthLengths);
+    let written = CODE_LENGTH_ORDER.length;
+    while (written > 4 && lengthLengths[CODE_LENGTH_ORDER[written - 1]] === 0) written--;
+
+    bits.write(0, 1);
+    bits.write(written - 4, 4);
+    for (let i = 0; i < written; i++) bits.write(lengthLengths[CODE_LENGTH_ORDER[i]], 3);
+    // Code lengths for the whole alphabet follow
+    bits.write(0, 1);
+    for (const token of tokens) {
+        bits.code(lengthCodes[token.symbol]);
+        if (token.extraBits) bits.write(token.extra!, token.extraBits);
+    }
+    return canonicalCodes(lengths);
+}
+
+/** Encode a bitmap as a lossless WebP (VP8L) with literal pixels */
+export function encodeWebp(image: RgbaImage): Uint8Array {
+    const { width, height, data } = image;
+    if (width > 16384 || height > 16384) {
+        throw new GeneratorError(`WebP images are limited to 16384 pixels per side, got ${width}x${height}`, 'png');
+    }
+
+    // Green (with the unused length prefixes), red, blue, alpha and distance alphabets
+    const histograms = [280, 256, 256, 256, 40].map(size => new Array<number>(size).fill(0));
+    let hasAlpha = false;
+    for (let offset = 0; offset < data.length; offset += 4) {
+        histograms[0][data[offset + 1]]++;
+        histograms[1][data[offset]]++;
+        histograms[2][data[offset + 2]]++;
+        histograms[3][data[offset + 3]]++;
+        if (data[offset + 3] !== 255) hasAlpha = true;
+    }
+
+    const payload = new ByteWriter();
+    const bits = new LsbBitWriter(payload);
+    bits.write(0x2f, 8);
+    bits.write(width - 1, 14);
+    bits.write(height - 1, 14);
+    bits.write(hasAlpha ? 1 : 0, 1);
+    bits.write(0, 3);
+    // No transforms, no colour cache, a single prefix code group
+    bits.write(0, 1);
+    bits.write(0, 1);
+    bits.write(0, 1);
+    const [green, red, blue, alpha] = histograms.map(histogram => writePrefixCode(bits, histogram));
+    for (let offset = 0; offset < data.length; offset += 4) {
+        bits.code(green[data[offset + 1]]);
+        bits.code(red[data[offset]]);
+        bits.code(blue[data[offset + 2]]);
+        bits.code(alpha[data[offset + 3]]);
+    }
+    bits.flush();
+
+    const chunk = payload.toBytes();
+    const padding = chunk.length % 2;
+    const writer = new ByteWriter();
+    writer.ascii('RIFF');
+    writer.uint32LE(4 + 8 + chunk.length + padding);
+    writer.ascii('WEBPVP8L');
+    writer.uint32LE(chunk.length);
+    writer.bytes(chunk);
+    if (padding) writer.byte(0);
+    return writer.toBytes();
+}
@@ -4,6 +4,22 @@ export * from './style-mapper';
 export * from './edge-routing';
 export * from './text-encoder';
 export * from './detect-format';
+export * from './group-hierarchy';
+export * from './fidelity';
+export * from './class-diagram';
+export * from './gantt';
+export * from './mindmap';
+export * from './er';
+export * from './state';
+export * from './bpmn';
+export * from './c4';
+export * from './c4-views';
+export * from './xml';
+export * from './raster';
+export * from './stroke-font';
+export * from './canvas-raster';
+export * from './svg-raster';
+export * from './image-encoders';
 export { logger } from './logger';
 
 // Validation - old simple validator
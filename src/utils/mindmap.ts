@@ -0,0 +1,182 @@
+/**
+ * Mindmap helpers
+ *
+ * Conversion between the generic IR (nodes joined by parent → child
+ * edges) and the tree-shaped mindmap model.
+ */
+
+import type { Diagram, DiagramEdge, DiagramNode, NodeShape } from '../types';
+import type { IRMindmapDiagram, IRMindmapNode, MindmapNodeShape, MindmapSide } from '../types/mindmap';
+
+/** Mindmap shapes to IR node shapes */
+const SHAPE_TO_NODE: Record<MindmapNodeShape, NodeShape> = {
+    default: 'rounded-rectangle',
+    square: 'rectangle',
+    rounded: 'rounded-rectangle',
+    circle: 'circle',
+    bang: 'custom',
+    cloud: 'cloud',
+    hexagon: 'hexagon',
+};
+
+/** IR node shapes to mindmap shapes, for diagrams without mindmap metadata */
+const NODE_TO_SHAPE: Partial<Record<NodeShape, MindmapNodeShape>> = {
+    'rectangle': 'square',
+    'circle': 'circle',
+    'cloud': 'cloud',
+    'hexagon': 'hexagon',
+};
+
+/** Extract mindmap tree from a parsed diagram */
+export function extractMindmapData(diagram: Diagram): IRMindmapDiagram | null {
+    if (diagram.type !== 'mindmap' || diagram.nodes.length === 0) {
+        return null;
+    }
+
+    const nodesById = new Map(diagram.nodes.map(n => [n.id, n]));
+    const children = new Map<string, string[]>();
+    const hasParent = new Set<string>();
+    for (const edge of diagram.edges) {
+        if (!nodesById.has(edge.source) || !nodesById.has(edge.target)) continue;
+        children.set(edge.source, [...(children.get(edge.source) ?? []), edge.target]);
+        hasParent.add(edge.target);
+    }
+
+    const rootNode = diagram.nodes.find(n => n.metadata?.isRoot)
+        ?? diagram.nodes.find(n => !hasParent.has(n.id))
+        ?? diagram.nodes[0];
+
+    const visited = new Set<string>();
+    const build = (node: DiagramNode): IRMindmapNode => {
+        visited.add(node.id);
+        const kids = (children.get(node.id) ?? [])
+            .filter(id => !visited.has(id))
+            .map(id => build(nodesById.get(id)!));
+        return nodeToMindmap(node, kids);
+    };
+
+    const root = build(rootNode);
+
+    // Disconnected nodes hang off the root
+    for (const node of diagram.nodes) {
+        if (!visited.has(node.id) && !hasParent.has(node.id)) {
+            root.children.push(build(node));
+        }
+    }
+
+    return omitUndefined({
+        id: diagram.id,
+        title: diagram.name ?? diagram.metadata?.title,
+        variant: diagram.metadata?.variant as IRMindmapDiagram['variant'],
+        root,
+        metadata: diagram.metadata,
+    });
+}
+
+/** Embed a mindmap tree into the generic IR */
+export function embedMindmapData(mindmap: IRMindmapDiagram): Diagram {
+    const nodes: DiagramNode[] = [];
+    const edges: DiagramEdge[] = [];
+
+    const visit = (node: IRMindmapNode, depth: number, parentId?: string) => {
+        nodes.push({
+            id: node.id,
+            type: 'node',
+            label: node.label,
+            shape: SHAPE_TO_NODE[node.shape ?? 'default'],
+            style: node.color ? { fill: node.color } : {},
+            metadata: omitUndefined({
+                ...node.metadata,
+                mindmapShape: node.shape,
+                icon: node.icon,
+                cssClass: node.cssClass,
+                color: node.color,
+                boxless: node.boxless,
+                side: node.side,
+                depth,
+                isRoot: depth === 0 || undefined,
+            }),
+        });
+
+        if (parentId) {
+            edges.push({
+                id: `${parentId}->${node.id}`,
+                type: 'edge',
+                source: parentId,
+                target: node.id,
+                arrow: { sourceType: 'none', targetType: 'none', lineType: 'solid' },
+                style: {},
+            });
+        }
+
+        for (const child of node.children) {
+            visit(child, depth + 1, node.id);
+        }
+    };
+    visit(mindmap.root, 0);
+
+    return {
+        id: mindmap.id,
+        name: mindmap.title,
+        type: 'mindmap',
+        nodes,
+        edges,
+        groups: [],
+        metadata: omitUndefined({
+            ...mindmap.metadata,
+            source: (mindmap.metadata?.source as string | undefined) ?? 'mindmap',
+            title: mindmap.title,
+            variant: mindmap.variant,
+        }),
+    };
+}
+
+/** Visit every node of a mindmap tree depth-first */
+export function walkMindmap(
+    node: IRMindmapNode,
+    visitor: (node: IRMindmapNode, depth: number, parent?: IRMindmapNode) => void,
+    depth = 0,
+    parent?: IRMindmapNode
+): void {
+    visitor(node, depth, parent);
+    for (const child of node.children) {
+        walkMindmap(child, visitor, depth + 1, node);
+    }
+}
+
+/** Derive a unique node ID from an explicit ID or label */
+export function createMindmapNodeId(text: string, usedIds: Set<string>): string {
+    const id = text.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'node';
+    let candidate = id;
+    for (let n = 2; usedIds.has(candidate); n++) {
+        candidate = `${id}_${n}`;
+    }
+    usedIds.add(candidate);
+    return candidate;
+}
+
+/** Convert an IR node to a mindmap node */
+function nodeToMindmap(node: DiagramNode, children: IRMindmapNode[]): IRMindmapNode {
+    const {
+        mindmapShape, icon, cssClass, color, boxless, side,
+        depth: _depth, isRoot: _isRoot, ...rest
+    } = node.metadata ?? {};
+
+    return omitUndefined({
+        id: node.id,
+        label: node.label,
+        shape: (mindmapShape as MindmapNodeShape | undefined) ?? NODE_TO_SHAPE[node.shape],
+        icon: icon as string | undefined,
+        cssClass: cssClass as string | undefined,
+        color: (color as string | undefined) ?? node.style.fill,
+        boxless: boxless as boolean | undefined,
+        side: side as MindmapSide | undefined,
+        children,
+        metadata: Object.keys(rest).length > 0 ? rest : undefined,
+    });
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -0,0 +1,340 @@
+/**
+ * Software rasteriser
+ *
+ * Fills polygons into an RGBA bitmap with the non-zero winding rule and
+ * anti-aliased edges, and turns strokes and curves into polygons. Pure
+ * TypeScript, so bitmaps can be rendered without Canvas or a DOM.
+ */
+
+import type { Position } from '../types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Colour with 0-255 channels and 0-1 alpha */
+export interface Rgba {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+/** Bitmap with straight (not premultiplied) RGBA bytes, row by row */
+export interface RgbaImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+/** Drawing surface of a bitmap */
+export interface Raster {
+    readonly width: number;
+    readonly height: number;
+    /** Paint every pixel with a colour */
+    clear(color: Rgba): void;
+    /** Fill closed polygons with the non-zero winding rule */
+    fill(polygons: Position[][], color: Rgba): void;
+    /** Draw text with system fonts; without it text is drawn in the built-in stroke font */
+    fillText?(run: TextRun): void;
+    toImage(): RgbaImage;
+}
+
+/** Text to draw at a point of its user space */
+export interface TextRun {
+    text: string;
+    /** Affine matrix [a, b, c, d, e, f] from user space to pixels */
+    matrix: [number, number, number, number, number, number];
+    x: number;
+    y: number;
+    /** CSS font shorthand */
+    font: string;
+    fontSize: number;
+    anchor: 'start' | 'middle' | 'end';
+    /** SVG dominant-baseline */
+    baseline: string;
+    underline: boolean;
+    fill: Rgba | null;
+    /** Halo drawn behind the glyphs, with its width in user units */
+    stroke: { color: Rgba; width: number } | null;
+}
+
+/** Stroke geometry settings, in pixels */
+export interface StrokeStyle {
+    width: number;
+    /** Alternating dash and gap lengths */
+    dash?: number[];
+    cap?: 'butt' | 'round' | 'square';
+}
+
+// =============================================================================
+// Raster
+// =============================================================================
+
+/** Vertical samples per pixel row when anti-aliasing */
+const SUBSAMPLES = 4;
+
+interface Edge {
+    x0: number;
+    y0: number;
+    y1: number;
+    slope: number;
+    dir: number;
+}
+
+/**
+ * Create a transparent raster
+ *
+ * Coverage is exact horizontally and sampled on four sub-scanlines
+ * vertically; without anti-aliasing a pixel is painted when its center
+ * is inside.
+ */
+export function createRaster(width: number, height: number, antiAlias = true): Raster {
+    const data = new Uint8ClampedArray(width * height * 4);
+    const coverage = new Float32Array(width + 1);
+    const samples = antiAlias ? SUBSAMPLES : 1;
+
+    const blend = (offset: number, color: Rgba, alpha: number) => {
+        const destAlpha = data[offset + 3] / 255;
+        const outAlpha = alpha + destAlpha * (1 - alpha);
+        if (outAlpha <= 0) return;
+        const keep = destAlpha * (1 - alpha);
+        data[offset] = (color.r * alpha + data[offset] * keep) / outAlpha;
+        data[offset + 1] = (color.g * alpha + data[offset + 1] * keep) / outAlpha;
+        data[offset + 2] = (color.b * alpha + data[offset + 2] * keep) / outAlpha;
+        data[offset + 3] = outAlpha * 255;
+    };
+
+    return {
+        width,
+        height,
+
+        clear(color) {
+            for (let offset = 0; offset < data.length; offset += 4) {
+                data[offset] = color.r;
+                data[offset + 1] = color.g;
+                data[offset + 2] = color.b;
+                data[offset + 3] = color.a * 255;
+            }
+        },
+
+        fill(polygons, color) {
+            if (color.a <= 0) return;
+
+            const edges: Edge[] = [];
+            for (const polygon of polygons) {
+                for (let i = 0; i < polygon.length; i++) {
+                    const p = polygon[i];
+                    const q = polygon[(i + 1) % polygon.length];
+                    if (p.y === q.y || !Number.isFinite(p.x + p.y + q.x + q.y)) continue;
+                    const [top, bottom, dir] = p.y < q.y ? [p, q, 1] : [q, p, -1];
+                    edges.push({ x0: top.x, y0: top.y, y1: bottom.y, slope: (bottom.x - top.x) / (bottom.y - top.y), dir });
+                }
+            }
+            if (edges.length === 0) return;
+            edges.sort((a, b) => a.y0 - b.y0);
+
+            const bottom = edges.reduce((max, edge) => Math.max(max, edge.y1), -Infinity);
+            const firstRow = Math.max(0, Math.floor(edges[0].y0));
+            const lastRow = Math.min(height - 1, Math.ceil(bottom));
+            let active: Edge[] = [];
+            let next = 0;
+            const crossings: { x: number; dir: number }[] = [];
+
+            for (let row = firstRow; row <= lastRow; row++) {
+                let spanStart = width;
+                let spanEnd = -1;
+                const addSpan = (from: number, to: number, weight: number) => {
+                    const x0 = Math.max(0, from);
+                    const x1 = Math.min(width, to);
+                    if (x1 <= x0) return;
+                    if (!antiAlias) {
+                        const start = Math.ceil(x0 - 0.5);
+                        const end = Math.ceil(x1 - 0.5);
+                        for (let x = start; x < end; x++) coverage[x] += weight;
+                        if (end > start) {
+                            spanStart = Math.min(spanStart, start);
+                            spanEnd = Math.max(spanEnd, end - 1);
+                        }
+                        return;
+                    }
+                    const i0 = Math.floor(x0);
+                    const i1 = Math.floor(x1);
+                    if (i0 === i1) {
+                        coverage[i0] += (x1 - x0) * weight;
+                    } else {
+                        coverage[i0] += (i0 + 1 - x0) * weight;
+                        for (let x = i0 + 1; x < i1; x++) coverage[x] += weight;
+                        coverage[i1] += (x1 - i1) * weight;
+                    }
+                    spanStart = Math.min(spanStart, i0);
+                    spanEnd = Math.max(spanEnd, Math.min(i1, width - 1));
+                };
+
+                for (let sample = 0; sample < samples; sample++) {
+                    const y = row + (sample + 0.5) / samples;
+                    while (next < edges.length && edges[next].y0 <= y) active.push(edges[next++]);
+                    active = active.filter(edge => edge.y1 > y);
+                    if (active.length === 0) continue;
+
+                    crossings.length = 0;
+                    for (const edge of active) {
+                        if (edge.y0 <= y) crossings.push({ x: edge.x0 + (y - edge.y0) * edge.slope, dir: edge.dir });
+                    }
+                    crossings.sort((a, b) => a.x - b.x);
+
+                    let winding = 0;
+                    let start = 0;
+                    for (const crossing of crossings) {
+                        const before = winding;
+                        winding += crossing.dir;
+                        if (before === 0 && winding !== 0) start = crossing.x;
+                        else if (before !== 0 && winding === 0) addSpan(start, crossing.x, 1 / samples);
+                    }
+                }
+
+                for (let x = spanStart; x <= spanEnd; x++) {
+                    const amount = Math.min(1, coverage[x]);
+                    coverage[x] = 0;
+                    if (amount > 0.001) blend((row * width + x) * 4, color, color.a * amount);
+                }
+                if (active.length === 0 && next >= edges.length) break;
+            }
+        },
+
+        toImage() {
+            return { width, height, data };
+        },
+    };
+}
+
+// =============================================================================
+// Geometry
+// =============================================================================
+
+/** Points of a circle or ellipse, counter-clockwise on screen */
+export function ellipsePolygon(cx: number, cy: number, rx: number, ry: number, segments = curveSegments(Math.max(rx, ry) * 2 * Math.PI)): Position[] {
+    const points: Position[] = [];
+    for (let i = 0; i < segments; i++) {
+        const angle = (i / segments) * Math.PI * 2;
+        points.push({ x: cx + rx * Math.cos(angle), y: cy - ry * Math.sin(angle) });
+    }
+    return points;
+}
+
+/** Segment count for a curve of the given length in pixels */
+export function curveSegments(length: number): number {
+    return Math.max(4, Math.min(256, Math.ceil(length / 2)));
+}
+
+/** Append a flattened cubic Bezier curve (without its start point) */
+export function flattenCubic(points: Position[], p0: Position, p1: Position, p2: Position, p3: Position, scale = 1): void {
+    const length = (distance(p0, p1) + distance(p1, p2) + distance(p2, p3)) * scale;
+    const segments = curveSegments(length);
+    for (let i = 1; i <= segments; i++) {
+        const t = i / segments;
+        const u = 1 - t;
+        points.push({
+            x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+            y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+        });
+    }
+}
+
+/** Signed area; positive for clockwise polygons in screen coordinates */
+function signedArea(polygon: Position[]): number {
+    let area = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const p = polygon[i];
+        const q = polygon[(i + 1) % polygon.length];
+        area += p.x * q.y - q.x * p.y;
+    }
+    return area / 2;
+}
+
+/** Same polygon with a positive signed area, so that pieces add up under the non-zero rule */
+function oriented(polygon: Position[]): Position[] {
+    return signedArea(polygon) < 0 ? polygon.reverse() : polygon;
+}
+
+const distance = (a: Position, b: Position) => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * Outline of a stroked polyline as polygons to fill with the non-zero rule:
+ * a quad per segment, round joins, and butt, round or square caps
+ */
+export function strokePolygons(polyline: Position[], closed: boolean, style: StrokeStyle): Position[][] {
+    const points = polyline.filter((point, i) => i === 0 || distance(point, polyline[i - 1]) > 1e-6);
+    if (closed && points.length > 1 && distance(points[0], points[points.length - 1]) <= 1e-6) points.pop();
+    if (points.length < 2 || style.width <= 0) return [];
+
+    const pieces = style.dash && style.dash.some(length => length > 0)
+        ? dashPieces(closed ? [...points, points[0]] : points, style.dash)
+        : [{ points, closed }];
+
+    const half = style.width / 2;
+    const join = (center: Position) => oriented(ellipsePolygon(center.x, center.y, half, half, curveSegments(Math.PI * style.width)));
+    const polygons: Position[][] = [];
+    for (const piece of pieces) {
+        const path = piece.points;
+        const count = piece.closed ? path.length : path.length - 1;
+        for (let i = 0; i < count; i++) {
+            let p = path[i];
+            let q = path[(i + 1) % path.length];
+            const length = distance(p, q);
+            if (length === 0) continue;
+            const dx = (q.x - p.x) / length;
+            const dy = (q.y - p.y) / length;
+            if (style.cap === 'square' && !piece.closed) {
+                if (i === 0) p = { x: p.x - dx * half, y: p.y - dy * half };
+                if (i === count - 1) q = { x: q.x + dx * half, y: q.y + dy * half };
+            }
+            const nx = -dy * half;
+            const ny = dx * half;
+            polygons.push(oriented([
+                { x: p.x + nx, y: p.y + ny },
+                { x: q.x + nx, y: q.y + ny },
+                { x: q.x - nx, y: q.y - ny },
+                { x: p.x - nx, y: p.y - ny },
+            ]));
+        }
+        const joins = piece.closed ? path : path.slice(1, -1);
+        polygons.push(...joins.map(join));
+        if (style.cap === 'round' && !piece.closed) {
+            polygons.push(join(path[0]), join(path[path.length - 1]));
+        }
+    }
+    return polygons;
+}
+
+/** Split a polyline into the visible pieces of a dash pattern */
+function dashPieces(points: Position[], dash: number[]): { points: Position[]; closed: boolean }[] {
+    const pattern = dash.length % 2 === 0 ? dash : [...dash, ...dash];
+    const pieces: { points: Position[]; closed: boolean }[] = [];
+    let index = 0;
+    let left = pattern[0];
+    let current: Position[] | undefined = [points[0]];
+
+    for (let i = 1; i < points.length; i++) {
+        let from = points[i - 1];
+        const to = points[i];
+        let remaining = distance(from, to);
+        while (remaining > 0) {
+            const step = Math.min(left, remaining);
+            const t = step / remaining;
+            const point = { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+            current?.push(point);
+            remaining -= step;
+            left -= step;
+            from = point;
+            if (left <= 1e-9) {
+                if (current && current.length > 1) pieces.push({ points: current, closed: false });
+                index = (index + 1) % pattern.length;
+                left = pattern[index];
+                current = index % 2 === 0 ? [point] : undefined;
+            }
+        }
+    }
+    if (current && current.length > 1) pieces.push({ points: current, closed: false });
+    return pieces;
+}
@@ -0,0 +1,342 @@
+/**
+ * State machine helpers
+ *
+ * Conversion between the generic IR (state nodes, composite groups and
+ * transition edges) and the nested state machine model, plus the
+ * `event [guard] / action` label grammar shared by the state parsers and
+ * generators.
+ */
+
+import type { Diagram, DiagramEdge, DiagramGroup, DiagramNode, NodeShape } from '../types';
+import type {
+    IRState,
+    IRStateDiagram,
+    IRStateNote,
+    IRTransition,
+    StateAction,
+    StateDirection,
+    StateNotePosition,
+    StateType,
+} from '../types/state';
+import { buildParentMap } from './group-hierarchy';
+
+/** State types to IR node shapes */
+const STATE_SHAPES: Record<StateType, NodeShape> = {
+    'state': 'rounded-rectangle',
+    'composite': 'rounded-rectangle',
+    'start': 'circle',
+    'end': 'circle',
+    'fork': 'rectangle', // Thin bar in actual rendering
+    'join': 'rectangle',
+    'choice': 'diamond',
+    'history': 'circle',
+    'deep-history': 'circle',
+};
+
+/** Event, guard and action of a transition label */
+export interface TransitionLabelParts {
+    event?: string;
+    guard?: string;
+    action?: string;
+}
+
+/** Split an `event [guard] / action` transition label */
+export function parseTransitionLabel(label: string): TransitionLabelParts {
+    const match = label.trim().match(/^([^[\]/]+)?(?:\[([^\]]+)\])?\s*(?:\/(.+))?$/);
+    if (!match) {
+        return { event: label.trim() || undefined };
+    }
+    return omitUndefined({
+        event: match[1]?.trim() || undefined,
+        guard: match[2]?.trim() || undefined,
+        action: match[3]?.trim() || undefined,
+    });
+}
+
+/** Display label of a transition: its own label or `event [guard] / action` */
+export function formatTransitionLabel(transition: IRTransition): string {
+    if (transition.label) {
+        return transition.label;
+    }
+    const parts: string[] = [];
+    if (transition.event) parts.push(transition.event);
+    if (transition.guard) parts.push(`[${transition.guard}]`);
+    if (transition.action) parts.push(`/ ${transition.action}`);
+    return parts.join(' ');
+}
+
+/** Visit every state depth-first, parents before children */
+export function walkStates(
+    states: IRState[],
+    visitor: (state: IRState, parent?: IRState) => void,
+    parent?: IRState
+): void {
+    for (const state of states) {
+        visitor(state, parent);
+        if (state.children) {
+            walkStates(state.children, visitor, state);
+        }
+    }
+}
+
+/**
+ * Group transitions by the innermost composite state that contains both
+ * ends; top-level transitions are keyed by `undefined`
+ */
+export function groupTransitionsByScope(stateDiagram: IRStateDiagram): Map<string | undefined, IRTransition[]> {
+    const parents = new Map<string, string>();
+    walkStates(stateDiagram.states, (state, parent) => {
+        if (parent) parents.set(state.id, parent.id);
+    });
+    const ancestors = (id: string): string[] => {
+        const chain: string[] = [];
+        for (let current = parents.get(id); current && !chain.includes(current); current = parents.get(current)) {
+            chain.push(current);
+        }
+        return chain;
+    };
+
+    const scopes = new Map<string | undefined, IRTransition[]>();
+    for (const transition of stateDiagram.transitions) {
+        const targetAncestors = new Set(ancestors(transition.target));
+        const scope = ancestors(transition.source).find(id => targetAncestors.has(id));
+        scopes.set(scope, [...(scopes.get(scope) ?? []), transition]);
+    }
+    return scopes;
+}
+
+/** Extract the state machine from a parsed diagram */
+export function extractStateData(diagram: Diagram): IRStateDiagram | null {
+    if (diagram.type !== 'state') {
+        return null;
+    }
+
+    const notes: IRStateNote[] = [];
+    const states = new Map<string, IRState>();
+    const incoming = new Set(diagram.edges.map(e => e.target));
+
+    for (const node of diagram.nodes) {
+        if (node.shape === 'note' && node.metadata?.noteFor) {
+            notes.push({
+                id: node.id,
+                stateId: node.metadata.noteFor as string,
+                position: (node.metadata.notePosition as StateNotePosition | undefined) ?? 'right',
+                text: node.label,
+            });
+            continue;
+        }
+        states.set(node.id, nodeToState(node, incoming.has(node.id)));
+    }
+
+    // Composite states come from groups; plain groups become composite states of their own
+    const groupStates = new Map<string, string>();
+    for (const group of diagram.groups) {
+        const compositeId = group.metadata?.compositeStateId as string | undefined;
+        if (compositeId && states.has(compositeId)) {
+            groupStates.set(group.id, compositeId);
+        } else if (!states.has(group.id)) {
+            states.set(group.id, groupToState(group));
+            groupStates.set(group.id, group.id);
+        }
+    }
+
+    const parents = new Map<string, string>();
+    for (const [childId, groupId] of buildParentMap(diagram.groups)) {
+        // Nested composite groups are listed as well, but only states take part
+        const parentId = groupStates.get(groupId);
+        if (parentId && states.has(childId) && childId !== parentId) {
+            parents.set(childId, parentId);
+        }
+    }
+
+    const topLevel: IRState[] = [];
+    for (const state of states.values()) {
+        const parent = states.get(parents.get(state.id) ?? '');
+        if (parent) {
+            parent.type = parent.type === 'state' ? 'composite' : parent.type;
+            parent.children = [...(parent.children ?? []), state];
+        } else {
+            topLevel.push(state);
+        }
+    }
+
+    const transitions: IRTransition[] = diagram.edges
+        .filter(edge => states.has(edge.source) && states.has(edge.target))
+        .map(edge => {
+            const { event, guard, action, ...rest } = edge.metadata ?? {};
+            const parts = event || guard || action
+                ? { event, guard, action } as TransitionLabelParts
+                : edge.label ? parseTransitionLabel(edge.label) : {};
+            return omitUndefined({
+                id: edge.id,
+                source: edge.source,
+                target: edge.target,
+                label: edge.label || undefined,
+                ...parts,
+                style: edge.style,
+                metadata: Object.keys(rest).length > 0 ? rest : undefined,
+            });
+        });
+
+    const direction = diagram.metadata?.direction as string | undefined;
+
+    return omitUndefined({
+        id: diagram.id,
+        title: diagram.name,
+        direction: direction === 'TD' ? 'TB' : direction as StateDirection | undefined,
+        states: topLevel,
+        transitions,
+        notes: notes.length > 0 ? notes : undefined,
+        metadata: diagram.metadata,
+    });
+}
+
+/** Embed a state machine into the generic IR */
+export function embedStateData(stateDiagram: IRStateDiagram): Diagram {
+    const nodes: DiagramNode[] = [];
+    const edges: DiagramEdge[] = [];
+    const groups: DiagramGroup[] = [];
+
+    const visit = (state: IRState): void => {
+        let label = state.description || state.label || state.id;
+        if (state.actions && state.actions.length > 0) {
+            label = [label, ...state.actions.map(a => `${a.type}/${a.action}`)].join('\n');
+        }
+
+        nodes.push({
+            id: state.id,
+            type: 'node',
+            label,
+            shape: STATE_SHAPES[state.type] ?? 'rounded-rectangle',
+            position: state.position,
+            size: state.size,
+            style: state.style || {},
+            metadata: omitUndefined({
+                stateType: state.type,
+                description: state.description,
+                actions: state.actions,
+                parallel: state.parallel,
+                ...state.metadata,
+            }),
+        });
+
+        if (state.children && state.children.length > 0) {
+            for (const child of state.children) {
+                visit(child);
+            }
+            groups.push({
+                id: `group_${state.id}`,
+                type: 'group',
+                label: state.label || state.id,
+                // Nested composite groups are listed too, so the group tree mirrors the states
+                children: state.children.flatMap(child =>
+                    child.children && child.children.length > 0 ? [child.id, `group_${child.id}`] : [child.id]
+                ),
+                style: {},
+                metadata: {
+                    compositeStateId: state.id,
+                },
+            });
+        }
+    };
+    stateDiagram.states.forEach(visit);
+
+    for (const transition of stateDiagram.transitions) {
+        const label = formatTransitionLabel(transition);
+        edges.push({
+            id: transition.id,
+            type: 'edge',
+            source: transition.source,
+            target: transition.target,
+            label: label || undefined,
+            arrow: {
+                sourceType: 'none',
+                targetType: 'arrow',
+                lineType: 'solid',
+            },
+            style: transition.style || {},
+            metadata: omitUndefined({
+                ...transition.metadata,
+                event: transition.event,
+                guard: transition.guard,
+                action: transition.action,
+            }),
+        });
+    }
+
+    for (const note of stateDiagram.notes ?? []) {
+        nodes.push({
+            id: note.id,
+            type: 'node',
+            label: note.text,
+            shape: 'note',
+            style: {},
+            metadata: {
+                noteFor: note.stateId,
+                notePosition: note.position,
+            },
+        });
+    }
+
+    return {
+        id: stateDiagram.id,
+        name: stateDiagram.title,
+        type: 'state',
+        nodes,
+        edges,
+        groups,
+        metadata: omitUndefined({
+            ...stateDiagram.metadata,
+            source: (stateDiagram.metadata?.source as string | undefined) ?? 'state',
+            direction: stateDiagram.direction,
+        }),
+    };
+}
+
+/** Convert an IR node to a state */
+function nodeToState(node: DiagramNode, hasIncoming: boolean): IRState {
+    const { stateType, description, actions, parallel, ...rest } = node.metadata ?? {};
+    const stateActions = actions as StateAction[] | undefined;
+
+    // Action lines were appended to the label for generic renderers
+    let label = node.label;
+    if (stateActions && stateActions.length > 0) {
+        label = label.split('\n').slice(0, -stateActions.length).join('\n') || node.id;
+    }
+
+    return omitUndefined({
+        id: node.id,
+        type: (stateType as StateType | undefined) ?? inferStateType(node, hasIncoming),
+        label,
+        description: description as string | undefined,
+        actions: stateActions,
+        parallel: parallel as boolean | undefined,
+        position: node.position,
+        size: node.size,
+        style: node.style,
+        metadata: Object.keys(rest).length > 0 ? rest : undefined,
+    });
+}
+
+/** State type of a node without state metadata */
+function inferStateType(node: DiagramNode, hasIncoming: boolean): StateType {
+    if (node.label === '[*]') {
+        return hasIncoming ? 'end' : 'start';
+    }
+    return node.shape === 'diamond' ? 'choice' : 'state';
+}
+
+/** Composite state for a plain group */
+function groupToState(group: DiagramGroup): IRState {
+    return {
+        id: group.id,
+        type: 'composite',
+        label: group.label || group.id,
+        children: [],
+    };
+}
+
+/** Drop undefined properties */
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -0,0 +1,209 @@
+/**
+ * Stroke font
+ *
+ * A single-line font for the printable ASCII range, drawn as polylines so
+ * that text can be rasterised without system fonts. Other characters are
+ * approximated: accents are dropped, Cyrillic is transliterated and
+ * anything left is drawn as a box.
+ *
+ * Glyphs are written on a grid with the cap height at y=0, the x-height at
+ * y=3, the baseline at y=9 and the descender at y=12. Each point is a digit
+ * for x and a base-36 digit for y; polylines are separated by spaces.
+ */
+
+import type { Position } from '../types';
+import { transliterateCyrillic } from './text-encoder';
+
+const GLYPHS: Record<string, string> = {
+    'A': '093069 1656',
+    'B': '004051534404 445558490900',
+    'C': '5140100108194958',
+    'D': '00305257390900',
+    'E': '50000959 0444',
+    'F': '500009 0444',
+    'G': '51401001081949585535',
+    'H': '0009 5059 0454',
+    'I': '1030 2029 1939',
+    'J': '404839190807',
+    'K': '0009 5005 2359',
+    'L': '000959',
+    'M': '0900346069',
+    'N': '09005950',
+    'O': '104051584919080110',
+    'P': '09004051534404',
+    'Q': '104051584919080110 3659',
+    'R': '09004051534404 3459',
+    'S': '514010010314445558491908',
+    'T': '0060 3039',
+    'U': '000819495850',
+    'V': '003960',
+    'W': '0029344970',
+    'X': '0059 5009',
+    'Y': '003460 3439',
+    'Z': '00500959',
+    'a': '13334449 45150608193948',
+    'b': '0009 0513334448391908',
+    'c': '4433130408193948',
+    'd': '4049 4533130408193948',
+    'e': '06464433130408193948',
+    'f': '4130201119 0333',
+    'g': '434b3c1c0b 4533130407183847',
+    'h': '0009 0513334449',
+    'i': '1319 1112',
+    'j': '232b1c0b 2122',
+    'k': '0009 4307 2549',
+    'l': '000819',
+    'm': '0309 0413233439 3443536469',
+    'n': '0309 0413334449',
+    'o': '133344483919080413',
+    'p': '030c 0513334448391908',
+    'q': '434c 4533130408193948',
+    'r': '0309 05133344',
+    's': '43130405163647483909',
+    't': '11182939 0333',
+    'u': '0308193948 4349',
+    'v': '032943',
+    'w': '0319355963',
+    'x': '0349 4309',
+    'y': '0329 431c0c',
+    'z': '03430949',
+    '0': '103041483919080110',
+    '1': '122029 1939',
+    '2': '01103041430949',
+    '3': '01103041433424 344548391908',
+    '4': '300646 3039',
+    '5': '400003334448391908',
+    '6': '4020020819394845341405',
+    '7': '004019',
+    '8': '103041433414030110 1405081939484534',
+    '9': '443414030110304147381807',
+    '!': '0006 0809',
+    '"': '0002 2022',
+    '#': '2019 4039 0353 0656',
+    '$': '514010010314445558491908 2029',
+    '%': '5009 0010110100 4858594948',
+    '&': '590201102031320507183856',
+    '\'': '0002',
+    '(': '20020729',
+    ')': '00222709',
+    '*': '2125 0244 0442',
+    '+': '2428 0646',
+    ',': '180a',
+    '-': '0646',
+    '.': '0809',
+    '/': '4009',
+    ':': '0304 0809',
+    ';': '0304 180a',
+    '<': '430649',
+    '=': '0545 0747',
+    '>': '034609',
+    '?': '01103041422426 2829',
+    '@': '462625344447576661501001081959',
+    '[': '20000929',
+    '\\': '0049',
+    ']': '00202909',
+    '^': '032043',
+    '_': '0a4a',
+    '`': '0011',
+    '{': '30212405262839',
+    '|': '000b',
+    '}': '00111435161809',
+    '~': '061525364655',
+};
+
+/** Drawn for characters without a glyph */
+const MISSING_GLYPH = '0040490900';
+
+/** Grid units per font size; the cap height is nine units */
+const UNIT = 0.716 / 9;
+
+/** Advance of a space, in grid units */
+const SPACE_ADVANCE = 4;
+
+interface Glyph {
+    strokes: Position[][];
+    advance: number;
+}
+
+const glyphCache = new Map<string, Glyph>();
+
+function glyph(char: string): Glyph {
+    const cached = glyphCache.get(char);
+    if (cached) return cached;
+    const strokes = (GLYPHS[char] ?? MISSING_GLYPH).split(' ').map(stroke =>
+        (stroke.match(/../g) ?? []).map(point => ({ x: parseInt(point[0], 36), y: parseInt(point[1], 36) - 9 }))
+    );
+    const maxX = Math.max(...strokes.flat().map(point => point.x));
+    const result = { strokes, advance: maxX + 2 };
+    glyphCache.set(char, result);
+    return result;
+}
+
+/** Replace characters without a glyph by their closest ASCII spelling */
+function toAscii(text: string): string {
+    return transliterateCyrillic(text).normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/[\u2018\u2019]/g, '\'')
+        .replace(/[\u201c\u201d\u00ab\u00bb]/g, '"')
+        .replace(/[\u2013\u2014\u2212]/g, '-')
+        .replace(/\u2026/g, '...')
+        .replace(/\s/g, ' ');
+}
+
+/** How the stroke font changes a text */
+export interface StrokeTextSubstitution {
+    /** The text as drawn, in ASCII */
+    drawn: string;
+    /** Some characters have no glyph and are drawn as boxes */
+    missing: boolean;
+}
+
+/** How a text is drawn in the stroke font; undefined when it is drawn as written */
+export function strokeTextSubstitution(text: string): StrokeTextSubstitution | undefined {
+    const drawn = toAscii(text);
+    const missing = [...drawn].some(char => char !== ' ' && GLYPHS[char] === undefined);
+    return missing || drawn !== text.replace(/\s/g, ' ') ? { drawn, missing } : undefined;
+}
+
+/** Stroke outlines of a line of text */
+export interface StrokeText {
+    /** Polylines with the baseline at y=0 and the text starting at x=0 */
+    strokes: Position[][];
+    width: number;
+}
+
+/** Lay out one line of text in the stroke font */
+export function layoutStrokeText(text: string, fontSize: number): StrokeText {
+    const unit = fontSize * UNIT;
+    const strokes: Position[][] = [];
+    let x = 0;
+    let gap = 0;
+    for (const char of toAscii(text)) {
+        if (char === ' ') {
+            x += SPACE_ADVANCE;
+            gap = 0;
+            continue;
+        }
+        const { strokes: outline, advance } = glyph(char);
+        for (const stroke of outline) {
+            strokes.push(stroke.map(point => ({ x: (x + point.x) * unit, y: point.y * unit })));
+        }
+        x += advance;
+        gap = 2;
+    }
+    // The gap after the last glyph is not part of the width
+    return { strokes, width: (x - gap) * unit };
+}
+
+/** Width of a text line in the stroke font */
+export function measureStrokeText(text: string, fontSize: number): number {
+    return layoutStrokeText(text, fontSize).width;
+}
+
+/** Vertical metrics of the stroke font, as fractions of the font size */
+export const STROKE_FONT_METRICS = {
+    capHeight: 9 * UNIT,
+    xHeight: 6 * UNIT,
+    descent: 3 * UNIT,
+    /** Line thickness of regular text */
+    weight: 0.075,
+};
@@ -0,0 +1,741 @@
+/**
+ * SVG rasteriser
+ *
+ * Renders the SVG written by the SVG generators to an RGBA bitmap without
+ * Canvas or a DOM: `g`, `rect`, `circle`, `ellipse`, `line`, `polyline`,
+ * `polygon`, `path` and `text`, with transforms, inherited presentation
+ * attributes and `style`, dashes, opacity, and start and end markers.
+ * Text is drawn in the built-in stroke font, so its metrics differ slightly
+ * from browser rendering, unless a canvas is requested and available.
+ * Gradients, patterns, clipping, filters, `use`
+ * and mid markers are not supported.
+ */
+
+import type { Position } from '../types';
+import { GeneratorError } from '../errors';
+import { parseXml, type XmlElement } from './xml';
+import { normalizeColor } from './style-mapper';
+import {
+    createRaster, curveSegments, ellipsePolygon, flattenCubic, strokePolygons,
+    type Raster, type Rgba, type RgbaImage, type TextRun,
+} from './raster';
+import { createCanvasRaster } from './canvas-raster';
+import { layoutStrokeText, STROKE_FONT_METRICS } from './stroke-font';
+
+/** SVG rasterisation options */
+export interface SvgRasterOptions {
+    /** Pixels per SVG user unit */
+    scale?: number;
+    /** Colour painted behind the drawing, or 'transparent' */
+    backgroundColor?: string;
+    antiAlias?: boolean;
+    /** Draw on an OffscreenCanvas or DOM canvas when there is one, so text uses system fonts */
+    canvas?: boolean;
+}
+
+/** Largest bitmap that will be allocated, in pixels */
+const MAX_PIXELS = 32 * 1024 * 1024;
+
+// =============================================================================
+// Entry Point
+// =============================================================================
+
+/** Render an SVG document to an RGBA bitmap */
+export function rasterizeSvg(svg: string, options: SvgRasterOptions = {}): RgbaImage {
+    const scale = options.scale ?? 1;
+    const root = parseXml(svg, 'svg').documentElement;
+    if (root.localName !== 'svg') {
+        throw new GeneratorError(`Expected an <svg> root element, found <${root.tagName}>`, 'png');
+    }
+
+    const viewBox = numbers(root.getAttribute('viewBox') ?? '');
+    const userWidth = length(root.getAttribute('width'), viewBox.length === 4 ? viewBox[2] : 300);
+    const userHeight = length(root.getAttribute('height'), viewBox.length === 4 ? viewBox[3] : 150);
+    const width = Math.max(1, Math.round(userWidth * scale));
+    const height = Math.max(1, Math.round(userHeight * scale));
+    if (!Number.isFinite(width * height) || width * height > MAX_PIXELS) {
+        throw new GeneratorError(`Image of ${width}x${height} pixels is too large to render`, 'png', { width, height });
+    }
+
+    let matrix: Matrix = [scale, 0, 0, scale, 0, 0];
+    if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+        // Uniform fit centered in the viewport, like preserveAspectRatio="xMidYMid meet"
+        const fit = Math.min(userWidth / viewBox[2], userHeight / viewBox[3]);
+        const offsetX = (userWidth - viewBox[2] * fit) / 2 - viewBox[0] * fit;
+        const offsetY = (userHeight - viewBox[3] * fit) / 2 - viewBox[1] * fit;
+        matrix = multiply(matrix, [fit, 0, 0, fit, offsetX, offsetY]);
+    }
+
+    const raster = (options.canvas && createCanvasRaster(width, height)) || createRaster(width, height, options.antiAlias ?? true);
+    const background = parsePaint(options.backgroundColor ?? 'transparent');
+    if (background) raster.clear(background);
+
+    const markers = new Map<string, XmlElement>();
+    for (const marker of root.querySelectorAll('marker')) {
+        const id = marker.getAttribute('id');
+        if (id) markers.set(id, marker);
+    }
+
+    const renderer: Renderer = { raster, markers, inMarker: false };
+    const context = elementContext(root, { props: DEFAULT_PROPS, matrix, opacity: 1 });
+    if (context) root.children.forEach(child => renderElement(child, context, renderer));
+    return raster.toImage();
+}
+
+// =============================================================================
+// Transforms
+// =============================================================================
+
+/** Affine matrix [a, b, c, d, e, f], as in SVG `matrix()` */
+type Matrix = [number, number, number, number, number, number];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+        m[0] * n[0] + m[2] * n[1],
+        m[1] * n[0] + m[3] * n[1],
+        m[0] * n[2] + m[2] * n[3],
+        m[1] * n[2] + m[3] * n[3],
+        m[0] * n[4] + m[2] * n[5] + m[4],
+        m[1] * n[4] + m[3] * n[5] + m[5],
+    ];
+}
+
+const apply = (m: Matrix, p: Position): Position => ({ x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] });
+
+/** Average length in pixels of one user unit */
+const matrixScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+const translation = (x: number, y: number): Matrix => [1, 0, 0, 1, x, y];
+
+const rotation = (angle: number): Matrix => [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+
+function parseTransform(text: string | null): Matrix {
+    let matrix: Matrix = [1, 0, 0, 1, 0, 0];
+    if (!text) return matrix;
+    for (const [, name, args] of text.matchAll(/([a-zA-Z]+)\s*\(([^)]*)\)/g)) {
+        const v = numbers(args);
+        let step: Matrix | undefined;
+        switch (name) {
+            case 'translate':
+                step = translation(v[0] ?? 0, v[1] ?? 0);
+                break;
+            case 'scale':
+                step = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+                break;
+            case 'rotate': {
+                const [cx = 0, cy = 0] = v.slice(1);
+                step = multiply(multiply(translation(cx, cy), rotation(((v[0] ?? 0) * Math.PI) / 180)), translation(-cx, -cy));
+                break;
+            }
+            case 'skewX':
+                step = [1, 0, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                step = [1, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+                break;
+            case 'matrix':
+                if (v.length === 6) step = v as Matrix;
+                break;
+        }
+        if (step) matrix = multiply(matrix, step);
+    }
+    return matrix;
+}
+
+// =============================================================================
+// Presentation Attributes
+// =============================================================================
+
+/** Inherited properties and their initial values */
+const DEFAULT_PROPS: Readonly<Record<string, string>> = {
+    'fill': 'black',
+    'fill-opacity': '1',
+    'stroke': 'none',
+    'stroke-width': '1',
+    'stroke-opacity': '1',
+    'stroke-dasharray': 'none',
+    'stroke-linecap': 'butt',
+    'font-size': '16',
+    'font-family': 'sans-serif',
+    'font-weight': 'normal',
+    'font-style': 'normal',
+    'text-anchor': 'start',
+    'dominant-baseline': 'auto',
+    'text-decoration': 'none',
+    'paint-order': 'normal',
+    'visibility': 'visible',
+    'marker-start': 'none',
+    'marker-end': 'none',
+};
+
+interface Context {
+    props: Readonly<Record<string, string>>;
+    matrix: Matrix;
+    opacity: number;
+}
+
+interface Renderer {
+    raster: Raster;
+    markers: Map<string, XmlElement>;
+    /** Markers are not drawn on marker content */
+    inMarker: boolean;
+}
+
+/** Context of an element from its attributes, or null when it is not displayed */
+function elementContext(element: XmlElement, parent: Context): Context | null {
+    const declared: Record<string, string> = {};
+    for (const name of [...Object.keys(DEFAULT_PROPS), 'opacity', 'display']) {
+        const value = element.getAttribute(name);
+        if (value !== null) declared[name] = value.trim();
+    }
+    for (const declaration of (element.getAttribute('style') ?? '').split(';')) {
+        const colon = declaration.indexOf(':');
+        if (colon > 0) declared[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).trim();
+    }
+    if (declared.display === 'none') return null;
+
+    const props = { ...parent.props };
+    for (const name of Object.keys(DEFAULT_PROPS)) {
+        if (declared[name] !== undefined && declared[name] !== 'inherit') props[name] = declared[name];
+    }
+    return {
+        props,
+        matrix: multiply(parent.matrix, parseTransform(element.getAttribute('transform'))),
+        opacity: parent.opacity * clamp(Number(declared.opacity ?? 1)),
+    };
+}
+
+const clamp = (value: number) => (Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 1);
+
+function numbers(text: string): number[] {
+    return (text.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+}
+
+/** Length attribute in user units; percentages are relative to `reference` */
+function length(value: string | null, fallback: number, reference = fallback): number {
+    if (value === null) return fallback;
+    const number = parseFloat(value);
+    if (!Number.isFinite(number)) return fallback;
+    return value.trim().endsWith('%') ? (number / 100) * reference : number;
+}
+
+/** CSS colours that the shared colour table spells differently or lacks */
+const CSS_COLORS: Record<string, string> = {
+    green: '#008000',
+    lime: '#00ff00',
+    navy: '#000080',
+    teal: '#008080',
+    maroon: '#800000',
+    olive: '#808000',
+    silver: '#c0c0c0',
+    aqua: '#00ffff',
+    fuchsia: '#ff00ff',
+    gold: '#ffd700',
+    beige: '#f5f5dc',
+    ivory: '#fffff0',
+    khaki: '#f0e68c',
+    coral: '#ff7f50',
+    salmon: '#fa8072',
+    tomato: '#ff6347',
+    crimson: '#dc143c',
+    violet: '#ee82ee',
+    indigo: '#4b0082',
+    lavender: '#e6e6fa',
+    turquoise: '#40e0d0',
+    skyblue: '#87ceeb',
+    steelblue: '#4682b4',
+    lightblue: '#add8e6',
+    lightgreen: '#90ee90',
+    lightyellow: '#ffffe0',
+    lightpink: '#ffb6c1',
+    darkblue: '#00008b',
+    darkgreen: '#006400',
+    darkred: '#8b0000',
+    dimgray: '#696969',
+    slategray: '#708090',
+    whitesmoke: '#f5f5f5',
+    gainsboro: '#dcdcdc',
+    aliceblue: '#f0f8ff',
+    honeydew: '#f0fff0',
+    wheat: '#f5deb3',
+};
+
+/** Colour of a fill or stroke, or null for none */
+export function parsePaint(value: string): Rgba | null {
+    const lower = value.trim().toLowerCase();
+    if (lower === '' || lower === 'none' || lower === 'transparent' || lower.startsWith('url(')) return null;
+
+    const functional = /^rgba?\(([^)]*)\)$/.exec(lower);
+    if (functional) {
+        const parts = functional[1].split(/[\s,/]+/).filter(Boolean);
+        const channel = (part: string) => (part.endsWith('%') ? (parseFloat(part) * 255) / 100 : parseFloat(part));
+        const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+        return { r: channel(parts[0]) || 0, g: channel(parts[1]) || 0, b: channel(parts[2]) || 0, a: clamp(alpha) };
+    }
+
+    const hex = (CSS_COLORS[lower] ?? normalizeColor(lower) ?? '').replace(/^#/, '');
+    if (/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) {
+        return {
+            r: parseInt(hex.slice(0, 2), 16),
+            g: parseInt(hex.slice(2, 4), 16),
+            b: parseInt(hex.slice(4, 6), 16),
+            a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+        };
+    }
+    if (/^[0-9a-f]{4}$/.test(hex)) {
+        const [r, g, b, a] = [...hex].map(digit => parseInt(digit + digit, 16));
+        return { r, g, b, a: a / 255 };
+    }
+    // Unknown colours render black rather than disappearing
+    return { r: 0, g: 0, b: 0, a: 1 };
+}
+
+// =============================================================================
+// Elements
+// =============================================================================
+
+interface Subpath {
+    points: Position[];
+    closed: boolean;
+}
+
+const NOT_RENDERED = new Set(['defs', 'marker', 'title', 'desc', 'metadata', 'style', 'script', 'symbol', 'clipPath', 'mask', 'pattern', 'linearGradient', 'radialGradient', 'filter']);
+
+function renderElement(element: XmlElement, parent: Context, renderer: Renderer): void {
+    if (NOT_RENDERED.has(element.localName)) return;
+    const context = elementContext(element, parent);
+    if (!context) return;
+
+    const attr = (name: string, fallback = 0) => length(element.getAttribute(name), fallback);
+    const detail = matrixScale(context.matrix);
+
+    switch (element.localName) {
+        case 'svg':
+        case 'g':
+        case 'a':
+        case 'switch':
+            for (const child of element.children) renderElement(child, context, renderer);
+            return;
+        case 'rect': {
+            const [x, y, w, h] = [attr('x'), attr('y'), attr('width'), attr('height')];
+            if (w <= 0 || h <= 0) return;
+            let rx = element.hasAttribute('rx') ? attr('rx') : attr('ry');
+            let ry = element.hasAttribute('ry') ? attr('ry') : rx;
+            rx = Math.min(Math.max(0, rx), w / 2);
+            ry = Math.min(Math.max(0, ry), h / 2);
+            paint([{ points: roundedRect(x, y, w, h, rx, ry, detail), closed: true }], context, renderer);
+            return;
+        }
+        case 'circle': {
+            const r = attr('r');
+            if (r > 0) paint([{ points: ellipsePolygon(attr('cx'), attr('cy'), r, r, curveSegments(2 * Math.PI * r * detail)), closed: true }], context, renderer);
+            return;
+        }
+        case 'ellipse': {
+            const [rx, ry] = [attr('rx'), attr('ry')];
+            if (rx > 0 && ry > 0) paint([{ points: ellipsePolygon(attr('cx'), attr('cy'), rx, ry, curveSegments(2 * Math.PI * Math.max(rx, ry) * detail)), closed: true }], context, renderer);
+            return;
+        }
+        case 'line':
+            paint([{ points: [{ x: attr('x1'), y: attr('y1') }, { x: attr('x2'), y: attr('y2') }], closed: false }], context, renderer);
+            return;
+        case 'polyline':
+        case 'polygon': {
+            const v = numbers(element.getAttribute('points') ?? '');
+            const points: Position[] = [];
+            for (let i = 0; i + 1 < v.length; i += 2) points.push({ x: v[i], y: v[i + 1] });
+            if (points.length > 0) paint([{ points, closed: element.localName === 'polygon' }], context, renderer);
+            return;
+        }
+        case 'path':
+            paint(parsePath(element.getAttribute('d') ?? '', detail), context, renderer);
+            return;
+        case 'text':
+            renderText(element, context, renderer);
+            return;
+    }
+}
+
+/** Outline of a rectangle with elliptical corners, clockwise on screen */
+function roundedRect(x: number, y: number, w: number, h: number, rx: number, ry: number, detail: number): Position[] {
+    if (rx <= 0 || ry <= 0) {
+        return [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }];
+    }
+    const segments = Math.max(2, Math.ceil(curveSegments((Math.PI / 2) * Math.max(rx, ry) * detail) / 4));
+    const corners: [number, number, number][] = [
+        [x + w - rx, y + ry, -Math.PI / 2],
+        [x + w - rx, y + h - ry, 0],
+        [x + rx, y + h - ry, Math.PI / 2],
+        [x + rx, y + ry, Math.PI],
+    ];
+    const points: Position[] = [];
+    for (const [cx, cy, start] of corners) {
+        for (let i = 0; i <= segments; i++) {
+            const angle = start + (i / segments) * (Math.PI / 2);
+            points.push({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) });
+        }
+    }
+    return points;
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+/** Flatten path data into polylines; `detail` is pixels per user unit */
+function parsePath(d: string, detail: number): Subpath[] {
+    const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+    const subpaths: Subpath[] = [];
+    let current: Subpath | undefined;
+    let pos = 0;
+    let command = '';
+    let point: Position = { x: 0, y: 0 };
+    let start: Position = { x: 0, y: 0 };
+    // Reflected control point for S and T
+    let control: Position | undefined;
+    let previous = '';
+
+    const hasNumber = () => pos < tokens.length && !/^[a-zA-Z]$/.test(tokens[pos]);
+    const next = () => Number(tokens[pos++]);
+    const flag = () => {
+        // Arc flags may be written without separators, e.g. "a5,5 0 011,1"
+        const token = tokens[pos];
+        if (token.length > 1 && /^[01]/.test(token)) {
+            tokens[pos] = token.slice(1);
+            return token[0] === '1';
+        }
+        pos++;
+        return token === '1';
+    };
+    const lineTo = (to: Position) => {
+        if (!current) {
+            current = { points: [point], closed: false };
+            subpaths.push(current);
+        }
+        current.points.push(to);
+        point = to;
+    };
+    const cubicTo = (c1: Position, c2: Position, to: Position) => {
+        if (!current) lineTo(point);
+        flattenCubic(current!.points, point, c1, c2, to, detail);
+        point = to;
+    };
+
+    while (pos < tokens.length) {
+        if (/^[a-zA-Z]$/.test(tokens[pos])) {
+            command = tokens[pos++];
+        } else if (!command) {
+            break;
+        }
+        const relative = command === command.toLowerCase();
+        const base = relative ? point : { x: 0, y: 0 };
+        const at = (x: number, y: number) => ({ x: base.x + x, y: base.y + y });
+        const upper = command.toUpperCase();
+
+        if (upper === 'Z') {
+            if (current) current.closed = true;
+            current = undefined;
+            point = start;
+            previous = 'Z';
+            control = undefined;
+            continue;
+        }
+        if (!hasNumber()) {
+            // A command without its parameters ends the path data
+            break;
+        }
+
+        switch (upper) {
+            case 'M':
+                point = at(next(), next());
+                start = point;
+                current = { points: [point], closed: false };
+                subpaths.push(current);
+                // Further coordinate pairs are implicit line-tos
+                command = relative ? 'l' : 'L';
+                control = undefined;
+                break;
+            case 'L':
+                lineTo(at(next(), next()));
+                control = undefined;
+                break;
+            case 'H':
+                lineTo({ x: (relative ? point.x : 0) + next(), y: point.y });
+                control = undefined;
+                break;
+            case 'V':
+                lineTo({ x: point.x, y: (relative ? point.y : 0) + next() });
+                control = undefined;
+                break;
+            case 'C': {
+                const c1 = at(next(), next());
+                const c2 = at(next(), next());
+                cubicTo(c1, c2, at(next(), next()));
+                control = c2;
+                break;
+            }
+            case 'S': {
+                const c1 = control && 'CS'.includes(previous) ? reflect(control, point) : point;
+                const c2 = at(next(), next());
+                cubicTo(c1, c2, at(next(), next()));
+                control = c2;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const q = upper === 'Q'
+                    ? at(next(), next())
+                    : control && 'QT'.includes(previous) ? reflect(control, point) : point;
+                const to = at(next(), next());
+                const from = point;
+                cubicTo(
+                    { x: from.x + (2 / 3) * (q.x - from.x), y: from.y + (2 / 3) * (q.y - from.y) },
+                    { x: to.x + (2 / 3) * (q.x - to.x), y: to.y + (2 / 3) * (q.y - to.y) },
+                    to
+                );
+                control = q;
+                break;
+            }
+            case 'A': {
+                const rx = Math.abs(next());
+                const ry = Math.abs(next());
+                const rotationAngle = next();
+                const large = flag();
+                const sweep = flag();
+                const to = at(next(), next());
+                if (!current) lineTo(point);
+                for (const arcPoint of arcPoints(point, to, rx, ry, rotationAngle, large, sweep, detail)) current!.points.push(arcPoint);
+                point = to;
+                control = undefined;
+                break;
+            }
+            default:
+                // Unknown commands end the path data
+                return subpaths;
+        }
+        previous = upper;
+    }
+    return subpaths;
+}
+
+const reflect = (control: Position, about: Position) => ({ x: 2 * about.x - control.x, y: 2 * about.y - control.y });
+
+/** Points of an elliptical arc after its start point (SVG implementation notes, F.6.5) */
+function arcPoints(from: Position, to: Position, rx: number, ry: number, rotationDegrees: number, large: boolean, sweep: boolean, detail: number): Position[] {
+    if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return [to];
+
+    const phi = (rotationDegrees * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (from.x - to.x) / 2;
+    const dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    // Scale radii up when they cannot span the endpoints
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const factor = (large === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = (factor * rx * y1) / ry;
+    const cy1 = (-factor * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const segments = curveSegments(Math.abs(delta) * Math.max(rx, ry) * detail);
+    const points: Position[] = [];
+    for (let i = 1; i < segments; i++) {
+        const t = theta + (delta * i) / segments;
+        const ex = rx * Math.cos(t);
+        const ey = ry * Math.sin(t);
+        points.push({ x: cx + cos * ex - sin * ey, y: cy + sin * ex + cos * ey });
+    }
+    points.push(to);
+    return points;
+}
+
+// =============================================================================
+// Painting
+// =============================================================================
+
+function withAlpha(color: Rgba, alpha: number): Rgba {
+    return { ...color, a: color.a * alpha };
+}
+
+/** Stroke width in pixels and dash pattern of a context */
+function strokeGeometry(context: Context): { width: number; dash?: number[] } {
+    const scale = matrixScale(context.matrix);
+    const width = Math.max(0, Number(parseFloat(context.props['stroke-width'])) || 0) * scale;
+    const dash = numbers(context.props['stroke-dasharray'] === 'none' ? '' : context.props['stroke-dasharray'])
+        .map(value => Math.max(0, value) * scale);
+    return { width, dash: dash.length > 0 ? dash : undefined };
+}
+
+/** Fill and stroke shapes given in user space, then draw their markers */
+function paint(subpaths: Subpath[], context: Context, renderer: Renderer): void {
+    const { props, matrix } = context;
+    if (subpaths.length === 0 || props.visibility === 'hidden' || props.visibility === 'collapse') return;
+    const device = subpaths.map(subpath => ({ points: subpath.points.map(p => apply(matrix, p)), closed: subpath.closed }));
+
+    const fill = parsePaint(props.fill);
+    if (fill) {
+        renderer.raster.fill(device.map(subpath => subpath.points), withAlpha(fill, context.opacity * clamp(Number(props['fill-opacity']))));
+    }
+
+    const stroke = parsePaint(props.stroke);
+    const geometry = strokeGeometry(context);
+    if (stroke && geometry.width > 0) {
+        const cap = props['stroke-linecap'] === 'round' || props['stroke-linecap'] === 'square' ? props['stroke-linecap'] : 'butt';
+        const polygons = device.flatMap(subpath => strokePolygons(subpath.points, subpath.closed, { ...geometry, cap }));
+        renderer.raster.fill(polygons, withAlpha(stroke, context.opacity * clamp(Number(props['stroke-opacity']))));
+    }
+
+    if (!renderer.inMarker) renderMarkers(subpaths, context, renderer);
+}
+
+/** Direction of travel at the start or end of a polyline, skipping zero-length segments */
+function direction(points: Position[], atEnd: boolean): number {
+    const ordered = atEnd ? [...points].reverse() : points;
+    for (let i = 1; i < ordered.length; i++) {
+        const dx = ordered[i].x - ordered[0].x;
+        const dy = ordered[i].y - ordered[0].y;
+        if (Math.hypot(dx, dy) > 1e-9) return atEnd ? Math.atan2(-dy, -dx) : Math.atan2(dy, dx);
+    }
+    return 0;
+}
+
+function renderMarkers(subpaths: Subpath[], context: Context, renderer: Renderer): void {
+    const first = subpaths[0].points;
+    const last = subpaths[subpaths.length - 1].points;
+    const vertices = [
+        { property: 'marker-start', point: first[0], angle: direction(first, false), start: true },
+        { property: 'marker-end', point: last[last.length - 1], angle: direction(last, true), start: false },
+    ];
+    const strokeWidth = Math.max(0, parseFloat(context.props['stroke-width']) || 0);
+
+    for (const { property, point, angle, start } of vertices) {
+        const id = /url\(\s*['"]?#([^'")]+)['"]?\s*\)/.exec(context.props[property])?.[1];
+        const marker = id ? renderer.markers.get(id) : undefined;
+        if (!marker || !point) continue;
+
+        const orient = marker.getAttribute('orient') ?? '0';
+        const rotationAngle = orient === 'auto' ? angle
+            : orient === 'auto-start-reverse' ? angle + (start ? Math.PI : 0)
+                : (parseFloat(orient) || 0) * Math.PI / 180;
+        const units = marker.getAttribute('markerUnits') === 'userSpaceOnUse' ? 1 : strokeWidth;
+
+        let matrix = multiply(context.matrix, translation(point.x, point.y));
+        matrix = multiply(matrix, rotation(rotationAngle));
+        matrix = multiply(matrix, [units, 0, 0, units, 0, 0]);
+        const viewBox = numbers(marker.getAttribute('viewBox') ?? '');
+        if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+            const fit = Math.min(length(marker.getAttribute('markerWidth'), 3) / viewBox[2], length(marker.getAttribute('markerHeight'), 3) / viewBox[3]);
+            matrix = multiply(matrix, [fit, 0, 0, fit, -viewBox[0] * fit, -viewBox[1] * fit]);
+        }
+        matrix = multiply(matrix, translation(-length(marker.getAttribute('refX'), 0), -length(marker.getAttribute('refY'), 0)));
+
+        // Marker content inherits from the marker, not from the referencing element
+        const markerContext = elementContext(marker, { props: DEFAULT_PROPS, matrix, opacity: context.opacity });
+        if (!markerContext) continue;
+        markerContext.matrix = matrix;
+        renderer.inMarker = true;
+        for (const child of marker.children) renderElement(child, markerContext, renderer);
+        renderer.inMarker = false;
+    }
+}
+
+// =============================================================================
+// Text
+// =============================================================================
+
+/** Baseline offset for dominant-baseline values, as a fraction of the font size */
+const BASELINE_SHIFT: Record<string, number> = {
+    'middle': STROKE_FONT_METRICS.xHeight / 2,
+    'central': STROKE_FONT_METRICS.capHeight / 2,
+    'hanging': STROKE_FONT_METRICS.capHeight,
+    'text-before-edge': STROKE_FONT_METRICS.capHeight,
+    'text-top': STROKE_FONT_METRICS.capHeight,
+    'text-after-edge': -STROKE_FONT_METRICS.descent,
+    'text-bottom': -STROKE_FONT_METRICS.descent,
+    'ideographic': -STROKE_FONT_METRICS.descent,
+};
+
+/** Horizontal shear of italic text */
+const ITALIC_SLANT = 0.2;
+
+function renderText(element: XmlElement, context: Context, renderer: Renderer): void {
+    const { props } = context;
+    const content = element.textContent.replace(/\s+/g, ' ').trim();
+    if (!content || props.visibility === 'hidden' || props.visibility === 'collapse') return;
+
+    const fontSize = Math.max(0, parseFloat(props['font-size']) || 16);
+    const x = (numbers(element.getAttribute('x') ?? '')[0] ?? 0) + (numbers(element.getAttribute('dx') ?? '')[0] ?? 0);
+    const y = (numbers(element.getAttribute('y') ?? '')[0] ?? 0) + (numbers(element.getAttribute('dy') ?? '')[0] ?? 0);
+    if (renderer.raster.fillText) {
+        renderer.raster.fillText(textRun(content, x, y, fontSize, context));
+        return;
+    }
+
+    const layout = layoutStrokeText(content, fontSize);
+    const anchor = props['text-anchor'] === 'middle' ? 0.5 : props['text-anchor'] === 'end' ? 1 : 0;
+    const left = x - layout.width * anchor;
+    const baseline = y + (BASELINE_SHIFT[props['dominant-baseline']] ?? 0) * fontSize;
+    const slant = props['font-style'] === 'italic' || props['font-style'] === 'oblique' ? ITALIC_SLANT : 0;
+
+    const strokes = layout.strokes.map(stroke => stroke.map(p => apply(context.matrix, { x: left + p.x - p.y * slant, y: baseline + p.y })));
+    if (props['text-decoration'].includes('underline')) {
+        const offset = fontSize * STROKE_FONT_METRICS.descent / 2;
+        strokes.push([apply(context.matrix, { x: left, y: baseline + offset }), apply(context.matrix, { x: left + layout.width, y: baseline + offset })]);
+    }
+
+    const scale = matrixScale(context.matrix);
+    const weight = props['font-weight'];
+    const bold = weight === 'bold' || weight === 'bolder' || Number(weight) >= 600;
+    const lineWidth = fontSize * STROKE_FONT_METRICS.weight * (bold ? 1.5 : 1) * scale;
+    const outline = (width: number) => strokes.flatMap(stroke => strokePolygons(stroke, false, { width, cap: 'round' }));
+
+    // Strokes on text are drawn as a halo behind the glyphs
+    const stroke = parsePaint(props.stroke);
+    const geometry = strokeGeometry(context);
+    if (stroke && geometry.width > 0) {
+        renderer.raster.fill(outline(lineWidth + geometry.width), withAlpha(stroke, context.opacity * clamp(Number(props['stroke-opacity']))));
+    }
+    const fill = parsePaint(props.fill);
+    if (fill) {
+        renderer.raster.fill(outline(lineWidth), withAlpha(fill, context.opacity * clamp(Number(props['fill-opacity']))));
+    }
+}
+
+/** Text, font and paint of a `text` element for rasters that draw text themselves */
+function textRun(text: string, x: number, y: number, fontSize: number, context: Context): TextRun {
+    const { props } = context;
+    const stroke = parsePaint(props.stroke);
+    const strokeWidth = Math.max(0, parseFloat(props['stroke-width']) || 0);
+    const fill = parsePaint(props.fill);
+    return {
+        text,
+        matrix: context.matrix,
+        x,
+        y,
+        font: `${props['font-style']} ${props['font-weight']} ${fontSize}px ${props['font-family']}`,
+        fontSize,
+        anchor: props['text-anchor'] === 'middle' || props['text-anchor'] === 'end' ? props['text-anchor'] : 'start',
+        baseline: props['dominant-baseline'],
+        underline: props['text-decoration'].includes('underline'),
+        fill: fill && withAlpha(fill, context.opacity * clamp(Number(props['fill-opacity']))),
+        stroke: stroke && strokeWidth > 0
+            ? { color: withAlpha(stroke, context.opacity * clamp(Number(props['stroke-opacity']))), width: strokeWidth }
+            : null,
+    };
+}
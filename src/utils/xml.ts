@@ -0,0 +1,364 @@
+/**
+ * Portable XML reader
+ *
+ * A small non-validating XML parser that builds a read-only element tree
+ * with the subset of the DOM API used by the XML parsers (Draw.io, BPMN,
+ * GraphML, SCXML). It needs neither DOMParser nor `document`, so it behaves
+ * the same in browsers, Node.js and Web Workers.
+ *
+ * Supported: elements, attributes, text, CDATA, the predefined and numeric
+ * entities, comments, processing instructions and a skipped DOCTYPE.
+ * Selectors: type and `*` selectors, `[attr]` / `[attr="value"]`,
+ * `:scope`, and the descendant and `>` combinators.
+ */
+
+import { decodeHTML } from 'entities';
+import { ParseError } from '../errors';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Element of a parsed XML document */
+export interface XmlElement {
+    /** Qualified name as written, e.g. `bpmn:process` */
+    readonly tagName: string;
+    /** Name without the namespace prefix */
+    readonly localName: string;
+    readonly prefix: string | null;
+    readonly parentElement: XmlElement | null;
+    /** Child elements, skipping text and comments */
+    readonly children: XmlElement[];
+    /** Text of all descendants */
+    readonly textContent: string;
+    getAttribute(name: string): string | null;
+    hasAttribute(name: string): boolean;
+    getAttributeNames(): string[];
+    /** First descendant matching the selector */
+    querySelector(selector: string): XmlElement | null;
+    /** All descendants matching the selector, in document order */
+    querySelectorAll(selector: string): XmlElement[];
+    /** The element itself or its nearest ancestor matching the selector */
+    closest(selector: string): XmlElement | null;
+    /** Replace the content of the element with other elements */
+    replaceChildren(...elements: XmlElement[]): void;
+}
+
+/** Parsed XML document */
+export interface XmlDocument {
+    readonly documentElement: XmlElement;
+    querySelector(selector: string): XmlElement | null;
+    querySelectorAll(selector: string): XmlElement[];
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+const NAME = /[A-Za-z_:\u00C0-\uFFFF][\w:.\-\u00B7\u00C0-\uFFFF]*/y;
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Parse an XML document
+ *
+ * @param source - XML text
+ * @param format - Input format reported in parse errors
+ * @throws ParseError with line and column when the XML is not well-formed
+ */
+export function parseXml(source: string, format: string): XmlDocument {
+    let pos = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+    const stack: XmlNode[] = [];
+    let root: XmlNode | undefined;
+
+    const fail = (message: string, at = pos): never => {
+        const before = source.slice(0, at).split('\n');
+        throw new ParseError(`Invalid XML: ${message}`, format, before.length, before[before.length - 1].length + 1);
+    };
+    const skipTo = (terminator: string, what: string) => {
+        const end = source.indexOf(terminator, pos);
+        if (end < 0) fail(`Unterminated ${what}`);
+        pos = end + terminator.length;
+    };
+    const readName = () => {
+        NAME.lastIndex = pos;
+        const match = NAME.exec(source);
+        if (!match) fail('Expected a name');
+        pos += match![0].length;
+        return match![0];
+    };
+    const skipSpace = () => {
+        while (pos < source.length && /\s/.test(source[pos])) pos++;
+    };
+
+    while (pos < source.length) {
+        const current = stack[stack.length - 1];
+        if (source.startsWith('<!--', pos)) {
+            skipTo('-->', 'comment');
+        } else if (source.startsWith('<![CDATA[', pos)) {
+            if (!current) fail('CDATA outside the root element');
+            const start = pos + 9;
+            skipTo(']]>', 'CDATA section');
+            current.content.push(source.slice(start, pos - 3));
+        } else if (source.startsWith('<?', pos)) {
+            skipTo('?>', 'processing instruction');
+        } else if (source.startsWith('<!DOCTYPE', pos)) {
+            if (current || root) fail('Unexpected DOCTYPE');
+            skipDoctype();
+        } else if (source.startsWith('</', pos)) {
+            const at = pos;
+            pos += 2;
+            const name = readName();
+            skipSpace();
+            if (source[pos] !== '>') fail(`Expected ">" to close </${name}`);
+            pos++;
+            if (!current) fail(`Unexpected closing tag </${name}>`, at);
+            if (current.tagName !== name) fail(`Expected </${current.tagName}> but found </${name}>`, at);
+            stack.pop();
+        } else if (source[pos] === '<') {
+            if (!current && root) fail('Content after the root element');
+            pos++;
+            const element = new XmlNode(readName(), current ?? null);
+            readAttributes(element);
+            if (current) current.content.push(element);
+            else root = element;
+            if (source.startsWith('/>', pos)) {
+                pos += 2;
+            } else if (source[pos] === '>') {
+                pos++;
+                stack.push(element);
+            } else {
+                fail(`Expected ">" to close <${element.tagName}>`);
+            }
+        } else {
+            const start = pos;
+            const end = source.indexOf('<', pos);
+            pos = end < 0 ? source.length : end;
+            const text = source.slice(start, pos);
+            if (current) current.content.push(decodeXml(text.replace(/\r\n?/g, '\n'), start));
+            else if (text.trim()) fail(root ? 'Content after the root element' : 'Text before the root element', start);
+        }
+    }
+
+    if (stack.length > 0) fail(`Unclosed element <${stack[stack.length - 1].tagName}>`);
+    if (!root) fail('Missing root element');
+    return new XmlDocumentNode(root!);
+
+    function readAttributes(element: XmlNode) {
+        for (;;) {
+            const hadSpace = /\s/.test(source[pos] ?? '');
+            skipSpace();
+            if (pos >= source.length || source[pos] === '>' || source.startsWith('/>', pos)) return;
+            if (!hadSpace) fail('Expected whitespace between attributes');
+            const name = readName();
+            skipSpace();
+            if (source[pos] !== '=') fail(`Expected "=" after attribute ${name}`);
+            pos++;
+            skipSpace();
+            const quote = source[pos];
+            if (quote !== '"' && quote !== "'") fail(`Expected a quoted value for attribute ${name}`);
+            const start = pos + 1;
+            const end = source.indexOf(quote, start);
+            if (end < 0) fail(`Unterminated value of attribute ${name}`);
+            const raw = source.slice(start, end);
+            if (raw.includes('<')) fail(`"<" in the value of attribute ${name}`, start + raw.indexOf('<'));
+            if (element.attributes.has(name)) fail(`Duplicate attribute ${name}`);
+            // Attribute-value normalisation: literal line breaks and tabs become spaces
+            element.attributes.set(name, decodeXml(raw.replace(/\r\n|[\t\n\r]/g, ' '), start));
+            pos = end + 1;
+        }
+    }
+
+    function skipDoctype() {
+        let depth = 0;
+        for (; pos < source.length; pos++) {
+            const char = source[pos];
+            if (char === '[') depth++;
+            else if (char === ']') depth--;
+            else if (char === '>' && depth === 0) {
+                pos++;
+                return;
+            }
+        }
+        fail('Unterminated DOCTYPE');
+    }
+
+    function decodeXml(text: string, at: number): string {
+        if (!text.includes('&')) return text;
+        return text.replace(/&([^;&\s]*);?/g, (match, name: string, offset: number) => {
+            const decoded = match.endsWith(';') ? decodeReference(name, XML_ENTITIES) : undefined;
+            return decoded ?? fail(`Undefined entity ${match}`, at + offset);
+        });
+    }
+}
+
+/** Character or named reference without `&` and `;`; undefined when unknown */
+function decodeReference(name: string, entities: Record<string, string>): string | undefined {
+    if (name.startsWith('#')) {
+        const code = /^#x[\da-f]+$/i.test(name) ? parseInt(name.slice(2), 16)
+            : /^#\d+$/.test(name) ? parseInt(name.slice(1), 10) : NaN;
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : undefined;
+    }
+    return Object.prototype.hasOwnProperty.call(entities, name) ? entities[name] : undefined;
+}
+
+// =============================================================================
+// Tree
+// =============================================================================
+
+class XmlNode implements XmlElement {
+    readonly localName: string;
+    readonly prefix: string | null;
+    readonly attributes = new Map<string, string>();
+    /** Child elements and text, in document order */
+    content: (XmlNode | string)[] = [];
+
+    constructor(readonly tagName: string, public parentElement: XmlNode | null) {
+        const colon = tagName.indexOf(':');
+        this.prefix = colon > 0 ? tagName.slice(0, colon) : null;
+        this.localName = colon > 0 ? tagName.slice(colon + 1) : tagName;
+    }
+
+    get children(): XmlNode[] {
+        return this.content.filter((child): child is XmlNode => typeof child !== 'string');
+    }
+
+    get textContent(): string {
+        return this.content.map(child => typeof child === 'string' ? child : child.textContent).join('');
+    }
+
+    getAttribute(name: string): string | null {
+        return this.attributes.get(name) ?? null;
+    }
+
+    hasAttribute(name: string): boolean {
+        return this.attributes.has(name);
+    }
+
+    getAttributeNames(): string[] {
+        return [...this.attributes.keys()];
+    }
+
+    querySelector(selector: string): XmlNode | null {
+        return this.querySelectorAll(selector)[0] ?? null;
+    }
+
+    querySelectorAll(selector: string): XmlNode[] {
+        const steps = parseSelector(selector);
+        return descendants(this).filter(element => matchSteps(element, steps, steps.length - 1, this));
+    }
+
+    closest(selector: string): XmlNode | null {
+        const steps = parseSelector(selector);
+        if (matchSteps(this, steps, steps.length - 1, this)) return this;
+        for (let ancestor = this.parentElement; ancestor; ancestor = ancestor.parentElement) {
+            if (matchSteps(ancestor, steps, steps.length - 1, this)) return ancestor;
+        }
+        return null;
+    }
+
+    replaceChildren(...elements: XmlElement[]): void {
+        for (const child of this.children) child.parentElement = null;
+        this.content = elements.map(element => {
+            const node = element as XmlNode;
+            node.parentElement = this;
+            return node;
+        });
+    }
+}
+
+class XmlDocumentNode implements XmlDocument {
+    constructor(readonly documentElement: XmlNode) {}
+
+    querySelector(selector: string): XmlNode | null {
+        return this.querySelectorAll(selector)[0] ?? null;
+    }
+
+    querySelectorAll(selector: string): XmlNode[] {
+        const steps = parseSelector(selector);
+        const root = this.documentElement;
+        return [root, ...descendants(root)].filter(element => matchSteps(element, steps, steps.length - 1, root));
+    }
+}
+
+/** Descendants in document order */
+function descendants(element: XmlNode): XmlNode[] {
+    const result: XmlNode[] = [];
+    const visit = (parent: XmlNode) => {
+        for (const child of parent.children) {
+            result.push(child);
+            visit(child);
+        }
+    };
+    visit(element);
+    return result;
+}
+
+// =============================================================================
+// Selectors
+// =============================================================================
+
+interface SelectorStep {
+    /** Relation to the previous step */
+    combinator: ' ' | '>';
+    scope: boolean;
+    tag?: string;
+    attributes: { name: string; value?: string }[];
+}
+
+const STEP = /\s*(>)?\s*(:scope|[\w*:.-]+)?((?:\[[^\]]+\])*)/y;
+
+function parseSelector(selector: string): SelectorStep[] {
+    const steps: SelectorStep[] = [];
+    STEP.lastIndex = 0;
+    const source = selector.trim();
+    while (STEP.lastIndex < source.length) {
+        const start = STEP.lastIndex;
+        const match = STEP.exec(source);
+        if (!match || STEP.lastIndex === start || (!match[2] && !match[3])) {
+            throw new Error(`Unsupported selector: ${selector}`);
+        }
+        const attributes = [...match[3].matchAll(/\[\s*([\w:.-]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]*)))?\s*\]/g)]
+            .map(([, name, double, single, bare]) => ({ name, value: double ?? single ?? bare }));
+        steps.push({
+            combinator: match[1] ? '>' : ' ',
+            scope: match[2] === ':scope',
+            tag: match[2] && match[2] !== ':scope' && match[2] !== '*' ? match[2] : undefined,
+            attributes,
+        });
+    }
+    return steps;
+}
+
+/** Match steps[0..index] with the element at steps[index], right to left */
+function matchSteps(element: XmlNode, steps: SelectorStep[], index: number, scope: XmlNode): boolean {
+    const step = steps[index];
+    if (step.scope && element !== scope) return false;
+    if (step.tag && step.tag !== element.localName && step.tag !== element.tagName) return false;
+    if (step.attributes.some(({ name, value }) => value === undefined ? !element.hasAttribute(name) : element.getAttribute(name) !== value)) {
+        return false;
+    }
+    if (index === 0) return true;
+
+    if (step.combinator === '>') {
+        return !!element.parentElement && matchSteps(element.parentElement, steps, index - 1, scope);
+    }
+    for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+        if (matchSteps(ancestor, steps, index - 1, scope)) return true;
+    }
+    return false;
+}
+
+// =============================================================================
+// HTML Entities
+// =============================================================================
+
+/**
+ * Decode HTML character references, as a browser does for element text:
+ * every HTML5 named reference, including the legacy ones written without
+ * a semicolon, and decimal and hex references; unknown references are
+ * kept as written
+ */
+export function decodeHtmlEntities(text: string): string {
+    return text.includes('&') ? decodeHTML(text) : text;
+}